@@ -3,3 +3,5 @@ export * from './types/index.js'
 
 // Re-export utility functions
 export * from './utils/pathNormalization.js'
+export * from './utils/testId.js'
+export * from './utils/reportExport.js'
@@ -3,7 +3,8 @@ export interface TestResult {
     testId: string
     name: string
     filePath: string
-    status: 'passed' | 'failed' | 'skipped' | 'pending'
+    // 'flaky' is derived by the server: the execution passed on a retry after a failed attempt
+    status: 'passed' | 'failed' | 'skipped' | 'pending' | 'flaky'
     duration: number
     errorMessage?: string
     metadata?: TestMetadata
@@ -13,9 +14,17 @@ export interface TestResult {
     updated_at?: string
     runId: string
     rerunCount?: number
+    // Playwright retry index of this attempt (0 = first attempt)
+    retryCount?: number
+    // Id of the first attempt of the execution this attempt belongs to
+    executionId?: string
+    // Every attempt of a retried execution, first to last (absent without retries)
+    attempts?: TestResult[]
     steps?: TestStep[]
     attachments?: Attachment[]
     note?: TestNote
+    // Set while the test is quarantined (expired quarantines are not joined)
+    quarantine?: TestQuarantine
     // ISO timestamp set when this execution's attachments were stripped to free
     // disk space (the execution itself is kept for history/timeline). Undefined
     // means attachments were never purged.
@@ -32,12 +41,23 @@ export interface ConsoleEntry {
     timestamp: string
 }
 
+// Playwright annotation, e.g. {type: 'issue', description: 'https://...'} or {type: 'fixme'}
+export interface TestAnnotation {
+    type: string
+    description?: string
+}
+
 export interface TestMetadata {
     steps?: TestStep[]
     console?: {
         entries: ConsoleEntry[]
         truncated?: boolean
     }
+    annotations?: TestAnnotation[]
+    // Playwright tags including the leading '@', e.g. ['@smoke', '@slow']
+    tags?: string[]
+    // Describe blocks and test title, outermost first
+    titlePath?: string[]
     // Allow forward-compatible extra metadata without breaking consumers
     [key: string]: unknown
 }
@@ -49,6 +69,22 @@ export interface TestNote {
     updatedAt: string
 }
 
+// Known-flaky test whose failures don't fail the pipeline
+export interface TestQuarantine {
+    testId: string
+    reason: string
+    // ISO timestamp; absent = quarantined until released
+    expiresAt?: string
+    createdAt: string
+}
+
+export interface QuarantinedTest extends TestQuarantine {
+    // From the test's latest execution
+    name: string
+    filePath: string
+    project?: string
+}
+
 export interface NoteImage {
     id: string
     testId: string
@@ -59,21 +95,158 @@ export interface NoteImage {
     createdAt: string
 }
 
+export interface TestStepLocation {
+    file: string
+    line: number
+    column: number
+}
+
 export interface TestStep {
     title: string
     duration: number
     error?: string
     category: string
+    // Milliseconds between the start of the attempt and the start of the step
+    // (absent on results recorded before nested steps were captured)
+    startOffset?: number
+    location?: TestStepLocation
+    steps?: TestStep[]
+}
+
+export interface TestRunMetadata {
+    type?: 'run-all' | 'run-group' | 'rerun' | 'rerun-failed' | 'run-selection'
+    // 'script' for CI triggers (scripts/trigger-test-run.js), 'schedule' for scheduled runs
+    triggeredFrom?: 'dashboard' | 'script' | 'schedule'
+    project?: string
+    filePath?: string
+    // Set when the run is a step of a pipeline
+    pipelineRunId?: string
+    // Set on runs created from an imported Playwright JSON or JUnit XML report
+    imported?: boolean
+    format?: string
+    fileName?: string
+    [key: string]: any
 }
 
 export interface TestRun {
     id: string
     createdAt: string
-    status: 'running' | 'completed'
+    // interrupted: cancelled from the dashboard while running, or cut off by a server restart
+    status: 'running' | 'completed' | 'failed' | 'interrupted'
     totalTests: number
     passedTests: number
     failedTests: number
     skippedTests: number
+    duration?: number
+    metadata?: TestRunMetadata
+}
+
+export interface RunComparisonEntry {
+    testId: string
+    name: string
+    filePath: string
+    project?: string
+    // The test's execution in each run (absent for added/removed tests)
+    base?: TestResult
+    head?: TestResult
+    // Relative duration change in percent, set for duration changes
+    durationChange?: number
+}
+
+export interface RunComparison {
+    base: TestRun
+    head: TestRun
+    // Minimum relative duration change (percent) reported as slower/faster
+    durationThreshold: number
+    newlyFailing: RunComparisonEntry[]
+    newlyPassing: RunComparisonEntry[]
+    stillFailing: RunComparisonEntry[]
+    added: RunComparisonEntry[]
+    removed: RunComparisonEntry[]
+    slower: RunComparisonEntry[]
+    faster: RunComparisonEntry[]
+}
+
+// Durations in milliseconds of passed executions, percentiles by nearest rank
+export interface DurationStats {
+    samples: number
+    p50: number
+    p95: number
+    min: number
+    max: number
+}
+
+export interface TestDurationStats extends DurationStats {
+    testId: string
+    days: number
+}
+
+export interface DurationLeaderboardEntry extends DurationStats {
+    testId: string
+    name: string
+    filePath: string
+    project?: string
+    // Median of the window before, and the relative change in percent (slowdowns only)
+    previousP50?: number
+    change?: number
+}
+
+export interface DurationLeaderboard {
+    days: number
+    project?: string
+    slowest: DurationLeaderboardEntry[]
+    slowdowns: DurationLeaderboardEntry[]
+}
+
+// Result of an execution's last attempt; flaky = passed only on a retry
+export type ExecutionOutcome = 'passed' | 'failed' | 'flaky'
+
+export type FlakinessTrend = 'rising' | 'falling' | 'stable'
+
+export interface FlakyTest {
+    testId: string
+    name: string
+    filePath: string
+    project?: string
+    totalRuns: number
+    passedRuns: number
+    failedRuns: number
+    flakyRuns: number
+    // Pass <-> fail changes between consecutive executions that didn't stick
+    flips: number
+    // Share of executions that flipped or passed on a retry, 0-100
+    score: number
+    trend: FlakinessTrend
+    lastFlipAt?: string
+    // Outcomes, oldest first
+    history: ExecutionOutcome[]
+    lastRun: string
+}
+
+export interface FailureGroupTest {
+    testId: string
+    name: string
+    filePath: string
+    project?: string
+    // Latest failed execution of the test in the group, opens it in the history
+    resultId: string
+    runId: string
+    status: string
+    failures: number
+    lastFailedAt: string
+}
+
+/**
+ * Failures that share a normalized error signature, i.e. most likely the same cause.
+ */
+export interface FailureGroup {
+    signature: string
+    // Error message of the latest failure, as reported
+    message: string
+    failures: number
+    tests: FailureGroupTest[]
+    firstFailedAt: string
+    lastFailedAt: string
 }
 
 export interface Attachment {
@@ -120,7 +293,7 @@ export interface AttachmentData {
 // WebSocket and Active Process Tracking Types
 export interface ActiveProcessInfo {
     id: string
-    type: 'run-all' | 'run-group' | 'rerun'
+    type: 'run-all' | 'run-group' | 'rerun' | 'rerun-failed' | 'run-selection'
     startedAt: string
     details: {
         runId?: string
@@ -129,6 +302,7 @@ export interface ActiveProcessInfo {
         totalTests?: number
         originalTestId?: string
         project?: string
+        pid?: number
     }
     progress?: TestProgress
 }
@@ -146,12 +320,14 @@ export interface ConnectionStatusMessage {
 
 export interface ProcessStartData {
     runId: string
-    type: 'run-all' | 'run-group' | 'rerun'
+    type: 'run-all' | 'run-group' | 'rerun' | 'rerun-failed' | 'run-selection'
     totalTests?: number
     filePath?: string
     testId?: string
     originalTestId?: string
     project?: string
+    // Set by the dashboard for the processes it spawns, so a restarted server can tell whether they still run
+    pid?: number
 }
 
 export interface ProcessEndData {
@@ -172,6 +348,112 @@ export interface WebSocketMessage {
     clientId?: string
 }
 
+// Outgoing webhooks
+export type WebhookEvent =
+    | 'process:ended'
+    | 'pipeline:completed'
+    | 'test:new-failures'
+    | 'test:flaky'
+    | 'webhook:test'
+
+// 'json' posts the event envelope (or the template); 'slack' and 'teams' post a chat message
+export type WebhookFormat = 'json' | 'slack' | 'teams'
+
+export interface Webhook {
+    id: string
+    name: string
+    url: string
+    events: WebhookEvent[]
+    format: WebhookFormat
+    // JSON body with {{path}} placeholders; the default body is sent when unset
+    template?: string
+    enabled: boolean
+    // The secret itself is write-only
+    hasSecret: boolean
+    createdAt: string
+    updatedAt: string
+}
+
+export interface WebhookInput {
+    name: string
+    url: string
+    events: WebhookEvent[]
+    format?: WebhookFormat
+    template?: string | null
+    enabled?: boolean
+    // Omitted keeps the current secret, null or '' removes it
+    secret?: string | null
+}
+
+export interface WebhookDelivery {
+    id: string
+    webhookId: string
+    event: WebhookEvent
+    status: 'pending' | 'success' | 'failed'
+    attempts: number
+    responseStatus?: number
+    error?: string
+    payload: string
+    createdAt: string
+    completedAt?: string
+}
+
+// Scheduled Runs Types
+export type ScheduleRunStatus = 'started' | 'skipped' | 'failed'
+
+export interface Schedule {
+    id: string
+    name: string
+    // Five-field cron expression in the server's local time
+    cron: string
+    // Project tab to run; the whole CI pipeline when unset
+    project?: string
+    enabled: boolean
+    // null when disabled or when the expression never fires
+    nextRunAt: string | null
+    lastRunAt?: string
+    lastStatus?: ScheduleRunStatus
+    // Why the last run was skipped or failed
+    lastMessage?: string
+    createdAt: string
+    updatedAt: string
+}
+
+export interface ScheduleInput {
+    name: string
+    cron: string
+    // null or '' schedules the whole CI pipeline
+    project?: string | null
+    enabled?: boolean
+}
+
+// Run Queue Types
+export type RunQueueKind = 'run-all' | 'pipeline'
+export type RunQueuePriority = 'high' | 'normal' | 'low'
+
+export interface RunQueueItem {
+    id: string
+    kind: RunQueueKind
+    // Project of a run-all; unset for the whole pipeline
+    project?: string
+    maxWorkers?: number
+    skipAutoDiscovery?: boolean
+    source?: string
+    priority: RunQueuePriority
+    // 1 for the item that starts next
+    position: number
+    createdAt: string
+}
+
+export interface RunQueueRequest {
+    kind: RunQueueKind
+    project?: string
+    maxWorkers?: number
+    skipAutoDiscovery?: boolean
+    source?: string
+    priority?: RunQueuePriority
+}
+
 // Test Progress Tracking Types
 export interface RunningTestInfo {
     testId: string
@@ -187,7 +469,7 @@ export interface RunningTestInfo {
 
 export interface TestProgress {
     processId: string
-    type: 'run-all' | 'run-group' | 'rerun'
+    type: 'run-all' | 'run-group' | 'rerun' | 'rerun-failed' | 'run-selection'
     totalTests: number
     completedTests: number
     passedTests: number
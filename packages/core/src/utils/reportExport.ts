@@ -0,0 +1,295 @@
+import type {ConsoleEntry} from '../types/index.js'
+
+export const REPORT_FORMATS = ['junit', 'ctrf', 'json'] as const
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number]
+
+/** The parts of a test result a report needs; satisfied by server and web results. */
+export interface ReportTestResult {
+    id: string
+    testId: string
+    name: string
+    filePath: string
+    status: string
+    duration: number
+    errorMessage?: string | null
+    errorStack?: string | null
+    retryCount?: number
+    project?: string
+    createdAt?: string
+    metadata?: {
+        console?: {entries: ConsoleEntry[]}
+        tags?: string[]
+        titlePath?: string[]
+        [key: string]: unknown
+    } | null
+    attachments?: Array<{type: string; url: string; fileName?: string}>
+}
+
+export interface ReportRun {
+    id: string
+    status?: string
+    createdAt?: string
+    duration?: number
+    project?: string
+}
+
+export interface ReportOptions {
+    /** Prefix for relative attachment URLs, e.g. the dashboard API URL */
+    attachmentBaseUrl?: string
+}
+
+export interface BuiltReport {
+    content: string
+    contentType: string
+    fileName: string
+}
+
+type ReportOutcome = 'passed' | 'failed' | 'skipped' | 'pending' | 'other'
+
+// 'flaky' passed on a retry and 'timedOut' is a failure for every consumer of a report
+function toOutcome(status: string): ReportOutcome {
+    switch (status) {
+        case 'passed':
+        case 'flaky':
+            return 'passed'
+        case 'failed':
+        case 'timedOut':
+            return 'failed'
+        case 'skipped':
+            return 'skipped'
+        case 'pending':
+            return 'pending'
+        default:
+            return 'other'
+    }
+}
+
+function attachmentLinks(test: ReportTestResult, options: ReportOptions) {
+    const baseUrl = (options.attachmentBaseUrl || '').replace(/\/$/, '')
+    return (test.attachments || []).map((attachment) => ({
+        name: attachment.fileName || attachment.type,
+        type: attachment.type,
+        url: attachment.url.startsWith('/') ? `${baseUrl}${attachment.url}` : attachment.url,
+    }))
+}
+
+function consoleText(test: ReportTestResult, type: ConsoleEntry['type']): string[] {
+    return (test.metadata?.console?.entries || [])
+        .filter((entry) => entry.type === type)
+        .map((entry) => entry.text)
+}
+
+function escapeXml(value: string): string {
+    return (
+        value
+            // Control characters are not allowed in XML 1.0 (ANSI colors in error messages)
+            // eslint-disable-next-line no-control-regex
+            .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;')
+    )
+}
+
+function seconds(ms: number): string {
+    return (ms / 1000).toFixed(3)
+}
+
+/**
+ * JUnit XML: one <testsuite> per spec file. Console output and attachment links
+ * go to <system-out>/<system-err>, attachments use the `[[ATTACHMENT|url]]`
+ * convention understood by Jenkins and GitLab.
+ */
+export function buildJUnitReport(
+    run: ReportRun,
+    tests: ReportTestResult[],
+    options: ReportOptions = {}
+): string {
+    const suites = new Map<string, ReportTestResult[]>()
+    for (const test of tests) {
+        const suite = suites.get(test.filePath)
+        if (suite) {
+            suite.push(test)
+        } else {
+            suites.set(test.filePath, [test])
+        }
+    }
+
+    const count = (list: ReportTestResult[], outcome: ReportOutcome) =>
+        list.filter((test) => toOutcome(test.status) === outcome).length
+    const totalTime = (list: ReportTestResult[]) =>
+        seconds(list.reduce((sum, test) => sum + (test.duration || 0), 0))
+
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>']
+    lines.push(
+        `<testsuites id="${escapeXml(run.id)}" name="${escapeXml(run.project || run.id)}" tests="${tests.length}" failures="${count(tests, 'failed')}" skipped="${count(tests, 'skipped') + count(tests, 'pending')}" errors="0" time="${totalTime(tests)}">`
+    )
+
+    for (const [filePath, suiteTests] of suites) {
+        lines.push(
+            `  <testsuite name="${escapeXml(filePath)}" tests="${suiteTests.length}" failures="${count(suiteTests, 'failed')}" skipped="${count(suiteTests, 'skipped') + count(suiteTests, 'pending')}" errors="0" time="${totalTime(suiteTests)}">`
+        )
+
+        for (const test of suiteTests) {
+            const name = (test.metadata?.titlePath || [test.name]).join(' › ')
+            lines.push(
+                `    <testcase name="${escapeXml(name)}" classname="${escapeXml(filePath)}" time="${seconds(test.duration || 0)}">`
+            )
+
+            const outcome = toOutcome(test.status)
+            if (outcome === 'failed') {
+                const message = (test.errorMessage || test.status).split('\n')[0]
+                lines.push(
+                    `      <failure message="${escapeXml(message)}" type="${escapeXml(test.status)}">${escapeXml(test.errorStack || test.errorMessage || '')}</failure>`
+                )
+            } else if (outcome === 'skipped' || outcome === 'pending') {
+                lines.push('      <skipped/>')
+            }
+
+            const stdout = [
+                ...consoleText(test, 'stdout'),
+                ...attachmentLinks(test, options).map((link) => `[[ATTACHMENT|${link.url}]]`),
+            ]
+            const stderr = consoleText(test, 'stderr')
+            if (stdout.length > 0) {
+                lines.push(`      <system-out>${escapeXml(stdout.join('\n'))}</system-out>`)
+            }
+            if (stderr.length > 0) {
+                lines.push(`      <system-err>${escapeXml(stderr.join('\n'))}</system-err>`)
+            }
+
+            lines.push('    </testcase>')
+        }
+
+        lines.push('  </testsuite>')
+    }
+
+    lines.push('</testsuites>')
+    return lines.join('\n') + '\n'
+}
+
+/**
+ * Common Test Report Format (https://ctrf.io) document.
+ */
+export function buildCtrfReport(
+    run: ReportRun,
+    tests: ReportTestResult[],
+    options: ReportOptions = {}
+): string {
+    const start = run.createdAt ? Date.parse(run.createdAt) || 0 : 0
+    const duration = run.duration ?? tests.reduce((sum, test) => sum + (test.duration || 0), 0)
+    const count = (outcome: ReportOutcome) =>
+        tests.filter((test) => toOutcome(test.status) === outcome).length
+
+    const report = {
+        reportFormat: 'CTRF',
+        specVersion: '0.0.0',
+        results: {
+            tool: {name: 'playwright'},
+            summary: {
+                tests: tests.length,
+                passed: count('passed'),
+                failed: count('failed'),
+                pending: count('pending'),
+                skipped: count('skipped'),
+                other: count('other'),
+                start,
+                stop: start + duration,
+            },
+            tests: tests.map((test) => {
+                const stdout = consoleText(test, 'stdout')
+                const stderr = consoleText(test, 'stderr')
+                const attachments = attachmentLinks(test, options)
+
+                return {
+                    name: test.name,
+                    status: toOutcome(test.status),
+                    duration: test.duration || 0,
+                    message: test.errorMessage || undefined,
+                    trace: test.errorStack || undefined,
+                    filePath: test.filePath,
+                    suite: test.metadata?.titlePath?.slice(0, -1).join(' > ') || undefined,
+                    retries: test.retryCount || 0,
+                    flaky: test.status === 'flaky',
+                    tags: test.metadata?.tags,
+                    browser: test.project || undefined,
+                    stdout: stdout.length > 0 ? stdout : undefined,
+                    stderr: stderr.length > 0 ? stderr : undefined,
+                    attachments:
+                        attachments.length > 0
+                            ? attachments.map((link) => ({
+                                  name: link.name,
+                                  contentType: link.type,
+                                  path: link.url,
+                              }))
+                            : undefined,
+                }
+            }),
+            environment: {
+                reportName: run.id,
+                testEnvironment: run.project || undefined,
+            },
+        },
+    }
+
+    return JSON.stringify(report, null, 2)
+}
+
+/**
+ * The dashboard's own representation: the run and its results as stored.
+ */
+export function buildJsonReport(
+    run: ReportRun,
+    tests: ReportTestResult[],
+    options: ReportOptions = {}
+): string {
+    return JSON.stringify(
+        {
+            run,
+            tests: tests.map((test) => ({
+                ...test,
+                attachments: attachmentLinks(test, options),
+            })),
+        },
+        null,
+        2
+    )
+}
+
+/**
+ * Builds a report in the given format together with its content type and file name.
+ */
+export function buildReport(
+    format: ReportFormat,
+    run: ReportRun,
+    tests: ReportTestResult[],
+    options: ReportOptions = {}
+): BuiltReport {
+    switch (format) {
+        case 'junit':
+            return {
+                content: buildJUnitReport(run, tests, options),
+                contentType: 'application/xml',
+                fileName: `${run.id}-junit.xml`,
+            }
+        case 'ctrf':
+            return {
+                content: buildCtrfReport(run, tests, options),
+                contentType: 'application/json',
+                fileName: `${run.id}-ctrf.json`,
+            }
+        case 'json':
+            return {
+                content: buildJsonReport(run, tests, options),
+                contentType: 'application/json',
+                fileName: `${run.id}.json`,
+            }
+    }
+}
+
+export function isReportFormat(value: unknown): value is ReportFormat {
+    return typeof value === 'string' && (REPORT_FORMATS as readonly string[]).includes(value)
+}
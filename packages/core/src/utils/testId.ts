@@ -0,0 +1,43 @@
+import {normalizeTestPath} from './pathNormalization.js'
+
+export const STABLE_TEST_ID_PREFIX = 'test-'
+
+export interface StableTestIdInput {
+    /** Test file path (relative to the project root or testDir) */
+    filePath: string
+    /** Titles of the enclosing describe blocks followed by the test title */
+    titlePath: string[]
+    /** Playwright project name; omitted or empty for the default project */
+    project?: string
+}
+
+/**
+ * Generates the stable test identifier shared by the reporter, test discovery
+ * and imports. The same test must always get the same ID, so this algorithm
+ * links every execution to its history — changing it re-keys all tests.
+ *
+ * Top-level tests of the default project keep the original `file:title` hash,
+ * so their IDs match the ones recorded before describe path and project were included.
+ *
+ * @example
+ * ```typescript
+ * generateStableTestId({filePath: 'e2e/tests/auth.spec.ts', titlePath: ['Login', 'works']})
+ * generateStableTestId({filePath: 'auth.spec.ts', titlePath: ['works'], project: 'firefox'})
+ * ```
+ */
+export function generateStableTestId({filePath, titlePath, project}: StableTestIdInput): string {
+    let content = `${normalizeTestPath(filePath)}:${titlePath.join(' › ')}`
+    if (project) {
+        content = `[${project}] ${content}`
+    }
+
+    // Simple 32-bit string hash, stable across runtimes
+    let hash = 0
+    for (let i = 0; i < content.length; i++) {
+        const char = content.charCodeAt(i)
+        hash = (hash << 5) - hash + char
+        hash = hash | 0 // Convert to 32-bit integer
+    }
+
+    return `${STABLE_TEST_ID_PREFIX}${Math.abs(hash).toString(36)}`
+}
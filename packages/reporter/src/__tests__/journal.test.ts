@@ -0,0 +1,110 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {DeliveryJournal, readJournal, replayJournal} from '../journal'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+describe('Delivery journal', () => {
+    let tempDir: string
+    let journalPath: string
+    let consoleWarnSpy: any
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reporter-journal-'))
+        journalPath = path.join(tempDir, 'test-results', 'dashboard-journal-run-1.jsonl')
+        consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        mockFetch.mockReset()
+    })
+
+    afterEach(() => {
+        fs.rmSync(tempDir, {recursive: true, force: true})
+        consoleWarnSpy.mockRestore()
+    })
+
+    const writeEntries = () => {
+        const journal = new DeliveryJournal(journalPath)
+        journal.append({
+            method: 'POST',
+            path: '/api/tests',
+            body: {id: 'result-1', testId: 'test-abc'},
+            reason: 'gave up after 4 attempts',
+            journaledAt: '2025-01-01T00:00:00.000Z',
+        })
+        journal.append({
+            method: 'PUT',
+            path: '/api/runs/run-1',
+            body: {id: 'run-1', status: 'completed'},
+            reason: 'gave up after 4 attempts',
+            journaledAt: '2025-01-01T00:00:01.000Z',
+        })
+        return journal
+    }
+
+    it('should append entries as JSON lines, creating the directory', () => {
+        const journal = writeEntries()
+
+        expect(journal.size).toBe(2)
+        const lines = fs.readFileSync(journalPath, 'utf-8').trim().split('\n')
+        expect(lines).toHaveLength(2)
+        expect(JSON.parse(lines[1])).toMatchObject({method: 'PUT', path: '/api/runs/run-1'})
+    })
+
+    it('should only relocate before anything was written', () => {
+        const journal = new DeliveryJournal(journalPath)
+        journal.relocate(path.join(tempDir, 'other.jsonl'))
+        expect(journal.path).toBe(path.join(tempDir, 'other.jsonl'))
+
+        const written = new DeliveryJournal(journalPath)
+        written.append({
+            method: 'POST',
+            path: '/api/tests',
+            body: {},
+            reason: 'delivery queue full',
+            journaledAt: new Date().toISOString(),
+        })
+        written.relocate(path.join(tempDir, 'ignored.jsonl'))
+        expect(written.path).toBe(journalPath)
+    })
+
+    it('should reject a journal with an invalid line', () => {
+        fs.mkdirSync(path.dirname(journalPath), {recursive: true})
+        fs.writeFileSync(journalPath, '{"method":"POST"}\nnot json\n')
+
+        expect(() => readJournal(journalPath)).toThrow('Invalid journal entry on line 2')
+    })
+
+    it('should replay entries in order and delete the journal when all are delivered', async () => {
+        writeEntries()
+        mockFetch.mockResolvedValue({ok: true})
+
+        const result = await replayJournal(journalPath, 'http://dashboard:3001')
+
+        expect(result).toEqual({delivered: 2, failed: 0, journalPath})
+        expect(mockFetch.mock.calls.map((call) => call[0])).toEqual([
+            'http://dashboard:3001/api/tests',
+            'http://dashboard:3001/api/runs/run-1',
+        ])
+        expect(mockFetch.mock.calls[1][1]).toMatchObject({method: 'PUT'})
+        expect(fs.existsSync(journalPath)).toBe(false)
+    })
+
+    it('should keep entries that still fail so the replay can be repeated', async () => {
+        writeEntries()
+        mockFetch
+            .mockResolvedValueOnce({ok: true})
+            .mockRejectedValueOnce(new Error('Connection refused'))
+
+        const result = await replayJournal(journalPath, 'http://dashboard:3001')
+
+        expect(result).toEqual({delivered: 1, failed: 1, journalPath})
+        const remaining = readJournal(journalPath)
+        expect(remaining).toHaveLength(1)
+        expect(remaining[0].path).toBe('/api/runs/run-1')
+        expect(consoleWarnSpy).toHaveBeenCalledWith(
+            expect.stringContaining('Dashboard API not available during replay')
+        )
+    })
+})
@@ -2,6 +2,7 @@ import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest'
 import YShvydakReporter from '../index'
 import type {FullConfig, FullResult, Suite, TestCase, TestResult} from '@playwright/test/reporter'
 import * as fs from 'fs'
+import * as path from 'path'
 
 // Mock fs for createEnhancedErrorMessage tests
 vi.mock('fs')
@@ -63,23 +64,31 @@ describe('YShvydakReporter - Integration Tests', () => {
                 line: 10,
                 column: 5,
             },
-        }) as TestCase
+            parent: {type: 'file', title: 'test.spec.ts', project: () => undefined},
+            annotations: [],
+            tags: [],
+        }) as unknown as TestCase
 
     // Helper to create mock TestResult
     const createMockTestResult = (
         status: 'passed' | 'failed' | 'skipped' | 'timedOut',
         options: {
             duration?: number
+            retry?: number
             error?: {message: string; stack: string}
             attachments?: Array<{name: string; path?: string; contentType: string}>
+            steps?: unknown[]
         } = {}
     ): TestResult =>
         ({
             status,
             duration: options.duration || 1000,
+            startTime: new Date('2025-01-01T00:00:00.000Z'),
+            retry: options.retry || 0,
             error: options.error,
             attachments: options.attachments || [],
-        }) as TestResult
+            steps: options.steps || [],
+        }) as unknown as TestResult
 
     describe('Initialization', () => {
         it('should initialize with default API URL when not provided', () => {
@@ -220,6 +229,7 @@ describe('YShvydakReporter - Integration Tests', () => {
                 status: 500,
                 text: async () => 'Internal Server Error',
             })
+            reporter = new YShvydakReporter({maxRetries: 0})
 
             const suite = createMockSuite(3)
             const config = {} as FullConfig
@@ -236,6 +246,7 @@ describe('YShvydakReporter - Integration Tests', () => {
 
         it('should handle network error during process start', async () => {
             mockFetch.mockRejectedValue(new Error('Network error'))
+            reporter = new YShvydakReporter({maxRetries: 0})
 
             const suite = createMockSuite(3)
             const config = {} as FullConfig
@@ -283,6 +294,118 @@ describe('YShvydakReporter - Integration Tests', () => {
             )
         })
 
+        it('should include describe path and project in the testId', () => {
+            const fileSuite = {type: 'file', title: 'test.spec.ts', project: () => undefined}
+            const inDescribe = (describeTitle: string, projectName?: string) =>
+                ({
+                    ...createMockTestCase('should login', 'passed'),
+                    parent: {
+                        type: 'describe',
+                        title: describeTitle,
+                        parent: fileSuite,
+                        project: () => (projectName ? {name: projectName} : undefined),
+                    },
+                }) as unknown as TestCase
+
+            reporter.onTestEnd(inDescribe('Admin'), createMockTestResult('passed'))
+            reporter.onTestEnd(inDescribe('Guest'), createMockTestResult('passed'))
+            reporter.onTestEnd(inDescribe('Guest', 'firefox'), createMockTestResult('passed'))
+
+            const testIds = mockFetch.mock.calls
+                .filter((call) => call[0].endsWith('/api/tests'))
+                .map((call) => JSON.parse(call[1].body).testId)
+            expect(new Set(testIds).size).toBe(3)
+        })
+
+        it('should send annotations, tags and title path in metadata', () => {
+            const testCase = {
+                ...createMockTestCase('should checkout', 'passed'),
+                parent: {
+                    type: 'describe',
+                    title: 'Cart',
+                    parent: {type: 'file', title: 'test.spec.ts', project: () => undefined},
+                    project: () => undefined,
+                },
+                annotations: [
+                    {type: 'issue', description: 'https://github.com/org/repo/issues/1'},
+                    {type: 'fixme'},
+                ],
+                tags: ['@smoke'],
+            } as unknown as TestCase
+
+            reporter.onTestEnd(testCase, createMockTestResult('passed'))
+
+            const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+            expect(body.metadata.annotations).toEqual([
+                {type: 'issue', description: 'https://github.com/org/repo/issues/1'},
+                {type: 'fixme', description: undefined},
+            ])
+            expect(body.metadata.tags).toEqual(['@smoke'])
+            expect(body.metadata.titlePath).toEqual(['Cart', 'should checkout'])
+        })
+
+        it('should send nested steps with start offsets and locations', () => {
+            const at = (ms: number) => new Date(Date.UTC(2025, 0, 1, 0, 0, 0, ms))
+            const step = (
+                title: string,
+                start: number,
+                children: unknown[] = [],
+                error?: string
+            ) => ({
+                title,
+                category: 'test.step',
+                startTime: at(start),
+                duration: 100,
+                location: {file: '/path/to/test.spec.ts', line: 12, column: 3},
+                error: error ? {message: error} : undefined,
+                steps: children,
+            })
+
+            reporter.onTestEnd(
+                createMockTestCase('should checkout', 'failed'),
+                createMockTestResult('failed', {
+                    steps: [step('Open cart', 50, [step('click', 120, [], 'Timeout')], 'Timeout')],
+                })
+            )
+
+            const [openCart] = JSON.parse(mockFetch.mock.calls[0][1].body).metadata.steps
+            expect(openCart).toMatchObject({
+                title: 'Open cart',
+                startOffset: 50,
+                error: 'Timeout',
+                location: {line: 12, column: 3},
+            })
+            expect(openCart.location.file).toContain('test.spec.ts')
+            expect(openCart.steps).toHaveLength(1)
+            expect(openCart.steps[0]).toMatchObject({title: 'click', startOffset: 120})
+            expect(openCart.steps[0].steps).toBeUndefined()
+        })
+
+        it('should group retries of a test under the first attempt', async () => {
+            const testCase = createMockTestCase('should eventually pass', 'passed')
+            const failure = {message: 'Flaky', stack: 'Error: Flaky'}
+
+            reporter.onTestEnd(testCase, createMockTestResult('failed', {error: failure}))
+            reporter.onTestEnd(testCase, createMockTestResult('passed', {retry: 1}))
+            await reporter.onEnd({status: 'passed'} as FullResult)
+
+            const [first, retry] = mockFetch.mock.calls
+                .filter((call) => call[0].endsWith('/api/tests'))
+                .map((call) => JSON.parse(call[1].body))
+            expect(first.retryCount).toBe(0)
+            expect(first.executionId).toBe(first.id)
+            expect(retry.retryCount).toBe(1)
+            expect(retry.executionId).toBe(first.id)
+
+            // Run totals count the test once, by its last attempt
+            const runUpdate = mockFetch.mock.calls.find((call) => call[0].includes('/api/runs/'))
+            expect(JSON.parse(runUpdate![1].body)).toMatchObject({
+                totalTests: 1,
+                passedTests: 1,
+                failedTests: 0,
+            })
+        })
+
         it('should send test result to API on test completion', () => {
             const testCase = createMockTestCase('should pass', 'passed')
             const result = createMockTestResult('passed', {duration: 1500})
@@ -456,6 +579,7 @@ describe('YShvydakReporter - Integration Tests', () => {
 
         it('should handle network error when sending test result', async () => {
             mockFetch.mockRejectedValue(new Error('Connection refused'))
+            reporter = new YShvydakReporter({maxRetries: 0})
 
             const testCase = createMockTestCase('test', 'passed')
             const result = createMockTestResult('passed')
@@ -603,26 +727,59 @@ describe('YShvydakReporter - Integration Tests', () => {
             )
         })
 
-        it('should wait for results to be sent before completing', async () => {
+        it('should wait for pending results to be delivered before completing', async () => {
             const suite = createMockSuite(1)
             reporter.onBegin({} as FullConfig, suite)
+
+            let resolveResult!: (value: unknown) => void
+            mockFetch.mockImplementationOnce(
+                () => new Promise((resolve) => (resolveResult = resolve))
+            )
             reporter.onTestEnd(createMockTestCase('test', 'passed'), createMockTestResult('passed'))
 
-            const result: FullResult = {status: 'passed'} as FullResult
-            const setTimeoutSpy = vi.spyOn(global, 'setTimeout')
-            await reporter.onEnd(result)
+            const endPromise = reporter.onEnd({status: 'passed'} as FullResult)
+            await new Promise((resolve) => setTimeout(resolve, 20))
 
-            expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 1000)
+            // Run update must not be sent while the result is still in flight
+            expect(mockFetch.mock.calls.some((call) => call[1].method === 'PUT')).toBe(false)
+
+            resolveResult({ok: true, json: async () => ({})})
+            await endPromise
+
+            expect(mockFetch.mock.calls.some((call) => call[1].method === 'PUT')).toBe(true)
             expect(consoleLogSpy).toHaveBeenCalledWith(
-                expect.stringContaining('Waiting for all test results')
+                expect.stringMatching(/Waiting for \d+ pending deliveries/)
             )
             expect(consoleLogSpy).toHaveBeenCalledWith(
-                expect.stringContaining('All test results should be processed')
+                expect.stringContaining('All test results delivered')
+            )
+        })
+
+        it('should send process end only once the run update is delivered', async () => {
+            const suite = createMockSuite(1)
+            reporter.onBegin({} as FullConfig, suite)
+            reporter.onTestEnd(createMockTestCase('test', 'passed'), createMockTestResult('passed'))
+            await new Promise((resolve) => setTimeout(resolve, 0))
+
+            let resolveRunUpdate!: (value: unknown) => void
+            mockFetch.mockImplementationOnce(
+                () => new Promise((resolve) => (resolveRunUpdate = resolve))
             )
-            setTimeoutSpy.mockRestore()
+
+            const endPromise = reporter.onEnd({status: 'passed'} as FullResult)
+            await new Promise((resolve) => setTimeout(resolve, 20))
+
+            expect(mockFetch.mock.calls.some((call) => call[1].method === 'PUT')).toBe(true)
+            expect(mockFetch.mock.calls.some((call) => call[0].includes('process-end'))).toBe(false)
+
+            resolveRunUpdate({ok: true, json: async () => ({})})
+            await endPromise
+
+            expect(mockFetch.mock.calls.some((call) => call[0].includes('process-end'))).toBe(true)
         })
 
         it('should handle API error when updating run', async () => {
+            reporter = new YShvydakReporter({maxRetries: 0})
             const suite = createMockSuite(1)
             reporter.onBegin({} as FullConfig, suite)
             reporter.onTestEnd(createMockTestCase('test', 'passed'), createMockTestResult('passed'))
@@ -646,6 +803,7 @@ describe('YShvydakReporter - Integration Tests', () => {
         })
 
         it('should handle network error when updating run', async () => {
+            reporter = new YShvydakReporter({maxRetries: 0})
             const suite = createMockSuite(1)
             reporter.onBegin({} as FullConfig, suite)
             reporter.onTestEnd(createMockTestCase('test', 'passed'), createMockTestResult('passed'))
@@ -757,7 +915,7 @@ test('example test', async () => {
 
         it('should handle cleanup errors gracefully', async () => {
             mockFetch.mockRejectedValue(new Error('Network error'))
-            reporter = new YShvydakReporter()
+            reporter = new YShvydakReporter({maxRetries: 0})
 
             const sigintHandler = process.listeners('SIGINT').pop() as () => void
             sigintHandler()
@@ -846,7 +1004,7 @@ test('example test', async () => {
         it('should handle API being unavailable throughout entire run', async () => {
             mockFetch.mockRejectedValue(new Error('API not available'))
 
-            reporter = new YShvydakReporter()
+            reporter = new YShvydakReporter({maxRetries: 0})
 
             // Start run
             const suite = createMockSuite(2)
@@ -882,7 +1040,7 @@ test('example test', async () => {
                 return Promise.resolve({ok: true, json: async () => ({})})
             })
 
-            reporter = new YShvydakReporter()
+            reporter = new YShvydakReporter({maxRetries: 0})
 
             const suite = createMockSuite(4)
             reporter.onBegin({} as FullConfig, suite)
@@ -913,4 +1071,173 @@ test('example test', async () => {
             )
         })
     })
+
+    describe('Result Batching', () => {
+        it('should send results in batches of batchSize', () => {
+            reporter = new YShvydakReporter({batchSize: 2})
+
+            reporter.onTestEnd(createMockTestCase('one', 'passed'), createMockTestResult('passed'))
+            expect(mockFetch).not.toHaveBeenCalled()
+
+            reporter.onTestEnd(createMockTestCase('two', 'failed'), createMockTestResult('failed'))
+
+            expect(mockFetch).toHaveBeenCalledTimes(1)
+            expect(mockFetch.mock.calls[0][0]).toContain('/api/tests/batch')
+            const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+            expect(body.results.map((r: any) => r.name)).toEqual(['one', 'two'])
+        })
+
+        it('should send a partial batch after batchIntervalMs', async () => {
+            reporter = new YShvydakReporter({batchSize: 50, batchIntervalMs: 10})
+
+            reporter.onTestEnd(
+                createMockTestCase('lonely', 'passed'),
+                createMockTestResult('passed')
+            )
+            await new Promise((resolve) => setTimeout(resolve, 30))
+
+            expect(mockFetch).toHaveBeenCalledTimes(1)
+            expect(JSON.parse(mockFetch.mock.calls[0][1].body).results).toHaveLength(1)
+        })
+
+        it('should still notify test start in real time', () => {
+            reporter = new YShvydakReporter({batchSize: 50})
+
+            reporter.onTestBegin(createMockTestCase('starting', 'passed'))
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('/api/tests/test-start'),
+                expect.any(Object)
+            )
+        })
+
+        it('should send the remaining batch before the run update on end', async () => {
+            reporter = new YShvydakReporter({batchSize: 50})
+
+            reporter.onTestEnd(createMockTestCase('last', 'passed'), createMockTestResult('passed'))
+            await reporter.onEnd({status: 'passed'} as FullResult)
+
+            const urls = mockFetch.mock.calls.map((call) => call[0])
+            const batchIndex = urls.findIndex((url) => url.endsWith('/api/tests/batch'))
+            const runIndex = urls.findIndex((url) => url.includes('/api/runs/'))
+            expect(batchIndex).toBeGreaterThanOrEqual(0)
+            expect(batchIndex).toBeLessThan(runIndex)
+        })
+    })
+
+    describe('Delivery Queue', () => {
+        const configWithOutputDir = {
+            projects: [{outputDir: '/project/test-results'}],
+        } as unknown as FullConfig
+
+        it('should retry a failed result delivery with backoff', async () => {
+            mockFetch
+                .mockRejectedValueOnce(new Error('Connection refused'))
+                .mockResolvedValueOnce({ok: false, status: 503, text: async () => 'Unavailable'})
+                .mockResolvedValue({ok: true, json: async () => ({})})
+            reporter = new YShvydakReporter({retryBaseDelayMs: 1})
+
+            reporter.onTestEnd(
+                createMockTestCase('flaky network', 'passed'),
+                createMockTestResult('passed')
+            )
+            await reporter.onEnd({status: 'passed'} as FullResult)
+
+            const resultCalls = mockFetch.mock.calls.filter((call) =>
+                call[0].endsWith('/api/tests')
+            )
+            expect(resultCalls).toHaveLength(3)
+            expect(consoleLogSpy).toHaveBeenCalledWith(
+                expect.stringContaining('Retrying POST /api/tests')
+            )
+            expect(fs.appendFileSync).not.toHaveBeenCalled()
+        })
+
+        it('should not retry results rejected with a client error', async () => {
+            mockFetch.mockResolvedValue({ok: false, status: 400, text: async () => 'Bad Request'})
+            reporter = new YShvydakReporter({retryBaseDelayMs: 1})
+
+            reporter.onTestEnd(
+                createMockTestCase('invalid', 'passed'),
+                createMockTestResult('passed')
+            )
+            await new Promise((resolve) => setTimeout(resolve, 20))
+
+            expect(mockFetch).toHaveBeenCalledTimes(1)
+            expect(fs.appendFileSync).not.toHaveBeenCalled()
+        })
+
+        it('should spill undeliverable results to a journal in the Playwright output dir', async () => {
+            mockFetch.mockRejectedValue(new Error('Connection refused'))
+            process.env.RUN_ID = 'offline-run'
+            reporter = new YShvydakReporter({maxRetries: 1, retryBaseDelayMs: 1})
+
+            reporter.onBegin(configWithOutputDir, createMockSuite(1))
+            reporter.onTestEnd(
+                createMockTestCase('offline', 'passed'),
+                createMockTestResult('passed')
+            )
+            await reporter.onEnd({status: 'passed'} as FullResult)
+
+            const journalWrites = vi.mocked(fs.appendFileSync).mock.calls
+            const journalPaths = journalWrites.map((call) => call[0])
+            expect(journalPaths).toContain(
+                path.join('/project/test-results', 'dashboard-journal-offline-run.jsonl')
+            )
+
+            const entries = journalWrites.map((call) => JSON.parse(call[1] as string))
+            expect(entries).toEqual(
+                expect.arrayContaining([
+                    expect.objectContaining({method: 'POST', path: '/api/tests'}),
+                    expect.objectContaining({method: 'PUT', path: '/api/runs/offline-run'}),
+                ])
+            )
+            // Notifications are real-time only and never journaled
+            expect(entries.some((entry) => entry.path.includes('process-'))).toBe(false)
+            expect(consoleWarnSpy).toHaveBeenCalledWith(
+                expect.stringContaining('playwright-dashboard-reporter replay')
+            )
+        })
+
+        it('should journal deliveries still pending when the flush timeout expires', async () => {
+            mockFetch.mockImplementation(() => new Promise(() => {}))
+            reporter = new YShvydakReporter({flushTimeoutMs: 20})
+
+            reporter.onTestEnd(
+                createMockTestCase('hanging', 'passed'),
+                createMockTestResult('passed')
+            )
+            await reporter.onEnd({status: 'passed'} as FullResult)
+
+            expect(consoleWarnSpy).toHaveBeenCalledWith(
+                expect.stringContaining('did not complete within 20ms')
+            )
+            expect(fs.appendFileSync).toHaveBeenCalledWith(
+                expect.stringContaining('dashboard-journal-'),
+                expect.stringContaining('"path":"/api/tests"'),
+                'utf-8'
+            )
+        })
+
+        it('should spill to the journal when the queue is full', () => {
+            mockFetch.mockImplementation(() => new Promise(() => {}))
+            reporter = new YShvydakReporter({maxQueueSize: 1})
+
+            reporter.onTestEnd(
+                createMockTestCase('first', 'passed'),
+                createMockTestResult('passed')
+            )
+            reporter.onTestEnd(
+                createMockTestCase('second', 'passed'),
+                createMockTestResult('passed')
+            )
+
+            expect(mockFetch).toHaveBeenCalledTimes(1)
+            expect(fs.appendFileSync).toHaveBeenCalledWith(
+                expect.any(String),
+                expect.stringContaining('delivery queue full'),
+                'utf-8'
+            )
+        })
+    })
 })
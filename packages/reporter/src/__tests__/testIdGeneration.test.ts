@@ -4,42 +4,21 @@
  * These tests verify the stability and determinism of the test ID generation algorithm.
  * This is CRITICAL because:
  * 1. Test IDs link test executions to historical data
- * 2. Discovery service and Reporter MUST generate identical IDs
+ * 2. Discovery service and Reporter MUST generate identical IDs (both use @yshvydak/core)
  * 3. Breaking this algorithm will break entire historical tracking system
  *
  * Coverage target: 95%+
  */
 
 import {describe, it, expect} from 'vitest'
-
-function normalizeTestPath(filePath: string): string {
-    const prefixesToRemove = ['e2e/tests/', 'e2e\\tests\\', 'tests/', 'tests\\', 'e2e/', 'e2e\\']
-    for (const prefix of prefixesToRemove) {
-        if (filePath.startsWith(prefix)) {
-            return filePath.substring(prefix.length)
-        }
-    }
-    return filePath
-}
+import {generateStableTestId as generateCoreTestId} from '@yshvydak/core'
 
 /**
- * Extracted generateStableTestId function for testing
- * This is the EXACT same algorithm used in the Reporter and Server
+ * Top-level test of the default project - the original (filePath, title) signature
+ * used by the Reporter and Server before describe path and project were included
  */
 function generateStableTestId(filePath: string, title: string): string {
-    // Normalize path before generating ID
-    const normalizedPath = normalizeTestPath(filePath)
-    const content = `${normalizedPath}:${title}`
-
-    // Simple hash function for stable IDs (identical to Reporter implementation)
-    let hash = 0
-    for (let i = 0; i < content.length; i++) {
-        const char = content.charCodeAt(i)
-        hash = (hash << 5) - hash + char
-        hash = hash & hash // Convert to 32-bit integer
-    }
-
-    return `test-${Math.abs(hash).toString(36)}`
+    return generateCoreTestId({filePath, titlePath: [title]})
 }
 
 describe('Test ID Generation Algorithm', () => {
@@ -331,4 +310,54 @@ describe('Test ID Generation Algorithm', () => {
             expect(probuildId).toBe(funzyId)
         })
     })
+
+    describe('Describe Path and Project', () => {
+        const filePath = 'tests/auth.spec.ts'
+
+        it('should keep the legacy ID for top-level tests of the default project', () => {
+            // Legacy content was "<normalized path>:<title>" - IDs recorded before must not change
+            expect(generateCoreTestId({filePath, titlePath: ['should login']})).toBe(
+                generateStableTestId(filePath, 'should login')
+            )
+            expect(generateCoreTestId({filePath, titlePath: ['should login'], project: ''})).toBe(
+                generateStableTestId(filePath, 'should login')
+            )
+        })
+
+        it('should separate equally named tests in different describe blocks', () => {
+            const id1 = generateCoreTestId({filePath, titlePath: ['Admin', 'should login']})
+            const id2 = generateCoreTestId({filePath, titlePath: ['Guest', 'should login']})
+            const topLevel = generateCoreTestId({filePath, titlePath: ['should login']})
+
+            expect(id1).not.toBe(id2)
+            expect(id1).not.toBe(topLevel)
+        })
+
+        it('should distinguish nesting from a title that only looks nested', () => {
+            const nested = generateCoreTestId({filePath, titlePath: ['Admin', 'Users', 'list']})
+            const flat = generateCoreTestId({filePath, titlePath: ['Admin', 'Users list']})
+
+            expect(nested).not.toBe(flat)
+        })
+
+        it('should separate the same test run under different projects', () => {
+            const chromium = generateCoreTestId({
+                filePath,
+                titlePath: ['login'],
+                project: 'chromium',
+            })
+            const firefox = generateCoreTestId({filePath, titlePath: ['login'], project: 'firefox'})
+
+            expect(chromium).not.toBe(firefox)
+            expect(chromium).not.toBe(generateCoreTestId({filePath, titlePath: ['login']}))
+        })
+
+        it('should normalize the file path regardless of describe path and project', () => {
+            const input = {titlePath: ['Admin', 'should login'], project: 'chromium'}
+
+            expect(generateCoreTestId({filePath: 'e2e/tests/auth.spec.ts', ...input})).toBe(
+                generateCoreTestId({filePath: 'auth.spec.ts', ...input})
+            )
+        })
+    })
 })
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+import * as path from 'path'
+import * as dotenv from 'dotenv'
+import {replayJournal} from './journal'
+dotenv.config()
+
+const USAGE = `Usage: playwright-dashboard-reporter replay <journal.jsonl> [--api-url <url>]
+
+Uploads results that a previous run could not deliver to the dashboard.
+The API URL defaults to DASHBOARD_API_URL or http://localhost:3001.`
+
+async function main(argv: string[]): Promise<number> {
+    const [command, ...args] = argv
+
+    if (command !== 'replay') {
+        console.error(USAGE)
+        return 1
+    }
+
+    const apiUrlIndex = args.indexOf('--api-url')
+    let apiBaseUrl =
+        apiUrlIndex !== -1
+            ? args[apiUrlIndex + 1]
+            : process.env.DASHBOARD_API_URL || 'http://localhost:3001'
+    const journalPath = args.find(
+        (arg, index) => !arg.startsWith('--') && (apiUrlIndex === -1 || index !== apiUrlIndex + 1)
+    )
+
+    if (!journalPath || !apiBaseUrl) {
+        console.error(USAGE)
+        return 1
+    }
+
+    // Same backward compatibility as the reporter itself
+    if (apiBaseUrl.endsWith('/api')) {
+        apiBaseUrl = apiBaseUrl.slice(0, -4)
+    }
+
+    const resolvedPath = path.resolve(journalPath)
+    console.log(`📤 Replaying ${resolvedPath} to ${apiBaseUrl}`)
+
+    const result = await replayJournal(resolvedPath, apiBaseUrl)
+
+    console.log(`✅ Delivered: ${result.delivered}`)
+    if (result.failed > 0) {
+        console.warn(`⚠️  Still undelivered: ${result.failed} (kept in ${result.journalPath})`)
+        return 1
+    }
+
+    return 0
+}
+
+main(process.argv.slice(2))
+    .then((code) => process.exit(code))
+    .catch((error) => {
+        console.error(`❌ Replay failed: ${error instanceof Error ? error.message : error}`)
+        process.exit(1)
+    })
@@ -0,0 +1,247 @@
+import {DeliveryJournal} from './journal'
+
+export interface DeliveryRequest {
+    method: 'POST' | 'PUT'
+    path: string
+    body: unknown
+    // Warning prefixes, e.g. "Failed to send test result" / "Dashboard API not available"
+    failureMessage: string
+    networkFailureMessage: string
+    // Durable requests (test results, run updates) are written to the journal when
+    // they cannot be delivered. Notifications only make sense in real time.
+    durable?: boolean
+    // Overrides DeliveryQueueOptions.maxRetries for this request
+    maxRetries?: number
+}
+
+export type DeliveryOutcome = 'delivered' | 'rejected' | 'journaled' | 'dropped'
+
+export interface DeliveryQueueOptions {
+    apiBaseUrl: string
+    journal: DeliveryJournal
+    maxQueueSize: number
+    maxConcurrency: number
+    maxRetries: number
+    retryBaseDelayMs: number
+    requestTimeoutMs: number
+}
+
+interface QueueEntry {
+    request: DeliveryRequest
+    attempts: number
+    settled: boolean
+    done: Promise<DeliveryOutcome>
+    settle: (outcome: DeliveryOutcome) => void
+    retryTimer?: NodeJS.Timeout
+    controller?: AbortController
+}
+
+type AttemptResult = 'delivered' | 'retry' | 'rejected'
+
+const MAX_RETRY_DELAY_MS = 30000
+
+// Anything else in the 4xx range means the payload itself was refused, so
+// sending it again (now or from the journal) would fail the same way.
+function isRetryableStatus(status: number): boolean {
+    return status >= 500 || status === 408 || status === 429
+}
+
+/**
+ * Bounded in-memory queue for reporter → dashboard requests.
+ *
+ * Requests are sent immediately (up to maxConcurrency at once) and retried with
+ * exponential backoff on network errors and 5xx responses. Durable requests that
+ * still cannot be delivered — retries exhausted, queue full, or flush deadline
+ * reached — are spilled to the JSONL journal for a later replay.
+ */
+export class DeliveryQueue {
+    private readonly entries = new Set<QueueEntry>()
+    private readonly waiting: QueueEntry[] = []
+    private inFlight = 0
+
+    constructor(private options: DeliveryQueueOptions) {}
+
+    get pendingCount(): number {
+        return this.entries.size
+    }
+
+    get journal(): DeliveryJournal {
+        return this.options.journal
+    }
+
+    enqueue(request: DeliveryRequest): Promise<DeliveryOutcome> {
+        let settle!: (outcome: DeliveryOutcome) => void
+        const done = new Promise<DeliveryOutcome>((resolve) => {
+            settle = resolve
+        })
+        const entry: QueueEntry = {request, attempts: 0, settled: false, done, settle}
+
+        if (this.entries.size >= this.options.maxQueueSize) {
+            this.giveUp(entry, 'delivery queue full')
+            return done
+        }
+
+        this.entries.add(entry)
+        this.waiting.push(entry)
+        this.pump()
+
+        return done
+    }
+
+    /**
+     * Wait until every queued request has settled, or until the timeout expires.
+     * On timeout the remaining requests are aborted and journaled (durable) or
+     * dropped. Returns the number of requests that did not settle in time.
+     */
+    async flush(timeoutMs: number): Promise<number> {
+        if (this.entries.size === 0) return 0
+
+        let timer: NodeJS.Timeout | undefined
+        const deadline = new Promise<'timeout'>((resolve) => {
+            timer = setTimeout(() => resolve('timeout'), timeoutMs)
+        })
+
+        const result = await Promise.race([this.idle(), deadline])
+        clearTimeout(timer)
+
+        if (result !== 'timeout') return 0
+
+        const unsettled = [...this.entries]
+        for (const entry of unsettled) {
+            clearTimeout(entry.retryTimer)
+            entry.controller?.abort()
+            this.giveUp(entry, 'flush timeout reached')
+        }
+        this.waiting.length = 0
+
+        return unsettled.length
+    }
+
+    private async idle(): Promise<'idle'> {
+        // Retries keep entries alive, so re-check until the set is really empty
+        while (this.entries.size > 0) {
+            await Promise.all([...this.entries].map((entry) => entry.done))
+        }
+        return 'idle'
+    }
+
+    private pump() {
+        while (this.inFlight < this.options.maxConcurrency && this.waiting.length > 0) {
+            const entry = this.waiting.shift()!
+            void this.deliver(entry)
+        }
+    }
+
+    private async deliver(entry: QueueEntry) {
+        this.inFlight++
+        entry.attempts++
+
+        const result = await this.attempt(entry)
+
+        this.inFlight--
+
+        if (!entry.settled) {
+            const maxRetries = entry.request.maxRetries ?? this.options.maxRetries
+
+            if (result === 'delivered') {
+                this.settle(entry, 'delivered')
+            } else if (result === 'rejected') {
+                this.settle(entry, 'rejected')
+            } else if (entry.attempts > maxRetries) {
+                this.giveUp(entry, `gave up after ${entry.attempts} attempts`)
+            } else {
+                this.scheduleRetry(entry)
+            }
+        }
+
+        this.pump()
+    }
+
+    private async attempt(entry: QueueEntry): Promise<AttemptResult> {
+        const {request} = entry
+        const startTime = Date.now()
+        const controller = new AbortController()
+        const timer = setTimeout(() => controller.abort(), this.options.requestTimeoutMs)
+        entry.controller = controller
+
+        try {
+            const response = await fetch(`${this.options.apiBaseUrl}${request.path}`, {
+                method: request.method,
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(request.body),
+                signal: controller.signal,
+            })
+
+            if (response.ok) return 'delivered'
+
+            const duration = Date.now() - startTime
+            console.warn(`⚠️  ${request.failureMessage} (${duration}ms): ${response.status}`)
+            const responseText = await response.text()
+            console.warn(`⚠️  Response: ${responseText}`)
+
+            return isRetryableStatus(response.status) ? 'retry' : 'rejected'
+        } catch (error) {
+            if (!entry.settled) {
+                const duration = Date.now() - startTime
+                console.warn(`⚠️  ${request.networkFailureMessage} (${duration}ms): ${error}`)
+            }
+            return 'retry'
+        } finally {
+            clearTimeout(timer)
+            entry.controller = undefined
+        }
+    }
+
+    private scheduleRetry(entry: QueueEntry) {
+        const delay = Math.min(
+            this.options.retryBaseDelayMs * 2 ** (entry.attempts - 1),
+            MAX_RETRY_DELAY_MS
+        )
+
+        console.log(
+            `🔁 Retrying ${entry.request.method} ${entry.request.path} in ${delay}ms (attempt ${entry.attempts + 1})`
+        )
+
+        entry.retryTimer = setTimeout(() => {
+            entry.retryTimer = undefined
+            this.waiting.push(entry)
+            this.pump()
+        }, delay)
+    }
+
+    private giveUp(entry: QueueEntry, reason: string) {
+        const {request} = entry
+
+        if (!request.durable) {
+            this.settle(entry, 'dropped')
+            return
+        }
+
+        try {
+            this.options.journal.append({
+                method: request.method,
+                path: request.path,
+                body: request.body,
+                reason,
+                journaledAt: new Date().toISOString(),
+            })
+            console.warn(
+                `💾 ${request.method} ${request.path} saved to journal (${reason}): ${this.options.journal.path}`
+            )
+            this.settle(entry, 'journaled')
+        } catch (error) {
+            console.warn(`⚠️  Failed to write delivery journal: ${error}`)
+            this.settle(entry, 'dropped')
+        }
+    }
+
+    private settle(entry: QueueEntry, outcome: DeliveryOutcome) {
+        if (entry.settled) return
+
+        entry.settled = true
+        this.entries.delete(entry)
+        entry.settle(outcome)
+    }
+}
@@ -5,30 +5,35 @@ import {
     Suite,
     TestCase,
     TestResult,
+    TestStep as PlaywrightTestStep,
 } from '@playwright/test/reporter'
 
 import * as path from 'path'
 import * as fs from 'fs'
 import {v4 as uuidv4} from 'uuid'
 import * as dotenv from 'dotenv'
+import {generateStableTestId, normalizeTestPath} from '@yshvydak/core'
+import {DeliveryQueue} from './deliveryQueue'
+import {DeliveryJournal} from './journal'
 dotenv.config()
 
-function normalizeTestPath(filePath: string): string {
-    const prefixesToRemove = ['e2e/tests/', 'e2e\\tests\\', 'tests/', 'tests\\', 'e2e/', 'e2e\\']
-    for (const prefix of prefixesToRemove) {
-        if (filePath.startsWith(prefix)) {
-            return filePath.substring(prefix.length)
-        }
-    }
-    return filePath
-}
+export {replayJournal, readJournal} from './journal'
+export type {JournalEntry, ReplayResult} from './journal'
 
 interface TestStep {
     title: string
     category: string
     duration: number
     startTime: Date
+    // Milliseconds between the start of the test attempt and the start of this step
+    startOffset: number
+    location?: {
+        file: string
+        line: number
+        column: number
+    }
     error?: string
+    steps?: TestStep[]
 }
 
 type ConsoleEntryType = 'stdout' | 'stderr'
@@ -39,6 +44,11 @@ interface ConsoleEntry {
     timestamp: string
 }
 
+interface TestAnnotation {
+    type: string
+    description?: string
+}
+
 interface YShvydakTestResult {
     id: string
     testId: string
@@ -50,6 +60,10 @@ interface YShvydakTestResult {
     timestamp: string
     errorMessage?: string
     errorStack?: string
+    // Playwright retry number (0 = first attempt) and the id of the first attempt,
+    // which groups all attempts of one test into a single execution on the dashboard
+    retryCount: number
+    executionId: string
     attachments: Array<{
         name: string
         path: string
@@ -61,6 +75,9 @@ interface YShvydakTestResult {
             entries: ConsoleEntry[]
             truncated?: boolean
         }
+        annotations?: TestAnnotation[]
+        tags?: string[]
+        titlePath?: string[]
     }
 }
 
@@ -84,6 +101,17 @@ interface ProcessStartData {
     originalTestId?: string
 }
 
+export interface YShvydakReporterOptions {
+    timeout?: number // API request timeout in ms (default: 30000)
+    maxQueueSize?: number // Pending deliveries kept in memory before spilling to the journal (default: 1000)
+    maxRetries?: number // Retries per delivery on network errors / 5xx (default: 3)
+    retryBaseDelayMs?: number // First retry delay, doubled on every attempt (default: 500)
+    flushTimeoutMs?: number // How long onEnd waits for pending deliveries (default: 30000)
+    journalDir?: string // Where undeliverable results are written (default: Playwright outputDir)
+    batchSize?: number // Send results via POST /api/tests/batch in groups of N, max 1000 (default: 1 = one request per result)
+    batchIntervalMs?: number // Send a partial batch after this long (default: 1000)
+}
+
 interface ProcessEndData {
     runId: string
     status: 'completed' | 'failed' | 'interrupted'
@@ -97,15 +125,23 @@ interface ProcessEndData {
 
 class YShvydakReporter implements Reporter {
     private runId: string
-    private results: YShvydakTestResult[] = []
+    // Latest attempt per test, so run totals count each test once regardless of retries
+    private results = new Map<TestCase, YShvydakTestResult>()
     private startTime: number = 0
     private apiBaseUrl: string
+    private readonly options: YShvydakReporterOptions
+    private readonly delivery: DeliveryQueue
+    private pendingBatch: YShvydakTestResult[] = []
+    private batchTimer?: NodeJS.Timeout
     private readonly consoleEntriesByResult = new WeakMap<TestResult, ConsoleEntry[]>()
     private readonly consoleWasTruncatedByResult = new WeakMap<TestResult, boolean>()
     private static readonly MAX_CONSOLE_LINES = 500
     private static readonly MAX_CONSOLE_CHARS = 200_000
+    private static readonly CLEANUP_FLUSH_TIMEOUT_MS = 5000
+
+    constructor(options: YShvydakReporterOptions = {}) {
+        this.options = options
 
-    constructor() {
         // Get the base URL from environment variables
         let baseUrl = process.env.DASHBOARD_API_URL || 'http://localhost:3001'
 
@@ -129,6 +165,21 @@ class YShvydakReporter implements Reporter {
             this.apiBaseUrl = 'http://localhost:3001'
         }
 
+        // Journal goes to the default Playwright outputDir until onBegin tells us the real one
+        const journal = new DeliveryJournal(
+            this.getJournalPath(options.journalDir || path.join(process.cwd(), 'test-results'))
+        )
+
+        this.delivery = new DeliveryQueue({
+            apiBaseUrl: this.apiBaseUrl,
+            journal,
+            maxQueueSize: options.maxQueueSize ?? 1000,
+            maxConcurrency: 8,
+            maxRetries: options.maxRetries ?? 3,
+            retryBaseDelayMs: options.retryBaseDelayMs ?? 500,
+            requestTimeoutMs: options.timeout ?? 30000,
+        })
+
         // Setup cleanup handlers for unexpected termination
         this.setupCleanupHandlers()
     }
@@ -141,8 +192,14 @@ class YShvydakReporter implements Reporter {
         this.captureConsoleChunk('stderr', chunk, test, result)
     }
 
-    onBegin(_config: FullConfig, suite: Suite) {
+    onBegin(config: FullConfig, suite: Suite) {
         this.startTime = Date.now()
+
+        const outputDir = config.projects?.[0]?.outputDir
+        if (!this.options.journalDir && outputDir) {
+            this.delivery.journal.relocate(this.getJournalPath(outputDir))
+        }
+
         const processType = process.env.RERUN_MODE === 'true' ? 'rerun' : 'run-all'
 
         // Notify dashboard that process is starting
@@ -181,22 +238,25 @@ class YShvydakReporter implements Reporter {
             enhancedErrorMessage = this.createEnhancedErrorMessage(test, result.error)
         }
 
-        // Capture test steps from Playwright
+        // Capture the test step tree from Playwright
         const steps: TestStep[] = result.steps
-            ? result.steps.map((step) => ({
-                  title: step.title,
-                  category: step.category,
-                  duration: step.duration,
-                  startTime: step.startTime,
-                  error: step.error?.message,
-              }))
+            ? result.steps.map((step) => this.mapStep(step, result.startTime))
             : []
 
         const consoleEntries = this.consoleEntriesByResult.get(result) || []
         const consoleTruncated = this.consoleWasTruncatedByResult.get(result) || false
 
+        // Annotations added at runtime (test.info().annotations) are merged in by Playwright
+        const annotations: TestAnnotation[] = test.annotations.map(({type, description}) => ({
+            type,
+            description,
+        }))
+        // `tags` is only available since Playwright 1.42
+        const tags = test.tags ?? []
+
+        const id = uuidv4()
         const testResult: YShvydakTestResult = {
-            id: uuidv4(),
+            id,
             testId,
             runId: this.runId,
             name: test.title,
@@ -206,6 +266,8 @@ class YShvydakReporter implements Reporter {
             timestamp: new Date().toISOString(),
             errorMessage: enhancedErrorMessage,
             errorStack: result.error?.stack,
+            retryCount: result.retry,
+            executionId: (result.retry > 0 && this.results.get(test)?.executionId) || id,
             attachments: this.processAttachments(result.attachments),
             metadata: {
                 steps: steps.length > 0 ? steps : undefined,
@@ -213,19 +275,43 @@ class YShvydakReporter implements Reporter {
                     consoleEntries.length > 0
                         ? {entries: consoleEntries, truncated: consoleTruncated || undefined}
                         : undefined,
+                annotations: annotations.length > 0 ? annotations : undefined,
+                tags: tags.length > 0 ? [...tags] : undefined,
+                titlePath: this.getTitlePath(test),
             },
         }
 
-        this.results.push(testResult)
+        this.results.set(test, testResult)
 
-        // Send result to dashboard API
-        this.sendTestResult(testResult)
+        // Send result to dashboard API (directly or as part of the next batch)
+        this.queueTestResult(testResult)
 
         console.log(
             `${this.getStatusIcon(testResult.status)} ${testResult.name} (${testResult.duration}ms)`
         )
     }
 
+    private mapStep(step: PlaywrightTestStep, testStartTime: Date): TestStep {
+        const children = step.steps.map((child) => this.mapStep(child, testStartTime))
+
+        return {
+            title: step.title,
+            category: step.category,
+            duration: step.duration,
+            startTime: step.startTime,
+            startOffset: Math.max(0, step.startTime.getTime() - testStartTime.getTime()),
+            location: step.location
+                ? {
+                      file: normalizeTestPath(path.relative(process.cwd(), step.location.file)),
+                      line: step.location.line,
+                      column: step.location.column,
+                  }
+                : undefined,
+            error: step.error?.message,
+            steps: children.length > 0 ? children : undefined,
+        }
+    }
+
     private captureConsoleChunk(
         type: ConsoleEntryType,
         chunk: string | Buffer,
@@ -276,31 +362,44 @@ class YShvydakReporter implements Reporter {
 
     async onEnd(result: FullResult) {
         const duration = Date.now() - this.startTime
-        const passed = this.results.filter((r) => r.status === 'passed').length
-        const failed = this.results.filter((r) => r.status === 'failed').length
-        const skipped = this.results.filter((r) => r.status === 'skipped').length
+        const results = [...this.results.values()]
+        const passed = results.filter((r) => r.status === 'passed').length
+        const failed = results.filter((r) => r.status === 'failed').length
+        const skipped = results.filter((r) => r.status === 'skipped').length
 
-        console.log(`\n⏳ Waiting for all test results to be sent to dashboard...`)
+        this.flushResultBatch()
 
-        await new Promise((resolve) => setTimeout(resolve, 1000))
+        const flushTimeoutMs = this.options.flushTimeoutMs ?? 30000
+        const deadline = Date.now() + flushTimeoutMs
 
-        console.log(`✅ All test results should be processed by dashboard now`)
+        console.log(
+            `\n⏳ Waiting for ${this.delivery.pendingCount} pending deliveries to reach the dashboard...`
+        )
+
+        const timedOut = await this.delivery.flush(flushTimeoutMs)
+        if (timedOut > 0) {
+            console.warn(`⚠️  ${timedOut} deliveries did not complete within ${flushTimeoutMs}ms`)
+        } else {
+            console.log(`✅ All test results delivered to dashboard`)
+        }
 
-        // Update test run
-        await this.updateTestRun({
+        // Run summary goes out only after the results it describes
+        const runUpdate = this.updateTestRun({
             id: this.runId,
             status: result.status === 'passed' ? 'completed' : 'failed',
             timestamp: new Date().toISOString(),
-            totalTests: this.results.length,
+            totalTests: results.length,
             passedTests: passed,
             failedTests: failed,
             skippedTests: skipped,
             duration,
         })
+        await this.delivery.flush(Math.max(deadline - Date.now(), 0))
 
-        // Notify dashboard that process is ending
+        // Notify dashboard that process is ending, once the run holds the totals its
+        // end-of-run handling (webhooks, new failures) reads
         console.log('🔄 Sending process end notification...')
-        await this.notifyProcessEnd({
+        const processEnd = this.notifyProcessEnd({
             runId: this.runId,
             status: result.status === 'passed' ? 'completed' : 'failed',
             results: {
@@ -311,6 +410,11 @@ class YShvydakReporter implements Reporter {
             },
         })
 
+        await this.delivery.flush(Math.max(deadline - Date.now(), 0))
+        await Promise.all([runUpdate, processEnd])
+
+        this.reportJournal()
+
         console.log(`\n📊 Test run completed:`)
         console.log(`   ✅ Passed: ${passed}`)
         console.log(`   ❌ Failed: ${failed}`)
@@ -320,24 +424,24 @@ class YShvydakReporter implements Reporter {
     }
 
     private generateStableTestId(test: TestCase): string {
-        // Generate stable ID based on file path and test title
-        const originalPath = path.relative(process.cwd(), test.location.file)
-
-        // Normalize path by removing common test directory prefixes
-        // This ensures consistent testId generation across different project structures
-        const filePath = normalizeTestPath(originalPath)
-
-        const content = `${filePath}:${test.title}`
+        // Describe blocks between the file suite and the test become part of the ID,
+        // so equally named tests in different describes keep separate histories
+        return generateStableTestId({
+            filePath: path.relative(process.cwd(), test.location.file),
+            titlePath: this.getTitlePath(test),
+            project: test.parent.project()?.name,
+        })
+    }
 
-        // Simple hash function for stable IDs
-        let hash = 0
-        for (let i = 0; i < content.length; i++) {
-            const char = content.charCodeAt(i)
-            hash = (hash << 5) - hash + char
-            hash = hash | 0 // Convert to 32-bit integer
+    // Describe block titles followed by the test title, without project and file
+    private getTitlePath(test: TestCase): string[] {
+        const titlePath = [test.title]
+        let suite: Suite | undefined = test.parent
+        while (suite?.type === 'describe') {
+            titlePath.unshift(suite.title)
+            suite = suite.parent
         }
-
-        return `test-${Math.abs(hash).toString(36)}`
+        return titlePath
     }
 
     private mapStatus(status: string): 'passed' | 'failed' | 'skipped' | 'timedOut' {
@@ -463,117 +567,124 @@ class YShvydakReporter implements Reporter {
         }
     }
 
-    private async sendTestResult(result: YShvydakTestResult) {
-        const startTime = Date.now()
-        try {
-            const response = await fetch(`${this.apiBaseUrl}/api/tests`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(result),
-            })
+    private getJournalPath(dir: string): string {
+        return path.join(dir, `dashboard-journal-${this.runId}.jsonl`)
+    }
 
-            const duration = Date.now() - startTime
+    private reportJournal() {
+        const journal = this.delivery.journal
+        if (journal.size === 0) return
 
-            if (!response.ok) {
-                console.warn(`⚠️  Failed to send test result (${duration}ms): ${response.status}`)
-                const responseText = await response.text()
-                console.warn(`⚠️  Response: ${responseText}`)
-            }
-        } catch (error) {
-            const duration = Date.now() - startTime
-            console.warn(`⚠️  Dashboard API not available (${duration}ms): ${error}`)
-        }
+        console.warn(`\n💾 ${journal.size} undelivered requests saved to ${journal.path}`)
+        console.warn(
+            `   Upload them once the dashboard is reachable: npx playwright-dashboard-reporter replay "${journal.path}"`
+        )
     }
 
-    private async updateTestRun(run: YShvydakTestRun) {
-        try {
-            const response = await fetch(`${this.apiBaseUrl}/api/runs/${run.id}`, {
-                method: 'PUT',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(run),
-            })
+    private queueTestResult(result: YShvydakTestResult) {
+        const batchSize = this.options.batchSize ?? 1
+        if (batchSize <= 1) {
+            this.sendTestResult(result)
+            return
+        }
 
-            if (!response.ok) {
-                console.warn(`⚠️  Failed to update test run: ${response.status}`)
-                const responseText = await response.text()
-                console.warn(`⚠️  Response: ${responseText}`)
-            }
-        } catch (error) {
-            console.warn(`⚠️  Dashboard API not available: ${error}`)
+        this.pendingBatch.push(result)
+
+        if (this.pendingBatch.length >= batchSize) {
+            this.flushResultBatch()
+        } else if (!this.batchTimer) {
+            this.batchTimer = setTimeout(
+                () => this.flushResultBatch(),
+                this.options.batchIntervalMs ?? 1000
+            )
         }
     }
 
-    private async notifyProcessStart(data: ProcessStartData) {
-        try {
-            console.log(`📤 Sending process start notification for: ${data.runId}`)
-            const response = await fetch(`${this.apiBaseUrl}/api/tests/process-start`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(data),
-            })
+    private flushResultBatch() {
+        clearTimeout(this.batchTimer)
+        this.batchTimer = undefined
 
-            if (!response.ok) {
-                console.warn(`⚠️  Failed to notify process start: ${response.status}`)
-                const responseText = await response.text()
-                console.warn(`⚠️  Response: ${responseText}`)
-            } else {
-                console.log(`✅ Process start notification sent successfully: ${data.runId}`)
-            }
-        } catch (error) {
-            console.warn(`⚠️  Process start notification failed: ${error}`)
-        }
+        if (this.pendingBatch.length === 0) return
+
+        const results = this.pendingBatch
+        this.pendingBatch = []
+
+        return this.delivery.enqueue({
+            method: 'POST',
+            path: '/api/tests/batch',
+            body: {results},
+            failureMessage: `Failed to send batch of ${results.length} test results`,
+            networkFailureMessage: 'Dashboard API not available',
+            durable: true,
+        })
     }
 
-    private async notifyTestStart(data: {testId: string; name: string; filePath: string}) {
-        try {
-            const response = await fetch(`${this.apiBaseUrl}/api/tests/test-start`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    runId: this.runId,
-                    ...data,
-                }),
-            })
+    private sendTestResult(result: YShvydakTestResult) {
+        return this.delivery.enqueue({
+            method: 'POST',
+            path: '/api/tests',
+            body: result,
+            failureMessage: 'Failed to send test result',
+            networkFailureMessage: 'Dashboard API not available',
+            durable: true,
+        })
+    }
 
-            if (!response.ok) {
-                console.warn(`⚠️  Failed to notify test start: ${response.status}`)
-            }
-        } catch (error) {
-            // Silently fail - don't interrupt test execution
-            console.warn(`⚠️  Test start notification failed: ${error}`)
+    private updateTestRun(run: YShvydakTestRun) {
+        return this.delivery.enqueue({
+            method: 'PUT',
+            path: `/api/runs/${run.id}`,
+            body: run,
+            failureMessage: 'Failed to update test run',
+            networkFailureMessage: 'Dashboard API not available',
+            durable: true,
+        })
+    }
+
+    private async notifyProcessStart(data: ProcessStartData) {
+        console.log(`📤 Sending process start notification for: ${data.runId}`)
+        const outcome = await this.delivery.enqueue({
+            method: 'POST',
+            path: '/api/tests/process-start',
+            body: data,
+            failureMessage: 'Failed to notify process start',
+            networkFailureMessage: 'Process start notification failed',
+        })
+
+        if (outcome === 'delivered') {
+            console.log(`✅ Process start notification sent successfully: ${data.runId}`)
         }
     }
 
+    private notifyTestStart(data: {testId: string; name: string; filePath: string}) {
+        // Progress is only meaningful in real time - never retried or journaled
+        return this.delivery.enqueue({
+            method: 'POST',
+            path: '/api/tests/test-start',
+            body: {
+                runId: this.runId,
+                ...data,
+            },
+            failureMessage: 'Failed to notify test start',
+            networkFailureMessage: 'Test start notification failed',
+            maxRetries: 0,
+        })
+    }
+
     private async notifyProcessEnd(data: ProcessEndData) {
-        try {
-            console.log(`📤 Sending process end notification for: ${data.runId} (${data.status})`)
-            const response = await fetch(`${this.apiBaseUrl}/api/tests/process-end`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(data),
-            })
+        console.log(`📤 Sending process end notification for: ${data.runId} (${data.status})`)
+        const outcome = await this.delivery.enqueue({
+            method: 'POST',
+            path: '/api/tests/process-end',
+            body: data,
+            failureMessage: 'Failed to notify process end',
+            networkFailureMessage: 'Process end notification failed',
+        })
 
-            if (!response.ok) {
-                console.warn(`⚠️  Failed to notify process end: ${response.status}`)
-                const responseText = await response.text()
-                console.warn(`⚠️  Response: ${responseText}`)
-            } else {
-                console.log(
-                    `✅ Process end notification sent successfully: ${data.runId} (${data.status})`
-                )
-            }
-        } catch (error) {
-            console.warn(`⚠️  Process end notification failed: ${error}`)
+        if (outcome === 'delivered') {
+            console.log(
+                `✅ Process end notification sent successfully: ${data.runId} (${data.status})`
+            )
         }
     }
 
@@ -588,11 +699,17 @@ class YShvydakReporter implements Reporter {
     private async cleanup(status: 'interrupted' = 'interrupted') {
         console.log('🧹 Cleaning up reporter...')
         try {
-            await this.notifyProcessEnd({
+            this.flushResultBatch()
+            const processEnd = this.notifyProcessEnd({
                 runId: this.runId,
                 status: status,
                 results: null,
             })
+
+            // The process is going away: whatever cannot be delivered quickly goes to the journal
+            await this.delivery.flush(YShvydakReporter.CLEANUP_FLUSH_TIMEOUT_MS)
+            await processEnd
+            this.reportJournal()
         } catch (error) {
             console.warn('⚠️  Cleanup notification failed:', error)
         }
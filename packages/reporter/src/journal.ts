@@ -0,0 +1,115 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+/**
+ * One undeliverable request, stored as a single JSON line so a crashed or
+ * interrupted run still leaves a readable journal behind.
+ */
+export interface JournalEntry {
+    method: 'POST' | 'PUT'
+    path: string
+    body: unknown
+    reason: string
+    journaledAt: string
+}
+
+export interface ReplayResult {
+    delivered: number
+    failed: number
+    journalPath: string
+}
+
+export class DeliveryJournal {
+    private entriesWritten = 0
+
+    constructor(private filePath: string) {}
+
+    get path(): string {
+        return this.filePath
+    }
+
+    get size(): number {
+        return this.entriesWritten
+    }
+
+    // The journal location is only known once Playwright hands us the config,
+    // so allow moving it as long as nothing has been written yet.
+    relocate(filePath: string) {
+        if (this.entriesWritten === 0) {
+            this.filePath = filePath
+        }
+    }
+
+    append(entry: JournalEntry) {
+        fs.mkdirSync(path.dirname(this.filePath), {recursive: true})
+        fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8')
+        this.entriesWritten++
+    }
+}
+
+export function readJournal(journalPath: string): JournalEntry[] {
+    const content = fs.readFileSync(journalPath, 'utf-8')
+
+    return content
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .map((line, index) => {
+            try {
+                return JSON.parse(line) as JournalEntry
+            } catch {
+                throw new Error(`Invalid journal entry on line ${index + 1} of ${journalPath}`)
+            }
+        })
+}
+
+/**
+ * Upload a journal left behind by a run that could not reach the dashboard.
+ * Entries are sent one by one in their original order (results before the run
+ * update). Delivered entries are removed; whatever still fails stays in the
+ * file so the replay can simply be run again.
+ */
+export async function replayJournal(
+    journalPath: string,
+    apiBaseUrl: string,
+    timeout: number = 30000
+): Promise<ReplayResult> {
+    const entries = readJournal(journalPath)
+    const remaining: JournalEntry[] = []
+    let delivered = 0
+
+    for (const entry of entries) {
+        try {
+            const response = await fetch(`${apiBaseUrl}${entry.path}`, {
+                method: entry.method,
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(entry.body),
+                signal: AbortSignal.timeout(timeout),
+            })
+
+            if (response.ok) {
+                delivered++
+                continue
+            }
+
+            console.warn(`⚠️  Replay of ${entry.method} ${entry.path} failed: ${response.status}`)
+        } catch (error) {
+            console.warn(`⚠️  Dashboard API not available during replay: ${error}`)
+        }
+
+        remaining.push(entry)
+    }
+
+    if (remaining.length === 0) {
+        fs.unlinkSync(journalPath)
+    } else {
+        fs.writeFileSync(
+            journalPath,
+            remaining.map((entry) => `${JSON.stringify(entry)}\n`).join(''),
+            'utf-8'
+        )
+    }
+
+    return {delivered, failed: remaining.length, journalPath}
+}
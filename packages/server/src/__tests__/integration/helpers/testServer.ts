@@ -107,4 +107,7 @@ export async function cleanDatabase(testRepository: any): Promise<void> {
     await db.execute('DELETE FROM attachments')
     await db.execute('DELETE FROM test_results')
     await db.execute('DELETE FROM test_runs')
+    await db.execute('DELETE FROM run_queue')
+    await db.execute('DELETE FROM active_processes')
+    await db.execute('DELETE FROM pipeline_runs')
 }
@@ -0,0 +1,118 @@
+import {describe, it, expect, beforeAll, afterAll, beforeEach} from 'vitest'
+import request from 'supertest'
+import type {TestServerInstance} from '../helpers/testServer'
+import {setupTestServer, teardownTestServer, cleanDatabase} from '../helpers/testServer'
+import {fixtures} from '../helpers/fixtures'
+import {getAllTestResults, getTestResultCount, seedTestRuns} from '../helpers/database'
+
+describe('POST /api/tests/batch - Batch Test Results (Integration)', () => {
+    let server: TestServerInstance
+
+    beforeAll(async () => {
+        server = await setupTestServer()
+    })
+
+    afterAll(async () => {
+        await teardownTestServer(server)
+    })
+
+    beforeEach(async () => {
+        await cleanDatabase(server.testRepository)
+        await seedTestRuns(server.testRepository.dbManager, [{id: 'run-789', status: 'running'}])
+    })
+
+    const makeResults = (count: number) =>
+        Array.from({length: count}, (_, i) => ({
+            ...fixtures.validTestResult,
+            id: `batch-result-${i}`,
+            testId: `test-batch-${i}`,
+            name: `Batch Test ${i}`,
+        }))
+
+    it('should save all results and return a status per item', async () => {
+        const results = makeResults(25)
+
+        const response = await request(server.app)
+            .post('/api/tests/batch')
+            .send({results})
+            .expect(200)
+
+        expect(response.body.success).toBe(true)
+        expect(response.body.count).toBe(25)
+        expect(response.body.data.saved).toBe(25)
+        expect(response.body.data.failed).toBe(0)
+        expect(response.body.data.items[0]).toEqual({
+            id: 'batch-result-0',
+            testId: 'test-batch-0',
+            status: 'saved',
+        })
+
+        expect(await getTestResultCount(server.testRepository.dbManager)).toBe(25)
+    })
+
+    it('should accept a bare array body', async () => {
+        const response = await request(server.app)
+            .post('/api/tests/batch')
+            .send(makeResults(2))
+            .expect(200)
+
+        expect(response.body.data.saved).toBe(2)
+    })
+
+    it('should keep saving the batch when individual items fail', async () => {
+        const [first, second] = makeResults(2)
+        const results = [
+            first,
+            {...second, runId: 'missing-run'}, // FK violation
+            {...first}, // duplicate id
+            {name: 'No ids'}, // validation failure
+        ]
+
+        const response = await request(server.app)
+            .post('/api/tests/batch')
+            .send({results})
+            .expect(200)
+
+        const items = response.body.data.items
+        expect(items.map((item: any) => item.status)).toEqual([
+            'saved',
+            'failed',
+            'failed',
+            'invalid',
+        ])
+        expect(items[1].error).toContain('FOREIGN KEY')
+        expect(items[2].error).toContain('UNIQUE')
+        expect(response.body.data).toMatchObject({saved: 1, failed: 3})
+
+        const saved = await getAllTestResults(server.testRepository.dbManager)
+        expect(saved).toHaveLength(1)
+        expect(saved[0].id).toBe(first.id)
+    })
+
+    it('should fall back to the run project for items without one', async () => {
+        await seedTestRuns(server.testRepository.dbManager, [
+            {id: 'run-chromium', status: 'running', metadata: {project: 'chromium'}},
+        ])
+        const results = makeResults(3).map((result) => ({...result, runId: 'run-chromium'}))
+
+        await request(server.app).post('/api/tests/batch').send({results}).expect(200)
+
+        const saved = await getAllTestResults(server.testRepository.dbManager)
+        expect(saved.map((row) => row.project)).toEqual(['chromium', 'chromium', 'chromium'])
+    })
+
+    it('should reject an empty or missing results array', async () => {
+        await request(server.app).post('/api/tests/batch').send({results: []}).expect(400)
+        await request(server.app).post('/api/tests/batch').send({}).expect(400)
+    })
+
+    it('should reject batches above the size limit', async () => {
+        const response = await request(server.app)
+            .post('/api/tests/batch')
+            .send({results: makeResults(1001)})
+            .expect(400)
+
+        expect(response.body.message).toContain('Batch too large')
+        expect(await getTestResultCount(server.testRepository.dbManager)).toBe(0)
+    })
+})
@@ -0,0 +1,97 @@
+import {describe, it, expect, beforeAll, afterAll, beforeEach} from 'vitest'
+import request from 'supertest'
+import type {TestServerInstance} from '../helpers/testServer'
+import {setupTestServer, teardownTestServer, cleanDatabase} from '../helpers/testServer'
+
+describe('Duration stats (Integration)', () => {
+    let server: TestServerInstance
+
+    beforeAll(async () => {
+        server = await setupTestServer()
+    })
+
+    afterAll(async () => {
+        await teardownTestServer(server)
+    })
+
+    const daysAgo = (days: number) =>
+        new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    const saveResult = (
+        id: string,
+        testId: string,
+        duration: number,
+        ageDays: number,
+        extra: Record<string, unknown> = {}
+    ) =>
+        request(server.app)
+            .post('/api/tests')
+            .send({
+                id,
+                testId,
+                runId: 'run-1',
+                name: testId,
+                filePath: 'tests/app.spec.ts',
+                status: 'passed',
+                duration,
+                project: 'chromium',
+                timestamp: daysAgo(ageDays),
+                ...extra,
+            })
+            .expect(200)
+
+    beforeEach(async () => {
+        await cleanDatabase(server.testRepository)
+        await server.serviceContainer.runRepository.createTestRun({
+            id: 'run-1',
+            status: 'completed',
+            totalTests: 0,
+            passedTests: 0,
+            failedTests: 0,
+            skippedTests: 0,
+            duration: 0,
+        })
+
+        for (const [i, age] of [12, 11, 10].entries()) {
+            await saveResult(`checkout-old-${i}`, 'checkout', 1000, age)
+        }
+        for (const [i, age] of [3, 2, 1].entries()) {
+            await saveResult(`checkout-new-${i}`, 'checkout', 3000 + i * 100, age)
+        }
+        await saveResult('login-1', 'login', 500, 1)
+        // Failed and other-project executions don't count
+        await saveResult('login-failed', 'login', 60000, 1, {status: 'failed'})
+        await saveResult('login-firefox', 'login', 9000, 1, {project: 'firefox'})
+    })
+
+    it('should return the duration percentiles of a test', async () => {
+        const response = await request(server.app)
+            .get('/api/tests/checkout/duration-stats')
+            .query({days: 7})
+            .expect(200)
+
+        expect(response.body.data).toEqual({
+            testId: 'checkout',
+            days: 7,
+            samples: 3,
+            p50: 3100,
+            p95: 3200,
+            min: 3000,
+            max: 3200,
+        })
+    })
+
+    it('should rank the slowest and most slowed down tests of a project', async () => {
+        const response = await request(server.app)
+            .get('/api/tests/duration-leaderboard')
+            .query({days: 7, project: 'chromium'})
+            .expect(200)
+
+        const {slowest, slowdowns} = response.body.data
+        expect(slowest.map((entry: any) => entry.testId)).toEqual(['checkout', 'login'])
+        expect(slowest[1]).toMatchObject({samples: 1, p50: 500})
+        expect(slowdowns).toEqual([
+            expect.objectContaining({testId: 'checkout', previousP50: 1000, change: 210}),
+        ])
+    })
+})
@@ -0,0 +1,107 @@
+import {describe, it, expect, beforeAll, afterAll, beforeEach} from 'vitest'
+import request from 'supertest'
+import type {TestServerInstance} from '../helpers/testServer'
+import {setupTestServer, teardownTestServer, cleanDatabase} from '../helpers/testServer'
+
+describe('Failure groups (Integration)', () => {
+    let server: TestServerInstance
+
+    beforeAll(async () => {
+        server = await setupTestServer()
+    })
+
+    afterAll(async () => {
+        await teardownTestServer(server)
+    })
+
+    const createRun = (id: string) =>
+        server.serviceContainer.runRepository.createTestRun({
+            id,
+            status: 'completed',
+            totalTests: 0,
+            passedTests: 0,
+            failedTests: 0,
+            skippedTests: 0,
+            duration: 0,
+        })
+
+    const saveResult = (
+        runId: string,
+        testId: string,
+        status: string,
+        errorMessage?: string,
+        extra: Record<string, unknown> = {}
+    ) =>
+        request(server.app)
+            .post('/api/tests')
+            .send({
+                id: `${runId}-${testId}-${extra.retryCount || 0}`,
+                testId,
+                runId,
+                name: testId,
+                filePath: 'tests/app.spec.ts',
+                status,
+                duration: 1000,
+                errorMessage,
+                ...extra,
+            })
+            .expect(200)
+
+    const loginDown = (session: string) =>
+        `TimeoutError: page.goto: Timeout 30000ms exceeded.\nCall log:\n  - navigating to "http://localhost:3000/login?session=${session}"`
+
+    beforeEach(async () => {
+        await cleanDatabase(server.testRepository)
+
+        await createRun('run-1')
+        await createRun('run-2')
+
+        await saveResult('run-1', 'checkout', 'failed', loginDown('a1'))
+        await saveResult('run-1', 'profile', 'timedOut', loginDown('b2'))
+        await saveResult('run-1', 'search', 'failed', 'Expected: 5\nReceived: 4')
+        await saveResult('run-1', 'login', 'passed')
+        // Failed first, passed on the retry: flaky, not a failure
+        await saveResult('run-1', 'cart', 'failed', 'Error: flaky cart')
+        await saveResult('run-1', 'cart', 'passed', undefined, {
+            retryCount: 1,
+            executionId: 'run-1-cart-0',
+        })
+
+        await saveResult('run-2', 'checkout', 'failed', loginDown('c3'))
+    })
+
+    it('should group the failures of a run by error signature', async () => {
+        const response = await request(server.app).get('/api/runs/run-1/failure-groups').expect(200)
+
+        const groups = response.body.data
+        expect(groups).toHaveLength(2)
+        expect(groups[0]).toMatchObject({
+            signature: 'TimeoutError: page.goto: Timeout <n>ms exceeded.',
+            message: 'TimeoutError: page.goto: Timeout 30000ms exceeded.',
+            failures: 2,
+        })
+        expect(groups[0].tests.map((test: any) => test.testId).sort()).toEqual([
+            'checkout',
+            'profile',
+        ])
+        expect(groups[1]).toMatchObject({signature: 'Expected: <n>\nReceived: <n>', failures: 1})
+    })
+
+    it('should group recent failures across runs', async () => {
+        const response = await request(server.app)
+            .get('/api/tests/failure-groups')
+            .query({days: 7})
+            .expect(200)
+
+        const [loginGroup] = response.body.data
+        expect(loginGroup.failures).toBe(3)
+        expect(loginGroup.tests).toHaveLength(2)
+        expect(loginGroup.tests.find((test: any) => test.testId === 'checkout')).toMatchObject({
+            failures: 2,
+        })
+    })
+
+    it('should return 404 for an unknown run', async () => {
+        await request(server.app).get('/api/runs/missing/failure-groups').expect(404)
+    })
+})
@@ -98,7 +98,7 @@ describe('POST /api/tests/run-all - Run All Tests (Integration)', () => {
             expect(response.body.data.runId).toBe(mockRunId)
 
             // Verify playwrightService was called with undefined
-            expect(mockRunAllTests).toHaveBeenCalledWith(undefined, undefined)
+            expect(mockRunAllTests).toHaveBeenCalledWith(undefined, undefined, [], undefined)
         })
 
         it('should pass maxWorkers to Playwright service', async () => {
@@ -118,7 +118,7 @@ describe('POST /api/tests/run-all - Run All Tests (Integration)', () => {
                 .send({maxWorkers: 8})
                 .expect(200)
 
-            expect(mockRunAllTests).toHaveBeenCalledWith(8, undefined)
+            expect(mockRunAllTests).toHaveBeenCalledWith(8, undefined, [], undefined)
         })
     })
 
@@ -147,11 +147,11 @@ describe('POST /api/tests/run-all - Run All Tests (Integration)', () => {
             // Verify process is tracked as active
             expect(activeProcessesTracker.isRunAllActive()).toBe(true)
 
-            // Try to start second test run (should fail with 409)
+            // Try to start second test run without queueing (should fail with 409)
             const response = await request(server.app)
                 .post('/api/tests/run-all')
                 .set('Authorization', `Bearer ${server.authToken}`)
-                .send({maxWorkers: 4})
+                .send({maxWorkers: 4, queue: false})
                 .expect(409)
 
             expect(response.body).toMatchObject({
@@ -193,7 +193,7 @@ describe('POST /api/tests/run-all - Run All Tests (Integration)', () => {
             const response = await request(server.app)
                 .post('/api/tests/run-all')
                 .set('Authorization', `Bearer ${server.authToken}`)
-                .send({})
+                .send({queue: false})
                 .expect(409)
 
             // Parse error message (it's JSON stringified)
@@ -211,6 +211,58 @@ describe('POST /api/tests/run-all - Run All Tests (Integration)', () => {
         })
     })
 
+    describe('Run queue (202)', () => {
+        it('should queue a run requested while tests are running', async () => {
+            const firstRunId = 'run-queue-123'
+            vi.spyOn(
+                server.serviceContainer.playwrightService as any,
+                'runAllTests'
+            ).mockResolvedValue({
+                runId: firstRunId,
+                message: 'All tests started',
+                timestamp: new Date().toISOString(),
+                process: null,
+            })
+
+            await request(server.app)
+                .post('/api/tests/run-all')
+                .set('Authorization', `Bearer ${server.authToken}`)
+                .send({project: 'chromium'})
+                .expect(200)
+
+            const response = await request(server.app)
+                .post('/api/tests/run-all')
+                .set('Authorization', `Bearer ${server.authToken}`)
+                .send({project: 'webkit'})
+                .expect(202)
+
+            expect(response.body).toMatchObject({
+                success: true,
+                message: expect.stringContaining('queued at position 1'),
+                data: {
+                    queued: true,
+                    duplicate: false,
+                    item: {kind: 'run-all', project: 'webkit', position: 1},
+                },
+            })
+
+            // The identical request is not queued twice
+            const duplicate = await request(server.app)
+                .post('/api/tests/run-all')
+                .send({project: 'webkit'})
+                .expect(202)
+            expect(duplicate.body.data).toMatchObject({queued: true, duplicate: true})
+
+            const queue = await request(server.app).get('/api/queue').expect(200)
+            expect(queue.body.data).toHaveLength(1)
+
+            // Only the first run was created
+            const allRuns =
+                await server.testRepository.dbManager.queryAll('SELECT * FROM test_runs')
+            expect(allRuns.map((run: any) => run.id)).toEqual([firstRunId])
+        })
+    })
+
     describe('Database integration', () => {
         it('should create test_runs record with correct metadata', async () => {
             const mockRunId = 'run-db-test-123'
@@ -280,7 +332,7 @@ describe('POST /api/tests/run-all - Run All Tests (Integration)', () => {
             await request(server.app)
                 .post('/api/tests/run-all')
                 .set('Authorization', `Bearer ${server.authToken}`)
-                .send({})
+                .send({queue: false})
                 .expect(409)
 
             // Verify only one test_runs record exists
@@ -358,7 +410,7 @@ describe('POST /api/tests/run-all - Run All Tests (Integration)', () => {
             await request(server.app)
                 .post('/api/tests/run-all')
                 .set('Authorization', `Bearer ${server.authToken}`)
-                .send({})
+                .send({queue: false})
                 .expect(409)
 
             expect(broadcastSpy).not.toHaveBeenCalled()
@@ -0,0 +1,99 @@
+import {describe, it, expect, beforeAll, afterAll, beforeEach} from 'vitest'
+import request from 'supertest'
+import type {TestServerInstance} from '../helpers/testServer'
+import {setupTestServer, teardownTestServer, cleanDatabase} from '../helpers/testServer'
+
+describe('GET /api/runs/compare - Run Comparison (Integration)', () => {
+    let server: TestServerInstance
+
+    beforeAll(async () => {
+        server = await setupTestServer()
+    })
+
+    afterAll(async () => {
+        await teardownTestServer(server)
+    })
+
+    const createRun = (id: string, createdAt: string, project?: string) =>
+        server.serviceContainer.runRepository.createTestRun({
+            id,
+            status: 'completed',
+            totalTests: 0,
+            passedTests: 0,
+            failedTests: 0,
+            skippedTests: 0,
+            duration: 0,
+            metadata: project ? {type: 'run-all', project} : undefined,
+            createdAt,
+        })
+
+    const saveResult = (runId: string, testId: string, status: string, duration = 1000) =>
+        request(server.app)
+            .post('/api/tests')
+            .send({
+                id: `${runId}-${testId}`,
+                testId,
+                runId,
+                name: testId,
+                filePath: 'tests/app.spec.ts',
+                status,
+                duration,
+            })
+            .expect(200)
+
+    beforeEach(async () => {
+        await cleanDatabase(server.testRepository)
+
+        await createRun('nightly-1', '2025-03-01T02:00:00.000Z', 'chromium')
+        await createRun('other-project', '2025-03-01T12:00:00.000Z', 'firefox')
+        await createRun('nightly-2', '2025-03-02T02:00:00.000Z', 'chromium')
+
+        await saveResult('nightly-1', 'login', 'passed')
+        await saveResult('nightly-1', 'checkout', 'failed')
+        await saveResult('nightly-1', 'search', 'passed', 1000)
+        await saveResult('nightly-2', 'login', 'failed')
+        await saveResult('nightly-2', 'checkout', 'passed')
+        await saveResult('nightly-2', 'search', 'passed', 3000)
+        await saveResult('nightly-2', 'profile', 'passed')
+    })
+
+    it('should compare a run with the previous run of the same project', async () => {
+        const response = await request(server.app)
+            .get('/api/runs/compare')
+            .query({head: 'nightly-2'})
+            .expect(200)
+
+        const comparison = response.body.data
+        const ids = (entries: any[]) => entries.map((entry) => entry.testId)
+
+        expect(comparison.base.id).toBe('nightly-1')
+        expect(comparison.head.id).toBe('nightly-2')
+        expect(ids(comparison.newlyFailing)).toEqual(['login'])
+        expect(ids(comparison.newlyPassing)).toEqual(['checkout'])
+        expect(ids(comparison.added)).toEqual(['profile'])
+        expect(comparison.slower[0]).toMatchObject({testId: 'search', durationChange: 200})
+    })
+
+    it('should compare with an explicit base run', async () => {
+        const response = await request(server.app)
+            .get('/api/runs/compare')
+            .query({head: 'nightly-2', base: 'other-project'})
+            .expect(200)
+
+        expect(response.body.data.base.id).toBe('other-project')
+        expect(response.body.data.added).toHaveLength(4)
+    })
+
+    it('should return 404 when the run has no previous run', async () => {
+        const response = await request(server.app)
+            .get('/api/runs/compare')
+            .query({head: 'nightly-1'})
+            .expect(404)
+
+        expect(response.body.error).toBe('Previous run not found')
+    })
+
+    it('should return 400 without a head run', async () => {
+        await request(server.app).get('/api/runs/compare').expect(400)
+    })
+})
@@ -0,0 +1,124 @@
+import {describe, it, expect, beforeAll, afterAll, beforeEach} from 'vitest'
+import request from 'supertest'
+import type {TestServerInstance} from '../helpers/testServer'
+import {setupTestServer, teardownTestServer, cleanDatabase} from '../helpers/testServer'
+import {seedTestRuns} from '../helpers/database'
+
+describe('GET /api/runs/:id/export - Run Export (Integration)', () => {
+    let server: TestServerInstance
+
+    beforeAll(async () => {
+        server = await setupTestServer()
+    })
+
+    afterAll(async () => {
+        await teardownTestServer(server)
+    })
+
+    beforeEach(async () => {
+        await cleanDatabase(server.testRepository)
+        await seedTestRuns(server.testRepository.dbManager, [
+            {
+                id: 'run-export',
+                status: 'completed',
+                duration: 3000,
+                metadata: {project: 'chromium'},
+            },
+        ])
+
+        await request(server.app)
+            .post('/api/tests')
+            .send({
+                id: 'result-pass',
+                testId: 'test-pass',
+                runId: 'run-export',
+                name: 'should login',
+                filePath: 'tests/auth.spec.ts',
+                status: 'passed',
+                duration: 1200,
+                metadata: {
+                    titlePath: ['Auth', 'should login'],
+                    tags: ['@smoke'],
+                    console: {
+                        entries: [{type: 'stdout', text: 'logged in', timestamp: '2025-01-01'}],
+                    },
+                },
+            })
+            .expect(200)
+        await request(server.app)
+            .post('/api/tests')
+            .send({
+                id: 'result-fail',
+                testId: 'test-fail',
+                runId: 'run-export',
+                name: 'should show <cart> & total',
+                filePath: 'tests/cart.spec.ts',
+                status: 'failed',
+                duration: 1800,
+                errorMessage: 'Expected "3" but got "2"\n    at cart.spec.ts:12',
+                errorStack: 'Error: Expected "3" but got "2"',
+            })
+            .expect(200)
+    })
+
+    it('should export JUnit XML by default', async () => {
+        const response = await request(server.app).get('/api/runs/run-export/export').expect(200)
+
+        expect(response.headers['content-type']).toContain('application/xml')
+        expect(response.headers['content-disposition']).toContain('run-export-junit.xml')
+
+        const xml = response.text
+        expect(xml).toContain('<testsuites id="run-export" name="chromium" tests="2" failures="1"')
+        expect(xml).toContain('<testsuite name="tests/auth.spec.ts" tests="1" failures="0"')
+        expect(xml).toContain(
+            '<testcase name="Auth › should login" classname="tests/auth.spec.ts" time="1.200">'
+        )
+        expect(xml).toContain('<system-out>logged in</system-out>')
+        expect(xml).toContain('name="should show &lt;cart&gt; &amp; total"')
+        expect(xml).toContain(
+            '<failure message="Expected &quot;3&quot; but got &quot;2&quot;" type="failed">'
+        )
+    })
+
+    it('should export a CTRF report', async () => {
+        const response = await request(server.app)
+            .get('/api/runs/run-export/export?format=ctrf')
+            .expect(200)
+
+        const report = JSON.parse(response.text)
+        expect(report.reportFormat).toBe('CTRF')
+        expect(report.results.summary).toMatchObject({tests: 2, passed: 1, failed: 1})
+
+        const login = report.results.tests.find((test: any) => test.name === 'should login')
+        expect(login).toMatchObject({
+            status: 'passed',
+            duration: 1200,
+            filePath: 'tests/auth.spec.ts',
+            suite: 'Auth',
+            tags: ['@smoke'],
+            stdout: ['logged in'],
+        })
+    })
+
+    it('should export the dashboard JSON representation', async () => {
+        const response = await request(server.app)
+            .get('/api/runs/run-export/export?format=json')
+            .expect(200)
+
+        const report = JSON.parse(response.text)
+        expect(report.run).toMatchObject({id: 'run-export', project: 'chromium'})
+        expect(report.tests).toHaveLength(2)
+    })
+
+    it('should reject unknown formats', async () => {
+        const response = await request(server.app)
+            .get('/api/runs/run-export/export?format=html')
+            .expect(400)
+
+        expect(response.body.message).toContain('junit, ctrf, json')
+    })
+
+    it('should return 404 for an unknown run', async () => {
+        await request(server.app).get('/api/runs/missing/export').expect(404)
+    })
+})
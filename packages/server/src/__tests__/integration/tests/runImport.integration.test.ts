@@ -0,0 +1,231 @@
+import {describe, it, expect, beforeAll, afterAll, beforeEach} from 'vitest'
+import request from 'supertest'
+import {zipSync, strToU8} from 'fflate'
+import {generateStableTestId} from '@yshvydak/core'
+import type {TestServerInstance} from '../helpers/testServer'
+import {setupTestServer, teardownTestServer, cleanDatabase} from '../helpers/testServer'
+
+const playwrightReport = {
+    suites: [
+        {
+            title: 'auth.spec.ts',
+            file: 'e2e/tests/auth.spec.ts',
+            specs: [],
+            suites: [
+                {
+                    title: 'Login',
+                    file: 'e2e/tests/auth.spec.ts',
+                    specs: [
+                        {
+                            title: 'works',
+                            file: 'e2e/tests/auth.spec.ts',
+                            tags: ['smoke'],
+                            tests: [
+                                {
+                                    projectName: 'chromium',
+                                    results: [
+                                        {
+                                            status: 'failed',
+                                            duration: 1200,
+                                            retry: 0,
+                                            startTime: '2025-03-01T10:00:00.000Z',
+                                            error: {message: 'boom', stack: 'Error: boom'},
+                                            stdout: [{text: 'logging in\n'}],
+                                            attachments: [
+                                                {
+                                                    name: 'screenshot',
+                                                    contentType: 'image/png',
+                                                    path: '/ci/workspace/test-results/login-works-chromium/test-failed-1.png',
+                                                },
+                                                {
+                                                    name: 'note',
+                                                    contentType: 'text/plain',
+                                                    body: Buffer.from('inline').toString('base64'),
+                                                },
+                                            ],
+                                        },
+                                        {
+                                            status: 'passed',
+                                            duration: 900,
+                                            retry: 1,
+                                            startTime: '2025-03-01T10:00:02.000Z',
+                                        },
+                                    ],
+                                },
+                            ],
+                        },
+                        {
+                            title: 'rejects wrong password',
+                            file: 'e2e/tests/auth.spec.ts',
+                            tests: [
+                                {
+                                    projectName: 'chromium',
+                                    results: [{status: 'timedOut', duration: 30000, retry: 0}],
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        },
+    ],
+    stats: {startTime: '2025-03-01T10:00:00.000Z', duration: 32000},
+}
+
+const junitReport = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="2" failures="0" time="1.5">
+<testsuite name="cart.spec.ts" hostname="firefox" timestamp="2025-03-02T09:00:00.000Z">
+<testcase name="Cart › adds item" classname="cart.spec.ts" time="1"></testcase>
+<testcase name="Cart › empty" classname="cart.spec.ts" time="0"><skipped/></testcase>
+</testsuite>
+</testsuites>`
+
+describe('POST /api/runs/import - Report Import (Integration)', () => {
+    let server: TestServerInstance
+
+    beforeAll(async () => {
+        server = await setupTestServer()
+    })
+
+    afterAll(async () => {
+        await teardownTestServer(server)
+    })
+
+    beforeEach(async () => {
+        await cleanDatabase(server.testRepository)
+    })
+
+    it('should import a Playwright JSON report with retries and attachments', async () => {
+        const zip = zipSync({
+            'test-results/login-works-chromium/test-failed-1.png': strToU8('png-bytes'),
+        })
+
+        const response = await request(server.app)
+            .post('/api/runs/import')
+            .attach('report', Buffer.from(JSON.stringify(playwrightReport)), 'results.json')
+            .attach('attachments', Buffer.from(zip), 'test-results.zip')
+            .expect(200)
+
+        expect(response.body.data).toMatchObject({
+            format: 'playwright-json',
+            totalTests: 2,
+            saved: 3,
+            failed: 0,
+            attachments: 2,
+        })
+        const {runId} = response.body.data
+
+        // The run keeps the report's start time and counts final attempts
+        const run = await server.serviceContainer.runRepository.getTestRun(runId)
+        expect(run).toMatchObject({
+            status: 'failed',
+            totalTests: 2,
+            passedTests: 1,
+            failedTests: 1,
+            duration: 32000,
+            createdAt: '2025-03-01 10:00:00',
+        })
+        expect(run?.metadata).toMatchObject({
+            imported: true,
+            format: 'playwright-json',
+            fileName: 'results.json',
+            project: 'chromium',
+        })
+
+        // Same stable ID the reporter generates, so history merges
+        const testId = generateStableTestId({
+            filePath: 'e2e/tests/auth.spec.ts',
+            titlePath: ['Login', 'works'],
+            project: 'chromium',
+        })
+        const history = await request(server.app).get(`/api/tests/${testId}/history`).expect(200)
+        expect(history.body.data).toHaveLength(1)
+
+        const execution = history.body.data[0]
+        expect(execution).toMatchObject({
+            status: 'flaky',
+            filePath: 'auth.spec.ts',
+            project: 'chromium',
+        })
+        expect(execution.attempts).toHaveLength(2)
+        expect(execution.metadata.tags).toEqual(['@smoke'])
+
+        const failedAttempt = execution.attempts.find((attempt: any) => attempt.retryCount === 0)
+        expect(failedAttempt.errorMessage).toBe('Error: boom')
+        expect(failedAttempt.metadata.console.entries[0]).toMatchObject({
+            type: 'stdout',
+            text: 'logging in\n',
+        })
+
+        const attachments = await server.testRepository.dbManager.queryAll(
+            'SELECT type, file_name FROM attachments WHERE test_result_id = ? ORDER BY type',
+            [failedAttempt.id]
+        )
+        expect(attachments).toEqual([
+            {type: 'log', file_name: expect.stringMatching(/^note-/)},
+            {type: 'screenshot', file_name: expect.stringMatching(/^test-failed-1-.*\.png$/)},
+        ])
+    })
+
+    it('should import JUnit XML and use the project from the suite', async () => {
+        const response = await request(server.app)
+            .post('/api/runs/import')
+            .attach('report', Buffer.from(junitReport), 'results.xml')
+            .expect(200)
+
+        expect(response.body.data).toMatchObject({format: 'junit', totalTests: 2, saved: 2})
+
+        const results = await server.testRepository.getTestResultsByRun(response.body.data.runId)
+        expect(results.map((result: any) => [result.name, result.status, result.project])).toEqual(
+            expect.arrayContaining([
+                ['adds item', 'passed', 'firefox'],
+                ['empty', 'skipped', 'firefox'],
+            ])
+        )
+    })
+
+    it('should apply the project field to results without a project', async () => {
+        const response = await request(server.app)
+            .post('/api/runs/import')
+            .field('project', 'mobile')
+            .attach(
+                'report',
+                Buffer.from(
+                    '<testsuite name="a.spec.ts"><testcase name="works" time="0.1"/></testsuite>'
+                ),
+                'results.xml'
+            )
+            .expect(200)
+
+        const [result] = await server.testRepository.getTestResultsByRun(response.body.data.runId)
+        expect(result.project).toBe('mobile')
+        expect(result.testId).toBe(
+            generateStableTestId({filePath: 'a.spec.ts', titlePath: ['works'], project: 'mobile'})
+        )
+    })
+
+    it('should reject requests without a report file', async () => {
+        const response = await request(server.app).post('/api/runs/import').expect(400)
+
+        expect(response.body.message).toContain('Report file is required')
+    })
+
+    it('should reject reports in an unknown format', async () => {
+        const response = await request(server.app)
+            .post('/api/runs/import')
+            .attach('report', Buffer.from('not a report'), 'results.txt')
+            .expect(400)
+
+        expect(response.body.message).toContain('Invalid report')
+    })
+
+    it('should reject attachments that are not a zip archive', async () => {
+        const response = await request(server.app)
+            .post('/api/runs/import')
+            .attach('report', Buffer.from(junitReport), 'results.xml')
+            .attach('attachments', Buffer.from('not a zip'), 'attachments.zip')
+            .expect(400)
+
+        expect(response.body.message).toContain('zip archive')
+    })
+})
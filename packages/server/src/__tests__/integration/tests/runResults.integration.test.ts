@@ -0,0 +1,73 @@
+import {describe, it, expect, beforeAll, afterAll, beforeEach} from 'vitest'
+import request from 'supertest'
+import type {TestServerInstance} from '../helpers/testServer'
+import {setupTestServer, teardownTestServer, cleanDatabase} from '../helpers/testServer'
+import {seedTestRuns} from '../helpers/database'
+
+describe('GET /api/runs/:id/results - Run Results (Integration)', () => {
+    let server: TestServerInstance
+
+    beforeAll(async () => {
+        server = await setupTestServer()
+    })
+
+    afterAll(async () => {
+        await teardownTestServer(server)
+    })
+
+    beforeEach(async () => {
+        await cleanDatabase(server.testRepository)
+        await seedTestRuns(server.testRepository.dbManager, [
+            {id: 'run-a', status: 'completed', metadata: {type: 'run-all', project: 'chromium'}},
+            {id: 'run-b', status: 'completed'},
+        ])
+    })
+
+    const saveResult = (result: Record<string, any>) =>
+        request(server.app)
+            .post('/api/tests')
+            .send({filePath: 'tests/auth.spec.ts', duration: 100, ...result})
+            .expect(200)
+
+    it('should return one entry per execution with retries folded into attempts', async () => {
+        await saveResult({
+            id: 'attempt-1',
+            testId: 'test-login',
+            runId: 'run-a',
+            name: 'should login',
+            status: 'failed',
+            retryCount: 0,
+            executionId: 'attempt-1',
+        })
+        await saveResult({
+            id: 'attempt-2',
+            testId: 'test-login',
+            runId: 'run-a',
+            name: 'should login',
+            status: 'passed',
+            retryCount: 1,
+            executionId: 'attempt-1',
+        })
+        await saveResult({
+            id: 'other-run',
+            testId: 'test-logout',
+            runId: 'run-b',
+            name: 'should logout',
+            status: 'passed',
+        })
+
+        const response = await request(server.app).get('/api/runs/run-a/results').expect(200)
+
+        expect(response.body.data).toHaveLength(1)
+        expect(response.body.data[0]).toMatchObject({
+            id: 'attempt-2',
+            testId: 'test-login',
+            status: 'flaky',
+        })
+        expect(response.body.data[0].attempts).toHaveLength(2)
+    })
+
+    it('should return 404 for an unknown run', async () => {
+        await request(server.app).get('/api/runs/missing/results').expect(404)
+    })
+})
@@ -17,6 +17,7 @@ export const RUN_STATUSES = {
     RUNNING: 'running',
     COMPLETED: 'completed',
     FAILED: 'failed',
+    INTERRUPTED: 'interrupted',
 } as const
 
 export const ATTACHMENT_TYPES = {
@@ -42,8 +43,28 @@ export const DEFAULT_LIMITS = {
 
 export const PLAYWRIGHT_CONSTANTS = {
     LIST_REPORTER: 'json',
-    STABLE_TEST_ID_PREFIX: 'test-',
     CONFIG_FILES: ['playwright.config.ts', 'playwright.config.js'],
     PACKAGE_NAME: '@playwright/test',
     REPORTER_PACKAGE_NAME: 'playwright-dashboard-reporter',
+    /** Time a cancelled run gets to shut down after SIGTERM before it is killed */
+    CANCEL_GRACE_PERIOD_MS: 5000,
+    /**
+     * Output directory of pipeline steps, one per project under it, so steps running
+     * in parallel don't clear each other's traces and screenshots
+     */
+    PIPELINE_OUTPUT_DIR: 'test-results/pipeline',
+} as const
+
+export const RUN_LOG_CONSTANTS = {
+    /** A run log over this size is rotated, keeping the previous part as `<runId>.log.1` */
+    MAX_FILE_BYTES: 5 * 1024 * 1024,
+    /** Logs of older runs are deleted when a new run starts */
+    MAX_RUNS: 100,
+    /** The log of a running process is read and broadcast this often */
+    FLUSH_INTERVAL_MS: 250,
+} as const
+
+export const PROCESS_RECOVERY_CONSTANTS = {
+    /** How often test processes restored after a restart are checked for having exited */
+    PID_CHECK_INTERVAL_MS: 5000,
 } as const
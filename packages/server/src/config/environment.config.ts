@@ -15,9 +15,11 @@ export interface EnvironmentConfig {
         outputDir: string
         attachmentsDir: string
         reportsDir: string
+        runLogsDir: string
     }
     api: {
         baseUrl: string
+        webUrl: string
         requestLimit: string
     }
     auth: {
@@ -49,6 +51,7 @@ export const config: EnvironmentConfig = {
         outputDir: process.env.OUTPUT_DIR || path.join(process.cwd(), 'test-results'),
         attachmentsDir: 'attachments',
         reportsDir: 'reports',
+        runLogsDir: 'run-logs',
     },
     api: {
         // Derive API base URL from BASE_URL or PORT, with fallback override support
@@ -61,6 +64,12 @@ export const config: EnvironmentConfig = {
             }
             return `http://localhost:${config.server.port}`
         },
+        // Public URL of the web app, used for links in outgoing notifications
+        get webUrl() {
+            const url =
+                process.env.DASHBOARD_WEB_URL || process.env.VITE_BASE_URL || config.api.baseUrl
+            return url.replace(/\/+$/, '')
+        },
         requestLimit: '50mb',
     },
     auth: {
@@ -18,6 +18,7 @@ vi.mock('../../utils/logger.util', () => ({
 describe('PipelineController', () => {
     let controller: PipelineController
     let mockPipelineExecutionService: any
+    let mockRunQueueService: any
     let mockReq: Partial<ServiceRequest>
     let mockRes: Partial<Response>
 
@@ -43,11 +44,24 @@ describe('PipelineController', () => {
 
         mockPipelineExecutionService = {
             startPipeline: vi.fn(),
-            getPipeline: vi.fn(),
+            findPipeline: vi.fn(),
             getCurrentPipeline: vi.fn(),
+            rerunPipeline: vi.fn(),
+            getPipelineHistory: vi.fn(),
         }
 
-        controller = new PipelineController(mockPipelineExecutionService)
+        // Idle queue: requests start right away
+        mockRunQueueService = {
+            submit: vi.fn(async (request: any) => ({
+                queued: false,
+                result: await mockPipelineExecutionService.startPipeline(
+                    request.maxWorkers,
+                    request.source
+                ),
+            })),
+        }
+
+        controller = new PipelineController(mockPipelineExecutionService, mockRunQueueService)
         mockReq = createMockRequest()
         mockRes = createMockResponse()
     })
@@ -64,7 +78,30 @@ describe('PipelineController', () => {
             expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, pipelineState)
         })
 
-        it('returns 409 when tests are already running', async () => {
+        it('responds 202 with the queue position while tests are running', async () => {
+            const submitted = {
+                queued: true,
+                duplicate: true,
+                item: {id: 'queued-1', kind: 'pipeline', priority: 'low', position: 1},
+            }
+            mockReq.body = {source: 'script', priority: 'low'}
+            mockRunQueueService.submit.mockResolvedValue(submitted)
+
+            await controller.runPipeline(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockRunQueueService.submit).toHaveBeenCalledWith(
+                {kind: 'pipeline', maxWorkers: undefined, source: 'script', priority: 'low'},
+                true
+            )
+            expect(ResponseHelper.accepted).toHaveBeenCalledWith(
+                mockRes,
+                submitted,
+                'Tests are already running, queued at position 1'
+            )
+        })
+
+        it('returns 409 when tests are already running and the queue is skipped', async () => {
+            mockReq.body = {queue: false}
             const errorData = {
                 code: 'TESTS_ALREADY_RUNNING',
                 message: 'Tests are already running',
@@ -143,17 +180,17 @@ describe('PipelineController', () => {
         it('returns the pipeline state when found', async () => {
             const pipelineState = {pipelineRunId: 'p1', status: 'completed', steps: []}
             mockReq.params = {pipelineRunId: 'p1'}
-            mockPipelineExecutionService.getPipeline.mockReturnValue(pipelineState)
+            mockPipelineExecutionService.findPipeline.mockResolvedValue(pipelineState)
 
             await controller.getPipelineStatus(mockReq as ServiceRequest, mockRes as Response)
 
-            expect(mockPipelineExecutionService.getPipeline).toHaveBeenCalledWith('p1')
+            expect(mockPipelineExecutionService.findPipeline).toHaveBeenCalledWith('p1')
             expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, pipelineState)
         })
 
         it('returns 404 when the pipeline run is not found', async () => {
             mockReq.params = {pipelineRunId: 'unknown'}
-            mockPipelineExecutionService.getPipeline.mockReturnValue(null)
+            mockPipelineExecutionService.findPipeline.mockResolvedValue(null)
 
             await controller.getPipelineStatus(mockReq as ServiceRequest, mockRes as Response)
 
@@ -161,6 +198,94 @@ describe('PipelineController', () => {
         })
     })
 
+    describe('rerunPipeline', () => {
+        it('starts a pipeline with the failed steps', async () => {
+            const pipelineState = {pipelineRunId: 'p2', status: 'running', rerunOf: 'p1', steps: []}
+            mockReq.params = {pipelineRunId: 'p1'}
+            mockReq.body = {mode: 'failed'}
+            mockPipelineExecutionService.rerunPipeline.mockResolvedValue(pipelineState)
+
+            await controller.rerunPipeline(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockPipelineExecutionService.rerunPipeline).toHaveBeenCalledWith(
+                'p1',
+                'failed',
+                undefined
+            )
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, pipelineState)
+        })
+
+        it('returns 404 when the pipeline run is not found', async () => {
+            mockReq.params = {pipelineRunId: 'unknown'}
+            mockReq.body = {mode: 'resume'}
+            mockPipelineExecutionService.rerunPipeline.mockResolvedValue(null)
+
+            await controller.rerunPipeline(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(ResponseHelper.notFound).toHaveBeenCalledWith(mockRes, 'Pipeline run')
+        })
+
+        it('returns 400 when there is nothing to re-run', async () => {
+            mockReq.params = {pipelineRunId: 'p1'}
+            mockReq.body = {mode: 'failed'}
+            mockPipelineExecutionService.rerunPipeline.mockRejectedValue(
+                new Error('Invalid pipeline re-run: no step failed')
+            )
+
+            await controller.rerunPipeline(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'Invalid pipeline re-run: no step failed'
+            )
+        })
+
+        it('returns 409 when tests are already running', async () => {
+            mockReq.params = {pipelineRunId: 'p1'}
+            mockReq.body = {mode: 'resume'}
+            mockPipelineExecutionService.rerunPipeline.mockRejectedValue(
+                new Error(
+                    JSON.stringify({
+                        code: 'TESTS_ALREADY_RUNNING',
+                        message: 'Tests are already running',
+                        currentRunId: 'run-9',
+                    })
+                )
+            )
+
+            await controller.rerunPipeline(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockRes.status).toHaveBeenCalledWith(409)
+            expect(mockRes.json).toHaveBeenCalledWith(
+                expect.objectContaining({code: 'TESTS_ALREADY_RUNNING', currentRunId: 'run-9'})
+            )
+        })
+    })
+
+    describe('getPipelineHistory', () => {
+        it('returns the pipelines with the default limit', async () => {
+            const pipelines = [{pipelineRunId: 'p2'}, {pipelineRunId: 'p1'}]
+            mockPipelineExecutionService.getPipelineHistory.mockResolvedValue(pipelines)
+
+            await controller.getPipelineHistory(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockPipelineExecutionService.getPipelineHistory).toHaveBeenCalledWith(20)
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, pipelines, undefined, 2)
+        })
+
+        it('rejects a limit out of range', async () => {
+            mockReq.query = {limit: '0'}
+
+            await controller.getPipelineHistory(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'limit must be an integer between 1 and 100'
+            )
+            expect(mockPipelineExecutionService.getPipelineHistory).not.toHaveBeenCalled()
+        })
+    })
+
     describe('getCurrentPipelineStatus', () => {
         it('returns the most recent pipeline state when one exists', async () => {
             const pipelineState = {pipelineRunId: 'p1', status: 'running', steps: []}
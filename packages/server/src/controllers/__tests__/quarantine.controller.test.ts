@@ -0,0 +1,119 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest'
+import {Response} from 'express'
+import {QuarantineController} from '../quarantine.controller'
+import {QuarantineService} from '../../services/quarantine.service'
+
+vi.mock('../../utils/logger.util', () => ({
+    Logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+    },
+}))
+
+describe('QuarantineController', () => {
+    let controller: QuarantineController
+    let mockQuarantineService: QuarantineService
+    let mockRequest: any
+    let mockResponse: Partial<Response>
+
+    beforeEach(() => {
+        mockQuarantineService = {
+            getQuarantine: vi.fn(),
+            quarantineTest: vi.fn(),
+            releaseTest: vi.fn(),
+            getQuarantinedTests: vi.fn(),
+        } as unknown as QuarantineService
+
+        controller = new QuarantineController(mockQuarantineService)
+
+        mockRequest = {
+            params: {},
+            query: {},
+            body: {},
+        }
+
+        mockResponse = {
+            status: vi.fn().mockReturnThis(),
+            json: vi.fn().mockReturnThis(),
+        }
+    })
+
+    describe('getQuarantinedTests()', () => {
+        it('should return quarantined tests of the requested project with a count', async () => {
+            const tests = [{testId: 'test-1', reason: 'Known flake', name: 'login', filePath: 'a'}]
+            mockRequest.query = {project: 'Web'}
+            vi.mocked(mockQuarantineService.getQuarantinedTests).mockResolvedValue(tests as any)
+
+            await controller.getQuarantinedTests(mockRequest, mockResponse as Response)
+
+            expect(mockQuarantineService.getQuarantinedTests).toHaveBeenCalledWith('Web')
+            expect(mockResponse.json).toHaveBeenCalledWith(
+                expect.objectContaining({success: true, data: tests, count: 1})
+            )
+        })
+    })
+
+    describe('quarantineTest()', () => {
+        it('should quarantine the test with reason and expiry', async () => {
+            const quarantine = {testId: 'test-1', reason: 'Known flake', createdAt: 'now'}
+            mockRequest.params = {testId: 'test-1'}
+            mockRequest.body = {reason: 'Known flake', expiresAt: '2099-01-01T00:00:00.000Z'}
+            vi.mocked(mockQuarantineService.quarantineTest).mockResolvedValue(quarantine)
+
+            await controller.quarantineTest(mockRequest, mockResponse as Response)
+
+            expect(mockQuarantineService.quarantineTest).toHaveBeenCalledWith(
+                'test-1',
+                'Known flake',
+                '2099-01-01T00:00:00.000Z'
+            )
+            expect(mockResponse.status).toHaveBeenCalledWith(200)
+        })
+
+        it('should return 400 when reason is not a string', async () => {
+            mockRequest.params = {testId: 'test-1'}
+            mockRequest.body = {reason: 42}
+
+            await controller.quarantineTest(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400)
+            expect(mockQuarantineService.quarantineTest).not.toHaveBeenCalled()
+        })
+
+        it('should return 400 for a validation error from the service', async () => {
+            mockRequest.params = {testId: 'test-1'}
+            mockRequest.body = {reason: ''}
+            vi.mocked(mockQuarantineService.quarantineTest).mockRejectedValue(
+                new Error('Invalid quarantine: reason is required')
+            )
+
+            await controller.quarantineTest(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400)
+        })
+
+        it('should return 500 on an unexpected error', async () => {
+            mockRequest.params = {testId: 'test-1'}
+            mockRequest.body = {reason: 'Known flake'}
+            vi.mocked(mockQuarantineService.quarantineTest).mockRejectedValue(
+                new Error('Database error')
+            )
+
+            await controller.quarantineTest(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(500)
+        })
+    })
+
+    describe('releaseTest()', () => {
+        it('should release the test', async () => {
+            mockRequest.params = {testId: 'test-1'}
+
+            await controller.releaseTest(mockRequest, mockResponse as Response)
+
+            expect(mockQuarantineService.releaseTest).toHaveBeenCalledWith('test-1')
+            expect(mockResponse.status).toHaveBeenCalledWith(200)
+        })
+    })
+})
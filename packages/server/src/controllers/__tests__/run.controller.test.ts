@@ -19,6 +19,13 @@ vi.mock('../../utils/logger.util', () => ({
 describe('RunController', () => {
     let controller: RunController
     let mockRunRepository: any
+    let mockTestRepository: any
+    let mockReportImportService: any
+    let mockRunComparisonService: any
+    let mockFailureGroupService: any
+    let mockPipelineExecutionService: any
+    let mockRunLogService: any
+    let mockTestService: any
     let mockReq: Partial<Request>
     let mockRes: Partial<Response>
 
@@ -53,11 +60,43 @@ describe('RunController', () => {
             updateTestRun: vi.fn(),
             getTestRun: vi.fn(),
             getAllTestRuns: vi.fn(),
+            getPreviousRun: vi.fn(),
             getStats: vi.fn(),
         }
 
+        mockTestRepository = {
+            getTestResultsByRun: vi.fn(),
+        }
+        mockReportImportService = {
+            importReport: vi.fn(),
+        }
+        mockRunComparisonService = {
+            compareRuns: vi.fn(),
+        }
+        mockFailureGroupService = {
+            getRunFailureGroups: vi.fn(),
+        }
+        mockPipelineExecutionService = {
+            cancelRun: vi.fn(),
+        }
+        mockRunLogService = {
+            getLog: vi.fn(),
+        }
+        mockTestService = {
+            rerunFailedTests: vi.fn(),
+        }
+
         // Create controller instance
-        controller = new RunController(mockRunRepository)
+        controller = new RunController(
+            mockRunRepository,
+            mockTestRepository,
+            mockReportImportService,
+            mockRunComparisonService,
+            mockFailureGroupService,
+            mockPipelineExecutionService,
+            mockRunLogService,
+            mockTestService
+        )
 
         // Setup default request and response
         mockReq = createMockRequest()
@@ -716,6 +755,548 @@ describe('RunController', () => {
         })
     })
 
+    describe('rerunFailedTests', () => {
+        it('should rerun the failed tests of the run', async () => {
+            mockReq = createMockRequest({params: {id: 'run-123'}, body: {maxWorkers: 2}})
+            mockRunRepository.getTestRun.mockResolvedValue({id: 'run-123', status: 'failed'})
+            mockTestService.rerunFailedTests.mockResolvedValue({runId: 'run-456', failedTests: 3})
+
+            await controller.rerunFailedTests(mockReq as Request, mockRes as Response)
+
+            expect(mockTestService.rerunFailedTests).toHaveBeenCalledWith({runId: 'run-123'}, 2)
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, {
+                runId: 'run-456',
+                failedTests: 3,
+            })
+        })
+
+        it('should return 404 for an unknown run', async () => {
+            mockReq = createMockRequest({params: {id: 'non-existent'}})
+            mockRunRepository.getTestRun.mockResolvedValue(null)
+
+            await controller.rerunFailedTests(mockReq as Request, mockRes as Response)
+
+            expect(ResponseHelper.notFound).toHaveBeenCalledWith(mockRes, 'Test run')
+            expect(mockTestService.rerunFailedTests).not.toHaveBeenCalled()
+        })
+
+        it('should return 400 when the run has no failed tests', async () => {
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            mockRunRepository.getTestRun.mockResolvedValue({id: 'run-123', status: 'completed'})
+            mockTestService.rerunFailedTests.mockRejectedValue(
+                new Error('No failed tests to rerun')
+            )
+
+            await controller.rerunFailedTests(mockReq as Request, mockRes as Response)
+
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'No failed tests to rerun'
+            )
+        })
+    })
+
+    describe('cancelRun', () => {
+        it('should cancel a running run', async () => {
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            mockPipelineExecutionService.cancelRun.mockResolvedValue(true)
+
+            await controller.cancelRun(mockReq as Request, mockRes as Response)
+
+            expect(mockPipelineExecutionService.cancelRun).toHaveBeenCalledWith('run-123')
+            expect(ResponseHelper.success).toHaveBeenCalledWith(
+                mockRes,
+                {id: 'run-123', status: 'interrupted'},
+                'Test run cancelled'
+            )
+        })
+
+        it('should return 409 for a run that is not running', async () => {
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            mockPipelineExecutionService.cancelRun.mockResolvedValue(false)
+            mockRunRepository.getTestRun.mockResolvedValue({id: 'run-123', status: 'completed'})
+
+            await controller.cancelRun(mockReq as Request, mockRes as Response)
+
+            expect(ResponseHelper.error).toHaveBeenCalledWith(
+                mockRes,
+                'Run is not running',
+                'Run is not running',
+                409
+            )
+        })
+
+        it('should return 404 for an unknown run', async () => {
+            mockReq = createMockRequest({params: {id: 'non-existent'}})
+            mockPipelineExecutionService.cancelRun.mockResolvedValue(false)
+            mockRunRepository.getTestRun.mockResolvedValue(null)
+
+            await controller.cancelRun(mockReq as Request, mockRes as Response)
+
+            expect(ResponseHelper.notFound).toHaveBeenCalledWith(mockRes, 'Test run')
+        })
+
+        it('should handle cancellation errors', async () => {
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            mockPipelineExecutionService.cancelRun.mockRejectedValue(new Error('Database error'))
+
+            await controller.cancelRun(mockReq as Request, mockRes as Response)
+
+            expect(ResponseHelper.error).toHaveBeenCalledWith(
+                mockRes,
+                'Database error',
+                'Failed to cancel test run',
+                500
+            )
+        })
+    })
+
+    describe('compareRuns', () => {
+        const headRun = {id: 'run-head', status: 'completed', metadata: {project: 'chromium'}}
+        const baseRun = {id: 'run-base', status: 'completed', metadata: {project: 'chromium'}}
+
+        it('should compare against the previous run of the project by default', async () => {
+            // Arrange
+            const comparison = {base: baseRun, head: headRun, newlyFailing: []}
+            mockReq = createMockRequest({query: {head: 'run-head'}})
+            mockRunRepository.getTestRun.mockResolvedValue(headRun)
+            mockRunRepository.getPreviousRun.mockResolvedValue(baseRun)
+            mockRunComparisonService.compareRuns.mockResolvedValue(comparison)
+
+            // Act
+            await controller.compareRuns(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(mockRunRepository.getPreviousRun).toHaveBeenCalledWith(headRun)
+            expect(mockRunComparisonService.compareRuns).toHaveBeenCalledWith(baseRun, headRun, 20)
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, comparison)
+        })
+
+        it('should use the given base run and threshold', async () => {
+            // Arrange
+            mockReq = createMockRequest({
+                query: {head: 'run-head', base: 'run-base', threshold: '50'},
+            })
+            mockRunRepository.getTestRun
+                .mockResolvedValueOnce(headRun)
+                .mockResolvedValueOnce(baseRun)
+
+            // Act
+            await controller.compareRuns(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(mockRunRepository.getTestRun).toHaveBeenCalledWith('run-base')
+            expect(mockRunRepository.getPreviousRun).not.toHaveBeenCalled()
+            expect(mockRunComparisonService.compareRuns).toHaveBeenCalledWith(baseRun, headRun, 50)
+        })
+
+        it('should return 400 without a head run', async () => {
+            // Arrange
+            mockReq = createMockRequest({query: {}})
+
+            // Act
+            await controller.compareRuns(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'Query parameter "head" is required'
+            )
+        })
+
+        it('should return 400 for an invalid threshold', async () => {
+            // Arrange
+            mockReq = createMockRequest({query: {head: 'run-head', threshold: 'abc'}})
+
+            // Act
+            await controller.compareRuns(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'Query parameter "threshold" must be a non-negative number'
+            )
+            expect(mockRunRepository.getTestRun).not.toHaveBeenCalled()
+        })
+
+        it('should return 404 when the head run does not exist', async () => {
+            // Arrange
+            mockReq = createMockRequest({query: {head: 'missing'}})
+            mockRunRepository.getTestRun.mockResolvedValue(null)
+
+            // Act
+            await controller.compareRuns(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.notFound).toHaveBeenCalledWith(mockRes, 'Test run')
+        })
+
+        it('should return 404 when there is no previous run', async () => {
+            // Arrange
+            mockReq = createMockRequest({query: {head: 'run-head'}})
+            mockRunRepository.getTestRun.mockResolvedValue(headRun)
+            mockRunRepository.getPreviousRun.mockResolvedValue(null)
+
+            // Act
+            await controller.compareRuns(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.notFound).toHaveBeenCalledWith(mockRes, 'Previous run')
+            expect(mockRunComparisonService.compareRuns).not.toHaveBeenCalled()
+        })
+
+        it('should handle service errors', async () => {
+            // Arrange
+            const error = new Error('Database error')
+            mockReq = createMockRequest({query: {head: 'run-head'}})
+            mockRunRepository.getTestRun.mockResolvedValue(headRun)
+            mockRunRepository.getPreviousRun.mockResolvedValue(baseRun)
+            mockRunComparisonService.compareRuns.mockRejectedValue(error)
+
+            // Act
+            await controller.compareRuns(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(Logger.error).toHaveBeenCalledWith('Error comparing test runs', error)
+            expect(ResponseHelper.error).toHaveBeenCalledWith(
+                mockRes,
+                'Database error',
+                'Failed to compare test runs',
+                500
+            )
+        })
+    })
+
+    describe('getRunResults', () => {
+        it('should return the results of the run', async () => {
+            // Arrange
+            const mockResults = [{id: 'result-1', testId: 'test-1', status: 'passed'}]
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            mockRunRepository.getTestRun.mockResolvedValue({id: 'run-123', status: 'completed'})
+            mockTestRepository.getTestResultsByRun.mockResolvedValue(mockResults)
+
+            // Act
+            await controller.getRunResults(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(mockTestRepository.getTestResultsByRun).toHaveBeenCalledWith('run-123')
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, mockResults)
+        })
+
+        it('should return 404 if test run not found', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'non-existent'}})
+            mockRunRepository.getTestRun.mockResolvedValue(null)
+
+            // Act
+            await controller.getRunResults(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.notFound).toHaveBeenCalledWith(mockRes, 'Test run')
+            expect(mockTestRepository.getTestResultsByRun).not.toHaveBeenCalled()
+        })
+
+        it('should handle repository errors', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            const error = new Error('Database error')
+            mockRunRepository.getTestRun.mockResolvedValue({id: 'run-123', status: 'completed'})
+            mockTestRepository.getTestResultsByRun.mockRejectedValue(error)
+
+            // Act
+            await controller.getRunResults(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(Logger.error).toHaveBeenCalledWith('Error fetching test run results', error)
+            expect(ResponseHelper.error).toHaveBeenCalledWith(
+                mockRes,
+                'Database error',
+                'Failed to fetch test run results',
+                500
+            )
+        })
+    })
+
+    describe('getRunFailureGroups', () => {
+        it('should return the failure groups of the run', async () => {
+            // Arrange
+            const mockGroups = [{signature: 'Error: page down', failures: 2, tests: []}]
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            mockRunRepository.getTestRun.mockResolvedValue({id: 'run-123', status: 'failed'})
+            mockFailureGroupService.getRunFailureGroups.mockResolvedValue(mockGroups)
+
+            // Act
+            await controller.getRunFailureGroups(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(mockFailureGroupService.getRunFailureGroups).toHaveBeenCalledWith('run-123')
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, mockGroups, undefined, 1)
+        })
+
+        it('should return 404 if test run not found', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'non-existent'}})
+            mockRunRepository.getTestRun.mockResolvedValue(null)
+
+            // Act
+            await controller.getRunFailureGroups(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.notFound).toHaveBeenCalledWith(mockRes, 'Test run')
+            expect(mockFailureGroupService.getRunFailureGroups).not.toHaveBeenCalled()
+        })
+
+        it('should handle service errors', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            const error = new Error('Database error')
+            mockRunRepository.getTestRun.mockResolvedValue({id: 'run-123', status: 'failed'})
+            mockFailureGroupService.getRunFailureGroups.mockRejectedValue(error)
+
+            // Act
+            await controller.getRunFailureGroups(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(Logger.error).toHaveBeenCalledWith('Error fetching run failure groups', error)
+            expect(ResponseHelper.error).toHaveBeenCalledWith(
+                mockRes,
+                'Database error',
+                'Failed to fetch failure groups',
+                500
+            )
+        })
+    })
+
+    describe('getRunLog', () => {
+        it('should send the log as plain text', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            mockRunLogService.getLog.mockResolvedValue('Error: globalSetup failed\n')
+
+            // Act
+            await controller.getRunLog(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(mockRunLogService.getLog).toHaveBeenCalledWith('run-123')
+            expect(mockRes.setHeader).toHaveBeenCalledWith(
+                'Content-Type',
+                'text/plain; charset=utf-8'
+            )
+            expect(mockRes.setHeader).not.toHaveBeenCalledWith(
+                'Content-Disposition',
+                expect.anything()
+            )
+            expect(mockRes.send).toHaveBeenCalledWith('Error: globalSetup failed\n')
+        })
+
+        it('should send it as a file download when asked to', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'run-123'}, query: {download: 'true'}})
+            mockRunLogService.getLog.mockResolvedValue('')
+
+            // Act
+            await controller.getRunLog(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(mockRes.setHeader).toHaveBeenCalledWith(
+                'Content-Disposition',
+                'attachment; filename="run-run-123.log"'
+            )
+            expect(mockRes.send).toHaveBeenCalledWith('')
+        })
+
+        it('should return 404 when the run has no log', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            mockRunLogService.getLog.mockResolvedValue(null)
+
+            // Act
+            await controller.getRunLog(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.notFound).toHaveBeenCalledWith(mockRes, 'Run log')
+            expect(mockRes.send).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('exportRun', () => {
+        const mockRun = {
+            id: 'run-123',
+            status: 'completed',
+            totalTests: 1,
+            passedTests: 0,
+            failedTests: 1,
+            skippedTests: 0,
+            duration: 5000,
+            metadata: {project: 'chromium'},
+        }
+
+        it('should export JUnit XML by default', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            mockRunRepository.getTestRun.mockResolvedValue(mockRun)
+            mockTestRepository.getTestResultsByRun.mockResolvedValue([
+                {
+                    id: 'result-1',
+                    testId: 'test-1',
+                    name: 'should fail',
+                    filePath: 'tests/example.spec.ts',
+                    status: 'failed',
+                    duration: 1000,
+                    errorMessage: 'boom',
+                },
+            ])
+
+            // Act
+            await controller.exportRun(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(mockTestRepository.getTestResultsByRun).toHaveBeenCalledWith('run-123')
+            expect(mockRes.setHeader).toHaveBeenCalledWith(
+                'Content-Type',
+                'application/xml; charset=utf-8'
+            )
+            expect(mockRes.setHeader).toHaveBeenCalledWith(
+                'Content-Disposition',
+                'attachment; filename="run-123-junit.xml"'
+            )
+            expect(mockRes.send).toHaveBeenCalledWith(
+                expect.stringContaining('<failure message="boom" type="failed">')
+            )
+        })
+
+        it('should reject unsupported formats', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'run-123'}, query: {format: 'html'}})
+
+            // Act
+            await controller.exportRun(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'Unsupported format. Use one of: junit, ctrf, json'
+            )
+            expect(mockRunRepository.getTestRun).not.toHaveBeenCalled()
+        })
+
+        it('should return 404 if test run not found', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'non-existent'}, query: {format: 'ctrf'}})
+            mockRunRepository.getTestRun.mockResolvedValue(null)
+
+            // Act
+            await controller.exportRun(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.notFound).toHaveBeenCalledWith(mockRes, 'Test run')
+            expect(mockTestRepository.getTestResultsByRun).not.toHaveBeenCalled()
+        })
+
+        it('should handle repository errors', async () => {
+            // Arrange
+            mockReq = createMockRequest({params: {id: 'run-123'}})
+            const error = new Error('Database error')
+            mockRunRepository.getTestRun.mockRejectedValue(error)
+
+            // Act
+            await controller.exportRun(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(Logger.error).toHaveBeenCalledWith('Error exporting test run', error)
+            expect(ResponseHelper.error).toHaveBeenCalledWith(
+                mockRes,
+                'Database error',
+                'Failed to export test run',
+                500
+            )
+        })
+    })
+
+    describe('importRun', () => {
+        const reportFile = {
+            buffer: Buffer.from('{"suites": []}'),
+            originalname: 'results.json',
+        }
+
+        it('should import the uploaded report with its attachments', async () => {
+            // Arrange
+            const zipFile = {buffer: Buffer.from('zip'), originalname: 'test-results.zip'}
+            const result = {
+                runId: 'run-123',
+                format: 'playwright-json',
+                totalTests: 2,
+                saved: 2,
+                failed: 0,
+                attachments: 1,
+            }
+            mockReq = createMockRequest({
+                files: {report: [reportFile], attachments: [zipFile]} as any,
+                body: {project: 'chromium'},
+            })
+            mockReportImportService.importReport.mockResolvedValue(result)
+
+            // Act
+            await controller.importRun(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(mockReportImportService.importReport).toHaveBeenCalledWith(
+                {report: reportFile.buffer, attachments: zipFile.buffer},
+                {project: 'chromium', fileName: 'results.json'}
+            )
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, result, 'Report imported')
+        })
+
+        it('should return 400 without a report file', async () => {
+            // Arrange
+            mockReq = createMockRequest({files: {} as any})
+
+            // Act
+            await controller.importRun(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'Report file is required (multipart field "report")'
+            )
+            expect(mockReportImportService.importReport).not.toHaveBeenCalled()
+        })
+
+        it('should return 400 for an invalid report', async () => {
+            // Arrange
+            mockReq = createMockRequest({files: {report: [reportFile]} as any})
+            mockReportImportService.importReport.mockRejectedValue(
+                new Error('Invalid report: not valid JSON')
+            )
+
+            // Act
+            await controller.importRun(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'Invalid report: not valid JSON'
+            )
+        })
+
+        it('should handle service errors', async () => {
+            // Arrange
+            mockReq = createMockRequest({files: {report: [reportFile]} as any})
+            mockReportImportService.importReport.mockRejectedValue(new Error('Database error'))
+
+            // Act
+            await controller.importRun(mockReq as Request, mockRes as Response)
+
+            // Assert
+            expect(ResponseHelper.error).toHaveBeenCalledWith(
+                mockRes,
+                'Database error',
+                'Failed to import test run',
+                500
+            )
+        })
+    })
+
     describe('Edge Cases', () => {
         it('should handle long run IDs', async () => {
             // Arrange
@@ -0,0 +1,81 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest'
+import {Response} from 'express'
+import {RunQueueController} from '../runQueue.controller'
+import {RunQueueService} from '../../services/runQueue.service'
+
+vi.mock('../../utils/logger.util', () => ({
+    Logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+    },
+}))
+
+describe('RunQueueController', () => {
+    let controller: RunQueueController
+    let mockRunQueueService: RunQueueService
+    let mockRequest: any
+    let mockResponse: Partial<Response>
+
+    const item = {
+        id: 'queued-1',
+        kind: 'run-all',
+        project: 'chromium',
+        priority: 'normal',
+        position: 1,
+        createdAt: '2025-01-01T00:00:00.000Z',
+    }
+
+    beforeEach(() => {
+        mockRunQueueService = {
+            getQueue: vi.fn(),
+            cancel: vi.fn(),
+        } as unknown as RunQueueService
+
+        controller = new RunQueueController(mockRunQueueService)
+
+        mockRequest = {
+            params: {},
+            query: {},
+            body: {},
+        }
+
+        mockResponse = {
+            status: vi.fn().mockReturnThis(),
+            json: vi.fn().mockReturnThis(),
+        }
+    })
+
+    describe('getQueue()', () => {
+        it('should return the queued runs with a count', async () => {
+            vi.mocked(mockRunQueueService.getQueue).mockResolvedValue([item] as any)
+
+            await controller.getQueue(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.json).toHaveBeenCalledWith(
+                expect.objectContaining({success: true, data: [item], count: 1})
+            )
+        })
+    })
+
+    describe('cancelItem()', () => {
+        it('should cancel a queued run', async () => {
+            mockRequest.params = {id: 'queued-1'}
+            vi.mocked(mockRunQueueService.cancel).mockResolvedValue(true)
+
+            await controller.cancelItem(mockRequest, mockResponse as Response)
+
+            expect(mockRunQueueService.cancel).toHaveBeenCalledWith('queued-1')
+            expect(mockResponse.status).toHaveBeenCalledWith(200)
+        })
+
+        it('should return 404 for a run that is no longer queued', async () => {
+            mockRequest.params = {id: 'started'}
+            vi.mocked(mockRunQueueService.cancel).mockResolvedValue(false)
+
+            await controller.cancelItem(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(404)
+        })
+    })
+})
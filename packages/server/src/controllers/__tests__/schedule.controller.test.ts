@@ -0,0 +1,161 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest'
+import {Response} from 'express'
+import {ScheduleController} from '../schedule.controller'
+import {ScheduleService} from '../../services/schedule.service'
+
+vi.mock('../../utils/logger.util', () => ({
+    Logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+    },
+}))
+
+describe('ScheduleController', () => {
+    let controller: ScheduleController
+    let mockScheduleService: ScheduleService
+    let mockRequest: any
+    let mockResponse: Partial<Response>
+
+    const schedule = {
+        id: 'schedule-1',
+        name: 'Nightly',
+        cron: '0 2 * * *',
+        project: 'chromium',
+        enabled: true,
+        nextRunAt: '2025-01-02T02:00:00.000Z',
+    }
+
+    beforeEach(() => {
+        mockScheduleService = {
+            getSchedules: vi.fn(),
+            createSchedule: vi.fn(),
+            updateSchedule: vi.fn(),
+            deleteSchedule: vi.fn(),
+            previewRuns: vi.fn(),
+        } as unknown as ScheduleService
+
+        controller = new ScheduleController(mockScheduleService)
+
+        mockRequest = {
+            params: {},
+            query: {},
+            body: {},
+        }
+
+        mockResponse = {
+            status: vi.fn().mockReturnThis(),
+            json: vi.fn().mockReturnThis(),
+        }
+    })
+
+    describe('getSchedules()', () => {
+        it('should return all schedules with a count', async () => {
+            vi.mocked(mockScheduleService.getSchedules).mockResolvedValue([schedule] as any)
+
+            await controller.getSchedules(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.json).toHaveBeenCalledWith(
+                expect.objectContaining({success: true, data: [schedule], count: 1})
+            )
+        })
+    })
+
+    describe('previewSchedule()', () => {
+        it('should return the next runs of the expression', async () => {
+            mockRequest.query = {cron: '0 2 * * *', count: '2'}
+            vi.mocked(mockScheduleService.previewRuns).mockReturnValue(['a', 'b'])
+
+            await controller.previewSchedule(mockRequest, mockResponse as Response)
+
+            expect(mockScheduleService.previewRuns).toHaveBeenCalledWith('0 2 * * *', 2)
+            expect(mockResponse.json).toHaveBeenCalledWith(
+                expect.objectContaining({success: true, data: {runs: ['a', 'b']}})
+            )
+        })
+
+        it('should return 400 for an invalid expression', async () => {
+            mockRequest.query = {cron: 'nightly'}
+            vi.mocked(mockScheduleService.previewRuns).mockImplementation(() => {
+                throw new Error('Invalid cron expression: expected 5 fields')
+            })
+
+            await controller.previewSchedule(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400)
+        })
+
+        it('should return 400 for an invalid count', async () => {
+            mockRequest.query = {cron: '@daily', count: '100'}
+
+            await controller.previewSchedule(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400)
+            expect(mockScheduleService.previewRuns).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('createSchedule()', () => {
+        it('should create the schedule from the request body', async () => {
+            mockRequest.body = {name: 'Nightly', cron: '0 2 * * *', project: 'chromium'}
+            vi.mocked(mockScheduleService.createSchedule).mockResolvedValue(schedule as any)
+
+            await controller.createSchedule(mockRequest, mockResponse as Response)
+
+            expect(mockScheduleService.createSchedule).toHaveBeenCalledWith(mockRequest.body)
+            expect(mockResponse.json).toHaveBeenCalledWith(
+                expect.objectContaining({success: true, data: schedule})
+            )
+        })
+
+        it('should return 400 for invalid input', async () => {
+            vi.mocked(mockScheduleService.createSchedule).mockRejectedValue(
+                new Error('Invalid schedule: name is required')
+            )
+
+            await controller.createSchedule(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400)
+        })
+
+        it('should return 500 for other errors', async () => {
+            vi.mocked(mockScheduleService.createSchedule).mockRejectedValue(new Error('DB error'))
+
+            await controller.createSchedule(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(500)
+        })
+    })
+
+    describe('updateSchedule()', () => {
+        it('should return 404 for an unknown schedule', async () => {
+            mockRequest.params = {id: 'missing'}
+            vi.mocked(mockScheduleService.updateSchedule).mockResolvedValue(null)
+
+            await controller.updateSchedule(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(404)
+        })
+    })
+
+    describe('deleteSchedule()', () => {
+        it('should delete the schedule', async () => {
+            mockRequest.params = {id: 'schedule-1'}
+            vi.mocked(mockScheduleService.deleteSchedule).mockResolvedValue(true)
+
+            await controller.deleteSchedule(mockRequest, mockResponse as Response)
+
+            expect(mockScheduleService.deleteSchedule).toHaveBeenCalledWith('schedule-1')
+            expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({success: true}))
+        })
+
+        it('should return 404 for an unknown schedule', async () => {
+            mockRequest.params = {id: 'missing'}
+            vi.mocked(mockScheduleService.deleteSchedule).mockResolvedValue(false)
+
+            await controller.deleteSchedule(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(404)
+        })
+    })
+})
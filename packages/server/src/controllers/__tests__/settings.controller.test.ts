@@ -39,6 +39,7 @@ describe('SettingsController', () => {
             setGlobalPlaywrightProject: vi.fn(),
             getDefaultProjectTab: vi.fn(),
             setDefaultProjectTab: vi.fn(),
+            setProjectTabConfigs: vi.fn(),
         }
         controller = new SettingsController(mockSettingsService)
         vi.clearAllMocks()
@@ -316,4 +317,22 @@ describe('SettingsController', () => {
             )
         })
     })
+
+    describe('updateProjectTabConfigs()', () => {
+        it('should return 400 when pipeline steps wait for each other', async () => {
+            mockSettingsService.setProjectTabConfigs.mockRejectedValue(
+                new Error('Invalid pipeline configuration: steps wait for each other (A → B → A)')
+            )
+            vi.mocked(ResponseHelper.badRequest).mockReturnValue({} as any)
+            const res = createMockResponse()
+
+            await controller.updateProjectTabConfigs(createMockRequest({body: {configs: []}}), res)
+
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                res,
+                'Invalid pipeline configuration: steps wait for each other (A → B → A)'
+            )
+            expect(ResponseHelper.error).not.toHaveBeenCalled()
+        })
+    })
 })
@@ -40,6 +40,11 @@ describe('TestController', () => {
     let controller: TestController
     let mockTestService: any
     let mockAuthService: any
+    let mockFailureGroupService: any
+    let mockDurationStatsService: any
+    let mockFlakinessService: any
+    let mockWebhookService: any
+    let mockRunQueueService: any
     let mockReq: Partial<ServiceRequest>
     let mockRes: Partial<Response>
 
@@ -75,9 +80,10 @@ describe('TestController', () => {
             discoverTests: vi.fn(),
             runAllTests: vi.fn(),
             runTestGroup: vi.fn(),
+            rerunFailedTests: vi.fn(),
+            runTestSelection: vi.fn(),
             getAllTests: vi.fn(),
             getTestStats: vi.fn(),
-            getFlakyTests: vi.fn(),
             getTestTimeline: vi.fn(),
             deleteTest: vi.fn(),
             deleteExecution: vi.fn(),
@@ -96,8 +102,42 @@ describe('TestController', () => {
             verifyJWT: vi.fn(),
         }
 
+        mockFailureGroupService = {
+            getFailureGroups: vi.fn(),
+        }
+        mockDurationStatsService = {
+            getDurationLeaderboard: vi.fn(),
+            getTestDurationStats: vi.fn(),
+        }
+        mockFlakinessService = {
+            getFlakyTests: vi.fn(),
+        }
+        mockWebhookService = {
+            notifyProcessEnded: vi.fn().mockResolvedValue(undefined),
+        }
+        // Idle queue: requests start right away
+        mockRunQueueService = {
+            submit: vi.fn(async (request: any) => ({
+                queued: false,
+                result: await mockTestService.runAllTests(
+                    request.maxWorkers,
+                    request.skipAutoDiscovery,
+                    request.project,
+                    request.source
+                ),
+            })),
+        }
+
         // Create controller instance
-        controller = new TestController(mockTestService, mockAuthService)
+        controller = new TestController(
+            mockTestService,
+            mockAuthService,
+            mockFailureGroupService,
+            mockDurationStatsService,
+            mockFlakinessService,
+            mockWebhookService,
+            mockRunQueueService
+        )
 
         // Setup default request and response
         mockReq = createMockRequest()
@@ -105,6 +145,7 @@ describe('TestController', () => {
 
         // Setup ResponseHelper mocks with proper return values
         vi.mocked(ResponseHelper.success).mockImplementation((res: Response) => res)
+        vi.mocked(ResponseHelper.accepted).mockImplementation((res: Response) => res)
         vi.mocked(ResponseHelper.badRequest).mockImplementation((res: Response) => res)
         vi.mocked(ResponseHelper.notFound).mockImplementation((res: Response) => res)
         vi.mocked(ResponseHelper.error).mockImplementation((res: Response) => res)
@@ -363,6 +404,56 @@ describe('TestController', () => {
             )
         })
 
+        it('should submit the run to the queue with its priority', async () => {
+            mockReq.body = {project: 'Sanity', priority: 'high', queue: false}
+            mockTestService.runAllTests.mockResolvedValue({runId: 'r1'})
+
+            await controller.runAllTests(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockRunQueueService.submit).toHaveBeenCalledWith(
+                {
+                    kind: 'run-all',
+                    maxWorkers: undefined,
+                    skipAutoDiscovery: undefined,
+                    project: 'Sanity',
+                    source: undefined,
+                    priority: 'high',
+                },
+                false
+            )
+        })
+
+        it('should respond 202 with the queue position while tests are running', async () => {
+            const submitted = {
+                queued: true,
+                duplicate: false,
+                item: {id: 'queued-1', kind: 'run-all', priority: 'normal', position: 2},
+            }
+            mockRunQueueService.submit.mockResolvedValue(submitted)
+
+            await controller.runAllTests(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockTestService.runAllTests).not.toHaveBeenCalled()
+            expect(ResponseHelper.accepted).toHaveBeenCalledWith(
+                mockRes,
+                submitted,
+                'Tests are already running, queued at position 2'
+            )
+        })
+
+        it('should return bad request for an invalid run request', async () => {
+            mockRunQueueService.submit.mockRejectedValue(
+                new Error('Invalid run request: priority must be one of high, normal, low')
+            )
+
+            await controller.runAllTests(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'Invalid run request: priority must be one of high, normal, low'
+            )
+        })
+
         it('should handle tests already running error (409)', async () => {
             const errorData = {
                 code: 'TESTS_ALREADY_RUNNING',
@@ -464,6 +555,73 @@ describe('TestController', () => {
         })
     })
 
+    describe('rerunFailedTests', () => {
+        it('should rerun the failed tests of the project', async () => {
+            const runResult = {runId: 'run-123', failedTests: 4, files: 2}
+            mockReq.body = {project: 'chromium', maxWorkers: 2}
+            mockTestService.rerunFailedTests.mockResolvedValue(runResult)
+
+            await controller.rerunFailedTests(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockTestService.rerunFailedTests).toHaveBeenCalledWith({project: 'chromium'}, 2)
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, runResult)
+        })
+
+        it('should return bad request when nothing failed', async () => {
+            mockReq.body = {}
+            mockTestService.rerunFailedTests.mockRejectedValue(
+                new Error('No failed tests to rerun')
+            )
+
+            await controller.rerunFailedTests(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockTestService.rerunFailedTests).toHaveBeenCalledWith(
+                {project: undefined},
+                undefined
+            )
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'No failed tests to rerun'
+            )
+        })
+    })
+
+    describe('runTestSelection', () => {
+        it('should run the selected tests', async () => {
+            const runResult = {runId: 'run-123', selectedTests: 2}
+            mockReq.body = {testIds: ['a', 'b'], project: 'chromium', maxWorkers: 2}
+            mockTestService.runTestSelection.mockResolvedValue(runResult)
+
+            await controller.runTestSelection(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockTestService.runTestSelection).toHaveBeenCalledWith(
+                {
+                    testIds: ['a', 'b'],
+                    grep: undefined,
+                    grepInvert: undefined,
+                    tags: undefined,
+                    project: 'chromium',
+                },
+                2
+            )
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, runResult)
+        })
+
+        it('should return bad request for an invalid selection', async () => {
+            mockReq.body = {grep: '('}
+            mockTestService.runTestSelection.mockRejectedValue(
+                new Error('Invalid test selection: grep must be a regular expression')
+            )
+
+            await controller.runTestSelection(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(ResponseHelper.badRequest).toHaveBeenCalledWith(
+                mockRes,
+                'Invalid test selection: grep must be a regular expression'
+            )
+        })
+    })
+
     describe('getAllTests', () => {
         it('should get all tests without filters', async () => {
             const tests = [{id: '1', name: 'Test 1'}]
@@ -476,6 +634,7 @@ describe('TestController', () => {
                 status: undefined,
                 limit: 100,
                 project: undefined,
+                tag: undefined,
             })
             expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, tests, undefined, 1)
         })
@@ -487,6 +646,7 @@ describe('TestController', () => {
                 status: 'passed',
                 limit: '50',
                 project: 'API_Tests',
+                tag: '@smoke',
             }
             mockTestService.getAllTests.mockResolvedValue(tests)
 
@@ -497,6 +657,7 @@ describe('TestController', () => {
                 status: 'passed',
                 limit: 50,
                 project: 'API_Tests',
+                tag: '@smoke',
             })
             expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, tests, undefined, 1)
         })
@@ -512,6 +673,7 @@ describe('TestController', () => {
                 status: undefined,
                 limit: 100,
                 project: undefined,
+                tag: undefined,
             })
         })
 
@@ -560,40 +722,60 @@ describe('TestController', () => {
 
     describe('getFlakyTests', () => {
         it('should get flaky tests with default parameters', async () => {
-            const flakyTests = [{testId: 'test-1', flakyRate: 0.5}]
-            mockTestService.getFlakyTests.mockResolvedValue(flakyTests)
+            const flakyTests = [{testId: 'test-1', score: 50}]
+            mockFlakinessService.getFlakyTests.mockResolvedValue({tests: flakyTests, total: 1})
 
             await controller.getFlakyTests(mockReq as ServiceRequest, mockRes as Response)
 
-            expect(mockTestService.getFlakyTests).toHaveBeenCalledWith(30, 10)
+            expect(mockFlakinessService.getFlakyTests).toHaveBeenCalledWith({
+                days: 30,
+                threshold: 10,
+                project: undefined,
+                limit: 50,
+                offset: 0,
+            })
             expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, flakyTests, undefined, 1)
         })
 
         it('should get flaky tests with custom parameters', async () => {
-            const flakyTests = [{testId: 'test-1', flakyRate: 0.7}]
-            mockReq.query = {days: '60', threshold: '20'}
-            mockTestService.getFlakyTests.mockResolvedValue(flakyTests)
+            const flakyTests = [{testId: 'test-1', score: 70}]
+            mockReq.query = {
+                days: '60',
+                threshold: '20',
+                project: 'chromium',
+                limit: '10',
+                offset: '20',
+            }
+            mockFlakinessService.getFlakyTests.mockResolvedValue({tests: flakyTests, total: 31})
 
             await controller.getFlakyTests(mockReq as ServiceRequest, mockRes as Response)
 
-            expect(mockTestService.getFlakyTests).toHaveBeenCalledWith(60, 20)
-            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, flakyTests, undefined, 1)
+            expect(mockFlakinessService.getFlakyTests).toHaveBeenCalledWith({
+                days: 60,
+                threshold: 20,
+                project: 'chromium',
+                limit: 10,
+                offset: 20,
+            })
+            // count is the total, not the page length
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, flakyTests, undefined, 31)
         })
 
         it('should handle invalid query parameters', async () => {
-            const flakyTests: any[] = []
-            mockReq.query = {days: 'invalid', threshold: 'invalid'}
-            mockTestService.getFlakyTests.mockResolvedValue(flakyTests)
+            mockReq.query = {days: 'invalid', threshold: 'invalid', offset: '-5'}
+            mockFlakinessService.getFlakyTests.mockResolvedValue({tests: [], total: 0})
 
             await controller.getFlakyTests(mockReq as ServiceRequest, mockRes as Response)
 
             // Should use defaults when parsing fails
-            expect(mockTestService.getFlakyTests).toHaveBeenCalledWith(30, 10)
+            expect(mockFlakinessService.getFlakyTests).toHaveBeenCalledWith(
+                expect.objectContaining({days: 30, threshold: 10, offset: 0})
+            )
         })
 
         it('should handle errors when fetching flaky tests', async () => {
             const error = new Error('Flaky detection error')
-            mockTestService.getFlakyTests.mockRejectedValue(error)
+            mockFlakinessService.getFlakyTests.mockRejectedValue(error)
 
             await controller.getFlakyTests(mockReq as ServiceRequest, mockRes as Response)
 
@@ -644,6 +826,111 @@ describe('TestController', () => {
         })
     })
 
+    describe('getFailureGroups', () => {
+        it('should get failure groups of the last 7 days by default', async () => {
+            const groups = [{signature: 'Error: page down', failures: 3, tests: []}]
+            mockFailureGroupService.getFailureGroups.mockResolvedValue(groups)
+
+            await controller.getFailureGroups(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockFailureGroupService.getFailureGroups).toHaveBeenCalledWith(7)
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, groups, undefined, 1)
+        })
+
+        it('should get failure groups with custom days', async () => {
+            mockReq.query = {days: '30'}
+            mockFailureGroupService.getFailureGroups.mockResolvedValue([])
+
+            await controller.getFailureGroups(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockFailureGroupService.getFailureGroups).toHaveBeenCalledWith(30)
+        })
+
+        it('should handle errors when fetching failure groups', async () => {
+            const error = new Error('Grouping error')
+            mockFailureGroupService.getFailureGroups.mockRejectedValue(error)
+
+            await controller.getFailureGroups(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(Logger.error).toHaveBeenCalledWith('Error fetching failure groups', error)
+            expect(ResponseHelper.error).toHaveBeenCalledWith(
+                mockRes,
+                'Grouping error',
+                'Failed to fetch failure groups',
+                500
+            )
+        })
+    })
+
+    describe('getDurationLeaderboard', () => {
+        it('should get the leaderboard with defaults', async () => {
+            const leaderboard = {days: 30, slowest: [], slowdowns: []}
+            mockDurationStatsService.getDurationLeaderboard.mockResolvedValue(leaderboard)
+
+            await controller.getDurationLeaderboard(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockDurationStatsService.getDurationLeaderboard).toHaveBeenCalledWith({
+                days: 30,
+                project: undefined,
+                limit: 10,
+            })
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, leaderboard)
+        })
+
+        it('should pass days, project and limit', async () => {
+            mockReq.query = {days: '7', project: 'chromium', limit: '5'}
+            mockDurationStatsService.getDurationLeaderboard.mockResolvedValue({})
+
+            await controller.getDurationLeaderboard(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockDurationStatsService.getDurationLeaderboard).toHaveBeenCalledWith({
+                days: 7,
+                project: 'chromium',
+                limit: 5,
+            })
+        })
+
+        it('should handle errors when fetching the leaderboard', async () => {
+            const error = new Error('Leaderboard error')
+            mockDurationStatsService.getDurationLeaderboard.mockRejectedValue(error)
+
+            await controller.getDurationLeaderboard(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(Logger.error).toHaveBeenCalledWith('Error fetching duration leaderboard', error)
+            expect(ResponseHelper.error).toHaveBeenCalledWith(
+                mockRes,
+                'Leaderboard error',
+                'Failed to fetch duration leaderboard',
+                500
+            )
+        })
+    })
+
+    describe('getTestDurationStats', () => {
+        it('should get the duration stats of a test', async () => {
+            const stats = {testId: 'test-1', days: 14, samples: 3, p50: 100, p95: 200}
+            mockReq.params = {id: 'test-1'}
+            mockReq.query = {days: '14'}
+            mockDurationStatsService.getTestDurationStats.mockResolvedValue(stats)
+
+            await controller.getTestDurationStats(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockDurationStatsService.getTestDurationStats).toHaveBeenCalledWith('test-1', 14)
+            expect(ResponseHelper.success).toHaveBeenCalledWith(mockRes, stats)
+        })
+
+        it('should handle errors when fetching duration stats', async () => {
+            const error = new Error('Stats error')
+            mockReq.params = {id: 'test-1'}
+            mockDurationStatsService.getTestDurationStats.mockRejectedValue(error)
+
+            await controller.getTestDurationStats(mockReq as ServiceRequest, mockRes as Response)
+
+            expect(mockDurationStatsService.getTestDurationStats).toHaveBeenCalledWith('test-1', 30)
+            expect(Logger.error).toHaveBeenCalledWith('Error fetching test duration stats', error)
+        })
+    })
+
     describe('clearAllTests', () => {
         it('should clear all test data', async () => {
             const statsBefore = {total: 100, passed: 80, failed: 20}
@@ -1284,6 +1571,7 @@ describe('TestController', () => {
             expect(activeProcessesTracker.removeProcess).toHaveBeenCalledWith('run-123')
             expect(mockWsManager.broadcastProcessEnd).toHaveBeenCalledWith(processData)
             expect(mockWsManager.broadcastConnectionStatus).toHaveBeenCalled()
+            expect(mockWebhookService.notifyProcessEnded).toHaveBeenCalledWith(processData)
             expect(ResponseHelper.success).toHaveBeenCalledWith(
                 mockRes,
                 {processId: 'run-123', wasRunning: true},
@@ -0,0 +1,175 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest'
+import {Response} from 'express'
+import {WebhookController} from '../webhook.controller'
+import {WebhookService} from '../../services/webhook.service'
+
+vi.mock('../../utils/logger.util', () => ({
+    Logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+    },
+}))
+
+describe('WebhookController', () => {
+    let controller: WebhookController
+    let mockWebhookService: WebhookService
+    let mockRequest: any
+    let mockResponse: Partial<Response>
+
+    const webhook = {
+        id: 'hook-1',
+        name: 'CI alerts',
+        url: 'https://example.com/hook',
+        events: ['process:ended'],
+        enabled: true,
+        hasSecret: true,
+    }
+
+    beforeEach(() => {
+        mockWebhookService = {
+            getWebhooks: vi.fn(),
+            getWebhook: vi.fn(),
+            createWebhook: vi.fn(),
+            updateWebhook: vi.fn(),
+            deleteWebhook: vi.fn(),
+            sendTestEvent: vi.fn(),
+            getDeliveries: vi.fn(),
+        } as unknown as WebhookService
+
+        controller = new WebhookController(mockWebhookService)
+
+        mockRequest = {
+            params: {},
+            query: {},
+            body: {},
+        }
+
+        mockResponse = {
+            status: vi.fn().mockReturnThis(),
+            json: vi.fn().mockReturnThis(),
+        }
+    })
+
+    describe('getWebhooks()', () => {
+        it('should return all webhooks with a count', async () => {
+            vi.mocked(mockWebhookService.getWebhooks).mockResolvedValue([webhook] as any)
+
+            await controller.getWebhooks(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.json).toHaveBeenCalledWith(
+                expect.objectContaining({success: true, data: [webhook], count: 1})
+            )
+        })
+    })
+
+    describe('createWebhook()', () => {
+        it('should create the webhook from the request body', async () => {
+            mockRequest.body = {name: 'CI alerts', url: webhook.url, events: ['process:ended']}
+            vi.mocked(mockWebhookService.createWebhook).mockResolvedValue(webhook as any)
+
+            await controller.createWebhook(mockRequest, mockResponse as Response)
+
+            expect(mockWebhookService.createWebhook).toHaveBeenCalledWith(mockRequest.body)
+            expect(mockResponse.json).toHaveBeenCalledWith(
+                expect.objectContaining({success: true, data: webhook})
+            )
+        })
+
+        it('should return 400 for invalid input', async () => {
+            vi.mocked(mockWebhookService.createWebhook).mockRejectedValue(
+                new Error('Invalid webhook: name is required')
+            )
+
+            await controller.createWebhook(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400)
+        })
+
+        it('should return 500 for other errors', async () => {
+            vi.mocked(mockWebhookService.createWebhook).mockRejectedValue(new Error('DB error'))
+
+            await controller.createWebhook(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(500)
+        })
+    })
+
+    describe('updateWebhook()', () => {
+        it('should return 404 for an unknown webhook', async () => {
+            mockRequest.params = {id: 'missing'}
+            vi.mocked(mockWebhookService.updateWebhook).mockResolvedValue(null)
+
+            await controller.updateWebhook(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(404)
+        })
+    })
+
+    describe('deleteWebhook()', () => {
+        it('should delete the webhook', async () => {
+            mockRequest.params = {id: 'hook-1'}
+            vi.mocked(mockWebhookService.deleteWebhook).mockResolvedValue(true)
+
+            await controller.deleteWebhook(mockRequest, mockResponse as Response)
+
+            expect(mockWebhookService.deleteWebhook).toHaveBeenCalledWith('hook-1')
+            expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({success: true}))
+        })
+
+        it('should return 404 for an unknown webhook', async () => {
+            mockRequest.params = {id: 'missing'}
+            vi.mocked(mockWebhookService.deleteWebhook).mockResolvedValue(false)
+
+            await controller.deleteWebhook(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(404)
+        })
+    })
+
+    describe('sendTestEvent()', () => {
+        it('should return the delivery of the test event', async () => {
+            const delivery = {id: 'delivery-1', status: 'success', attempts: 1}
+            mockRequest.params = {id: 'hook-1'}
+            vi.mocked(mockWebhookService.sendTestEvent).mockResolvedValue(delivery as any)
+
+            await controller.sendTestEvent(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.json).toHaveBeenCalledWith(
+                expect.objectContaining({success: true, data: delivery})
+            )
+        })
+    })
+
+    describe('getDeliveries()', () => {
+        it('should return the latest deliveries with the requested limit', async () => {
+            mockRequest.params = {id: 'hook-1'}
+            mockRequest.query = {limit: '5'}
+            vi.mocked(mockWebhookService.getWebhook).mockResolvedValue(webhook as any)
+            vi.mocked(mockWebhookService.getDeliveries).mockResolvedValue([])
+
+            await controller.getDeliveries(mockRequest, mockResponse as Response)
+
+            expect(mockWebhookService.getDeliveries).toHaveBeenCalledWith('hook-1', 5)
+        })
+
+        it('should return 400 for an invalid limit', async () => {
+            mockRequest.params = {id: 'hook-1'}
+            mockRequest.query = {limit: '500'}
+
+            await controller.getDeliveries(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(400)
+            expect(mockWebhookService.getDeliveries).not.toHaveBeenCalled()
+        })
+
+        it('should return 404 for an unknown webhook', async () => {
+            mockRequest.params = {id: 'missing'}
+            vi.mocked(mockWebhookService.getWebhook).mockResolvedValue(null)
+
+            await controller.getDeliveries(mockRequest, mockResponse as Response)
+
+            expect(mockResponse.status).toHaveBeenCalledWith(404)
+        })
+    })
+})
@@ -1,41 +1,50 @@
 import {Response} from 'express'
-import {PipelineExecutionService} from '../services/pipelineExecution.service'
+import {
+    DEFAULT_PIPELINE_HISTORY_LIMIT,
+    INVALID_PIPELINE_RERUN,
+    MAX_PIPELINE_HISTORY_LIMIT,
+    PipelineExecutionService,
+} from '../services/pipelineExecution.service'
+import {INVALID_RUN_REQUEST, RunQueueService} from '../services/runQueue.service'
 import {ResponseHelper} from '../utils/response.helper'
 import {Logger} from '../utils/logger.util'
 import {ServiceRequest} from '../types/api.types'
 
 export class PipelineController {
-    constructor(private pipelineExecutionService: PipelineExecutionService) {}
+    constructor(
+        private pipelineExecutionService: PipelineExecutionService,
+        private runQueueService: RunQueueService
+    ) {}
 
-    // POST /api/pipeline/run - Start the configured CI pipeline (ordered multi-project run)
+    // POST /api/pipeline/run - Start the configured CI pipeline (ordered multi-project run),
+    // or queue it while tests are running
     runPipeline = async (req: ServiceRequest, res: Response): Promise<void> => {
         try {
-            const {maxWorkers, source} = req.body
-            const pipeline = await this.pipelineExecutionService.startPipeline(maxWorkers, source)
-            ResponseHelper.success(res, pipeline)
+            const {maxWorkers, source, priority, queue} = req.body
+            const submitted = await this.runQueueService.submit(
+                {kind: 'pipeline', maxWorkers, source, priority},
+                queue !== false
+            )
+
+            if (submitted.queued) {
+                ResponseHelper.accepted(
+                    res,
+                    submitted,
+                    `Tests are already running, queued at position ${submitted.item.position}`
+                )
+                return
+            }
+            ResponseHelper.success(res, submitted.result)
         } catch (error) {
+            if (error instanceof Error && error.message.startsWith(INVALID_RUN_REQUEST)) {
+                ResponseHelper.badRequest(res, error.message)
+                return
+            }
+
+            // Only thrown when the request opted out of the queue
             if (error instanceof Error && error.message.includes('TESTS_ALREADY_RUNNING')) {
-                try {
-                    const errorData = JSON.parse(error.message)
-                    res.status(409).json({
-                        success: false,
-                        error: errorData.message,
-                        message: errorData.message,
-                        code: errorData.code,
-                        currentRunId: errorData.currentRunId,
-                        startedAt: errorData.startedAt,
-                        timestamp: new Date().toISOString(),
-                    })
-                    return
-                } catch {
-                    ResponseHelper.error(
-                        res,
-                        'Tests are already running',
-                        'Tests are already running',
-                        409
-                    )
-                    return
-                }
+                this.sendAlreadyRunning(res, error)
+                return
             }
 
             if (error instanceof Error && error.message.includes('CI_AUTORUN_PAUSED')) {
@@ -79,11 +88,11 @@ export class PipelineController {
         }
     }
 
-    // GET /api/pipeline/status/:pipelineRunId - Poll pipeline run state
+    // GET /api/pipeline/status/:pipelineRunId - Poll pipeline run state, or look up an earlier pipeline
     getPipelineStatus = async (req: ServiceRequest, res: Response): Promise<Response> => {
         try {
             const {pipelineRunId} = req.params
-            const pipeline = this.pipelineExecutionService.getPipeline(pipelineRunId)
+            const pipeline = await this.pipelineExecutionService.findPipeline(pipelineRunId)
 
             if (!pipeline) {
                 return ResponseHelper.notFound(res, 'Pipeline run')
@@ -101,6 +110,72 @@ export class PipelineController {
         }
     }
 
+    // POST /api/pipeline/:pipelineRunId/rerun - Re-run the failed steps of a finished pipeline,
+    // or resume it from the step it stopped at
+    rerunPipeline = async (req: ServiceRequest, res: Response): Promise<void> => {
+        try {
+            const {pipelineRunId} = req.params
+            const {mode, maxWorkers} = req.body
+            const pipeline = await this.pipelineExecutionService.rerunPipeline(
+                pipelineRunId,
+                mode,
+                maxWorkers
+            )
+
+            if (!pipeline) {
+                ResponseHelper.notFound(res, 'Pipeline run')
+                return
+            }
+
+            ResponseHelper.success(res, pipeline)
+        } catch (error) {
+            if (error instanceof Error && error.message.startsWith(INVALID_PIPELINE_RERUN)) {
+                ResponseHelper.badRequest(res, error.message)
+                return
+            }
+
+            if (error instanceof Error && error.message.includes('TESTS_ALREADY_RUNNING')) {
+                this.sendAlreadyRunning(res, error)
+                return
+            }
+
+            Logger.error('Error re-running pipeline', error)
+            ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to re-run pipeline',
+                500
+            )
+        }
+    }
+
+    // GET /api/pipeline/history?limit= - Earlier pipelines with their steps, newest first
+    getPipelineHistory = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const limit = req.query.limit
+                ? parseInt(req.query.limit as string, 10)
+                : DEFAULT_PIPELINE_HISTORY_LIMIT
+
+            if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PIPELINE_HISTORY_LIMIT) {
+                return ResponseHelper.badRequest(
+                    res,
+                    `limit must be an integer between 1 and ${MAX_PIPELINE_HISTORY_LIMIT}`
+                )
+            }
+            const pipelines = await this.pipelineExecutionService.getPipelineHistory(limit)
+
+            return ResponseHelper.success(res, pipelines, undefined, pipelines.length)
+        } catch (error) {
+            Logger.error('Error fetching pipeline history', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to fetch pipeline history',
+                500
+            )
+        }
+    }
+
     // GET /api/pipeline/status/current - Rehydrate the most recent pipeline run (if any)
     getCurrentPipelineStatus = async (_req: ServiceRequest, res: Response): Promise<Response> => {
         try {
@@ -121,4 +196,21 @@ export class PipelineController {
             )
         }
     }
+
+    private sendAlreadyRunning(res: Response, error: Error): void {
+        try {
+            const errorData = JSON.parse(error.message)
+            res.status(409).json({
+                success: false,
+                error: errorData.message,
+                message: errorData.message,
+                code: errorData.code,
+                currentRunId: errorData.currentRunId,
+                startedAt: errorData.startedAt,
+                timestamp: new Date().toISOString(),
+            })
+        } catch {
+            ResponseHelper.error(res, 'Tests are already running', 'Tests are already running', 409)
+        }
+    }
 }
@@ -0,0 +1,114 @@
+import {Response} from 'express'
+import {INVALID_QUARANTINE, QuarantineService} from '../services/quarantine.service'
+import {ResponseHelper} from '../utils/response.helper'
+import {Logger} from '../utils/logger.util'
+import {ServiceRequest} from '../types/api.types'
+
+export class QuarantineController {
+    constructor(private quarantineService: QuarantineService) {}
+
+    // GET /api/tests/quarantined - Tests currently in quarantine
+    getQuarantinedTests = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const project = typeof req.query.project === 'string' ? req.query.project : undefined
+            const tests = await this.quarantineService.getQuarantinedTests(project)
+
+            return ResponseHelper.success(res, tests, undefined, tests.length)
+        } catch (error) {
+            Logger.error('Error getting quarantined tests', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to get quarantined tests',
+                500
+            )
+        }
+    }
+
+    // GET /api/tests/:testId/quarantine - Get the active quarantine of a test
+    getQuarantine = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const {testId} = req.params
+
+            if (!testId) {
+                return ResponseHelper.error(res, 'Test ID is required', 'Missing test ID', 400)
+            }
+
+            const quarantine = await this.quarantineService.getQuarantine(testId)
+
+            return ResponseHelper.success(res, quarantine)
+        } catch (error) {
+            Logger.error('Error getting quarantine', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to get quarantine',
+                500
+            )
+        }
+    }
+
+    // POST /api/tests/:testId/quarantine - Quarantine a test (replaces an existing quarantine)
+    quarantineTest = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const {testId} = req.params
+            const {reason, expiresAt} = req.body
+
+            if (!testId) {
+                return ResponseHelper.error(res, 'Test ID is required', 'Missing test ID', 400)
+            }
+
+            if (typeof reason !== 'string') {
+                return ResponseHelper.badRequest(res, 'Reason must be a string')
+            }
+
+            if (expiresAt != null && typeof expiresAt !== 'string') {
+                return ResponseHelper.badRequest(res, 'expiresAt must be an ISO date string')
+            }
+
+            const quarantine = await this.quarantineService.quarantineTest(
+                testId,
+                reason,
+                expiresAt
+            )
+
+            return ResponseHelper.success(res, quarantine)
+        } catch (error) {
+            Logger.error('Error quarantining test', error)
+
+            if (error instanceof Error && error.message.startsWith(INVALID_QUARANTINE)) {
+                return ResponseHelper.badRequest(res, error.message)
+            }
+
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to quarantine test',
+                500
+            )
+        }
+    }
+
+    // DELETE /api/tests/:testId/quarantine - Release a test from quarantine
+    releaseTest = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const {testId} = req.params
+
+            if (!testId) {
+                return ResponseHelper.error(res, 'Test ID is required', 'Missing test ID', 400)
+            }
+
+            await this.quarantineService.releaseTest(testId)
+
+            return ResponseHelper.success(res, {message: 'Test released from quarantine'})
+        } catch (error) {
+            Logger.error('Error releasing test from quarantine', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to release test from quarantine',
+                500
+            )
+        }
+    }
+}
@@ -1,10 +1,29 @@
 import {Request, Response} from 'express'
+import {REPORT_FORMATS, buildReport, isReportFormat} from '@yshvydak/core'
 import {RunRepository} from '../repositories/run.repository'
+import {TestRepository} from '../repositories/test.repository'
+import {ReportImportService} from '../services/reportImport.service'
+import {DEFAULT_DURATION_THRESHOLD, RunComparisonService} from '../services/runComparison.service'
+import {FailureGroupService} from '../services/failureGroup.service'
+import {PipelineExecutionService} from '../services/pipelineExecution.service'
+import {RunLogService} from '../services/runLog.service'
+import {NO_FAILED_TESTS, TestService} from '../services/test.service'
+import {INVALID_REPORT_ERROR} from '../utils/reportParser.util'
 import {ResponseHelper} from '../utils/response.helper'
 import {Logger} from '../utils/logger.util'
+import {config} from '../config/environment.config'
 
 export class RunController {
-    constructor(private runRepository: RunRepository) {}
+    constructor(
+        private runRepository: RunRepository,
+        private testRepository: TestRepository,
+        private reportImportService: ReportImportService,
+        private runComparisonService: RunComparisonService,
+        private failureGroupService: FailureGroupService,
+        private pipelineExecutionService: PipelineExecutionService,
+        private runLogService: RunLogService,
+        private testService: TestService
+    ) {}
 
     // POST /api/runs - Create a new test run (compatible with yshvydakReporter.ts)
     createTestRun = async (req: Request, res: Response): Promise<Response> => {
@@ -66,6 +85,62 @@ export class RunController {
         }
     }
 
+    // POST /api/runs/:id/cancel - Stop a running test process and mark the run interrupted
+    cancelRun = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            const {id} = req.params
+
+            const cancelled = await this.pipelineExecutionService.cancelRun(id)
+            if (!cancelled) {
+                const run = await this.runRepository.getTestRun(id)
+                if (!run) {
+                    return ResponseHelper.notFound(res, 'Test run')
+                }
+                return ResponseHelper.error(res, 'Run is not running', 'Run is not running', 409)
+            }
+
+            Logger.info(`Test run cancelled: ${id}`)
+
+            return ResponseHelper.success(res, {id, status: 'interrupted'}, 'Test run cancelled')
+        } catch (error) {
+            Logger.error('Error cancelling test run', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to cancel test run',
+                500
+            )
+        }
+    }
+
+    // POST /api/runs/:id/rerun-failed - Rerun the failed tests of a run in one process
+    rerunFailedTests = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            const {id} = req.params
+            const run = await this.runRepository.getTestRun(id)
+            if (!run) {
+                return ResponseHelper.notFound(res, 'Test run')
+            }
+
+            const result = await this.testService.rerunFailedTests(
+                {runId: id},
+                req.body?.maxWorkers
+            )
+            return ResponseHelper.success(res, result)
+        } catch (error) {
+            if (error instanceof Error && error.message.startsWith(NO_FAILED_TESTS)) {
+                return ResponseHelper.badRequest(res, error.message)
+            }
+            Logger.error('Error rerunning failed tests of run', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to rerun failed tests',
+                500
+            )
+        }
+    }
+
     // GET /api/runs - Get all test runs
     getAllTestRuns = async (req: Request, res: Response): Promise<Response> => {
         try {
@@ -141,4 +216,213 @@ export class RunController {
             )
         }
     }
+
+    // GET /api/runs/compare?head=&base=&threshold= - Diff the results of two runs
+    compareRuns = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            const {head: headId, base: baseId, threshold} = req.query
+
+            if (!headId || typeof headId !== 'string') {
+                return ResponseHelper.badRequest(res, 'Query parameter "head" is required')
+            }
+
+            const durationThreshold =
+                threshold !== undefined ? Number(threshold) : DEFAULT_DURATION_THRESHOLD
+            if (!Number.isFinite(durationThreshold) || durationThreshold < 0) {
+                return ResponseHelper.badRequest(
+                    res,
+                    'Query parameter "threshold" must be a non-negative number'
+                )
+            }
+
+            const head = await this.runRepository.getTestRun(headId)
+            if (!head) {
+                return ResponseHelper.notFound(res, 'Test run')
+            }
+
+            // Without a base, compare against the previous run of the same project
+            const base = baseId
+                ? await this.runRepository.getTestRun(String(baseId))
+                : await this.runRepository.getPreviousRun(head)
+            if (!base) {
+                return ResponseHelper.notFound(res, baseId ? 'Base run' : 'Previous run')
+            }
+
+            const comparison = await this.runComparisonService.compareRuns(
+                base,
+                head,
+                durationThreshold
+            )
+
+            return ResponseHelper.success(res, comparison)
+        } catch (error) {
+            Logger.error('Error comparing test runs', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to compare test runs',
+                500
+            )
+        }
+    }
+
+    // GET /api/runs/:id/results - Get all results of a run, one per execution
+    getRunResults = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            const {id} = req.params
+            const run = await this.runRepository.getTestRun(id)
+
+            if (!run) {
+                return ResponseHelper.notFound(res, 'Test run')
+            }
+
+            const results = await this.testRepository.getTestResultsByRun(id)
+
+            return ResponseHelper.success(res, results)
+        } catch (error) {
+            Logger.error('Error fetching test run results', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to fetch test run results',
+                500
+            )
+        }
+    }
+
+    // GET /api/runs/:id/failure-groups - Failures of a run grouped by error signature
+    getRunFailureGroups = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            const {id} = req.params
+            const run = await this.runRepository.getTestRun(id)
+
+            if (!run) {
+                return ResponseHelper.notFound(res, 'Test run')
+            }
+
+            const groups = await this.failureGroupService.getRunFailureGroups(id)
+
+            return ResponseHelper.success(res, groups, undefined, groups.length)
+        } catch (error) {
+            Logger.error('Error fetching run failure groups', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to fetch failure groups',
+                500
+            )
+        }
+    }
+
+    // GET /api/runs/:id/log - Raw Playwright output of the run, as plain text
+    getRunLog = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            const {id} = req.params
+            const log = await this.runLogService.getLog(id)
+
+            if (log === null) {
+                return ResponseHelper.notFound(res, 'Run log')
+            }
+
+            res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+            if (req.query.download === 'true') {
+                res.setHeader('Content-Disposition', `attachment; filename="run-${id}.log"`)
+            }
+            return res.send(log)
+        } catch (error) {
+            Logger.error('Error fetching run log', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to fetch run log',
+                500
+            )
+        }
+    }
+
+    // GET /api/runs/:id/export?format=junit|ctrf|json - Download the run as a report file
+    exportRun = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            const {id} = req.params
+            const format = req.query.format || 'junit'
+
+            if (!isReportFormat(format)) {
+                return ResponseHelper.badRequest(
+                    res,
+                    `Unsupported format. Use one of: ${REPORT_FORMATS.join(', ')}`
+                )
+            }
+
+            const run = await this.runRepository.getTestRun(id)
+            if (!run) {
+                return ResponseHelper.notFound(res, 'Test run')
+            }
+
+            const tests = await this.testRepository.getTestResultsByRun(id)
+            const report = buildReport(
+                format,
+                {
+                    id: run.id,
+                    status: run.status,
+                    createdAt: run.createdAt,
+                    duration: run.duration,
+                    project: run.metadata?.project,
+                },
+                tests,
+                {attachmentBaseUrl: config.api.baseUrl}
+            )
+
+            res.setHeader('Content-Type', `${report.contentType}; charset=utf-8`)
+            res.setHeader('Content-Disposition', `attachment; filename="${report.fileName}"`)
+            return res.send(report.content)
+        } catch (error) {
+            Logger.error('Error exporting test run', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to export test run',
+                500
+            )
+        }
+    }
+
+    // POST /api/runs/import - Import a Playwright JSON or JUnit XML report (multipart upload)
+    importRun = async (req: Request, res: Response): Promise<Response> => {
+        try {
+            const files = req.files as Record<string, Express.Multer.File[]> | undefined
+            const report = files?.report?.[0]
+            const attachments = files?.attachments?.[0]
+
+            if (!report) {
+                return ResponseHelper.badRequest(
+                    res,
+                    'Report file is required (multipart field "report")'
+                )
+            }
+
+            const result = await this.reportImportService.importReport(
+                {report: report.buffer, attachments: attachments?.buffer},
+                {
+                    project: typeof req.body?.project === 'string' ? req.body.project : undefined,
+                    fileName: report.originalname,
+                }
+            )
+
+            Logger.success(`Imported test run ${result.runId} from ${report.originalname}`)
+            return ResponseHelper.success(res, result, 'Report imported')
+        } catch (error) {
+            Logger.error('Error importing test run', error)
+
+            if (error instanceof Error && error.message.startsWith(INVALID_REPORT_ERROR)) {
+                return ResponseHelper.badRequest(res, error.message)
+            }
+
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to import test run',
+                500
+            )
+        }
+    }
 }
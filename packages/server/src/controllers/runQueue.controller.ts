@@ -0,0 +1,44 @@
+import {Response} from 'express'
+import {RunQueueService} from '../services/runQueue.service'
+import {ResponseHelper} from '../utils/response.helper'
+import {Logger} from '../utils/logger.util'
+import {ServiceRequest} from '../types/api.types'
+
+export class RunQueueController {
+    constructor(private runQueueService: RunQueueService) {}
+
+    // GET /api/queue - Queued runs in the order they will start
+    getQueue = async (_req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const items = await this.runQueueService.getQueue()
+            return ResponseHelper.success(res, items, undefined, items.length)
+        } catch (error) {
+            Logger.error('Error getting run queue', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to get run queue',
+                500
+            )
+        }
+    }
+
+    // DELETE /api/queue/:id - Cancel a queued run
+    cancelItem = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const cancelled = await this.runQueueService.cancel(req.params.id)
+            if (!cancelled) {
+                return ResponseHelper.notFound(res, 'Queued run')
+            }
+            return ResponseHelper.success(res, {message: 'Queued run cancelled'})
+        } catch (error) {
+            Logger.error('Error cancelling queued run', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to cancel queued run',
+                500
+            )
+        }
+    }
+}
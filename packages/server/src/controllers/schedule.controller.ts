@@ -0,0 +1,122 @@
+import {Response} from 'express'
+import {
+    DEFAULT_PREVIEW_COUNT,
+    INVALID_SCHEDULE,
+    MAX_PREVIEW_COUNT,
+    ScheduleService,
+} from '../services/schedule.service'
+import {INVALID_CRON} from '../utils/cron.util'
+import {ResponseHelper} from '../utils/response.helper'
+import {Logger} from '../utils/logger.util'
+import {ServiceRequest} from '../types/api.types'
+
+export class ScheduleController {
+    constructor(private scheduleService: ScheduleService) {}
+
+    // GET /api/schedules - All schedules with their next run
+    getSchedules = async (_req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const schedules = await this.scheduleService.getSchedules()
+            return ResponseHelper.success(res, schedules, undefined, schedules.length)
+        } catch (error) {
+            Logger.error('Error getting schedules', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to get schedules',
+                500
+            )
+        }
+    }
+
+    // GET /api/schedules/preview?cron=&count= - Next times a cron expression fires
+    previewSchedule = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const count = req.query.count
+                ? parseInt(req.query.count as string, 10)
+                : DEFAULT_PREVIEW_COUNT
+
+            if (!Number.isInteger(count) || count < 1 || count > MAX_PREVIEW_COUNT) {
+                return ResponseHelper.badRequest(
+                    res,
+                    `count must be an integer between 1 and ${MAX_PREVIEW_COUNT}`
+                )
+            }
+
+            const runs = this.scheduleService.previewRuns(String(req.query.cron ?? ''), count)
+            return ResponseHelper.success(res, {runs})
+        } catch (error) {
+            if (error instanceof Error && error.message.startsWith(INVALID_CRON)) {
+                return ResponseHelper.badRequest(res, error.message)
+            }
+
+            Logger.error('Error previewing schedule', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to preview schedule',
+                500
+            )
+        }
+    }
+
+    // POST /api/schedules - Create a schedule
+    createSchedule = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const schedule = await this.scheduleService.createSchedule(req.body ?? {})
+            return ResponseHelper.success(res, schedule)
+        } catch (error) {
+            return this.handleSaveError(res, error, 'Failed to create schedule')
+        }
+    }
+
+    // PUT /api/schedules/:id - Replace a schedule's settings
+    updateSchedule = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const schedule = await this.scheduleService.updateSchedule(
+                req.params.id,
+                req.body ?? {}
+            )
+            if (!schedule) {
+                return ResponseHelper.notFound(res, 'Schedule')
+            }
+            return ResponseHelper.success(res, schedule)
+        } catch (error) {
+            return this.handleSaveError(res, error, 'Failed to update schedule')
+        }
+    }
+
+    // DELETE /api/schedules/:id - Delete a schedule
+    deleteSchedule = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const deleted = await this.scheduleService.deleteSchedule(req.params.id)
+            if (!deleted) {
+                return ResponseHelper.notFound(res, 'Schedule')
+            }
+            return ResponseHelper.success(res, {message: 'Schedule deleted'})
+        } catch (error) {
+            Logger.error('Error deleting schedule', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to delete schedule',
+                500
+            )
+        }
+    }
+
+    private handleSaveError(res: Response, error: unknown, message: string): Response {
+        Logger.error(message, error)
+
+        if (error instanceof Error && error.message.startsWith(INVALID_SCHEDULE)) {
+            return ResponseHelper.badRequest(res, error.message)
+        }
+
+        return ResponseHelper.error(
+            res,
+            error instanceof Error ? error.message : 'Unknown error',
+            message,
+            500
+        )
+    }
+}
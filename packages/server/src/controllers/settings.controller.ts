@@ -1,5 +1,5 @@
 import {Response} from 'express'
-import {SettingsService} from '../services/settings.service'
+import {SettingsService, INVALID_PIPELINE_CONFIG} from '../services/settings.service'
 import {ResponseHelper} from '../utils/response.helper'
 import {Logger} from '../utils/logger.util'
 import {ServiceRequest} from '../types/api.types'
@@ -104,6 +104,10 @@ export class SettingsController {
             const saved = await this.settingsService.setProjectTabConfigs(configs)
             return ResponseHelper.success(res, saved)
         } catch (error) {
+            if (error instanceof Error && error.message.startsWith(INVALID_PIPELINE_CONFIG)) {
+                return ResponseHelper.badRequest(res, error.message)
+            }
+
             Logger.error('Error updating project tab configs', error)
             return ResponseHelper.error(
                 res,
@@ -191,6 +195,42 @@ export class SettingsController {
         }
     }
 
+    getSkipQuarantinedTests = async (_req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const enabled = await this.settingsService.getSkipQuarantinedTests()
+            return ResponseHelper.success(res, {enabled})
+        } catch (error) {
+            Logger.error('Error getting skip quarantined tests setting', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to get skip quarantined tests setting',
+                500
+            )
+        }
+    }
+
+    updateSkipQuarantinedTests = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const {enabled} = req.body
+
+            if (typeof enabled !== 'boolean') {
+                return ResponseHelper.badRequest(res, 'enabled must be a boolean')
+            }
+
+            const setting = await this.settingsService.setSkipQuarantinedTests(enabled)
+            return ResponseHelper.success(res, setting)
+        } catch (error) {
+            Logger.error('Error updating skip quarantined tests setting', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to update skip quarantined tests setting',
+                500
+            )
+        }
+    }
+
     updateGlobalPlaywrightProject = async (
         req: ServiceRequest,
         res: Response
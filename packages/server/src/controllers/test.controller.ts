@@ -1,18 +1,41 @@
 import {Response} from 'express'
-import {TestService} from '../services/test.service'
+import {INVALID_TEST_SELECTION, NO_FAILED_TESTS, TestService} from '../services/test.service'
 import {AuthService} from '../services/auth.service'
+import {DEFAULT_FAILURE_GROUP_DAYS, FailureGroupService} from '../services/failureGroup.service'
+import {
+    DEFAULT_DURATION_DAYS,
+    DEFAULT_LEADERBOARD_LIMIT,
+    DurationStatsService,
+} from '../services/durationStats.service'
+import {
+    DEFAULT_FLAKY_DAYS,
+    DEFAULT_FLAKY_LIMIT,
+    DEFAULT_FLAKY_THRESHOLD,
+    FlakinessService,
+} from '../services/flakiness.service'
+import {WebhookService} from '../services/webhook.service'
+import {INVALID_RUN_REQUEST, RunQueueService} from '../services/runQueue.service'
 import {ResponseHelper} from '../utils/response.helper'
 import {Logger} from '../utils/logger.util'
 import {ServiceRequest} from '../types/api.types'
+import {BatchSaveItemResult} from '../types/service.types'
+import {TestResultData} from '../types/database.types'
 import {ProcessStartData, ProcessEndData} from '@yshvydak/core'
 import {activeProcessesTracker} from '../services/activeProcesses.service'
 import {getWebSocketManager} from '../websocket/server'
 import path from 'path'
 
 export class TestController {
+    private static readonly MAX_BATCH_SIZE = 1000
+
     constructor(
         private testService: TestService,
-        private authService: AuthService
+        private authService: AuthService,
+        private failureGroupService: FailureGroupService,
+        private durationStatsService: DurationStatsService,
+        private flakinessService: FlakinessService,
+        private webhookService: WebhookService,
+        private runQueueService: RunQueueService
     ) {}
 
     // POST /api/tests/discovery - Discover tests (optionally scoped to a single project)
@@ -48,19 +71,31 @@ export class TestController {
         }
     }
 
-    // POST /api/tests/run-all - Run all tests
+    // POST /api/tests/run-all - Run all tests, or queue the run while tests are running
     runAllTests = async (req: ServiceRequest, res: Response): Promise<void> => {
         try {
-            const {maxWorkers, skipAutoDiscovery, project, source} = req.body
-            const result = await this.testService.runAllTests(
-                maxWorkers,
-                skipAutoDiscovery,
-                project,
-                source
-            )
-            ResponseHelper.success(res, result)
+            const {maxWorkers, skipAutoDiscovery, project, source, priority, queue} = req.body
+            const submitted = await this.runQueueService.submit(
+                {kind: 'run-all', maxWorkers, skipAutoDiscovery, project, source, priority},
+                queue !== false
+            )
+
+            if (submitted.queued) {
+                ResponseHelper.accepted(
+                    res,
+                    submitted,
+                    `Tests are already running, queued at position ${submitted.item.position}`
+                )
+                return
+            }
+            ResponseHelper.success(res, submitted.result)
         } catch (error) {
-            // Check if this is a "tests already running" error
+            if (error instanceof Error && error.message.startsWith(INVALID_RUN_REQUEST)) {
+                ResponseHelper.badRequest(res, error.message)
+                return
+            }
+
+            // Only thrown when the request opted out of the queue
             if (error instanceof Error && error.message.includes('TESTS_ALREADY_RUNNING')) {
                 try {
                     const errorData = JSON.parse(error.message)
@@ -135,10 +170,56 @@ export class TestController {
         }
     }
 
+    // POST /api/tests/rerun-failed - Rerun the tests of a project whose latest result failed
+    rerunFailedTests = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const {project, maxWorkers} = req.body
+            const result = await this.testService.rerunFailedTests(
+                {project: typeof project === 'string' && project !== '' ? project : undefined},
+                maxWorkers
+            )
+            return ResponseHelper.success(res, result)
+        } catch (error) {
+            if (error instanceof Error && error.message.startsWith(NO_FAILED_TESTS)) {
+                return ResponseHelper.badRequest(res, error.message)
+            }
+            Logger.error('Error rerunning failed tests', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to rerun failed tests',
+                500
+            )
+        }
+    }
+
+    // POST /api/tests/run-selection - Run tests picked by ID across files, by tag or by grep
+    runTestSelection = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const {testIds, grep, grepInvert, tags, project, maxWorkers} = req.body
+            const result = await this.testService.runTestSelection(
+                {testIds, grep, grepInvert, tags, project},
+                maxWorkers
+            )
+            return ResponseHelper.success(res, result)
+        } catch (error) {
+            if (error instanceof Error && error.message.startsWith(INVALID_TEST_SELECTION)) {
+                return ResponseHelper.badRequest(res, error.message)
+            }
+            Logger.error('Error running test selection', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to run test selection',
+                500
+            )
+        }
+    }
+
     // GET /api/tests - Get all test results
     getAllTests = async (req: ServiceRequest, res: Response): Promise<void> => {
         try {
-            const {runId, status, limit = 100, project} = req.query
+            const {runId, status, limit = 100, project, tag} = req.query
 
             const filters = {
                 runId: runId as string,
@@ -148,6 +229,7 @@ export class TestController {
                     typeof project === 'string' && project.trim() !== ''
                         ? project.trim()
                         : undefined,
+                tag: typeof tag === 'string' && tag.trim() !== '' ? tag.trim() : undefined,
             }
 
             const tests = await this.testService.getAllTests(filters)
@@ -218,15 +300,20 @@ export class TestController {
         }
     }
 
-    // GET /api/tests/flaky - Get flaky tests
+    // GET /api/tests/flaky?days=&threshold=&project=&limit=&offset= - Flaky tests by flip-rate score
     getFlakyTests = async (req: ServiceRequest, res: Response): Promise<Response> => {
         try {
-            const {days = 30, threshold = 10} = req.query
-            const flakyTests = await this.testService.getFlakyTests(
-                parseInt(days as string) || 30,
-                parseInt(threshold as string) || 10
-            )
-            return ResponseHelper.success(res, flakyTests, undefined, flakyTests.length)
+            const {days, threshold, project, limit, offset} = req.query
+            const parsedThreshold = parseInt(threshold as string)
+            const {tests, total} = await this.flakinessService.getFlakyTests({
+                days: parseInt(days as string) || DEFAULT_FLAKY_DAYS,
+                threshold: isNaN(parsedThreshold) ? DEFAULT_FLAKY_THRESHOLD : parsedThreshold,
+                project: typeof project === 'string' && project ? project : undefined,
+                limit: parseInt(limit as string) || DEFAULT_FLAKY_LIMIT,
+                offset: Math.max(0, parseInt(offset as string) || 0),
+            })
+            // count is the total number of flaky tests, not the page length
+            return ResponseHelper.success(res, tests, undefined, total)
         } catch (error) {
             Logger.error('Error fetching flaky tests', error)
             return ResponseHelper.error(
@@ -255,6 +342,67 @@ export class TestController {
         }
     }
 
+    // GET /api/tests/failure-groups?days= - Recent failures grouped by error signature
+    getFailureGroups = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const {days} = req.query
+            const groups = await this.failureGroupService.getFailureGroups(
+                parseInt(days as string) || DEFAULT_FAILURE_GROUP_DAYS
+            )
+            return ResponseHelper.success(res, groups, undefined, groups.length)
+        } catch (error) {
+            Logger.error('Error fetching failure groups', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to fetch failure groups',
+                500
+            )
+        }
+    }
+
+    // GET /api/tests/duration-leaderboard?days=&project=&limit= - Slowest and slowed down tests
+    getDurationLeaderboard = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const {days, project, limit} = req.query
+            const leaderboard = await this.durationStatsService.getDurationLeaderboard({
+                days: parseInt(days as string) || DEFAULT_DURATION_DAYS,
+                project: typeof project === 'string' && project ? project : undefined,
+                limit: parseInt(limit as string) || DEFAULT_LEADERBOARD_LIMIT,
+            })
+            return ResponseHelper.success(res, leaderboard)
+        } catch (error) {
+            Logger.error('Error fetching duration leaderboard', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to fetch duration leaderboard',
+                500
+            )
+        }
+    }
+
+    // GET /api/tests/:id/duration-stats?days= - Duration percentiles of a test (stable testId)
+    getTestDurationStats = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const {id} = req.params
+            const {days} = req.query
+            const stats = await this.durationStatsService.getTestDurationStats(
+                id,
+                parseInt(days as string) || DEFAULT_DURATION_DAYS
+            )
+            return ResponseHelper.success(res, stats)
+        } catch (error) {
+            Logger.error('Error fetching test duration stats', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to fetch test duration stats',
+                500
+            )
+        }
+    }
+
     // DELETE /api/tests/:testId - Delete a specific test and all its executions
     deleteTest = async (req: ServiceRequest, res: Response): Promise<Response> => {
         try {
@@ -379,47 +527,16 @@ export class TestController {
             const testData = req.body
 
             // Validate required fields
-            if (!testData.id || !testData.testId || !testData.runId || !testData.name) {
+            if (!this.hasRequiredResultFields(testData)) {
                 return ResponseHelper.badRequest(
                     res,
                     'Missing required fields: id, testId, runId, name'
                 )
             }
 
-            const testResultData = {
-                id: testData.id,
-                runId: testData.runId,
-                testId: testData.testId,
-                name: testData.name,
-                filePath: testData.filePath || '',
-                status: testData.status || 'unknown',
-                duration: testData.duration || 0,
-                errorMessage: testData.errorMessage || null,
-                errorStack: testData.errorStack || null,
-                retryCount: testData.retryCount || 0,
-                project: testData.project || '',
-                metadata: testData.metadata || {},
-                timestamp: testData.timestamp || new Date().toISOString(), // Use reporter's timestamp
-                attachments: testData.attachments,
-            }
-
-            await this.testService.saveTestResult(testResultData as any)
-
-            // Update progress for active process
-            const progress = activeProcessesTracker.updateProgress(testData.runId, {
-                testId: testData.testId,
-                name: testData.name,
-                filePath: testData.filePath || '',
-                status: testData.status || 'pending',
-            })
+            await this.testService.saveTestResult(this.toTestResultData(testData))
 
-            // Broadcast progress update via WebSocket
-            if (progress) {
-                const wsManager = getWebSocketManager()
-                if (wsManager) {
-                    wsManager.broadcastTestProgress(progress)
-                }
-            }
+            this.broadcastResultProgress(testData)
 
             return ResponseHelper.success(res, {id: testData.id}, 'Test result saved successfully')
         } catch (error) {
@@ -433,6 +550,109 @@ export class TestController {
         }
     }
 
+    // POST /api/tests/batch - Save many test results in one transaction.
+    // Accepts {results: [...]} (or a bare array) and reports a status per item, so a
+    // single bad result never rejects the whole batch.
+    createTestResultsBatch = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const results = Array.isArray(req.body) ? req.body : req.body?.results
+
+            if (!Array.isArray(results) || results.length === 0) {
+                return ResponseHelper.badRequest(res, 'Expected a non-empty "results" array')
+            }
+
+            if (results.length > TestController.MAX_BATCH_SIZE) {
+                return ResponseHelper.badRequest(
+                    res,
+                    `Batch too large: ${results.length} results (max ${TestController.MAX_BATCH_SIZE})`
+                )
+            }
+
+            const valid = results.filter((testData) => this.hasRequiredResultFields(testData))
+            const saved = await this.testService.saveTestResultsBatch(
+                valid.map((testData) => this.toTestResultData(testData))
+            )
+
+            // Service outcomes come back in input order, so pair them with the valid items
+            let savedIndex = 0
+            const items: BatchSaveItemResult[] = results.map((testData) => {
+                if (!this.hasRequiredResultFields(testData)) {
+                    return {
+                        id: testData?.id ?? '',
+                        testId: testData?.testId ?? '',
+                        status: 'invalid',
+                        error: 'Missing required fields: id, testId, runId, name',
+                    }
+                }
+
+                const item = saved[savedIndex++]
+                if (item.status === 'saved') {
+                    this.broadcastResultProgress(testData)
+                }
+                return item
+            })
+
+            const savedCount = items.filter((item) => item.status === 'saved').length
+            Logger.info(`Batch ingestion: saved ${savedCount} of ${items.length} test results`)
+
+            return ResponseHelper.success(
+                res,
+                {saved: savedCount, failed: items.length - savedCount, items},
+                'Test results batch processed',
+                items.length
+            )
+        } catch (error) {
+            Logger.error('Error saving test results batch', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to save test results batch',
+                500
+            )
+        }
+    }
+
+    private hasRequiredResultFields(testData: any): boolean {
+        return Boolean(testData?.id && testData.testId && testData.runId && testData.name)
+    }
+
+    private toTestResultData(testData: any): TestResultData {
+        return {
+            id: testData.id,
+            runId: testData.runId,
+            testId: testData.testId,
+            name: testData.name,
+            filePath: testData.filePath || '',
+            status: testData.status || 'unknown',
+            duration: testData.duration || 0,
+            errorMessage: testData.errorMessage || null,
+            errorStack: testData.errorStack || null,
+            retryCount: testData.retryCount || 0,
+            executionId: testData.executionId || undefined,
+            project: testData.project || '',
+            metadata: testData.metadata || {},
+            timestamp: testData.timestamp || new Date().toISOString(), // Use reporter's timestamp
+            attachments: testData.attachments,
+        } as TestResultData
+    }
+
+    // Update progress for the active process and push it to connected clients
+    private broadcastResultProgress(testData: any) {
+        const progress = activeProcessesTracker.updateProgress(testData.runId, {
+            testId: testData.testId,
+            name: testData.name,
+            filePath: testData.filePath || '',
+            status: testData.status || 'pending',
+        })
+
+        if (progress) {
+            const wsManager = getWebSocketManager()
+            if (wsManager) {
+                wsManager.broadcastTestProgress(progress)
+            }
+        }
+    }
+
     // GET /api/tests/:id - Get specific test result with attachments
     getTestById = async (req: ServiceRequest, res: Response): Promise<void> => {
         try {
@@ -686,6 +906,9 @@ export class TestController {
                 Logger.warn('⚠️ WebSocket manager not available for broadcasting')
             }
 
+            // Outgoing webhooks are delivered in the background
+            void this.webhookService.notifyProcessEnded(processData)
+
             Logger.info(
                 `✅ Process ended successfully: ${processData.runId} (${processData.status})`
             )
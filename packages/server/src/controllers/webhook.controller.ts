@@ -0,0 +1,139 @@
+import {Response} from 'express'
+import {
+    DEFAULT_DELIVERIES_LIMIT,
+    INVALID_WEBHOOK,
+    WebhookService,
+} from '../services/webhook.service'
+import {ResponseHelper} from '../utils/response.helper'
+import {Logger} from '../utils/logger.util'
+import {ServiceRequest} from '../types/api.types'
+
+const MAX_DELIVERIES_LIMIT = 50
+
+export class WebhookController {
+    constructor(private webhookService: WebhookService) {}
+
+    // GET /api/webhooks - All webhooks (secrets are never returned)
+    getWebhooks = async (_req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const webhooks = await this.webhookService.getWebhooks()
+            return ResponseHelper.success(res, webhooks, undefined, webhooks.length)
+        } catch (error) {
+            Logger.error('Error getting webhooks', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to get webhooks',
+                500
+            )
+        }
+    }
+
+    // POST /api/webhooks - Create a webhook
+    createWebhook = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const webhook = await this.webhookService.createWebhook(req.body ?? {})
+            return ResponseHelper.success(res, webhook)
+        } catch (error) {
+            return this.handleSaveError(res, error, 'Failed to create webhook')
+        }
+    }
+
+    // PUT /api/webhooks/:id - Replace a webhook's settings (an omitted secret is kept)
+    updateWebhook = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const webhook = await this.webhookService.updateWebhook(req.params.id, req.body ?? {})
+            if (!webhook) {
+                return ResponseHelper.notFound(res, 'Webhook')
+            }
+            return ResponseHelper.success(res, webhook)
+        } catch (error) {
+            return this.handleSaveError(res, error, 'Failed to update webhook')
+        }
+    }
+
+    // DELETE /api/webhooks/:id - Delete a webhook and its delivery log
+    deleteWebhook = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const deleted = await this.webhookService.deleteWebhook(req.params.id)
+            if (!deleted) {
+                return ResponseHelper.notFound(res, 'Webhook')
+            }
+            return ResponseHelper.success(res, {message: 'Webhook deleted'})
+        } catch (error) {
+            Logger.error('Error deleting webhook', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to delete webhook',
+                500
+            )
+        }
+    }
+
+    // POST /api/webhooks/:id/test - Send a test event once and return its delivery
+    sendTestEvent = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const delivery = await this.webhookService.sendTestEvent(req.params.id)
+            if (!delivery) {
+                return ResponseHelper.notFound(res, 'Webhook')
+            }
+            return ResponseHelper.success(res, delivery)
+        } catch (error) {
+            Logger.error('Error sending webhook test event', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to send test event',
+                500
+            )
+        }
+    }
+
+    // GET /api/webhooks/:id/deliveries?limit= - Latest deliveries, newest first
+    getDeliveries = async (req: ServiceRequest, res: Response): Promise<Response> => {
+        try {
+            const limit = req.query.limit
+                ? parseInt(req.query.limit as string, 10)
+                : DEFAULT_DELIVERIES_LIMIT
+
+            if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERIES_LIMIT) {
+                return ResponseHelper.badRequest(
+                    res,
+                    `limit must be an integer between 1 and ${MAX_DELIVERIES_LIMIT}`
+                )
+            }
+
+            const webhook = await this.webhookService.getWebhook(req.params.id)
+            if (!webhook) {
+                return ResponseHelper.notFound(res, 'Webhook')
+            }
+
+            const deliveries = await this.webhookService.getDeliveries(req.params.id, limit)
+            return ResponseHelper.success(res, deliveries, undefined, deliveries.length)
+        } catch (error) {
+            Logger.error('Error getting webhook deliveries', error)
+            return ResponseHelper.error(
+                res,
+                error instanceof Error ? error.message : 'Unknown error',
+                'Failed to get webhook deliveries',
+                500
+            )
+        }
+    }
+
+    private handleSaveError(res: Response, error: unknown, message: string): Response {
+        Logger.error(message, error)
+
+        if (error instanceof Error && error.message.startsWith(INVALID_WEBHOOK)) {
+            return ResponseHelper.badRequest(res, error.message)
+        }
+
+        return ResponseHelper.error(
+            res,
+            error instanceof Error ? error.message : 'Unknown error',
+            message,
+            500
+        )
+    }
+}
@@ -1,6 +1,7 @@
 import {describe, it, expect, beforeEach, afterEach} from 'vitest'
 import {DatabaseManager, TestRunData, TestResultData, AttachmentData} from '../database.manager'
 import {randomUUID} from 'crypto'
+import {generateStableTestId} from '@yshvydak/core'
 import fs from 'fs'
 import path from 'path'
 import os from 'os'
@@ -438,6 +439,52 @@ describe('DatabaseManager', () => {
             expect(history[0].created_at >= history[1].created_at).toBe(true)
             expect(history[1].created_at >= history[2].created_at).toBe(true)
         })
+
+        const batchItem = (name: string) => ({
+            id: randomUUID(),
+            runId,
+            testId: `test-${name}`,
+            name,
+            filePath: '/tests/batch.spec.ts',
+            status: 'passed' as const,
+            duration: 100,
+        })
+
+        it('should save a batch with an outcome per item', async () => {
+            const duplicate = batchItem('duplicate')
+            await db.saveTestResult(duplicate)
+
+            const outcomes = await db.saveTestResultsBatch([
+                batchItem('first'),
+                duplicate,
+                batchItem('second'),
+            ])
+
+            expect(outcomes.map((outcome) => Boolean(outcome.error))).toEqual([false, true, false])
+            expect(await db.getTestResultsByRun(runId)).toHaveLength(3)
+        })
+
+        it('should not commit a transaction the batch did not begin', async () => {
+            await db.execute('BEGIN IMMEDIATE TRANSACTION')
+
+            const outcomes = await db.saveTestResultsBatch([batchItem('first')])
+            expect(outcomes[0].error).toBeUndefined()
+
+            // The open transaction took in the insert and is still there to roll back
+            await db.execute('ROLLBACK')
+            expect(await db.getTestResultsByRun(runId)).toHaveLength(0)
+        })
+
+        it('should run concurrent batches one after another', async () => {
+            const batches = await Promise.all(
+                Array.from({length: 5}, (_, i) =>
+                    db.saveTestResultsBatch([batchItem(`a${i}`), batchItem(`b${i}`)])
+                )
+            )
+
+            expect(batches.flat().every((outcome) => !outcome.error)).toBe(true)
+            expect(await db.getTestResultsByRun(runId)).toHaveLength(10)
+        })
     })
 
     describe('Attachments - Foreign Key Constraints', () => {
@@ -938,8 +985,8 @@ describe('DatabaseManager', () => {
                 expect(totalSizeAfter).toBeLessThan(totalSizeBefore * 0.2)
 
                 // Database should be minimal size (just schema + indexes)
-                // Typical empty schema size is 32-160 KB depending on indexes
-                expect(totalSizeAfter).toBeLessThan(160 * 1024) // Less than 160 KB
+                // Typical empty schema size is 32-256 KB depending on tables and indexes
+                expect(totalSizeAfter).toBeLessThan(256 * 1024) // Less than 256 KB
             } finally {
                 // Cleanup
                 fileDb.close()
@@ -947,4 +994,437 @@ describe('DatabaseManager', () => {
             }
         })
     })
+
+    describe('Stable Test ID Migration', () => {
+        let tempDir: string
+
+        beforeEach(() => {
+            tempDir = path.join(os.tmpdir(), `test-db-${randomUUID()}`)
+            fs.mkdirSync(tempDir, {recursive: true})
+        })
+
+        afterEach(() => {
+            fs.rmSync(tempDir, {recursive: true, force: true})
+        })
+
+        // Seeds rows with the legacy file:title IDs, then reopens the database so the
+        // migration runs as it would on the first start after an upgrade
+        const openWithLegacyRows = async (
+            seed: (legacyDb: DatabaseManager, runId: string) => Promise<void>
+        ): Promise<DatabaseManager> => {
+            const legacyDb = new DatabaseManager(tempDir)
+            await legacyDb.initialize()
+            const runId = randomUUID()
+            await legacyDb.createTestRun({
+                id: runId,
+                status: 'completed',
+                totalTests: 0,
+                passedTests: 0,
+                failedTests: 0,
+                skippedTests: 0,
+                duration: 0,
+            })
+            await seed(legacyDb, runId)
+            await legacyDb.execute('PRAGMA user_version = 0')
+            legacyDb.close()
+
+            const migratedDb = new DatabaseManager(tempDir)
+            await migratedDb.initialize()
+            return migratedDb
+        }
+
+        const saveLegacyResult = (
+            legacyDb: DatabaseManager,
+            runId: string,
+            testId: string,
+            project: string
+        ) =>
+            legacyDb.saveTestResult({
+                id: randomUUID(),
+                runId,
+                testId,
+                name: 'should login',
+                filePath: 'tests/auth.spec.ts',
+                status: 'passed',
+                duration: 100,
+                project,
+            } as TestResultData & {project: string})
+
+        const legacyId = generateStableTestId({
+            filePath: 'tests/auth.spec.ts',
+            titlePath: ['should login'],
+        })
+        const chromiumId = generateStableTestId({
+            filePath: 'tests/auth.spec.ts',
+            titlePath: ['should login'],
+            project: 'chromium',
+        })
+        const firefoxId = generateStableTestId({
+            filePath: 'tests/auth.spec.ts',
+            titlePath: ['should login'],
+            project: 'firefox',
+        })
+
+        it('should split a test recorded under several projects into one history per project', async () => {
+            const migratedDb = await openWithLegacyRows(async (legacyDb, runId) => {
+                await saveLegacyResult(legacyDb, runId, legacyId, 'chromium')
+                await saveLegacyResult(legacyDb, runId, legacyId, 'chromium')
+                await saveLegacyResult(legacyDb, runId, legacyId, 'firefox')
+            })
+
+            try {
+                expect(await migratedDb.getTestResultsByTestId(chromiumId)).toHaveLength(2)
+                expect(await migratedDb.getTestResultsByTestId(firefoxId)).toHaveLength(1)
+                expect(await migratedDb.getTestResultsByTestId(legacyId)).toHaveLength(0)
+            } finally {
+                migratedDb.close()
+            }
+        })
+
+        it('should keep the ID of top-level tests in the default project', async () => {
+            const migratedDb = await openWithLegacyRows(async (legacyDb, runId) => {
+                await saveLegacyResult(legacyDb, runId, legacyId, '')
+                await legacyDb.saveTestNote({testId: legacyId, content: 'Known issue'})
+            })
+
+            try {
+                expect(await migratedDb.getTestResultsByTestId(legacyId)).toHaveLength(1)
+                expect((await migratedDb.getTestNote(legacyId)).content).toBe('Known issue')
+            } finally {
+                migratedDb.close()
+            }
+        })
+
+        it('should carry notes and note images over to the re-keyed tests', async () => {
+            const migratedDb = await openWithLegacyRows(async (legacyDb, runId) => {
+                await saveLegacyResult(legacyDb, runId, legacyId, 'firefox')
+                await saveLegacyResult(legacyDb, runId, legacyId, 'chromium')
+                await legacyDb.saveTestNote({testId: legacyId, content: 'Flaky on CI'})
+                await legacyDb.saveNoteImage({
+                    id: 'image-1',
+                    testId: legacyId,
+                    fileName: 'screenshot.png',
+                    filePath: `/note-images/${legacyId}/screenshot.png`,
+                    fileSize: 10,
+                    mimeType: 'image/png',
+                    url: `/note-images/${legacyId}/screenshot.png`,
+                })
+            })
+
+            try {
+                expect((await migratedDb.getTestNote(chromiumId)).content).toBe('Flaky on CI')
+                expect((await migratedDb.getTestNote(firefoxId)).content).toBe('Flaky on CI')
+                expect(await migratedDb.getTestNote(legacyId)).toBeFalsy()
+
+                const images = [
+                    ...(await migratedDb.getNoteImages(chromiumId)),
+                    ...(await migratedDb.getNoteImages(firefoxId)),
+                ]
+                expect(images).toHaveLength(1)
+                expect(images[0].url).toBe(`/note-images/${legacyId}/screenshot.png`)
+            } finally {
+                migratedDb.close()
+            }
+        })
+
+        it('should run only once', async () => {
+            const migratedDb = await openWithLegacyRows(async (legacyDb, runId) => {
+                await saveLegacyResult(legacyDb, runId, legacyId, 'chromium')
+            })
+            // A result recorded with the new scheme (describe path included)
+            const describeId = generateStableTestId({
+                filePath: 'tests/auth.spec.ts',
+                titlePath: ['Admin', 'should login'],
+                project: 'chromium',
+            })
+            const runs = await migratedDb.getAllTestRuns()
+            await saveLegacyResult(migratedDb, runs[0].id, describeId, 'chromium')
+            migratedDb.close()
+
+            const reopenedDb = new DatabaseManager(tempDir)
+            await reopenedDb.initialize()
+
+            try {
+                expect(await reopenedDb.getTestResultsByTestId(describeId)).toHaveLength(1)
+                expect(await reopenedDb.getTestResultsByTestId(chromiumId)).toHaveLength(1)
+            } finally {
+                reopenedDb.close()
+            }
+        })
+        describe('tests inside a describe', () => {
+            const adminId = generateStableTestId({
+                filePath: 'tests/auth.spec.ts',
+                titlePath: ['Admin', 'should login'],
+                project: 'chromium',
+            })
+            const discovered = (testId: string, name = 'should login') => ({
+                testId,
+                filePath: 'tests/auth.spec.ts',
+                name,
+                project: 'chromium',
+            })
+
+            it('should move their history, note and quarantine to the ID discovery finds', async () => {
+                const migratedDb = await openWithLegacyRows(async (legacyDb, runId) => {
+                    await saveLegacyResult(legacyDb, runId, legacyId, 'chromium')
+                    await saveLegacyResult(legacyDb, runId, legacyId, 'chromium')
+                    await legacyDb.saveTestNote({testId: legacyId, content: 'Flaky on CI'})
+                    await legacyDb.saveNoteImage({
+                        id: 'image-1',
+                        testId: legacyId,
+                        fileName: 'screenshot.png',
+                        filePath: `/note-images/${legacyId}/screenshot.png`,
+                        fileSize: 10,
+                        mimeType: 'image/png',
+                        url: `/note-images/${legacyId}/screenshot.png`,
+                    })
+                })
+
+                try {
+                    // The startup migration only knows the title
+                    expect(await migratedDb.getTestResultsByTestId(chromiumId)).toHaveLength(2)
+                    await migratedDb.execute(
+                        'INSERT INTO test_quarantine (test_id, reason) VALUES (?, ?)',
+                        [chromiumId, 'Known flake']
+                    )
+
+                    expect(await migratedDb.adoptLegacyTestIds([discovered(adminId)])).toBe(2)
+
+                    expect(await migratedDb.getTestResultsByTestId(adminId)).toHaveLength(2)
+                    expect(await migratedDb.getTestResultsByTestId(chromiumId)).toHaveLength(0)
+                    expect((await migratedDb.getTestNote(adminId)).content).toBe('Flaky on CI')
+                    expect(await migratedDb.getNoteImages(adminId)).toHaveLength(1)
+                    expect(await migratedDb.getTestNote(chromiumId)).toBeFalsy()
+                    expect(
+                        await migratedDb.queryAll('SELECT test_id FROM test_quarantine')
+                    ).toEqual([{test_id: adminId}])
+
+                    // Nothing is left to move on the next discovery
+                    expect(await migratedDb.adoptLegacyTestIds([discovered(adminId)])).toBe(0)
+                } finally {
+                    migratedDb.close()
+                }
+            })
+
+            it('should keep results other tests report while it moves history', async () => {
+                const migratedDb = await openWithLegacyRows(async (legacyDb, runId) => {
+                    await saveLegacyResult(legacyDb, runId, legacyId, 'chromium')
+                })
+
+                try {
+                    const runId = randomUUID()
+                    await migratedDb.createTestRun({
+                        id: runId,
+                        status: 'running',
+                        totalTests: 2,
+                        passedTests: 0,
+                        failedTests: 0,
+                        skippedTests: 0,
+                        duration: 0,
+                    })
+                    const reported = (testId: string) => ({
+                        id: randomUUID(),
+                        runId,
+                        testId,
+                        name: 'should logout',
+                        filePath: 'tests/auth.spec.ts',
+                        status: 'passed' as const,
+                        duration: 100,
+                    })
+
+                    const [rekeyed] = await Promise.all([
+                        migratedDb.adoptLegacyTestIds([discovered(adminId)]),
+                        migratedDb.saveTestResult(reported('logout-1')),
+                        migratedDb.saveTestResultsBatch([reported('logout-2')]),
+                    ])
+
+                    expect(rekeyed).toBe(1)
+                    expect(await migratedDb.getTestResultsByRun(runId)).toHaveLength(2)
+                } finally {
+                    migratedDb.close()
+                }
+            })
+
+            it('should finish a move cut short on the next discovery', async () => {
+                const migratedDb = await openWithLegacyRows(async (legacyDb, runId) => {
+                    await saveLegacyResult(legacyDb, runId, legacyId, 'chromium')
+                    // The note already moved, its results did not
+                    await legacyDb.saveTestNote({testId: adminId, content: 'Flaky on CI'})
+                })
+
+                try {
+                    expect(await migratedDb.adoptLegacyTestIds([discovered(adminId)])).toBe(1)
+
+                    expect(await migratedDb.getTestResultsByTestId(adminId)).toHaveLength(1)
+                    expect((await migratedDb.getTestNote(adminId)).content).toBe('Flaky on CI')
+                } finally {
+                    migratedDb.close()
+                }
+            })
+
+            it('should leave the history of a top-level test or of an ambiguous title', async () => {
+                const userId = generateStableTestId({
+                    filePath: 'tests/auth.spec.ts',
+                    titlePath: ['User', 'should login'],
+                    project: 'chromium',
+                })
+                const migratedDb = await openWithLegacyRows(async (legacyDb, runId) => {
+                    await saveLegacyResult(legacyDb, runId, legacyId, 'chromium')
+                })
+
+                try {
+                    // Still discovered as a top-level test
+                    expect(
+                        await migratedDb.adoptLegacyTestIds([
+                            discovered(chromiumId),
+                            discovered(adminId),
+                        ])
+                    ).toBe(0)
+                    // The same title in two describes
+                    expect(
+                        await migratedDb.adoptLegacyTestIds([
+                            discovered(adminId),
+                            discovered(userId),
+                        ])
+                    ).toBe(0)
+                    expect(await migratedDb.getTestResultsByTestId(chromiumId)).toHaveLength(1)
+                } finally {
+                    migratedDb.close()
+                }
+            })
+        })
+    })
+
+    describe('Error Signature Migration', () => {
+        let tempDir: string
+
+        beforeEach(() => {
+            tempDir = path.join(os.tmpdir(), `test-db-${randomUUID()}`)
+            fs.mkdirSync(tempDir, {recursive: true})
+        })
+
+        afterEach(() => {
+            fs.rmSync(tempDir, {recursive: true, force: true})
+        })
+
+        it('should compute signatures for failures recorded before they existed', async () => {
+            const legacyDb = new DatabaseManager(tempDir)
+            await legacyDb.initialize()
+            const runId = randomUUID()
+            await legacyDb.createTestRun({
+                id: runId,
+                status: 'completed',
+                totalTests: 0,
+                passedTests: 0,
+                failedTests: 0,
+                skippedTests: 0,
+                duration: 0,
+            })
+            for (const [id, status] of [
+                ['failed-1', 'failed'],
+                ['passed-1', 'passed'],
+            ] as const) {
+                await legacyDb.saveTestResult({
+                    id,
+                    runId,
+                    testId: 'test-1',
+                    name: 'should login',
+                    filePath: 'tests/auth.spec.ts',
+                    status,
+                    duration: 100,
+                    errorMessage: 'Timeout 5000ms exceeded',
+                } as TestResultData)
+            }
+            await legacyDb.execute('PRAGMA user_version = 1')
+            legacyDb.close()
+
+            const migratedDb = new DatabaseManager(tempDir)
+            await migratedDb.initialize()
+
+            try {
+                const rows = await migratedDb.queryAll<{id: string; error_signature: string}>(
+                    'SELECT id, error_signature FROM test_results ORDER BY id'
+                )
+                expect(rows).toEqual([
+                    {id: 'failed-1', error_signature: 'Timeout <n>ms exceeded'},
+                    {id: 'passed-1', error_signature: null},
+                ])
+            } finally {
+                migratedDb.close()
+            }
+        })
+    })
+
+    describe('Interrupted Run Status Migration', () => {
+        let tempDir: string
+
+        beforeEach(() => {
+            tempDir = path.join(os.tmpdir(), `test-db-${randomUUID()}`)
+            fs.mkdirSync(tempDir, {recursive: true})
+        })
+
+        afterEach(() => {
+            fs.rmSync(tempDir, {recursive: true, force: true})
+        })
+
+        it('should rebuild test_runs of older databases without losing runs or results', async () => {
+            const legacyDb = new DatabaseManager(tempDir)
+            await legacyDb.initialize()
+            // test_runs as created before the interrupted status existed
+            await legacyDb.execute('PRAGMA foreign_keys = OFF')
+            await legacyDb.execute('DROP TABLE test_runs')
+            await legacyDb.execute(`CREATE TABLE test_runs (
+                id TEXT PRIMARY KEY,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                status TEXT CHECK(status IN ('running', 'completed', 'failed')) DEFAULT 'running',
+                total_tests INTEGER DEFAULT 0,
+                passed_tests INTEGER DEFAULT 0,
+                failed_tests INTEGER DEFAULT 0,
+                skipped_tests INTEGER DEFAULT 0,
+                duration INTEGER DEFAULT 0,
+                metadata TEXT
+            )`)
+            await legacyDb.execute('PRAGMA foreign_keys = ON')
+            await legacyDb.createTestRun({
+                id: 'run-1',
+                status: 'running',
+                totalTests: 1,
+                passedTests: 0,
+                failedTests: 0,
+                skippedTests: 0,
+                duration: 0,
+            })
+            await legacyDb.saveTestResult({
+                id: 'result-1',
+                runId: 'run-1',
+                testId: 'test-1',
+                name: 'should login',
+                filePath: 'tests/auth.spec.ts',
+                status: 'passed',
+                duration: 100,
+            } as TestResultData)
+            await expect(legacyDb.updateTestRun('run-1', {status: 'interrupted'})).rejects.toThrow(
+                /CHECK constraint/
+            )
+            legacyDb.close()
+
+            const migratedDb = new DatabaseManager(tempDir)
+            await migratedDb.initialize()
+
+            try {
+                await migratedDb.updateTestRun('run-1', {status: 'interrupted'})
+
+                const run = await migratedDb.getTestRun('run-1')
+                expect(run?.status).toBe('interrupted')
+                expect(await migratedDb.getTestResultsByRun('run-1')).toHaveLength(1)
+
+                // Runs are still cascaded to their results
+                await migratedDb.execute('DELETE FROM test_runs WHERE id = ?', ['run-1'])
+                expect(await migratedDb.getTestResultsByRun('run-1')).toHaveLength(0)
+            } finally {
+                migratedDb.close()
+            }
+        })
+    })
 })
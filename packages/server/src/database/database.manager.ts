@@ -1,17 +1,20 @@
 import sqlite3 from 'sqlite3'
 import fs from 'fs'
 import path from 'path'
+import {generateStableTestId} from '@yshvydak/core'
 import {Logger} from '../utils/logger.util'
+import {ErrorSignature} from '../utils/errorSignature.util'
 
 export interface TestRunData {
     id: string
-    status: 'running' | 'completed' | 'failed'
+    status: 'running' | 'completed' | 'failed' | 'interrupted'
     totalTests: number
     passedTests: number
     failedTests: number
     skippedTests: number
     duration: number
     metadata?: any
+    createdAt?: string
 }
 
 export interface TestResultData {
@@ -24,7 +27,9 @@ export interface TestResultData {
     duration: number
     errorMessage?: string
     errorStack?: string
+    errorSignature?: string
     retryCount?: number
+    executionId?: string
     metadata?: any
 }
 
@@ -58,6 +63,8 @@ export class DatabaseManager {
     private db!: sqlite3.Database
     private dbPath: string
     private initializationPromise: Promise<void>
+    // Tail of the BEGIN...COMMIT blocks, see withTransactionLock()
+    private transactionQueue: Promise<unknown> = Promise.resolve()
 
     constructor(outputDir: string) {
         // Handle in-memory database
@@ -206,6 +213,353 @@ export class DatabaseManager {
         } catch (err) {
             Logger.warn('Migration: project backfill failed (non-fatal)', err)
         }
+
+        // Group Playwright retries: attempts share the id of the first attempt
+        try {
+            await new Promise<void>((resolve, reject) => {
+                this.db.run(`ALTER TABLE test_results ADD COLUMN execution_id TEXT`, (err) => {
+                    if (err && !err.message.includes('duplicate column name')) {
+                        reject(err)
+                    } else {
+                        resolve()
+                    }
+                })
+            })
+            await this.run(
+                `CREATE INDEX IF NOT EXISTS idx_test_results_execution_id ON test_results(execution_id)`
+            )
+            Logger.info('Migration: execution_id column ensured on test_results')
+        } catch (err) {
+            Logger.error('Migration: failed to add execution_id column', err)
+            throw err
+        }
+
+        try {
+            await this.migrateStableTestIds()
+        } catch (err) {
+            Logger.error('Migration: failed to re-key test IDs', err)
+            throw err
+        }
+
+        // Failure clustering: normalized error signature of failed results
+        try {
+            await new Promise<void>((resolve, reject) => {
+                this.db.run(`ALTER TABLE test_results ADD COLUMN error_signature TEXT`, (err) => {
+                    if (err && !err.message.includes('duplicate column name')) {
+                        reject(err)
+                    } else {
+                        resolve()
+                    }
+                })
+            })
+            await this.backfillErrorSignatures()
+            Logger.info('Migration: error_signature column ensured on test_results')
+        } catch (err) {
+            Logger.error('Migration: failed to add error_signature column', err)
+            throw err
+        }
+
+        try {
+            await this.allowInterruptedRunStatus()
+        } catch (err) {
+            Logger.error('Migration: failed to allow the interrupted run status', err)
+            throw err
+        }
+
+        // Pipeline re-runs: link to the pipeline they re-ran
+        try {
+            await new Promise<void>((resolve, reject) => {
+                this.db.run(`ALTER TABLE pipeline_runs ADD COLUMN rerun_of TEXT`, (err) => {
+                    if (err && !err.message.includes('duplicate column name')) {
+                        reject(err)
+                    } else {
+                        resolve()
+                    }
+                })
+            })
+            Logger.info('Migration: rerun_of column ensured on pipeline_runs')
+        } catch (err) {
+            Logger.error('Migration: failed to add rerun_of column', err)
+            throw err
+        }
+    }
+
+    /**
+     * Cancelled runs are marked 'interrupted', which the CHECK constraint of
+     * test_runs created before it rejects. SQLite can't alter a constraint, so
+     * the table is rebuilt; foreign keys are off meanwhile so dropping the old
+     * table doesn't cascade to test_results.
+     */
+    private async allowInterruptedRunStatus(): Promise<void> {
+        const table = await this.get(
+            `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'test_runs'`
+        )
+        if (!table || table.sql.includes("'interrupted'")) return
+
+        await this.run('PRAGMA foreign_keys = OFF')
+        try {
+            await this.transaction(async () => {
+                await this.run(
+                    table.sql
+                        .replace(
+                            /CREATE TABLE (IF NOT EXISTS )?test_runs/,
+                            'CREATE TABLE test_runs_new'
+                        )
+                        .replace("'failed'))", "'failed', 'interrupted'))")
+                )
+                await this.run('INSERT INTO test_runs_new SELECT * FROM test_runs')
+                await this.run('DROP TABLE test_runs')
+                await this.run('ALTER TABLE test_runs_new RENAME TO test_runs')
+                await this.run(
+                    'CREATE INDEX IF NOT EXISTS idx_test_runs_status ON test_runs(status)'
+                )
+                await this.run(
+                    'CREATE INDEX IF NOT EXISTS idx_test_runs_created_at ON test_runs(created_at)'
+                )
+                await this.run(
+                    `CREATE TRIGGER IF NOT EXISTS update_test_runs_timestamp
+                        AFTER UPDATE ON test_runs
+                     BEGIN
+                        UPDATE test_runs SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+                     END`
+                )
+            })
+        } finally {
+            await this.run('PRAGMA foreign_keys = ON')
+        }
+
+        Logger.info('Migration: test_runs accepts the interrupted status')
+    }
+
+    // PRAGMA user_version after error signatures were computed for existing failures
+    private static readonly ERROR_SIGNATURES_VERSION = 2
+
+    /**
+     * One-time computation of error_signature for failures recorded before it existed.
+     * New results get theirs from TestService when they are saved.
+     */
+    private async backfillErrorSignatures(): Promise<void> {
+        const {user_version: version} = await this.get('PRAGMA user_version')
+        if (version >= DatabaseManager.ERROR_SIGNATURES_VERSION) return
+
+        const rows: Array<{id: string; error_message: string | null; error_stack: string | null}> =
+            await this.all(
+                `SELECT id, error_message, error_stack FROM test_results
+                 WHERE error_signature IS NULL AND status IN ('failed', 'timedOut')`
+            )
+
+        const updated = await this.transaction(async () => {
+            let updated = 0
+            for (const row of rows) {
+                const signature = ErrorSignature.fromError(row.error_message, row.error_stack)
+                if (!signature) continue
+
+                await this.run('UPDATE test_results SET error_signature = ? WHERE id = ?', [
+                    signature,
+                    row.id,
+                ])
+                updated++
+            }
+
+            await this.run(`PRAGMA user_version = ${DatabaseManager.ERROR_SIGNATURES_VERSION}`)
+            return updated
+        })
+
+        Logger.info(`Migration: computed error signatures for ${updated} failed results`)
+    }
+
+    // PRAGMA user_version after the describe path + project test ID migration
+    private static readonly STABLE_TEST_IDS_VERSION = 1
+
+    /**
+     * One-time re-key of test_id to the scheme from @yshvydak/core.
+     *
+     * Rows recorded before it only know file, title and project, so they are re-keyed
+     * as top-level tests of their project: a test that ran under several projects
+     * gets one history per project, while top-level tests of the default project keep
+     * their ID. A note follows its test - when the test splits across projects the
+     * note is copied to each of them and its images move to the most recently run one.
+     *
+     * Tests inside a describe end up under an ID the reporter no longer produces;
+     * adoptLegacyTestIds() moves them to their real ID once discovery finds them.
+     */
+    private async migrateStableTestIds(): Promise<void> {
+        const {user_version: version} = await this.get('PRAGMA user_version')
+        if (version >= DatabaseManager.STABLE_TEST_IDS_VERSION) return
+
+        const groups: Array<{test_id: string; file_path: string; name: string; project: string}> =
+            await this.all(
+                `SELECT test_id, file_path, name, COALESCE(project, '') AS project
+                 FROM test_results
+                 GROUP BY test_id, file_path, name, COALESCE(project, '')
+                 ORDER BY MAX(created_at) DESC`
+            )
+
+        const rekeyed = await this.transaction(async () => {
+            // Most recently run first, so newIds[0] is where note images end up
+            const newIdsByOldId = new Map<string, string[]>()
+            let rekeyed = 0
+
+            for (const group of groups) {
+                const newId = generateStableTestId({
+                    filePath: group.file_path,
+                    titlePath: [group.name],
+                    project: group.project,
+                })
+
+                const newIds = newIdsByOldId.get(group.test_id) ?? []
+                if (!newIds.includes(newId)) newIds.push(newId)
+                newIdsByOldId.set(group.test_id, newIds)
+
+                if (newId === group.test_id) continue
+
+                const result = await this.run(
+                    `UPDATE test_results SET test_id = ?
+                     WHERE test_id = ? AND file_path = ? AND name = ? AND COALESCE(project, '') = ?`,
+                    [newId, group.test_id, group.file_path, group.name, group.project]
+                )
+                rekeyed += result.changes
+            }
+
+            for (const [oldId, newIds] of newIdsByOldId) {
+                const note = await this.get('SELECT test_id FROM test_notes WHERE test_id = ?', [
+                    oldId,
+                ])
+                if (!note || (newIds.length === 1 && newIds[0] === oldId)) continue
+
+                for (const newId of newIds.filter((id) => id !== oldId)) {
+                    await this.run(
+                        `INSERT OR IGNORE INTO test_notes (test_id, content, created_at, updated_at)
+                         SELECT ?, content, created_at, updated_at FROM test_notes WHERE test_id = ?`,
+                        [newId, oldId]
+                    )
+                }
+
+                if (!newIds.includes(oldId)) {
+                    // Image files stay where they are, so URLs embedded in the note keep working
+                    await this.run('UPDATE note_images SET test_id = ? WHERE test_id = ?', [
+                        newIds[0],
+                        oldId,
+                    ])
+                    await this.run('DELETE FROM test_notes WHERE test_id = ?', [oldId])
+                }
+            }
+
+            await this.run(`PRAGMA user_version = ${DatabaseManager.STABLE_TEST_IDS_VERSION}`)
+            return rekeyed
+        })
+
+        Logger.info(`Migration: re-keyed ${rekeyed} test results to stable test IDs`)
+    }
+
+    /**
+     * Moves the history of tests inside a describe off the top-level ID the stable
+     * test ID migration gave them, onto the ID discovery found for them (matched by
+     * file, title and project). Only IDs no discovered test produces are moved, with
+     * the note, its images and the quarantine of the test. Titles used in several
+     * describes of a file are left alone: the legacy IDs already merged their history.
+     * Returns the number of re-keyed results; nothing is left to move after the first
+     * discovery of a project.
+     *
+     * Discovery runs while other tests report results, which would join a transaction
+     * of its own and go with its rollback. So the moves run without one, results last:
+     * a move cut short keeps its legacy results and is finished by the next discovery.
+     */
+    async adoptLegacyTestIds(
+        tests: Array<{testId: string; filePath: string; name: string; project?: string}>
+    ): Promise<number> {
+        const discoveredIds = new Set(tests.map((test) => test.testId))
+        const targetsByLegacyId = new Map<string, Set<string>>()
+        for (const test of tests) {
+            const legacyId = generateStableTestId({
+                filePath: test.filePath,
+                titlePath: [test.name],
+                project: test.project,
+            })
+            if (discoveredIds.has(legacyId)) continue
+            const targets = targetsByLegacyId.get(legacyId) ?? new Set<string>()
+            targets.add(test.testId)
+            targetsByLegacyId.set(legacyId, targets)
+        }
+
+        const candidates = [...targetsByLegacyId]
+            .filter(([, targets]) => targets.size === 1)
+            .map(([legacyId, targets]) => [legacyId, [...targets][0]] as const)
+        if (candidates.length === 0) return 0
+
+        // SQLite has a limit on variables, so query in batches
+        const BATCH_SIZE = 900
+        const recordedIds = new Set<string>()
+        for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+            const batch = candidates.slice(i, i + BATCH_SIZE).map(([legacyId]) => legacyId)
+            const rows: Array<{test_id: string}> = await this.all(
+                `SELECT DISTINCT test_id FROM test_results
+                 WHERE test_id IN (${batch.map(() => '?').join(',')})`,
+                batch
+            )
+            rows.forEach((row) => recordedIds.add(row.test_id))
+        }
+
+        const moves = candidates.filter(([legacyId]) => recordedIds.has(legacyId))
+        if (moves.length === 0) return 0
+
+        const rekeyed = await this.withTransactionLock(async () => {
+            let rekeyed = 0
+            for (const [legacyId, testId] of moves) {
+                // A note the test already has under its new ID wins
+                await this.run(
+                    `INSERT OR IGNORE INTO test_notes (test_id, content, created_at, updated_at)
+                     SELECT ?, content, created_at, updated_at FROM test_notes WHERE test_id = ?`,
+                    [testId, legacyId]
+                )
+                await this.run('UPDATE note_images SET test_id = ? WHERE test_id = ?', [
+                    testId,
+                    legacyId,
+                ])
+                await this.run('DELETE FROM test_notes WHERE test_id = ?', [legacyId])
+
+                await this.run(
+                    'UPDATE OR IGNORE test_quarantine SET test_id = ? WHERE test_id = ?',
+                    [testId, legacyId]
+                )
+                await this.run('DELETE FROM test_quarantine WHERE test_id = ?', [legacyId])
+
+                const result = await this.run(
+                    'UPDATE test_results SET test_id = ? WHERE test_id = ?',
+                    [testId, legacyId]
+                )
+                rekeyed += result.changes
+            }
+            return rekeyed
+        })
+
+        Logger.info(`Migration: moved ${rekeyed} test results to the IDs of their describe`)
+        return rekeyed
+    }
+
+    /**
+     * The database is a single connection, so an open transaction takes in every
+     * statement sent meanwhile. BEGIN...COMMIT blocks queue here to run one at a time
+     * instead of one block committing or rolling back another.
+     */
+    private withTransactionLock<T>(work: () => Promise<T>): Promise<T> {
+        const result = this.transactionQueue.then(work)
+        this.transactionQueue = result.catch(() => {})
+        return result
+    }
+
+    private transaction<T>(work: () => Promise<T>): Promise<T> {
+        return this.withTransactionLock(async () => {
+            await this.run('BEGIN IMMEDIATE TRANSACTION')
+            try {
+                const result = await work()
+                await this.run('COMMIT')
+                return result
+            } catch (err) {
+                await this.run('ROLLBACK').catch(() => {})
+                throw err
+            }
+        })
     }
 
     // Helper method to promisify database operations
@@ -247,9 +601,11 @@ export class DatabaseManager {
 
     // Test Runs
     async createTestRun(runData: TestRunData): Promise<void> {
+        // Imported runs keep their original start time, stored in CURRENT_TIMESTAMP format
+        const createdAt = runData.createdAt ? new Date(runData.createdAt) : null
         const sql = `
-            INSERT INTO test_runs (id, status, total_tests, passed_tests, failed_tests, skipped_tests, duration, metadata)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            INSERT INTO test_runs (id, status, total_tests, passed_tests, failed_tests, skipped_tests, duration, metadata, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
         `
 
         await this.run(sql, [
@@ -261,6 +617,9 @@ export class DatabaseManager {
             runData.skippedTests,
             runData.duration,
             runData.metadata ? JSON.stringify(runData.metadata) : null,
+            createdAt && !isNaN(createdAt.getTime())
+                ? createdAt.toISOString().replace('T', ' ').slice(0, 19)
+                : null,
         ])
     }
 
@@ -337,16 +696,16 @@ export class DatabaseManager {
     }
 
     // Test Results
-    async saveTestResult(
-        testData: TestResultData & {timestamp?: string; project?: string}
-    ): Promise<string> {
-        const timestamp = (testData as any).timestamp || new Date().toISOString()
-        const insertSql = `
+    private static readonly INSERT_TEST_RESULT_SQL = `
             INSERT INTO test_results
-            (id, run_id, test_id, name, file_path, status, duration, error_message, error_stack, retry_count, project, metadata, created_at, updated_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            (id, run_id, test_id, name, file_path, status, duration, error_message, error_stack, error_signature, retry_count, execution_id, project, metadata, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `
-        await this.run(insertSql, [
+
+    private testResultParams(testData: TestResultData & {timestamp?: string; project?: string}) {
+        const timestamp = (testData as any).timestamp || new Date().toISOString()
+
+        return [
             testData.id,
             testData.runId,
             testData.testId,
@@ -356,16 +715,78 @@ export class DatabaseManager {
             testData.duration,
             testData.errorMessage || null,
             testData.errorStack || null,
+            testData.errorSignature || null,
             testData.retryCount || 0,
+            testData.executionId || null,
             (testData as any).project || '',
             testData.metadata ? JSON.stringify(testData.metadata) : null,
             timestamp, // Use timestamp from reporter (already in UTC ISO format)
             timestamp, // Set both created_at and updated_at to the same value
-        ])
+        ]
+    }
+
+    async saveTestResult(
+        testData: TestResultData & {timestamp?: string; project?: string}
+    ): Promise<string> {
+        await this.run(DatabaseManager.INSERT_TEST_RESULT_SQL, this.testResultParams(testData))
 
         return testData.id
     }
 
+    /**
+     * Insert many test results in a single transaction.
+     *
+     * The inserts and COMMIT are queued inside db.serialize() so nothing from
+     * concurrent requests can interleave with the batch. A failing INSERT (duplicate
+     * id, unknown run_id) only rolls back that statement, so every item gets its own
+     * outcome and the rest of the batch is still committed. When BEGIN fails the
+     * inserts run in autocommit mode, with no COMMIT that could end someone else's
+     * transaction.
+     */
+    saveTestResultsBatch(
+        results: Array<TestResultData & {timestamp?: string; project?: string}>
+    ): Promise<Array<{id: string; error?: string}>> {
+        return this.withTransactionLock(async () => {
+            let inTransaction = true
+            await this.run('BEGIN IMMEDIATE TRANSACTION').catch((error: Error) => {
+                Logger.warn('Batch insert runs without a transaction:', error.message)
+                inTransaction = false
+            })
+
+            return new Promise<Array<{id: string; error?: string}>>((resolve, reject) => {
+                const outcomes: Array<{id: string; error?: string}> = results.map((testData) => ({
+                    id: testData.id,
+                }))
+
+                this.db.serialize(() => {
+                    results.forEach((testData, index) => {
+                        this.db.run(
+                            DatabaseManager.INSERT_TEST_RESULT_SQL,
+                            this.testResultParams(testData),
+                            (error) => {
+                                if (error) outcomes[index].error = error.message
+                            }
+                        )
+                    })
+
+                    if (!inTransaction) {
+                        // Runs once the queued inserts are done
+                        this.db.run('SELECT 1', () => resolve(outcomes))
+                        return
+                    }
+
+                    this.db.run('COMMIT', (error) => {
+                        if (error) {
+                            this.db.run('ROLLBACK', () => reject(error))
+                        } else {
+                            resolve(outcomes)
+                        }
+                    })
+                })
+            })
+        })
+    }
+
     async getTestResult(testResultId: string): Promise<any> {
         const sql = 'SELECT * FROM test_results WHERE id = ?'
         const row = await this.get(sql, [testResultId])
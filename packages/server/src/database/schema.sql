@@ -6,7 +6,7 @@ CREATE TABLE IF NOT EXISTS test_runs (
     id TEXT PRIMARY KEY,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    status TEXT CHECK(status IN ('running', 'completed', 'failed')) DEFAULT 'running',
+    status TEXT CHECK(status IN ('running', 'completed', 'failed', 'interrupted')) DEFAULT 'running',
     total_tests INTEGER DEFAULT 0,
     passed_tests INTEGER DEFAULT 0,
     failed_tests INTEGER DEFAULT 0,
@@ -28,6 +28,8 @@ CREATE TABLE IF NOT EXISTS test_results (
     error_stack TEXT,
     retry_count INTEGER DEFAULT 0,
     project TEXT DEFAULT '',
+    execution_id TEXT, -- id of the first attempt; groups Playwright retries into one execution (NULL = own id)
+    error_signature TEXT, -- normalized error (see ErrorSignature) that groups failures with the same cause
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     metadata TEXT -- JSON string for test steps, annotations, etc.
@@ -66,6 +68,15 @@ CREATE TABLE IF NOT EXISTS note_images (
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Test quarantine (known-flaky tests whose failures don't fail the pipeline).
+-- expires_at is an ISO timestamp; NULL keeps the test quarantined until released.
+CREATE TABLE IF NOT EXISTS test_quarantine (
+    test_id TEXT PRIMARY KEY,
+    reason TEXT NOT NULL CHECK(length(reason) <= 500),
+    expires_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Attachment cleanups (executions whose attachments were stripped to free disk space).
 -- The test_results row is intentionally KEPT so the timeline and execution history
 -- survive; this table only records that the artifacts (video/trace/screenshot/log)
@@ -84,9 +95,87 @@ CREATE TABLE IF NOT EXISTS app_settings (
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Outgoing webhooks. events is a JSON array of event names; format is the body sent
+-- ('json' envelope, or a 'slack' / 'teams' chat message); template is an optional
+-- JSON body with {{path}} placeholders (the default body is sent when NULL).
+CREATE TABLE IF NOT EXISTS webhooks (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    secret TEXT,
+    events TEXT NOT NULL,
+    format TEXT NOT NULL DEFAULT 'json' CHECK(format IN ('json', 'slack', 'teams')),
+    template TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Delivery log of each webhook (latest deliveries only, older ones are pruned)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    status TEXT NOT NULL CHECK(status IN ('pending', 'success', 'failed')),
+    attempts INTEGER DEFAULT 0,
+    response_status INTEGER,
+    error TEXT,
+    payload TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    completed_at DATETIME
+);
+
+-- Cron schedules starting a project tab run, or the whole CI pipeline when project is NULL
+CREATE TABLE IF NOT EXISTS schedules (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    cron TEXT NOT NULL,
+    project TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    last_run_at DATETIME,
+    last_status TEXT CHECK(last_status IN ('started', 'skipped', 'failed')),
+    last_message TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Run-all and pipeline requests waiting for the running tests to finish.
+-- Started by priority, then first in first out; a started item is deleted
+CREATE TABLE IF NOT EXISTS run_queue (
+    id TEXT PRIMARY KEY,
+    kind TEXT NOT NULL CHECK(kind IN ('run-all', 'pipeline')),
+    project TEXT,
+    max_workers INTEGER,
+    skip_auto_discovery INTEGER NOT NULL DEFAULT 0,
+    source TEXT,
+    priority TEXT NOT NULL DEFAULT 'normal' CHECK(priority IN ('high', 'normal', 'low')),
+    created_at TEXT NOT NULL
+);
+
+-- Processes the dashboard tracks as running, so the state survives a server restart
+CREATE TABLE IF NOT EXISTS active_processes (
+    run_id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    details TEXT NOT NULL, -- JSON, with the pid of processes the dashboard spawned
+    started_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- CI pipeline runs: steps are stored as JSON, as broadcast to clients
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    steps TEXT NOT NULL, -- JSON
+    source TEXT,
+    rerun_of TEXT, -- pipeline whose failed or remaining steps this one re-ran
+    started_at TEXT NOT NULL,
+    finished_at TEXT
+);
+
 -- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_test_runs_status ON test_runs(status);
 CREATE INDEX IF NOT EXISTS idx_test_runs_created_at ON test_runs(created_at);
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_started_at ON pipeline_runs(started_at);
 
 CREATE INDEX IF NOT EXISTS idx_test_results_run_id ON test_results(run_id);
 CREATE INDEX IF NOT EXISTS idx_test_results_test_id ON test_results(test_id);
@@ -108,6 +197,8 @@ CREATE INDEX IF NOT EXISTS idx_note_images_test_id ON note_images(test_id);
 
 CREATE INDEX IF NOT EXISTS idx_app_settings_updated_at ON app_settings(updated_at);
 
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at DESC);
+
 -- Triggers to update timestamps
 CREATE TRIGGER IF NOT EXISTS update_test_runs_timestamp 
     AFTER UPDATE ON test_runs
@@ -132,3 +223,16 @@ CREATE TRIGGER IF NOT EXISTS update_app_settings_timestamp
 BEGIN
     UPDATE app_settings SET updated_at = CURRENT_TIMESTAMP WHERE key = NEW.key;
 END;
+
+CREATE TRIGGER IF NOT EXISTS update_webhooks_timestamp
+    AFTER UPDATE ON webhooks
+BEGIN
+    UPDATE webhooks SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
+
+-- Recording a schedule's last run doesn't count as editing it
+CREATE TRIGGER IF NOT EXISTS update_schedules_timestamp
+    AFTER UPDATE OF name, cron, project, enabled ON schedules
+BEGIN
+    UPDATE schedules SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
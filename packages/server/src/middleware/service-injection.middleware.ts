@@ -8,6 +8,12 @@ import {StorageRepository} from '../repositories/storage.repository'
 import {NoteRepository} from '../repositories/note.repository'
 import {NoteImageRepository} from '../repositories/noteImage.repository'
 import {SettingsRepository} from '../repositories/settings.repository'
+import {QuarantineRepository} from '../repositories/quarantine.repository'
+import {WebhookRepository} from '../repositories/webhook.repository'
+import {ScheduleRepository} from '../repositories/schedule.repository'
+import {RunQueueRepository} from '../repositories/runQueue.repository'
+import {ActiveProcessRepository} from '../repositories/activeProcess.repository'
+import {PipelineRunRepository} from '../repositories/pipelineRun.repository'
 import {TestService} from '../services/test.service'
 import {PlaywrightService} from '../services/playwright.service'
 import {WebSocketService} from '../services/websocket.service'
@@ -18,6 +24,17 @@ import {NoteService} from '../services/note.service'
 import {NoteImageService} from '../services/noteImage.service'
 import {SettingsService} from '../services/settings.service'
 import {PipelineExecutionService} from '../services/pipelineExecution.service'
+import {ReportImportService} from '../services/reportImport.service'
+import {RunComparisonService} from '../services/runComparison.service'
+import {FailureGroupService} from '../services/failureGroup.service'
+import {DurationStatsService} from '../services/durationStats.service'
+import {FlakinessService} from '../services/flakiness.service'
+import {QuarantineService} from '../services/quarantine.service'
+import {WebhookService} from '../services/webhook.service'
+import {ScheduleService} from '../services/schedule.service'
+import {RunQueueService} from '../services/runQueue.service'
+import {RunLogService} from '../services/runLog.service'
+import {ProcessRecoveryService} from '../services/processRecovery.service'
 import {AttachmentManager} from '../storage/attachmentManager'
 import {config} from '../config/environment.config'
 
@@ -32,6 +49,12 @@ export interface ServiceContainer {
     noteRepository: NoteRepository
     noteImageRepository: NoteImageRepository
     settingsRepository: SettingsRepository
+    quarantineRepository: QuarantineRepository
+    webhookRepository: WebhookRepository
+    scheduleRepository: ScheduleRepository
+    runQueueRepository: RunQueueRepository
+    activeProcessRepository: ActiveProcessRepository
+    pipelineRunRepository: PipelineRunRepository
     testService: TestService
     playwrightService: PlaywrightService
     websocketService: WebSocketService
@@ -42,6 +65,17 @@ export interface ServiceContainer {
     noteImageService: NoteImageService
     settingsService: SettingsService
     pipelineExecutionService: PipelineExecutionService
+    reportImportService: ReportImportService
+    runComparisonService: RunComparisonService
+    failureGroupService: FailureGroupService
+    durationStatsService: DurationStatsService
+    flakinessService: FlakinessService
+    quarantineService: QuarantineService
+    webhookService: WebhookService
+    scheduleService: ScheduleService
+    runQueueService: RunQueueService
+    runLogService: RunLogService
+    processRecoveryService: ProcessRecoveryService
 }
 
 // Create service container
@@ -62,16 +96,32 @@ export async function createServiceContainer(): Promise<ServiceContainer> {
     const noteRepository = new NoteRepository(dbManager)
     const noteImageRepository = new NoteImageRepository(dbManager)
     const settingsRepository = new SettingsRepository(dbManager)
+    const quarantineRepository = new QuarantineRepository(dbManager)
+    const webhookRepository = new WebhookRepository(dbManager)
+    const scheduleRepository = new ScheduleRepository(dbManager)
+    const runQueueRepository = new RunQueueRepository(dbManager)
+    const activeProcessRepository = new ActiveProcessRepository(dbManager)
+    const pipelineRunRepository = new PipelineRunRepository(dbManager)
 
     // Initialize services
     const websocketService = new WebSocketService()
-    const playwrightService = new PlaywrightService()
+    const runLogService = new RunLogService(websocketService)
+    const playwrightService = new PlaywrightService(runLogService)
     const attachmentService = new AttachmentService(attachmentRepository)
     const storageService = new StorageService(storageRepository)
     const authService = new AuthService()
     const noteImageService = new NoteImageService(noteImageRepository, noteRepository)
     const noteService = new NoteService(noteRepository, noteImageService)
     const settingsService = new SettingsService(settingsRepository, playwrightService)
+    const quarantineService = new QuarantineService(quarantineRepository, testRepository)
+    const runComparisonService = new RunComparisonService(testRepository)
+    const webhookService = new WebhookService(
+        webhookRepository,
+        runRepository,
+        testRepository,
+        runComparisonService,
+        settingsRepository
+    )
     const testService = new TestService(
         testRepository,
         runRepository,
@@ -80,14 +130,43 @@ export async function createServiceContainer(): Promise<ServiceContainer> {
         attachmentService,
         noteService,
         settingsService,
-        attachmentCleanupRepository
+        attachmentCleanupRepository,
+        quarantineService,
+        runLogService
     )
     const pipelineExecutionService = new PipelineExecutionService(
         testService,
         settingsService,
         runRepository,
+        websocketService,
+        quarantineService,
+        webhookService,
+        pipelineRunRepository
+    )
+    const scheduleService = new ScheduleService(
+        scheduleRepository,
+        settingsService,
+        testService,
+        pipelineExecutionService
+    )
+    const runQueueService = new RunQueueService(
+        runQueueRepository,
+        testService,
+        pipelineExecutionService,
+        settingsService,
+        websocketService
+    )
+    const processRecoveryService = new ProcessRecoveryService(
+        activeProcessRepository,
+        pipelineRunRepository,
+        runRepository,
+        testRepository,
         websocketService
     )
+    const reportImportService = new ReportImportService(runRepository, testService)
+    const failureGroupService = new FailureGroupService(testRepository)
+    const durationStatsService = new DurationStatsService(testRepository)
+    const flakinessService = new FlakinessService(testRepository)
 
     return {
         testRepository,
@@ -98,6 +177,12 @@ export async function createServiceContainer(): Promise<ServiceContainer> {
         noteRepository,
         noteImageRepository,
         settingsRepository,
+        quarantineRepository,
+        webhookRepository,
+        scheduleRepository,
+        runQueueRepository,
+        activeProcessRepository,
+        pipelineRunRepository,
         testService,
         playwrightService,
         websocketService,
@@ -108,6 +193,17 @@ export async function createServiceContainer(): Promise<ServiceContainer> {
         noteImageService,
         settingsService,
         pipelineExecutionService,
+        reportImportService,
+        runComparisonService,
+        failureGroupService,
+        durationStatsService,
+        flakinessService,
+        quarantineService,
+        webhookService,
+        scheduleService,
+        runQueueService,
+        runLogService,
+        processRecoveryService,
     }
 }
 
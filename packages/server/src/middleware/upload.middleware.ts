@@ -28,3 +28,16 @@ export const upload = multer({
 
 // Middleware for single image upload
 export const uploadSingleImage = upload.single('image')
+
+// Report imports: a Playwright JSON / JUnit XML report and an optional zip of attachments
+const reportUpload = multer({
+    storage,
+    limits: {
+        fileSize: 200 * 1024 * 1024, // 200MB, attachment zips include videos and traces
+    },
+})
+
+export const uploadReportFiles = reportUpload.fields([
+    {name: 'report', maxCount: 1},
+    {name: 'attachments', maxCount: 1},
+])
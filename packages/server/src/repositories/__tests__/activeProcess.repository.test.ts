@@ -0,0 +1,77 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {ActiveProcessRepository} from '../activeProcess.repository'
+import {DatabaseManager} from '../../database/database.manager'
+
+describe('ActiveProcessRepository', () => {
+    let repository: ActiveProcessRepository
+    let dbManager: DatabaseManager
+
+    beforeEach(async () => {
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        repository = new ActiveProcessRepository(dbManager)
+    })
+
+    afterEach(async () => {
+        dbManager.close()
+    })
+
+    it('should round-trip a process without its progress', async () => {
+        await repository.save({
+            id: 'run-1',
+            type: 'run-group',
+            startedAt: '2025-01-01T10:00:00.000Z',
+            details: {runId: 'run-1', filePath: 'a.spec.ts', project: 'chromium', pid: 4242},
+            progress: {
+                processId: 'run-1',
+                type: 'run-group',
+                totalTests: 3,
+                completedTests: 1,
+                passedTests: 1,
+                failedTests: 0,
+                skippedTests: 0,
+                runningTests: [],
+                startTime: 0,
+            },
+        })
+
+        expect(await repository.getAll()).toEqual([
+            {
+                id: 'run-1',
+                type: 'run-group',
+                startedAt: '2025-01-01T10:00:00.000Z',
+                details: {runId: 'run-1', filePath: 'a.spec.ts', project: 'chromium', pid: 4242},
+            },
+        ])
+    })
+
+    it('should replace a saved process and list them oldest first', async () => {
+        const process = (id: string, startedAt: string) => ({
+            id,
+            type: 'run-all' as const,
+            startedAt,
+            details: {runId: id},
+        })
+        await repository.save(process('later', '2025-01-01T10:00:02.000Z'))
+        await repository.save(process('first', '2025-01-01T10:00:01.000Z'))
+        await repository.save({...process('first', '2025-01-01T10:00:01.000Z'), type: 'rerun'})
+
+        const processes = await repository.getAll()
+        expect(processes.map((p) => [p.id, p.type])).toEqual([
+            ['first', 'rerun'],
+            ['later', 'run-all'],
+        ])
+    })
+
+    it('should delete one process or all of them', async () => {
+        for (const id of ['a', 'b', 'c']) {
+            await repository.save({id, type: 'run-all', startedAt: '', details: {runId: id}})
+        }
+
+        await repository.delete('a')
+        expect((await repository.getAll()).map((p) => p.id)).toEqual(['b', 'c'])
+
+        await repository.clear()
+        expect(await repository.getAll()).toEqual([])
+    })
+})
@@ -0,0 +1,88 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {PipelineRunRepository} from '../pipelineRun.repository'
+import {DatabaseManager} from '../../database/database.manager'
+import type {PipelineState} from '../../services/pipelineExecution.service'
+
+const pipeline = (id: string, overrides: Partial<PipelineState> = {}): PipelineState => ({
+    pipelineRunId: id,
+    status: 'running',
+    steps: [
+        {
+            project: 'API',
+            displayName: 'API Tests',
+            stopOnFailure: true,
+            status: 'success',
+            runId: 'run-1',
+            passed: 5,
+            failed: 0,
+        },
+        {project: 'Web', displayName: 'Web Tests', stopOnFailure: false, status: 'queued'},
+    ],
+    startedAt: '2025-01-01T10:00:00.000Z',
+    ...overrides,
+})
+
+describe('PipelineRunRepository', () => {
+    let repository: PipelineRunRepository
+    let dbManager: DatabaseManager
+
+    beforeEach(async () => {
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        repository = new PipelineRunRepository(dbManager)
+    })
+
+    afterEach(async () => {
+        dbManager.close()
+    })
+
+    it('should round-trip a pipeline with its steps', async () => {
+        const state = pipeline('p1', {
+            status: 'completed',
+            source: 'schedule',
+            rerunOf: 'p0',
+            finishedAt: '2025-01-01T10:05:00.000Z',
+        })
+
+        await repository.savePipelineRun(state)
+
+        expect(await repository.getPipelineRun('p1')).toEqual(state)
+    })
+
+    it('should update a pipeline saved before', async () => {
+        await repository.savePipelineRun(pipeline('p1'))
+        await repository.savePipelineRun(pipeline('p1', {status: 'stopped_early'}))
+
+        expect((await repository.getPipelineRun('p1'))?.status).toBe('stopped_early')
+    })
+
+    it('should return null for an unknown pipeline', async () => {
+        expect(await repository.getPipelineRun('missing')).toBeNull()
+    })
+
+    it('should list the newest pipelines first', async () => {
+        for (const [id, second] of [
+            ['first', 1],
+            ['third', 3],
+            ['second', 2],
+        ] as const) {
+            await repository.savePipelineRun(
+                pipeline(id, {startedAt: `2025-01-01T10:00:0${second}.000Z`})
+            )
+        }
+
+        const pipelines = await repository.getPipelineRuns(2)
+        expect(pipelines.map((p) => p.pipelineRunId)).toEqual(['third', 'second'])
+    })
+
+    it('should list only the pipelines still running', async () => {
+        await repository.savePipelineRun(pipeline('done', {status: 'completed'}))
+        await repository.savePipelineRun(
+            pipeline('second', {startedAt: '2025-01-01T10:00:02.000Z'})
+        )
+        await repository.savePipelineRun(pipeline('first', {startedAt: '2025-01-01T10:00:01.000Z'}))
+
+        const running = await repository.getRunningPipelineRuns()
+        expect(running.map((p) => p.pipelineRunId)).toEqual(['first', 'second'])
+    })
+})
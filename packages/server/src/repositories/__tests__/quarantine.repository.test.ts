@@ -0,0 +1,148 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {QuarantineRepository} from '../quarantine.repository'
+import {TestRepository} from '../test.repository'
+import {DatabaseManager} from '../../database/database.manager'
+
+const FUTURE = '2099-01-01T00:00:00.000Z'
+const PAST = '2020-01-01T00:00:00.000Z'
+
+describe('QuarantineRepository', () => {
+    let quarantineRepository: QuarantineRepository
+    let testRepository: TestRepository
+    let dbManager: DatabaseManager
+
+    const insertResult = async (
+        id: string,
+        testId: string,
+        project: string,
+        status: 'passed' | 'failed' | 'timedOut',
+        options: {runId?: string; retryCount?: number; executionId?: string} = {}
+    ) => {
+        await testRepository.saveTestResult({
+            id,
+            runId: options.runId ?? 'run-1',
+            testId,
+            name: `${testId} title`,
+            filePath: 'tests/example.spec.ts',
+            status: status as any,
+            duration: 100,
+            project,
+            retryCount: options.retryCount,
+            executionId: options.executionId,
+        } as any)
+    }
+
+    beforeEach(async () => {
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        quarantineRepository = new QuarantineRepository(dbManager)
+        testRepository = new TestRepository(dbManager)
+
+        await dbManager.createTestRun({
+            id: 'run-1',
+            status: 'completed',
+            totalTests: 0,
+            passedTests: 0,
+            failedTests: 0,
+            skippedTests: 0,
+            duration: 0,
+        })
+    })
+
+    afterEach(async () => {
+        await dbManager.close()
+    })
+
+    describe('saveQuarantine() / getQuarantine()', () => {
+        it('should save and return an active quarantine', async () => {
+            await quarantineRepository.saveQuarantine('test-1', 'Known flake', FUTURE)
+
+            const quarantine = await quarantineRepository.getQuarantine('test-1')
+
+            expect(quarantine).toMatchObject({
+                testId: 'test-1',
+                reason: 'Known flake',
+                expiresAt: FUTURE,
+            })
+            expect(quarantine?.createdAt).toBeDefined()
+        })
+
+        it('should replace the reason and expiry of an existing quarantine', async () => {
+            await quarantineRepository.saveQuarantine('test-1', 'Known flake', FUTURE)
+            await quarantineRepository.saveQuarantine('test-1', 'Waiting for fix', null)
+
+            const quarantine = await quarantineRepository.getQuarantine('test-1')
+
+            expect(quarantine?.reason).toBe('Waiting for fix')
+            expect(quarantine?.expiresAt).toBeUndefined()
+        })
+
+        it('should not return an expired quarantine', async () => {
+            await quarantineRepository.saveQuarantine('test-1', 'Known flake', PAST)
+
+            expect(await quarantineRepository.getQuarantine('test-1')).toBeNull()
+        })
+    })
+
+    describe('deleteQuarantine()', () => {
+        it('should release the test', async () => {
+            await quarantineRepository.saveQuarantine('test-1', 'Known flake', null)
+
+            await quarantineRepository.deleteQuarantine('test-1')
+
+            expect(await quarantineRepository.getQuarantine('test-1')).toBeNull()
+        })
+    })
+
+    describe('getActiveQuarantines()', () => {
+        it('should list active quarantines with the latest execution details', async () => {
+            await insertResult('r1', 'test-1', 'API_Tests', 'failed')
+            await insertResult('r2', 'test-2', 'Web', 'passed')
+            await quarantineRepository.saveQuarantine('test-1', 'Known flake', null)
+            await quarantineRepository.saveQuarantine('test-2', 'Known flake', FUTURE)
+            await quarantineRepository.saveQuarantine('test-3', 'Expired', PAST)
+
+            const all = await quarantineRepository.getActiveQuarantines()
+            const apiOnly = await quarantineRepository.getActiveQuarantines('API_Tests')
+
+            expect(all.map((test) => test.testId).sort()).toEqual(['test-1', 'test-2'])
+            expect(apiOnly).toEqual([
+                expect.objectContaining({
+                    testId: 'test-1',
+                    name: 'test-1 title',
+                    filePath: 'tests/example.spec.ts',
+                    project: 'API_Tests',
+                }),
+            ])
+        })
+    })
+
+    describe('TestRepository.getQuarantinedFailureCount()', () => {
+        it('should count failed last attempts of quarantined tests in the run', async () => {
+            await insertResult('r1', 'test-1', 'API_Tests', 'failed')
+            await insertResult('r2', 'test-2', 'API_Tests', 'failed')
+            await insertResult('r3', 'test-3', 'API_Tests', 'failed')
+            // Failed first attempt, passed on retry: not a failure
+            await insertResult('r4', 'test-4', 'API_Tests', 'failed')
+            await insertResult('r5', 'test-4', 'API_Tests', 'passed', {
+                retryCount: 1,
+                executionId: 'r4',
+            })
+            await quarantineRepository.saveQuarantine('test-1', 'Known flake', null)
+            await quarantineRepository.saveQuarantine('test-2', 'Known flake', FUTURE)
+            await quarantineRepository.saveQuarantine('test-3', 'Expired', PAST)
+            await quarantineRepository.saveQuarantine('test-4', 'Known flake', null)
+
+            expect(await testRepository.getQuarantinedFailureCount('run-1')).toBe(2)
+        })
+
+        it('should not let a quarantined timeout cancel out a real failure', async () => {
+            // The reporter's failedTests counts the failure only, not the timeout
+            await insertResult('r1', 'test-1', 'API_Tests', 'timedOut')
+            await insertResult('r2', 'test-2', 'API_Tests', 'failed')
+            await quarantineRepository.saveQuarantine('test-1', 'Known flake', null)
+
+            expect(await testRepository.getQuarantinedFailureCount('run-1')).toBe(0)
+        })
+    })
+})
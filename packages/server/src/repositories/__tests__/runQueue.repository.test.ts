@@ -0,0 +1,64 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {RunQueueRecord, RunQueueRepository} from '../runQueue.repository'
+import {DatabaseManager} from '../../database/database.manager'
+
+const item = (id: string, overrides: Partial<RunQueueRecord> = {}): RunQueueRecord => ({
+    id,
+    kind: 'run-all',
+    project: 'chromium',
+    priority: 'normal',
+    skipAutoDiscovery: false,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    ...overrides,
+})
+
+describe('RunQueueRepository', () => {
+    let repository: RunQueueRepository
+    let dbManager: DatabaseManager
+
+    beforeEach(async () => {
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        repository = new RunQueueRepository(dbManager)
+    })
+
+    afterEach(async () => {
+        dbManager.close()
+    })
+
+    it('should round-trip a queued run', async () => {
+        const record = item('queued-1', {maxWorkers: 4, skipAutoDiscovery: true, source: 'script'})
+
+        await repository.enqueue(record)
+
+        expect(await repository.getItem('queued-1')).toEqual(record)
+    })
+
+    it('should order the queue by priority, then first in first out', async () => {
+        await repository.enqueue(item('low', {priority: 'low'}))
+        await repository.enqueue(item('second', {createdAt: '2025-01-01T10:00:02.000Z'}))
+        await repository.enqueue(item('first', {createdAt: '2025-01-01T10:00:01.000Z'}))
+        await repository.enqueue(item('high', {priority: 'high', kind: 'pipeline'}))
+
+        const queue = await repository.getQueue()
+
+        expect(queue.map((record) => record.id)).toEqual(['high', 'first', 'second', 'low'])
+    })
+
+    it('should find the queued run for the same target', async () => {
+        await repository.enqueue(item('chromium'))
+        await repository.enqueue(item('pipeline', {kind: 'pipeline', project: undefined}))
+
+        expect((await repository.findQueued('run-all', 'chromium'))?.id).toBe('chromium')
+        expect((await repository.findQueued('pipeline'))?.id).toBe('pipeline')
+        expect(await repository.findQueued('run-all', 'webkit')).toBeNull()
+    })
+
+    it('should delete a queued run', async () => {
+        await repository.enqueue(item('queued-1'))
+
+        await repository.deleteItem('queued-1')
+
+        expect(await repository.getQueue()).toEqual([])
+    })
+})
@@ -0,0 +1,81 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {ScheduleData, ScheduleRepository} from '../schedule.repository'
+import {DatabaseManager} from '../../database/database.manager'
+
+const SCHEDULE: ScheduleData = {
+    name: 'Nightly',
+    cron: '0 2 * * *',
+    project: 'chromium',
+    enabled: true,
+}
+
+describe('ScheduleRepository', () => {
+    let repository: ScheduleRepository
+    let dbManager: DatabaseManager
+
+    beforeEach(async () => {
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        repository = new ScheduleRepository(dbManager)
+    })
+
+    afterEach(async () => {
+        dbManager.close()
+    })
+
+    it('should round-trip a schedule', async () => {
+        await repository.createSchedule('schedule-1', SCHEDULE)
+
+        expect(await repository.getSchedule('schedule-1')).toMatchObject({
+            id: 'schedule-1',
+            name: 'Nightly',
+            cron: '0 2 * * *',
+            project: 'chromium',
+            enabled: true,
+            lastRunAt: undefined,
+            lastStatus: undefined,
+        })
+    })
+
+    it('should update a schedule and clear its project', async () => {
+        await repository.createSchedule('schedule-1', SCHEDULE)
+
+        await repository.updateSchedule('schedule-1', {
+            ...SCHEDULE,
+            cron: '@hourly',
+            project: null,
+            enabled: false,
+        })
+
+        expect(await repository.getSchedule('schedule-1')).toMatchObject({
+            cron: '@hourly',
+            project: undefined,
+            enabled: false,
+        })
+    })
+
+    it('should record the last run', async () => {
+        await repository.createSchedule('schedule-1', SCHEDULE)
+
+        await repository.recordRun('schedule-1', {
+            lastRunAt: '2025-01-01T02:00:00.000Z',
+            lastStatus: 'skipped',
+            lastMessage: 'Tests are already running',
+        })
+
+        expect(await repository.getSchedule('schedule-1')).toMatchObject({
+            lastRunAt: '2025-01-01T02:00:00.000Z',
+            lastStatus: 'skipped',
+            lastMessage: 'Tests are already running',
+        })
+    })
+
+    it('should list and delete schedules', async () => {
+        await repository.createSchedule('schedule-1', SCHEDULE)
+        await repository.createSchedule('schedule-2', {...SCHEDULE, name: 'Pipeline'})
+
+        await repository.deleteSchedule('schedule-1')
+
+        expect((await repository.getSchedules()).map((s) => s.id)).toEqual(['schedule-2'])
+    })
+})
@@ -0,0 +1,116 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {TestRepository} from '../test.repository'
+import {DatabaseManager} from '../../database/database.manager'
+import {TestResultData} from '../../types/database.types'
+
+describe('TestRepository.getFailedTests()', () => {
+    let repository: TestRepository
+    let dbManager: DatabaseManager
+
+    const createRun = async (id: string): Promise<void> => {
+        await dbManager.createTestRun({
+            id,
+            status: 'completed',
+            totalTests: 0,
+            passedTests: 0,
+            failedTests: 0,
+            skippedTests: 0,
+            duration: 0,
+        })
+    }
+
+    const insertResult = async (
+        runId: string,
+        testId: string,
+        project: string,
+        status: TestResultData['status'],
+        updatedAt: string,
+        filePath = 'tests/a.spec.ts'
+    ): Promise<void> => {
+        const id = `result-${testId}-${updatedAt}`
+        await repository.saveTestResult({
+            id,
+            runId,
+            testId,
+            name: `name ${testId}`,
+            filePath,
+            status,
+            duration: 100,
+            project,
+            timestamp: updatedAt,
+        })
+        // saveTestResult uses CURRENT_TIMESTAMP, so backdate to control "latest"
+        await (repository as any).execute(
+            'UPDATE test_results SET created_at = ?, updated_at = ? WHERE id = ?',
+            [updatedAt, updatedAt, id]
+        )
+    }
+
+    beforeEach(async () => {
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        repository = new TestRepository(dbManager)
+        await createRun('run-1')
+        await createRun('run-2')
+    })
+
+    afterEach(async () => {
+        await dbManager.close()
+    })
+
+    it('returns the failed and timed out executions of a run, ordered by file', async () => {
+        await insertResult(
+            'run-1',
+            'test-1',
+            'API',
+            'failed',
+            '2026-01-01T10:00:00.000Z',
+            'b.spec.ts'
+        )
+        await insertResult('run-1', 'test-2', 'API', 'passed', '2026-01-01T10:00:00.000Z')
+        await insertResult(
+            'run-1',
+            'test-3',
+            'API',
+            'timedOut',
+            '2026-01-01T10:01:00.000Z',
+            'a.spec.ts'
+        )
+        await insertResult('run-2', 'test-4', 'API', 'failed', '2026-01-01T10:00:00.000Z')
+
+        const failed = await repository.getFailedTests({runId: 'run-1'})
+
+        expect(failed.map((test) => test.testId)).toEqual(['test-3', 'test-1'])
+    })
+
+    it('returns the tests of a project whose latest execution failed', async () => {
+        // Fixed by a later run
+        await insertResult('run-1', 'test-1', 'API', 'failed', '2026-01-01T10:00:00.000Z')
+        await insertResult('run-2', 'test-1', 'API', 'passed', '2026-01-01T11:00:00.000Z')
+        // Broken by a later run
+        await insertResult('run-1', 'test-2', 'API', 'passed', '2026-01-01T10:00:00.000Z')
+        await insertResult('run-2', 'test-2', 'API', 'failed', '2026-01-01T11:00:00.000Z')
+        await insertResult('run-2', 'test-3', 'UI', 'failed', '2026-01-01T11:00:00.000Z')
+
+        const failedApi = await repository.getFailedTests({project: 'API'})
+        const failedAll = await repository.getFailedTests({})
+
+        expect(failedApi.map((test) => test.testId)).toEqual(['test-2'])
+        expect(failedAll.map((test) => test.testId).sort()).toEqual(['test-2', 'test-3'])
+    })
+
+    it('leaves actively quarantined tests out of the project scope only', async () => {
+        await insertResult('run-1', 'test-1', 'API', 'failed', '2026-01-01T10:00:00.000Z')
+        await insertResult('run-1', 'test-2', 'API', 'failed', '2026-01-01T10:00:00.000Z')
+        await (repository as any).execute(
+            `INSERT INTO test_quarantine (test_id, reason, expires_at) VALUES (?, ?, ?)`,
+            ['test-1', 'Known flake', null]
+        )
+
+        const failedApi = await repository.getFailedTests({project: 'API'})
+        const failedRun = await repository.getFailedTests({runId: 'run-1'})
+
+        expect(failedApi.map((test) => test.testId)).toEqual(['test-2'])
+        expect(failedRun).toHaveLength(2)
+    })
+})
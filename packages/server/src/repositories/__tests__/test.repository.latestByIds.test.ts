@@ -0,0 +1,65 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {TestRepository} from '../test.repository'
+import {DatabaseManager} from '../../database/database.manager'
+
+describe('TestRepository.getLatestTestsByIds()', () => {
+    let repository: TestRepository
+    let dbManager: DatabaseManager
+
+    const insertResult = async (
+        testId: string,
+        name: string,
+        filePath: string,
+        updatedAt: string
+    ): Promise<void> => {
+        const id = `result-${testId}-${updatedAt}`
+        await repository.saveTestResult({
+            id,
+            runId: 'run-1',
+            testId,
+            name,
+            filePath,
+            status: 'passed',
+            duration: 100,
+            timestamp: updatedAt,
+        })
+        // saveTestResult uses CURRENT_TIMESTAMP, so backdate to control "latest"
+        await (repository as any).execute(
+            'UPDATE test_results SET created_at = ?, updated_at = ? WHERE id = ?',
+            [updatedAt, updatedAt, id]
+        )
+    }
+
+    beforeEach(async () => {
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        repository = new TestRepository(dbManager)
+        await dbManager.createTestRun({
+            id: 'run-1',
+            status: 'completed',
+            totalTests: 0,
+            passedTests: 0,
+            failedTests: 0,
+            skippedTests: 0,
+            duration: 0,
+        })
+    })
+
+    afterEach(async () => {
+        await dbManager.close()
+    })
+
+    it('returns the latest execution of each test, ordered by file', async () => {
+        await insertResult('test-1', 'Old title', 'b.spec.ts', '2026-01-01T10:00:00.000Z')
+        await insertResult('test-1', 'Renamed', 'b.spec.ts', '2026-01-01T11:00:00.000Z')
+        await insertResult('test-2', 'Login', 'a.spec.ts', '2026-01-01T10:00:00.000Z')
+        await insertResult('test-3', 'Not selected', 'a.spec.ts', '2026-01-01T10:00:00.000Z')
+
+        const tests = await repository.getLatestTestsByIds(['test-1', 'test-2', 'missing'])
+
+        expect(tests.map((test) => [test.testId, test.name])).toEqual([
+            ['test-2', 'Login'],
+            ['test-1', 'Renamed'],
+        ])
+    })
+})
@@ -75,8 +75,20 @@ describe('TestRepository.getProjectStatusSummary()', () => {
         const apiTests = summary.find((s) => s.project === 'API_Tests')
         const allTests = summary.find((s) => s.project === 'All_Tests')
 
-        expect(apiTests).toEqual({project: 'API_Tests', total: 2, passed: 1, failed: 1})
-        expect(allTests).toEqual({project: 'All_Tests', total: 1, passed: 1, failed: 0})
+        expect(apiTests).toEqual({
+            project: 'API_Tests',
+            total: 2,
+            passed: 1,
+            failed: 1,
+            quarantined: 0,
+        })
+        expect(allTests).toEqual({
+            project: 'All_Tests',
+            total: 1,
+            passed: 1,
+            failed: 0,
+            quarantined: 0,
+        })
     })
 
     it('excludes rows with an empty project', async () => {
@@ -85,7 +97,24 @@ describe('TestRepository.getProjectStatusSummary()', () => {
 
         const summary = await repository.getProjectStatusSummary()
 
-        expect(summary).toEqual([{project: 'API_Tests', total: 1, passed: 1, failed: 0}])
+        expect(summary).toEqual([
+            {project: 'API_Tests', total: 1, passed: 1, failed: 0, quarantined: 0},
+        ])
+    })
+
+    it('counts failures of quarantined tests separately from failed', async () => {
+        await insertResult('test-7', 'API_Tests', 'failed', '2026-01-01T10:00:00.000Z')
+        await insertResult('test-8', 'API_Tests', 'failed', '2026-01-01T10:00:00.000Z')
+        await (repository as any).execute(
+            `INSERT INTO test_quarantine (test_id, reason) VALUES (?, ?)`,
+            ['test-7', 'Known flake']
+        )
+
+        const summary = await repository.getProjectStatusSummary()
+
+        expect(summary).toEqual([
+            {project: 'API_Tests', total: 2, passed: 0, failed: 1, quarantined: 1},
+        ])
     })
 
     it('does not count a pending (not-yet-run) latest row as passed or failed', async () => {
@@ -95,6 +124,8 @@ describe('TestRepository.getProjectStatusSummary()', () => {
 
         const summary = await repository.getProjectStatusSummary()
 
-        expect(summary).toEqual([{project: 'API_Tests', total: 1, passed: 0, failed: 0}])
+        expect(summary).toEqual([
+            {project: 'API_Tests', total: 1, passed: 0, failed: 0, quarantined: 0},
+        ])
     })
 })
@@ -0,0 +1,183 @@
+/**
+ * Retry Attempt Grouping Tests
+ *
+ * Playwright retries are stored one row per attempt. These tests verify that
+ * the attempts of one execution are read back as a single execution with an
+ * `attempts` list, and that a pass after a failed attempt is reported as flaky.
+ */
+
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {TestRepository} from '../test.repository'
+import {DatabaseManager} from '../../database/database.manager'
+import {TestResultData} from '../../types/database.types'
+
+describe('TestRepository - Retry Attempts', () => {
+    let repository: TestRepository
+    let dbManager: DatabaseManager
+    let currentRunId: string
+    let counter = 0
+
+    const createAttempt = (
+        testId: string,
+        status: 'passed' | 'failed' | 'timedOut',
+        retryCount: number,
+        executionId?: string
+    ): TestResultData => {
+        counter++
+        const id = `result-${counter}`
+        return {
+            id,
+            runId: currentRunId,
+            testId,
+            name: 'Retried Test',
+            filePath: 'test/file.spec.ts',
+            status,
+            duration: 1000,
+            timestamp: new Date(Date.now() + counter).toISOString(),
+            errorMessage: status === 'failed' ? 'Test failed' : undefined,
+            retryCount,
+            executionId: executionId ?? id,
+        }
+    }
+
+    // Saves one execution made of the given attempt statuses, returns the attempt ids
+    const saveExecution = async (
+        testId: string,
+        statuses: Array<'passed' | 'failed' | 'timedOut'>
+    ): Promise<string[]> => {
+        const ids: string[] = []
+        for (const [retry, status] of statuses.entries()) {
+            ids.push(await repository.saveTestResult(createAttempt(testId, status, retry, ids[0])))
+        }
+        return ids
+    }
+
+    beforeEach(async () => {
+        counter = 0
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+
+        repository = new TestRepository(dbManager)
+
+        currentRunId = `run-${Date.now()}-${Math.random()}`
+        await dbManager.createTestRun({
+            id: currentRunId,
+            status: 'completed',
+            totalTests: 0,
+            passedTests: 0,
+            failedTests: 0,
+            skippedTests: 0,
+            duration: 0,
+        })
+    })
+
+    afterEach(async () => {
+        await dbManager.close()
+    })
+
+    describe('getTestResultsByTestId()', () => {
+        it('should return one flaky execution with all attempts when a retry passed', async () => {
+            const ids = await saveExecution('test-retry', ['failed', 'failed', 'passed'])
+
+            const history = await repository.getTestResultsByTestId('test-retry')
+
+            expect(history).toHaveLength(1)
+            expect(history[0].id).toBe(ids[2])
+            expect(history[0].status).toBe('flaky')
+            expect(history[0].attempts?.map((attempt) => attempt.id)).toEqual(ids)
+            expect(history[0].attempts?.map((attempt) => attempt.status)).toEqual([
+                'failed',
+                'failed',
+                'passed',
+            ])
+        })
+
+        it('should keep the failed status when every attempt failed', async () => {
+            await saveExecution('test-retry', ['failed', 'timedOut'])
+
+            const history = await repository.getTestResultsByTestId('test-retry')
+
+            expect(history).toHaveLength(1)
+            expect(history[0].status).toBe('timedOut')
+            expect(history[0].attempts).toHaveLength(2)
+        })
+
+        it('should not attach attempts to executions without retries', async () => {
+            await saveExecution('test-retry', ['passed'])
+            await saveExecution('test-retry', ['failed', 'passed'])
+
+            const history = await repository.getTestResultsByTestId('test-retry')
+
+            expect(history).toHaveLength(2)
+            expect(history.map((execution) => execution.status).sort()).toEqual(['flaky', 'passed'])
+            expect(history.find((execution) => execution.status === 'passed')?.attempts).toBe(
+                undefined
+            )
+        })
+
+        it('should count an execution with retries once', async () => {
+            await saveExecution('test-retry', ['failed', 'passed'])
+            await saveExecution('test-retry', ['passed'])
+
+            expect(await repository.getTestExecutionCount('test-retry')).toBe(2)
+        })
+    })
+
+    describe('getTestResultsByRun() and getAllTests()', () => {
+        it('should fold the attempts of a run into one execution per test', async () => {
+            await saveExecution('test-a', ['failed', 'passed'])
+            await saveExecution('test-b', ['passed'])
+
+            const runResults = await repository.getTestResultsByRun(currentRunId)
+            expect(runResults).toHaveLength(2)
+            expect(runResults.find((result) => result.testId === 'test-a')?.status).toBe('flaky')
+
+            const latest = await repository.getAllTests({limit: 10})
+            expect(latest).toHaveLength(2)
+            expect(latest.find((result) => result.testId === 'test-a')?.attempts).toHaveLength(2)
+        })
+    })
+
+    describe('deleteByExecutionId()', () => {
+        it('should delete every attempt of the execution', async () => {
+            const ids = await saveExecution('test-retry', ['failed', 'passed'])
+            await saveExecution('test-retry', ['passed'])
+
+            expect(await repository.getAttemptIds(ids[1])).toEqual(ids)
+
+            const deletedCount = await repository.deleteByExecutionId(ids[1])
+
+            expect(deletedCount).toBe(2)
+            const remaining = await repository.getTestResultsByTestId('test-retry')
+            expect(remaining).toHaveLength(1)
+            expect(remaining[0].status).toBe('passed')
+        })
+    })
+
+    describe('getExecutionOutcomes()', () => {
+        it('should report a single execution that passed on retry as flaky', async () => {
+            await saveExecution('test-retry', ['failed', 'passed'])
+
+            const outcomes = await repository.getExecutionOutcomes({days: 30})
+
+            expect(outcomes).toHaveLength(1)
+            expect(outcomes[0]).toMatchObject({testId: 'test-retry', outcome: 'flaky'})
+        })
+
+        it('should count retried executions once, oldest first', async () => {
+            await saveExecution('test-retry', ['failed', 'passed'])
+            await saveExecution('test-retry', ['passed'])
+            await saveExecution('test-retry', ['failed', 'failed'])
+            await saveExecution('test-retry', ['passed'])
+
+            const outcomes = await repository.getExecutionOutcomes({days: 30})
+
+            expect(outcomes.map((row) => row.outcome)).toEqual([
+                'flaky',
+                'passed',
+                'failed',
+                'passed',
+            ])
+        })
+    })
+})
@@ -59,7 +59,15 @@ describe('TestRepository.getTestStatusCounts()', () => {
 
     it('returns all-zero counts when there are no test results', async () => {
         const counts = await repository.getTestStatusCounts()
-        expect(counts).toEqual({total: 0, passed: 0, failed: 0, skipped: 0, pending: 0, noted: 0})
+        expect(counts).toEqual({
+            total: 0,
+            passed: 0,
+            failed: 0,
+            skipped: 0,
+            pending: 0,
+            noted: 0,
+            quarantined: 0,
+        })
     })
 
     it('counts only the latest result per test_id, across all projects when no project is given', async () => {
@@ -76,7 +84,15 @@ describe('TestRepository.getTestStatusCounts()', () => {
 
         const counts = await repository.getTestStatusCounts()
 
-        expect(counts).toEqual({total: 5, passed: 2, failed: 1, skipped: 1, pending: 1, noted: 0})
+        expect(counts).toEqual({
+            total: 5,
+            passed: 2,
+            failed: 1,
+            skipped: 1,
+            pending: 1,
+            noted: 0,
+            quarantined: 0,
+        })
     })
 
     it('scopes counts to a single project when given', async () => {
@@ -86,7 +102,15 @@ describe('TestRepository.getTestStatusCounts()', () => {
 
         const counts = await repository.getTestStatusCounts('API_Tests')
 
-        expect(counts).toEqual({total: 2, passed: 1, failed: 1, skipped: 0, pending: 0, noted: 0})
+        expect(counts).toEqual({
+            total: 2,
+            passed: 1,
+            failed: 1,
+            skipped: 0,
+            pending: 0,
+            noted: 0,
+            quarantined: 0,
+        })
     })
 
     it('counts a non-empty note on the latest row as noted', async () => {
@@ -107,6 +131,33 @@ describe('TestRepository.getTestStatusCounts()', () => {
         expect(counts.noted).toBe(1)
     })
 
+    it('counts latest failures of actively quarantined tests as quarantined, not failed', async () => {
+        await insertResult('test-1', 'API_Tests', 'failed', '2026-01-01T10:00:00.000Z')
+        await insertResult('test-2', 'API_Tests', 'failed', '2026-01-01T10:00:00.000Z')
+        await insertResult('test-3', 'API_Tests', 'passed', '2026-01-01T10:00:00.000Z')
+        await insertResult('test-4', 'API_Tests', 'failed', '2026-01-01T10:00:00.000Z')
+
+        await (repository as any).execute(
+            `INSERT INTO test_quarantine (test_id, reason, expires_at) VALUES (?, ?, ?), (?, ?, ?), (?, ?, ?)`,
+            [
+                'test-1',
+                'Known flake',
+                null,
+                'test-3',
+                'Known flake',
+                null,
+                // Expired quarantine counts as a regular failure again
+                'test-4',
+                'Known flake',
+                '2020-01-01T00:00:00.000Z',
+            ]
+        )
+
+        const counts = await repository.getTestStatusCounts()
+
+        expect(counts).toMatchObject({total: 4, passed: 1, failed: 2, quarantined: 1})
+    })
+
     it('is not capped by any page-size limit (unlike getAllTests)', async () => {
         for (let i = 0; i < 250; i++) {
             await insertResult(`test-${i}`, 'API_Tests', 'passed', '2026-01-01T10:00:00.000Z')
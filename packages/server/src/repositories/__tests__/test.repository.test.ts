@@ -388,6 +388,23 @@ describe('TestRepository - Core Functionality', () => {
             expect(apiTests.every((t) => t.project === 'API_Tests')).toBe(true)
         })
 
+        it('should filter by tag of the latest execution', async () => {
+            await repository.saveTestResult(
+                createTestResult('tagged', 'passed', {metadata: {tags: ['@smoke', '@cart']}})
+            )
+            await repository.saveTestResult(
+                createTestResult('untagged', 'passed', {metadata: {tags: ['@slow']}})
+            )
+            await repository.saveTestResult(createTestResult('no-metadata', 'passed'))
+            await repository.saveTestResult(
+                createTestResult('scalar-metadata', 'passed', {metadata: 'plain text'})
+            )
+
+            const smokeTests = await repository.getAllTests({tag: '@smoke'})
+
+            expect(smokeTests.map((t) => t.testId)).toEqual(['tagged'])
+        })
+
         it('should order results by updated_at DESC', async () => {
             // Create tests with delays to ensure different timestamps
             await repository.saveTestResult(createTestResult('test-old', 'passed'))
@@ -0,0 +1,122 @@
+import {describe, it, expect, beforeEach, afterEach} from 'vitest'
+import {MAX_DELIVERIES_PER_WEBHOOK, WebhookData, WebhookRepository} from '../webhook.repository'
+import {DatabaseManager} from '../../database/database.manager'
+
+const WEBHOOK: WebhookData = {
+    name: 'CI alerts',
+    url: 'https://example.com/hook',
+    events: ['process:ended', 'test:flaky'],
+    format: 'json',
+    template: null,
+    enabled: true,
+    secret: 's3cret',
+}
+
+describe('WebhookRepository', () => {
+    let repository: WebhookRepository
+    let dbManager: DatabaseManager
+
+    const createDelivery = (id: string, webhookId = 'hook-1') =>
+        repository.createDelivery({
+            id,
+            webhookId,
+            event: 'process:ended',
+            status: 'pending',
+            attempts: 0,
+            payload: '{}',
+            createdAt: '2025-01-01T00:00:00.000Z',
+        })
+
+    beforeEach(async () => {
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        repository = new WebhookRepository(dbManager)
+    })
+
+    afterEach(async () => {
+        dbManager.close()
+    })
+
+    it('should round-trip a webhook', async () => {
+        await repository.createWebhook('hook-1', WEBHOOK)
+
+        expect(await repository.getWebhook('hook-1')).toMatchObject({
+            id: 'hook-1',
+            name: 'CI alerts',
+            events: ['process:ended', 'test:flaky'],
+            format: 'json',
+            template: undefined,
+            enabled: true,
+            hasSecret: true,
+            secret: 's3cret',
+        })
+    })
+
+    it('should update all fields of a webhook', async () => {
+        await repository.createWebhook('hook-1', WEBHOOK)
+
+        await repository.updateWebhook('hook-1', {
+            ...WEBHOOK,
+            name: 'Renamed',
+            template: '{"text": "{{event}}"}',
+            enabled: false,
+            secret: null,
+        })
+
+        expect(await repository.getWebhook('hook-1')).toMatchObject({
+            name: 'Renamed',
+            template: '{"text": "{{event}}"}',
+            enabled: false,
+            hasSecret: false,
+        })
+    })
+
+    it('should update a delivery and return deliveries newest first', async () => {
+        await repository.createWebhook('hook-1', WEBHOOK)
+        await createDelivery('delivery-1')
+        await createDelivery('delivery-2')
+
+        await repository.updateDelivery('delivery-1', {
+            status: 'failed',
+            attempts: 2,
+            responseStatus: 500,
+            error: 'HTTP 500',
+            completedAt: '2025-01-01T00:00:00.000Z',
+        })
+
+        const deliveries = await repository.getDeliveries('hook-1', 10)
+        expect(deliveries.map((delivery) => delivery.id)).toEqual(['delivery-2', 'delivery-1'])
+        expect(deliveries[1]).toMatchObject({
+            status: 'failed',
+            attempts: 2,
+            responseStatus: 500,
+            error: 'HTTP 500',
+            completedAt: '2025-01-01T00:00:00.000Z',
+        })
+    })
+
+    it('should keep only the latest deliveries of each webhook', async () => {
+        await repository.createWebhook('hook-1', WEBHOOK)
+        await repository.createWebhook('hook-2', WEBHOOK)
+        await createDelivery('other', 'hook-2')
+
+        for (let i = 0; i <= MAX_DELIVERIES_PER_WEBHOOK; i++) {
+            await createDelivery(`delivery-${i}`)
+        }
+
+        const deliveries = await repository.getDeliveries('hook-1', 100)
+        expect(deliveries).toHaveLength(MAX_DELIVERIES_PER_WEBHOOK)
+        expect(deliveries.some((delivery) => delivery.id === 'delivery-0')).toBe(false)
+        expect(await repository.getDeliveries('hook-2', 100)).toHaveLength(1)
+    })
+
+    it('should delete the delivery log with the webhook', async () => {
+        await repository.createWebhook('hook-1', WEBHOOK)
+        await createDelivery('delivery-1')
+
+        await repository.deleteWebhook('hook-1')
+
+        expect(await repository.getWebhook('hook-1')).toBeNull()
+        expect(await repository.getDeliveries('hook-1', 10)).toEqual([])
+    })
+})
@@ -0,0 +1,51 @@
+import {ActiveProcessInfo} from '@yshvydak/core'
+import {BaseRepository} from './base.repository'
+
+interface ActiveProcessRow {
+    run_id: string
+    type: ActiveProcessInfo['type']
+    details: string
+    started_at: string
+}
+
+/**
+ * Processes tracked as running by ActiveProcessesTracker. Progress is not
+ * stored: it changes with every test and is rebuilt from the results on restore.
+ */
+export class ActiveProcessRepository extends BaseRepository {
+    async save(process: ActiveProcessInfo): Promise<void> {
+        await this.execute(
+            `
+                INSERT OR REPLACE INTO active_processes (run_id, type, details, started_at, updated_at)
+                VALUES (?, ?, ?, ?, ?)
+            `,
+            [
+                process.id,
+                process.type,
+                JSON.stringify(process.details),
+                process.startedAt,
+                new Date().toISOString(),
+            ]
+        )
+    }
+
+    async delete(runId: string): Promise<void> {
+        await this.execute('DELETE FROM active_processes WHERE run_id = ?', [runId])
+    }
+
+    async clear(): Promise<void> {
+        await this.execute('DELETE FROM active_processes')
+    }
+
+    async getAll(): Promise<ActiveProcessInfo[]> {
+        const rows = await this.queryAll<ActiveProcessRow>(
+            'SELECT * FROM active_processes ORDER BY started_at ASC'
+        )
+        return rows.map((row) => ({
+            id: row.run_id,
+            type: row.type,
+            startedAt: row.started_at,
+            details: JSON.parse(row.details),
+        }))
+    }
+}
@@ -0,0 +1,76 @@
+import {BaseRepository} from './base.repository'
+import type {PipelineState, PipelineStatus} from '../services/pipelineExecution.service'
+
+interface PipelineRunRow {
+    id: string
+    status: PipelineStatus
+    steps: string
+    source: string | null
+    rerun_of: string | null
+    started_at: string
+    finished_at: string | null
+}
+
+export interface IPipelineRunRepository {
+    savePipelineRun(pipeline: PipelineState): Promise<void>
+    getPipelineRun(id: string): Promise<PipelineState | null>
+    getPipelineRuns(limit: number): Promise<PipelineState[]>
+    getRunningPipelineRuns(): Promise<PipelineState[]>
+}
+
+export class PipelineRunRepository extends BaseRepository implements IPipelineRunRepository {
+    async savePipelineRun(pipeline: PipelineState): Promise<void> {
+        await this.execute(
+            `
+                INSERT OR REPLACE INTO pipeline_runs (id, status, steps, source, rerun_of, started_at, finished_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `,
+            [
+                pipeline.pipelineRunId,
+                pipeline.status,
+                JSON.stringify(pipeline.steps),
+                pipeline.source ?? null,
+                pipeline.rerunOf ?? null,
+                pipeline.startedAt,
+                pipeline.finishedAt ?? null,
+            ]
+        )
+    }
+
+    async getPipelineRun(id: string): Promise<PipelineState | null> {
+        const row = await this.queryOne<PipelineRunRow>(
+            'SELECT * FROM pipeline_runs WHERE id = ?',
+            [id]
+        )
+        return row ? this.mapPipelineRunRow(row) : null
+    }
+
+    // Newest first
+    async getPipelineRuns(limit: number): Promise<PipelineState[]> {
+        const rows = await this.queryAll<PipelineRunRow>(
+            'SELECT * FROM pipeline_runs ORDER BY started_at DESC LIMIT ?',
+            [limit]
+        )
+        return rows.map((row) => this.mapPipelineRunRow(row))
+    }
+
+    // Pipelines a previous server instance left running
+    async getRunningPipelineRuns(): Promise<PipelineState[]> {
+        const rows = await this.queryAll<PipelineRunRow>(
+            "SELECT * FROM pipeline_runs WHERE status = 'running' ORDER BY started_at ASC"
+        )
+        return rows.map((row) => this.mapPipelineRunRow(row))
+    }
+
+    private mapPipelineRunRow(row: PipelineRunRow): PipelineState {
+        return {
+            pipelineRunId: row.id,
+            status: row.status,
+            steps: JSON.parse(row.steps),
+            source: row.source || undefined,
+            rerunOf: row.rerun_of || undefined,
+            startedAt: row.started_at,
+            finishedAt: row.finished_at || undefined,
+        }
+    }
+}
@@ -0,0 +1,101 @@
+import {QuarantinedTest, TestQuarantine} from '@yshvydak/core'
+import {BaseRepository} from './base.repository'
+
+// expires_at is stored as an ISO string, so "now" is formatted the same way for the
+// comparison (CURRENT_TIMESTAMP's 'YYYY-MM-DD HH:MM:SS' would not compare correctly)
+export const IS_ACTIVE_QUARANTINE = (alias: string) =>
+    `(${alias}.expires_at IS NULL OR ${alias}.expires_at > strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`
+
+interface QuarantineRow {
+    test_id: string
+    reason: string
+    expires_at: string | null
+    created_at: string
+}
+
+interface QuarantinedTestRow extends QuarantineRow {
+    name: string | null
+    file_path: string | null
+    project: string | null
+}
+
+export interface IQuarantineRepository {
+    saveQuarantine(testId: string, reason: string, expiresAt: string | null): Promise<void>
+    getQuarantine(testId: string): Promise<TestQuarantine | null>
+    deleteQuarantine(testId: string): Promise<void>
+    getActiveQuarantines(project?: string): Promise<QuarantinedTest[]>
+}
+
+export class QuarantineRepository extends BaseRepository implements IQuarantineRepository {
+    async saveQuarantine(testId: string, reason: string, expiresAt: string | null): Promise<void> {
+        await this.execute(
+            `
+                INSERT INTO test_quarantine (test_id, reason, expires_at)
+                VALUES (?, ?, ?)
+                ON CONFLICT(test_id) DO UPDATE SET
+                    reason = excluded.reason,
+                    expires_at = excluded.expires_at,
+                    created_at = CURRENT_TIMESTAMP
+            `,
+            [testId, reason, expiresAt]
+        )
+    }
+
+    // Active quarantine only - an expired row means the test is back to normal
+    async getQuarantine(testId: string): Promise<TestQuarantine | null> {
+        const row = await this.queryOne<QuarantineRow>(
+            `SELECT * FROM test_quarantine q WHERE q.test_id = ? AND ${IS_ACTIVE_QUARANTINE('q')}`,
+            [testId]
+        )
+
+        return row ? this.mapRow(row) : null
+    }
+
+    async deleteQuarantine(testId: string): Promise<void> {
+        await this.execute('DELETE FROM test_quarantine WHERE test_id = ?', [testId])
+    }
+
+    /**
+     * Active quarantines with the name, file and project of each test's latest
+     * execution. With `project`, only tests whose latest execution ran under it.
+     */
+    async getActiveQuarantines(project?: string): Promise<QuarantinedTest[]> {
+        const params: any[] = []
+        let sql = `
+            WITH latest AS (
+                SELECT test_id, name, file_path, project,
+                       ROW_NUMBER() OVER (PARTITION BY test_id ORDER BY created_at DESC) as rn
+                FROM test_results
+            )
+            SELECT q.*, l.name, l.file_path, l.project
+            FROM test_quarantine q
+            LEFT JOIN latest l ON l.test_id = q.test_id AND l.rn = 1
+            WHERE ${IS_ACTIVE_QUARANTINE('q')}
+        `
+
+        if (project) {
+            sql += ` AND l.project = ?`
+            params.push(project)
+        }
+
+        sql += ` ORDER BY q.created_at DESC`
+
+        const rows = await this.queryAll<QuarantinedTestRow>(sql, params)
+
+        return rows.map((row) => ({
+            ...this.mapRow(row),
+            name: row.name ?? '',
+            filePath: row.file_path ?? '',
+            project: row.project || undefined,
+        }))
+    }
+
+    private mapRow(row: QuarantineRow): TestQuarantine {
+        return {
+            testId: row.test_id,
+            reason: row.reason,
+            expiresAt: row.expires_at || undefined,
+            createdAt: row.created_at,
+        }
+    }
+}
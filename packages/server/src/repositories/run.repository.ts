@@ -15,18 +15,26 @@ export class RunRepository extends BaseRepository implements IRunRepository {
     async getTestRun(runId: string): Promise<TestRunData | null> {
         const row = await this.queryOne<any>('SELECT * FROM test_runs WHERE id = ?', [runId])
 
-        if (!row) return null
+        return row ? this.mapRow(row) : null
+    }
 
-        return {
-            id: row.id,
-            status: row.status,
-            totalTests: row.total_tests,
-            passedTests: row.passed_tests,
-            failedTests: row.failed_tests,
-            skippedTests: row.skipped_tests,
-            duration: row.duration,
-            metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-        }
+    /**
+     * The run before `run` with the same project (runs without a project only
+     * match each other). Runs created in the same second are ordered by insertion.
+     */
+    async getPreviousRun(run: TestRunData): Promise<TestRunData | null> {
+        const row = await this.queryOne<any>(
+            `SELECT * FROM test_runs
+             WHERE id != ?
+               AND IFNULL(json_extract(metadata, '$.project'), '') = ?
+               AND (created_at < ?
+                    OR (created_at = ? AND rowid < (SELECT rowid FROM test_runs WHERE id = ?)))
+             ORDER BY created_at DESC, rowid DESC
+             LIMIT 1`,
+            [run.id, run.metadata?.project || '', run.createdAt, run.createdAt, run.id]
+        )
+
+        return row ? this.mapRow(row) : null
     }
 
     async getStats(): Promise<any> {
@@ -39,7 +47,11 @@ export class RunRepository extends BaseRepository implements IRunRepository {
             [limit]
         )
 
-        return rows.map((row) => ({
+        return rows.map((row) => this.mapRow(row))
+    }
+
+    private mapRow(row: any): TestRunData {
+        return {
             id: row.id,
             status: row.status,
             totalTests: row.total_tests,
@@ -48,6 +60,7 @@ export class RunRepository extends BaseRepository implements IRunRepository {
             skippedTests: row.skipped_tests,
             duration: row.duration,
             metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-        }))
+            createdAt: row.created_at,
+        }
     }
 }
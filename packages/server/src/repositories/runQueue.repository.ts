@@ -0,0 +1,97 @@
+import {RunQueueItem, RunQueueKind, RunQueuePriority} from '@yshvydak/core'
+import {BaseRepository} from './base.repository'
+
+interface RunQueueRow {
+    id: string
+    kind: RunQueueKind
+    project: string | null
+    max_workers: number | null
+    skip_auto_discovery: number
+    source: string | null
+    priority: RunQueuePriority
+    created_at: string
+}
+
+// Stored queue item; position is derived from the order of the queue
+export type RunQueueRecord = Omit<RunQueueItem, 'position'>
+
+// Start order: priority first, then first in first out
+const QUEUE_ORDER = `
+    CASE priority WHEN 'high' THEN 0 WHEN 'normal' THEN 1 ELSE 2 END,
+    created_at ASC,
+    rowid ASC
+`
+
+export interface IRunQueueRepository {
+    enqueue(record: RunQueueRecord): Promise<void>
+    deleteItem(id: string): Promise<void>
+    getItem(id: string): Promise<RunQueueRecord | null>
+    getQueue(): Promise<RunQueueRecord[]>
+    findQueued(kind: RunQueueKind, project?: string): Promise<RunQueueRecord | null>
+}
+
+export class RunQueueRepository extends BaseRepository implements IRunQueueRepository {
+    async enqueue(record: RunQueueRecord): Promise<void> {
+        await this.execute(
+            `
+                INSERT INTO run_queue (
+                    id, kind, project, max_workers, skip_auto_discovery, source, priority, created_at
+                )
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `,
+            [
+                record.id,
+                record.kind,
+                record.project ?? null,
+                record.maxWorkers ?? null,
+                record.skipAutoDiscovery ? 1 : 0,
+                record.source ?? null,
+                record.priority,
+                record.createdAt,
+            ]
+        )
+    }
+
+    async deleteItem(id: string): Promise<void> {
+        await this.execute('DELETE FROM run_queue WHERE id = ?', [id])
+    }
+
+    async getItem(id: string): Promise<RunQueueRecord | null> {
+        const row = await this.queryOne<RunQueueRow>('SELECT * FROM run_queue WHERE id = ?', [id])
+        return row ? this.mapQueueRow(row) : null
+    }
+
+    async getQueue(): Promise<RunQueueRecord[]> {
+        const rows = await this.queryAll<RunQueueRow>(
+            `SELECT * FROM run_queue ORDER BY ${QUEUE_ORDER}`
+        )
+        return rows.map((row) => this.mapQueueRow(row))
+    }
+
+    // The queued request for the same target, if any
+    async findQueued(kind: RunQueueKind, project?: string): Promise<RunQueueRecord | null> {
+        const row = await this.queryOne<RunQueueRow>(
+            `
+                SELECT * FROM run_queue
+                WHERE kind = ? AND COALESCE(project, '') = ?
+                ORDER BY ${QUEUE_ORDER}
+                LIMIT 1
+            `,
+            [kind, project ?? '']
+        )
+        return row ? this.mapQueueRow(row) : null
+    }
+
+    private mapQueueRow(row: RunQueueRow): RunQueueRecord {
+        return {
+            id: row.id,
+            kind: row.kind,
+            project: row.project || undefined,
+            maxWorkers: row.max_workers ?? undefined,
+            skipAutoDiscovery: row.skip_auto_discovery === 1,
+            source: row.source || undefined,
+            priority: row.priority,
+            createdAt: row.created_at,
+        }
+    }
+}
@@ -0,0 +1,116 @@
+import {ScheduleRunStatus} from '@yshvydak/core'
+import {BaseRepository} from './base.repository'
+
+interface ScheduleRow {
+    id: string
+    name: string
+    cron: string
+    project: string | null
+    enabled: number
+    last_run_at: string | null
+    last_status: ScheduleRunStatus | null
+    last_message: string | null
+    created_at: string
+    updated_at: string
+}
+
+// Stored schedule; nextRunAt is computed by the service
+export interface ScheduleRecord {
+    id: string
+    name: string
+    cron: string
+    project?: string
+    enabled: boolean
+    lastRunAt?: string
+    lastStatus?: ScheduleRunStatus
+    lastMessage?: string
+    createdAt: string
+    updatedAt: string
+}
+
+export interface ScheduleData {
+    name: string
+    cron: string
+    project: string | null
+    enabled: boolean
+}
+
+export interface ScheduleRunRecord {
+    lastRunAt: string
+    lastStatus: ScheduleRunStatus
+    lastMessage: string | null
+}
+
+export interface IScheduleRepository {
+    createSchedule(id: string, data: ScheduleData): Promise<void>
+    updateSchedule(id: string, data: ScheduleData): Promise<void>
+    deleteSchedule(id: string): Promise<void>
+    getSchedule(id: string): Promise<ScheduleRecord | null>
+    getSchedules(): Promise<ScheduleRecord[]>
+    recordRun(id: string, run: ScheduleRunRecord): Promise<void>
+}
+
+export class ScheduleRepository extends BaseRepository implements IScheduleRepository {
+    async createSchedule(id: string, data: ScheduleData): Promise<void> {
+        await this.execute(
+            `
+                INSERT INTO schedules (id, name, cron, project, enabled)
+                VALUES (?, ?, ?, ?, ?)
+            `,
+            [id, data.name, data.cron, data.project, data.enabled ? 1 : 0]
+        )
+    }
+
+    async updateSchedule(id: string, data: ScheduleData): Promise<void> {
+        await this.execute(
+            `
+                UPDATE schedules
+                SET name = ?, cron = ?, project = ?, enabled = ?
+                WHERE id = ?
+            `,
+            [data.name, data.cron, data.project, data.enabled ? 1 : 0, id]
+        )
+    }
+
+    async deleteSchedule(id: string): Promise<void> {
+        await this.execute('DELETE FROM schedules WHERE id = ?', [id])
+    }
+
+    async getSchedule(id: string): Promise<ScheduleRecord | null> {
+        const row = await this.queryOne<ScheduleRow>('SELECT * FROM schedules WHERE id = ?', [id])
+        return row ? this.mapScheduleRow(row) : null
+    }
+
+    async getSchedules(): Promise<ScheduleRecord[]> {
+        const rows = await this.queryAll<ScheduleRow>(
+            'SELECT * FROM schedules ORDER BY created_at ASC, name ASC'
+        )
+        return rows.map((row) => this.mapScheduleRow(row))
+    }
+
+    async recordRun(id: string, run: ScheduleRunRecord): Promise<void> {
+        await this.execute(
+            `
+                UPDATE schedules
+                SET last_run_at = ?, last_status = ?, last_message = ?
+                WHERE id = ?
+            `,
+            [run.lastRunAt, run.lastStatus, run.lastMessage, id]
+        )
+    }
+
+    private mapScheduleRow(row: ScheduleRow): ScheduleRecord {
+        return {
+            id: row.id,
+            name: row.name,
+            cron: row.cron,
+            project: row.project || undefined,
+            enabled: row.enabled === 1,
+            lastRunAt: row.last_run_at || undefined,
+            lastStatus: row.last_status || undefined,
+            lastMessage: row.last_message || undefined,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        }
+    }
+}
@@ -7,6 +7,7 @@ const PROJECT_TAB_CONFIGS_KEY = 'project_tab_configs'
 const DEFAULT_PROJECT_TAB_KEY = 'default_project_tab'
 const CI_AUTORUN_PAUSED_KEY = 'ci_autorun_paused'
 const CI_AUTORUN_RESUME_AT_KEY = 'ci_autorun_resume_at'
+const SKIP_QUARANTINED_TESTS_KEY = 'skip_quarantined_tests'
 
 const DISK_WARNING_DEFAULT = 20
 const DISK_CRITICAL_DEFAULT = 5
@@ -21,6 +22,10 @@ export interface DiskThresholds {
     criticalPercent: number
 }
 
+// previous_passed: only when every step it waits for passed; always: even after
+// the pipeline stopped early. Without one, a step runs unless the pipeline stopped.
+export type PipelineRunCondition = 'previous_passed' | 'always'
+
 export interface ProjectTabConfig {
     project: string
     displayName: string
@@ -28,6 +33,13 @@ export interface ProjectTabConfig {
     inPipeline: boolean
     stopPipelineOnFailure: boolean
     workers?: number
+    // Steps sharing a stage run in parallel; defaults to the step's position
+    pipelineStage?: number
+    // Pipeline steps this one waits for instead of the previous stage
+    dependsOn?: string[]
+    runCondition?: PipelineRunCondition
+    // Webhooks notified only about this tab's project
+    webhookIds?: string[]
 }
 
 export interface CIAutoRunPause {
@@ -46,6 +58,8 @@ export interface ISettingsRepository {
     setDefaultProjectTab(project: string): Promise<void>
     getCIAutoRunPause(): Promise<CIAutoRunPause>
     setCIAutoRunPause(pause: CIAutoRunPause): Promise<void>
+    getSkipQuarantinedTests(): Promise<boolean>
+    setSkipQuarantinedTests(enabled: boolean): Promise<void>
 }
 
 export class SettingsRepository extends BaseRepository implements ISettingsRepository {
@@ -123,6 +137,10 @@ export class SettingsRepository extends BaseRepository implements ISettingsRepos
                 inPipeline: c.inPipeline ?? false,
                 stopPipelineOnFailure: c.stopPipelineOnFailure ?? false,
                 workers: c.workers,
+                pipelineStage: c.pipelineStage,
+                dependsOn: c.dependsOn,
+                runCondition: c.runCondition,
+                webhookIds: c.webhookIds,
             }))
         } catch {
             return []
@@ -191,4 +209,26 @@ export class SettingsRepository extends BaseRepository implements ISettingsRepos
         await this.execute(upsertSql, [CI_AUTORUN_PAUSED_KEY, pause.paused ? 'true' : 'false'])
         await this.execute(upsertSql, [CI_AUTORUN_RESUME_AT_KEY, pause.resumeAt ?? ''])
     }
+
+    async getSkipQuarantinedTests(): Promise<boolean> {
+        const row = await this.queryOne<AppSettingRow>(
+            'SELECT key, value FROM app_settings WHERE key = ?',
+            [SKIP_QUARANTINED_TESTS_KEY]
+        )
+
+        return row?.value === 'true'
+    }
+
+    async setSkipQuarantinedTests(enabled: boolean): Promise<void> {
+        await this.execute(
+            `
+                INSERT INTO app_settings (key, value)
+                VALUES (?, ?)
+                ON CONFLICT(key) DO UPDATE SET
+                    value = excluded.value,
+                    updated_at = CURRENT_TIMESTAMP
+            `,
+            [SKIP_QUARANTINED_TESTS_KEY, enabled ? 'true' : 'false']
+        )
+    }
 }
@@ -1,10 +1,21 @@
 import {BaseRepository} from './base.repository'
 import {TestResultData, TestResultRow, DatabaseStats} from '../types/database.types'
-import {TestResult, TestFilters, ITestRepository, TestStatusCounts} from '../types/service.types'
+import {
+    TestResult,
+    TestFilters,
+    ITestRepository,
+    TestStatusCounts,
+    DurationSample,
+    DurationSampleFilters,
+    ExecutionOutcomeRow,
+    ExecutionOutcomeFilters,
+    DiscoveredTest,
+} from '../types/service.types'
 import {DEFAULT_LIMITS} from '../config/constants'
 import {FileUtil} from '../utils/file.util'
+import {IS_ACTIVE_QUARANTINE} from './quarantine.repository'
 
-// Shared SELECT projection for queries that JOIN attachments + notes onto test_results.
+// Shared SELECT projection for queries that JOIN attachments + notes + quarantine onto test_results.
 // Keeping the column list in one place ensures the row mapper stays in sync with the SQL.
 const TEST_RESULT_WITH_RELATIONS_COLUMNS = `
     tr.*,
@@ -18,6 +29,9 @@ const TEST_RESULT_WITH_RELATIONS_COLUMNS = `
     tn.content    as note_content,
     tn.created_at as note_created_at,
     tn.updated_at as note_updated_at,
+    tq.reason     as quarantine_reason,
+    tq.expires_at as quarantine_expires_at,
+    tq.created_at as quarantine_created_at,
     ac.cleared_at as attachments_cleared_at
 `
 
@@ -26,14 +40,29 @@ const TEST_RESULT_WITH_RELATIONS_COLUMNS = `
 const TEST_RESULT_RELATIONS_JOINS = `
     LEFT JOIN attachments a ON tr.id = a.test_result_id
     LEFT JOIN test_notes tn ON tr.test_id = tn.test_id
+    LEFT JOIN test_quarantine tq ON tr.test_id = tq.test_id AND ${IS_ACTIVE_QUARANTINE('tq')}
     LEFT JOIN attachment_cleanups ac ON tr.id = ac.test_result_id
 `
 
+// Playwright retries are stored one row per attempt. Attempts after the first carry
+// the first attempt's id in execution_id; rows without it are their own execution.
+// An execution is represented by its last attempt - the row no later attempt supersedes.
+const IS_LAST_ATTEMPT = (alias: string) => `NOT EXISTS (
+    SELECT 1 FROM test_results later
+    WHERE later.execution_id = COALESCE(${alias}.execution_id, ${alias}.id)
+      AND later.retry_count > ${alias}.retry_count
+)`
+
 export class TestRepository extends BaseRepository implements ITestRepository {
     async saveTestResult(testData: TestResultData): Promise<string> {
         return this.dbManager.saveTestResult(testData)
     }
 
+    async saveTestResults(results: TestResultData[]): Promise<Array<{id: string; error?: string}>> {
+        if (results.length === 0) return []
+        return this.dbManager.saveTestResultsBatch(results)
+    }
+
     async getTestResult(id: string): Promise<TestResult | null> {
         // Use the same relations projection as the bulk reads so a single-execution
         // lookup also carries attachments, note and attachmentsClearedAt — otherwise
@@ -61,7 +90,7 @@ export class TestRepository extends BaseRepository implements ITestRepository {
             [runId]
         )
 
-        return this.mapRowsToTestResults(rows)
+        return this.groupAttempts(this.mapRowsToTestResults(rows))
     }
 
     async getTestResultsByTestId(
@@ -88,6 +117,7 @@ export class TestRepository extends BaseRepository implements ITestRepository {
              FROM (
                 SELECT * FROM test_results
                 WHERE test_id = ? AND status NOT IN ('pending', 'skipped')${cursorClause}
+                  AND ${IS_LAST_ATTEMPT('test_results')}
                 ORDER BY created_at DESC
                 LIMIT ?
              ) tr
@@ -96,7 +126,7 @@ export class TestRepository extends BaseRepository implements ITestRepository {
             params
         )
 
-        return this.mapRowsToTestResults(rows)
+        return this.withAttempts(this.mapRowsToTestResults(rows))
     }
 
     /**
@@ -107,7 +137,8 @@ export class TestRepository extends BaseRepository implements ITestRepository {
     async getTestExecutionCount(testId: string): Promise<number> {
         const row = await this.queryOne<{count: number}>(
             `SELECT COUNT(*) as count FROM test_results
-             WHERE test_id = ? AND status NOT IN ('pending', 'skipped')`,
+             WHERE test_id = ? AND status NOT IN ('pending', 'skipped')
+               AND ${IS_LAST_ATTEMPT('test_results')}`,
             [testId]
         )
         return row?.count || 0
@@ -118,7 +149,7 @@ export class TestRepository extends BaseRepository implements ITestRepository {
         let innerSql: string
 
         if (filters.runId) {
-            innerSql = `SELECT * FROM test_results WHERE run_id = ?`
+            innerSql = `SELECT * FROM test_results WHERE run_id = ? AND ${IS_LAST_ATTEMPT('test_results')}`
             params.push(filters.runId)
         } else {
             // Pick the latest execution per test_id with a window function (O(N log N))
@@ -146,6 +177,14 @@ export class TestRepository extends BaseRepository implements ITestRepository {
             params.push(filters.status)
         }
 
+        if (filters.tag) {
+            // CASE keeps json_each away from rows whose metadata is not valid JSON
+            innerSql += ` AND CASE WHEN json_valid(metadata) THEN EXISTS (
+                SELECT 1 FROM json_each(metadata, '$.tags') WHERE json_each.value = ?
+            ) ELSE 0 END`
+            params.push(filters.tag)
+        }
+
         // Apply LIMIT before joining attachments so attachment fan-out cannot
         // shrink the number of test executions returned to the UI.
         // When project is set, LIMIT applies to that project only (not a global slice).
@@ -160,7 +199,7 @@ export class TestRepository extends BaseRepository implements ITestRepository {
         `
 
         const rows = await this.queryAll<TestResultRow>(sql, params)
-        return this.mapRowsToTestResults(rows)
+        return this.withAttempts(this.mapRowsToTestResults(rows))
     }
 
     async deleteByTestId(testId: string): Promise<number> {
@@ -174,10 +213,32 @@ export class TestRepository extends BaseRepository implements ITestRepository {
         return result.changes || 0
     }
 
+    /**
+     * Ids of every attempt stored for the execution (including the given one),
+     * so deleting an execution also removes the attempts that preceded it.
+     */
+    async getAttemptIds(executionId: string): Promise<string[]> {
+        const rows = await this.queryAll<{id: string}>(
+            `SELECT id FROM test_results
+             WHERE id = ?
+                OR execution_id = (
+                    SELECT COALESCE(execution_id, id) FROM test_results WHERE id = ?
+                )
+             ORDER BY retry_count`,
+            [executionId, executionId]
+        )
+        return rows.map((r) => r.id)
+    }
+
     async deleteByExecutionId(executionId: string): Promise<number> {
-        const result = await this.dbManager.execute(`DELETE FROM test_results WHERE id = ?`, [
-            executionId,
-        ])
+        const attemptIds = await this.getAttemptIds(executionId)
+        if (attemptIds.length === 0) return 0
+
+        const placeholders = attemptIds.map(() => '?').join(',')
+        const result = await this.dbManager.execute(
+            `DELETE FROM test_results WHERE id IN (${placeholders})`,
+            attemptIds
+        )
 
         // Compact database to reclaim space after deletion
         await this.dbManager.compactDatabase()
@@ -185,6 +246,10 @@ export class TestRepository extends BaseRepository implements ITestRepository {
         return result.changes || 0
     }
 
+    async adoptLegacyTestIds(tests: DiscoveredTest[]): Promise<number> {
+        return this.dbManager.adoptLegacyTestIds(tests)
+    }
+
     async clearAllTests(): Promise<void> {
         return this.dbManager.clearAllData()
     }
@@ -228,48 +293,189 @@ export class TestRepository extends BaseRepository implements ITestRepository {
         return result.changes || 0
     }
 
-    async getFlakyTests(days: number = 30, thresholdPercent: number = 10): Promise<any[]> {
+    /**
+     * Outcome of every passed or failed execution in the last `days` days, ordered by
+     * test and then oldest first, for flakiness scoring.
+     */
+    async getExecutionOutcomes(filters: ExecutionOutcomeFilters): Promise<ExecutionOutcomeRow[]> {
+        const conditions = [
+            `tr.created_at >= datetime('now', '-' || ? || ' days')`,
+            `tr.status IN ('passed', 'failed', 'timedOut')`,
+        ]
+        const params: any[] = [filters.days]
+
+        if (filters.project) {
+            conditions.push('tr.project = ?')
+            params.push(filters.project)
+        }
+
         const sql = `
+            WITH attempts AS (
+                SELECT
+                    tr.*,
+                    tr.rowid as seq,
+                    ROW_NUMBER() OVER (
+                        PARTITION BY COALESCE(tr.execution_id, tr.id)
+                        ORDER BY tr.retry_count DESC
+                    ) as rn,
+                    SUM(CASE WHEN tr.status IN ('failed', 'timedOut') THEN 1 ELSE 0 END) OVER (
+                        PARTITION BY COALESCE(tr.execution_id, tr.id)
+                    ) as failed_attempts
+                FROM test_results tr
+                WHERE ${conditions.join(' AND ')}
+            )
             SELECT
-                tr.test_id as testId,
-                tr.name,
-                tr.file_path as filePath,
-                COUNT(*) as totalRuns,
-                SUM(CASE WHEN tr.status = 'failed' THEN 1 ELSE 0 END) as failedRuns,
-                SUM(CASE WHEN tr.status = 'passed' THEN 1 ELSE 0 END) as passedRuns,
-                CAST(SUM(CASE WHEN tr.status = 'failed' THEN 1 ELSE 0 END) * 100.0 / COUNT(*) AS INTEGER) as flakyPercentage,
-                GROUP_CONCAT(
-                    CASE
-                        WHEN tr.status = 'passed' THEN 'passed'
-                        WHEN tr.status = 'failed' THEN 'failed'
-                        ELSE 'other'
-                    END
-                ) as history,
-                MAX(tr.updated_at) as lastRun
-            FROM test_results tr
-            WHERE tr.created_at >= datetime('now', '-' || ? || ' days')
-                AND tr.status IN ('passed', 'failed')
-            GROUP BY tr.test_id, tr.name, tr.file_path
-            HAVING totalRuns > 1
-                AND flakyPercentage >= ?
-                AND flakyPercentage < 100
-            ORDER BY flakyPercentage DESC, totalRuns DESC
-            LIMIT 50
+                test_id as testId,
+                name,
+                file_path as filePath,
+                COALESCE(project, '') as project,
+                CASE
+                    WHEN status = 'failed' THEN 'failed'
+                    WHEN failed_attempts > 0 THEN 'flaky'
+                    ELSE 'passed'
+                END as outcome,
+                created_at as createdAt
+            FROM attempts
+            -- Timed out attempts only count as failed retries, not as executions
+            WHERE rn = 1 AND status IN ('passed', 'failed')
+            ORDER BY test_id, created_at, seq
         `
 
-        const rows = await this.queryAll<any>(sql, [days, thresholdPercent])
+        return this.queryAll<ExecutionOutcomeRow>(sql, params)
+    }
 
-        return rows.map((row) => ({
-            testId: row.testId,
-            name: row.name,
-            filePath: row.filePath,
-            totalRuns: row.totalRuns,
-            failedRuns: row.failedRuns,
-            passedRuns: row.passedRuns,
-            flakyPercentage: row.flakyPercentage,
-            history: row.history ? row.history.split(',') : [],
-            lastRun: row.lastRun,
-        }))
+    /**
+     * Failed executions (last attempt failed or timed out) that have an error signature,
+     * newest first. Scoped to one run, or to the last `days` days across all runs.
+     */
+    async getFailedExecutions(scope: {runId: string} | {days: number}): Promise<TestResult[]> {
+        const [scopeClause, param] =
+            'runId' in scope
+                ? ['tr.run_id = ?', scope.runId]
+                : [`tr.created_at >= datetime('now', '-' || ? || ' days')`, scope.days]
+
+        const rows = await this.queryAll<TestResultRow>(
+            `SELECT tr.* FROM test_results tr
+             WHERE ${scopeClause}
+               AND tr.status IN ('failed', 'timedOut')
+               AND tr.error_signature IS NOT NULL
+               AND ${IS_LAST_ATTEMPT('tr')}
+             ORDER BY tr.created_at DESC`,
+            [param]
+        )
+
+        return this.mapRowsToTestResults(rows)
+    }
+
+    /**
+     * Tests to run again by "Rerun failed", ordered by file: the executions of a run whose
+     * last attempt failed or timed out, or the tests of a project (every project without
+     * one) whose latest execution did. Like the Failed filter, the project scope leaves
+     * quarantined tests out.
+     */
+    async getFailedTests(scope: {runId: string} | {project?: string}): Promise<TestResult[]> {
+        if ('runId' in scope) {
+            const rows = await this.queryAll<TestResultRow>(
+                `SELECT tr.* FROM test_results tr
+                 WHERE tr.run_id = ?
+                   AND tr.status IN ('failed', 'timedOut')
+                   AND ${IS_LAST_ATTEMPT('tr')}
+                 ORDER BY tr.file_path, tr.created_at`,
+                [scope.runId]
+            )
+            return this.mapRowsToTestResults(rows)
+        }
+
+        // Same "latest execution per test" as getAllTests and getTestStatusCounts
+        const params: any[] = []
+        let sql = `
+            SELECT l.* FROM (
+                SELECT *,
+                       ROW_NUMBER() OVER (PARTITION BY test_id ORDER BY updated_at DESC) AS rn
+                FROM test_results
+            ) l
+            LEFT JOIN test_quarantine tq ON tq.test_id = l.test_id AND ${IS_ACTIVE_QUARANTINE('tq')}
+            WHERE l.rn = 1
+              AND l.status IN ('failed', 'timedOut')
+              AND tq.test_id IS NULL
+        `
+        if (scope.project) {
+            sql += ` AND l.project = ?`
+            params.push(scope.project)
+        }
+        sql += ` ORDER BY l.file_path, l.created_at`
+
+        const rows = await this.queryAll<TestResultRow>(sql, params)
+        return this.mapRowsToTestResults(rows)
+    }
+
+    /**
+     * Latest execution of each of the given tests, ordered by file. Unknown test
+     * IDs are left out.
+     */
+    async getLatestTestsByIds(testIds: string[]): Promise<TestResult[]> {
+        // SQLite has a limit on variables, so query in batches
+        const BATCH_SIZE = 900
+        const rows: TestResultRow[] = []
+
+        for (let i = 0; i < testIds.length; i += BATCH_SIZE) {
+            const batch = testIds.slice(i, i + BATCH_SIZE)
+            const placeholders = batch.map(() => '?').join(',')
+            rows.push(
+                ...(await this.queryAll<TestResultRow>(
+                    `SELECT * FROM (
+                        SELECT *,
+                               ROW_NUMBER() OVER (PARTITION BY test_id ORDER BY updated_at DESC) AS rn
+                        FROM test_results
+                        WHERE test_id IN (${placeholders})
+                    )
+                    WHERE rn = 1`,
+                    batch
+                ))
+            )
+        }
+
+        rows.sort(
+            (a, b) =>
+                a.file_path.localeCompare(b.file_path) || a.created_at.localeCompare(b.created_at)
+        )
+        return this.mapRowsToTestResults(rows)
+    }
+
+    /**
+     * Durations of passed executions (last attempt) in the last `days` days, oldest first.
+     * Failed and timed out executions are left out: they stop early or hit the timeout.
+     */
+    async getPassedDurations(filters: DurationSampleFilters): Promise<DurationSample[]> {
+        const conditions = [
+            `tr.created_at >= datetime('now', '-' || ? || ' days')`,
+            `tr.status = 'passed'`,
+            IS_LAST_ATTEMPT('tr'),
+        ]
+        const params: any[] = [filters.days]
+
+        if (filters.testId) {
+            conditions.push('tr.test_id = ?')
+            params.push(filters.testId)
+        }
+        if (filters.project) {
+            conditions.push('tr.project = ?')
+            params.push(filters.project)
+        }
+
+        return this.queryAll<DurationSample>(
+            `SELECT
+                tr.test_id as testId,
+                tr.name,
+                tr.file_path as filePath,
+                COALESCE(tr.project, '') as project,
+                tr.duration,
+                tr.created_at as createdAt
+             FROM test_results tr
+             WHERE ${conditions.join(' AND ')}
+             ORDER BY tr.created_at ASC`,
+            params
+        )
     }
 
     async getTestTimeline(days: number = 30): Promise<any[]> {
@@ -284,6 +490,7 @@ export class TestRepository extends BaseRepository implements ITestRepository {
             FROM test_results tr
             WHERE tr.created_at >= datetime('now', '-' || ? || ' days')
                 AND tr.status IN ('passed', 'failed', 'skipped', 'timedOut')
+                AND ${IS_LAST_ATTEMPT('tr')}
             GROUP BY DATE(tr.created_at)
             ORDER BY date ASC
         `
@@ -303,27 +510,31 @@ export class TestRepository extends BaseRepository implements ITestRepository {
     /**
      * Latest status per test_id, aggregated by project. Powers the tab-bar status badge —
      * reflects the current state of every project regardless of what triggered each test's
-     * last run (manual rerun, group run, Run All, or a CI-pipeline step).
+     * last run (manual rerun, group run, Run All, or a CI-pipeline step). Failures of
+     * quarantined tests are counted as quarantined, not failed.
      */
     async getProjectStatusSummary(): Promise<
-        {project: string; total: number; passed: number; failed: number}[]
+        {project: string; total: number; passed: number; failed: number; quarantined: number}[]
     > {
         const sql = `
             WITH latest AS (
                 SELECT
+                    test_id,
                     project,
                     status,
                     ROW_NUMBER() OVER (PARTITION BY test_id ORDER BY created_at DESC) as rn
                 FROM test_results
             )
             SELECT
-                project,
+                l.project,
                 COUNT(*) as total,
-                SUM(CASE WHEN status = 'passed' THEN 1 ELSE 0 END) as passed,
-                SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed
-            FROM latest
-            WHERE rn = 1 AND project != ''
-            GROUP BY project
+                SUM(CASE WHEN l.status = 'passed' THEN 1 ELSE 0 END) as passed,
+                SUM(CASE WHEN l.status = 'failed' AND tq.test_id IS NULL THEN 1 ELSE 0 END) as failed,
+                SUM(CASE WHEN l.status = 'failed' AND tq.test_id IS NOT NULL THEN 1 ELSE 0 END) as quarantined
+            FROM latest l
+            LEFT JOIN test_quarantine tq ON tq.test_id = l.test_id AND ${IS_ACTIVE_QUARANTINE('tq')}
+            WHERE l.rn = 1 AND l.project != ''
+            GROUP BY l.project
         `
 
         const rows = await this.queryAll<any>(sql)
@@ -333,11 +544,12 @@ export class TestRepository extends BaseRepository implements ITestRepository {
             total: row.total,
             passed: row.passed,
             failed: row.failed,
+            quarantined: row.quarantined,
         }))
     }
 
     /**
-     * Status breakdown (total/passed/failed/skipped/pending/noted) over the latest
+     * Status breakdown (total/passed/failed/skipped/pending/noted/quarantined) over the latest
      * row per test_id, unlimited and DB-aggregated — powers the "All/Passed/Failed/..."
      * filter-bar counts. Must never be derived from a LIMIT-ed getAllTests() page,
      * or the badges silently cap at the page size (see getProjectStatusSummary, which
@@ -355,12 +567,14 @@ export class TestRepository extends BaseRepository implements ITestRepository {
             SELECT
                 COUNT(*) as total,
                 SUM(CASE WHEN l.status = 'passed' THEN 1 ELSE 0 END) as passed,
-                SUM(CASE WHEN l.status = 'failed' THEN 1 ELSE 0 END) as failed,
+                SUM(CASE WHEN l.status = 'failed' AND tq.test_id IS NULL THEN 1 ELSE 0 END) as failed,
                 SUM(CASE WHEN l.status = 'skipped' THEN 1 ELSE 0 END) as skipped,
                 SUM(CASE WHEN l.status = 'pending' THEN 1 ELSE 0 END) as pending,
-                SUM(CASE WHEN tn.content IS NOT NULL AND trim(tn.content) != '' THEN 1 ELSE 0 END) as noted
+                SUM(CASE WHEN tn.content IS NOT NULL AND trim(tn.content) != '' THEN 1 ELSE 0 END) as noted,
+                SUM(CASE WHEN l.status = 'failed' AND tq.test_id IS NOT NULL THEN 1 ELSE 0 END) as quarantined
             FROM latest l
             LEFT JOIN test_notes tn ON tn.test_id = l.test_id
+            LEFT JOIN test_quarantine tq ON tq.test_id = l.test_id AND ${IS_ACTIVE_QUARANTINE('tq')}
             WHERE l.rn = 1
         `
 
@@ -376,6 +590,7 @@ export class TestRepository extends BaseRepository implements ITestRepository {
             skipped: number | null
             pending: number | null
             noted: number | null
+            quarantined: number | null
         }>(sql, params)
 
         return {
@@ -385,9 +600,28 @@ export class TestRepository extends BaseRepository implements ITestRepository {
             skipped: row?.skipped || 0,
             pending: row?.pending || 0,
             noted: row?.noted || 0,
+            quarantined: row?.quarantined || 0,
         }
     }
 
+    /**
+     * Failed executions of a run (by their last attempt) whose test is quarantined,
+     * i.e. the part of the run's failedTests that must not fail a pipeline step.
+     * Timed out executions are left out, as the reporter's failedTests leaves them out.
+     */
+    async getQuarantinedFailureCount(runId: string): Promise<number> {
+        const row = await this.queryOne<{count: number}>(
+            `SELECT COUNT(DISTINCT tr.test_id) as count
+             FROM test_results tr
+             JOIN test_quarantine tq ON tq.test_id = tr.test_id AND ${IS_ACTIVE_QUARANTINE('tq')}
+             WHERE tr.run_id = ?
+               AND tr.status = 'failed'
+               AND ${IS_LAST_ATTEMPT('tr')}`,
+            [runId]
+        )
+        return row?.count ?? 0
+    }
+
     async getIdsOlderThan(date: Date): Promise<string[]> {
         const rows = await this.queryAll<{id: string}>(
             `SELECT id FROM test_results WHERE created_at < ?`,
@@ -522,7 +756,9 @@ export class TestRepository extends BaseRepository implements ITestRepository {
             duration: row.duration,
             errorMessage: row.error_message,
             errorStack: row.error_stack,
+            errorSignature: row.error_signature || undefined,
             retryCount: row.retry_count,
+            executionId: row.execution_id || undefined,
             project: row.project || '',
             metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
             timestamp: row.created_at,
@@ -553,6 +789,15 @@ export class TestRepository extends BaseRepository implements ITestRepository {
                         updatedAt: row.note_updated_at!,
                     }
                 }
+
+                if (row.quarantine_reason) {
+                    testResult.quarantine = {
+                        testId: row.test_id,
+                        reason: row.quarantine_reason,
+                        expiresAt: row.quarantine_expires_at || undefined,
+                        createdAt: row.quarantine_created_at!,
+                    }
+                }
             }
 
             if (row.attachment_id) {
@@ -581,6 +826,71 @@ export class TestRepository extends BaseRepository implements ITestRepository {
         return Array.from(testsMap.values())
     }
 
+    /**
+     * Loads the earlier attempts of retried executions (given as their last attempt)
+     * and folds them into one execution each, keeping the input order.
+     */
+    private async withAttempts(executions: TestResult[]): Promise<TestResult[]> {
+        const retriedIds = executions
+            .filter((execution) => execution.executionId && (execution.retryCount || 0) > 0)
+            .map((execution) => execution.executionId!)
+
+        if (retriedIds.length === 0) return executions
+
+        const placeholders = retriedIds.map(() => '?').join(',')
+        const rows = await this.queryAll<TestResultRow>(
+            `SELECT ${TEST_RESULT_WITH_RELATIONS_COLUMNS}
+             FROM test_results tr
+             ${TEST_RESULT_RELATIONS_JOINS}
+             WHERE tr.execution_id IN (${placeholders})`,
+            retriedIds
+        )
+        const attemptsByExecution = this.groupByExecution(this.mapRowsToTestResults(rows))
+
+        return executions.map((execution) => {
+            const attempts = execution.executionId
+                ? attemptsByExecution.get(execution.executionId)
+                : undefined
+            return attempts ? this.toExecution(attempts) : execution
+        })
+    }
+
+    /**
+     * Folds all attempts present in `results` into one execution each. The order
+     * follows the first attempt seen of each execution.
+     */
+    private groupAttempts(results: TestResult[]): TestResult[] {
+        return Array.from(this.groupByExecution(results).values(), (attempts) =>
+            this.toExecution(attempts)
+        )
+    }
+
+    private groupByExecution(results: TestResult[]): Map<string, TestResult[]> {
+        const groups = new Map<string, TestResult[]>()
+        for (const result of results) {
+            const key = result.executionId || result.id
+            const attempts = groups.get(key)
+            if (attempts) {
+                attempts.push(result)
+            } else {
+                groups.set(key, [result])
+            }
+        }
+        return groups
+    }
+
+    private toExecution(attempts: TestResult[]): TestResult {
+        if (attempts.length === 1) return attempts[0]
+
+        const ordered = [...attempts].sort((a, b) => (a.retryCount || 0) - (b.retryCount || 0))
+        const last = ordered[ordered.length - 1]
+        const passedOnRetry =
+            last.status === 'passed' &&
+            ordered.some((attempt) => attempt.status === 'failed' || attempt.status === 'timedOut')
+
+        return {...last, status: passedOnRetry ? 'flaky' : last.status, attempts: ordered}
+    }
+
     /**
      * Mirrors AttachmentRepository.getAttachmentsWithUrls() so that the JOIN-loaded
      * attachments behave identically to the dedicated repository call.
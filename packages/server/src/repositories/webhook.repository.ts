@@ -0,0 +1,223 @@
+import {Webhook, WebhookDelivery, WebhookEvent, WebhookFormat} from '@yshvydak/core'
+import {BaseRepository} from './base.repository'
+
+// Deliveries kept per webhook; older ones are pruned when a new one is logged
+export const MAX_DELIVERIES_PER_WEBHOOK = 50
+
+interface WebhookRow {
+    id: string
+    name: string
+    url: string
+    secret: string | null
+    events: string
+    format: WebhookFormat
+    template: string | null
+    enabled: number
+    created_at: string
+    updated_at: string
+}
+
+interface WebhookDeliveryRow {
+    id: string
+    webhook_id: string
+    event: WebhookEvent
+    status: WebhookDelivery['status']
+    attempts: number
+    response_status: number | null
+    error: string | null
+    payload: string
+    created_at: string
+    completed_at: string | null
+}
+
+// Webhook with its secret, for signing - never returned by the API
+export interface WebhookWithSecret extends Webhook {
+    secret?: string
+}
+
+export interface WebhookData {
+    name: string
+    url: string
+    events: WebhookEvent[]
+    format: WebhookFormat
+    template: string | null
+    enabled: boolean
+    secret: string | null
+}
+
+export interface IWebhookRepository {
+    createWebhook(id: string, data: WebhookData): Promise<void>
+    updateWebhook(id: string, data: WebhookData): Promise<void>
+    deleteWebhook(id: string): Promise<void>
+    getWebhook(id: string): Promise<WebhookWithSecret | null>
+    getWebhooks(): Promise<WebhookWithSecret[]>
+    createDelivery(delivery: WebhookDelivery): Promise<void>
+    updateDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<void>
+    getDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]>
+}
+
+export class WebhookRepository extends BaseRepository implements IWebhookRepository {
+    async createWebhook(id: string, data: WebhookData): Promise<void> {
+        await this.execute(
+            `
+                INSERT INTO webhooks (id, name, url, secret, events, format, template, enabled)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `,
+            [
+                id,
+                data.name,
+                data.url,
+                data.secret,
+                JSON.stringify(data.events),
+                data.format,
+                data.template,
+                data.enabled ? 1 : 0,
+            ]
+        )
+    }
+
+    async updateWebhook(id: string, data: WebhookData): Promise<void> {
+        await this.execute(
+            `
+                UPDATE webhooks
+                SET name = ?, url = ?, secret = ?, events = ?, format = ?, template = ?,
+                    enabled = ?
+                WHERE id = ?
+            `,
+            [
+                data.name,
+                data.url,
+                data.secret,
+                JSON.stringify(data.events),
+                data.format,
+                data.template,
+                data.enabled ? 1 : 0,
+                id,
+            ]
+        )
+    }
+
+    async deleteWebhook(id: string): Promise<void> {
+        await this.execute('DELETE FROM webhooks WHERE id = ?', [id])
+    }
+
+    async getWebhook(id: string): Promise<WebhookWithSecret | null> {
+        const row = await this.queryOne<WebhookRow>('SELECT * FROM webhooks WHERE id = ?', [id])
+        return row ? this.mapWebhookRow(row) : null
+    }
+
+    async getWebhooks(): Promise<WebhookWithSecret[]> {
+        const rows = await this.queryAll<WebhookRow>(
+            'SELECT * FROM webhooks ORDER BY created_at ASC, name ASC'
+        )
+        return rows.map((row) => this.mapWebhookRow(row))
+    }
+
+    async createDelivery(delivery: WebhookDelivery): Promise<void> {
+        await this.execute(
+            `
+                INSERT INTO webhook_deliveries
+                    (id, webhook_id, event, status, attempts, payload, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `,
+            [
+                delivery.id,
+                delivery.webhookId,
+                delivery.event,
+                delivery.status,
+                delivery.attempts,
+                delivery.payload,
+                delivery.createdAt,
+            ]
+        )
+
+        await this.execute(
+            `
+                DELETE FROM webhook_deliveries
+                WHERE webhook_id = ? AND id NOT IN (
+                    SELECT id FROM webhook_deliveries
+                    WHERE webhook_id = ?
+                    ORDER BY created_at DESC, rowid DESC
+                    LIMIT ?
+                )
+            `,
+            [delivery.webhookId, delivery.webhookId, MAX_DELIVERIES_PER_WEBHOOK]
+        )
+    }
+
+    async updateDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<void> {
+        const fields: string[] = []
+        const params: any[] = []
+
+        if (updates.status !== undefined) {
+            fields.push('status = ?')
+            params.push(updates.status)
+        }
+        if (updates.attempts !== undefined) {
+            fields.push('attempts = ?')
+            params.push(updates.attempts)
+        }
+        // Present but undefined clears the outcome of an earlier attempt
+        if ('responseStatus' in updates) {
+            fields.push('response_status = ?')
+            params.push(updates.responseStatus ?? null)
+        }
+        if ('error' in updates) {
+            fields.push('error = ?')
+            params.push(updates.error ?? null)
+        }
+        if (updates.completedAt !== undefined) {
+            fields.push('completed_at = ?')
+            params.push(updates.completedAt)
+        }
+
+        if (fields.length === 0) return
+
+        params.push(id)
+        await this.execute(
+            `UPDATE webhook_deliveries SET ${fields.join(', ')} WHERE id = ?`,
+            params
+        )
+    }
+
+    async getDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+        const rows = await this.queryAll<WebhookDeliveryRow>(
+            `
+                SELECT * FROM webhook_deliveries
+                WHERE webhook_id = ?
+                ORDER BY created_at DESC, rowid DESC
+                LIMIT ?
+            `,
+            [webhookId, limit]
+        )
+
+        return rows.map((row) => ({
+            id: row.id,
+            webhookId: row.webhook_id,
+            event: row.event,
+            status: row.status,
+            attempts: row.attempts,
+            responseStatus: row.response_status ?? undefined,
+            error: row.error || undefined,
+            payload: row.payload,
+            createdAt: row.created_at,
+            completedAt: row.completed_at || undefined,
+        }))
+    }
+
+    private mapWebhookRow(row: WebhookRow): WebhookWithSecret {
+        return {
+            id: row.id,
+            name: row.name,
+            url: row.url,
+            events: JSON.parse(row.events),
+            format: row.format,
+            template: row.template || undefined,
+            enabled: row.enabled === 1,
+            hasSecret: !!row.secret,
+            secret: row.secret || undefined,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        }
+    }
+}
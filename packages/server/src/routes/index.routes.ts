@@ -7,6 +7,9 @@ import {createAuthRoutes} from './auth.routes'
 import {createStorageRoutes} from './storage.routes'
 import {createSettingsRoutes} from './settings.routes'
 import {createPipelineRoutes} from './pipeline.routes'
+import {createWebhookRoutes} from './webhook.routes'
+import {createScheduleRoutes} from './schedule.routes'
+import {createRunQueueRoutes} from './runQueue.routes'
 
 export function createApiRoutes(container: ServiceContainer): Router {
     const router = Router()
@@ -22,6 +25,9 @@ export function createApiRoutes(container: ServiceContainer): Router {
     router.use('/storage', createStorageRoutes(container))
     router.use('/settings', createSettingsRoutes(container))
     router.use('/pipeline', createPipelineRoutes(container))
+    router.use('/queue', createRunQueueRoutes(container))
+    router.use('/webhooks', createWebhookRoutes(container))
+    router.use('/schedules', createScheduleRoutes(container))
     // Note: Attachments are handled via /tests/:id/attachments endpoint
 
     return router
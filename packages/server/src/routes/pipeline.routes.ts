@@ -4,9 +4,14 @@ import {ServiceContainer} from '../middleware/service-injection.middleware'
 
 export function createPipelineRoutes(container: ServiceContainer): Router {
     const router = Router()
-    const pipelineController = new PipelineController(container.pipelineExecutionService)
+    const pipelineController = new PipelineController(
+        container.pipelineExecutionService,
+        container.runQueueService
+    )
 
     router.post('/run', pipelineController.runPipeline)
+    router.get('/history', pipelineController.getPipelineHistory)
+    router.post('/:pipelineRunId/rerun', pipelineController.rerunPipeline)
     // Specific route must come before the parameterized one below
     router.get('/status/current', pipelineController.getCurrentPipelineStatus)
     router.get('/status/:pipelineRunId', pipelineController.getPipelineStatus)
@@ -1,17 +1,35 @@
 import {Router} from 'express'
 import {RunController} from '../controllers/run.controller'
 import {ServiceContainer} from '../middleware/service-injection.middleware'
+import {uploadReportFiles} from '../middleware/upload.middleware'
 
 export function createRunRoutes(container: ServiceContainer): Router {
     const router = Router()
-    const runController = new RunController(container.runRepository)
+    const runController = new RunController(
+        container.runRepository,
+        container.testRepository,
+        container.reportImportService,
+        container.runComparisonService,
+        container.failureGroupService,
+        container.pipelineExecutionService,
+        container.runLogService,
+        container.testService
+    )
 
     router.post('/', runController.createTestRun)
     router.get('/', runController.getAllTestRuns)
     router.put('/:id', runController.updateTestRun)
+    router.post('/:id/cancel', runController.cancelRun)
+    router.post('/:id/rerun-failed', runController.rerunFailedTests)
+    router.post('/import', uploadReportFiles, runController.importRun)
 
-    // IMPORTANT: /stats route must come before /:id route to avoid conflicts
+    // IMPORTANT: /stats and /compare routes must come before /:id route to avoid conflicts
     router.get('/stats', runController.getStats)
+    router.get('/compare', runController.compareRuns)
+    router.get('/:id/export', runController.exportRun)
+    router.get('/:id/log', runController.getRunLog)
+    router.get('/:id/results', runController.getRunResults)
+    router.get('/:id/failure-groups', runController.getRunFailureGroups)
     router.get('/:id', runController.getTestRun)
 
     return router
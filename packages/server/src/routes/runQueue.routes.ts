@@ -0,0 +1,13 @@
+import {Router} from 'express'
+import {RunQueueController} from '../controllers/runQueue.controller'
+import {ServiceContainer} from '../middleware/service-injection.middleware'
+
+export function createRunQueueRoutes(container: ServiceContainer): Router {
+    const router = Router()
+    const runQueueController = new RunQueueController(container.runQueueService)
+
+    router.get('/', runQueueController.getQueue)
+    router.delete('/:id', runQueueController.cancelItem)
+
+    return router
+}
@@ -0,0 +1,21 @@
+import {Router} from 'express'
+import {ScheduleController} from '../controllers/schedule.controller'
+import {ServiceContainer} from '../middleware/service-injection.middleware'
+import {createAuthMiddleware, requireJWT} from '../middleware/auth.middleware'
+
+export function createScheduleRoutes(container: ServiceContainer): Router {
+    const router = Router()
+    const scheduleController = new ScheduleController(container.scheduleService)
+    const authMiddleware = createAuthMiddleware(container.authService)
+
+    // Schedules start runs on their own, so only dashboard users manage them
+    router.use(authMiddleware, requireJWT())
+
+    router.get('/', scheduleController.getSchedules)
+    router.get('/preview', scheduleController.previewSchedule)
+    router.post('/', scheduleController.createSchedule)
+    router.put('/:id', scheduleController.updateSchedule)
+    router.delete('/:id', scheduleController.deleteSchedule)
+
+    return router
+}
@@ -2,20 +2,32 @@ import {Router} from 'express'
 import {TestController} from '../controllers/test.controller'
 import {NoteController} from '../controllers/note.controller'
 import {NoteImageController} from '../controllers/noteImage.controller'
+import {QuarantineController} from '../controllers/quarantine.controller'
 import {uploadSingleImage} from '../middleware/upload.middleware'
 import {ServiceContainer} from '../middleware/service-injection.middleware'
 
 export function createTestRoutes(container: ServiceContainer): Router {
     const router = Router()
-    const testController = new TestController(container.testService, container.authService)
+    const testController = new TestController(
+        container.testService,
+        container.authService,
+        container.failureGroupService,
+        container.durationStatsService,
+        container.flakinessService,
+        container.webhookService,
+        container.runQueueService
+    )
     const noteController = new NoteController(container.noteService)
     const noteImageController = new NoteImageController(container.noteImageService)
+    const quarantineController = new QuarantineController(container.quarantineService)
 
     // Test management endpoints
     router.post('/discovery', testController.discoverTests)
     router.get('/projects', testController.getAvailableProjects)
     router.post('/run-all', testController.runAllTests)
     router.post('/run-group', testController.runTestGroup)
+    router.post('/rerun-failed', testController.rerunFailedTests)
+    router.post('/run-selection', testController.runTestSelection)
 
     // Process notification endpoints
     router.post('/process-start', testController.processStart)
@@ -31,16 +43,21 @@ export function createTestRoutes(container: ServiceContainer): Router {
     router.get('/status-counts', testController.getTestStatusCounts)
     router.get('/flaky', testController.getFlakyTests)
     router.get('/timeline', testController.getTestTimeline)
+    router.get('/failure-groups', testController.getFailureGroups)
+    router.get('/duration-leaderboard', testController.getDurationLeaderboard)
+    router.get('/quarantined', quarantineController.getQuarantinedTests)
     router.get('/diagnostics', testController.getDiagnostics)
     router.delete('/all', testController.clearAllTests)
     router.post('/cleanup', testController.cleanupData)
     router.post('/', testController.createTestResult)
+    router.post('/batch', testController.createTestResultsBatch)
     // Nested route must come before single-param route
     router.delete('/:testId/executions/:executionId', testController.deleteExecution)
     router.get('/:id', testController.getTestById)
     router.delete('/:testId', testController.deleteTest)
     router.post('/:id/rerun', testController.rerunTest)
     router.get('/:id/history', testController.getTestHistory)
+    router.get('/:id/duration-stats', testController.getTestDurationStats)
     router.get('/:id/attachments', testController.getTestAttachments)
 
     // Note endpoints
@@ -48,6 +65,11 @@ export function createTestRoutes(container: ServiceContainer): Router {
     router.post('/:testId/notes', noteController.saveNote)
     router.delete('/:testId/notes', noteController.deleteNote)
 
+    // Quarantine endpoints
+    router.get('/:testId/quarantine', quarantineController.getQuarantine)
+    router.post('/:testId/quarantine', quarantineController.quarantineTest)
+    router.delete('/:testId/quarantine', quarantineController.releaseTest)
+
     // Note image endpoints
     router.post('/:testId/notes/images', uploadSingleImage, noteImageController.uploadImage)
     router.get('/:testId/notes/images', noteImageController.getImages)
@@ -0,0 +1,22 @@
+import {Router} from 'express'
+import {WebhookController} from '../controllers/webhook.controller'
+import {ServiceContainer} from '../middleware/service-injection.middleware'
+import {createAuthMiddleware, requireJWT} from '../middleware/auth.middleware'
+
+export function createWebhookRoutes(container: ServiceContainer): Router {
+    const router = Router()
+    const webhookController = new WebhookController(container.webhookService)
+    const authMiddleware = createAuthMiddleware(container.authService)
+
+    // Webhook URLs and secrets are managed from the dashboard only
+    router.use(authMiddleware, requireJWT())
+
+    router.get('/', webhookController.getWebhooks)
+    router.post('/', webhookController.createWebhook)
+    router.put('/:id', webhookController.updateWebhook)
+    router.delete('/:id', webhookController.deleteWebhook)
+    router.post('/:id/test', webhookController.sendTestEvent)
+    router.get('/:id/deliveries', webhookController.getDeliveries)
+
+    return router
+}
@@ -28,10 +28,28 @@ async function startServer() {
         const wsServer = createWebSocketServer(server)
         setWebSocketManager(wsServer)
 
+        // Reconcile the runs and pipeline left running before a restart, then start
+        // cron schedules and runs left queued
+        await serviceContainer.processRecoveryService.start()
+        serviceContainer.scheduleService.start()
+        serviceContainer.runQueueService.start()
+
         // Graceful shutdown handler
         const gracefulShutdown = (signal: string) => {
             Logger.info(`🛑 Received ${signal}, shutting down gracefully...`)
 
+            // No scheduled or queued runs while shutting down
+            serviceContainer.scheduleService.stop()
+            serviceContainer.runQueueService.stop()
+            serviceContainer.processRecoveryService.stop()
+
+            // Test processes run in their own process group, so they outlive a restart or
+            // reload and the next instance adopts them. PM2 stops with the same signals,
+            // so only Ctrl+C outside of PM2 ends them; cancel runs before a PM2 stop.
+            if (signal === 'SIGINT' && process.env.pm_id === undefined) {
+                serviceContainer.playwrightService.terminateAll()
+            }
+
             // Stop accepting new connections
             server.close(() => {
                 Logger.info('✅ HTTP server closed - no longer accepting connections')
@@ -642,6 +642,177 @@ describe('ActiveProcessesTracker', () => {
         })
     })
 
+    describe('onIdle()', () => {
+        it('should notify when the last process is removed', () => {
+            const listener = vi.fn()
+            tracker.onIdle(listener)
+            tracker.addProcess({runId: 'run-1', type: 'run-all'})
+            tracker.addProcess({runId: 'run-2', type: 'rerun', testId: 'test-123'})
+
+            tracker.removeProcess('run-1')
+            expect(listener).not.toHaveBeenCalled()
+
+            tracker.removeProcess('run-2')
+            tracker.removeProcess('run-2')
+            expect(listener).toHaveBeenCalledTimes(1)
+        })
+
+        it('should notify after a force reset', () => {
+            const listener = vi.fn()
+            tracker.onIdle(listener)
+            tracker.addProcess({runId: 'run-1', type: 'run-all'})
+
+            tracker.forceReset()
+
+            expect(listener).toHaveBeenCalledTimes(1)
+        })
+
+        it('should stop notifying once unsubscribed', () => {
+            const listener = vi.fn()
+            const unsubscribe = tracker.onIdle(listener)
+            tracker.addProcess({runId: 'run-1', type: 'run-all'})
+
+            unsubscribe()
+            tracker.removeProcess('run-1')
+
+            expect(listener).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('persistence', () => {
+        const flushWrites = () => new Promise((resolve) => setImmediate(resolve))
+        let store: {save: any; delete: any; clear: any}
+
+        beforeEach(() => {
+            store = {
+                save: vi.fn().mockResolvedValue(undefined),
+                delete: vi.fn().mockResolvedValue(undefined),
+                clear: vi.fn().mockResolvedValue(undefined),
+            }
+        })
+
+        it('should not persist without a store', () => {
+            tracker.addProcess({runId: 'run-1', type: 'run-all'})
+
+            expect(store.save).not.toHaveBeenCalled()
+        })
+
+        it('should save added processes with their pid and delete removed ones', async () => {
+            tracker.setStore(store)
+
+            tracker.addProcess({runId: 'run-1', type: 'run-all', pid: 4242})
+            tracker.addProcess({runId: 'run-1', type: 'run-all', totalTests: 5})
+            tracker.removeProcess('run-1')
+            await flushWrites()
+
+            expect(store.save).toHaveBeenCalledTimes(2)
+            expect(store.save.mock.lastCall[0].details).toMatchObject({pid: 4242, totalTests: 5})
+            expect(store.delete).toHaveBeenCalledWith('run-1')
+        })
+
+        it('should clear the store on force reset', async () => {
+            tracker.setStore(store)
+
+            tracker.forceReset()
+            await flushWrites()
+
+            expect(store.clear).toHaveBeenCalledTimes(1)
+        })
+
+        it('should keep tracking when a write fails', async () => {
+            store.save.mockRejectedValue(new Error('database is locked'))
+            tracker.setStore(store)
+
+            tracker.addProcess({runId: 'run-1', type: 'run-all'})
+            await flushWrites()
+
+            expect(tracker.isProcessRunning('run-1')).toBe(true)
+            expect(LoggerUtil.Logger.warn).toHaveBeenCalledWith(
+                'Failed to persist active processes',
+                expect.any(Error)
+            )
+        })
+
+        it('should restore a process without saving it again', () => {
+            tracker.setStore(store)
+
+            tracker.restoreProcess({
+                id: 'run-1',
+                type: 'run-all',
+                startedAt: new Date().toISOString(),
+                details: {runId: 'run-1'},
+            })
+
+            expect(tracker.isProcessRunning('run-1')).toBe(true)
+            expect(store.save).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('orphans', () => {
+        const orphan = (runId: string) => ({
+            id: runId,
+            type: 'run-all' as const,
+            startedAt: new Date().toISOString(),
+            details: {runId, project: 'chromium'},
+            progress: {
+                processId: runId,
+                type: 'run-all' as const,
+                totalTests: 10,
+                completedTests: 4,
+                passedTests: 4,
+                failedTests: 0,
+                skippedTests: 0,
+                runningTests: [],
+                startTime: Date.now(),
+            },
+        })
+
+        it('should not count an orphan as running', () => {
+            tracker.addOrphan(orphan('run-1'))
+
+            expect(tracker.isAnyProcessRunning()).toBe(false)
+        })
+
+        it('should re-adopt an orphan when its results keep arriving', () => {
+            const listener = vi.fn()
+            tracker.onReadopt(listener)
+            tracker.addOrphan(orphan('run-1'))
+
+            const progress = tracker.updateProgress('run-1', {
+                testId: 'test-1',
+                name: 'Test',
+                filePath: 'a.spec.ts',
+                status: 'passed',
+            })
+
+            expect(progress?.completedTests).toBe(5)
+            expect(tracker.isProcessRunning('run-1')).toBe(true)
+            expect(listener).toHaveBeenCalledWith(expect.objectContaining({id: 'run-1'}))
+        })
+
+        it('should keep the details of an orphan re-adopted by process-start', () => {
+            tracker.addOrphan(orphan('run-1'))
+
+            tracker.addProcess({runId: 'run-1', type: 'run-all'})
+
+            const [process] = tracker.getActiveProcesses()
+            expect(process.details.project).toBe('chromium')
+            expect(process.progress?.completedTests).toBe(4)
+        })
+
+        it('should forget an orphan that is removed', () => {
+            const listener = vi.fn()
+            tracker.onReadopt(listener)
+            tracker.addOrphan(orphan('run-1'))
+
+            tracker.removeProcess('run-1')
+            tracker.startTest('run-1', {testId: 'test-1', name: 'Test', filePath: 'a.spec.ts'})
+
+            expect(listener).not.toHaveBeenCalled()
+            expect(tracker.isProcessRunning('run-1')).toBe(false)
+        })
+    })
+
     describe('forceReset()', () => {
         beforeEach(() => {
             tracker.addProcess({runId: 'run-1', type: 'run-all'})
@@ -0,0 +1,154 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest'
+import {DurationStatsService} from '../durationStats.service'
+
+const NOW = new Date('2025-03-31T12:00:00.000Z')
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+
+const sample = (testId: string, duration: number, ageDays: number, project = 'chromium') => ({
+    testId,
+    name: `${testId} name`,
+    filePath: `${testId}.spec.ts`,
+    project,
+    duration,
+    createdAt: daysAgo(ageDays),
+})
+
+describe('DurationStatsService', () => {
+    let service: DurationStatsService
+    let mockTestRepository: any
+
+    beforeEach(() => {
+        vi.useFakeTimers()
+        vi.setSystemTime(NOW)
+        mockTestRepository = {
+            getPassedDurations: vi.fn().mockResolvedValue([]),
+        }
+        service = new DurationStatsService(mockTestRepository)
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    describe('getTestDurationStats', () => {
+        it('should compute nearest-rank percentiles', async () => {
+            mockTestRepository.getPassedDurations.mockResolvedValue(
+                [500, 100, 400, 200, 300, 600, 700, 800, 900, 1000].map((duration, i) =>
+                    sample('login', duration, 10 - i)
+                )
+            )
+
+            const stats = await service.getTestDurationStats('login', 14)
+
+            expect(mockTestRepository.getPassedDurations).toHaveBeenCalledWith({
+                days: 14,
+                testId: 'login',
+            })
+            expect(stats).toEqual({
+                testId: 'login',
+                days: 14,
+                samples: 10,
+                p50: 500,
+                p95: 1000,
+                min: 100,
+                max: 1000,
+            })
+        })
+
+        it('should return zeros without passed executions', async () => {
+            expect(await service.getTestDurationStats('login')).toEqual({
+                testId: 'login',
+                days: 30,
+                samples: 0,
+                p50: 0,
+                p95: 0,
+                min: 0,
+                max: 0,
+            })
+        })
+    })
+
+    describe('getDurationLeaderboard', () => {
+        it('should rank tests by median duration of the recent window', async () => {
+            mockTestRepository.getPassedDurations.mockResolvedValue([
+                sample('fast', 100, 3),
+                sample('slow', 5000, 3),
+                sample('slow', 7000, 2),
+                sample('medium', 1000, 1),
+                // Only in the previous window: not part of the leaderboard
+                sample('gone', 9000, 10),
+            ])
+
+            const leaderboard = await service.getDurationLeaderboard({days: 7, project: 'chromium'})
+
+            expect(mockTestRepository.getPassedDurations).toHaveBeenCalledWith({
+                days: 14,
+                project: 'chromium',
+            })
+            expect(leaderboard.days).toBe(7)
+            expect(leaderboard.project).toBe('chromium')
+            expect(leaderboard.slowest.map((entry) => entry.testId)).toEqual([
+                'slow',
+                'medium',
+                'fast',
+            ])
+            expect(leaderboard.slowest[0]).toMatchObject({
+                name: 'slow name',
+                filePath: 'slow.spec.ts',
+                project: 'chromium',
+                samples: 2,
+                p50: 5000,
+                p95: 7000,
+            })
+        })
+
+        it('should list tests whose median grew compared to the previous window', async () => {
+            mockTestRepository.getPassedDurations.mockResolvedValue([
+                // checkout: 1000ms -> 2000ms
+                ...[10, 9, 8].map((age) => sample('checkout', 1000, age)),
+                ...[3, 2, 1].map((age) => sample('checkout', 2000, age)),
+                // search: 1000ms -> 1500ms
+                ...[10, 9, 8].map((age) => sample('search', 1000, age)),
+                ...[3, 2, 1].map((age) => sample('search', 1500, age)),
+                // profile: below the minimum delta
+                ...[10, 9, 8].map((age) => sample('profile', 1000, age)),
+                ...[3, 2, 1].map((age) => sample('profile', 1050, age)),
+                // cart: not enough previous samples to compare
+                sample('cart', 100, 10),
+                ...[3, 2, 1].map((age) => sample('cart', 5000, age)),
+            ])
+
+            const {slowdowns} = await service.getDurationLeaderboard({days: 7})
+
+            expect(slowdowns).toEqual([
+                expect.objectContaining({
+                    testId: 'checkout',
+                    previousP50: 1000,
+                    p50: 2000,
+                    change: 100,
+                }),
+                expect.objectContaining({
+                    testId: 'search',
+                    previousP50: 1000,
+                    p50: 1500,
+                    change: 50,
+                }),
+            ])
+        })
+
+        it('should limit both lists', async () => {
+            mockTestRepository.getPassedDurations.mockResolvedValue(
+                ['a', 'b', 'c'].map((testId, i) => sample(testId, (i + 1) * 100, 1))
+            )
+
+            const leaderboard = await service.getDurationLeaderboard({limit: 2})
+
+            expect(mockTestRepository.getPassedDurations).toHaveBeenCalledWith({
+                days: 60,
+                project: undefined,
+            })
+            expect(leaderboard.slowest.map((entry) => entry.testId)).toEqual(['c', 'b'])
+        })
+    })
+})
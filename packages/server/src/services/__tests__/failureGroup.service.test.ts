@@ -0,0 +1,87 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {FailureGroupService} from '../failureGroup.service'
+
+const failure = (
+    id: string,
+    testId: string,
+    errorSignature: string,
+    createdAt: string,
+    errorMessage = errorSignature
+) => ({
+    id,
+    testId,
+    runId: 'run-1',
+    name: testId,
+    filePath: 'app.spec.ts',
+    project: 'chromium',
+    status: 'failed',
+    duration: 1000,
+    errorMessage,
+    errorSignature,
+    createdAt,
+    timestamp: createdAt,
+})
+
+describe('FailureGroupService', () => {
+    let service: FailureGroupService
+    let mockTestRepository: any
+
+    beforeEach(() => {
+        mockTestRepository = {
+            getFailedExecutions: vi.fn().mockResolvedValue([]),
+        }
+        service = new FailureGroupService(mockTestRepository)
+    })
+
+    it('should group failures by signature, widest groups first', async () => {
+        // Newest first, as the repository returns them
+        mockTestRepository.getFailedExecutions.mockResolvedValue([
+            failure('e5', 'checkout', 'Error: login page down', '2025-03-03 10:00:00'),
+            failure('e4', 'profile', 'Error: login page down', '2025-03-03 10:00:00'),
+            failure('e3', 'search', 'Expected: <n>', '2025-03-02 10:00:00', 'Expected: 5'),
+            failure('e2', 'search', 'Expected: <n>', '2025-03-01 10:00:00', 'Expected: 4'),
+            failure('e1', 'checkout', 'Error: login page down', '2025-03-01 10:00:00'),
+        ])
+
+        const groups = await service.getFailureGroups(7)
+
+        expect(mockTestRepository.getFailedExecutions).toHaveBeenCalledWith({days: 7})
+        expect(groups).toHaveLength(2)
+        expect(groups[0]).toMatchObject({
+            signature: 'Error: login page down',
+            failures: 3,
+            firstFailedAt: '2025-03-01 10:00:00',
+            lastFailedAt: '2025-03-03 10:00:00',
+        })
+        expect(groups[0].tests).toEqual([
+            expect.objectContaining({testId: 'checkout', resultId: 'e5', failures: 2}),
+            expect.objectContaining({testId: 'profile', resultId: 'e4', failures: 1}),
+        ])
+        expect(groups[1]).toMatchObject({
+            signature: 'Expected: <n>',
+            message: 'Expected: 5',
+            failures: 2,
+        })
+    })
+
+    it('should group the failures of one run', async () => {
+        mockTestRepository.getFailedExecutions.mockResolvedValue([
+            failure('e1', 'login', 'Error: boom', '2025-03-01 10:00:00'),
+        ])
+
+        const groups = await service.getRunFailureGroups('run-1')
+
+        expect(mockTestRepository.getFailedExecutions).toHaveBeenCalledWith({runId: 'run-1'})
+        expect(groups[0].tests[0]).toMatchObject({
+            testId: 'login',
+            runId: 'run-1',
+            project: 'chromium',
+            status: 'failed',
+        })
+    })
+
+    it('should return no groups without failures', async () => {
+        expect(await service.getFailureGroups()).toEqual([])
+        expect(mockTestRepository.getFailedExecutions).toHaveBeenCalledWith({days: 7})
+    })
+})
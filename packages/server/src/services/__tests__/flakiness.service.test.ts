@@ -0,0 +1,99 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {ExecutionOutcome} from '@yshvydak/core'
+import {FlakinessService} from '../flakiness.service'
+
+// One row per outcome, oldest first, a day apart
+const history = (testId: string, outcomes: ExecutionOutcome[]) =>
+    outcomes.map((outcome, i) => ({
+        testId,
+        name: `${testId} name`,
+        filePath: `${testId}.spec.ts`,
+        project: 'chromium',
+        outcome,
+        createdAt: `2025-03-${String(i + 1).padStart(2, '0')}T10:00:00.000Z`,
+    }))
+
+describe('FlakinessService', () => {
+    let service: FlakinessService
+    let mockTestRepository: any
+
+    beforeEach(() => {
+        mockTestRepository = {
+            getExecutionOutcomes: vi.fn().mockResolvedValue([]),
+        }
+        service = new FlakinessService(mockTestRepository)
+    })
+
+    it('should read outcomes of the window and project', async () => {
+        await service.getFlakyTests({days: 7, project: 'chromium'})
+
+        expect(mockTestRepository.getExecutionOutcomes).toHaveBeenCalledWith({
+            days: 7,
+            project: 'chromium',
+        })
+    })
+
+    it('should not score a result change that sticks', async () => {
+        mockTestRepository.getExecutionOutcomes.mockResolvedValue([
+            ...history('broken', ['passed', 'passed', 'failed', 'failed', 'failed']),
+            ...history('fixed', ['failed', 'failed', 'passed', 'passed', 'passed']),
+        ])
+
+        const {tests, total} = await service.getFlakyTests({threshold: 0})
+
+        expect(tests).toEqual([])
+        expect(total).toBe(0)
+    })
+
+    it('should count flips that did not stick and passes on retry', async () => {
+        mockTestRepository.getExecutionOutcomes.mockResolvedValue(
+            history('checkout', ['passed', 'failed', 'passed', 'flaky', 'passed'])
+        )
+
+        const [test] = (await service.getFlakyTests()).tests
+
+        // failed (flip) and flaky (retry) out of 5, passing again afterwards sticks
+        expect(test).toMatchObject({
+            testId: 'checkout',
+            name: 'checkout name',
+            project: 'chromium',
+            totalRuns: 5,
+            passedRuns: 3,
+            failedRuns: 1,
+            flakyRuns: 1,
+            flips: 1,
+            score: 40,
+            lastFlipAt: '2025-03-04T10:00:00.000Z',
+            lastRun: '2025-03-05T10:00:00.000Z',
+            history: ['passed', 'failed', 'passed', 'flaky', 'passed'],
+        })
+    })
+
+    it('should report the trend between the older and newer half', async () => {
+        mockTestRepository.getExecutionOutcomes.mockResolvedValue([
+            ...history('rising', ['passed', 'passed', 'passed', 'flaky', 'passed', 'flaky']),
+            ...history('falling', ['flaky', 'flaky', 'passed', 'passed', 'passed', 'passed']),
+            ...history('stable', ['flaky', 'passed', 'passed', 'flaky', 'passed', 'passed']),
+        ])
+
+        const {tests} = await service.getFlakyTests()
+        const trend = Object.fromEntries(tests.map((test) => [test.testId, test.trend]))
+
+        expect(trend).toEqual({rising: 'rising', falling: 'falling', stable: 'stable'})
+    })
+
+    it('should page the tests ordered by score', async () => {
+        mockTestRepository.getExecutionOutcomes.mockResolvedValue([
+            ...history('low', ['passed', 'passed', 'passed', 'failed']),
+            ...history('high', ['passed', 'failed', 'passed', 'failed']),
+            ...history('medium', ['passed', 'failed']),
+        ])
+
+        const firstPage = await service.getFlakyTests({limit: 2})
+        const secondPage = await service.getFlakyTests({limit: 2, offset: 2})
+
+        expect(firstPage.tests.map((test) => test.testId)).toEqual(['high', 'medium'])
+        expect(firstPage.total).toBe(3)
+        expect(secondPage.tests.map((test) => test.testId)).toEqual(['low'])
+    })
+})
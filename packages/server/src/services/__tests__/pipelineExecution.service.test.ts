@@ -33,13 +33,16 @@ describe('PipelineExecutionService', () => {
     let mockSettingsService: any
     let mockRunRepository: any
     let mockWebSocketService: any
+    let mockQuarantineService: any
+    let mockWebhookService: any
+    let mockPipelineRunRepository: any
 
     beforeEach(() => {
         vi.clearAllMocks()
         vi.mocked(activeProcessesTracker.isAnyProcessRunning).mockReturnValue(false)
         vi.mocked(activeProcessesTracker.getActiveProcesses).mockReturnValue([])
 
-        mockTestService = {runAllTests: vi.fn()}
+        mockTestService = {runAllTests: vi.fn(), cancelRun: vi.fn().mockResolvedValue(true)}
         mockSettingsService = {
             getCIAutoRunPause: vi.fn().mockResolvedValue({paused: false, resumeAt: null}),
             setCIAutoRunPause: vi.fn(),
@@ -52,12 +55,22 @@ describe('PipelineExecutionService', () => {
             broadcastPipelineStepCompleted: vi.fn(),
             broadcastPipelineCompleted: vi.fn(),
         }
+        mockQuarantineService = {getQuarantinedFailureCount: vi.fn().mockResolvedValue(0)}
+        mockWebhookService = {dispatch: vi.fn().mockResolvedValue(undefined)}
+        mockPipelineRunRepository = {
+            savePipelineRun: vi.fn().mockResolvedValue(undefined),
+            getPipelineRun: vi.fn().mockResolvedValue(null),
+            getPipelineRuns: vi.fn().mockResolvedValue([]),
+        }
 
         service = new PipelineExecutionService(
             mockTestService,
             mockSettingsService,
             mockRunRepository,
-            mockWebSocketService
+            mockWebSocketService,
+            mockQuarantineService,
+            mockWebhookService,
+            mockPipelineRunRepository
         )
     })
 
@@ -87,6 +100,14 @@ describe('PipelineExecutionService', () => {
             )
         })
 
+        it('throws CI_AUTORUN_PAUSED for scheduled pipelines when paused', async () => {
+            mockSettingsService.getCIAutoRunPause.mockResolvedValue({paused: true, resumeAt: null})
+
+            await expect(service.startPipeline(undefined, 'schedule')).rejects.toThrow(
+                'CI_AUTORUN_PAUSED'
+            )
+        })
+
         it('does not check CI auto-run pause when source is not "script"', async () => {
             mockSettingsService.getPipelineSteps.mockResolvedValue([
                 {project: 'A', displayName: 'A', stopPipelineOnFailure: false},
@@ -146,7 +167,8 @@ describe('PipelineExecutionService', () => {
                 2,
                 false,
                 'API_Tests',
-                undefined
+                undefined,
+                pipeline.pipelineRunId
             )
 
             proc1.emit('close', 0)
@@ -157,7 +179,8 @@ describe('PipelineExecutionService', () => {
                 2,
                 false,
                 'All_Tests',
-                undefined
+                undefined,
+                pipeline.pipelineRunId
             )
 
             proc2.emit('close', 0)
@@ -171,6 +194,13 @@ describe('PipelineExecutionService', () => {
                 'completed',
                 expect.any(Array)
             )
+            expect(mockWebhookService.dispatch).toHaveBeenCalledWith(
+                'pipeline:completed',
+                expect.objectContaining({
+                    pipelineRunId: pipeline.pipelineRunId,
+                    status: 'completed',
+                })
+            )
         })
 
         it('stops remaining steps when a blocking step fails', async () => {
@@ -195,6 +225,65 @@ describe('PipelineExecutionService', () => {
             expect(mockTestService.runAllTests).toHaveBeenCalledTimes(1)
         })
 
+        it('does not stop on a blocking step whose only failures are quarantined', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                {project: 'API_Tests', displayName: 'API Tests', stopPipelineOnFailure: true},
+                {project: 'All_Tests', displayName: 'WEB Tests (CI)', stopPipelineOnFailure: false},
+            ])
+            const proc1 = createMockProcess()
+            const proc2 = createMockProcess()
+            mockTestService.runAllTests
+                .mockResolvedValueOnce({runId: 'run-1', process: proc1})
+                .mockResolvedValueOnce({runId: 'run-2', process: proc2})
+            mockRunRepository.getTestRun
+                .mockResolvedValueOnce({passedTests: 8, failedTests: 2})
+                .mockResolvedValueOnce({passedTests: 5, failedTests: 0})
+            mockQuarantineService.getQuarantinedFailureCount.mockResolvedValueOnce(2)
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+
+            proc1.emit('close', 1)
+            await flushPromises()
+            proc2.emit('close', 0)
+            await flushPromises()
+
+            const finalState = service.getPipeline(pipeline.pipelineRunId)
+            expect(mockQuarantineService.getQuarantinedFailureCount).toHaveBeenCalledWith('run-1')
+            expect(finalState?.status).toBe('completed')
+            expect(finalState?.steps[0]).toMatchObject({
+                status: 'success',
+                failed: 0,
+                quarantined: 2,
+            })
+            expect(mockTestService.runAllTests).toHaveBeenCalledTimes(2)
+        })
+
+        it('still stops when a blocking step has failures outside quarantine', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                {project: 'API_Tests', displayName: 'API Tests', stopPipelineOnFailure: true},
+                {project: 'All_Tests', displayName: 'WEB Tests (CI)', stopPipelineOnFailure: false},
+            ])
+            const proc1 = createMockProcess()
+            mockTestService.runAllTests.mockResolvedValueOnce({runId: 'run-1', process: proc1})
+            mockRunRepository.getTestRun.mockResolvedValueOnce({passedTests: 7, failedTests: 3})
+            mockQuarantineService.getQuarantinedFailureCount.mockResolvedValueOnce(1)
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+
+            proc1.emit('close', 1)
+            await flushPromises()
+
+            const finalState = service.getPipeline(pipeline.pipelineRunId)
+            expect(finalState?.status).toBe('stopped_early')
+            expect(finalState?.steps[0]).toMatchObject({
+                status: 'failed',
+                failed: 2,
+                quarantined: 1,
+            })
+        })
+
         it('continues past a non-blocking failure (known-issue case)', async () => {
             mockSettingsService.getPipelineSteps.mockResolvedValue([
                 {project: 'API_Tests', displayName: 'API Tests', stopPipelineOnFailure: true},
@@ -240,6 +329,266 @@ describe('PipelineExecutionService', () => {
         })
     })
 
+    describe('stages and dependencies', () => {
+        let processes: Record<string, EventEmitter>
+        let failedTests: Record<string, number>
+
+        const tab = (project: string, extra: object = {}) => ({
+            project,
+            displayName: project,
+            stopPipelineOnFailure: false,
+            ...extra,
+        })
+        const startedProjects = () =>
+            mockTestService.runAllTests.mock.calls.map((call: any[]) => call[2])
+        const finishStep = async (project: string) => {
+            processes[project].emit('close', failedTests[project] ? 1 : 0)
+            await flushPromises()
+        }
+
+        beforeEach(() => {
+            processes = {}
+            failedTests = {}
+            mockTestService.runAllTests.mockImplementation(
+                async (_workers: number, _skip: boolean, project: string) => {
+                    processes[project] = createMockProcess()
+                    return {runId: `run-${project}`, process: processes[project]}
+                }
+            )
+            mockRunRepository.getTestRun.mockImplementation(async (runId: string) => ({
+                passedTests: 1,
+                failedTests: failedTests[runId.replace('run-', '')] ?? 0,
+            }))
+        })
+
+        it('runs the steps of a stage in parallel, each with its own workers', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                tab('Smoke', {pipelineStage: 1}),
+                tab('API', {pipelineStage: 2, workers: 2}),
+                tab('UI', {pipelineStage: 2, workers: 4}),
+                tab('E2E', {pipelineStage: 3}),
+            ])
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+            expect(startedProjects()).toEqual(['Smoke'])
+
+            await finishStep('Smoke')
+            expect(startedProjects()).toEqual(['Smoke', 'API', 'UI'])
+            expect(mockTestService.runAllTests).toHaveBeenCalledWith(
+                2,
+                false,
+                'API',
+                undefined,
+                pipeline.pipelineRunId
+            )
+            expect(mockTestService.runAllTests).toHaveBeenCalledWith(
+                4,
+                false,
+                'UI',
+                undefined,
+                pipeline.pipelineRunId
+            )
+
+            await finishStep('UI')
+            expect(startedProjects()).toHaveLength(3)
+
+            await finishStep('API')
+            expect(startedProjects()).toEqual(['Smoke', 'API', 'UI', 'E2E'])
+
+            await finishStep('E2E')
+            expect(service.getPipeline(pipeline.pipelineRunId)?.status).toBe('completed')
+        })
+
+        it('gives steps without a stage their position in the pipeline', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                tab('A'),
+                tab('B'),
+                tab('C', {pipelineStage: 2}),
+            ])
+
+            const pipeline = await service.startPipeline()
+
+            expect(pipeline.steps.map((step) => step.stage)).toEqual([1, 2, 2])
+        })
+
+        it('starts a step as soon as the steps it depends on have finished', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                tab('Smoke', {pipelineStage: 1}),
+                tab('API', {pipelineStage: 1}),
+                tab('Contract', {pipelineStage: 2, dependsOn: ['API']}),
+            ])
+
+            await service.startPipeline()
+            await flushPromises()
+            await finishStep('API')
+
+            expect(startedProjects()).toEqual(['Smoke', 'API', 'Contract'])
+        })
+
+        it('skips a step that only runs when the previous stage passed', async () => {
+            failedTests = {API: 2}
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                tab('API', {pipelineStage: 1}),
+                tab('UI', {pipelineStage: 1}),
+                tab('E2E', {pipelineStage: 2, runCondition: 'previous_passed'}),
+                tab('Report', {pipelineStage: 2}),
+            ])
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+            await finishStep('API')
+            await finishStep('UI')
+            await finishStep('Report')
+
+            const finalState = service.getPipeline(pipeline.pipelineRunId)
+            expect(startedProjects()).toEqual(['API', 'UI', 'Report'])
+            expect(finalState?.status).toBe('completed')
+            expect(finalState?.steps.map((step) => step.status)).toEqual([
+                'failed',
+                'success',
+                'skipped',
+                'success',
+            ])
+            expect(mockWebSocketService.broadcastPipelineStepCompleted).toHaveBeenCalledWith(
+                pipeline.pipelineRunId,
+                expect.objectContaining({project: 'E2E', status: 'skipped'})
+            )
+        })
+
+        it('still runs a step set to always run after a blocking failure', async () => {
+            failedTests = {Smoke: 1}
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                tab('Smoke', {stopPipelineOnFailure: true}),
+                tab('API'),
+                tab('Cleanup', {runCondition: 'always'}),
+            ])
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+            await finishStep('Smoke')
+            await finishStep('Cleanup')
+
+            const finalState = service.getPipeline(pipeline.pipelineRunId)
+            expect(startedProjects()).toEqual(['Smoke', 'Cleanup'])
+            expect(finalState?.status).toBe('stopped_early')
+            expect(finalState?.steps.map((step) => step.status)).toEqual([
+                'failed',
+                'skipped',
+                'success',
+            ])
+        })
+
+        it('lets the other steps of a stage finish after a blocking failure', async () => {
+            failedTests = {API: 1}
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                tab('API', {pipelineStage: 1, stopPipelineOnFailure: true}),
+                tab('UI', {pipelineStage: 1}),
+                tab('E2E', {pipelineStage: 2}),
+            ])
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+            await finishStep('API')
+            expect(service.isPipelineRunning()).toBe(true)
+
+            await finishStep('UI')
+
+            const finalState = service.getPipeline(pipeline.pipelineRunId)
+            expect(finalState?.status).toBe('stopped_early')
+            expect(finalState?.steps.map((step) => step.status)).toEqual([
+                'failed',
+                'success',
+                'skipped',
+            ])
+        })
+
+        it('waits for the other steps of a stage when a step cannot be evaluated', async () => {
+            mockRunRepository.getTestRun.mockImplementation(async (runId: string) => {
+                if (runId === 'run-API') throw new Error('database is locked')
+                return {passedTests: 1, failedTests: 0}
+            })
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                tab('API', {pipelineStage: 1}),
+                tab('UI', {pipelineStage: 1}),
+                tab('E2E', {pipelineStage: 2}),
+            ])
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+            await finishStep('API')
+
+            // UI still runs Playwright, so the pipeline waits for it
+            expect(service.isPipelineRunning()).toBe(true)
+            expect(service.getPipeline(pipeline.pipelineRunId)?.steps[0].status).toBe('failed')
+
+            await finishStep('UI')
+
+            const finalState = service.getPipeline(pipeline.pipelineRunId)
+            expect(finalState?.status).toBe('stopped_early')
+            expect(finalState?.steps.map((step) => step.status)).toEqual([
+                'failed',
+                'success',
+                'skipped',
+            ])
+            expect(startedProjects()).toEqual(['API', 'UI'])
+        })
+
+        it('cancels the steps running beside a cancelled one', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                tab('API', {pipelineStage: 1}),
+                tab('UI', {pipelineStage: 1}),
+                tab('E2E', {pipelineStage: 2}),
+            ])
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+            await service.cancelRun('run-API')
+            await finishStep('API')
+            await finishStep('UI')
+
+            const finalState = service.getPipeline(pipeline.pipelineRunId)
+            expect(mockTestService.cancelRun).toHaveBeenCalledWith('run-API')
+            expect(mockTestService.cancelRun).toHaveBeenCalledWith('run-UI')
+            expect(finalState?.status).toBe('cancelled')
+            expect(finalState?.steps.map((step) => step.status)).toEqual([
+                'cancelled',
+                'cancelled',
+                'cancelled',
+            ])
+        })
+
+        it('re-runs a step without the steps it depends on right away', async () => {
+            mockPipelineRunRepository.getPipelineRun.mockResolvedValue({
+                pipelineRunId: 'old',
+                status: 'completed',
+                startedAt: '2026-01-01T00:00:00.000Z',
+                steps: [
+                    {...tab('API'), stopOnFailure: false, status: 'success', stage: 1},
+                    {
+                        ...tab('Contract'),
+                        stopOnFailure: false,
+                        status: 'failed',
+                        stage: 2,
+                        dependsOn: ['API'],
+                        runCondition: 'previous_passed',
+                    },
+                ],
+            })
+
+            const pipeline = await service.rerunPipeline('old', 'failed')
+            await flushPromises()
+
+            expect(pipeline?.steps[0]).toMatchObject({
+                project: 'Contract',
+                stage: 2,
+                dependsOn: ['API'],
+                runCondition: 'previous_passed',
+            })
+            expect(startedProjects()).toEqual(['Contract'])
+        })
+    })
+
     describe('per-step workers override', () => {
         it('uses a step-level workers override instead of the global maxWorkers', async () => {
             mockSettingsService.getPipelineSteps.mockResolvedValue([
@@ -262,7 +611,8 @@ describe('PipelineExecutionService', () => {
                 4,
                 false,
                 'API_Tests',
-                undefined
+                undefined,
+                expect.any(String)
             )
         })
 
@@ -282,7 +632,8 @@ describe('PipelineExecutionService', () => {
                 2,
                 false,
                 'WEB_Tests',
-                undefined
+                undefined,
+                expect.any(String)
             )
         })
 
@@ -318,7 +669,8 @@ describe('PipelineExecutionService', () => {
                 4,
                 false,
                 'API_Tests',
-                undefined
+                undefined,
+                expect.any(String)
             )
 
             proc1.emit('close', 0)
@@ -329,7 +681,8 @@ describe('PipelineExecutionService', () => {
                 2,
                 false,
                 'WEB_Tests',
-                undefined
+                undefined,
+                expect.any(String)
             )
         })
     })
@@ -343,4 +696,385 @@ describe('PipelineExecutionService', () => {
             expect(service.getCurrentPipeline()).toBeNull()
         })
     })
+
+    describe('persistence', () => {
+        it('saves the pipeline state on start, on each step and when it finishes', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                {project: 'A', displayName: 'A', stopPipelineOnFailure: false},
+            ])
+            const proc = createMockProcess()
+            mockTestService.runAllTests.mockResolvedValue({runId: 'run-1', process: proc})
+            mockRunRepository.getTestRun.mockResolvedValue({passedTests: 3, failedTests: 0})
+
+            const pipeline = await service.startPipeline(undefined, 'schedule')
+            await flushPromises()
+            proc.emit('close', 0)
+            await flushPromises()
+
+            const saved = mockPipelineRunRepository.savePipelineRun.mock.calls.map(
+                ([state]: any[]) => [state.status, state.steps[0].status]
+            )
+            expect(saved).toEqual([
+                ['running', 'queued'],
+                ['running', 'running'],
+                ['running', 'success'],
+                ['completed', 'success'],
+            ])
+            const last = mockPipelineRunRepository.savePipelineRun.mock.lastCall[0]
+            expect(last).toMatchObject({
+                pipelineRunId: pipeline.pipelineRunId,
+                source: 'schedule',
+                finishedAt: expect.any(String),
+            })
+        })
+
+        it('keeps running when the state cannot be saved', async () => {
+            mockPipelineRunRepository.savePipelineRun.mockRejectedValue(new Error('disk full'))
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                {project: 'A', displayName: 'A', stopPipelineOnFailure: false},
+            ])
+            const proc = createMockProcess()
+            mockTestService.runAllTests.mockResolvedValue({runId: 'run-1', process: proc})
+            mockRunRepository.getTestRun.mockResolvedValue({passedTests: 1, failedTests: 0})
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+            proc.emit('close', 0)
+            await flushPromises()
+
+            expect(service.getPipeline(pipeline.pipelineRunId)?.status).toBe('completed')
+        })
+    })
+
+    describe('findPipeline()', () => {
+        it('returns the running pipeline without reading the database', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                {project: 'A', displayName: 'A', stopPipelineOnFailure: false},
+            ])
+            mockTestService.runAllTests.mockResolvedValue({
+                runId: 'run-1',
+                process: createMockProcess(),
+            })
+
+            const pipeline = await service.startPipeline()
+
+            expect(await service.findPipeline(pipeline.pipelineRunId)).toBe(
+                service.getCurrentPipeline()
+            )
+            expect(mockPipelineRunRepository.getPipelineRun).not.toHaveBeenCalled()
+        })
+
+        it('looks up an earlier pipeline in the database', async () => {
+            const stored = {
+                pipelineRunId: 'old',
+                status: 'interrupted',
+                steps: [],
+                startedAt: '2026-01-01T00:00:00.000Z',
+            }
+            mockPipelineRunRepository.getPipelineRun.mockResolvedValue(stored)
+
+            expect(await service.findPipeline('old')).toEqual(stored)
+            expect(mockPipelineRunRepository.getPipelineRun).toHaveBeenCalledWith('old')
+        })
+    })
+
+    describe('rerunPipeline()', () => {
+        const step = (project: string, status: string, extra: object = {}) => ({
+            project,
+            displayName: project,
+            stopOnFailure: false,
+            status,
+            ...extra,
+        })
+        const finished = (status: string, steps: object[]) => ({
+            pipelineRunId: 'old',
+            status,
+            steps,
+            startedAt: '2026-01-01T00:00:00.000Z',
+        })
+
+        beforeEach(() => {
+            mockTestService.runAllTests.mockImplementation(async () => ({
+                runId: `run-${mockTestService.runAllTests.mock.calls.length}`,
+                process: createMockProcess(),
+            }))
+        })
+
+        it('runs the failed steps again, with the workers they ran with', async () => {
+            mockPipelineRunRepository.getPipelineRun.mockResolvedValue(
+                finished('completed', [
+                    step('A', 'success'),
+                    step('B', 'failed', {workers: 2, runId: 'run-b', passed: 1, failed: 3}),
+                    step('C', 'success'),
+                ])
+            )
+
+            const pipeline = await service.rerunPipeline('old', 'failed')
+
+            expect(pipeline?.rerunOf).toBe('old')
+            // As saved on start, before the step began
+            const started = mockPipelineRunRepository.savePipelineRun.mock.calls[0][0]
+            expect(started.steps).toEqual([
+                {
+                    project: 'B',
+                    displayName: 'B',
+                    stopOnFailure: false,
+                    status: 'queued',
+                    // Its position in the pipeline it ran in
+                    stage: 2,
+                    workers: 2,
+                },
+            ])
+            await flushPromises()
+            expect(mockTestService.runAllTests).toHaveBeenCalledWith(
+                2,
+                false,
+                'B',
+                undefined,
+                pipeline?.pipelineRunId
+            )
+        })
+
+        it('resumes from the step that stopped the pipeline', async () => {
+            mockPipelineRunRepository.getPipelineRun.mockResolvedValue(
+                finished('stopped_early', [
+                    step('A', 'success'),
+                    step('B', 'failed', {stopOnFailure: true}),
+                    step('C', 'skipped'),
+                ])
+            )
+
+            await service.rerunPipeline('old', 'resume')
+
+            const started = mockPipelineRunRepository.savePipelineRun.mock.calls[0][0]
+            expect(started.steps.map((s: any) => [s.project, s.status])).toEqual([
+                ['B', 'queued'],
+                ['C', 'queued'],
+            ])
+        })
+
+        it('resumes with the blocking failure and the steps that did not run', async () => {
+            mockPipelineRunRepository.getPipelineRun.mockResolvedValue(
+                finished('stopped_early', [
+                    step('A', 'failed', {stopOnFailure: true, runId: 'run-a', stage: 1}),
+                    step('B', 'success', {stage: 1}),
+                    step('C', 'failed', {runId: 'run-c', stage: 1}),
+                    step('D', 'skipped', {stage: 2}),
+                ])
+            )
+
+            const pipeline = await service.rerunPipeline('old', 'resume')
+
+            expect(pipeline?.steps.map((s) => s.project)).toEqual(['A', 'D'])
+        })
+
+        it('resumes an interrupted pipeline from its cut-off step', async () => {
+            mockPipelineRunRepository.getPipelineRun.mockResolvedValue(
+                finished('interrupted', [
+                    step('A', 'failed'),
+                    step('B', 'cancelled'),
+                    step('C', 'skipped'),
+                ])
+            )
+
+            const pipeline = await service.rerunPipeline('old', 'resume')
+
+            expect(pipeline?.steps.map((s) => s.project)).toEqual(['B', 'C'])
+        })
+
+        it('returns null for an unknown pipeline', async () => {
+            expect(await service.rerunPipeline('missing', 'failed')).toBeNull()
+        })
+
+        it('rejects a pipeline without anything to re-run', async () => {
+            mockPipelineRunRepository.getPipelineRun.mockResolvedValue(
+                finished('completed', [step('A', 'success')])
+            )
+
+            await expect(service.rerunPipeline('old', 'failed')).rejects.toThrow(
+                'Invalid pipeline re-run: no step failed'
+            )
+            await expect(service.rerunPipeline('old', 'resume')).rejects.toThrow(
+                'Invalid pipeline re-run: the pipeline did not stop early'
+            )
+            expect(mockTestService.runAllTests).not.toHaveBeenCalled()
+        })
+
+        it('rejects a pipeline still running and an unknown mode', async () => {
+            mockPipelineRunRepository.getPipelineRun.mockResolvedValue(
+                finished('running', [step('A', 'failed')])
+            )
+
+            await expect(service.rerunPipeline('old', 'failed')).rejects.toThrow(
+                'Invalid pipeline re-run: the pipeline is still running'
+            )
+            await expect(service.rerunPipeline('old', 'all' as any)).rejects.toThrow(
+                'Invalid pipeline re-run: mode must be one of failed, resume'
+            )
+        })
+
+        it('throws TESTS_ALREADY_RUNNING while a process is active', async () => {
+            vi.mocked(activeProcessesTracker.isAnyProcessRunning).mockReturnValue(true)
+            mockPipelineRunRepository.getPipelineRun.mockResolvedValue(
+                finished('completed', [step('A', 'failed')])
+            )
+
+            await expect(service.rerunPipeline('old', 'failed')).rejects.toThrow(
+                'TESTS_ALREADY_RUNNING'
+            )
+        })
+
+        it('throws TESTS_ALREADY_RUNNING between the stages of a running pipeline', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                {project: 'A', displayName: 'A', stopPipelineOnFailure: false},
+            ])
+            const running = await service.startPipeline()
+            // No process is tracked while the next stage is starting
+            vi.mocked(activeProcessesTracker.isAnyProcessRunning).mockReturnValue(false)
+            mockPipelineRunRepository.getPipelineRun.mockResolvedValue(
+                finished('completed', [step('A', 'failed')])
+            )
+
+            await expect(service.rerunPipeline('old', 'failed')).rejects.toThrow(
+                'TESTS_ALREADY_RUNNING'
+            )
+            await expect(service.startPipeline()).rejects.toThrow('TESTS_ALREADY_RUNNING')
+            expect(service.getCurrentPipeline()?.pipelineRunId).toBe(running.pipelineRunId)
+        })
+    })
+
+    describe('getPipelineHistory()', () => {
+        it('returns the stored pipelines with the running one as it is in memory', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                {project: 'A', displayName: 'A', stopPipelineOnFailure: false},
+            ])
+            mockTestService.runAllTests.mockResolvedValue({
+                runId: 'run-1',
+                process: createMockProcess(),
+            })
+            const running = await service.startPipeline()
+            await flushPromises()
+            const older = {pipelineRunId: 'old', status: 'completed', steps: [], startedAt: ''}
+            mockPipelineRunRepository.getPipelineRuns.mockResolvedValue([
+                {...running, steps: []},
+                older,
+            ])
+
+            const history = await service.getPipelineHistory(10)
+
+            expect(mockPipelineRunRepository.getPipelineRuns).toHaveBeenCalledWith(10)
+            expect(history).toEqual([service.getCurrentPipeline(), older])
+            expect(history[0].steps[0]).toMatchObject({status: 'running', runId: 'run-1'})
+        })
+    })
+
+    describe('step timing', () => {
+        it('records when each step started and finished', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                {project: 'A', displayName: 'A', stopPipelineOnFailure: false},
+            ])
+            const proc = createMockProcess()
+            mockTestService.runAllTests.mockResolvedValue({runId: 'run-1', process: proc})
+            mockRunRepository.getTestRun.mockResolvedValue({passedTests: 1, failedTests: 0})
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+            expect(pipeline.steps[0].startedAt).toEqual(expect.any(String))
+            expect(pipeline.steps[0].finishedAt).toBeUndefined()
+
+            proc.emit('close', 0)
+            await flushPromises()
+
+            expect(pipeline.steps[0].finishedAt).toEqual(expect.any(String))
+        })
+    })
+
+    describe('onFinished()', () => {
+        it('notifies listeners once the pipeline has finished', async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                {project: 'API_Tests', displayName: 'API Tests', stopPipelineOnFailure: true},
+            ])
+            const proc = createMockProcess()
+            mockTestService.runAllTests.mockResolvedValueOnce({runId: 'run-1', process: proc})
+            mockRunRepository.getTestRun.mockResolvedValueOnce({passedTests: 1, failedTests: 0})
+            const listener = vi.fn()
+            service.onFinished(listener)
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+            expect(service.isPipelineRunning()).toBe(true)
+            expect(listener).not.toHaveBeenCalled()
+
+            proc.emit('close', 0)
+            await flushPromises()
+
+            expect(service.isPipelineRunning()).toBe(false)
+            expect(listener).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    pipelineRunId: pipeline.pipelineRunId,
+                    status: 'completed',
+                })
+            )
+        })
+    })
+
+    describe('cancelRun()', () => {
+        const startTwoSteps = async () => {
+            mockSettingsService.getPipelineSteps.mockResolvedValue([
+                {project: 'API_Tests', displayName: 'API Tests', stopPipelineOnFailure: false},
+                {project: 'All_Tests', displayName: 'WEB Tests (CI)', stopPipelineOnFailure: false},
+            ])
+            const proc = createMockProcess()
+            mockTestService.runAllTests.mockResolvedValueOnce({runId: 'run-1', process: proc})
+            mockRunRepository.getTestRun.mockResolvedValueOnce({passedTests: 1, failedTests: 0})
+
+            const pipeline = await service.startPipeline()
+            await flushPromises()
+            return {pipeline, proc}
+        }
+
+        it('cancels the remaining steps when the running step is cancelled', async () => {
+            const {pipeline, proc} = await startTwoSteps()
+
+            expect(await service.cancelRun('run-1')).toBe(true)
+            proc.emit('close', null)
+            await flushPromises()
+
+            expect(mockTestService.cancelRun).toHaveBeenCalledWith('run-1')
+            const finalState = service.getPipeline(pipeline.pipelineRunId)
+            expect(finalState?.status).toBe('cancelled')
+            expect(finalState?.steps.map((step) => step.status)).toEqual(['cancelled', 'cancelled'])
+            expect(mockTestService.runAllTests).toHaveBeenCalledTimes(1)
+            expect(mockWebSocketService.broadcastPipelineCompleted).toHaveBeenCalledWith(
+                pipeline.pipelineRunId,
+                'cancelled',
+                finalState?.steps
+            )
+        })
+
+        it('leaves the pipeline running when the run could not be cancelled', async () => {
+            const {pipeline, proc} = await startTwoSteps()
+            mockTestService.cancelRun.mockResolvedValueOnce(false)
+            mockTestService.runAllTests.mockResolvedValueOnce({
+                runId: 'run-2',
+                process: createMockProcess(),
+            })
+
+            expect(await service.cancelRun('run-1')).toBe(false)
+            proc.emit('close', 0)
+            await flushPromises()
+
+            expect(service.getPipeline(pipeline.pipelineRunId)?.steps[0].status).toBe('success')
+            expect(mockTestService.runAllTests).toHaveBeenCalledTimes(2)
+        })
+
+        it('only cancels the run itself when it is not a pipeline step', async () => {
+            await startTwoSteps()
+
+            await service.cancelRun('run-other')
+
+            expect(mockTestService.cancelRun).toHaveBeenCalledWith('run-other')
+            expect(service.isPipelineRunning()).toBe(true)
+        })
+    })
 })
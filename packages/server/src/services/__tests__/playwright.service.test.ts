@@ -13,11 +13,12 @@
  */
 
 import {describe, it, expect, beforeEach, vi, afterEach, Mock} from 'vitest'
+import {generateStableTestId} from '@yshvydak/core'
 import {PlaywrightService} from '../playwright.service'
 import {ChildProcess, spawn} from 'child_process'
 import {EventEmitter} from 'events'
 import {Readable} from 'stream'
-import {PathLike} from 'fs'
+import {PathLike, closeSync} from 'fs'
 
 // Mock child_process
 vi.mock('child_process', () => ({
@@ -28,6 +29,7 @@ vi.mock('child_process', () => ({
 vi.mock('fs', () => ({
     existsSync: vi.fn(),
     readFileSync: vi.fn(),
+    closeSync: vi.fn(),
 }))
 
 // Mock config
@@ -56,9 +58,11 @@ const createMockReadable = (): Readable => {
 describe('PlaywrightService', () => {
     let service: PlaywrightService
     let mockSpawn: Mock
+    let mockRunLogService: any
 
     beforeEach(async () => {
-        service = new PlaywrightService()
+        mockRunLogService = {open: vi.fn(() => null)}
+        service = new PlaywrightService(mockRunLogService)
         mockSpawn = spawn as Mock
 
         // Clear all mocks before each test
@@ -327,6 +331,81 @@ describe('PlaywrightService', () => {
             )
         })
 
+        it('should include the describe path in the test ID (same as the reporter)', async () => {
+            // Arrange - equally named tests in two describe blocks of one file
+            const mockPlaywrightOutput = {
+                suites: [
+                    {
+                        title: 'auth.spec.ts',
+                        suites: [
+                            {
+                                title: 'Admin',
+                                specs: [{title: 'should login', file: 'auth.spec.ts', line: 3}],
+                            },
+                            {
+                                title: 'Guest',
+                                specs: [{title: 'should login', file: 'auth.spec.ts', line: 9}],
+                            },
+                        ],
+                    },
+                ],
+            }
+
+            mockSpawn.mockReturnValue(createMockProcess(JSON.stringify(mockPlaywrightOutput)))
+
+            // Act
+            const tests = await service.discoverTests()
+
+            // Assert
+            expect(tests).toHaveLength(2)
+            expect(tests[0].testId).toBe(
+                generateStableTestId({
+                    filePath: 'auth.spec.ts',
+                    titlePath: ['Admin', 'should login'],
+                })
+            )
+            expect(tests[1].testId).toBe(
+                generateStableTestId({
+                    filePath: 'auth.spec.ts',
+                    titlePath: ['Guest', 'should login'],
+                })
+            )
+        })
+
+        it('should discover a spec once per project it runs in', async () => {
+            // Arrange
+            const mockPlaywrightOutput = {
+                suites: [
+                    {
+                        specs: [
+                            {
+                                title: 'login test',
+                                file: 'auth.spec.ts',
+                                line: 1,
+                                tests: [{projectName: 'chromium'}, {projectName: 'firefox'}],
+                            },
+                        ],
+                    },
+                ],
+            }
+
+            mockSpawn.mockReturnValue(createMockProcess(JSON.stringify(mockPlaywrightOutput)))
+
+            // Act
+            const tests = await service.discoverTests()
+
+            // Assert
+            expect(tests.map((t) => t.project)).toEqual(['chromium', 'firefox'])
+            expect(tests[0].testId).not.toBe(tests[1].testId)
+            expect(tests[1].testId).toBe(
+                generateStableTestId({
+                    filePath: 'auth.spec.ts',
+                    titlePath: ['login test'],
+                    project: 'firefox',
+                })
+            )
+        })
+
         it('should extract project from spec.tests[0].projectName', async () => {
             // Arrange
             const mockPlaywrightOutput = {
@@ -449,7 +528,7 @@ describe('PlaywrightService', () => {
                 ['playwright', 'test', '--reporter=playwright-dashboard-reporter'],
                 expect.objectContaining({
                     cwd: '/test/project',
-                    stdio: 'inherit',
+                    stdio: ['ignore', 'ignore', 'ignore'],
                 })
             )
             expect(result.runId).toBeDefined()
@@ -457,6 +536,21 @@ describe('PlaywrightService', () => {
             expect(result.process).toBe(mockProcess)
         })
 
+        it('should write the process output to the run log', async () => {
+            // Arrange
+            mockRunLogService.open.mockReturnValue(42)
+            mockSpawn.mockReturnValue(createMockProcess(''))
+
+            // Act
+            const result = await service.runAllTests()
+
+            // Assert
+            expect(mockRunLogService.open).toHaveBeenCalledWith(result.runId, {echo: true})
+            expect(mockSpawn.mock.calls[0][2].stdio).toEqual(['ignore', 42, 42])
+            // The child has its own copy of the descriptor
+            expect(closeSync).toHaveBeenCalledWith(42)
+        })
+
         it('should include maxWorkers when provided', async () => {
             // Arrange
             const mockProcess = createMockProcess('')
@@ -473,6 +567,51 @@ describe('PlaywrightService', () => {
             )
         })
 
+        it('should pass --grep-invert with anchored titles of excluded tests', async () => {
+            // Arrange
+            const mockProcess = createMockProcess('')
+            mockSpawn.mockReturnValue(mockProcess)
+
+            // Act
+            await service.runAllTests(undefined, undefined, ['flaky login', 'checkout (retry)'])
+
+            // Assert
+            expect(mockSpawn).toHaveBeenCalledWith(
+                'npx',
+                [
+                    'playwright',
+                    'test',
+                    '--grep-invert',
+                    '(?<!\\S)flaky login(?:\\s+@\\S+)*$|(?<!\\S)checkout \\(retry\\)(?:\\s+@\\S+)*$',
+                    '--reporter=playwright-dashboard-reporter',
+                ],
+                expect.anything()
+            )
+        })
+
+        it('should pass --output when an output directory is given', async () => {
+            // Arrange
+            const mockProcess = createMockProcess('')
+            mockSpawn.mockReturnValue(mockProcess)
+
+            // Act
+            await service.runAllTests(2, 'API', [], 'test-results/pipeline/API')
+
+            // Assert
+            expect(mockSpawn).toHaveBeenCalledWith(
+                'npx',
+                [
+                    'playwright',
+                    'test',
+                    '--project=API',
+                    '--workers=2',
+                    '--output=test-results/pipeline/API',
+                    '--reporter=playwright-dashboard-reporter',
+                ],
+                expect.anything()
+            )
+        })
+
         it('should set RUN_ID environment variable', async () => {
             // Arrange
             const mockProcess = createMockProcess('')
@@ -851,6 +990,185 @@ describe('PlaywrightService', () => {
         })
     })
 
+    // ============================================================================
+    // TEST EXECUTION - runFailedTests
+    // ============================================================================
+
+    describe('runFailedTests', () => {
+        const failedTests = [
+            {
+                filePath: 'tests/auth.spec.ts',
+                name: 'Login',
+                titlePath: ['Admin', 'Login'],
+                project: 'chromium',
+            },
+            {
+                filePath: 'tests/auth.spec.ts',
+                name: 'Login',
+                titlePath: ['User', 'Login'],
+                project: 'firefox',
+            },
+            // Recorded before the describe path was
+            {filePath: 'tests/cart.spec.ts', name: 'Checkout', project: 'chromium'},
+        ]
+
+        // What Playwright matches --grep against: project, file relative to testDir,
+        // describes and title
+        const grepOf = () =>
+            new RegExp(mockSpawn.mock.calls[0][1][mockSpawn.mock.calls[0][1].indexOf('--grep') + 1])
+
+        it('should run every file and project in one process with one grep of the tests', async () => {
+            mockSpawn.mockReturnValue(createMockProcess(''))
+
+            const result = await service.runFailedTests(failedTests, 2)
+
+            expect(mockSpawn).toHaveBeenCalledTimes(1)
+            expect(mockSpawn.mock.calls[0][1]).toEqual([
+                'playwright',
+                'test',
+                'tests/auth.spec.ts',
+                'tests/cart.spec.ts',
+                '--grep',
+                [
+                    '(?<!\\S)chromium (?:tests/auth\\.spec\\.ts|auth\\.spec\\.ts) Admin Login(?:\\s+@\\S+)*$',
+                    '(?<!\\S)firefox (?:tests/auth\\.spec\\.ts|auth\\.spec\\.ts) User Login(?:\\s+@\\S+)*$',
+                    '(?<!\\S)chromium (?:tests/cart\\.spec\\.ts|cart\\.spec\\.ts)(?: .+)? Checkout(?:\\s+@\\S+)*$',
+                ].join('|'),
+                '--workers=2',
+                '--project=chromium',
+                '--project=firefox',
+                expect.stringContaining('--reporter='),
+            ])
+            expect(mockSpawn.mock.calls[0][2].env.RUN_ID).toBe(result.runId)
+            expect(result.message).toBe('Rerun of 3 failed tests started')
+        })
+
+        it('should not select an equally named test of another file, describe or project', async () => {
+            mockSpawn.mockReturnValue(createMockProcess(''))
+
+            await service.runFailedTests(failedTests)
+
+            const grep = grepOf()
+            expect(grep.test(' chromium auth.spec.ts Admin Login')).toBe(true)
+            expect(grep.test(' chromium tests/auth.spec.ts Admin Login @smoke')).toBe(true)
+            expect(grep.test(' chromium auth.spec.ts User Login')).toBe(false)
+            expect(grep.test(' firefox auth.spec.ts Admin Login')).toBe(false)
+            expect(grep.test(' chromium admin/auth.spec.ts Admin Login')).toBe(false)
+            expect(grep.test(' chromium cart.spec.ts Login')).toBe(false)
+            expect(grep.test(' chromium cart.spec.ts Cart Checkout')).toBe(true)
+        })
+
+        it('should run only the requested project', async () => {
+            mockSpawn.mockReturnValue(createMockProcess(''))
+
+            await service.runFailedTests(failedTests.slice(0, 1), undefined, 'chromium')
+
+            const args = mockSpawn.mock.calls[0][1]
+            expect(args.filter((arg: string) => arg.startsWith('--project'))).toEqual([
+                '--project=chromium',
+            ])
+        })
+    })
+
+    // ============================================================================
+    // TEST EXECUTION - runTestSelection
+    // ============================================================================
+
+    describe('runTestSelection', () => {
+        it('should turn tests picked across files into file filters and one grep', async () => {
+            mockSpawn.mockReturnValue(createMockProcess(''))
+
+            const result = await service.runTestSelection(
+                {
+                    tests: [
+                        {
+                            filePath: 'auth.spec.ts',
+                            name: 'Login',
+                            titlePath: ['Admin', 'Login'],
+                            project: 'chromium',
+                        },
+                        {
+                            filePath: 'cart.spec.ts',
+                            name: 'Checkout',
+                            titlePath: ['Checkout'],
+                            project: 'chromium',
+                        },
+                    ],
+                },
+                undefined,
+                'chromium'
+            )
+
+            expect(mockSpawn.mock.calls[0][1]).toEqual([
+                'playwright',
+                'test',
+                'auth.spec.ts',
+                'cart.spec.ts',
+                '--grep',
+                '(?<!\\S)chromium (?:auth\\.spec\\.ts) Admin Login(?:\\s+@\\S+)*$|(?<!\\S)chromium (?:cart\\.spec\\.ts) Checkout(?:\\s+@\\S+)*$',
+                '--project=chromium',
+                expect.stringContaining('--reporter='),
+            ])
+            expect(result.message).toBe('Selected tests started in project: chromium')
+        })
+
+        it('should run only the picked one of equally named tests', async () => {
+            mockSpawn.mockReturnValue(createMockProcess(''))
+
+            await service.runTestSelection({
+                tests: [
+                    {
+                        filePath: 'tests/auth.spec.ts',
+                        name: 'Login',
+                        titlePath: ['User', 'Login'],
+                        project: 'firefox',
+                    },
+                ],
+            })
+
+            const args = mockSpawn.mock.calls[0][1]
+            const grep = new RegExp(args[args.indexOf('--grep') + 1])
+            expect(grep.test(' firefox auth.spec.ts User Login')).toBe(true)
+            expect(grep.test(' firefox auth.spec.ts Admin Login')).toBe(false)
+            expect(grep.test(' firefox cart.spec.ts User Login')).toBe(false)
+            expect(grep.test(' chromium auth.spec.ts User Login')).toBe(false)
+            expect(args).toContain('--project=firefox')
+        })
+
+        it('should match whole tags and pass grep-invert through', async () => {
+            mockSpawn.mockReturnValue(createMockProcess(''))
+
+            await service.runTestSelection({tags: ['@smoke', '@a.b'], grepInvert: 'slow'}, 2)
+
+            expect(mockSpawn.mock.calls[0][1]).toEqual([
+                'playwright',
+                'test',
+                '--grep',
+                '(?<!\\S)@smoke(?!\\S)|(?<!\\S)@a\\.b(?!\\S)',
+                '--grep-invert',
+                'slow',
+                '--workers=2',
+                expect.stringContaining('--reporter='),
+            ])
+        })
+
+        it('should pass a grep expression as is', async () => {
+            mockSpawn.mockReturnValue(createMockProcess(''))
+
+            const result = await service.runTestSelection({grep: 'checkout|cart'})
+
+            expect(mockSpawn.mock.calls[0][1]).toEqual([
+                'playwright',
+                'test',
+                '--grep',
+                'checkout|cart',
+                expect.stringContaining('--reporter='),
+            ])
+            expect(mockSpawn.mock.calls[0][2].env.RUN_ID).toBe(result.runId)
+            expect(result.message).toBe('Selected tests started')
+        })
+    })
+
     // ============================================================================
     // TEST EXECUTION - rerunSingleTest
     // ============================================================================
@@ -892,16 +1210,17 @@ describe('PlaywrightService', () => {
             expect(options.env.RUN_ID).toBeUndefined() // RERUN uses RERUN_ID, not RUN_ID
         })
 
-        it('should use pipe stdio for rerun (not inherit)', async () => {
+        it('should keep the output of a rerun out of the server output', async () => {
             // Arrange
+            mockRunLogService.open.mockReturnValue(42)
             mockSpawn.mockReturnValue(createMockProcess(''))
 
             // Act
-            await service.rerunSingleTest('test.spec.ts', 'test name')
+            const result = await service.rerunSingleTest('test.spec.ts', 'test name')
 
             // Assert
-            const options = mockSpawn.mock.calls[0][2]
-            expect(options.stdio).toEqual(['ignore', 'pipe', 'pipe'])
+            expect(mockRunLogService.open).toHaveBeenCalledWith(result.runId, {echo: false})
+            expect(mockSpawn.mock.calls[0][2].stdio).toEqual(['ignore', 42, 42])
         })
 
         it('should include maxWorkers when provided', async () => {
@@ -982,6 +1301,88 @@ describe('PlaywrightService', () => {
         })
     })
 
+    // ============================================================================
+    // PROCESS CONTROL - terminateProcess
+    // ============================================================================
+
+    describe('terminateProcess', () => {
+        // A running process that closes only when told to
+        const createRunningProcess = (pid = 4321) => {
+            const mockProcess = new EventEmitter() as ChildProcess
+            Object.assign(mockProcess, {pid, kill: vi.fn()})
+            return mockProcess
+        }
+
+        let killSpy: Mock
+
+        beforeEach(() => {
+            killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true) as unknown as Mock
+        })
+
+        afterEach(() => {
+            vi.useRealTimers()
+        })
+
+        it('should spawn test runs in their own process group', async () => {
+            mockSpawn.mockReturnValue(createRunningProcess())
+
+            await service.runAllTests()
+
+            expect(mockSpawn.mock.calls[0][2].detached).toBe(process.platform !== 'win32')
+        })
+
+        it('should keep the process of a run until it closes', async () => {
+            const mockProcess = createRunningProcess()
+            mockSpawn.mockReturnValue(mockProcess)
+
+            const {runId} = await service.runAllTests()
+            expect(service.hasProcess(runId)).toBe(true)
+
+            mockProcess.emit('close', 0)
+            expect(service.hasProcess(runId)).toBe(false)
+        })
+
+        it('should send SIGTERM to the process group and resolve once it closes', async () => {
+            const mockProcess = createRunningProcess()
+            mockSpawn.mockReturnValue(mockProcess)
+            killSpy.mockImplementation((() => {
+                setImmediate(() => mockProcess.emit('close', null))
+                return true
+            }) as any)
+            const {runId} = await service.runAllTests()
+
+            const terminated = await service.terminateProcess(runId)
+
+            expect(terminated).toBe(true)
+            expect(killSpy).toHaveBeenCalledTimes(1)
+            expect(killSpy).toHaveBeenCalledWith(-4321, 'SIGTERM')
+            expect(service.hasProcess(runId)).toBe(false)
+        })
+
+        it('should SIGKILL the process group when it ignores SIGTERM', async () => {
+            vi.useFakeTimers()
+            const mockProcess = createRunningProcess()
+            mockSpawn.mockReturnValue(mockProcess)
+            killSpy.mockImplementation(((_pid: number, signal: string) => {
+                if (signal === 'SIGKILL') mockProcess.emit('close', null)
+                return true
+            }) as any)
+            const {runId} = await service.runAllTests()
+
+            const terminating = service.terminateProcess(runId, 1000)
+            await vi.advanceTimersByTimeAsync(1000)
+
+            expect(await terminating).toBe(true)
+            expect(killSpy).toHaveBeenNthCalledWith(1, -4321, 'SIGTERM')
+            expect(killSpy).toHaveBeenNthCalledWith(2, -4321, 'SIGKILL')
+        })
+
+        it('should return false for a run without a process', async () => {
+            expect(await service.terminateProcess('unknown-run')).toBe(false)
+            expect(killSpy).not.toHaveBeenCalled()
+        })
+    })
+
     // ============================================================================
     // VALIDATION - validateConfiguration
     // ============================================================================
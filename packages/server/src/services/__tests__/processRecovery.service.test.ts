@@ -0,0 +1,267 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest'
+import {spawn} from 'child_process'
+import {ProcessRecoveryService} from '../processRecovery.service'
+
+vi.mock('../../utils/logger.util', () => ({
+    Logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+        debug: vi.fn(),
+    },
+}))
+
+// A tracker of its own, so the reconciled state doesn't leak into other tests
+vi.mock('../activeProcesses.service', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('../activeProcesses.service')>()
+    return {...actual, activeProcessesTracker: new actual.ActiveProcessesTracker()}
+})
+
+const mockWsManager = {broadcastConnectionStatus: vi.fn()}
+vi.mock('../../websocket/server', () => ({
+    getWebSocketManager: () => mockWsManager,
+}))
+
+import {activeProcessesTracker} from '../activeProcesses.service'
+
+const LIVE_PID = 1111
+const DEAD_PID = 2222
+
+const stored = (id: string, pid?: number) => ({
+    id,
+    type: 'run-all' as const,
+    startedAt: '2025-01-01T10:00:00.000Z',
+    details: {runId: id, project: 'chromium', totalTests: 4, pid},
+})
+
+describe('ProcessRecoveryService', () => {
+    let service: ProcessRecoveryService
+    let mockActiveProcessRepository: any
+    let mockPipelineRunRepository: any
+    let mockRunRepository: any
+    let mockTestRepository: any
+    let mockWebSocketService: any
+    let alivePids: Set<number>
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+        alivePids = new Set([LIVE_PID])
+        vi.spyOn(process, 'kill').mockImplementation(((pid: number) => {
+            if (alivePids.has(pid)) return true
+            throw Object.assign(new Error('kill ESRCH'), {code: 'ESRCH'})
+        }) as typeof process.kill)
+
+        mockActiveProcessRepository = {
+            getAll: vi.fn().mockResolvedValue([]),
+            save: vi.fn().mockResolvedValue(undefined),
+            delete: vi.fn().mockResolvedValue(undefined),
+            clear: vi.fn().mockResolvedValue(undefined),
+        }
+        mockPipelineRunRepository = {
+            getRunningPipelineRuns: vi.fn().mockResolvedValue([]),
+            savePipelineRun: vi.fn().mockResolvedValue(undefined),
+        }
+        mockRunRepository = {
+            getTestRun: vi.fn().mockResolvedValue({status: 'running'}),
+            updateTestRun: vi.fn().mockResolvedValue(undefined),
+        }
+        mockTestRepository = {
+            getTestResultsByRun: vi
+                .fn()
+                .mockResolvedValue([{status: 'passed'}, {status: 'flaky'}, {status: 'failed'}]),
+        }
+        mockWebSocketService = {broadcastRunCompleted: vi.fn(), broadcast: vi.fn()}
+
+        service = new ProcessRecoveryService(
+            mockActiveProcessRepository,
+            mockPipelineRunRepository,
+            mockRunRepository,
+            mockTestRepository,
+            mockWebSocketService
+        )
+    })
+
+    afterEach(() => {
+        service.stop()
+        activeProcessesTracker.forceReset()
+        vi.useRealTimers()
+        vi.restoreAllMocks()
+    })
+
+    describe('start()', () => {
+        it('should track a process that is still alive again, with its progress', async () => {
+            mockActiveProcessRepository.getAll.mockResolvedValue([stored('run-1', LIVE_PID)])
+
+            await service.start()
+
+            const [restored] = activeProcessesTracker.getActiveProcesses()
+            expect(restored.id).toBe('run-1')
+            expect(restored.progress).toMatchObject({
+                totalTests: 4,
+                completedTests: 3,
+                passedTests: 2,
+                failedTests: 1,
+            })
+            expect(mockRunRepository.updateTestRun).not.toHaveBeenCalled()
+        })
+
+        it('should mark the run of a gone process interrupted', async () => {
+            mockActiveProcessRepository.getAll.mockResolvedValue([
+                stored('run-1', DEAD_PID),
+                stored('external'),
+            ])
+
+            await service.start()
+
+            expect(activeProcessesTracker.isAnyProcessRunning()).toBe(false)
+            expect(mockActiveProcessRepository.delete).toHaveBeenCalledWith('run-1')
+            expect(mockActiveProcessRepository.delete).toHaveBeenCalledWith('external')
+            expect(mockRunRepository.updateTestRun).toHaveBeenCalledWith('run-1', {
+                status: 'interrupted',
+            })
+            expect(mockRunRepository.updateTestRun).toHaveBeenCalledWith('external', {
+                status: 'interrupted',
+            })
+        })
+
+        it('should leave a finished run as it is', async () => {
+            mockActiveProcessRepository.getAll.mockResolvedValue([stored('run-1', DEAD_PID)])
+            mockRunRepository.getTestRun.mockResolvedValue({status: 'completed'})
+
+            await service.start()
+
+            expect(mockRunRepository.updateTestRun).not.toHaveBeenCalled()
+        })
+
+        it('should mark pipelines left running interrupted', async () => {
+            mockPipelineRunRepository.getRunningPipelineRuns.mockResolvedValue([
+                {
+                    pipelineRunId: 'p1',
+                    status: 'running',
+                    startedAt: '2025-01-01T10:00:00.000Z',
+                    steps: [
+                        {project: 'A', displayName: 'A', stopOnFailure: true, status: 'success'},
+                        {project: 'B', displayName: 'B', stopOnFailure: false, status: 'running'},
+                        {project: 'C', displayName: 'C', stopOnFailure: false, status: 'queued'},
+                    ],
+                },
+            ])
+
+            await service.start()
+
+            const saved = mockPipelineRunRepository.savePipelineRun.mock.lastCall[0]
+            expect(saved.status).toBe('interrupted')
+            expect(saved.finishedAt).toEqual(expect.any(String))
+            expect(saved.steps.map((s: any) => s.status)).toEqual([
+                'success',
+                'cancelled',
+                'skipped',
+            ])
+        })
+
+        it('should persist the tracker only once reconciled', async () => {
+            mockActiveProcessRepository.getAll.mockResolvedValue([stored('run-1', LIVE_PID)])
+
+            await service.start()
+            expect(mockActiveProcessRepository.save).not.toHaveBeenCalled()
+
+            activeProcessesTracker.addProcess({runId: 'run-2', type: 'rerun'})
+            await new Promise((resolve) => setImmediate(resolve))
+
+            expect(mockActiveProcessRepository.save).toHaveBeenCalledWith(
+                expect.objectContaining({id: 'run-2'})
+            )
+        })
+    })
+
+    describe('restarting while a test process runs', () => {
+        it('should adopt the process the previous instance left running', async () => {
+            vi.mocked(process.kill).mockRestore()
+            const child = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], {
+                detached: true,
+                stdio: 'ignore',
+            })
+
+            try {
+                await service.start()
+                activeProcessesTracker.addProcess({
+                    runId: 'run-1',
+                    type: 'run-all',
+                    totalTests: 4,
+                    pid: child.pid,
+                })
+                await new Promise((resolve) => setImmediate(resolve))
+                const [saved] = mockActiveProcessRepository.save.mock.lastCall
+
+                // Shutdown leaves the process running; the next instance finds it
+                service.stop()
+                activeProcessesTracker.forceReset()
+                mockActiveProcessRepository.getAll.mockResolvedValue([saved])
+                await service.start()
+
+                expect(activeProcessesTracker.isProcessRunning('run-1')).toBe(true)
+                expect(mockActiveProcessRepository.delete).not.toHaveBeenCalled()
+                expect(mockRunRepository.updateTestRun).not.toHaveBeenCalled()
+            } finally {
+                child.kill()
+            }
+        })
+    })
+
+    describe('re-adopting an orphaned run', () => {
+        it('should set the run back to running when its results keep arriving', async () => {
+            mockActiveProcessRepository.getAll.mockResolvedValue([stored('run-1', DEAD_PID)])
+            await service.start()
+            mockRunRepository.getTestRun.mockResolvedValue({status: 'interrupted'})
+
+            activeProcessesTracker.updateProgress('run-1', {
+                testId: 'test-4',
+                name: 'Test 4',
+                filePath: 'a.spec.ts',
+                status: 'passed',
+            })
+            await new Promise((resolve) => setImmediate(resolve))
+
+            expect(activeProcessesTracker.getProgress('run-1')?.completedTests).toBe(4)
+            expect(mockRunRepository.updateTestRun).toHaveBeenLastCalledWith('run-1', {
+                status: 'running',
+            })
+            expect(mockWsManager.broadcastConnectionStatus).toHaveBeenCalled()
+        })
+    })
+
+    describe('watching restored processes', () => {
+        it('should end a restored run whose process exits without reporting', async () => {
+            vi.useFakeTimers()
+            mockActiveProcessRepository.getAll.mockResolvedValue([stored('run-1', LIVE_PID)])
+            await service.start()
+
+            alivePids.delete(LIVE_PID)
+            await vi.advanceTimersByTimeAsync(5000)
+
+            expect(activeProcessesTracker.isProcessRunning('run-1')).toBe(false)
+            expect(mockRunRepository.updateTestRun).toHaveBeenCalledWith('run-1', {
+                status: 'interrupted',
+            })
+            expect(mockWebSocketService.broadcastRunCompleted).toHaveBeenCalledWith(
+                'run-1',
+                1,
+                'run-all',
+                undefined
+            )
+        })
+
+        it('should leave a run the reporter ended', async () => {
+            vi.useFakeTimers()
+            mockActiveProcessRepository.getAll.mockResolvedValue([stored('run-1', LIVE_PID)])
+            await service.start()
+
+            activeProcessesTracker.removeProcess('run-1')
+            alivePids.delete(LIVE_PID)
+            await vi.advanceTimersByTimeAsync(5000)
+
+            expect(mockRunRepository.updateTestRun).not.toHaveBeenCalled()
+            expect(mockWebSocketService.broadcastRunCompleted).not.toHaveBeenCalled()
+        })
+    })
+})
@@ -0,0 +1,101 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest'
+import {QuarantineService} from '../quarantine.service'
+
+vi.mock('../../utils/logger.util', () => ({
+    Logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+    },
+}))
+
+describe('QuarantineService', () => {
+    let service: QuarantineService
+    let mockQuarantineRepository: any
+    let mockTestRepository: any
+
+    beforeEach(() => {
+        mockQuarantineRepository = {
+            saveQuarantine: vi.fn(),
+            getQuarantine: vi.fn().mockResolvedValue({
+                testId: 'test-1',
+                reason: 'Known flake',
+                createdAt: '2026-01-01T00:00:00.000Z',
+            }),
+            deleteQuarantine: vi.fn(),
+            getActiveQuarantines: vi.fn().mockResolvedValue([]),
+        }
+        mockTestRepository = {getQuarantinedFailureCount: vi.fn().mockResolvedValue(0)}
+
+        service = new QuarantineService(mockQuarantineRepository, mockTestRepository)
+    })
+
+    describe('quarantineTest()', () => {
+        it('should save a trimmed reason without expiry', async () => {
+            const quarantine = await service.quarantineTest('test-1', '  Known flake  ')
+
+            expect(mockQuarantineRepository.saveQuarantine).toHaveBeenCalledWith(
+                'test-1',
+                'Known flake',
+                null
+            )
+            expect(quarantine.testId).toBe('test-1')
+        })
+
+        it('should normalize the expiry to an ISO timestamp', async () => {
+            await service.quarantineTest('test-1', 'Known flake', '2099-06-01T12:00:00+02:00')
+
+            expect(mockQuarantineRepository.saveQuarantine).toHaveBeenCalledWith(
+                'test-1',
+                'Known flake',
+                '2099-06-01T10:00:00.000Z'
+            )
+        })
+
+        it('should reject an empty reason', async () => {
+            await expect(service.quarantineTest('test-1', '   ')).rejects.toThrow(
+                'Invalid quarantine: reason is required'
+            )
+            expect(mockQuarantineRepository.saveQuarantine).not.toHaveBeenCalled()
+        })
+
+        it('should reject a reason over 500 characters', async () => {
+            await expect(service.quarantineTest('test-1', 'a'.repeat(501))).rejects.toThrow(
+                'Invalid quarantine: reason exceeds 500 characters'
+            )
+        })
+
+        it.each(['not-a-date', '2020-01-01T00:00:00.000Z'])(
+            'should reject expiry %s',
+            async (expiresAt) => {
+                await expect(
+                    service.quarantineTest('test-1', 'Known flake', expiresAt)
+                ).rejects.toThrow('Invalid quarantine: expiry must be a future date')
+            }
+        )
+    })
+
+    describe('getQuarantinedTitles()', () => {
+        it('should return the distinct titles of quarantined tests in the project', async () => {
+            mockQuarantineRepository.getActiveQuarantines.mockResolvedValue([
+                {testId: 'a', name: 'login works'},
+                {testId: 'b', name: 'login works'},
+                {testId: 'c', name: 'checkout'},
+                {testId: 'd', name: ''},
+            ])
+
+            const titles = await service.getQuarantinedTitles('Web')
+
+            expect(mockQuarantineRepository.getActiveQuarantines).toHaveBeenCalledWith('Web')
+            expect(titles).toEqual(['login works', 'checkout'])
+        })
+    })
+
+    describe('releaseTest()', () => {
+        it('should delete the quarantine', async () => {
+            await service.releaseTest('test-1')
+
+            expect(mockQuarantineRepository.deleteQuarantine).toHaveBeenCalledWith('test-1')
+        })
+    })
+})
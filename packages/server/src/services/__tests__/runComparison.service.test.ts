@@ -0,0 +1,114 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {RunComparisonService} from '../runComparison.service'
+
+const run = (id: string) => ({
+    id,
+    status: 'completed' as const,
+    totalTests: 0,
+    passedTests: 0,
+    failedTests: 0,
+    skippedTests: 0,
+    duration: 0,
+})
+
+const result = (testId: string, status: string, duration = 1000) => ({
+    id: `${testId}-result`,
+    testId,
+    runId: 'run',
+    name: testId,
+    filePath: 'app.spec.ts',
+    status,
+    duration,
+})
+
+describe('RunComparisonService', () => {
+    let service: RunComparisonService
+    let mockTestRepository: any
+
+    beforeEach(() => {
+        mockTestRepository = {
+            getTestResultsByRun: vi.fn(),
+        }
+        service = new RunComparisonService(mockTestRepository)
+    })
+
+    const compare = async (baseResults: any[], headResults: any[], threshold?: number) => {
+        mockTestRepository.getTestResultsByRun.mockImplementation(async (runId: string) =>
+            runId === 'base' ? baseResults : headResults
+        )
+        return service.compareRuns(run('base'), run('head'), threshold)
+    }
+
+    it('should sort tests into status changes, added and removed', async () => {
+        const comparison = await compare(
+            [
+                result('breaks', 'passed'),
+                result('fixed', 'failed'),
+                result('broken', 'failed'),
+                result('gone', 'passed'),
+                result('stable', 'passed'),
+            ],
+            [
+                result('breaks', 'timedOut'),
+                result('fixed', 'flaky'),
+                result('broken', 'failed'),
+                result('new', 'passed'),
+                result('stable', 'passed'),
+            ]
+        )
+
+        expect(comparison.newlyFailing.map((entry) => entry.testId)).toEqual(['breaks'])
+        expect(comparison.newlyPassing.map((entry) => entry.testId)).toEqual(['fixed'])
+        expect(comparison.stillFailing.map((entry) => entry.testId)).toEqual(['broken'])
+        expect(comparison.added.map((entry) => entry.testId)).toEqual(['new'])
+        expect(comparison.removed.map((entry) => entry.testId)).toEqual(['gone'])
+        expect(comparison.slower).toEqual([])
+        expect(comparison.faster).toEqual([])
+    })
+
+    it('should keep both executions on each entry', async () => {
+        const comparison = await compare([result('breaks', 'passed')], [result('breaks', 'failed')])
+
+        expect(comparison.newlyFailing[0]).toMatchObject({
+            testId: 'breaks',
+            base: {status: 'passed'},
+            head: {status: 'failed'},
+        })
+    })
+
+    it('should report duration changes beyond the threshold, largest first', async () => {
+        const comparison = await compare(
+            [
+                result('a', 'passed', 1000),
+                result('b', 'passed', 1000),
+                result('c', 'passed', 1000),
+                result('d', 'passed', 1000),
+            ],
+            [
+                result('a', 'passed', 1300),
+                result('b', 'passed', 2000),
+                result('c', 'passed', 1100),
+                result('d', 'passed', 500),
+            ],
+            25
+        )
+
+        expect(comparison.durationThreshold).toBe(25)
+        expect(comparison.slower.map((entry) => [entry.testId, entry.durationChange])).toEqual([
+            ['b', 100],
+            ['a', 30],
+        ])
+        expect(comparison.faster.map((entry) => [entry.testId, entry.durationChange])).toEqual([
+            ['d', -50],
+        ])
+    })
+
+    it('should ignore duration noise on fast tests and on failed tests', async () => {
+        const comparison = await compare(
+            [result('fast', 'passed', 20), result('failing', 'failed', 1000)],
+            [result('fast', 'passed', 80), result('failing', 'failed', 5000)]
+        )
+
+        expect(comparison.slower).toEqual([])
+    })
+})
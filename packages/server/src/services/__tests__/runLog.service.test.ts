@@ -0,0 +1,193 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest'
+import {EventEmitter} from 'events'
+import {ChildProcess} from 'child_process'
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import {RunLogService} from '../runLog.service'
+
+vi.mock('../../utils/logger.util', () => ({
+    Logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+        debug: vi.fn(),
+    },
+}))
+
+// Small limits so rotation and pruning are easy to reach
+vi.mock('../../config/constants', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../config/constants')>()),
+    RUN_LOG_CONSTANTS: {MAX_FILE_BYTES: 16, MAX_RUNS: 2, FLUSH_INTERVAL_MS: 250},
+}))
+
+function createMockChild() {
+    return new EventEmitter() as ChildProcess
+}
+
+describe('RunLogService', () => {
+    let logsDir: string
+    let mockWebSocketService: any
+    let service: RunLogService
+
+    beforeEach(() => {
+        vi.useFakeTimers()
+        logsDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'run-log-test-')), 'run-logs')
+        mockWebSocketService = {broadcastRunLog: vi.fn()}
+        service = new RunLogService(mockWebSocketService, logsDir)
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+        fs.rmSync(path.dirname(logsDir), {recursive: true, force: true})
+    })
+
+    // What the process would write to the descriptor it got as stdout and stderr
+    const write = (fd: number | null, text: string) => fs.writeSync(fd!, text)
+
+    describe('open()', () => {
+        it('should create the log for the process to write to', () => {
+            const fd = service.open('run-1')
+            write(fd, 'Running 3 tests\n')
+            fs.closeSync(fd!)
+
+            expect(fs.readFileSync(path.join(logsDir, 'run-1.log'), 'utf8')).toBe(
+                'Running 3 tests\n'
+            )
+        })
+
+        it('should delete the logs of the oldest runs', () => {
+            fs.mkdirSync(logsDir, {recursive: true})
+            const old = Date.now() / 1000 - 60
+            for (const [index, runId] of ['run-a', 'run-b'].entries()) {
+                fs.writeFileSync(path.join(logsDir, `${runId}.log`), runId)
+                fs.utimesSync(path.join(logsDir, `${runId}.log`), old + index, old + index)
+            }
+            fs.writeFileSync(path.join(logsDir, 'run-a.log.1'), 'run-a')
+
+            fs.closeSync(service.open('run-c')!)
+
+            expect(fs.readdirSync(logsDir).sort()).toEqual(['run-b.log', 'run-c.log'])
+        })
+
+        it('should not write outside the logs directory', () => {
+            expect(service.open('../secret')).toBeNull()
+        })
+    })
+
+    describe('capture()', () => {
+        let fd: number | null
+
+        beforeEach(() => {
+            fd = service.open('run-1')
+        })
+
+        afterEach(() => {
+            fs.closeSync(fd!)
+        })
+
+        it('should broadcast what the process writes in batches', () => {
+            service.capture('run-1', createMockChild())
+
+            write(fd, 'Running 3 tests\n')
+            write(fd, 'Error: x\n')
+            expect(mockWebSocketService.broadcastRunLog).not.toHaveBeenCalled()
+
+            vi.advanceTimersByTime(250)
+
+            expect(mockWebSocketService.broadcastRunLog).toHaveBeenCalledTimes(1)
+            expect(mockWebSocketService.broadcastRunLog).toHaveBeenCalledWith(
+                'run-1',
+                'Running 3 tests\nError: x\n'
+            )
+        })
+
+        it('should keep a character split across batches whole', () => {
+            service.capture('run-1', createMockChild())
+            const check = Buffer.from('✓')
+
+            fs.writeSync(fd!, check.subarray(0, 1))
+            vi.advanceTimersByTime(250)
+            fs.writeSync(fd!, check.subarray(1))
+            vi.advanceTimersByTime(250)
+
+            expect(mockWebSocketService.broadcastRunLog).toHaveBeenCalledTimes(1)
+            expect(mockWebSocketService.broadcastRunLog).toHaveBeenCalledWith('run-1', '✓')
+        })
+
+        it('should show the output in the server output when asked to', () => {
+            const stdoutSpy = vi.spyOn(process.stdout, 'write').mockReturnValue(true)
+            fs.closeSync(fd!)
+            fd = service.open('run-1', {echo: true})
+            service.capture('run-1', createMockChild())
+
+            write(fd, 'Running 2 tests\n')
+            vi.advanceTimersByTime(250)
+
+            expect(stdoutSpy).toHaveBeenCalledWith('Running 2 tests\n')
+            stdoutSpy.mockRestore()
+        })
+
+        it('should broadcast the rest and note the exit code when the process closes', async () => {
+            const child = createMockChild()
+            service.capture('run-1', child)
+
+            write(fd, 'done\n')
+            child.emit('close', 1, null)
+
+            expect(service.isCapturing('run-1')).toBe(false)
+            expect(mockWebSocketService.broadcastRunLog).toHaveBeenCalledWith('run-1', 'done\n')
+            expect(await service.getLog('run-1')).toBe('done\n\n[Process exited with code 1]\n')
+        })
+
+        it('should rotate a log over the size cap', async () => {
+            service.capture('run-1', createMockChild())
+
+            write(fd, 'first part\n')
+            vi.advanceTimersByTime(250)
+            write(fd, 'second part\n')
+            vi.advanceTimersByTime(250)
+            write(fd, 'third\n')
+
+            expect(fs.readFileSync(path.join(logsDir, 'run-1.log.1'), 'utf8')).toBe(
+                'first part\nsecond part\n'
+            )
+            expect(fs.readFileSync(path.join(logsDir, 'run-1.log'), 'utf8')).toBe('third\n')
+            expect(await service.getLog('run-1')).toBe('first part\nsecond part\nthird\n')
+        })
+    })
+
+    describe('getLog()', () => {
+        it('should include output not yet broadcast by the batch timer', async () => {
+            const fd = service.open('run-1')
+            service.capture('run-1', createMockChild())
+            write(fd, 'partial')
+            fs.closeSync(fd!)
+
+            expect(await service.getLog('run-1')).toBe('partial')
+            expect(mockWebSocketService.broadcastRunLog).toHaveBeenCalledWith('run-1', 'partial')
+        })
+
+        it('should return null for a run without a log', async () => {
+            expect(await service.getLog('missing')).toBeNull()
+        })
+
+        it('should not read outside the logs directory', async () => {
+            expect(await service.getLog('../secret')).toBeNull()
+        })
+    })
+
+    describe('clearAll()', () => {
+        it('should delete every run log', async () => {
+            const child = createMockChild()
+            fs.closeSync(service.open('run-1')!)
+            service.capture('run-1', child)
+            child.emit('close', 0, null)
+
+            await service.clearAll()
+
+            expect(fs.existsSync(logsDir)).toBe(false)
+            expect(await service.getLog('run-1')).toBeNull()
+        })
+    })
+})
@@ -0,0 +1,265 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest'
+import {INVALID_RUN_REQUEST, RunQueueService} from '../runQueue.service'
+import {RunQueueRepository} from '../../repositories/runQueue.repository'
+import {DatabaseManager} from '../../database/database.manager'
+
+vi.mock('../../utils/logger.util', () => ({
+    Logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+        debug: vi.fn(),
+        critical: vi.fn(),
+    },
+}))
+
+vi.mock('../activeProcesses.service', () => ({
+    activeProcessesTracker: {
+        isAnyProcessRunning: vi.fn(() => false),
+        onIdle: vi.fn(() => () => {}),
+    },
+}))
+
+import {activeProcessesTracker} from '../activeProcesses.service'
+
+const alreadyRunning = () =>
+    new Error(JSON.stringify({code: 'TESTS_ALREADY_RUNNING', message: 'Tests are already running'}))
+
+describe('RunQueueService', () => {
+    let dbManager: DatabaseManager
+    let runQueueRepository: RunQueueRepository
+    let service: RunQueueService
+    let mockTestService: any
+    let mockPipelineExecutionService: any
+    let mockSettingsService: any
+    let mockWebSocketService: any
+
+    const setBusy = (busy: boolean) =>
+        vi.mocked(activeProcessesTracker.isAnyProcessRunning).mockReturnValue(busy)
+
+    beforeEach(async () => {
+        vi.clearAllMocks()
+        setBusy(false)
+
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        runQueueRepository = new RunQueueRepository(dbManager)
+
+        mockTestService = {runAllTests: vi.fn().mockResolvedValue({runId: 'run-1'})}
+        mockPipelineExecutionService = {
+            startPipeline: vi.fn().mockResolvedValue({pipelineRunId: 'p-1'}),
+            isPipelineRunning: vi.fn(() => false),
+            onFinished: vi.fn(() => () => {}),
+        }
+        mockSettingsService = {
+            getCIAutoRunPause: vi.fn().mockResolvedValue({paused: false, resumeAt: null}),
+        }
+        mockWebSocketService = {broadcastQueueUpdated: vi.fn()}
+
+        service = new RunQueueService(
+            runQueueRepository,
+            mockTestService,
+            mockPipelineExecutionService,
+            mockSettingsService,
+            mockWebSocketService
+        )
+    })
+
+    afterEach(() => {
+        service.stop()
+        dbManager.close()
+    })
+
+    describe('submit()', () => {
+        it('should start the run right away when nothing is running', async () => {
+            const submitted = await service.submit({
+                kind: 'run-all',
+                project: 'chromium',
+                maxWorkers: 2,
+                source: 'script',
+            })
+
+            expect(submitted).toEqual({queued: false, result: {runId: 'run-1'}})
+            expect(mockTestService.runAllTests).toHaveBeenCalledWith(2, false, 'chromium', 'script')
+            expect(await service.getQueue()).toEqual([])
+        })
+
+        it('should start the pipeline for pipeline requests', async () => {
+            await service.submit({kind: 'pipeline', maxWorkers: 4, source: 'script'})
+
+            expect(mockPipelineExecutionService.startPipeline).toHaveBeenCalledWith(4, 'script')
+        })
+
+        it('should queue the run while tests are running', async () => {
+            setBusy(true)
+
+            const submitted = await service.submit({kind: 'run-all', project: 'chromium'})
+
+            expect(mockTestService.runAllTests).not.toHaveBeenCalled()
+            expect(submitted).toMatchObject({
+                queued: true,
+                duplicate: false,
+                item: {kind: 'run-all', project: 'chromium', priority: 'normal', position: 1},
+            })
+            expect(mockWebSocketService.broadcastQueueUpdated).toHaveBeenCalledWith([
+                expect.objectContaining({project: 'chromium', position: 1}),
+            ])
+        })
+
+        it('should queue while a pipeline is between two steps', async () => {
+            mockPipelineExecutionService.isPipelineRunning.mockReturnValue(true)
+
+            const submitted = await service.submit({kind: 'run-all', project: 'chromium'})
+
+            expect(submitted.queued).toBe(true)
+        })
+
+        it('should queue when the guard reports tests already running', async () => {
+            mockTestService.runAllTests.mockRejectedValueOnce(alreadyRunning())
+
+            const submitted = await service.submit({kind: 'run-all', project: 'chromium'})
+
+            expect(submitted.queued).toBe(true)
+        })
+
+        it('should queue behind waiting items even when idle', async () => {
+            setBusy(true)
+            await service.submit({kind: 'run-all', project: 'chromium'})
+            // Still waiting for drain() to pick up the first item
+            setBusy(false)
+            vi.spyOn(service, 'drain').mockResolvedValue()
+
+            const submitted = await service.submit({kind: 'run-all', project: 'webkit'})
+
+            expect(submitted).toMatchObject({queued: true, item: {position: 2}})
+            expect(mockTestService.runAllTests).not.toHaveBeenCalled()
+        })
+
+        it('should return the waiting item for an identical request', async () => {
+            setBusy(true)
+            const first = await service.submit({kind: 'run-all', project: 'chromium'})
+
+            const second = await service.submit({kind: 'run-all', project: 'chromium'})
+
+            expect(second).toMatchObject({queued: true, duplicate: true})
+            expect(second.queued && second.item.id).toBe(first.queued && first.item.id)
+            expect(await service.getQueue()).toHaveLength(1)
+        })
+
+        it('should place high priority requests ahead of normal ones', async () => {
+            setBusy(true)
+            await service.submit({kind: 'run-all', project: 'chromium'})
+
+            const submitted = await service.submit({kind: 'pipeline', priority: 'high'})
+
+            expect(submitted).toMatchObject({queued: true, item: {position: 1}})
+            expect((await service.getQueue()).map((item) => item.kind)).toEqual([
+                'pipeline',
+                'run-all',
+            ])
+        })
+
+        it('should throw the guard error instead of queueing when the queue is skipped', async () => {
+            setBusy(true)
+            mockTestService.runAllTests.mockRejectedValueOnce(alreadyRunning())
+
+            await expect(service.submit({kind: 'run-all'}, false)).rejects.toThrow(
+                'TESTS_ALREADY_RUNNING'
+            )
+            expect(await service.getQueue()).toEqual([])
+        })
+
+        it('should not queue CI script runs while the CI auto-run is paused', async () => {
+            setBusy(true)
+            mockSettingsService.getCIAutoRunPause.mockResolvedValue({paused: true, resumeAt: null})
+
+            await expect(service.submit({kind: 'pipeline', source: 'script'})).rejects.toThrow(
+                'CI_AUTORUN_PAUSED'
+            )
+            expect(await service.getQueue()).toEqual([])
+        })
+
+        it('should reject an unknown priority', async () => {
+            await expect(
+                service.submit({kind: 'run-all', priority: 'urgent' as any})
+            ).rejects.toThrow(new RegExp(`^${INVALID_RUN_REQUEST}: priority`))
+        })
+    })
+
+    describe('cancel()', () => {
+        it('should remove a queued run', async () => {
+            setBusy(true)
+            const submitted = await service.submit({kind: 'run-all', project: 'chromium'})
+            const id = submitted.queued ? submitted.item.id : ''
+
+            expect(await service.cancel(id)).toBe(true)
+            expect(await service.getQueue()).toEqual([])
+            expect(await service.cancel(id)).toBe(false)
+        })
+    })
+
+    describe('drain()', () => {
+        beforeEach(async () => {
+            setBusy(true)
+            await service.submit({kind: 'run-all', project: 'chromium', maxWorkers: 2})
+            await service.submit({kind: 'pipeline', priority: 'high'})
+            setBusy(false)
+        })
+
+        it('should start the next item and wait while it runs', async () => {
+            mockPipelineExecutionService.startPipeline.mockImplementation(async () => {
+                mockPipelineExecutionService.isPipelineRunning.mockReturnValue(true)
+                return {pipelineRunId: 'p-1'}
+            })
+
+            await service.drain()
+
+            expect(mockPipelineExecutionService.startPipeline).toHaveBeenCalledTimes(1)
+            expect(mockTestService.runAllTests).not.toHaveBeenCalled()
+            expect((await service.getQueue()).map((item) => item.project)).toEqual(['chromium'])
+        })
+
+        it('should drop an item that fails to start and go on with the next', async () => {
+            mockPipelineExecutionService.startPipeline.mockRejectedValue(
+                new Error(JSON.stringify({code: 'PIPELINE_EMPTY', message: 'No steps'}))
+            )
+
+            await service.drain()
+
+            expect(mockTestService.runAllTests).toHaveBeenCalledWith(
+                2,
+                false,
+                'chromium',
+                undefined
+            )
+            expect(await service.getQueue()).toEqual([])
+        })
+
+        it('should keep the item in its place when something started in between', async () => {
+            mockPipelineExecutionService.startPipeline.mockRejectedValue(alreadyRunning())
+
+            await service.drain()
+
+            expect((await service.getQueue()).map((item) => item.kind)).toEqual([
+                'pipeline',
+                'run-all',
+            ])
+            expect(mockTestService.runAllTests).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('start()', () => {
+        it('should drain when the last process ends or a pipeline finishes', () => {
+            const drain = vi.spyOn(service, 'drain').mockResolvedValue()
+
+            service.start()
+            const onIdle = vi.mocked(activeProcessesTracker.onIdle).mock.calls[0][0]
+            const onFinished = mockPipelineExecutionService.onFinished.mock.calls[0][0]
+            onIdle()
+            onFinished()
+
+            // Once on start for runs queued before a restart
+            expect(drain).toHaveBeenCalledTimes(3)
+        })
+    })
+})
@@ -0,0 +1,274 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest'
+import {INVALID_SCHEDULE, SCHEDULE_SOURCE, ScheduleService} from '../schedule.service'
+import {ScheduleRepository} from '../../repositories/schedule.repository'
+import {DatabaseManager} from '../../database/database.manager'
+
+vi.mock('../../utils/logger.util', () => ({
+    Logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+        debug: vi.fn(),
+        critical: vi.fn(),
+    },
+}))
+
+vi.mock('../activeProcesses.service', () => ({
+    activeProcessesTracker: {
+        isAnyProcessRunning: vi.fn(() => false),
+    },
+}))
+
+import {activeProcessesTracker} from '../activeProcesses.service'
+
+// Wednesday, January 1st 2025, 02:00 local time
+const NIGHTLY = new Date(2025, 0, 1, 2, 0, 5)
+
+const tabs = [
+    {
+        project: 'chromium',
+        displayName: 'Chromium',
+        visible: true,
+        inPipeline: true,
+        stopPipelineOnFailure: false,
+        workers: 4,
+    },
+]
+
+describe('ScheduleService', () => {
+    let dbManager: DatabaseManager
+    let scheduleRepository: ScheduleRepository
+    let service: ScheduleService
+    let mockSettingsService: any
+    let mockTestService: any
+    let mockPipelineExecutionService: any
+
+    beforeEach(async () => {
+        vi.clearAllMocks()
+        vi.mocked(activeProcessesTracker.isAnyProcessRunning).mockReturnValue(false)
+
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        scheduleRepository = new ScheduleRepository(dbManager)
+
+        mockSettingsService = {getProjectTabConfigs: vi.fn().mockResolvedValue(tabs)}
+        mockTestService = {runAllTests: vi.fn().mockResolvedValue({runId: 'run-1'})}
+        mockPipelineExecutionService = {
+            startPipeline: vi.fn().mockResolvedValue({pipelineRunId: 'p-1'}),
+            isPipelineRunning: vi.fn(() => false),
+        }
+
+        service = new ScheduleService(
+            scheduleRepository,
+            mockSettingsService,
+            mockTestService,
+            mockPipelineExecutionService
+        )
+    })
+
+    afterEach(() => {
+        service.stop()
+        dbManager.close()
+    })
+
+    describe('createSchedule()', () => {
+        it('should save the schedule with its next run', async () => {
+            const schedule = await service.createSchedule({
+                name: ' Nightly ',
+                cron: '0 2 * * *',
+                project: 'chromium',
+            })
+
+            expect(schedule).toMatchObject({
+                name: 'Nightly',
+                cron: '0 2 * * *',
+                project: 'chromium',
+                enabled: true,
+            })
+            expect(new Date(schedule.nextRunAt!).getTime()).toBeGreaterThan(Date.now())
+        })
+
+        it('should schedule the whole pipeline without a project', async () => {
+            const schedule = await service.createSchedule({
+                name: 'Pipeline',
+                cron: '@daily',
+                project: '',
+            })
+
+            expect(schedule.project).toBeUndefined()
+        })
+
+        it('should have no next run when disabled', async () => {
+            const schedule = await service.createSchedule({
+                name: 'Paused',
+                cron: '@daily',
+                enabled: false,
+            })
+
+            expect(schedule.nextRunAt).toBeNull()
+        })
+
+        it.each([
+            [{name: '', cron: '@daily'}, 'name'],
+            [{name: 'a', cron: '0 2 * *'}, 'expected 5 fields'],
+            [{name: 'a', cron: '@daily', project: 'webkit'}, 'unknown project tab webkit'],
+        ])('should reject invalid input %#', async (input, message) => {
+            await expect(service.createSchedule(input)).rejects.toThrow(
+                new RegExp(`^${INVALID_SCHEDULE}: .*${message}`)
+            )
+        })
+    })
+
+    describe('updateSchedule()', () => {
+        it('should replace the settings of a schedule', async () => {
+            const {id} = await service.createSchedule({name: 'Nightly', cron: '0 2 * * *'})
+
+            const updated = await service.updateSchedule(id, {
+                name: 'Hourly',
+                cron: '@hourly',
+                enabled: false,
+            })
+
+            expect(updated).toMatchObject({name: 'Hourly', cron: '@hourly', enabled: false})
+        })
+
+        it('should return null for an unknown schedule', async () => {
+            expect(await service.updateSchedule('missing', {name: 'a', cron: '@daily'})).toBeNull()
+        })
+    })
+
+    describe('deleteSchedule()', () => {
+        it('should delete the schedule', async () => {
+            const {id} = await service.createSchedule({name: 'Nightly', cron: '0 2 * * *'})
+
+            expect(await service.deleteSchedule(id)).toBe(true)
+            expect(await service.getSchedules()).toEqual([])
+            expect(await service.deleteSchedule(id)).toBe(false)
+        })
+    })
+
+    describe('previewRuns()', () => {
+        it('should list the next runs of an expression', () => {
+            expect(service.previewRuns('0 2 * * *', 2, new Date(2025, 0, 1, 10, 0))).toEqual([
+                new Date(2025, 0, 2, 2, 0).toISOString(),
+                new Date(2025, 0, 3, 2, 0).toISOString(),
+            ])
+        })
+
+        it('should throw for an invalid expression', () => {
+            expect(() => service.previewRuns('every night')).toThrow(/Invalid cron expression/)
+        })
+    })
+
+    describe('tick()', () => {
+        it('should run due project schedules with the tab workers', async () => {
+            const {id} = await service.createSchedule({
+                name: 'Nightly',
+                cron: '0 2 * * *',
+                project: 'chromium',
+            })
+            await service.createSchedule({name: 'Later', cron: '0 3 * * *', project: 'chromium'})
+
+            await service.tick(NIGHTLY)
+
+            expect(mockTestService.runAllTests).toHaveBeenCalledTimes(1)
+            expect(mockTestService.runAllTests).toHaveBeenCalledWith(
+                4,
+                false,
+                'chromium',
+                SCHEDULE_SOURCE
+            )
+            expect(await service.getSchedule(id)).toMatchObject({
+                lastRunAt: NIGHTLY.toISOString(),
+                lastStatus: 'started',
+            })
+        })
+
+        it('should start the pipeline for schedules without a project', async () => {
+            await service.createSchedule({name: 'Pipeline', cron: '0 2 * * *'})
+
+            await service.tick(NIGHTLY)
+
+            expect(mockPipelineExecutionService.startPipeline).toHaveBeenCalledWith(
+                undefined,
+                SCHEDULE_SOURCE
+            )
+            expect(mockTestService.runAllTests).not.toHaveBeenCalled()
+        })
+
+        it('should not run disabled schedules or the same minute twice', async () => {
+            await service.createSchedule({name: 'Off', cron: '0 2 * * *', enabled: false})
+            await service.createSchedule({name: 'On', cron: '0 2 * * *'})
+
+            await service.tick(NIGHTLY)
+            await service.tick(new Date(NIGHTLY.getTime() + 20_000))
+
+            expect(mockPipelineExecutionService.startPipeline).toHaveBeenCalledTimes(1)
+        })
+
+        it('should skip while tests are running', async () => {
+            vi.mocked(activeProcessesTracker.isAnyProcessRunning).mockReturnValue(true)
+            const {id} = await service.createSchedule({name: 'Nightly', cron: '0 2 * * *'})
+
+            await service.tick(NIGHTLY)
+
+            expect(mockPipelineExecutionService.startPipeline).not.toHaveBeenCalled()
+            expect(await service.getSchedule(id)).toMatchObject({
+                lastStatus: 'skipped',
+                lastMessage: 'Tests are already running',
+            })
+        })
+
+        it('should skip between the steps of a running pipeline', async () => {
+            mockPipelineExecutionService.isPipelineRunning.mockReturnValue(true)
+            const {id} = await service.createSchedule({
+                name: 'Nightly',
+                cron: '0 2 * * *',
+                project: 'chromium',
+            })
+
+            await service.tick(NIGHTLY)
+
+            expect(mockTestService.runAllTests).not.toHaveBeenCalled()
+            expect(await service.getSchedule(id)).toMatchObject({
+                lastStatus: 'skipped',
+                lastMessage: 'Tests are already running',
+            })
+        })
+
+        it('should skip while the CI auto-run is paused', async () => {
+            mockPipelineExecutionService.startPipeline.mockRejectedValue(
+                new Error(
+                    JSON.stringify({code: 'CI_AUTORUN_PAUSED', message: 'CI auto-run is paused'})
+                )
+            )
+            const {id} = await service.createSchedule({name: 'Nightly', cron: '0 2 * * *'})
+
+            await service.tick(NIGHTLY)
+
+            expect(await service.getSchedule(id)).toMatchObject({
+                lastStatus: 'skipped',
+                lastMessage: 'CI auto-run is paused',
+            })
+        })
+
+        it('should record runs that fail to start', async () => {
+            mockPipelineExecutionService.startPipeline.mockRejectedValue(
+                new Error(
+                    JSON.stringify({
+                        code: 'PIPELINE_EMPTY',
+                        message: 'No project tabs are configured to run in the CI pipeline',
+                    })
+                )
+            )
+            const {id} = await service.createSchedule({name: 'Nightly', cron: '0 2 * * *'})
+
+            await service.tick(NIGHTLY)
+
+            expect(await service.getSchedule(id)).toMatchObject({
+                lastStatus: 'failed',
+                lastMessage: 'No project tabs are configured to run in the CI pipeline',
+            })
+        })
+    })
+})
@@ -1,5 +1,5 @@
 import {describe, it, expect, beforeEach, vi, Mock} from 'vitest'
-import {SettingsService} from '../settings.service'
+import {SettingsService, INVALID_PIPELINE_CONFIG} from '../settings.service'
 import {DiskThresholds} from '../../repositories/settings.repository'
 import {Logger} from '../../utils/logger.util'
 
@@ -287,6 +287,86 @@ describe('SettingsService', () => {
                 expect(result[0].workers).toBeUndefined()
             })
         })
+
+        it('keeps unique webhook ids and drops invalid ones', async () => {
+            mockRepository.setProjectTabConfigs.mockResolvedValue(undefined)
+
+            const result = await service.setProjectTabConfigs([
+                {
+                    project: 'API_Tests',
+                    displayName: 'API Tests',
+                    visible: true,
+                    inPipeline: false,
+                    stopPipelineOnFailure: false,
+                    webhookIds: ['hook-1', '', 42 as any, 'hook-1', 'hook-2'],
+                },
+                {
+                    project: 'UI_Tests',
+                    displayName: 'UI Tests',
+                    visible: true,
+                    inPipeline: false,
+                    stopPipelineOnFailure: false,
+                    webhookIds: 'hook-1' as any,
+                },
+            ])
+
+            expect(result[0].webhookIds).toEqual(['hook-1', 'hook-2'])
+            expect(result[1].webhookIds).toBeUndefined()
+        })
+
+        describe('pipeline stages and dependencies', () => {
+            const tab = (project: string, extra: object = {}) => ({
+                project,
+                displayName: project,
+                visible: true,
+                inPipeline: true,
+                stopPipelineOnFailure: false,
+                ...extra,
+            })
+
+            beforeEach(() => {
+                mockRepository.setProjectTabConfigs.mockResolvedValue(undefined)
+            })
+
+            it('keeps a positive integer stage and a known run condition', async () => {
+                const result = await service.setProjectTabConfigs([
+                    tab('API', {pipelineStage: 2, runCondition: 'always'}),
+                    tab('UI', {pipelineStage: 0, runCondition: 'sometimes'}),
+                    tab('Docs', {inPipeline: false, pipelineStage: 1, runCondition: 'always'}),
+                ])
+
+                expect(result[0]).toMatchObject({pipelineStage: 2, runCondition: 'always'})
+                expect(result[1].pipelineStage).toBeUndefined()
+                expect(result[1].runCondition).toBeUndefined()
+                expect(result[2].pipelineStage).toBeUndefined()
+                expect(result[2].runCondition).toBeUndefined()
+            })
+
+            it('keeps dependencies only on other steps of the pipeline', async () => {
+                const result = await service.setProjectTabConfigs([
+                    tab('Smoke'),
+                    tab('Docs', {inPipeline: false}),
+                    tab('API', {dependsOn: ['Smoke', 'Smoke', 'API', 'Docs', 'Missing']}),
+                    tab('UI', {dependsOn: ['Docs']}),
+                ])
+
+                expect(result[2].dependsOn).toEqual(['Smoke'])
+                expect(result[3].dependsOn).toBeUndefined()
+            })
+
+            it('rejects steps waiting for each other', async () => {
+                // B waits for A through its stage, A for B through its dependency
+                await expect(
+                    service.setProjectTabConfigs([
+                        tab('A', {pipelineStage: 1, dependsOn: ['B']}),
+                        tab('B', {pipelineStage: 2}),
+                    ])
+                ).rejects.toThrow(
+                    `${INVALID_PIPELINE_CONFIG}: steps wait for each other (A → B → A)`
+                )
+                expect(mockRepository.setProjectTabConfigs).not.toHaveBeenCalled()
+            })
+        })
     })
 
     describe('getPipelineSteps()', () => {
@@ -5,6 +5,7 @@ import type {TestResultData} from '../../types/database.types'
 import type {TestFilters} from '../../types/service.types'
 import {EventEmitter} from 'events'
 import type {ChildProcess} from 'child_process'
+import {activeProcessesTracker} from '../activeProcesses.service'
 
 // Mock all dependencies
 vi.mock('../../repositories/test.repository')
@@ -44,6 +45,8 @@ describe('TestService', () => {
     let mockNoteService: any
     let mockSettingsService: any
     let mockAttachmentCleanupRepository: any
+    let mockQuarantineService: any
+    let mockRunLogService: any
 
     // Helper to create mock child process
     const createMockProcess = (): ChildProcess => {
@@ -66,14 +69,15 @@ describe('TestService', () => {
         mockTestRepository = {
             execute: vi.fn().mockResolvedValue(undefined),
             saveTestResult: vi.fn(),
+            saveTestResults: vi.fn(),
             getTestResult: vi.fn(),
             getAllTests: vi.fn(),
             getTestResultsByTestId: vi.fn(),
             deleteByTestId: vi.fn(),
             deleteByExecutionId: vi.fn(),
+            getAttemptIds: vi.fn().mockImplementation(async (id: string) => [id]),
             clearAllTests: vi.fn(),
             getTestStats: vi.fn(),
-            getFlakyTests: vi.fn(),
             getTestTimeline: vi.fn(),
             getTestExecutionCount: vi.fn(),
             getIdsOlderThan: vi.fn(),
@@ -87,6 +91,9 @@ describe('TestService', () => {
             getDistinctTestIdsByProject: vi.fn().mockResolvedValue([]),
             deleteByProject: vi.fn().mockResolvedValue(0),
             getProjectStatusSummary: vi.fn().mockResolvedValue([]),
+            getFailedTests: vi.fn().mockResolvedValue([]),
+            getLatestTestsByIds: vi.fn().mockResolvedValue([]),
+            adoptLegacyTestIds: vi.fn().mockResolvedValue(0),
             getTestStatusCounts: vi.fn().mockResolvedValue({
                 total: 0,
                 passed: 0,
@@ -108,9 +115,13 @@ describe('TestService', () => {
             getAvailableProjects: vi.fn().mockResolvedValue([]),
             runAllTests: vi.fn(),
             runTestGroup: vi.fn(),
+            runFailedTests: vi.fn(),
+            runTestSelection: vi.fn(),
             rerunSingleTest: vi.fn(),
             getDiagnostics: vi.fn(),
             getReporterDiagnostics: vi.fn(),
+            hasProcess: vi.fn(() => false),
+            terminateProcess: vi.fn().mockResolvedValue(true),
         }
 
         mockWebSocketService = {
@@ -139,12 +150,22 @@ describe('TestService', () => {
             getGlobalPlaywrightProject: vi.fn().mockResolvedValue(''),
             getTestExecutionSettings: vi.fn(),
             setGlobalPlaywrightProject: vi.fn(),
+            getSkipQuarantinedTests: vi.fn().mockResolvedValue(false),
         }
 
         mockAttachmentCleanupRepository = {
             markCleared: vi.fn().mockResolvedValue(undefined),
         }
 
+        mockQuarantineService = {
+            getQuarantinedTitles: vi.fn().mockResolvedValue([]),
+        }
+
+        mockRunLogService = {
+            capture: vi.fn(),
+            clearAll: vi.fn().mockResolvedValue(undefined),
+        }
+
         // Create service instance
         testService = new TestService(
             mockTestRepository,
@@ -154,7 +175,9 @@ describe('TestService', () => {
             mockAttachmentService,
             mockNoteService,
             mockSettingsService,
-            mockAttachmentCleanupRepository
+            mockAttachmentCleanupRepository,
+            mockQuarantineService,
+            mockRunLogService
         )
     })
 
@@ -208,6 +231,9 @@ describe('TestService', () => {
             // Verify Playwright service was called
             expect(mockPlaywrightService.discoverTests).toHaveBeenCalled()
 
+            // Verify legacy history is moved to the discovered IDs
+            expect(mockTestRepository.adoptLegacyTestIds).toHaveBeenCalledWith(mockDiscoveredTests)
+
             // Verify each test was saved
             expect(mockTestRepository.saveTestResult).toHaveBeenCalledTimes(2)
 
@@ -344,6 +370,40 @@ describe('TestService', () => {
             )
         })
 
+        it('should store a normalized error signature for failed results only', async () => {
+            const failed: TestResultData = {
+                id: 'exec-1',
+                testId: 'hash-1',
+                runId: 'run-1',
+                name: 'Test 1',
+                filePath: '/path/to/test.spec.ts',
+                status: 'timedOut',
+                duration: 30000,
+                errorMessage: 'Test timeout of 30000ms exceeded.',
+                timestamp: '2025-10-21T10:00:00.000Z',
+            }
+            const passed: TestResultData = {
+                ...failed,
+                id: 'exec-2',
+                status: 'passed',
+                errorSignature: 'sent by the client',
+            }
+            mockTestRepository.saveTestResult.mockResolvedValue('exec-1')
+
+            await testService.saveTestResult(failed)
+            await testService.saveTestResult(passed)
+
+            expect(mockTestRepository.saveTestResult).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    id: 'exec-1',
+                    errorSignature: 'Test timeout of <n>ms exceeded.',
+                })
+            )
+            expect(mockTestRepository.saveTestResult).toHaveBeenCalledWith(
+                expect.objectContaining({id: 'exec-2', errorSignature: undefined})
+            )
+        })
+
         it('should enforce INSERT-only strategy (never UPDATE)', async () => {
             const testData1: TestResultData = {
                 id: 'exec-1',
@@ -509,6 +569,90 @@ describe('TestService', () => {
         })
     })
 
+    describe('saveTestResultsBatch', () => {
+        const makeResult = (i: number, extra: Partial<TestResultData> = {}): any => ({
+            id: `exec-${i}`,
+            testId: `hash-${i}`,
+            runId: 'run-1',
+            name: `Test ${i}`,
+            filePath: '/path/to/test.spec.ts',
+            status: 'passed',
+            duration: 100,
+            metadata: '{}',
+            timestamp: '2025-10-21T10:00:00.000Z',
+            ...extra,
+        })
+
+        it('should save all results through one repository call', async () => {
+            const results = [makeResult(1), makeResult(2), makeResult(3)]
+            mockTestRepository.saveTestResults.mockResolvedValue(
+                results.map((result) => ({id: result.id}))
+            )
+
+            const items = await testService.saveTestResultsBatch(results)
+
+            expect(mockTestRepository.saveTestResults).toHaveBeenCalledTimes(1)
+            expect(mockTestRepository.saveTestResults).toHaveBeenCalledWith(results)
+            expect(mockTestRepository.saveTestResult).not.toHaveBeenCalled()
+            expect(items).toEqual([
+                {id: 'exec-1', testId: 'hash-1', status: 'saved'},
+                {id: 'exec-2', testId: 'hash-2', status: 'saved'},
+                {id: 'exec-3', testId: 'hash-3', status: 'saved'},
+            ])
+        })
+
+        it('should look up the run project once per run', async () => {
+            mockRunRepository.getTestRun.mockResolvedValue({metadata: {project: 'chromium'}})
+            const results = [makeResult(1), makeResult(2)]
+            mockTestRepository.saveTestResults.mockResolvedValue(
+                results.map((result) => ({id: result.id}))
+            )
+
+            await testService.saveTestResultsBatch(results)
+
+            expect(mockRunRepository.getTestRun).toHaveBeenCalledTimes(1)
+            expect(results.map((result) => result.project)).toEqual(['chromium', 'chromium'])
+        })
+
+        it('should report failed items and only save attachments for saved ones', async () => {
+            const attachments = [{name: 'screenshot', path: '/tmp/s.png', contentType: 'image/png'}]
+            const results = [
+                makeResult(1, {attachments} as any),
+                makeResult(2, {attachments} as any),
+            ]
+            mockTestRepository.saveTestResults.mockResolvedValue([
+                {id: 'exec-1'},
+                {id: 'exec-2', error: 'UNIQUE constraint failed: test_results.id'},
+            ])
+
+            const items = await testService.saveTestResultsBatch(results)
+
+            expect(items[1]).toEqual({
+                id: 'exec-2',
+                testId: 'hash-2',
+                status: 'failed',
+                error: 'UNIQUE constraint failed: test_results.id',
+            })
+            expect(mockAttachmentService.saveAttachmentsForTestResult).toHaveBeenCalledTimes(1)
+            expect(mockAttachmentService.saveAttachmentsForTestResult).toHaveBeenCalledWith(
+                'exec-1',
+                attachments
+            )
+        })
+
+        it('should keep a saved result when copying its attachments fails', async () => {
+            const results = [makeResult(1, {attachments: [{name: 'video'}]} as any)]
+            mockTestRepository.saveTestResults.mockResolvedValue([{id: 'exec-1'}])
+            mockAttachmentService.saveAttachmentsForTestResult.mockRejectedValue(
+                new Error('disk full')
+            )
+
+            const items = await testService.saveTestResultsBatch(results)
+
+            expect(items[0].status).toBe('saved')
+        })
+    })
+
     describe('getTestHistory', () => {
         it('should retrieve test history (attachments are loaded by repository JOIN, no N+1)', async () => {
             const mockHistory = [
@@ -691,6 +835,7 @@ describe('TestService', () => {
             await testService.clearAllTests()
 
             expect(mockTestRepository.clearAllTests).toHaveBeenCalled()
+            expect(mockRunLogService.clearAll).toHaveBeenCalled()
         })
 
         it('should propagate errors from repository', async () => {
@@ -771,29 +916,6 @@ describe('TestService', () => {
         })
     })
 
-    describe('getFlakyTests', () => {
-        it('should get flaky tests with default parameters', async () => {
-            const mockFlakyTests = [{testId: 'hash-1', flakyRate: 0.25, totalRuns: 20, failures: 5}]
-
-            mockTestRepository.getFlakyTests.mockResolvedValue(mockFlakyTests)
-
-            const result = await testService.getFlakyTests()
-
-            expect(result).toEqual(mockFlakyTests)
-            expect(mockTestRepository.getFlakyTests).toHaveBeenCalledWith(30, 10)
-        })
-
-        it('should get flaky tests with custom parameters', async () => {
-            const mockFlakyTests: any[] = []
-            mockTestRepository.getFlakyTests.mockResolvedValue(mockFlakyTests)
-
-            const result = await testService.getFlakyTests(7, 20)
-
-            expect(result).toEqual(mockFlakyTests)
-            expect(mockTestRepository.getFlakyTests).toHaveBeenCalledWith(7, 20)
-        })
-    })
-
     describe('getTestTimeline', () => {
         it('should get test timeline with default days', async () => {
             const mockTimeline = [
@@ -904,7 +1026,12 @@ describe('TestService', () => {
             const result = await testService.runAllTests(4)
 
             expect(result).toEqual(mockResult)
-            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(4, undefined)
+            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(
+                4,
+                undefined,
+                [],
+                undefined
+            )
             expect(mockRunRepository.createTestRun).toHaveBeenCalledWith({
                 id: 'run-123',
                 status: 'running',
@@ -923,6 +1050,52 @@ describe('TestService', () => {
                 'run-123',
                 'run-all'
             )
+            expect(mockRunLogService.capture).toHaveBeenCalledWith('run-123', mockProcess)
+        })
+
+        it('should record the trigger source and pipeline run in the run metadata', async () => {
+            // Arrange
+            mockSettingsService.getCIAutoRunPause = vi.fn().mockResolvedValue({paused: false})
+            mockPlaywrightService.runAllTests.mockResolvedValue({
+                runId: 'run-pipe-1',
+                message: 'Tests started',
+                timestamp: '2025-10-21T10:00:00.000Z',
+                process: createMockProcess(),
+            })
+
+            // Act
+            await testService.runAllTests(2, true, 'API_Tests', 'script', 'pipeline-1')
+
+            // Assert
+            expect(mockRunRepository.createTestRun).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    metadata: {
+                        type: 'run-all',
+                        triggeredFrom: 'script',
+                        project: 'API_Tests',
+                        pipelineRunId: 'pipeline-1',
+                    },
+                })
+            )
+        })
+
+        it('should label runs started by a schedule', async () => {
+            mockSettingsService.getCIAutoRunPause = vi.fn().mockResolvedValue({paused: false})
+            mockPlaywrightService.runAllTests.mockResolvedValue({
+                runId: 'run-scheduled-1',
+                message: 'Tests started',
+                timestamp: '2025-10-21T10:00:00.000Z',
+                process: createMockProcess(),
+            })
+
+            await testService.runAllTests(undefined, true, 'API_Tests', 'schedule')
+
+            expect(mockSettingsService.getCIAutoRunPause).toHaveBeenCalled()
+            expect(mockRunRepository.createTestRun).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    metadata: expect.objectContaining({triggeredFrom: 'schedule'}),
+                })
+            )
         })
 
         it('should use requestedProject when provided, ignoring global settings', async () => {
@@ -941,7 +1114,12 @@ describe('TestService', () => {
             await testService.runAllTests(2, false, 'Frontend')
 
             // Assert - requestedProject takes precedence over global settings
-            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(2, 'Frontend')
+            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(
+                2,
+                'Frontend',
+                [],
+                undefined
+            )
         })
 
         it('should fall back to global project from settings when no requestedProject', async () => {
@@ -960,7 +1138,12 @@ describe('TestService', () => {
             await testService.runAllTests(2)
 
             // Assert - global settings used as fallback
-            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(2, 'Sanity')
+            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(
+                2,
+                'Sanity',
+                [],
+                undefined
+            )
         })
 
         it('should scope auto-discovery to the Settings-configured project for CI script triggers', async () => {
@@ -988,7 +1171,12 @@ describe('TestService', () => {
                 'DELETE FROM test_results WHERE status = ? AND project = ?',
                 ['pending', 'API_Tests']
             )
-            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(undefined, 'API_Tests')
+            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(
+                undefined,
+                'API_Tests',
+                [],
+                undefined
+            )
         })
 
         it('should pass undefined project when no global project is configured', async () => {
@@ -1006,7 +1194,49 @@ describe('TestService', () => {
             await testService.runAllTests()
 
             // Assert - no project means undefined
-            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(undefined, undefined)
+            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(
+                undefined,
+                undefined,
+                [],
+                undefined
+            )
+        })
+
+        it('should skip quarantined tests of the project when the setting is enabled', async () => {
+            // Arrange
+            mockSettingsService.getSkipQuarantinedTests.mockResolvedValue(true)
+            mockQuarantineService.getQuarantinedTitles.mockResolvedValue(['flaky login'])
+            mockPlaywrightService.runAllTests.mockResolvedValue({
+                runId: 'run-skip-1',
+                message: 'Tests started for project: Frontend',
+                timestamp: '2025-10-21T10:00:00.000Z',
+                process: createMockProcess(),
+            })
+
+            // Act
+            await testService.runAllTests(2, true, 'Frontend')
+
+            // Assert
+            expect(mockQuarantineService.getQuarantinedTitles).toHaveBeenCalledWith('Frontend')
+            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(
+                2,
+                'Frontend',
+                ['flaky login'],
+                undefined
+            )
+        })
+
+        it('should not look up quarantined tests when the setting is disabled', async () => {
+            mockPlaywrightService.runAllTests.mockResolvedValue({
+                runId: 'run-skip-2',
+                message: 'All tests started',
+                timestamp: '2025-10-21T10:00:00.000Z',
+                process: createMockProcess(),
+            })
+
+            await testService.runAllTests(2, true)
+
+            expect(mockQuarantineService.getQuarantinedTitles).not.toHaveBeenCalled()
         })
 
         it('should handle process completion', async () => {
@@ -1114,6 +1344,27 @@ describe('TestService', () => {
             }
         })
 
+        it('should run a pipeline step beside the other steps of its stage', async () => {
+            const {activeProcessesTracker} = await import('../activeProcesses.service')
+            vi.mocked(activeProcessesTracker.isRunAllActive).mockReturnValue(true)
+            mockPlaywrightService.runAllTests.mockResolvedValue({
+                runId: 'run-ui',
+                message: 'Tests started',
+                timestamp: '2025-10-21T10:00:00.000Z',
+                process: createMockProcess(),
+            })
+
+            await testService.runAllTests(2, true, 'UI_Tests', undefined, 'pipeline-1')
+
+            // Own output directory, so the steps don't clear each other's artifacts
+            expect(mockPlaywrightService.runAllTests).toHaveBeenCalledWith(
+                2,
+                'UI_Tests',
+                [],
+                'test-results/pipeline/UI_Tests'
+            )
+        })
+
         it('should allow new run when no tests are running', async () => {
             const mockProcess = createMockProcess()
             const mockResult = {
@@ -1236,6 +1487,296 @@ describe('TestService', () => {
         })
     })
 
+    describe('rerunFailedTests', () => {
+        const mockResult = () => ({
+            runId: 'run-789',
+            message: 'Rerun of 3 failed tests started',
+            timestamp: '2025-10-21T10:00:00.000Z',
+            process: createMockProcess(),
+        })
+
+        it('should rerun the failed tests of a run in one process', async () => {
+            mockTestRepository.getFailedTests.mockResolvedValue([
+                {
+                    name: 'Login',
+                    filePath: 'auth.spec.ts',
+                    project: 'chromium',
+                    metadata: {titlePath: ['Admin', 'Login']},
+                },
+                {name: 'Logout', filePath: 'auth.spec.ts', project: 'chromium'},
+                {name: 'Checkout', filePath: 'cart.spec.ts', project: 'chromium'},
+            ])
+            mockPlaywrightService.runFailedTests.mockResolvedValue(mockResult())
+
+            const result = await testService.rerunFailedTests({runId: 'run-1'}, 2)
+
+            expect(mockTestRepository.getFailedTests).toHaveBeenCalledWith({runId: 'run-1'})
+            expect(mockPlaywrightService.runFailedTests).toHaveBeenCalledWith(
+                [
+                    {
+                        name: 'Login',
+                        filePath: 'auth.spec.ts',
+                        titlePath: ['Admin', 'Login'],
+                        project: 'chromium',
+                    },
+                    {
+                        name: 'Logout',
+                        filePath: 'auth.spec.ts',
+                        titlePath: undefined,
+                        project: 'chromium',
+                    },
+                    {
+                        name: 'Checkout',
+                        filePath: 'cart.spec.ts',
+                        titlePath: undefined,
+                        project: 'chromium',
+                    },
+                ],
+                2,
+                'chromium'
+            )
+            expect(activeProcessesTracker.addProcess).toHaveBeenCalledTimes(1)
+            expect(activeProcessesTracker.addProcess).toHaveBeenCalledWith({
+                runId: 'run-789',
+                type: 'rerun-failed',
+                project: 'chromium',
+                pid: 12345,
+            })
+            expect(mockRunRepository.createTestRun).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    id: 'run-789',
+                    metadata: {
+                        type: 'rerun-failed',
+                        triggeredFrom: 'dashboard',
+                        filteredTests: 3,
+                        rerunOfRunId: 'run-1',
+                        project: 'chromium',
+                    },
+                })
+            )
+            expect(mockWebSocketService.broadcastRunStarted).toHaveBeenCalledWith(
+                'run-789',
+                'rerun-failed'
+            )
+            expect(result).toMatchObject({runId: 'run-789', failedTests: 3, files: 2})
+        })
+
+        it('should run in the requested project, or each test in its own when failures span several', async () => {
+            mockTestRepository.getFailedTests.mockResolvedValue([
+                {name: 'Login', filePath: 'auth.spec.ts', project: 'chromium'},
+                {name: 'Login', filePath: 'auth.spec.ts', project: 'firefox'},
+            ])
+            mockPlaywrightService.runFailedTests.mockResolvedValue(mockResult())
+
+            await testService.rerunFailedTests({project: 'firefox'})
+            expect(mockPlaywrightService.runFailedTests).toHaveBeenLastCalledWith(
+                [
+                    expect.objectContaining({project: 'firefox'}),
+                    expect.objectContaining({project: 'firefox'}),
+                ],
+                undefined,
+                'firefox'
+            )
+
+            await testService.rerunFailedTests({})
+            expect(mockPlaywrightService.runFailedTests).toHaveBeenLastCalledWith(
+                [
+                    expect.objectContaining({project: 'chromium'}),
+                    expect.objectContaining({project: 'firefox'}),
+                ],
+                undefined,
+                undefined
+            )
+        })
+
+        it('should throw when there are no failed tests', async () => {
+            await expect(testService.rerunFailedTests({project: 'chromium'})).rejects.toThrow(
+                'No failed tests to rerun'
+            )
+            expect(mockPlaywrightService.runFailedTests).not.toHaveBeenCalled()
+        })
+
+        it('should untrack the process and broadcast completion when it closes', async () => {
+            const result = mockResult()
+            mockTestRepository.getFailedTests.mockResolvedValue([
+                {name: 'Login', filePath: 'auth.spec.ts', project: 'chromium'},
+            ])
+            mockPlaywrightService.runFailedTests.mockResolvedValue(result)
+
+            await testService.rerunFailedTests({runId: 'run-1'})
+            result.process.emit('close', 0)
+
+            expect(activeProcessesTracker.removeProcess).toHaveBeenCalledWith('run-789')
+            expect(mockWebSocketService.broadcastRunCompleted).toHaveBeenCalledWith(
+                'run-789',
+                0,
+                'rerun-failed'
+            )
+        })
+    })
+
+    describe('runTestSelection', () => {
+        const mockResult = () => ({
+            runId: 'run-321',
+            message: 'Selected tests started',
+            timestamp: '2025-10-21T10:00:00.000Z',
+            process: createMockProcess(),
+        })
+
+        it('should resolve test IDs to their files and titles and track the run', async () => {
+            mockTestRepository.getLatestTestsByIds.mockResolvedValue([
+                {
+                    name: 'Login',
+                    filePath: 'auth.spec.ts',
+                    project: 'chromium',
+                    metadata: {titlePath: ['Admin', 'Login']},
+                },
+                {name: 'Checkout', filePath: 'cart.spec.ts', project: 'chromium'},
+            ])
+            mockPlaywrightService.runTestSelection.mockResolvedValue(mockResult())
+
+            const result = await testService.runTestSelection({testIds: ['t1', 't2', 't1']}, 2)
+
+            expect(mockTestRepository.getLatestTestsByIds).toHaveBeenCalledWith(['t1', 't2'])
+            expect(mockPlaywrightService.runTestSelection).toHaveBeenCalledWith(
+                {
+                    tests: [
+                        {
+                            name: 'Login',
+                            filePath: 'auth.spec.ts',
+                            titlePath: ['Admin', 'Login'],
+                            project: 'chromium',
+                        },
+                        {
+                            name: 'Checkout',
+                            filePath: 'cart.spec.ts',
+                            titlePath: undefined,
+                            project: 'chromium',
+                        },
+                    ],
+                    tags: undefined,
+                    grep: undefined,
+                    grepInvert: undefined,
+                },
+                2,
+                'chromium'
+            )
+            expect(activeProcessesTracker.addProcess).toHaveBeenCalledWith({
+                runId: 'run-321',
+                type: 'run-selection',
+                project: 'chromium',
+                pid: 12345,
+            })
+            expect(mockRunRepository.createTestRun).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    id: 'run-321',
+                    metadata: expect.objectContaining({
+                        type: 'run-selection',
+                        triggeredFrom: 'dashboard',
+                        filteredTests: 2,
+                        project: 'chromium',
+                    }),
+                })
+            )
+            expect(mockWebSocketService.broadcastRunStarted).toHaveBeenCalledWith(
+                'run-321',
+                'run-selection'
+            )
+            expect(result).toMatchObject({runId: 'run-321', selectedTests: 2})
+        })
+
+        it('should run tests of several projects each in its own, or all in the requested one', async () => {
+            mockTestRepository.getLatestTestsByIds.mockResolvedValue([
+                {name: 'Login', filePath: 'auth.spec.ts', project: 'chromium'},
+                {name: 'Login', filePath: 'auth.spec.ts', project: 'firefox'},
+            ])
+            mockPlaywrightService.runTestSelection.mockResolvedValue(mockResult())
+
+            await testService.runTestSelection({testIds: ['t1', 't2']})
+            expect(mockPlaywrightService.runTestSelection).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    tests: [
+                        expect.objectContaining({project: 'chromium'}),
+                        expect.objectContaining({project: 'firefox'}),
+                    ],
+                }),
+                undefined,
+                undefined
+            )
+
+            await testService.runTestSelection({testIds: ['t1', 't2'], project: 'webkit'})
+            expect(mockPlaywrightService.runTestSelection).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    tests: [
+                        expect.objectContaining({project: 'webkit'}),
+                        expect.objectContaining({project: 'webkit'}),
+                    ],
+                }),
+                undefined,
+                'webkit'
+            )
+        })
+
+        it('should run tags in the requested project, adding the missing @', async () => {
+            mockPlaywrightService.runTestSelection.mockResolvedValue(mockResult())
+
+            await testService.runTestSelection({tags: ['smoke', '@fast'], project: 'firefox'})
+
+            expect(mockTestRepository.getLatestTestsByIds).not.toHaveBeenCalled()
+            expect(mockPlaywrightService.runTestSelection).toHaveBeenCalledWith(
+                {
+                    tests: undefined,
+                    tags: ['@smoke', '@fast'],
+                    grep: undefined,
+                    grepInvert: undefined,
+                },
+                undefined,
+                'firefox'
+            )
+            expect(mockRunRepository.createTestRun).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    metadata: expect.objectContaining({tags: ['@smoke', '@fast']}),
+                })
+            )
+        })
+
+        it.each([
+            [{}, 'pass one of testIds, grep or tags'],
+            [{grep: 'a', tags: ['@smoke']}, 'pass one of testIds, grep or tags'],
+            [{testIds: []}, 'testIds must be a list of test IDs'],
+            [{tags: 'smoke'}, 'tags must be a list of tags'],
+            [{grep: '('}, 'grep must be a regular expression'],
+            [{grep: 'a', grepInvert: '['}, 'grepInvert must be a regular expression'],
+        ])('should reject the invalid selection %j', async (selection, message) => {
+            await expect(testService.runTestSelection(selection as any)).rejects.toThrow(
+                `Invalid test selection: ${message}`
+            )
+            expect(mockPlaywrightService.runTestSelection).not.toHaveBeenCalled()
+        })
+
+        it('should reject test IDs that match no test', async () => {
+            await expect(testService.runTestSelection({testIds: ['missing']})).rejects.toThrow(
+                'Invalid test selection: none of the tests were found'
+            )
+            expect(mockPlaywrightService.runTestSelection).not.toHaveBeenCalled()
+        })
+
+        it('should untrack the process and broadcast completion when it closes', async () => {
+            const result = mockResult()
+            mockPlaywrightService.runTestSelection.mockResolvedValue(result)
+
+            await testService.runTestSelection({grep: 'checkout'})
+            result.process.emit('close', 1)
+
+            expect(activeProcessesTracker.removeProcess).toHaveBeenCalledWith('run-321')
+            expect(mockWebSocketService.broadcastRunCompleted).toHaveBeenCalledWith(
+                'run-321',
+                1,
+                'run-selection'
+            )
+        })
+    })
+
     describe('rerunTest', () => {
         it('should rerun test successfully', async () => {
             const mockTest = {
@@ -1415,6 +1956,73 @@ describe('TestService', () => {
         })
     })
 
+    describe('cancelRun', () => {
+        it('should terminate the process and mark the run interrupted', async () => {
+            mockPlaywrightService.hasProcess.mockReturnValue(true)
+            vi.mocked(activeProcessesTracker.isProcessRunning).mockReturnValueOnce(false)
+
+            const cancelled = await testService.cancelRun('run-123')
+
+            expect(cancelled).toBe(true)
+            expect(mockPlaywrightService.terminateProcess).toHaveBeenCalledWith('run-123')
+            expect(mockRunRepository.updateTestRun).toHaveBeenCalledWith('run-123', {
+                status: 'interrupted',
+            })
+            // The close handler of the run reports its completion
+            expect(mockWebSocketService.broadcastRunCompleted).not.toHaveBeenCalled()
+            expect(mockWebSocketService.broadcast).toHaveBeenCalledWith({
+                type: 'process:ended',
+                data: {runId: 'run-123', status: 'interrupted'},
+            })
+        })
+
+        it('should mark the run interrupted only after its process closed', async () => {
+            const calls: string[] = []
+            mockPlaywrightService.hasProcess.mockReturnValue(true)
+            mockPlaywrightService.terminateProcess.mockImplementation(async () => {
+                calls.push('terminate')
+                return true
+            })
+            mockRunRepository.updateTestRun.mockImplementation(async () => {
+                calls.push('update')
+            })
+
+            await testService.cancelRun('run-123')
+
+            expect(calls).toEqual(['terminate', 'update'])
+        })
+
+        it('should clear a tracked run that has no process of ours', async () => {
+            vi.mocked(activeProcessesTracker.getActiveProcesses).mockReturnValueOnce([
+                {
+                    id: 'run-ci',
+                    type: 'run-all',
+                    startedAt: '2025-10-21T10:00:00.000Z',
+                    details: {},
+                } as any,
+            ])
+
+            const cancelled = await testService.cancelRun('run-ci')
+
+            expect(cancelled).toBe(true)
+            expect(mockPlaywrightService.terminateProcess).not.toHaveBeenCalled()
+            expect(activeProcessesTracker.removeProcess).toHaveBeenCalledWith('run-ci')
+            expect(mockWebSocketService.broadcastRunCompleted).toHaveBeenCalledWith(
+                'run-ci',
+                1,
+                'run-all',
+                undefined
+            )
+        })
+
+        it('should return false for a run that is not running', async () => {
+            const cancelled = await testService.cancelRun('run-done')
+
+            expect(cancelled).toBe(false)
+            expect(mockRunRepository.updateTestRun).not.toHaveBeenCalled()
+        })
+    })
+
     describe('getDiagnostics', () => {
         it('should get comprehensive diagnostics', async () => {
             const mockPlaywrightDiagnostics = {
@@ -1853,6 +2461,22 @@ describe('TestService', () => {
             expect(result).toEqual({success: true})
         })
 
+        it('should delete attachments of every attempt of a retried execution', async () => {
+            mockTestRepository.getAttemptIds.mockResolvedValue(['attempt-1', 'attempt-2'])
+            mockTestRepository.deleteByExecutionId.mockResolvedValue(2)
+
+            const result = await testService.deleteExecution('attempt-2')
+
+            expect(mockAttachmentService.deleteAttachmentsForTestResult).toHaveBeenCalledWith(
+                'attempt-1'
+            )
+            expect(mockAttachmentService.deleteAttachmentsForTestResult).toHaveBeenCalledWith(
+                'attempt-2'
+            )
+            expect(mockTestRepository.deleteByExecutionId).toHaveBeenCalledWith('attempt-2')
+            expect(result).toEqual({success: true})
+        })
+
         it('should return success=false when execution not found', async () => {
             const executionId = 'non-existent-exec'
 
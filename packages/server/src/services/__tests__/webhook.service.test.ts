@@ -0,0 +1,531 @@
+import {describe, it, expect, beforeEach, afterEach, vi} from 'vitest'
+import http from 'http'
+import {AddressInfo} from 'net'
+import {
+    INVALID_WEBHOOK,
+    SIGNATURE_HEADER,
+    WebhookService,
+    renderTemplate,
+    signPayload,
+} from '../webhook.service'
+import {RunComparisonService} from '../runComparison.service'
+import {WebhookRepository} from '../../repositories/webhook.repository'
+import {RunRepository} from '../../repositories/run.repository'
+import {TestRepository} from '../../repositories/test.repository'
+import {SettingsRepository} from '../../repositories/settings.repository'
+import {DatabaseManager} from '../../database/database.manager'
+
+vi.mock('../../utils/logger.util', () => ({
+    Logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warn: vi.fn(),
+        debug: vi.fn(),
+        critical: vi.fn(),
+    },
+}))
+
+interface ReceivedRequest {
+    headers: http.IncomingHttpHeaders
+    body: string
+}
+
+/**
+ * Local HTTP endpoint standing in for a webhook receiver. Answers each request
+ * with the next queued status code (200 once the queue is empty).
+ */
+async function startStub() {
+    const received: ReceivedRequest[] = []
+    const statuses: number[] = []
+
+    const server = http.createServer((req, res) => {
+        let body = ''
+        req.on('data', (chunk) => (body += chunk))
+        req.on('end', () => {
+            received.push({headers: req.headers, body})
+            res.statusCode = statuses.shift() ?? 200
+            res.end()
+        })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`,
+        received,
+        statuses,
+        close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    }
+}
+
+describe('WebhookService', () => {
+    let dbManager: DatabaseManager
+    let webhookRepository: WebhookRepository
+    let runRepository: RunRepository
+    let testRepository: TestRepository
+    let settingsRepository: SettingsRepository
+    let service: WebhookService
+    let stub: Awaited<ReturnType<typeof startStub>>
+
+    const createRun = async (id: string, createdAt: string) => {
+        await runRepository.createTestRun({
+            id,
+            status: 'completed',
+            totalTests: 2,
+            passedTests: 1,
+            failedTests: 1,
+            skippedTests: 0,
+            duration: 1200,
+            metadata: {project: 'chromium'},
+            createdAt,
+        })
+    }
+
+    const saveResult = async (
+        runId: string,
+        testId: string,
+        status: 'passed' | 'failed',
+        options: {retryCount?: number; executionId?: string} = {}
+    ) => {
+        await testRepository.saveTestResult({
+            id: `${runId}-${testId}-${options.retryCount ?? 0}`,
+            runId,
+            testId,
+            name: `${testId} title`,
+            filePath: 'tests/example.spec.ts',
+            status,
+            duration: 100,
+            errorMessage: status === 'failed' ? 'expected true' : undefined,
+            ...options,
+        } as any)
+    }
+
+    beforeEach(async () => {
+        dbManager = new DatabaseManager(':memory:')
+        await dbManager.initialize()
+        webhookRepository = new WebhookRepository(dbManager)
+        runRepository = new RunRepository(dbManager)
+        testRepository = new TestRepository(dbManager)
+        settingsRepository = new SettingsRepository(dbManager)
+        service = new WebhookService(
+            webhookRepository,
+            runRepository,
+            testRepository,
+            new RunComparisonService(testRepository),
+            settingsRepository,
+            [0, 0]
+        )
+        stub = await startStub()
+    })
+
+    afterEach(async () => {
+        await stub.close()
+        dbManager.close()
+    })
+
+    describe('renderTemplate()', () => {
+        const payload = {
+            event: 'process:ended' as const,
+            deliveryId: 'd-1',
+            timestamp: '2025-01-01T00:00:00.000Z',
+            data: {runId: 'run-1', failedTests: 2, note: 'say "hi"'},
+        }
+
+        it('should escape strings for use inside a JSON string literal', () => {
+            const body = renderTemplate('{"text": "Run {{data.runId}}: {{ data.note }}"}', payload)
+
+            expect(JSON.parse(body)).toEqual({text: 'Run run-1: say "hi"'})
+        })
+
+        it('should insert other values as JSON and missing values as null', () => {
+            const body = renderTemplate(
+                '{"failed": {{data.failedTests}}, "missing": {{data.nope.deeper}}}',
+                payload
+            )
+
+            expect(JSON.parse(body)).toEqual({failed: 2, missing: null})
+        })
+    })
+
+    describe('createWebhook()', () => {
+        it('should save the webhook without exposing its secret', async () => {
+            const webhook = await service.createWebhook({
+                name: ' CI alerts ',
+                url: stub.url,
+                events: ['process:ended'],
+                secret: 's3cret',
+            })
+
+            expect(webhook).toMatchObject({
+                name: 'CI alerts',
+                url: stub.url,
+                events: ['process:ended'],
+                format: 'json',
+                enabled: true,
+                hasSecret: true,
+            })
+            expect(webhook).not.toHaveProperty('secret')
+        })
+
+        it.each([
+            [{name: '', url: 'https://example.com', events: ['process:ended']}, 'name'],
+            [{name: 'a', url: 'ftp://example.com', events: ['process:ended']}, 'url'],
+            [{name: 'a', url: 'https://example.com', events: []}, 'event'],
+            [{name: 'a', url: 'https://example.com', events: ['webhook:test']}, 'unknown event'],
+            [
+                {name: 'a', url: 'https://example.com', events: ['test:flaky'], template: '{'},
+                'template',
+            ],
+            [
+                {name: 'a', url: 'https://example.com', events: ['test:flaky'], format: 'xml'},
+                'format',
+            ],
+            [
+                {
+                    name: 'a',
+                    url: 'https://example.com',
+                    events: ['test:flaky'],
+                    format: 'slack',
+                    template: '{}',
+                },
+                'json format',
+            ],
+        ])('should reject invalid input %#', async (input, message) => {
+            await expect(service.createWebhook(input as any)).rejects.toThrow(
+                new RegExp(`^${INVALID_WEBHOOK}: .*${message}`)
+            )
+        })
+    })
+
+    describe('updateWebhook()', () => {
+        it('should keep the secret when omitted and remove it when null', async () => {
+            const {id} = await service.createWebhook({
+                name: 'Hook',
+                url: stub.url,
+                events: ['process:ended'],
+                secret: 's3cret',
+            })
+            const input = {name: 'Hook', url: stub.url, events: ['test:flaky' as const]}
+
+            expect((await service.updateWebhook(id, input))?.hasSecret).toBe(true)
+            expect((await service.updateWebhook(id, {...input, secret: null}))?.hasSecret).toBe(
+                false
+            )
+        })
+
+        it('should return null for an unknown webhook', async () => {
+            expect(
+                await service.updateWebhook('missing', {
+                    name: 'Hook',
+                    url: stub.url,
+                    events: ['test:flaky'],
+                })
+            ).toBeNull()
+        })
+    })
+
+    describe('dispatch()', () => {
+        it('should POST a signed payload to subscribed webhooks only', async () => {
+            await service.createWebhook({
+                name: 'Signed',
+                url: stub.url,
+                events: ['pipeline:completed'],
+                secret: 's3cret',
+            })
+            await service.createWebhook({name: 'Other', url: stub.url, events: ['test:flaky']})
+            await service.createWebhook({
+                name: 'Disabled',
+                url: stub.url,
+                events: ['pipeline:completed'],
+                enabled: false,
+            })
+
+            await service.dispatch('pipeline:completed', {pipelineRunId: 'p-1'})
+
+            expect(stub.received).toHaveLength(1)
+            const [request] = stub.received
+            expect(JSON.parse(request.body)).toMatchObject({
+                event: 'pipeline:completed',
+                data: {pipelineRunId: 'p-1'},
+            })
+            expect(request.headers['x-webhook-event']).toBe('pipeline:completed')
+            expect(request.headers[SIGNATURE_HEADER.toLowerCase()]).toBe(
+                signPayload(request.body, 's3cret')
+            )
+        })
+
+        it('should send the rendered template as the body', async () => {
+            await service.createWebhook({
+                name: 'Chat',
+                url: stub.url,
+                events: ['pipeline:completed'],
+                template: '{"text": "Pipeline {{data.status}}"}',
+            })
+
+            await service.dispatch('pipeline:completed', {status: 'stopped_early'})
+
+            expect(JSON.parse(stub.received[0].body)).toEqual({text: 'Pipeline stopped_early'})
+        })
+
+        it('should send a chat message for chat formats', async () => {
+            await service.createWebhook({
+                name: 'Slack',
+                url: stub.url,
+                events: ['pipeline:completed'],
+                format: 'slack',
+            })
+
+            await service.dispatch('pipeline:completed', {
+                status: 'completed',
+                steps: [{project: 'chromium', displayName: 'Chromium', status: 'success'}],
+            })
+
+            const body = JSON.parse(stub.received[0].body)
+            expect(body.text).toBe('Pipeline passed: 1/1 projects passed')
+            expect(body.blocks[0].type).toBe('header')
+        })
+
+        describe('project routing', () => {
+            const steps = [
+                {project: 'chromium', displayName: 'Chromium', status: 'success'},
+                {project: 'firefox', displayName: 'Firefox', status: 'failed'},
+            ]
+
+            const routeTo = async (webhookId: string, project: string) => {
+                await settingsRepository.setProjectTabConfigs([
+                    {
+                        project,
+                        displayName: project,
+                        visible: true,
+                        inPipeline: true,
+                        stopPipelineOnFailure: false,
+                        webhookIds: [webhookId],
+                    },
+                ])
+            }
+
+            it('should only send the steps of routed projects', async () => {
+                const {id} = await service.createWebhook({
+                    name: 'Firefox team',
+                    url: stub.url,
+                    events: ['pipeline:completed'],
+                })
+                await service.createWebhook({
+                    name: 'Everyone',
+                    url: stub.url,
+                    events: ['pipeline:completed'],
+                })
+                await routeTo(id, 'firefox')
+
+                await service.dispatch('pipeline:completed', {status: 'completed', steps})
+
+                const projects = stub.received.map((request) =>
+                    JSON.parse(request.body).data.steps.map((step: any) => step.project)
+                )
+                expect(projects).toContainEqual(['firefox'])
+                expect(projects).toContainEqual(['chromium', 'firefox'])
+            })
+
+            it('should skip events of other projects', async () => {
+                const {id} = await service.createWebhook({
+                    name: 'Webkit team',
+                    url: stub.url,
+                    events: ['pipeline:completed', 'process:ended', 'test:flaky'],
+                })
+                await routeTo(id, 'webkit')
+
+                await service.dispatch('pipeline:completed', {status: 'completed', steps})
+                await service.dispatch('process:ended', {runId: 'run-1', project: 'chromium'})
+                await service.dispatch('test:flaky', {
+                    runId: 'run-1',
+                    tests: [{testId: 'test-a', project: 'chromium'}],
+                })
+
+                expect(stub.received).toHaveLength(0)
+            })
+
+            it('should keep only the tests of routed projects', async () => {
+                const {id} = await service.createWebhook({
+                    name: 'Chromium team',
+                    url: stub.url,
+                    events: ['test:new-failures'],
+                })
+                await routeTo(id, 'chromium')
+
+                await service.dispatch('test:new-failures', {
+                    runId: 'run-1',
+                    tests: [
+                        {testId: 'test-a', project: 'chromium'},
+                        {testId: 'test-b', project: 'firefox'},
+                    ],
+                })
+
+                expect(JSON.parse(stub.received[0].body).data.tests).toEqual([
+                    {testId: 'test-a', project: 'chromium'},
+                ])
+            })
+        })
+
+        it('should retry server errors and log every attempt', async () => {
+            const {id} = await service.createWebhook({
+                name: 'Flaky endpoint',
+                url: stub.url,
+                events: ['process:ended'],
+            })
+            stub.statuses.push(503, 500)
+
+            await service.dispatch('process:ended', {runId: 'run-1'})
+
+            expect(stub.received).toHaveLength(3)
+            const [delivery] = await service.getDeliveries(id)
+            expect(delivery).toMatchObject({
+                event: 'process:ended',
+                status: 'success',
+                attempts: 3,
+                responseStatus: 200,
+            })
+            expect(delivery.error).toBeUndefined()
+            expect(delivery.completedAt).toBeDefined()
+        })
+
+        it('should give up after the last retry', async () => {
+            const {id} = await service.createWebhook({
+                name: 'Down',
+                url: stub.url,
+                events: ['process:ended'],
+            })
+            stub.statuses.push(502, 502, 502)
+
+            await service.dispatch('process:ended', {runId: 'run-1'})
+
+            expect(stub.received).toHaveLength(3)
+            expect((await service.getDeliveries(id))[0]).toMatchObject({
+                status: 'failed',
+                attempts: 3,
+                responseStatus: 502,
+                error: 'HTTP 502',
+            })
+        })
+
+        it('should not retry client errors', async () => {
+            const {id} = await service.createWebhook({
+                name: 'Rejects',
+                url: stub.url,
+                events: ['process:ended'],
+            })
+            stub.statuses.push(401)
+
+            await service.dispatch('process:ended', {runId: 'run-1'})
+
+            expect(stub.received).toHaveLength(1)
+            expect((await service.getDeliveries(id))[0]).toMatchObject({
+                status: 'failed',
+                attempts: 1,
+                responseStatus: 401,
+            })
+        })
+
+        it('should log network errors', async () => {
+            const {id} = await service.createWebhook({
+                name: 'Unreachable',
+                url: stub.url,
+                events: ['process:ended'],
+            })
+            await stub.close()
+            stub = await startStub()
+
+            await service.dispatch('process:ended', {runId: 'run-1'})
+
+            const [delivery] = await service.getDeliveries(id)
+            expect(delivery.status).toBe('failed')
+            expect(delivery.attempts).toBe(3)
+            expect(delivery.error).toBeTruthy()
+        })
+    })
+
+    describe('sendTestEvent()', () => {
+        it('should send a single test event even when the webhook is disabled', async () => {
+            const {id} = await service.createWebhook({
+                name: 'Disabled',
+                url: stub.url,
+                events: ['process:ended'],
+                enabled: false,
+            })
+            stub.statuses.push(500)
+
+            const delivery = await service.sendTestEvent(id)
+
+            expect(stub.received).toHaveLength(1)
+            expect(JSON.parse(stub.received[0].body).event).toBe('webhook:test')
+            expect(delivery).toMatchObject({status: 'failed', attempts: 1, responseStatus: 500})
+        })
+
+        it('should return null for an unknown webhook', async () => {
+            expect(await service.sendTestEvent('missing')).toBeNull()
+            expect(stub.received).toHaveLength(0)
+        })
+    })
+
+    describe('notifyProcessEnded()', () => {
+        beforeEach(async () => {
+            await createRun('run-1', '2025-01-01T10:00:00.000Z')
+            await saveResult('run-1', 'test-a', 'passed')
+            await saveResult('run-1', 'test-b', 'passed')
+
+            await createRun('run-2', '2025-01-01T11:00:00.000Z')
+            await saveResult('run-2', 'test-a', 'failed')
+            await saveResult('run-2', 'test-b', 'failed', {executionId: 'exec-b'})
+            await saveResult('run-2', 'test-b', 'passed', {executionId: 'exec-b', retryCount: 1})
+        })
+
+        it('should send run totals, new failures and tests that passed on a retry', async () => {
+            await service.createWebhook({
+                name: 'All',
+                url: stub.url,
+                events: ['process:ended', 'test:new-failures', 'test:flaky'],
+            })
+
+            await service.notifyProcessEnded({runId: 'run-2', status: 'completed'})
+
+            const bodies = stub.received.map((request) => JSON.parse(request.body))
+            const byEvent = Object.fromEntries(bodies.map((body) => [body.event, body.data]))
+
+            expect(byEvent['process:ended']).toMatchObject({
+                runId: 'run-2',
+                status: 'completed',
+                project: 'chromium',
+                passedTests: 1,
+                failedTests: 1,
+            })
+            expect(byEvent['test:new-failures']).toMatchObject({
+                runId: 'run-2',
+                baseRunId: 'run-1',
+                tests: [{testId: 'test-a', name: 'test-a title', errorMessage: 'expected true'}],
+            })
+            expect(byEvent['test:flaky'].tests).toEqual([
+                expect.objectContaining({testId: 'test-b'}),
+            ])
+        })
+
+        it('should skip events nobody subscribed to', async () => {
+            await service.createWebhook({name: 'Flaky', url: stub.url, events: ['test:flaky']})
+
+            await service.notifyProcessEnded({runId: 'run-2', status: 'completed'})
+
+            expect(stub.received.map((request) => JSON.parse(request.body).event)).toEqual([
+                'test:flaky',
+            ])
+        })
+
+        it('should not send new failures for the first run of a project', async () => {
+            await service.createWebhook({
+                name: 'New failures',
+                url: stub.url,
+                events: ['test:new-failures'],
+            })
+
+            await service.notifyProcessEnded({runId: 'run-1', status: 'completed'})
+
+            expect(stub.received).toHaveLength(0)
+        })
+    })
+})
@@ -333,6 +333,20 @@ describe('WebSocketService', () => {
         })
     })
 
+    describe('broadcastRunLog()', () => {
+        it('should broadcast a chunk of run output', () => {
+            service.broadcastRunLog('run-123', 'Running 5 tests using 2 workers\n')
+
+            expect(mockWsManager.broadcast).toHaveBeenCalledWith({
+                type: 'run:log',
+                data: {
+                    runId: 'run-123',
+                    chunk: 'Running 5 tests using 2 workers\n',
+                },
+            })
+        })
+    })
+
     describe('broadcastDiscoveryCompleted()', () => {
         it('should broadcast discovery completed message with correct data', () => {
             service.broadcastDiscoveryCompleted(50, 48)
@@ -1,8 +1,23 @@
 import {ActiveProcessInfo, ProcessStartData, TestProgress} from '@yshvydak/core'
 import {Logger} from '../utils/logger.util'
 
+// Where tracked processes are kept so they survive a server restart (ActiveProcessRepository)
+export interface ActiveProcessStore {
+    save(process: ActiveProcessInfo): Promise<void>
+    delete(runId: string): Promise<void>
+    clear(): Promise<void>
+}
+
 export class ActiveProcessesTracker {
     private activeProcesses = new Map<string, ActiveProcessInfo>()
+    private idleListeners = new Set<() => void>()
+    private store: ActiveProcessStore | null = null
+    // Chained so the writes reach the store in the order they were made
+    private storeWrites: Promise<void> = Promise.resolve()
+    // Processes of a previous server instance that were gone on startup; re-adopted
+    // when their reporter still sends results (see ProcessRecoveryService)
+    private orphans = new Map<string, ActiveProcessInfo>()
+    private readoptListeners = new Set<(process: ActiveProcessInfo) => void>()
 
     constructor() {
         Logger.info('ActiveProcessesTracker initialized')
@@ -18,7 +33,7 @@ export class ActiveProcessesTracker {
         // the reporter has no way to know it). Merge instead of overwrite so the second
         // call doesn't wipe out details only the first call had, and so in-flight
         // progress isn't reset back to zero.
-        const existing = this.activeProcesses.get(data.runId)
+        const existing = this.activeProcesses.get(data.runId) ?? this.readopt(data.runId)
 
         const processInfo: ActiveProcessInfo = {
             id: data.runId,
@@ -31,6 +46,7 @@ export class ActiveProcessesTracker {
                 totalTests: data.totalTests ?? existing?.details.totalTests,
                 originalTestId: data.originalTestId ?? existing?.details.originalTestId,
                 project: data.project ?? existing?.details.project,
+                pid: data.pid ?? existing?.details.pid,
             },
             // Keep accumulated progress (completed/passed/failed/runningTests) across the
             // dashboard's initial call and the reporter's later one, but still let
@@ -55,10 +71,43 @@ export class ActiveProcessesTracker {
         }
 
         this.activeProcesses.set(data.runId, processInfo)
+        this.persist((store) => store.save(processInfo))
         Logger.info(`Added active process: ${data.runId} (${data.type})`)
         this.logCurrentState()
     }
 
+    /**
+     * Track a process of a previous server instance again, as it was stored
+     */
+    restoreProcess(process: ActiveProcessInfo): void {
+        this.activeProcesses.set(process.id, process)
+        Logger.info(`Restored active process: ${process.id} (${process.type})`)
+        this.logCurrentState()
+    }
+
+    /**
+     * Remember a process of a previous server instance that is gone, in case
+     * its results still arrive (a reporter outliving the server process)
+     */
+    addOrphan(process: ActiveProcessInfo): void {
+        this.orphans.set(process.id, process)
+    }
+
+    /**
+     * Call `listener` each time an orphaned process is tracked again. Returns a
+     * function that unsubscribes it.
+     */
+    onReadopt(listener: (process: ActiveProcessInfo) => void): () => void {
+        this.readoptListeners.add(listener)
+        return () => {
+            this.readoptListeners.delete(listener)
+        }
+    }
+
+    setStore(store: ActiveProcessStore | null): void {
+        this.store = store
+    }
+
     /**
      * Start tracking a test execution
      */
@@ -70,7 +119,7 @@ export class ActiveProcessesTracker {
             filePath: string
         }
     ): TestProgress | null {
-        const process = this.activeProcesses.get(runId)
+        const process = this.activeProcesses.get(runId) ?? this.readopt(runId)
         if (!process || !process.progress) {
             Logger.warn(`Cannot start test for non-existent process: ${runId}`)
             return null
@@ -106,7 +155,7 @@ export class ActiveProcessesTracker {
             status: 'passed' | 'failed' | 'skipped' | 'pending'
         }
     ): TestProgress | null {
-        const process = this.activeProcesses.get(runId)
+        const process = this.activeProcesses.get(runId) ?? this.readopt(runId)
         if (!process || !process.progress) {
             Logger.warn(`Cannot update progress for non-existent process: ${runId}`)
             return null
@@ -156,12 +205,26 @@ export class ActiveProcessesTracker {
      */
     removeProcess(runId: string): void {
         const removed = this.activeProcesses.delete(runId)
+        this.orphans.delete(runId)
         if (removed) {
+            this.persist((store) => store.delete(runId))
             Logger.info(`Removed active process: ${runId}`)
         } else {
             Logger.warn(`Attempted to remove non-existent process: ${runId}`)
         }
         this.logCurrentState()
+        if (removed) this.notifyIfIdle()
+    }
+
+    /**
+     * Call `listener` each time the last active process is removed. Returns a
+     * function that unsubscribes it.
+     */
+    onIdle(listener: () => void): () => void {
+        this.idleListeners.add(listener)
+        return () => {
+            this.idleListeners.delete(listener)
+        }
     }
 
     /**
@@ -252,14 +315,22 @@ export class ActiveProcessesTracker {
             const processStartTime = new Date(process.startedAt)
             if (processStartTime < cutoffTime) {
                 this.activeProcesses.delete(runId)
+                this.persist((store) => store.delete(runId))
                 cleanedCount++
                 Logger.warn(`Cleaned up old process: ${runId} (started at ${process.startedAt})`)
             }
         }
 
+        for (const [runId, process] of this.orphans.entries()) {
+            if (new Date(process.startedAt) < cutoffTime) {
+                this.orphans.delete(runId)
+            }
+        }
+
         if (cleanedCount > 0) {
             Logger.info(`Cleaned up ${cleanedCount} old processes`)
             this.logCurrentState()
+            this.notifyIfIdle()
         }
     }
 
@@ -269,8 +340,49 @@ export class ActiveProcessesTracker {
     forceReset(): void {
         const count = this.activeProcesses.size
         this.activeProcesses.clear()
+        this.orphans.clear()
+        this.persist((store) => store.clear())
         Logger.warn(`🚨 Force reset: cleared ${count} processes`)
         this.logCurrentState()
+        if (count > 0) this.notifyIfIdle()
+    }
+
+    private readopt(runId: string): ActiveProcessInfo | undefined {
+        const orphan = this.orphans.get(runId)
+        if (!orphan) return undefined
+
+        this.orphans.delete(runId)
+        this.activeProcesses.set(runId, orphan)
+        this.persist((store) => store.save(orphan))
+        Logger.info(`Re-adopted process ${runId}: its results are still arriving`)
+
+        for (const listener of this.readoptListeners) {
+            try {
+                listener(orphan)
+            } catch (error) {
+                Logger.error('Re-adopt listener failed', error)
+            }
+        }
+        return orphan
+    }
+
+    private persist(write: (store: ActiveProcessStore) => Promise<void>): void {
+        const store = this.store
+        if (!store) return
+        this.storeWrites = this.storeWrites
+            .then(() => write(store))
+            .catch((error) => Logger.warn('Failed to persist active processes', error))
+    }
+
+    private notifyIfIdle(): void {
+        if (this.activeProcesses.size > 0) return
+        for (const listener of this.idleListeners) {
+            try {
+                listener()
+            } catch (error) {
+                Logger.error('Idle listener failed', error)
+            }
+        }
     }
 
     /**
@@ -0,0 +1,122 @@
+import {
+    DurationLeaderboard,
+    DurationLeaderboardEntry,
+    DurationStats,
+    TestDurationStats,
+} from '@yshvydak/core'
+import {TestRepository} from '../repositories/test.repository'
+import {DurationSample} from '../types/service.types'
+import {MIN_DURATION_DELTA_MS} from './runComparison.service'
+
+export const DEFAULT_DURATION_DAYS = 30
+export const DEFAULT_LEADERBOARD_LIMIT = 10
+
+// A slowdown needs this many passed executions in both windows, one slow run is noise
+const MIN_TREND_SAMPLES = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Nearest-rank percentile of ascending durations
+const percentile = (sorted: number[], p: number) =>
+    sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]
+
+const summarize = (durations: number[]): DurationStats => {
+    if (durations.length === 0) {
+        return {samples: 0, p50: 0, p95: 0, min: 0, max: 0}
+    }
+
+    const sorted = [...durations].sort((a, b) => a - b)
+    return {
+        samples: sorted.length,
+        p50: percentile(sorted, 50),
+        p95: percentile(sorted, 95),
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+    }
+}
+
+/**
+ * Duration percentiles per test and the slowest / most slowed down tests,
+ * computed from passed executions.
+ */
+export class DurationStatsService {
+    constructor(private testRepository: TestRepository) {}
+
+    async getTestDurationStats(
+        testId: string,
+        days: number = DEFAULT_DURATION_DAYS
+    ): Promise<TestDurationStats> {
+        const samples = await this.testRepository.getPassedDurations({days, testId})
+
+        return {
+            testId,
+            days,
+            ...summarize(samples.map((sample) => sample.duration)),
+        }
+    }
+
+    /**
+     * Slowest tests by median over the last `days` days, and the tests whose median
+     * grew the most compared to the `days` days before.
+     */
+    async getDurationLeaderboard(
+        options: {days?: number; project?: string; limit?: number} = {}
+    ): Promise<DurationLeaderboard> {
+        const {days = DEFAULT_DURATION_DAYS, project, limit = DEFAULT_LEADERBOARD_LIMIT} = options
+
+        const samples = await this.testRepository.getPassedDurations({days: days * 2, project})
+        // Results store ISO timestamps, which compare correctly as strings
+        const cutoff = new Date(Date.now() - days * DAY_MS).toISOString()
+
+        const slowest: DurationLeaderboardEntry[] = []
+        const slowdowns: DurationLeaderboardEntry[] = []
+
+        for (const testSamples of this.byTest(samples).values()) {
+            const recent = testSamples.filter((sample) => sample.createdAt >= cutoff)
+            if (recent.length === 0) continue
+
+            const previous = testSamples.filter((sample) => sample.createdAt < cutoff)
+            const latest = recent[recent.length - 1]
+            const entry: DurationLeaderboardEntry = {
+                testId: latest.testId,
+                name: latest.name,
+                filePath: latest.filePath,
+                project: latest.project || undefined,
+                ...summarize(recent.map((sample) => sample.duration)),
+            }
+            slowest.push(entry)
+
+            if (recent.length < MIN_TREND_SAMPLES || previous.length < MIN_TREND_SAMPLES) continue
+
+            const previousP50 = summarize(previous.map((sample) => sample.duration)).p50
+            const delta = entry.p50 - previousP50
+            if (previousP50 > 0 && delta >= MIN_DURATION_DELTA_MS) {
+                slowdowns.push({
+                    ...entry,
+                    previousP50,
+                    change: Math.round((delta / previousP50) * 100),
+                })
+            }
+        }
+
+        slowest.sort((a, b) => b.p50 - a.p50 || b.p95 - a.p95)
+        slowdowns.sort((a, b) => b.change! - a.change!)
+
+        return {
+            days,
+            project,
+            slowest: slowest.slice(0, limit),
+            slowdowns: slowdowns.slice(0, limit),
+        }
+    }
+
+    private byTest(samples: DurationSample[]): Map<string, DurationSample[]> {
+        const map = new Map<string, DurationSample[]>()
+        for (const sample of samples) {
+            const testSamples = map.get(sample.testId) ?? []
+            testSamples.push(sample)
+            map.set(sample.testId, testSamples)
+        }
+        return map
+    }
+}
@@ -0,0 +1,77 @@
+import {FailureGroup, FailureGroupTest} from '@yshvydak/core'
+import {TestRepository} from '../repositories/test.repository'
+import {TestResult} from '../types/service.types'
+import {ErrorSignature} from '../utils/errorSignature.util'
+
+export const DEFAULT_FAILURE_GROUP_DAYS = 7
+
+/**
+ * Groups failed executions by their normalized error signature, so tests failing
+ * for the same reason (a page that is down, a changed selector) show up together.
+ */
+export class FailureGroupService {
+    constructor(private testRepository: TestRepository) {}
+
+    async getRunFailureGroups(runId: string): Promise<FailureGroup[]> {
+        const failures = await this.testRepository.getFailedExecutions({runId})
+        return this.groupFailures(failures)
+    }
+
+    async getFailureGroups(days: number = DEFAULT_FAILURE_GROUP_DAYS): Promise<FailureGroup[]> {
+        const failures = await this.testRepository.getFailedExecutions({days})
+        return this.groupFailures(failures)
+    }
+
+    /**
+     * Expects failures newest first. Groups affecting the most tests come first.
+     */
+    private groupFailures(failures: TestResult[]): FailureGroup[] {
+        const groups = new Map<string, FailureGroup>()
+
+        for (const failure of failures) {
+            const signature = failure.errorSignature!
+            let group = groups.get(signature)
+            if (!group) {
+                group = {
+                    signature,
+                    message:
+                        ErrorSignature.headline(failure.errorMessage, failure.errorStack) ||
+                        signature,
+                    failures: 0,
+                    tests: [],
+                    firstFailedAt: failure.createdAt!,
+                    lastFailedAt: failure.createdAt!,
+                }
+                groups.set(signature, group)
+            }
+
+            group.failures++
+            group.firstFailedAt = failure.createdAt!
+
+            const test = group.tests.find((entry) => entry.testId === failure.testId)
+            if (test) {
+                test.failures++
+            } else {
+                group.tests.push(this.toGroupTest(failure))
+            }
+        }
+
+        return Array.from(groups.values()).sort(
+            (a, b) => b.tests.length - a.tests.length || b.failures - a.failures
+        )
+    }
+
+    private toGroupTest(failure: TestResult): FailureGroupTest {
+        return {
+            testId: failure.testId,
+            name: failure.name,
+            filePath: failure.filePath,
+            project: failure.project || undefined,
+            resultId: failure.id,
+            runId: failure.runId,
+            status: failure.status,
+            failures: 1,
+            lastFailedAt: failure.createdAt!,
+        }
+    }
+}
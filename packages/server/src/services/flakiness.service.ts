@@ -0,0 +1,133 @@
+import {FlakinessTrend, FlakyTest} from '@yshvydak/core'
+import {TestRepository} from '../repositories/test.repository'
+import {ExecutionOutcomeRow} from '../types/service.types'
+
+export const DEFAULT_FLAKY_DAYS = 30
+export const DEFAULT_FLAKY_THRESHOLD = 10
+export const DEFAULT_FLAKY_LIMIT = 50
+
+// A flip whose new result holds for this many executions (itself included) is a change
+// of state, the test broke or got fixed, not flakiness
+const STABLE_STREAK = 3
+
+// Minimum score difference between the older and newer half of the window for a trend
+const TREND_DELTA = 10
+
+export interface FlakyTestsOptions {
+    days?: number
+    threshold?: number
+    project?: string
+    limit?: number
+    offset?: number
+}
+
+const isFailure = (row: ExecutionOutcomeRow) => row.outcome === 'failed'
+
+const percentOf = (count: number, total: number) =>
+    total === 0 ? 0 : Math.round((count * 100) / total)
+
+/**
+ * Scores tests by how often their result changes between consecutive executions,
+ * instead of how often they fail: a test that alternates between passing and failing
+ * is flaky, one that broke and keeps failing is not.
+ */
+export class FlakinessService {
+    constructor(private testRepository: TestRepository) {}
+
+    async getFlakyTests(
+        options: FlakyTestsOptions = {}
+    ): Promise<{tests: FlakyTest[]; total: number}> {
+        const {
+            days = DEFAULT_FLAKY_DAYS,
+            threshold = DEFAULT_FLAKY_THRESHOLD,
+            project,
+            limit = DEFAULT_FLAKY_LIMIT,
+            offset = 0,
+        } = options
+
+        const rows = await this.testRepository.getExecutionOutcomes({days, project})
+
+        const flakyTests = [...this.byTest(rows).values()]
+            .map((outcomes) => this.score(outcomes))
+            .filter(
+                (test) =>
+                    (test.totalRuns > 1 || test.flakyRuns > 0) &&
+                    test.score > 0 &&
+                    test.score >= threshold
+            )
+            .sort((a, b) => b.score - a.score || b.totalRuns - a.totalRuns)
+
+        return {
+            tests: flakyTests.slice(offset, offset + limit),
+            total: flakyTests.length,
+        }
+    }
+
+    // Outcomes are ordered oldest first
+    private score(outcomes: ExecutionOutcomeRow[]): FlakyTest {
+        // Executions that flipped the result (and the new result didn't stick) or
+        // passed only on a retry
+        const unstable = outcomes.map((row, i) => {
+            if (row.outcome === 'flaky') return true
+            if (i === 0 || isFailure(row) === isFailure(outcomes[i - 1])) return false
+            return !this.sticks(outcomes, i)
+        })
+        const flips = unstable.filter(
+            (flag, i) => flag && i > 0 && isFailure(outcomes[i]) !== isFailure(outcomes[i - 1])
+        ).length
+        const unstableCount = unstable.filter(Boolean).length
+        const lastUnstable = unstable.lastIndexOf(true)
+        const latest = outcomes[outcomes.length - 1]
+
+        return {
+            testId: latest.testId,
+            name: latest.name,
+            filePath: latest.filePath,
+            project: latest.project || undefined,
+            totalRuns: outcomes.length,
+            passedRuns: outcomes.filter((row) => row.outcome === 'passed').length,
+            failedRuns: outcomes.filter(isFailure).length,
+            flakyRuns: outcomes.filter((row) => row.outcome === 'flaky').length,
+            flips,
+            score: percentOf(unstableCount, outcomes.length),
+            trend: this.trend(unstable),
+            lastFlipAt: lastUnstable >= 0 ? outcomes[lastUnstable].createdAt : undefined,
+            history: outcomes.map((row) => row.outcome),
+            lastRun: latest.createdAt,
+        }
+    }
+
+    // Whether the result at `index` held for at least STABLE_STREAK executions
+    private sticks(outcomes: ExecutionOutcomeRow[], index: number): boolean {
+        const streak = outcomes.slice(index, index + STABLE_STREAK)
+        return (
+            streak.length === STABLE_STREAK &&
+            streak.every((row) => isFailure(row) === isFailure(outcomes[index]))
+        )
+    }
+
+    private trend(unstable: boolean[]): FlakinessTrend {
+        if (unstable.length < 4) return 'stable'
+
+        const middle = Math.floor(unstable.length / 2)
+        const older = unstable.slice(0, middle)
+        const newer = unstable.slice(middle)
+        const delta =
+            percentOf(newer.filter(Boolean).length, newer.length) -
+            percentOf(older.filter(Boolean).length, older.length)
+
+        if (delta >= TREND_DELTA) return 'rising'
+        if (delta <= -TREND_DELTA) return 'falling'
+        return 'stable'
+    }
+
+    private byTest(rows: ExecutionOutcomeRow[]): Map<string, ExecutionOutcomeRow[]> {
+        const map = new Map<string, ExecutionOutcomeRow[]>()
+        for (const row of rows) {
+            const outcomes = map.get(row.testId) ?? []
+            outcomes.push(row)
+            map.set(row.testId, outcomes)
+        }
+        return map
+    }
+}
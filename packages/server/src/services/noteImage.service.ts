@@ -130,7 +130,7 @@ export class NoteImageService implements INoteImageService {
             }
 
             // Delete physical file
-            await this.noteImageManager.deleteImage(image.testId, image.fileName)
+            await this.noteImageManager.deleteImageFile(image.filePath)
 
             // Delete database record
             await this.noteImageRepository.deleteImage(imageId)
@@ -148,7 +148,11 @@ export class NoteImageService implements INoteImageService {
      */
     async deleteImagesByTestId(testId: string): Promise<void> {
         try {
-            // Delete physical files
+            // Delete physical files (stored paths first - re-keyed tests keep their old directory)
+            const images = await this.noteImageRepository.getImagesByTestId(testId)
+            for (const image of images) {
+                await this.noteImageManager.deleteImageFile(image.filePath)
+            }
             await this.noteImageManager.deleteImagesByTestId(testId)
 
             // Delete database records
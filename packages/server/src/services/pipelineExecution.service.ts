@@ -1,28 +1,57 @@
 import {v4 as uuidv4} from 'uuid'
 import {TestService} from './test.service'
 import {SettingsService} from './settings.service'
+import {QuarantineService} from './quarantine.service'
+import {WebhookService} from './webhook.service'
 import {RunRepository} from '../repositories/run.repository'
+import {PipelineRunRepository} from '../repositories/pipelineRun.repository'
 import {WebSocketService, PipelineStepSummary} from './websocket.service'
 import {activeProcessesTracker} from './activeProcesses.service'
+import {getPipelinePrerequisites, getPipelineStage} from '../utils/pipelineGraph.util'
 import {Logger} from '../utils/logger.util'
 
-export type PipelineStatus = 'running' | 'completed' | 'stopped_early'
+// interrupted: the server restarted while the pipeline was running
+export type PipelineStatus = 'running' | 'completed' | 'stopped_early' | 'cancelled' | 'interrupted'
 
 export interface PipelineState {
     pipelineRunId: string
     status: PipelineStatus
     steps: PipelineStepSummary[]
+    source?: string
+    // Pipeline whose failed or remaining steps this one re-ran
+    rerunOf?: string
     startedAt: string
+    finishedAt?: string
 }
 
+// failed: the failed steps; resume: the step the pipeline stopped at and the ones after it
+export type PipelineRerunMode = 'failed' | 'resume'
+
+export const PIPELINE_RERUN_MODES: PipelineRerunMode[] = ['failed', 'resume']
+
+// Prefix of re-run errors, mapped to 400 by the controller
+export const INVALID_PIPELINE_RERUN = 'Invalid pipeline re-run'
+
+export const DEFAULT_PIPELINE_HISTORY_LIMIT = 20
+export const MAX_PIPELINE_HISTORY_LIMIT = 100
+
 export class PipelineExecutionService {
     private currentPipeline: PipelineState | null = null
+    private finishListeners = new Set<(pipeline: PipelineState) => void>()
+    // Pipelines whose running step was cancelled; the other running steps are cancelled
+    // too and the remaining ones are not started
+    private cancelledPipelineIds = new Set<string>()
+    // Chained so the saved state is always the latest one
+    private pipelineWrites: Promise<void> = Promise.resolve()
 
     constructor(
         private testService: TestService,
         private settingsService: SettingsService,
         private runRepository: RunRepository,
-        private websocketService: WebSocketService
+        private websocketService: WebSocketService,
+        private quarantineService: QuarantineService,
+        private webhookService: WebhookService,
+        private pipelineRunRepository: PipelineRunRepository
     ) {}
 
     getPipeline(pipelineRunId: string): PipelineState | null {
@@ -32,19 +61,160 @@ export class PipelineExecutionService {
         return null
     }
 
+    /**
+     * The running pipeline or, for any other ID, the stored state of an earlier one.
+     */
+    async findPipeline(pipelineRunId: string): Promise<PipelineState | null> {
+        return (
+            this.getPipeline(pipelineRunId) ??
+            (await this.pipelineRunRepository.getPipelineRun(pipelineRunId))
+        )
+    }
+
     getCurrentPipeline(): PipelineState | null {
         return this.currentPipeline
     }
 
+    /**
+     * Pipelines newest first, with the running one as it is in memory.
+     */
+    async getPipelineHistory(
+        limit: number = DEFAULT_PIPELINE_HISTORY_LIMIT
+    ): Promise<PipelineState[]> {
+        const pipelines = await this.pipelineRunRepository.getPipelineRuns(limit)
+        return pipelines.map((pipeline) => this.getPipeline(pipeline.pipelineRunId) ?? pipeline)
+    }
+
+    isPipelineRunning(): boolean {
+        return this.currentPipeline?.status === 'running'
+    }
+
+    /**
+     * Call `listener` each time a pipeline finishes. Returns a function that
+     * unsubscribes it.
+     */
+    onFinished(listener: (pipeline: PipelineState) => void): () => void {
+        this.finishListeners.add(listener)
+        return () => {
+            this.finishListeners.delete(listener)
+        }
+    }
+
+    /**
+     * Cancels a running test process (see TestService.cancelRun). When it is
+     * a running step of the pipeline, the pipeline stops there: the steps
+     * running beside it are cancelled as well and the remaining steps are not
+     * started.
+     */
+    async cancelRun(runId: string): Promise<boolean> {
+        const pipeline = this.isPipelineRunning() ? this.currentPipeline : null
+        const isStep = pipeline?.steps.some((s) => s.runId === runId && s.status === 'running')
+        if (!pipeline || !isStep) {
+            return this.testService.cancelRun(runId)
+        }
+
+        this.cancelledPipelineIds.add(pipeline.pipelineRunId)
+        const cancelled = await this.testService.cancelRun(runId)
+        if (!cancelled) {
+            this.cancelledPipelineIds.delete(pipeline.pipelineRunId)
+            return false
+        }
+
+        // Steps still starting cancel their run once it has started (see runStep)
+        for (const step of pipeline.steps) {
+            if (step.status === 'running' && step.runId && step.runId !== runId) {
+                await this.testService.cancelRun(step.runId)
+            }
+        }
+        return true
+    }
+
     /**
      * Kicks off the pipeline and returns its initial state immediately — the
-     * steps themselves run sequentially in the background (same fire-and-forget
-     * shape as the existing single-project run-all endpoint).
+     * steps themselves run stage by stage in the background (same
+     * fire-and-forget shape as the existing single-project run-all endpoint).
      */
     async startPipeline(maxWorkers?: number, source?: string): Promise<PipelineState> {
-        // Same guard checks TestService.runAllTests performs, done once here so
-        // the caller gets a synchronous 409/423 instead of it surfacing mid-chain.
-        if (source === 'script') {
+        await this.checkCanStart(source)
+
+        const configuredSteps = await this.settingsService.getPipelineSteps()
+        if (configuredSteps.length === 0) {
+            throw new Error(
+                JSON.stringify({
+                    code: 'PIPELINE_EMPTY',
+                    message: 'No project tabs are configured to run in the CI pipeline',
+                })
+            )
+        }
+
+        const steps: PipelineStepSummary[] = configuredSteps.map((s, index) => ({
+            project: s.project,
+            displayName: s.displayName,
+            stopOnFailure: s.stopPipelineOnFailure,
+            status: 'queued',
+            stage: getPipelineStage(s.pipelineStage, index),
+            dependsOn: s.dependsOn,
+            runCondition: s.runCondition,
+            workers: s.workers,
+        }))
+
+        return this.launch(steps, maxWorkers, source)
+    }
+
+    /**
+     * Starts a new pipeline with the steps of a finished one that have to run
+     * again. The steps keep the project, workers, stage, dependencies and
+     * conditions they ran with, and run the same way as in startPipeline;
+     * dependencies on steps that are not re-run are ignored. Returns null when
+     * there is no pipeline with that ID.
+     */
+    async rerunPipeline(
+        pipelineRunId: string,
+        mode: PipelineRerunMode,
+        maxWorkers?: number
+    ): Promise<PipelineState | null> {
+        if (!PIPELINE_RERUN_MODES.includes(mode)) {
+            throw new Error(
+                `${INVALID_PIPELINE_RERUN}: mode must be one of ${PIPELINE_RERUN_MODES.join(', ')}`
+            )
+        }
+
+        const previous = await this.findPipeline(pipelineRunId)
+        if (!previous) return null
+
+        if (previous.status === 'running') {
+            throw new Error(`${INVALID_PIPELINE_RERUN}: the pipeline is still running`)
+        }
+
+        const rerunSteps = this.selectRerunSteps(previous, mode)
+        if (rerunSteps.length === 0) {
+            throw new Error(
+                mode === 'failed'
+                    ? `${INVALID_PIPELINE_RERUN}: no step failed`
+                    : `${INVALID_PIPELINE_RERUN}: the pipeline did not stop early`
+            )
+        }
+
+        await this.checkCanStart()
+
+        const steps: PipelineStepSummary[] = rerunSteps.map((s) => ({
+            project: s.project,
+            displayName: s.displayName,
+            stopOnFailure: s.stopOnFailure,
+            status: 'queued',
+            stage: getPipelineStage(s.stage, previous.steps.indexOf(s)),
+            dependsOn: s.dependsOn,
+            runCondition: s.runCondition,
+            workers: s.workers,
+        }))
+
+        return this.launch(steps, maxWorkers, undefined, pipelineRunId)
+    }
+
+    // Same guard checks TestService.runAllTests performs, done once here so
+    // the caller gets a synchronous 409/423 instead of it surfacing mid-chain.
+    private async checkCanStart(source?: string): Promise<void> {
+        if (source === 'script' || source === 'schedule') {
             const pause = await this.settingsService.getCIAutoRunPause()
             if (pause.paused) {
                 if (pause.resumeAt && new Date(pause.resumeAt) <= new Date()) {
@@ -61,7 +231,9 @@ export class PipelineExecutionService {
             }
         }
 
-        if (activeProcessesTracker.isAnyProcessRunning()) {
+        // Between two stages no process is active, but the pipeline still is: a new
+        // one would replace it as the current pipeline and leave it unfinished
+        if (activeProcessesTracker.isAnyProcessRunning() || this.isPipelineRunning()) {
             const activeRuns = activeProcessesTracker.getActiveProcesses()
             const currentRun = activeRuns[0]
             throw new Error(
@@ -69,36 +241,54 @@ export class PipelineExecutionService {
                     code: 'TESTS_ALREADY_RUNNING',
                     message: 'Tests are already running',
                     currentRunId: currentRun?.id,
-                    startedAt: currentRun?.startedAt,
+                    startedAt: currentRun?.startedAt ?? this.currentPipeline?.startedAt,
+                    pipelineRunId: this.isPipelineRunning()
+                        ? this.currentPipeline?.pipelineRunId
+                        : undefined,
                 })
             )
         }
+    }
 
-        const configuredSteps = await this.settingsService.getPipelineSteps()
-        if (configuredSteps.length === 0) {
-            throw new Error(
-                JSON.stringify({
-                    code: 'PIPELINE_EMPTY',
-                    message: 'No project tabs are configured to run in the CI pipeline',
-                })
-            )
+    private selectRerunSteps(
+        pipeline: PipelineState,
+        mode: PipelineRerunMode
+    ): PipelineStepSummary[] {
+        if (mode === 'failed') {
+            return pipeline.steps.filter((s) => s.status === 'failed')
         }
 
+        // Steps a completed pipeline skipped did so by their run condition
+        if (pipeline.status === 'completed') return []
+
+        // The steps that didn't run and, when a failure stopped the pipeline, the
+        // steps that stopped it: blocking failures and steps that failed to start
+        return pipeline.steps.filter(
+            (s) =>
+                ['queued', 'skipped', 'cancelled'].includes(s.status) ||
+                (pipeline.status === 'stopped_early' &&
+                    s.status === 'failed' &&
+                    (s.stopOnFailure || !s.runId))
+        )
+    }
+
+    private launch(
+        steps: PipelineStepSummary[],
+        maxWorkers?: number,
+        source?: string,
+        rerunOf?: string
+    ): PipelineState {
         const pipelineRunId = uuidv4()
-        const steps: PipelineStepSummary[] = configuredSteps.map((s) => ({
-            project: s.project,
-            displayName: s.displayName,
-            stopOnFailure: s.stopPipelineOnFailure,
-            status: 'queued',
-            workers: s.workers,
-        }))
 
         this.currentPipeline = {
             pipelineRunId,
             status: 'running',
             steps,
+            source,
+            rerunOf,
             startedAt: new Date().toISOString(),
         }
+        this.persist(this.currentPipeline)
 
         this.websocketService.broadcastPipelineStarted(pipelineRunId, steps)
 
@@ -113,6 +303,12 @@ export class PipelineExecutionService {
         return this.currentPipeline
     }
 
+    /**
+     * Starts each step once the steps it waits for have finished (see
+     * getPipelinePrerequisites), so the steps of a stage run side by side.
+     * After a blocking failure only steps set to always run still start;
+     * after a cancel none do.
+     */
     private async runSteps(
         pipelineRunId: string,
         maxWorkers?: number,
@@ -121,53 +317,166 @@ export class PipelineExecutionService {
         const pipeline = this.getPipeline(pipelineRunId)
         if (!pipeline) return
 
-        for (const step of pipeline.steps) {
-            step.status = 'running'
+        const prerequisites = getPipelinePrerequisites(pipeline.steps)
+        const stepsByProject = new Map(pipeline.steps.map((step) => [step.project, step]))
+        const running = new Set<Promise<void>>()
+        let stopped = false
 
-            let result: any
-            try {
-                result = await this.testService.runAllTests(
-                    step.workers ?? maxWorkers,
-                    false,
-                    step.project,
-                    source
+        for (;;) {
+            const cancelled = this.cancelledPipelineIds.has(pipelineRunId)
+            let changed = false
+
+            for (const step of pipeline.steps) {
+                if (step.status !== 'queued') continue
+
+                const waitsFor = (prerequisites.get(step.project) ?? []).map(
+                    (project) => stepsByProject.get(project)!
                 )
-            } catch (error) {
-                Logger.error(`Pipeline step failed to start: ${step.project}`, error)
-                step.status = 'failed'
-                this.websocketService.broadcastPipelineStepCompleted(pipelineRunId, step)
-                this.stopRemaining(pipeline, step)
-                this.finish(pipeline, 'stopped_early')
-                return
+                const ready = waitsFor.every((s) => s.status !== 'queued' && s.status !== 'running')
+                const notRunReason = cancelled
+                    ? 'cancelled'
+                    : stopped && step.runCondition !== 'always'
+                      ? 'skipped'
+                      : ready &&
+                          step.runCondition === 'previous_passed' &&
+                          waitsFor.some((s) => s.status !== 'success')
+                        ? 'skipped'
+                        : null
+
+                if (notRunReason) {
+                    step.status = notRunReason
+                    this.websocketService.broadcastPipelineStepCompleted(pipelineRunId, step)
+                    changed = true
+                } else if (ready) {
+                    const run: Promise<void> = this.runStep(
+                        pipeline,
+                        step,
+                        maxWorkers,
+                        source
+                    ).then((stopsPipeline) => {
+                        if (stopsPipeline) stopped = true
+                        running.delete(run)
+                    })
+                    running.add(run)
+                }
             }
 
-            step.runId = result.runId
-            this.websocketService.broadcastPipelineStepStarted(
-                pipelineRunId,
+            if (changed) {
+                this.persist(pipeline)
+                continue
+            }
+            if (running.size === 0) break
+            await Promise.race(running)
+        }
+
+        // Only left queued when the steps of a re-run wait for each other
+        for (const step of pipeline.steps) {
+            if (step.status === 'queued') step.status = 'skipped'
+        }
+
+        this.finish(
+            pipeline,
+            this.cancelledPipelineIds.has(pipelineRunId)
+                ? 'cancelled'
+                : stopped
+                  ? 'stopped_early'
+                  : 'completed'
+        )
+    }
+
+    /**
+     * Runs one step to the end. Returns whether it stops the pipeline: a
+     * blocking step with failures, or a step whose run could not start or
+     * could not be evaluated.
+     */
+    private async runStep(
+        pipeline: PipelineState,
+        step: PipelineStepSummary,
+        maxWorkers?: number,
+        source?: string
+    ): Promise<boolean> {
+        const {pipelineRunId} = pipeline
+        step.status = 'running'
+        step.startedAt = new Date().toISOString()
+
+        let result: any
+        try {
+            result = await this.testService.runAllTests(
+                step.workers ?? maxWorkers,
+                false,
                 step.project,
-                result.runId
+                source,
+                pipelineRunId
             )
+        } catch (error) {
+            Logger.error(`Pipeline step failed to start: ${step.project}`, error)
+            step.status = 'failed'
+            step.finishedAt = new Date().toISOString()
+            this.websocketService.broadcastPipelineStepCompleted(pipelineRunId, step)
+            return true
+        }
+
+        step.runId = result.runId
+        this.persist(pipeline)
+        this.websocketService.broadcastPipelineStepStarted(
+            pipelineRunId,
+            step.project,
+            result.runId
+        )
+
+        // Once the process runs, an error must still finish the step: the other
+        // steps of the stage keep running and the pipeline waits for them
+        try {
+            // The pipeline was cancelled while this step was starting
+            if (this.cancelledPipelineIds.has(pipelineRunId)) {
+                await this.testService.cancelRun(result.runId)
+            }
 
             await this.waitForProcessClose(result.process)
+            step.finishedAt = new Date().toISOString()
+
+            if (this.cancelledPipelineIds.has(pipelineRunId)) {
+                step.status = 'cancelled'
+                this.websocketService.broadcastPipelineStepCompleted(pipelineRunId, step)
+                return false
+            }
 
             const run = await this.runRepository.getTestRun(result.runId)
             const passed = run?.passedTests ?? 0
-            const failed = run?.failedTests ?? 0
+            // Failures of quarantined tests are reported but don't fail the step
+            const quarantined = await this.quarantineService.getQuarantinedFailureCount(
+                result.runId
+            )
+            const failed = Math.max(0, (run?.failedTests ?? 0) - quarantined)
 
             step.passed = passed
             step.failed = failed
+            step.quarantined = quarantined
             step.status = failed > 0 ? 'failed' : 'success'
+            this.persist(pipeline)
 
             this.websocketService.broadcastPipelineStepCompleted(pipelineRunId, step)
 
-            if (failed > 0 && step.stopOnFailure) {
-                this.stopRemaining(pipeline, step)
-                this.finish(pipeline, 'stopped_early')
-                return
-            }
+            return failed > 0 && step.stopOnFailure
+        } catch (error) {
+            Logger.error(`Pipeline step failed: ${step.project}`, error)
+            step.status = 'failed'
+            step.finishedAt = new Date().toISOString()
+            this.persist(pipeline)
+            this.websocketService.broadcastPipelineStepCompleted(pipelineRunId, step)
+            return true
         }
+    }
 
-        this.finish(pipeline, 'completed')
+    // Saves a snapshot, so later changes to the steps don't leak into a pending write
+    private persist(pipeline: PipelineState): void {
+        const snapshot: PipelineState = {
+            ...pipeline,
+            steps: pipeline.steps.map((step) => ({...step})),
+        }
+        this.pipelineWrites = this.pipelineWrites
+            .then(() => this.pipelineRunRepository.savePipelineRun(snapshot))
+            .catch((error) => Logger.warn('Failed to save pipeline state', error))
     }
 
     private waitForProcessClose(
@@ -182,19 +491,31 @@ export class PipelineExecutionService {
         })
     }
 
-    private stopRemaining(pipeline: PipelineState, failedStep: PipelineStepSummary): void {
-        const failedIndex = pipeline.steps.indexOf(failedStep)
-        for (let i = failedIndex + 1; i < pipeline.steps.length; i++) {
-            pipeline.steps[i].status = 'skipped'
-        }
-    }
-
-    private finish(pipeline: PipelineState, status: 'completed' | 'stopped_early'): void {
+    private finish(
+        pipeline: PipelineState,
+        status: 'completed' | 'stopped_early' | 'cancelled'
+    ): void {
+        this.cancelledPipelineIds.delete(pipeline.pipelineRunId)
         pipeline.status = status
+        pipeline.finishedAt = new Date().toISOString()
+        this.persist(pipeline)
         this.websocketService.broadcastPipelineCompleted(
             pipeline.pipelineRunId,
             status,
             pipeline.steps
         )
+        void this.webhookService.dispatch('pipeline:completed', {
+            pipelineRunId: pipeline.pipelineRunId,
+            status,
+            startedAt: pipeline.startedAt,
+            steps: pipeline.steps,
+        })
+        for (const listener of this.finishListeners) {
+            try {
+                listener(pipeline)
+            } catch (error) {
+                Logger.error('Pipeline finish listener failed', error)
+            }
+        }
     }
 }
@@ -1,20 +1,29 @@
 import {spawn, ChildProcess} from 'child_process'
+import {closeSync} from 'fs'
 import path from 'path'
 import {v4 as uuidv4} from 'uuid'
-import {normalizeTestPath} from '@yshvydak/core'
+import {generateStableTestId} from '@yshvydak/core'
 import {IPlaywrightService, TestRunProcess, DiscoveredTest} from '../types/service.types'
 import {
     PlaywrightListOutput,
     PlaywrightSpec,
     PlaywrightSuite,
     PlaywrightSpawnOptions,
+    PlaywrightTestFilter,
+    PlaywrightTestSelection,
     ValidationResult,
 } from '../types/playwright.types'
 import {config} from '../config/environment.config'
 import {PLAYWRIGHT_CONSTANTS} from '../config/constants'
 import {Logger} from '../utils/logger.util'
+import {RunLogService} from './runLog.service'
 
 export class PlaywrightService implements IPlaywrightService {
+    // Spawned test processes by runId, until they close
+    private processes = new Map<string, ChildProcess>()
+
+    constructor(private runLogService: RunLogService) {}
+
     // ============================================================================
     // TEST DISCOVERY & EXECUTION
     // ============================================================================
@@ -37,18 +46,29 @@ export class PlaywrightService implements IPlaywrightService {
 
         // Suites nest arbitrarily deep (file > describe > nested describe > ...),
         // so specs must be collected recursively rather than at fixed levels.
-        // Project comes from spec.tests[0].projectName (Playwright JSON reporter field).
-        this.collectSpecs(playwrightData.suites || [], discoveredTests)
+        // Top-level suites are files; the titles of the suites below them form the
+        // describe path that is part of the stable test ID.
+        for (const fileSuite of playwrightData.suites || []) {
+            for (const spec of fileSuite.specs || []) {
+                discoveredTests.push(...this.createDiscoveredTests(spec, []))
+            }
+            this.collectSpecs(fileSuite.suites, [], discoveredTests)
+        }
 
         return discoveredTests
     }
 
-    private collectSpecs(suites: PlaywrightSuite[] | undefined, out: DiscoveredTest[]): void {
+    private collectSpecs(
+        suites: PlaywrightSuite[] | undefined,
+        describePath: string[],
+        out: DiscoveredTest[]
+    ): void {
         for (const suite of suites || []) {
+            const suitePath = suite.title ? [...describePath, suite.title] : describePath
             for (const spec of suite.specs || []) {
-                out.push(this.createDiscoveredTest(spec))
+                out.push(...this.createDiscoveredTests(spec, suitePath))
             }
-            this.collectSpecs(suite.suites, out)
+            this.collectSpecs(suite.suites, suitePath, out)
         }
     }
 
@@ -63,7 +83,12 @@ export class PlaywrightService implements IPlaywrightService {
         }
     }
 
-    async runAllTests(maxWorkers?: number, project?: string): Promise<TestRunProcess> {
+    async runAllTests(
+        maxWorkers?: number,
+        project?: string,
+        excludedTestNames: string[] = [],
+        outputDir?: string
+    ): Promise<TestRunProcess> {
         const runId = uuidv4()
         Logger.testRun('run-all', runId)
 
@@ -74,6 +99,14 @@ export class PlaywrightService implements IPlaywrightService {
         if (maxWorkers) {
             args.push(`--workers=${maxWorkers}`)
         }
+        // Quarantined tests left out of the run
+        if (excludedTestNames.length > 0) {
+            args.push('--grep-invert', this.buildGrepPattern(excludedTestNames))
+            Logger.info(`Skipping ${excludedTestNames.length} quarantined tests`)
+        }
+        if (outputDir) {
+            args.push(`--output=${outputDir}`)
+        }
         args.push(`--reporter=${config.playwright.reporterPath}`)
 
         const process = this.spawnPlaywrightProcess(args, {
@@ -143,6 +176,89 @@ export class PlaywrightService implements IPlaywrightService {
         }
     }
 
+    /**
+     * Runs failed tests of several files and projects in one Playwright process:
+     * the files as filters plus one grep matching each test by its project, file,
+     * describe path and title. Without a project, every project of the tests runs.
+     */
+    async runFailedTests(
+        tests: PlaywrightTestFilter[],
+        maxWorkers?: number,
+        project?: string
+    ): Promise<TestRunProcess> {
+        const runId = uuidv4()
+        Logger.testRun('rerun-failed', runId)
+
+        const args = ['playwright', 'test', ...this.buildSelectionArgs({tests})]
+        if (maxWorkers) {
+            args.push(`--workers=${maxWorkers}`)
+        }
+        args.push(...this.buildProjectArgs(project, tests))
+        args.push(`--reporter=${config.playwright.reporterPath}`)
+
+        Logger.info(
+            `Rerunning failed tests of ${new Set(tests.map((t) => t.filePath)).size} files`,
+            {
+                testCount: tests.length,
+            }
+        )
+
+        const process = this.spawnPlaywrightProcess(args, {
+            runId,
+            type: 'rerun-failed',
+            env: {
+                RUN_ID: runId,
+                PLAYWRIGHT_PROJECT: project || '',
+            },
+        })
+
+        return {
+            runId,
+            message: `Rerun of ${tests.length} failed tests started`,
+            timestamp: new Date().toISOString(),
+            process,
+        }
+    }
+
+    /**
+     * Runs a selection of tests in one Playwright process: tests picked across
+     * files, the tests carrying some tags or the tests matching a grep, any of
+     * them narrowed with a grep-invert.
+     */
+    async runTestSelection(
+        selection: PlaywrightTestSelection,
+        maxWorkers?: number,
+        project?: string
+    ): Promise<TestRunProcess> {
+        const runId = uuidv4()
+        Logger.testRun('run-selection', runId)
+
+        const args = ['playwright', 'test', ...this.buildSelectionArgs(selection)]
+        if (maxWorkers) {
+            args.push(`--workers=${maxWorkers}`)
+        }
+        args.push(...this.buildProjectArgs(project, selection.tests))
+        args.push(`--reporter=${config.playwright.reporterPath}`)
+
+        const process = this.spawnPlaywrightProcess(args, {
+            runId,
+            type: 'run-selection',
+            env: {
+                RUN_ID: runId,
+                PLAYWRIGHT_PROJECT: project || '',
+            },
+        })
+
+        return {
+            runId,
+            message: project
+                ? `Selected tests started in project: ${project}`
+                : 'Selected tests started',
+            timestamp: new Date().toISOString(),
+            process,
+        }
+    }
+
     async rerunSingleTest(
         testFile: string,
         testName: string,
@@ -181,6 +297,77 @@ export class PlaywrightService implements IPlaywrightService {
         }
     }
 
+    // ============================================================================
+    // PROCESS CONTROL
+    // ============================================================================
+
+    hasProcess(runId: string): boolean {
+        return this.processes.has(runId)
+    }
+
+    /**
+     * Stops the process tree of a run: SIGTERM first so Playwright can shut its
+     * workers down and the reporter can flush, SIGKILL if it is still running
+     * after the grace period. Resolves once the process has closed, or false
+     * when no process of ours has that runId.
+     */
+    async terminateProcess(
+        runId: string,
+        gracePeriodMs: number = PLAYWRIGHT_CONSTANTS.CANCEL_GRACE_PERIOD_MS
+    ): Promise<boolean> {
+        const child = this.processes.get(runId)
+        if (!child) return false
+
+        Logger.info(`Terminating Playwright process of run ${runId}`, {pid: child.pid})
+        const closed = new Promise<void>((resolve) => child.once('close', () => resolve()))
+
+        this.signalProcessTree(child, 'SIGTERM')
+        if (await this.closesWithin(closed, gracePeriodMs)) return true
+
+        Logger.warn(`Run ${runId} did not stop within ${gracePeriodMs}ms, killing it`)
+        this.signalProcessTree(child, 'SIGKILL')
+        if (!(await this.closesWithin(closed, gracePeriodMs))) {
+            // Nothing more we can do; don't keep reporting it as running
+            this.processes.delete(runId)
+        }
+        return true
+    }
+
+    /**
+     * Asks every running test process to stop, without waiting (server shutdown).
+     */
+    terminateAll(): void {
+        for (const child of this.processes.values()) {
+            this.signalProcessTree(child, 'SIGTERM')
+        }
+    }
+
+    private closesWithin(closed: Promise<void>, ms: number): Promise<boolean> {
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => resolve(false), ms)
+            closed.then(() => {
+                clearTimeout(timer)
+                resolve(true)
+            })
+        })
+    }
+
+    // npx, Playwright and its workers: the whole process group on POSIX (see spawn)
+    private signalProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+        try {
+            if (child.pid && process.platform === 'win32') {
+                spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'])
+            } else if (child.pid) {
+                process.kill(-child.pid, signal)
+            } else {
+                child.kill(signal)
+            }
+        } catch (error) {
+            // ESRCH: already gone
+            Logger.debug(`Failed to send ${signal} to process ${child.pid}`, error)
+        }
+    }
+
     // ============================================================================
     // VALIDATION & DIAGNOSTICS
     // ============================================================================
@@ -305,15 +492,35 @@ export class PlaywrightService implements IPlaywrightService {
     // PRIVATE HELPER METHODS
     // ============================================================================
 
+    /**
+     * Creates one DiscoveredTest per project a Playwright spec runs in
+     * (spec.tests holds an entry per project), since the project is part of the test ID
+     */
+    private createDiscoveredTests(spec: PlaywrightSpec, describePath: string[]): DiscoveredTest[] {
+        const projects = spec.tests?.length
+            ? spec.tests.map((test) => test.projectName || '')
+            : ['']
+
+        return [...new Set(projects)].map((project) =>
+            this.createDiscoveredTest(spec, describePath, project)
+        )
+    }
+
     /**
      * Creates a DiscoveredTest object from a Playwright spec
      */
-    private createDiscoveredTest(spec: PlaywrightSpec): DiscoveredTest {
+    private createDiscoveredTest(
+        spec: PlaywrightSpec,
+        describePath: string[],
+        project: string
+    ): DiscoveredTest {
         // Use file path directly from Playwright - it handles path resolution based on testDir
         const filePath = spec.file
-        const stableTestId = this.generateStableTestId(filePath, spec.title)
-        // Project comes from the first test entry's projectName (Playwright JSON reporter)
-        const project = spec.tests?.[0]?.projectName || ''
+        const stableTestId = generateStableTestId({
+            filePath,
+            titlePath: [...describePath, spec.title],
+            project,
+        })
 
         return {
             id: uuidv4(),
@@ -327,6 +534,7 @@ export class PlaywrightService implements IPlaywrightService {
             metadata: JSON.stringify({
                 line: spec.line || 0,
                 playwrightId: spec.id || null,
+                titlePath: [...describePath, spec.title],
                 discoveredAt: new Date().toISOString(),
             }),
             timestamp: new Date().toISOString(),
@@ -353,11 +561,35 @@ export class PlaywrightService implements IPlaywrightService {
             NODE_ENV: env.NODE_ENV,
         })
 
-        return spawn('npx', args, {
-            cwd: config.playwright.projectDir,
-            stdio: options.type === 'rerun' ? ['ignore', 'pipe', 'pipe'] : 'inherit',
-            env,
+        // Output goes straight to the run log rather than through a pipe, which would
+        // break once the server exits and stop the process from outliving a restart.
+        // Still shown in the server output, as it was when the process inherited
+        // stdio (a rerun's stdout is its JSON report and never was).
+        const logFd = this.runLogService.open(options.runId, {echo: options.type !== 'rerun'})
+        const output = logFd ?? 'ignore'
+
+        let child: ChildProcess
+        try {
+            child = spawn('npx', args, {
+                cwd: config.playwright.projectDir,
+                stdio: ['ignore', output, output],
+                env,
+                // Own process group, so a cancel reaches the Playwright workers too
+                detached: process.platform !== 'win32',
+            })
+        } finally {
+            // The child has its own copy
+            if (logFd !== null) closeSync(logFd)
+        }
+
+        this.processes.set(options.runId, child)
+        child.once('close', () => {
+            if (this.processes.get(options.runId) === child) {
+                this.processes.delete(options.runId)
+            }
         })
+
+        return child
     }
 
     /**
@@ -410,23 +642,6 @@ export class PlaywrightService implements IPlaywrightService {
         })
     }
 
-    /**
-     * Generates a stable test ID using a hash of file path and title
-     * This ensures the same test always gets the same ID across discovery and execution
-     */
-    private generateStableTestId(filePath: string, title: string): string {
-        // Normalize path to ensure consistent testId generation
-        const normalizedPath = normalizeTestPath(filePath)
-        const content = `${normalizedPath}:${title}`
-        let hash = 0
-        for (let i = 0; i < content.length; i++) {
-            const char = content.charCodeAt(i)
-            hash = (hash << 5) - hash + char
-            hash = hash | 0
-        }
-        return `${PLAYWRIGHT_CONSTANTS.STABLE_TEST_ID_PREFIX}${Math.abs(hash).toString(36)}`
-    }
-
     /**
      * Builds a grep pattern for filtering specific tests by name.
      *
@@ -445,6 +660,67 @@ export class PlaywrightService implements IPlaywrightService {
         return patterns.join('|')
     }
 
+    /**
+     * Builds a grep pattern matching the given tests and no others.
+     *
+     * Each test is one alternative anchored on the "<project> <file> <describe...>
+     * <title>" Playwright matches against, so its title doesn't select an equally
+     * named test of another file, describe or project. The file there is relative
+     * to the testDir of the project, so any trailing part of the recorded path
+     * matches. A test recorded without its describe path matches in any describe.
+     */
+    private buildTestsGrepPattern(tests: PlaywrightTestFilter[]): string {
+        const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+        const patterns = tests.map((test) => {
+            const segments = test.filePath.split('/')
+            const files = segments.map((_, index) => escape(segments.slice(index).join('/')))
+            const project = test.project ? `${escape(test.project)} ` : ''
+            const titles = test.titlePath?.length
+                ? ` ${test.titlePath.map(escape).join(' ')}`
+                : `(?: .+)? ${escape(test.name)}`
+            return `(?<!\\S)${project}(?:${files.join('|')})${titles}(?:\\s+@\\S+)*$`
+        })
+        return [...new Set(patterns)].join('|')
+    }
+
+    // The given project, otherwise every project the tests ran in
+    private buildProjectArgs(project?: string, tests: PlaywrightTestFilter[] = []): string[] {
+        const projects = project
+            ? [project]
+            : [...new Set(tests.map((test) => test.project).filter(Boolean))]
+        return projects.map((name) => `--project=${name}`)
+    }
+
+    /**
+     * CLI arguments selecting the tests of a selection. Tests, titles and tags are
+     * anchored so they only match whole words; a grep is passed as is.
+     */
+    private buildSelectionArgs(selection: PlaywrightTestSelection): string[] {
+        const args: string[] = []
+
+        if (selection.tests && selection.tests.length > 0) {
+            args.push(
+                ...new Set(selection.tests.map((test) => test.filePath)),
+                '--grep',
+                this.buildTestsGrepPattern(selection.tests)
+            )
+        } else if (selection.tags && selection.tags.length > 0) {
+            const tagPatterns = selection.tags.map(
+                (tag) => `(?<!\\S)${tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?!\\S)`
+            )
+            args.push('--grep', tagPatterns.join('|'))
+        } else if (selection.grep) {
+            args.push('--grep', selection.grep)
+        }
+
+        if (selection.grepInvert) {
+            args.push('--grep-invert', selection.grepInvert)
+        }
+
+        return args
+    }
+
     // ============================================================================
     // PRIVATE VALIDATION METHODS
     // ============================================================================
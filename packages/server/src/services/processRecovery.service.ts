@@ -0,0 +1,192 @@
+import {ActiveProcessInfo} from '@yshvydak/core'
+import {ActiveProcessRepository} from '../repositories/activeProcess.repository'
+import {PipelineRunRepository} from '../repositories/pipelineRun.repository'
+import {RunRepository} from '../repositories/run.repository'
+import {TestRepository} from '../repositories/test.repository'
+import {WebSocketService} from './websocket.service'
+import {activeProcessesTracker} from './activeProcesses.service'
+import {getWebSocketManager} from '../websocket/server'
+import {PROCESS_RECOVERY_CONSTANTS} from '../config/constants'
+import {Logger} from '../utils/logger.util'
+
+/**
+ * Makes the active processes and the running pipeline survive a server restart.
+ * On start the processes left by the previous instance are reconciled: those
+ * still alive are tracked again and watched until they exit, the others get
+ * their run marked interrupted but are re-adopted if their results keep
+ * arriving. Pipelines left running are marked interrupted, as their steps were
+ * driven by the old instance.
+ */
+export class ProcessRecoveryService {
+    private timer: NodeJS.Timeout | null = null
+    private watchedPids = new Map<string, number>()
+    private unsubscribe: (() => void) | null = null
+
+    constructor(
+        private activeProcessRepository: ActiveProcessRepository,
+        private pipelineRunRepository: PipelineRunRepository,
+        private runRepository: RunRepository,
+        private testRepository: TestRepository,
+        private websocketService: WebSocketService
+    ) {}
+
+    async start(): Promise<void> {
+        if (this.unsubscribe) return
+        this.unsubscribe = activeProcessesTracker.onReadopt((process) => void this.readopt(process))
+
+        try {
+            await this.reconcileProcesses()
+            await this.reconcilePipelines()
+        } catch (error) {
+            Logger.error('Failed to reconcile the state of the previous server instance', error)
+        }
+
+        // Attached last, so restoring doesn't write the same records back
+        activeProcessesTracker.setStore(this.activeProcessRepository)
+    }
+
+    stop(): void {
+        this.unsubscribe?.()
+        this.unsubscribe = null
+        this.stopWatching()
+        this.watchedPids.clear()
+        activeProcessesTracker.setStore(null)
+    }
+
+    private async reconcileProcesses(): Promise<void> {
+        const processes = await this.activeProcessRepository.getAll()
+
+        for (const stored of processes) {
+            const process = {...stored, progress: await this.rebuildProgress(stored)}
+            const pid = stored.details.pid
+
+            if (pid && this.isAlive(pid)) {
+                activeProcessesTracker.restoreProcess(process)
+                this.watch(process.id, pid)
+                continue
+            }
+
+            await this.activeProcessRepository.delete(process.id)
+            await this.markInterrupted(process.id)
+            activeProcessesTracker.addOrphan(process)
+            Logger.warn(`Run ${process.id} was left running by the previous server instance`)
+        }
+    }
+
+    private async reconcilePipelines(): Promise<void> {
+        const pipelines = await this.pipelineRunRepository.getRunningPipelineRuns()
+
+        for (const pipeline of pipelines) {
+            await this.pipelineRunRepository.savePipelineRun({
+                ...pipeline,
+                status: 'interrupted',
+                steps: pipeline.steps.map((step) => {
+                    if (step.status === 'running') return {...step, status: 'cancelled'}
+                    if (step.status === 'queued') return {...step, status: 'skipped'}
+                    return step
+                }),
+                finishedAt: new Date().toISOString(),
+            })
+            Logger.warn(`Pipeline ${pipeline.pipelineRunId} was interrupted by a server restart`)
+        }
+    }
+
+    // The progress isn't stored; count the results saved for the run so far
+    private async rebuildProgress(
+        process: ActiveProcessInfo
+    ): Promise<NonNullable<ActiveProcessInfo['progress']>> {
+        const results = await this.testRepository.getTestResultsByRun(process.id)
+        const count = (...statuses: string[]) =>
+            results.filter((r) => statuses.includes(r.status)).length
+        const passedTests = count('passed', 'flaky')
+        const failedTests = count('failed')
+        const skippedTests = count('skipped')
+
+        return {
+            processId: process.id,
+            type: process.type,
+            totalTests: process.details.totalTests || 0,
+            completedTests: passedTests + failedTests + skippedTests,
+            passedTests,
+            failedTests,
+            skippedTests,
+            runningTests: [],
+            startTime: new Date(process.startedAt).getTime(),
+        }
+    }
+
+    private async readopt(process: ActiveProcessInfo): Promise<void> {
+        try {
+            const run = await this.runRepository.getTestRun(process.id)
+            if (run?.status === 'interrupted') {
+                await this.runRepository.updateTestRun(process.id, {status: 'running'})
+            }
+        } catch (error) {
+            Logger.error(`Failed to restore the status of run ${process.id}`, error)
+        }
+        getWebSocketManager()?.broadcastConnectionStatus()
+    }
+
+    private async markInterrupted(runId: string): Promise<void> {
+        const run = await this.runRepository.getTestRun(runId)
+        if (run?.status === 'running') {
+            await this.runRepository.updateTestRun(runId, {status: 'interrupted'})
+        }
+    }
+
+    private watch(runId: string, pid: number): void {
+        this.watchedPids.set(runId, pid)
+        if (this.timer) return
+        this.timer = setInterval(
+            () => void this.checkWatched(),
+            PROCESS_RECOVERY_CONSTANTS.PID_CHECK_INTERVAL_MS
+        )
+    }
+
+    private stopWatching(): void {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+    }
+
+    // A restored process that exited without the reporter ending it was cut off
+    private async checkWatched(): Promise<void> {
+        for (const [runId, pid] of this.watchedPids) {
+            if (this.isAlive(pid)) continue
+
+            this.watchedPids.delete(runId)
+            const tracked = activeProcessesTracker.getActiveProcesses().find((p) => p.id === runId)
+            if (!tracked) continue
+
+            try {
+                await this.markInterrupted(runId)
+            } catch (error) {
+                Logger.error(`Failed to mark run ${runId} interrupted`, error)
+            }
+            activeProcessesTracker.removeProcess(runId)
+            this.websocketService.broadcastRunCompleted(
+                runId,
+                1,
+                tracked.type,
+                tracked.details.filePath
+            )
+            this.websocketService.broadcast({
+                type: 'process:ended',
+                data: {runId, status: 'interrupted'},
+            })
+        }
+
+        if (this.watchedPids.size === 0) this.stopWatching()
+    }
+
+    private isAlive(pid: number): boolean {
+        try {
+            process.kill(pid, 0)
+            return true
+        } catch (error) {
+            // EPERM: the process exists but belongs to another user
+            return (error as NodeJS.ErrnoException).code === 'EPERM'
+        }
+    }
+}
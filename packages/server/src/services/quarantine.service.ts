@@ -0,0 +1,76 @@
+import {QuarantinedTest, TestQuarantine} from '@yshvydak/core'
+import {QuarantineRepository} from '../repositories/quarantine.repository'
+import {TestRepository} from '../repositories/test.repository'
+import {Logger} from '../utils/logger.util'
+
+export const MAX_QUARANTINE_REASON_LENGTH = 500
+
+// Prefix of validation errors, mapped to 400 by the controller
+export const INVALID_QUARANTINE = 'Invalid quarantine'
+
+/**
+ * Quarantined tests keep running and reporting, but their failures are counted
+ * separately and don't fail a pipeline step. A quarantine ends when it expires
+ * or is released.
+ */
+export class QuarantineService {
+    constructor(
+        private quarantineRepository: QuarantineRepository,
+        private testRepository: TestRepository
+    ) {}
+
+    async getQuarantine(testId: string): Promise<TestQuarantine | null> {
+        return this.quarantineRepository.getQuarantine(testId)
+    }
+
+    async quarantineTest(
+        testId: string,
+        reason: string,
+        expiresAt?: string | null
+    ): Promise<TestQuarantine> {
+        const trimmedReason = reason.trim()
+
+        if (!trimmedReason) {
+            throw new Error(`${INVALID_QUARANTINE}: reason is required`)
+        }
+
+        if (trimmedReason.length > MAX_QUARANTINE_REASON_LENGTH) {
+            throw new Error(
+                `${INVALID_QUARANTINE}: reason exceeds ${MAX_QUARANTINE_REASON_LENGTH} characters`
+            )
+        }
+
+        let expiry: string | null = null
+        if (expiresAt) {
+            const date = new Date(expiresAt)
+            if (isNaN(date.getTime()) || date <= new Date()) {
+                throw new Error(`${INVALID_QUARANTINE}: expiry must be a future date`)
+            }
+            expiry = date.toISOString()
+        }
+
+        await this.quarantineRepository.saveQuarantine(testId, trimmedReason, expiry)
+        Logger.info(`Test ${testId} quarantined${expiry ? ` until ${expiry}` : ' until released'}`)
+
+        return (await this.quarantineRepository.getQuarantine(testId))!
+    }
+
+    async releaseTest(testId: string): Promise<void> {
+        await this.quarantineRepository.deleteQuarantine(testId)
+        Logger.info(`Test ${testId} released from quarantine`)
+    }
+
+    async getQuarantinedTests(project?: string): Promise<QuarantinedTest[]> {
+        return this.quarantineRepository.getActiveQuarantines(project)
+    }
+
+    // Titles to pass to Playwright's --grep-invert when quarantined tests are skipped
+    async getQuarantinedTitles(project?: string): Promise<string[]> {
+        const tests = await this.quarantineRepository.getActiveQuarantines(project)
+        return [...new Set(tests.map((test) => test.name).filter(Boolean))]
+    }
+
+    async getQuarantinedFailureCount(runId: string): Promise<number> {
+        return this.testRepository.getQuarantinedFailureCount(runId)
+    }
+}
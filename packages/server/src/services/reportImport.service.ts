@@ -0,0 +1,264 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {v4 as uuidv4} from 'uuid'
+import {unzipSync} from 'fflate'
+import {ConsoleEntry, generateStableTestId, normalizeTestPath} from '@yshvydak/core'
+import {RunRepository} from '../repositories/run.repository'
+import {TestService} from './test.service'
+import {INVALID_REPORT_ERROR, ReportParser} from '../utils/reportParser.util'
+import {Logger} from '../utils/logger.util'
+import {TestResultData} from '../types/database.types'
+import {ImportedTestAttempt, ParsedReport, ReportImportResult} from '../types/service.types'
+
+export interface ReportImportFiles {
+    // Playwright JSON reporter output or JUnit XML
+    report: Buffer
+    // Zip of the test output directory (test-results/) with the attachment files
+    attachments?: Buffer
+}
+
+export interface ReportImportOptions {
+    // Project for results the report does not assign to one
+    project?: string
+    fileName?: string
+}
+
+/**
+ * Imports reports from test runs that could not reach the dashboard.
+ * Results get the same stable test IDs as reporter results, so imported
+ * runs merge into the existing history, flaky statistics and timeline.
+ */
+export class ReportImportService {
+    constructor(
+        private runRepository: RunRepository,
+        private testService: TestService
+    ) {}
+
+    async importReport(
+        files: ReportImportFiles,
+        options: ReportImportOptions = {}
+    ): Promise<ReportImportResult> {
+        const report = ReportParser.parse(files.report.toString('utf-8'))
+        if (report.attempts.length === 0) {
+            throw new Error(`${INVALID_REPORT_ERROR} contains no test results`)
+        }
+
+        const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dashboard-import-'))
+        try {
+            const extracted = files.attachments ? this.extractZip(files.attachments, workDir) : []
+            return await this.saveReport(report, extracted, workDir, options)
+        } finally {
+            // Attachments are copied to permanent storage while saving
+            fs.rmSync(workDir, {recursive: true, force: true})
+        }
+    }
+
+    private async saveReport(
+        report: ParsedReport,
+        extracted: string[],
+        workDir: string,
+        options: ReportImportOptions
+    ): Promise<ReportImportResult> {
+        const runId = uuidv4()
+        const fallbackTime = this.toIsoTime(report.startTime) || new Date().toISOString()
+
+        const results: TestResultData[] = []
+        const executionIds = new Map<string, string>()
+        let attachmentCount = 0
+
+        for (const attempt of report.attempts) {
+            const project = attempt.project || options.project
+            const testId = generateStableTestId({
+                filePath: attempt.filePath,
+                titlePath: attempt.titlePath,
+                project,
+            })
+            const id = uuidv4()
+            const timestamp = this.toIsoTime(attempt.startTime) || fallbackTime
+
+            // Retries follow their first attempt in the report, like they do in the reporter
+            if (attempt.retry === 0 || !executionIds.has(testId)) {
+                executionIds.set(testId, id)
+            }
+
+            const attachments = this.resolveAttachments(attempt, extracted, workDir)
+            attachmentCount += attachments.length
+
+            const consoleEntries: ConsoleEntry[] = [
+                ...attempt.stdout.map((text) => ({type: 'stdout' as const, text, timestamp})),
+                ...attempt.stderr.map((text) => ({type: 'stderr' as const, text, timestamp})),
+            ]
+
+            results.push({
+                id,
+                runId,
+                testId,
+                name: attempt.titlePath[attempt.titlePath.length - 1],
+                filePath: normalizeTestPath(attempt.filePath),
+                status: attempt.status,
+                duration: attempt.duration,
+                errorMessage: attempt.errorMessage,
+                errorStack: attempt.errorStack,
+                retryCount: attempt.retry,
+                executionId: executionIds.get(testId),
+                timestamp,
+                project,
+                attachments,
+                metadata: {
+                    steps: attempt.steps,
+                    console: consoleEntries.length > 0 ? {entries: consoleEntries} : undefined,
+                    annotations: attempt.annotations,
+                    tags: attempt.tags,
+                    titlePath: attempt.titlePath,
+                },
+            } as TestResultData)
+        }
+
+        // Run totals count the final attempt of each execution, as the reporter does
+        const finalAttempts = new Map<string, TestResultData>()
+        for (const result of results) {
+            finalAttempts.set(result.executionId!, result)
+        }
+        const finals = [...finalAttempts.values()]
+        const failedTests = finals.filter(
+            (result) => result.status === 'failed' || result.status === 'timedOut'
+        ).length
+        const projects = [...new Set(results.map((result) => (result as any).project))]
+
+        await this.runRepository.createTestRun({
+            id: runId,
+            status: failedTests > 0 ? 'failed' : 'completed',
+            totalTests: finals.length,
+            passedTests: finals.filter((result) => result.status === 'passed').length,
+            failedTests,
+            skippedTests: finals.filter((result) => result.status === 'skipped').length,
+            duration: report.duration ?? finals.reduce((sum, result) => sum + result.duration, 0),
+            metadata: {
+                imported: true,
+                format: report.format,
+                fileName: options.fileName,
+                project: projects.length === 1 ? projects[0] : undefined,
+            },
+            createdAt: fallbackTime,
+        })
+
+        const items = await this.testService.saveTestResultsBatch(results)
+        const saved = items.filter((item) => item.status === 'saved').length
+
+        Logger.info(
+            `Imported ${report.format} report as run ${runId}: ${saved}/${results.length} results, ${attachmentCount} attachments`
+        )
+
+        return {
+            runId,
+            format: report.format,
+            totalTests: finals.length,
+            saved,
+            failed: results.length - saved,
+            attachments: attachmentCount,
+        }
+    }
+
+    /**
+     * Extracts the zip into the work directory and returns the entry paths (posix, relative).
+     */
+    private extractZip(zip: Buffer, workDir: string): string[] {
+        let entries: Record<string, Uint8Array>
+        try {
+            entries = unzipSync(new Uint8Array(zip))
+        } catch {
+            throw new Error(`${INVALID_REPORT_ERROR} attachments must be a zip archive`)
+        }
+
+        const extractedDir = path.join(workDir, 'extracted')
+        const extracted: string[] = []
+        for (const [entryPath, content] of Object.entries(entries)) {
+            if (entryPath.endsWith('/')) continue
+
+            const target = path.resolve(extractedDir, entryPath)
+            // Entries must not escape the extraction directory ("zip slip")
+            if (!target.startsWith(extractedDir + path.sep)) {
+                Logger.warn(`[ReportImport] Skipping zip entry outside the archive: ${entryPath}`)
+                continue
+            }
+
+            fs.mkdirSync(path.dirname(target), {recursive: true})
+            fs.writeFileSync(target, content)
+            extracted.push(entryPath.replace(/\\/g, '/'))
+        }
+
+        return extracted
+    }
+
+    /**
+     * Maps the attachments of an attempt to files on this machine: inline bodies are
+     * written out, paths from the test machine are matched against the zip entries.
+     */
+    private resolveAttachments(
+        attempt: ImportedTestAttempt,
+        extracted: string[],
+        workDir: string
+    ): Array<{name: string; path: string; contentType: string}> {
+        const resolved: Array<{name: string; path: string; contentType: string}> = []
+
+        for (const attachment of attempt.attachments) {
+            if (attachment.body) {
+                const inlineDir = path.join(workDir, 'inline', uuidv4())
+                fs.mkdirSync(inlineDir, {recursive: true})
+                const filePath = path.join(
+                    inlineDir,
+                    path.basename(attachment.name) || 'attachment'
+                )
+                fs.writeFileSync(filePath, attachment.body)
+                resolved.push({
+                    name: attachment.name,
+                    path: filePath,
+                    contentType: attachment.contentType,
+                })
+                continue
+            }
+
+            const entry = attachment.path && this.findZipEntry(attachment.path, extracted)
+            if (entry) {
+                resolved.push({
+                    name: attachment.name,
+                    path: path.join(workDir, 'extracted', entry),
+                    contentType: attachment.contentType,
+                })
+            }
+        }
+
+        return resolved
+    }
+
+    /**
+     * Finds the zip entry for a path recorded on the test machine. Absolute paths
+     * (JSON reporter) end with the entry path, relative ones (JUnit) contain it.
+     */
+    private findZipEntry(reportPath: string, extracted: string[]): string | undefined {
+        const normalized = reportPath.replace(/\\/g, '/')
+        const relative = normalized.replace(/^(\.\.?\/)+/, '')
+
+        let best: string | undefined
+        for (const entry of extracted) {
+            const matches =
+                normalized === entry ||
+                normalized.endsWith(`/${entry}`) ||
+                entry === relative ||
+                entry.endsWith(`/${relative}`)
+            // The longest match is the most specific one
+            if (matches && (!best || entry.length > best.length)) {
+                best = entry
+            }
+        }
+
+        return best
+    }
+
+    private toIsoTime(value: string | undefined): string | undefined {
+        if (!value) return undefined
+        const date = new Date(value)
+        return isNaN(date.getTime()) ? undefined : date.toISOString()
+    }
+}
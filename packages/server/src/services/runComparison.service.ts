@@ -0,0 +1,140 @@
+import {RunComparison, RunComparisonEntry, TestRun} from '@yshvydak/core'
+import {TestRepository} from '../repositories/test.repository'
+import {TestRunData} from '../types/database.types'
+import {ExecutionStatus, TestResult} from '../types/service.types'
+
+export const DEFAULT_DURATION_THRESHOLD = 20
+
+// Changes below this are timing noise, however large they are relative to a fast test
+export const MIN_DURATION_DELTA_MS = 100
+
+const FAILING_STATUSES: ExecutionStatus[] = ['failed', 'timedOut']
+const PASSING_STATUSES: ExecutionStatus[] = ['passed', 'flaky']
+
+const isFailing = (result: TestResult) => FAILING_STATUSES.includes(result.status)
+const isPassing = (result: TestResult) => PASSING_STATUSES.includes(result.status)
+
+/**
+ * Diffs the results of two runs by stable test ID.
+ */
+export class RunComparisonService {
+    constructor(private testRepository: TestRepository) {}
+
+    async compareRuns(
+        base: TestRunData,
+        head: TestRunData,
+        durationThreshold: number = DEFAULT_DURATION_THRESHOLD
+    ): Promise<RunComparison> {
+        const [baseResults, headResults] = await Promise.all([
+            this.testRepository.getTestResultsByRun(base.id),
+            this.testRepository.getTestResultsByRun(head.id),
+        ])
+        const baseByTest = this.byTestId(baseResults)
+        const headByTest = this.byTestId(headResults)
+
+        const comparison: RunComparison = {
+            base: base as TestRun,
+            head: head as TestRun,
+            durationThreshold,
+            newlyFailing: [],
+            newlyPassing: [],
+            stillFailing: [],
+            added: [],
+            removed: [],
+            slower: [],
+            faster: [],
+        }
+
+        for (const [testId, headResult] of headByTest) {
+            const baseResult = baseByTest.get(testId)
+            const entry = this.toEntry(headResult, baseResult, headResult)
+
+            if (!baseResult) {
+                comparison.added.push(entry)
+            } else if (isFailing(headResult)) {
+                if (isFailing(baseResult)) {
+                    comparison.stillFailing.push(entry)
+                } else {
+                    comparison.newlyFailing.push(entry)
+                }
+            } else if (isPassing(headResult) && isFailing(baseResult)) {
+                comparison.newlyPassing.push(entry)
+            } else if (isPassing(headResult) && isPassing(baseResult)) {
+                // Durations are only comparable when both runs went all the way through
+                const change = this.durationChange(baseResult, headResult, durationThreshold)
+                if (change !== undefined) {
+                    entry.durationChange = change
+                    if (change > 0) {
+                        comparison.slower.push(entry)
+                    } else {
+                        comparison.faster.push(entry)
+                    }
+                }
+            }
+        }
+
+        for (const [testId, baseResult] of baseByTest) {
+            if (!headByTest.has(testId)) {
+                comparison.removed.push(this.toEntry(baseResult, baseResult, undefined))
+            }
+        }
+
+        const byLocation = (a: RunComparisonEntry, b: RunComparisonEntry) =>
+            a.filePath.localeCompare(b.filePath) || a.name.localeCompare(b.name)
+        const byChange = (a: RunComparisonEntry, b: RunComparisonEntry) =>
+            Math.abs(b.durationChange!) - Math.abs(a.durationChange!)
+
+        comparison.newlyFailing.sort(byLocation)
+        comparison.newlyPassing.sort(byLocation)
+        comparison.stillFailing.sort(byLocation)
+        comparison.added.sort(byLocation)
+        comparison.removed.sort(byLocation)
+        comparison.slower.sort(byChange)
+        comparison.faster.sort(byChange)
+
+        return comparison
+    }
+
+    /**
+     * Latest execution per test. Results come newest first, so the first one wins.
+     */
+    private byTestId(results: TestResult[]): Map<string, TestResult> {
+        const map = new Map<string, TestResult>()
+        for (const result of results) {
+            if (!map.has(result.testId)) {
+                map.set(result.testId, result)
+            }
+        }
+        return map
+    }
+
+    private toEntry(
+        source: TestResult,
+        base: TestResult | undefined,
+        head: TestResult | undefined
+    ): RunComparisonEntry {
+        return {
+            testId: source.testId,
+            name: source.name,
+            filePath: source.filePath,
+            project: source.project,
+            base: base as RunComparisonEntry['base'],
+            head: head as RunComparisonEntry['head'],
+        }
+    }
+
+    /**
+     * Relative change in percent (rounded), or undefined when it stays within the threshold.
+     */
+    private durationChange(
+        base: TestResult,
+        head: TestResult,
+        threshold: number
+    ): number | undefined {
+        const delta = head.duration - base.duration
+        if (base.duration <= 0 || Math.abs(delta) < MIN_DURATION_DELTA_MS) return undefined
+
+        const change = (delta / base.duration) * 100
+        return Math.abs(change) >= threshold ? Math.round(change) : undefined
+    }
+}
@@ -0,0 +1,175 @@
+import fs from 'fs'
+import path from 'path'
+import {ChildProcess} from 'child_process'
+import {StringDecoder} from 'string_decoder'
+import {config} from '../config/environment.config'
+import {RUN_LOG_CONSTANTS} from '../config/constants'
+import {WebSocketService} from './websocket.service'
+import {Logger} from '../utils/logger.util'
+
+interface RunLogTail {
+    // Bytes of the log already broadcast
+    offset: number
+    decoder: StringDecoder
+    // Also shown in the server output
+    echo: boolean
+    timer: NodeJS.Timeout | null
+}
+
+/**
+ * Raw stdout/stderr of the Playwright process of each run, kept in
+ * `<outputDir>/run-logs/<runId>.log` and streamed live as `run:log` events.
+ * The process writes to the file itself, so its output doesn't depend on the
+ * server staying up; the server tails the file while the process runs.
+ * A log over the size cap is rotated to `<runId>.log.1`, so a run keeps its
+ * most recent output, and only the logs of the newest runs are kept.
+ */
+export class RunLogService {
+    private tails = new Map<string, RunLogTail>()
+
+    constructor(
+        private websocketService: WebSocketService,
+        private logsDir: string = path.join(config.storage.outputDir, config.storage.runLogsDir)
+    ) {}
+
+    /**
+     * Creates the log of a run and returns a file descriptor for its process to
+     * write stdout and stderr to, or null when the log can't be written.
+     */
+    open(runId: string, options: {echo?: boolean} = {}): number | null {
+        if (!this.isValidRunId(runId)) return null
+
+        try {
+            fs.mkdirSync(this.logsDir, {recursive: true})
+            this.prune()
+        } catch (error) {
+            Logger.warn('Failed to prepare the run logs directory', error)
+        }
+
+        try {
+            const fd = fs.openSync(this.logPath(runId), 'a')
+            this.tails.set(runId, {
+                offset: 0,
+                decoder: new StringDecoder('utf8'),
+                echo: options.echo ?? false,
+                timer: null,
+            })
+            return fd
+        } catch (error) {
+            Logger.warn(`Failed to open the log of run ${runId}`, error)
+            return null
+        }
+    }
+
+    /**
+     * Streams what the process of a run writes to its log until it closes.
+     */
+    capture(runId: string, child: ChildProcess): void {
+        const tail = this.tails.get(runId)
+        if (!tail) return
+
+        tail.timer = setInterval(() => this.flush(runId), RUN_LOG_CONSTANTS.FLUSH_INTERVAL_MS)
+
+        child.once('close', (code: number | null, signal: NodeJS.Signals | null) => {
+            this.flush(runId)
+            if (tail.timer) clearInterval(tail.timer)
+            this.tails.delete(runId)
+
+            const exit = `\n[Process exited with ${code !== null ? `code ${code}` : signal}]\n`
+            try {
+                fs.appendFileSync(this.logPath(runId), exit)
+            } catch (error) {
+                Logger.warn(`Failed to write the log of run ${runId}`, error)
+            }
+            this.websocketService.broadcastRunLog(runId, exit)
+        })
+    }
+
+    isCapturing(runId: string): boolean {
+        return this.tails.has(runId)
+    }
+
+    /**
+     * The output written so far, the rotated part first; null when the run has no log.
+     */
+    async getLog(runId: string): Promise<string | null> {
+        if (!this.isValidRunId(runId)) return null
+
+        // Output not yet broadcast is included, live chunks carry on from there
+        this.flush(runId)
+
+        const parts = await Promise.all(
+            [`${this.logPath(runId)}.1`, this.logPath(runId)].map((file) =>
+                fs.promises.readFile(file, 'utf8').catch(() => null)
+            )
+        )
+        if (parts.every((part) => part === null)) return null
+        return parts.filter((part) => part !== null).join('')
+    }
+
+    async clearAll(): Promise<void> {
+        await fs.promises.rm(this.logsDir, {recursive: true, force: true})
+    }
+
+    // Broadcasts what the process wrote since the last flush
+    private flush(runId: string): void {
+        const tail = this.tails.get(runId)
+        if (!tail) return
+
+        let chunk: string
+        try {
+            const file = this.logPath(runId)
+            const size = fs.statSync(file).size
+            if (size <= tail.offset) return
+
+            const buffer = Buffer.alloc(size - tail.offset)
+            const fd = fs.openSync(file, 'r')
+            try {
+                fs.readSync(fd, buffer, 0, buffer.length, tail.offset)
+            } finally {
+                fs.closeSync(fd)
+            }
+            chunk = tail.decoder.write(buffer)
+            tail.offset = size
+
+            if (size > RUN_LOG_CONSTANTS.MAX_FILE_BYTES) {
+                // The process keeps appending to the file it opened, so the log is
+                // copied aside and emptied rather than renamed
+                fs.copyFileSync(file, `${file}.1`)
+                fs.truncateSync(file, 0)
+                tail.offset = 0
+            }
+        } catch (error) {
+            Logger.warn(`Failed to read the log of run ${runId}`, error)
+            return
+        }
+
+        if (!chunk) return
+        this.websocketService.broadcastRunLog(runId, chunk)
+        if (tail.echo) process.stdout.write(chunk)
+    }
+
+    // Keeps the newest MAX_RUNS logs, oldest first out
+    private prune(): void {
+        const logs = fs
+            .readdirSync(this.logsDir)
+            .filter((name) => name.endsWith('.log'))
+            .map((name) => ({name, mtime: fs.statSync(path.join(this.logsDir, name)).mtimeMs}))
+            .sort((a, b) => b.mtime - a.mtime)
+
+        for (const {name} of logs.slice(RUN_LOG_CONSTANTS.MAX_RUNS - 1)) {
+            const file = path.join(this.logsDir, name)
+            fs.rmSync(file, {force: true})
+            fs.rmSync(`${file}.1`, {force: true})
+        }
+    }
+
+    private logPath(runId: string): string {
+        return path.join(this.logsDir, `${runId}.log`)
+    }
+
+    // Run ids end up in file names
+    private isValidRunId(runId: string): boolean {
+        return /^[\w-]+$/.test(runId)
+    }
+}
@@ -0,0 +1,227 @@
+import {v4 as uuidv4} from 'uuid'
+import {RunQueueItem, RunQueuePriority, RunQueueRequest} from '@yshvydak/core'
+import {RunQueueRecord, RunQueueRepository} from '../repositories/runQueue.repository'
+import {TestService} from './test.service'
+import {SettingsService} from './settings.service'
+import {PipelineExecutionService} from './pipelineExecution.service'
+import {WebSocketService} from './websocket.service'
+import {activeProcessesTracker} from './activeProcesses.service'
+import {Logger} from '../utils/logger.util'
+
+// Prefix of validation errors, mapped to 400 by the controllers
+export const INVALID_RUN_REQUEST = 'Invalid run request'
+
+export const RUN_QUEUE_PRIORITIES: RunQueuePriority[] = ['high', 'normal', 'low']
+
+export type RunQueueSubmitResult =
+    | {queued: false; result: any}
+    // duplicate: an identical request was already waiting and is returned instead
+    | {queued: true; duplicate: boolean; item: RunQueueItem}
+
+/**
+ * FIFO queue, by priority, for run-all and pipeline requests made while tests
+ * are running. Items are persisted so they survive a restart, and the next one
+ * starts as soon as no process is active and no pipeline is running.
+ */
+export class RunQueueService {
+    private draining = false
+    private unsubscribers: (() => void)[] = []
+
+    constructor(
+        private runQueueRepository: RunQueueRepository,
+        private testService: TestService,
+        private pipelineExecutionService: PipelineExecutionService,
+        private settingsService: SettingsService,
+        private websocketService: WebSocketService
+    ) {}
+
+    async getQueue(): Promise<RunQueueItem[]> {
+        const records = await this.runQueueRepository.getQueue()
+        return records.map((record, index) => ({...record, position: index + 1}))
+    }
+
+    /**
+     * Starts the run when nothing is running and nobody is waiting, otherwise
+     * queues it. With `queue` false the run is started right away and the
+     * TESTS_ALREADY_RUNNING guard error is thrown as before.
+     */
+    async submit(request: RunQueueRequest, queue = true): Promise<RunQueueSubmitResult> {
+        const record = this.validate(request)
+
+        if (!queue) {
+            return {queued: false, result: await this.startRun(record)}
+        }
+
+        if (!this.isBusy() && (await this.runQueueRepository.getQueue()).length === 0) {
+            try {
+                return {queued: false, result: await this.startRun(record)}
+            } catch (error) {
+                if (!this.isAlreadyRunning(error)) throw error
+            }
+        }
+
+        const existing = await this.runQueueRepository.findQueued(record.kind, record.project)
+        if (existing) {
+            return {queued: true, duplicate: true, item: await this.withPosition(existing)}
+        }
+
+        // Checked now as well as when the item starts, so a paused CI script gets its 423 right away
+        await this.assertNotPaused(record.source)
+
+        await this.runQueueRepository.enqueue(record)
+        Logger.info(`Queued ${this.describe(record)} (${record.priority} priority)`)
+        await this.broadcastQueue()
+
+        // The running process may have ended while the item was being queued
+        void this.drain()
+
+        return {queued: true, duplicate: false, item: await this.withPosition(record)}
+    }
+
+    async cancel(id: string): Promise<boolean> {
+        const existing = await this.runQueueRepository.getItem(id)
+        if (!existing) return false
+
+        await this.runQueueRepository.deleteItem(id)
+        Logger.info(`Cancelled queued ${this.describe(existing)}`)
+        await this.broadcastQueue()
+        return true
+    }
+
+    /**
+     * Drains the queue whenever the last process ends or a pipeline finishes,
+     * and starts what was left queued before a restart.
+     */
+    start(): void {
+        if (this.unsubscribers.length > 0) return
+        this.unsubscribers = [
+            activeProcessesTracker.onIdle(() => void this.drain()),
+            this.pipelineExecutionService.onFinished(() => void this.drain()),
+        ]
+        void this.drain()
+    }
+
+    stop(): void {
+        this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+        this.unsubscribers = []
+    }
+
+    /**
+     * Starts queued items in order while nothing is running. An item that fails
+     * to start (paused CI auto-run, empty pipeline...) is dropped. Never throws.
+     */
+    async drain(): Promise<void> {
+        if (this.draining) return
+        this.draining = true
+
+        try {
+            while (!this.isBusy()) {
+                const [next] = await this.runQueueRepository.getQueue()
+                if (!next) return
+
+                await this.runQueueRepository.deleteItem(next.id)
+                try {
+                    await this.startRun(next)
+                    Logger.info(`Started queued ${this.describe(next)}`)
+                } catch (error) {
+                    if (this.isAlreadyRunning(error)) {
+                        // Something started in between: put the item back in its place
+                        await this.runQueueRepository.enqueue(next)
+                        return
+                    }
+                    Logger.error(`Queued ${this.describe(next)} failed to start`, error)
+                } finally {
+                    await this.broadcastQueue()
+                }
+            }
+        } catch (error) {
+            Logger.error('Failed to drain the run queue', error)
+        } finally {
+            this.draining = false
+        }
+    }
+
+    private async startRun(record: RunQueueRecord): Promise<any> {
+        if (record.kind === 'pipeline') {
+            return this.pipelineExecutionService.startPipeline(record.maxWorkers, record.source)
+        }
+        return this.testService.runAllTests(
+            record.maxWorkers,
+            record.skipAutoDiscovery,
+            record.project,
+            record.source
+        )
+    }
+
+    // Between two pipeline steps no process is active, but the pipeline still is
+    private isBusy(): boolean {
+        return (
+            activeProcessesTracker.isAnyProcessRunning() ||
+            this.pipelineExecutionService.isPipelineRunning()
+        )
+    }
+
+    private isAlreadyRunning(error: unknown): boolean {
+        return error instanceof Error && error.message.includes('TESTS_ALREADY_RUNNING')
+    }
+
+    // Same check TestService / PipelineExecutionService make before starting
+    private async assertNotPaused(source?: string): Promise<void> {
+        if (source !== 'script' && source !== 'schedule') return
+
+        const pause = await this.settingsService.getCIAutoRunPause()
+        if (pause.paused && !(pause.resumeAt && new Date(pause.resumeAt) <= new Date())) {
+            throw new Error(
+                JSON.stringify({
+                    code: 'CI_AUTORUN_PAUSED',
+                    message: 'CI auto-run is paused',
+                    resumeAt: pause.resumeAt,
+                })
+            )
+        }
+    }
+
+    private async withPosition(record: RunQueueRecord): Promise<RunQueueItem> {
+        const queue = await this.runQueueRepository.getQueue()
+        const index = queue.findIndex((item) => item.id === record.id)
+        return {...record, position: index + 1}
+    }
+
+    private async broadcastQueue(): Promise<void> {
+        this.websocketService.broadcastQueueUpdated(await this.getQueue())
+    }
+
+    private describe(record: RunQueueRecord): string {
+        return record.kind === 'pipeline' ? 'CI pipeline' : `run-all ${record.project ?? ''}`.trim()
+    }
+
+    private validate(request: RunQueueRequest): RunQueueRecord {
+        const kind = request?.kind
+        if (kind !== 'run-all' && kind !== 'pipeline') {
+            throw new Error(`${INVALID_RUN_REQUEST}: unknown kind ${kind}`)
+        }
+
+        const priority = request.priority ?? 'normal'
+        if (!RUN_QUEUE_PRIORITIES.includes(priority)) {
+            throw new Error(
+                `${INVALID_RUN_REQUEST}: priority must be one of ${RUN_QUEUE_PRIORITIES.join(', ')}`
+            )
+        }
+
+        const project =
+            kind === 'run-all' && typeof request.project === 'string' && request.project !== ''
+                ? request.project
+                : undefined
+
+        return {
+            id: uuidv4(),
+            kind,
+            project,
+            maxWorkers: request.maxWorkers ?? undefined,
+            skipAutoDiscovery: request.skipAutoDiscovery === true,
+            source: request.source,
+            priority,
+            createdAt: new Date().toISOString(),
+        }
+    }
+}
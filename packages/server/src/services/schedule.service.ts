@@ -0,0 +1,260 @@
+import {v4 as uuidv4} from 'uuid'
+import {Schedule, ScheduleInput} from '@yshvydak/core'
+import {
+    ScheduleData,
+    ScheduleRecord,
+    ScheduleRepository,
+    ScheduleRunRecord,
+} from '../repositories/schedule.repository'
+import {TestService} from './test.service'
+import {SettingsService} from './settings.service'
+import {PipelineExecutionService} from './pipelineExecution.service'
+import {activeProcessesTracker} from './activeProcesses.service'
+import {CronExpression} from '../utils/cron.util'
+import {Logger} from '../utils/logger.util'
+
+// Prefix of validation errors, mapped to 400 by the controller
+export const INVALID_SCHEDULE = 'Invalid schedule'
+
+// Runs are started with this source: the CI auto-run pause applies and the run
+// is labelled as scheduled
+export const SCHEDULE_SOURCE = 'schedule'
+
+export const DEFAULT_PREVIEW_COUNT = 5
+export const MAX_PREVIEW_COUNT = 20
+
+const MAX_NAME_LENGTH = 100
+const MINUTE_MS = 60_000
+
+// Guard errors of TestService / PipelineExecutionService that skip a run instead of failing it
+const SKIP_CODES = ['TESTS_ALREADY_RUNNING', 'CI_AUTORUN_PAUSED']
+
+/**
+ * Cron schedules that start a project tab run or the whole CI pipeline. Checked
+ * once a minute; a schedule firing while tests are running or while the CI
+ * auto-run is paused is skipped, not queued, and the outcome of its last run
+ * is kept on the schedule.
+ */
+export class ScheduleService {
+    private timer: NodeJS.Timeout | null = null
+    // Minute of the last tick, so a minute never fires twice
+    private lastTickMinute: number | null = null
+
+    constructor(
+        private scheduleRepository: ScheduleRepository,
+        private settingsService: SettingsService,
+        private testService: TestService,
+        private pipelineExecutionService: PipelineExecutionService
+    ) {}
+
+    async getSchedules(): Promise<Schedule[]> {
+        const schedules = await this.scheduleRepository.getSchedules()
+        return schedules.map((schedule) => this.withNextRun(schedule))
+    }
+
+    async getSchedule(id: string): Promise<Schedule | null> {
+        const schedule = await this.scheduleRepository.getSchedule(id)
+        return schedule ? this.withNextRun(schedule) : null
+    }
+
+    async createSchedule(input: ScheduleInput): Promise<Schedule> {
+        const data = await this.validate(input, null)
+        const id = uuidv4()
+
+        await this.scheduleRepository.createSchedule(id, data)
+        Logger.info(`Schedule created: ${data.name} (${data.cron})`)
+
+        return (await this.getSchedule(id))!
+    }
+
+    async updateSchedule(id: string, input: ScheduleInput): Promise<Schedule | null> {
+        const existing = await this.scheduleRepository.getSchedule(id)
+        if (!existing) return null
+
+        await this.scheduleRepository.updateSchedule(id, await this.validate(input, existing))
+        return this.getSchedule(id)
+    }
+
+    async deleteSchedule(id: string): Promise<boolean> {
+        const existing = await this.scheduleRepository.getSchedule(id)
+        if (!existing) return false
+
+        await this.scheduleRepository.deleteSchedule(id)
+        Logger.info(`Schedule deleted: ${existing.name}`)
+        return true
+    }
+
+    /**
+     * Next times `cron` fires, for previewing an expression before saving it.
+     * Throws for an invalid expression.
+     */
+    previewRuns(cron: string, count: number = DEFAULT_PREVIEW_COUNT, now = new Date()): string[] {
+        return CronExpression.parse(cron)
+            .nextRuns(now, count)
+            .map((date) => date.toISOString())
+    }
+
+    start(): void {
+        if (this.timer) return
+        this.scheduleNextTick()
+        Logger.info('Scheduler started')
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer)
+            this.timer = null
+        }
+    }
+
+    /**
+     * Starts every enabled schedule due in the minute of `now`. Never throws.
+     */
+    async tick(now: Date = new Date()): Promise<void> {
+        const minute = Math.floor(now.getTime() / MINUTE_MS)
+        if (minute === this.lastTickMinute) return
+        this.lastTickMinute = minute
+
+        try {
+            const due = (await this.scheduleRepository.getSchedules()).filter(
+                (schedule) => schedule.enabled && this.isDue(schedule, now)
+            )
+
+            // One after the other: a run started by the first makes the rest skip
+            for (const schedule of due) {
+                await this.trigger(schedule, now)
+            }
+        } catch (error) {
+            Logger.error('Failed to run due schedules', error)
+        }
+    }
+
+    private scheduleNextTick(): void {
+        const delay = MINUTE_MS - (Date.now() % MINUTE_MS)
+        this.timer = setTimeout(() => {
+            void this.tick()
+            this.scheduleNextTick()
+        }, delay)
+        // Don't keep the process alive just for the scheduler
+        this.timer.unref()
+    }
+
+    private isDue(schedule: ScheduleRecord, now: Date): boolean {
+        try {
+            return CronExpression.parse(schedule.cron).matches(now)
+        } catch {
+            return false
+        }
+    }
+
+    private async trigger(schedule: ScheduleRecord, now: Date): Promise<void> {
+        const target = schedule.project ?? 'CI pipeline'
+        const record = (
+            lastStatus: ScheduleRunRecord['lastStatus'],
+            lastMessage: string | null = null
+        ) =>
+            this.scheduleRepository.recordRun(schedule.id, {
+                lastRunAt: now.toISOString(),
+                lastStatus,
+                lastMessage,
+            })
+
+        // Between two pipeline steps no process is active, but the pipeline still is
+        if (
+            activeProcessesTracker.isAnyProcessRunning() ||
+            this.pipelineExecutionService.isPipelineRunning()
+        ) {
+            Logger.info(`Schedule ${schedule.name} skipped: tests are already running`)
+            await record('skipped', 'Tests are already running')
+            return
+        }
+
+        try {
+            if (schedule.project) {
+                const tab = (await this.settingsService.getProjectTabConfigs()).find(
+                    (t) => t.project === schedule.project
+                )
+                await this.testService.runAllTests(
+                    tab?.workers,
+                    false,
+                    schedule.project,
+                    SCHEDULE_SOURCE
+                )
+            } else {
+                await this.pipelineExecutionService.startPipeline(undefined, SCHEDULE_SOURCE)
+            }
+
+            Logger.info(`Schedule ${schedule.name} started ${target}`)
+            await record('started')
+        } catch (error) {
+            const {code, message} = this.parseGuardError(error)
+
+            if (code && SKIP_CODES.includes(code)) {
+                Logger.info(`Schedule ${schedule.name} skipped: ${message}`)
+                await record('skipped', message)
+            } else {
+                Logger.error(`Schedule ${schedule.name} failed to start ${target}`, error)
+                await record('failed', message)
+            }
+        }
+    }
+
+    // Guard errors carry {code, message} as JSON in their message
+    private parseGuardError(error: unknown): {code?: string; message: string} {
+        const text = error instanceof Error ? error.message : 'Unknown error'
+        try {
+            const parsed = JSON.parse(text)
+            return {code: parsed.code, message: parsed.message ?? text}
+        } catch {
+            return {message: text}
+        }
+    }
+
+    private async validate(
+        input: ScheduleInput,
+        existing: ScheduleRecord | null
+    ): Promise<ScheduleData> {
+        const name = typeof input.name === 'string' ? input.name.trim() : ''
+        if (!name) {
+            throw new Error(`${INVALID_SCHEDULE}: name is required`)
+        }
+        if (name.length > MAX_NAME_LENGTH) {
+            throw new Error(`${INVALID_SCHEDULE}: name exceeds ${MAX_NAME_LENGTH} characters`)
+        }
+
+        const cron = typeof input.cron === 'string' ? input.cron.trim() : ''
+        try {
+            CronExpression.parse(cron)
+        } catch (error) {
+            throw new Error(`${INVALID_SCHEDULE}: ${(error as Error).message}`)
+        }
+
+        const project = typeof input.project === 'string' ? input.project.trim() : ''
+        if (project) {
+            const tabs = await this.settingsService.getProjectTabConfigs()
+            if (!tabs.some((tab) => tab.project === project)) {
+                throw new Error(`${INVALID_SCHEDULE}: unknown project tab ${project}`)
+            }
+        }
+
+        return {
+            name,
+            cron,
+            project: project || null,
+            enabled: input.enabled ?? existing?.enabled ?? true,
+        }
+    }
+
+    private withNextRun(schedule: ScheduleRecord): Schedule {
+        let nextRunAt: string | null = null
+        if (schedule.enabled) {
+            try {
+                nextRunAt =
+                    CronExpression.parse(schedule.cron).next(new Date())?.toISOString() ?? null
+            } catch {
+                nextRunAt = null
+            }
+        }
+        return {...schedule, nextRunAt}
+    }
+}
@@ -3,15 +3,22 @@ import {
     DiskThresholds,
     ProjectTabConfig,
     CIAutoRunPause,
+    PipelineRunCondition,
 } from '../repositories/settings.repository'
 import {PlaywrightService} from './playwright.service'
+import {findPipelineCycle} from '../utils/pipelineGraph.util'
 import {Logger} from '../utils/logger.util'
 
 export interface TestExecutionSettings {
     project: string
 }
 
-export type {DiskThresholds, ProjectTabConfig, CIAutoRunPause}
+export type {DiskThresholds, ProjectTabConfig, CIAutoRunPause, PipelineRunCondition}
+
+export const PIPELINE_RUN_CONDITIONS: PipelineRunCondition[] = ['previous_passed', 'always']
+
+// Prefix of pipeline configuration errors, mapped to 400 by the controller
+export const INVALID_PIPELINE_CONFIG = 'Invalid pipeline configuration'
 
 export class SettingsService {
     constructor(
@@ -66,21 +73,69 @@ export class SettingsService {
         return this.settingsRepository.getProjectTabConfigs()
     }
 
+    /**
+     * Saves the tab configs. Pipeline stage, dependencies and run condition are
+     * kept only for tabs in the pipeline, and dependencies only on other tabs
+     * in it. Throws an INVALID_PIPELINE_CONFIG error when pipeline steps wait
+     * for each other in a cycle.
+     */
     async setProjectTabConfigs(configs: ProjectTabConfig[]): Promise<ProjectTabConfig[]> {
+        const pipelineProjects = new Set(
+            configs.filter((c) => c.inPipeline).map((c) => String(c.project || '').trim())
+        )
         const validated = configs.map((c) => {
+            const project = String(c.project || '').trim()
+            const inPipeline = Boolean(c.inPipeline)
             const workers = Number(c.workers)
+            const pipelineStage = Number(c.pipelineStage)
+            const webhookIds = Array.isArray(c.webhookIds)
+                ? [...new Set(c.webhookIds.filter((id) => typeof id === 'string' && id))]
+                : []
+            const dependsOn =
+                inPipeline && Array.isArray(c.dependsOn)
+                    ? [
+                          ...new Set(
+                              c.dependsOn.filter(
+                                  (dependency) =>
+                                      dependency !== project && pipelineProjects.has(dependency)
+                              )
+                          ),
+                      ]
+                    : []
             return {
-                project: String(c.project || '').trim(),
+                project,
                 displayName: String(c.displayName || c.project || '').trim(),
                 visible: Boolean(c.visible),
-                inPipeline: Boolean(c.inPipeline),
+                inPipeline,
                 stopPipelineOnFailure: Boolean(c.stopPipelineOnFailure),
                 workers:
                     Number.isInteger(workers) && workers >= 1 && workers <= 16
                         ? workers
                         : undefined,
+                pipelineStage:
+                    inPipeline && Number.isInteger(pipelineStage) && pipelineStage >= 1
+                        ? pipelineStage
+                        : undefined,
+                dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+                runCondition:
+                    inPipeline && c.runCondition && PIPELINE_RUN_CONDITIONS.includes(c.runCondition)
+                        ? c.runCondition
+                        : undefined,
+                webhookIds: webhookIds.length > 0 ? webhookIds : undefined,
             }
         })
+
+        const cycle = findPipelineCycle(
+            validated
+                .filter((c) => c.inPipeline)
+                .map((c) => ({project: c.project, stage: c.pipelineStage, dependsOn: c.dependsOn}))
+        )
+        if (cycle) {
+            throw new Error(
+                `${INVALID_PIPELINE_CONFIG}: steps wait for each other (${cycle.join(' → ')})`
+            )
+        }
+
         await this.settingsRepository.setProjectTabConfigs(validated)
         Logger.info(`Project tab configs updated: ${validated.length} entries`)
         return validated
@@ -127,7 +182,8 @@ export class SettingsService {
 
     /**
      * Ordered list of tabs configured to run in the CI pipeline, in the same
-     * order as they appear in project_tab_configs (pipeline order = tab order).
+     * order as they appear in project_tab_configs. The order is the default
+     * stage of each step (see getPipelineStage).
      */
     async getPipelineSteps(): Promise<ProjectTabConfig[]> {
         const tabs = await this.getProjectTabConfigs()
@@ -157,6 +213,20 @@ export class SettingsService {
         return pause
     }
 
+    /**
+     * Whether Run All leaves quarantined tests out of the Playwright run entirely
+     * (via --grep-invert) instead of running them and ignoring their failures.
+     */
+    async getSkipQuarantinedTests(): Promise<boolean> {
+        return this.settingsRepository.getSkipQuarantinedTests()
+    }
+
+    async setSkipQuarantinedTests(enabled: boolean): Promise<{enabled: boolean}> {
+        await this.settingsRepository.setSkipQuarantinedTests(enabled)
+        Logger.info(`Skipping quarantined tests at run time ${enabled ? 'enabled' : 'disabled'}`)
+        return {enabled}
+    }
+
     async setGlobalPlaywrightProject(project: string): Promise<TestExecutionSettings> {
         const normalizedProject = project.trim()
 
@@ -5,8 +5,13 @@ import {
     TestFilters,
     DatabaseStats,
     TestStatusCounts,
+    BatchSaveItemResult,
+    TestRunProcess,
+    TestSelection,
 } from '../types/service.types'
+import {TestRunMetadata} from '@yshvydak/core'
 import {TestResultData} from '../types/database.types'
+import {PlaywrightTestFilter} from '../types/playwright.types'
 import {TestRepository} from '../repositories/test.repository'
 import {RunRepository} from '../repositories/run.repository'
 import {AttachmentCleanupRepository} from '../repositories/attachmentCleanup.repository'
@@ -15,9 +20,19 @@ import {WebSocketService} from './websocket.service'
 import {AttachmentService} from './attachment.service'
 import {NoteService} from './note.service'
 import {SettingsService} from './settings.service'
+import {QuarantineService} from './quarantine.service'
+import {RunLogService} from './runLog.service'
 import {Logger} from '../utils/logger.util'
 import {FileUtil} from '../utils/file.util'
+import {ErrorSignature} from '../utils/errorSignature.util'
 import {activeProcessesTracker} from './activeProcesses.service'
+import {PLAYWRIGHT_CONSTANTS} from '../config/constants'
+
+// Prefix of the error thrown when "Rerun failed" finds nothing to run (400 in the controllers)
+export const NO_FAILED_TESTS = 'No failed tests to rerun'
+
+// Prefix of validation errors of a test selection, mapped to 400 by the controller
+export const INVALID_TEST_SELECTION = 'Invalid test selection'
 
 export class TestService implements ITestService {
     constructor(
@@ -28,7 +43,9 @@ export class TestService implements ITestService {
         private attachmentService: AttachmentService,
         private noteService: NoteService,
         private settingsService: SettingsService,
-        private attachmentCleanupRepository: AttachmentCleanupRepository
+        private attachmentCleanupRepository: AttachmentCleanupRepository,
+        private quarantineService: QuarantineService,
+        private runLogService: RunLogService
     ) {}
 
     private async getExecutionProject(): Promise<string | undefined> {
@@ -55,6 +72,13 @@ export class TestService implements ITestService {
             // Discover tests using Playwright
             const discoveredTests = await this.playwrightService.discoverTests(project)
 
+            // History recorded before describe paths were part of the test ID
+            try {
+                await this.testRepository.adoptLegacyTestIds(discoveredTests)
+            } catch (error) {
+                Logger.warn('Failed to move legacy test history to discovered tests', error)
+            }
+
             // Save discovered tests to database
             let savedCount = 0
             for (const test of discoveredTests) {
@@ -145,14 +169,17 @@ export class TestService implements ITestService {
     }
 
     async deleteExecution(executionId: string): Promise<{success: boolean}> {
-        // Delete physical attachment files for this execution
-        try {
-            await this.attachmentService.deleteAttachmentsForTestResult(executionId)
-        } catch (error) {
-            Logger.error(`Failed to delete attachments for execution ${executionId}`, error)
+        // Delete physical attachment files for every attempt of this execution
+        const attemptIds = await this.testRepository.getAttemptIds(executionId)
+        for (const attemptId of attemptIds) {
+            try {
+                await this.attachmentService.deleteAttachmentsForTestResult(attemptId)
+            } catch (error) {
+                Logger.error(`Failed to delete attachments for execution ${attemptId}`, error)
+            }
         }
 
-        // Delete the test_results record (CASCADE will delete attachment records)
+        // Delete the test_results records (CASCADE will delete attachment records)
         const deletedCount = await this.testRepository.deleteByExecutionId(executionId)
 
         if (deletedCount === 0) {
@@ -203,6 +230,8 @@ export class TestService implements ITestService {
 
         // Clear physical attachment files
         await this.attachmentService.clearAllAttachments()
+
+        await this.runLogService.clearAll()
     }
 
     async cleanupData(options: {
@@ -312,24 +341,8 @@ export class TestService implements ITestService {
     }
 
     async saveTestResult(testData: TestResultData): Promise<string> {
-        // If reporter didn't send project, fall back to the run's metadata.project
-        if (!(testData as any).project && testData.runId) {
-            const run = await this.runRepository.getTestRun(testData.runId)
-            if (run?.metadata?.project) {
-                ;(testData as any).project = run.metadata.project
-            }
-        }
-
-        // Second fallback: look up project from the most recent result for the same file path.
-        // Covers script-triggered runs where no project is passed and run metadata is empty.
-        if (!(testData as any).project && testData.filePath) {
-            const projectFromFile = await this.testRepository.getProjectByFilePath(
-                testData.filePath
-            )
-            if (projectFromFile) {
-                ;(testData as any).project = projectFromFile
-            }
-        }
+        await this.applyProjectFallback(testData)
+        this.applyErrorSignature(testData)
 
         const resultId = await this.testRepository.saveTestResult(testData)
 
@@ -344,12 +357,95 @@ export class TestService implements ITestService {
         return resultId
     }
 
-    async getTestStats(): Promise<DatabaseStats> {
-        return this.testRepository.getTestStats()
+    async saveTestResultsBatch(results: TestResultData[]): Promise<BatchSaveItemResult[]> {
+        // Resolve project fallbacks before the transaction, caching lookups so a
+        // batch from one run costs one query per run/file instead of one per result.
+        const runProjects = new Map<string, string | undefined>()
+        const fileProjects = new Map<string, string>()
+        for (const testData of results) {
+            await this.applyProjectFallback(testData, runProjects, fileProjects)
+            this.applyErrorSignature(testData)
+        }
+
+        const outcomes = await this.testRepository.saveTestResults(results)
+
+        const items: BatchSaveItemResult[] = []
+        for (const [index, outcome] of outcomes.entries()) {
+            const testData = results[index]
+
+            if (outcome.error) {
+                Logger.warn(`Batch item ${outcome.id} was not saved: ${outcome.error}`)
+                items.push({
+                    id: outcome.id,
+                    testId: testData.testId,
+                    status: 'failed',
+                    error: outcome.error,
+                })
+                continue
+            }
+
+            // Attachments are files on disk, so they are copied after the rows are committed.
+            // A failed copy is logged but does not undo the saved result.
+            const attachments = (testData as any).attachments
+            if (Array.isArray(attachments) && attachments.length > 0) {
+                try {
+                    await this.attachmentService.saveAttachmentsForTestResult(
+                        outcome.id,
+                        attachments
+                    )
+                } catch (error) {
+                    Logger.error(`Failed to save attachments for batch item ${outcome.id}`, error)
+                }
+            }
+
+            items.push({id: outcome.id, testId: testData.testId, status: 'saved'})
+        }
+
+        return items
     }
 
-    async getFlakyTests(days: number = 30, thresholdPercent: number = 10): Promise<any[]> {
-        return this.testRepository.getFlakyTests(days, thresholdPercent)
+    // Failures are grouped by this signature (GET /api/tests/failure-groups)
+    private applyErrorSignature(testData: TestResultData): void {
+        testData.errorSignature =
+            testData.status === 'failed' || testData.status === 'timedOut'
+                ? ErrorSignature.fromError(testData.errorMessage, testData.errorStack) || undefined
+                : undefined
+    }
+
+    private async applyProjectFallback(
+        testData: TestResultData,
+        runProjects?: Map<string, string | undefined>,
+        fileProjects?: Map<string, string>
+    ): Promise<void> {
+        // If reporter didn't send project, fall back to the run's metadata.project
+        if (!(testData as any).project && testData.runId) {
+            let runProject = runProjects?.get(testData.runId)
+            if (!runProjects?.has(testData.runId)) {
+                const run = await this.runRepository.getTestRun(testData.runId)
+                runProject = run?.metadata?.project
+                runProjects?.set(testData.runId, runProject)
+            }
+            if (runProject) {
+                ;(testData as any).project = runProject
+            }
+        }
+
+        // Second fallback: look up project from the most recent result for the same file path.
+        // Covers script-triggered runs where no project is passed and run metadata is empty.
+        if (!(testData as any).project && testData.filePath) {
+            let projectFromFile = fileProjects?.get(testData.filePath)
+            if (projectFromFile === undefined) {
+                projectFromFile = await this.testRepository.getProjectByFilePath(testData.filePath)
+                fileProjects?.set(testData.filePath, projectFromFile)
+            }
+            if (projectFromFile) {
+                ;(testData as any).project = projectFromFile
+            }
+        }
+    }
+
+    async getTestStats(): Promise<DatabaseStats> {
+        return this.testRepository.getTestStats()
     }
 
     async getTestTimeline(days: number = 30): Promise<any[]> {
@@ -361,7 +457,7 @@ export class TestService implements ITestService {
     }
 
     async getProjectStatusSummary(): Promise<
-        {project: string; total: number; passed: number; failed: number}[]
+        {project: string; total: number; passed: number; failed: number; quarantined: number}[]
     > {
         return this.testRepository.getProjectStatusSummary()
     }
@@ -374,10 +470,11 @@ export class TestService implements ITestService {
         maxWorkers?: number,
         skipAutoDiscovery?: boolean,
         requestedProject?: string,
-        source?: string
+        source?: string,
+        pipelineRunId?: string
     ): Promise<any> {
-        // Block CI script triggers when paused
-        if (source === 'script') {
+        // Block CI script and scheduled triggers when paused
+        if (source === 'script' || source === 'schedule') {
             const pause = await this.settingsService.getCIAutoRunPause()
             if (pause.paused) {
                 if (pause.resumeAt && new Date(pause.resumeAt) <= new Date()) {
@@ -395,8 +492,9 @@ export class TestService implements ITestService {
             }
         }
 
-        // Check if tests are already running
-        if (activeProcessesTracker.isRunAllActive()) {
+        // Check if tests are already running. The steps of a pipeline stage run side
+        // by side; the pipeline made this check once before it started.
+        if (!pipelineRunId && activeProcessesTracker.isRunAllActive()) {
             const activeRuns = activeProcessesTracker.getActiveProcesses()
             const currentRun = activeRuns.find((r) => r.type === 'run-all')
 
@@ -430,7 +528,18 @@ export class TestService implements ITestService {
             await this.discoverTests(project)
         }
 
-        const result = await this.playwrightService.runAllTests(maxWorkers, project)
+        const skippedTestNames = (await this.settingsService.getSkipQuarantinedTests())
+            ? await this.quarantineService.getQuarantinedTitles(project)
+            : []
+
+        const result = await this.playwrightService.runAllTests(
+            maxWorkers,
+            project,
+            skippedTestNames,
+            pipelineRunId && project
+                ? `${PLAYWRIGHT_CONSTANTS.PIPELINE_OUTPUT_DIR}/${project}`
+                : undefined
+        )
 
         // Add process to tracker
         activeProcessesTracker.addProcess({
@@ -438,6 +547,7 @@ export class TestService implements ITestService {
             type: 'run-all',
             totalTests: undefined, // Will be determined during execution
             project,
+            pid: result.process?.pid,
         })
 
         // Create test run record
@@ -451,8 +561,9 @@ export class TestService implements ITestService {
             duration: 0,
             metadata: {
                 type: 'run-all',
-                triggeredFrom: 'dashboard',
+                triggeredFrom: source === 'script' || source === 'schedule' ? source : 'dashboard',
                 project,
+                pipelineRunId,
             },
         })
 
@@ -461,6 +572,7 @@ export class TestService implements ITestService {
 
         // Handle process completion
         if (result.process) {
+            this.runLogService.capture(result.runId, result.process)
             result.process.on('close', (code) => {
                 Logger.info(`All tests completed with code: ${code}`)
 
@@ -493,6 +605,7 @@ export class TestService implements ITestService {
             type: 'run-group',
             filePath: filePath,
             project,
+            pid: result.process?.pid,
         })
 
         // Create test run record
@@ -518,6 +631,7 @@ export class TestService implements ITestService {
 
         // Handle process completion
         if (result.process) {
+            this.runLogService.capture(result.runId, result.process)
             result.process.on('close', (code) => {
                 Logger.info(`Group tests completed with code: ${code}`)
 
@@ -539,6 +653,203 @@ export class TestService implements ITestService {
         return result
     }
 
+    /**
+     * Runs the failed tests of a run, or the tests of a project whose latest result
+     * failed, again in a single Playwright process tracked as one 'rerun-failed' run.
+     */
+    async rerunFailedTests(
+        scope: {runId: string} | {project?: string},
+        maxWorkers?: number
+    ): Promise<any> {
+        const failedTests = await this.testRepository.getFailedTests(scope)
+        if (failedTests.length === 0) {
+            throw new Error(NO_FAILED_TESTS)
+        }
+
+        const project =
+            ('project' in scope && scope.project) || (await this.getProjectOfTests(failedTests))
+
+        const result = await this.playwrightService.runFailedTests(
+            this.toTestFilters(failedTests, project),
+            maxWorkers,
+            project
+        )
+
+        await this.trackRun(result, project, {
+            type: 'rerun-failed',
+            triggeredFrom: 'dashboard',
+            filteredTests: failedTests.length,
+            rerunOfRunId: 'runId' in scope ? scope.runId : undefined,
+            project,
+        })
+
+        return {
+            ...result,
+            failedTests: failedTests.length,
+            files: new Set(failedTests.map((test) => test.filePath)).size,
+        }
+    }
+
+    /**
+     * Runs a selection of tests in a single Playwright process tracked as one
+     * 'run-selection' run: tests picked by ID across files, the tests carrying
+     * some tags or the tests matching a grep, optionally without the tests
+     * matching a grep-invert.
+     */
+    async runTestSelection(selection: TestSelection, maxWorkers?: number): Promise<any> {
+        const {testIds, grep, grepInvert, tags} = this.validateSelection(selection)
+
+        let selectedTests: TestResult[] = []
+        if (testIds) {
+            selectedTests = await this.testRepository.getLatestTestsByIds(testIds)
+            if (selectedTests.length === 0) {
+                throw new Error(`${INVALID_TEST_SELECTION}: none of the tests were found`)
+            }
+        }
+
+        const project =
+            (typeof selection.project === 'string' && selection.project !== ''
+                ? selection.project
+                : undefined) ||
+            (testIds
+                ? await this.getProjectOfTests(selectedTests)
+                : await this.getExecutionProject())
+
+        const result = await this.playwrightService.runTestSelection(
+            {
+                tests: testIds ? this.toTestFilters(selectedTests, project) : undefined,
+                tags,
+                grep,
+                grepInvert,
+            },
+            maxWorkers,
+            project
+        )
+
+        await this.trackRun(result, project, {
+            type: 'run-selection',
+            triggeredFrom: 'dashboard',
+            filteredTests: testIds ? selectedTests.length : undefined,
+            tags,
+            grep,
+            grepInvert,
+            project,
+        })
+
+        return {
+            ...result,
+            selectedTests: testIds ? selectedTests.length : undefined,
+        }
+    }
+
+    private validateSelection(selection: TestSelection): TestSelection {
+        const isStringList = (value: unknown): value is string[] =>
+            Array.isArray(value) && value.every((item) => typeof item === 'string' && item !== '')
+        const isRegExp = (value: unknown): value is string => {
+            if (typeof value !== 'string' || value === '') return false
+            try {
+                new RegExp(value)
+                return true
+            } catch {
+                return false
+            }
+        }
+
+        const {testIds, grep, grepInvert, tags} = selection ?? {}
+        const given = [testIds, grep, tags].filter(
+            (value) => value !== undefined && value !== null && value !== ''
+        )
+        if (given.length !== 1) {
+            throw new Error(`${INVALID_TEST_SELECTION}: pass one of testIds, grep or tags`)
+        }
+        if (testIds !== undefined && (!isStringList(testIds) || testIds.length === 0)) {
+            throw new Error(`${INVALID_TEST_SELECTION}: testIds must be a list of test IDs`)
+        }
+        if (tags !== undefined && (!isStringList(tags) || tags.length === 0)) {
+            throw new Error(`${INVALID_TEST_SELECTION}: tags must be a list of tags`)
+        }
+        if (grep !== undefined && !isRegExp(grep)) {
+            throw new Error(`${INVALID_TEST_SELECTION}: grep must be a regular expression`)
+        }
+        if (grepInvert !== undefined && grepInvert !== '' && !isRegExp(grepInvert)) {
+            throw new Error(`${INVALID_TEST_SELECTION}: grepInvert must be a regular expression`)
+        }
+
+        return {
+            testIds: testIds ? [...new Set(testIds)] : undefined,
+            grep,
+            grepInvert: grepInvert || undefined,
+            // Playwright tags start with '@'
+            tags: tags?.map((tag) => (tag.startsWith('@') ? tag : `@${tag}`)),
+        }
+    }
+
+    // The project the run is in, when it has one, is the project the tests are matched in
+    private toTestFilters(tests: TestResult[], project?: string): PlaywrightTestFilter[] {
+        return tests.map((test) => ({
+            filePath: test.filePath,
+            name: test.name,
+            titlePath: test.metadata?.titlePath,
+            project: project || test.project || undefined,
+        }))
+    }
+
+    // Project the tests ran in. Without one project, each test runs in its own.
+    private async getProjectOfTests(tests: TestResult[]): Promise<string | undefined> {
+        const projects = new Set(tests.map((test) => test.project).filter(Boolean))
+        if (projects.size === 0) return this.getExecutionProject()
+        return projects.size === 1 ? [...projects][0] : undefined
+    }
+
+    /**
+     * Tracks a process started by "Rerun failed" or a selection run as one active
+     * process and run, until it closes.
+     */
+    private async trackRun(
+        result: TestRunProcess,
+        project: string | undefined,
+        metadata: TestRunMetadata & {type: 'rerun-failed' | 'run-selection'}
+    ): Promise<void> {
+        // Add process to tracker
+        activeProcessesTracker.addProcess({
+            runId: result.runId,
+            type: metadata.type,
+            project,
+            pid: result.process?.pid,
+        })
+
+        // Create test run record
+        await this.runRepository.createTestRun({
+            id: result.runId,
+            status: 'running',
+            totalTests: 0,
+            passedTests: 0,
+            failedTests: 0,
+            skippedTests: 0,
+            duration: 0,
+            metadata,
+        })
+
+        // Broadcast run start
+        this.websocketService.broadcastRunStarted(result.runId, metadata.type)
+
+        // Handle process completion
+        if (result.process) {
+            this.runLogService.capture(result.runId, result.process)
+            result.process.on('close', (code) => {
+                Logger.info(`Run ${result.runId} (${metadata.type}) completed with code: ${code}`)
+
+                // Remove process from tracker only if it still exists
+                // (it may have already been removed by process-end notification from reporter)
+                if (activeProcessesTracker.isProcessRunning(result.runId)) {
+                    activeProcessesTracker.removeProcess(result.runId)
+                }
+
+                this.websocketService.broadcastRunCompleted(result.runId, code ?? 1, metadata.type)
+            })
+        }
+    }
+
     async rerunTest(testId: string, maxWorkers?: number, _project?: string): Promise<any> {
         // Get the test to rerun
         const test = await this.testRepository.getTestResult(testId)
@@ -562,6 +873,7 @@ export class TestService implements ITestService {
             originalTestId: testId,
             filePath: test.filePath,
             project,
+            pid: result.process?.pid,
         })
 
         // Create a new run for this rerun
@@ -584,16 +896,7 @@ export class TestService implements ITestService {
 
         // Handle process completion
         if (result.process) {
-            let _stdout = ''
-            let _stderr = ''
-
-            result.process.stdout?.on('data', (data) => {
-                _stdout += data.toString()
-            })
-
-            result.process.stderr?.on('data', (data) => {
-                _stderr += data.toString()
-            })
+            this.runLogService.capture(result.runId, result.process)
 
             result.process.on('close', async (code) => {
                 try {
@@ -640,6 +943,45 @@ export class TestService implements ITestService {
         }
     }
 
+    /**
+     * Cancels a running test process and marks its run interrupted. Returns
+     * false when the run isn't running. A run tracked without a process of ours
+     * (e.g. started by a CI script) is only cleared from the tracker.
+     */
+    async cancelRun(runId: string): Promise<boolean> {
+        const tracked = activeProcessesTracker.getActiveProcesses().find((p) => p.id === runId)
+        const hasProcess = this.playwrightService.hasProcess(runId)
+        if (!tracked && !hasProcess) return false
+
+        Logger.info(`Cancelling run ${runId}`)
+
+        // The close handler of the run broadcasts run:completed and untracks it
+        if (hasProcess) {
+            await this.playwrightService.terminateProcess(runId)
+        }
+
+        // Set after the process closed, as the reporter may report it failed while shutting down
+        await this.runRepository.updateTestRun(runId, {status: 'interrupted'})
+
+        if (activeProcessesTracker.isProcessRunning(runId)) {
+            activeProcessesTracker.removeProcess(runId)
+        }
+        if (!hasProcess) {
+            this.websocketService.broadcastRunCompleted(
+                runId,
+                1,
+                tracked?.type,
+                tracked?.details.filePath
+            )
+        }
+        this.websocketService.broadcast({
+            type: 'process:ended',
+            data: {runId, status: 'interrupted'},
+        })
+
+        return true
+    }
+
     async getDiagnostics(): Promise<{
         playwright: {
             version: string
@@ -0,0 +1,491 @@
+import {createHmac} from 'crypto'
+import {v4 as uuidv4} from 'uuid'
+import {
+    ProcessEndData,
+    RunComparisonEntry,
+    Webhook,
+    WebhookDelivery,
+    WebhookEvent,
+    WebhookFormat,
+    WebhookInput,
+} from '@yshvydak/core'
+import {WebhookData, WebhookRepository, WebhookWithSecret} from '../repositories/webhook.repository'
+import {RunRepository} from '../repositories/run.repository'
+import {SettingsRepository} from '../repositories/settings.repository'
+import {TestRepository} from '../repositories/test.repository'
+import {RunComparisonService} from './runComparison.service'
+import {TestResult} from '../types/service.types'
+import {config} from '../config/environment.config'
+import {ChatMessage} from '../utils/chatMessage.util'
+import {Logger} from '../utils/logger.util'
+
+// Events a webhook can subscribe to; 'webhook:test' is only sent on request
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+    'process:ended',
+    'pipeline:completed',
+    'test:new-failures',
+    'test:flaky',
+]
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['json', 'slack', 'teams']
+
+// Prefix of validation errors, mapped to 400 by the controller
+export const INVALID_WEBHOOK = 'Invalid webhook'
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature'
+
+// Wait before each retry; a delivery is attempted once more than there are delays
+export const DEFAULT_RETRY_DELAYS_MS = [1000, 5000, 25000]
+
+export const DEFAULT_DELIVERIES_LIMIT = 20
+
+const REQUEST_TIMEOUT_MS = 10000
+const MAX_NAME_LENGTH = 100
+const MAX_SECRET_LENGTH = 200
+const MAX_TEMPLATE_LENGTH = 10000
+
+export interface WebhookPayload {
+    event: WebhookEvent
+    deliveryId: string
+    timestamp: string
+    data: any
+}
+
+/**
+ * Renders a JSON body template. `{{path}}` is replaced by the value at that
+ * dotted path of the payload: strings are JSON-escaped without their quotes (so
+ * the placeholder belongs inside a string literal), anything else is inserted
+ * as JSON and missing values as null.
+ */
+export function renderTemplate(template: string, payload: WebhookPayload): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+        const value = path
+            .split('.')
+            .reduce<any>((current, key) => (current == null ? undefined : current[key]), payload)
+
+        if (typeof value === 'string') {
+            return JSON.stringify(value).slice(1, -1)
+        }
+        return JSON.stringify(value ?? null)
+    })
+}
+
+export function signPayload(body: string, secret: string): string {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+type ExecutionDetails = {project?: string; errorMessage?: string}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Network errors, rate limiting and server errors may pass on a later attempt
+const isRetryable = (status?: number) => status === undefined || status === 429 || status >= 500
+
+/**
+ * Outgoing webhooks: signed JSON POSTs on run, pipeline and test events, retried
+ * with backoff and logged per webhook. Dispatching never throws - a failing
+ * endpoint only shows up in its delivery log.
+ *
+ * A webhook picked in the settings of project tabs only hears about those
+ * projects; one not picked by any tab hears about all of them.
+ */
+export class WebhookService {
+    constructor(
+        private webhookRepository: WebhookRepository,
+        private runRepository: RunRepository,
+        private testRepository: TestRepository,
+        private runComparisonService: RunComparisonService,
+        private settingsRepository: SettingsRepository,
+        private retryDelaysMs: number[] = DEFAULT_RETRY_DELAYS_MS
+    ) {}
+
+    async getWebhooks(): Promise<Webhook[]> {
+        const webhooks = await this.webhookRepository.getWebhooks()
+        return webhooks.map((webhook) => this.withoutSecret(webhook))
+    }
+
+    async getWebhook(id: string): Promise<Webhook | null> {
+        const webhook = await this.webhookRepository.getWebhook(id)
+        return webhook ? this.withoutSecret(webhook) : null
+    }
+
+    async createWebhook(input: WebhookInput): Promise<Webhook> {
+        const data = this.validate(input, null)
+        const id = uuidv4()
+
+        await this.webhookRepository.createWebhook(id, data)
+        Logger.info(`Webhook created: ${data.name} (${data.url})`)
+
+        return (await this.getWebhook(id))!
+    }
+
+    async updateWebhook(id: string, input: WebhookInput): Promise<Webhook | null> {
+        const existing = await this.webhookRepository.getWebhook(id)
+        if (!existing) return null
+
+        await this.webhookRepository.updateWebhook(id, this.validate(input, existing))
+        return this.getWebhook(id)
+    }
+
+    async deleteWebhook(id: string): Promise<boolean> {
+        const existing = await this.webhookRepository.getWebhook(id)
+        if (!existing) return false
+
+        await this.webhookRepository.deleteWebhook(id)
+        Logger.info(`Webhook deleted: ${existing.name}`)
+        return true
+    }
+
+    async getDeliveries(
+        webhookId: string,
+        limit: number = DEFAULT_DELIVERIES_LIMIT
+    ): Promise<WebhookDelivery[]> {
+        return this.webhookRepository.getDeliveries(webhookId, limit)
+    }
+
+    /**
+     * Sends a 'webhook:test' event once (no retries) and returns the logged
+     * delivery, so the result can be shown right away. Sent even when the
+     * webhook is disabled.
+     */
+    async sendTestEvent(id: string): Promise<WebhookDelivery | null> {
+        const webhook = await this.webhookRepository.getWebhook(id)
+        if (!webhook) return null
+
+        return this.deliver(
+            webhook,
+            'webhook:test',
+            {webhookId: webhook.id, name: webhook.name, message: 'Test event from the dashboard'},
+            false
+        )
+    }
+
+    /**
+     * Delivers `event` to every enabled webhook subscribed to it, scoped to the
+     * projects routed to the webhook. Resolves once all deliveries (including
+     * retries) are done; callers don't wait for it.
+     */
+    async dispatch(event: WebhookEvent, data: any): Promise<void> {
+        try {
+            const [webhooks, routes] = await Promise.all([
+                this.getSubscribers(event),
+                this.getProjectRoutes(),
+            ])
+            await Promise.all(
+                webhooks.map((webhook) => {
+                    const scoped = this.scopeToProjects(event, data, routes.get(webhook.id))
+                    return scoped ? this.deliver(webhook, event, scoped, true) : undefined
+                })
+            )
+        } catch (error) {
+            Logger.error(`Failed to dispatch webhook event ${event}`, error)
+        }
+    }
+
+    /**
+     * Fires the events of a finished test process: 'process:ended' with the run
+     * totals, 'test:new-failures' for tests that failed after passing in the
+     * previous run of the project and 'test:flaky' for tests that passed on a retry.
+     */
+    async notifyProcessEnded(processData: ProcessEndData): Promise<void> {
+        try {
+            const subscribed = new Set(
+                (await this.webhookRepository.getWebhooks())
+                    .filter((webhook) => webhook.enabled)
+                    .flatMap((webhook) => webhook.events)
+            )
+            if (subscribed.size === 0) return
+
+            const run = await this.runRepository.getTestRun(processData.runId)
+            const runData = {
+                runId: processData.runId,
+                status: processData.status,
+                project: run?.metadata?.project,
+                totalTests: run?.totalTests ?? 0,
+                passedTests: run?.passedTests ?? 0,
+                failedTests: run?.failedTests ?? 0,
+                skippedTests: run?.skippedTests ?? 0,
+                duration: run?.duration ?? 0,
+            }
+
+            const deliveries: Promise<void>[] = []
+
+            if (subscribed.has('process:ended')) {
+                deliveries.push(this.dispatch('process:ended', runData))
+            }
+
+            if (run && subscribed.has('test:new-failures')) {
+                const previous = await this.runRepository.getPreviousRun(run)
+                if (previous) {
+                    const comparison = await this.runComparisonService.compareRuns(previous, run)
+                    if (comparison.newlyFailing.length > 0) {
+                        deliveries.push(
+                            this.dispatch('test:new-failures', {
+                                ...runData,
+                                baseRunId: previous.id,
+                                tests: comparison.newlyFailing.map((entry) =>
+                                    this.toEventTest(entry, entry.head)
+                                ),
+                            })
+                        )
+                    }
+                }
+            }
+
+            if (run && subscribed.has('test:flaky')) {
+                const results = await this.testRepository.getTestResultsByRun(run.id)
+                const flaky = results.filter((result) => result.status === 'flaky')
+                if (flaky.length > 0) {
+                    deliveries.push(
+                        this.dispatch('test:flaky', {
+                            ...runData,
+                            tests: flaky.map((result) => this.toEventTest(result, result)),
+                        })
+                    )
+                }
+            }
+
+            await Promise.all(deliveries)
+        } catch (error) {
+            Logger.error(`Failed to notify webhooks of process ${processData.runId}`, error)
+        }
+    }
+
+    private async getSubscribers(event: WebhookEvent): Promise<WebhookWithSecret[]> {
+        const webhooks = await this.webhookRepository.getWebhooks()
+        return webhooks.filter((webhook) => webhook.enabled && webhook.events.includes(event))
+    }
+
+    // Projects of the tabs routing to each webhook, keyed by webhook id
+    private async getProjectRoutes(): Promise<Map<string, Set<string>>> {
+        const routes = new Map<string, Set<string>>()
+        for (const tab of await this.settingsRepository.getProjectTabConfigs()) {
+            for (const webhookId of tab.webhookIds ?? []) {
+                if (!routes.has(webhookId)) routes.set(webhookId, new Set())
+                routes.get(webhookId)!.add(tab.project)
+            }
+        }
+        return routes
+    }
+
+    /**
+     * Part of the event data that concerns `projects` (everything when the
+     * webhook isn't routed), or null when nothing does.
+     */
+    private scopeToProjects(event: WebhookEvent, data: any, projects?: Set<string>): any {
+        if (!projects) return data
+
+        switch (event) {
+            case 'pipeline:completed': {
+                const steps = data.steps.filter((step: {project: string}) =>
+                    projects.has(step.project)
+                )
+                return steps.length > 0 ? {...data, steps} : null
+            }
+            case 'test:new-failures':
+            case 'test:flaky': {
+                const tests = data.tests.filter((test: {project?: string}) =>
+                    projects.has(test.project || data.project)
+                )
+                return tests.length > 0 ? {...data, tests} : null
+            }
+            case 'process:ended':
+                return projects.has(data.project) ? data : null
+            default:
+                return data
+        }
+    }
+
+    private async deliver(
+        webhook: WebhookWithSecret,
+        event: WebhookEvent,
+        data: any,
+        retry: boolean
+    ): Promise<WebhookDelivery> {
+        const payload: WebhookPayload = {
+            event,
+            deliveryId: uuidv4(),
+            timestamp: new Date().toISOString(),
+            data,
+        }
+        const message = ChatMessage.format(webhook.format, event, data, config.api.webUrl)
+        let body = JSON.stringify(payload)
+        if (message) {
+            body = JSON.stringify(message)
+        } else if (webhook.template) {
+            body = renderTemplate(webhook.template, payload)
+        }
+
+        const delivery: WebhookDelivery = {
+            id: payload.deliveryId,
+            webhookId: webhook.id,
+            event,
+            status: 'pending',
+            attempts: 0,
+            payload: body,
+            createdAt: payload.timestamp,
+        }
+        await this.webhookRepository.createDelivery(delivery)
+
+        const maxAttempts = retry ? this.retryDelaysMs.length + 1 : 1
+
+        while (delivery.attempts < maxAttempts) {
+            if (delivery.attempts > 0) {
+                await sleep(this.retryDelaysMs[delivery.attempts - 1])
+            }
+            delivery.attempts++
+
+            const {responseStatus, error} = await this.post(webhook, delivery, body)
+            delivery.responseStatus = responseStatus
+            delivery.error = error
+
+            if (!error) {
+                delivery.status = 'success'
+                break
+            }
+            if (!isRetryable(responseStatus) || delivery.attempts >= maxAttempts) {
+                delivery.status = 'failed'
+                break
+            }
+
+            await this.webhookRepository.updateDelivery(delivery.id, {
+                attempts: delivery.attempts,
+                responseStatus,
+                error,
+            })
+        }
+
+        delivery.completedAt = new Date().toISOString()
+        await this.webhookRepository.updateDelivery(delivery.id, delivery)
+
+        if (delivery.status === 'failed') {
+            Logger.warn(
+                `Webhook ${webhook.name} failed to deliver ${event} after ${delivery.attempts} attempt(s): ${delivery.error}`
+            )
+        }
+
+        return delivery
+    }
+
+    private async post(
+        webhook: WebhookWithSecret,
+        delivery: WebhookDelivery,
+        body: string
+    ): Promise<{responseStatus?: number; error?: string}> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'User-Agent': 'yshvydak-test-dashboard',
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Delivery': delivery.id,
+        }
+        if (webhook.secret) {
+            headers[SIGNATURE_HEADER] = signPayload(body, webhook.secret)
+        }
+
+        try {
+            const response = await fetch(webhook.url, {
+                method: 'POST',
+                headers,
+                body,
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            })
+
+            return response.ok
+                ? {responseStatus: response.status}
+                : {responseStatus: response.status, error: `HTTP ${response.status}`}
+        } catch (error) {
+            return {error: error instanceof Error ? error.message : 'Request failed'}
+        }
+    }
+
+    private validate(input: WebhookInput, existing: WebhookWithSecret | null): WebhookData {
+        const name = typeof input.name === 'string' ? input.name.trim() : ''
+        if (!name) {
+            throw new Error(`${INVALID_WEBHOOK}: name is required`)
+        }
+        if (name.length > MAX_NAME_LENGTH) {
+            throw new Error(`${INVALID_WEBHOOK}: name exceeds ${MAX_NAME_LENGTH} characters`)
+        }
+
+        let url: URL
+        try {
+            url = new URL(input.url)
+        } catch {
+            throw new Error(`${INVALID_WEBHOOK}: url must be a valid http(s) URL`)
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            throw new Error(`${INVALID_WEBHOOK}: url must be a valid http(s) URL`)
+        }
+
+        if (!Array.isArray(input.events) || input.events.length === 0) {
+            throw new Error(`${INVALID_WEBHOOK}: at least one event is required`)
+        }
+        const unknown = input.events.find((event) => !WEBHOOK_EVENTS.includes(event))
+        if (unknown) {
+            throw new Error(`${INVALID_WEBHOOK}: unknown event ${unknown}`)
+        }
+
+        const format = input.format ?? existing?.format ?? 'json'
+        if (!WEBHOOK_FORMATS.includes(format)) {
+            throw new Error(`${INVALID_WEBHOOK}: unknown format ${format}`)
+        }
+
+        const template = input.template?.trim() || null
+        if (template && format !== 'json') {
+            throw new Error(`${INVALID_WEBHOOK}: template is only used with the json format`)
+        }
+        if (template) {
+            if (template.length > MAX_TEMPLATE_LENGTH) {
+                throw new Error(
+                    `${INVALID_WEBHOOK}: template exceeds ${MAX_TEMPLATE_LENGTH} characters`
+                )
+            }
+            try {
+                JSON.parse(
+                    renderTemplate(template, {
+                        event: 'webhook:test',
+                        deliveryId: 'sample',
+                        timestamp: new Date().toISOString(),
+                        data: {},
+                    })
+                )
+            } catch {
+                throw new Error(`${INVALID_WEBHOOK}: template must render valid JSON`)
+            }
+        }
+
+        // Omitted keeps the stored secret, null or '' removes it
+        let secret = existing?.secret ?? null
+        if (input.secret !== undefined) {
+            secret = input.secret || null
+        }
+        if (secret && secret.length > MAX_SECRET_LENGTH) {
+            throw new Error(`${INVALID_WEBHOOK}: secret exceeds ${MAX_SECRET_LENGTH} characters`)
+        }
+
+        return {
+            name,
+            url: url.toString(),
+            events: [...new Set(input.events)],
+            format,
+            template,
+            enabled: input.enabled ?? existing?.enabled ?? true,
+            secret,
+        }
+    }
+
+    private toEventTest(test: RunComparisonEntry | TestResult, execution?: ExecutionDetails) {
+        return {
+            testId: test.testId,
+            name: test.name,
+            filePath: test.filePath,
+            project: execution?.project,
+            errorMessage: execution?.errorMessage,
+        }
+    }
+
+    private withoutSecret(webhook: WebhookWithSecret): Webhook {
+        const {secret: _secret, ...rest} = webhook
+        return rest
+    }
+}
@@ -1,4 +1,6 @@
+import {RunQueueItem} from '@yshvydak/core'
 import {IWebSocketService, WebSocketMessage} from '../types/service.types'
+import type {PipelineRunCondition} from '../repositories/settings.repository'
 import {getWebSocketManager} from '../websocket/server'
 import {Logger} from '../utils/logger.util'
 
@@ -33,6 +35,14 @@ export class WebSocketService implements IWebSocketService {
         })
     }
 
+    // Raw Playwright output of a running run, in batches
+    broadcastRunLog(runId: string, chunk: string): void {
+        this.broadcast({
+            type: 'run:log',
+            data: {runId, chunk},
+        })
+    }
+
     broadcastDiscoveryCompleted(total: number, saved: number, project?: string): void {
         this.broadcast({
             type: 'discovery:completed',
@@ -79,7 +89,7 @@ export class WebSocketService implements IWebSocketService {
 
     broadcastPipelineCompleted(
         pipelineRunId: string,
-        status: 'completed' | 'stopped_early',
+        status: 'completed' | 'stopped_early' | 'cancelled',
         steps: PipelineStepSummary[]
     ): void {
         this.broadcast({
@@ -87,15 +97,32 @@ export class WebSocketService implements IWebSocketService {
             data: {pipelineRunId, status, steps},
         })
     }
+
+    broadcastQueueUpdated(items: RunQueueItem[]): void {
+        this.broadcast({
+            type: 'queue:updated',
+            data: {items},
+        })
+    }
 }
 
 export interface PipelineStepSummary {
     project: string
     displayName: string
     stopOnFailure: boolean
-    status: 'queued' | 'running' | 'success' | 'failed' | 'skipped'
+    // cancelled: the step's run, or an earlier one, was cancelled from the dashboard or
+    // interrupted by a server restart
+    status: 'queued' | 'running' | 'success' | 'failed' | 'skipped' | 'cancelled'
+    // Missing on pipelines run before stages existed (see getPipelineStage)
+    stage?: number
+    dependsOn?: string[]
+    runCondition?: PipelineRunCondition
     workers?: number
     runId?: string
     passed?: number
     failed?: number
+    // Failures of quarantined tests, not included in failed
+    quarantined?: number
+    startedAt?: string
+    finishedAt?: string
 }
@@ -113,14 +113,18 @@ export class NoteImageManager {
 
     // Delete image file
     async deleteImage(testId: string, fileName: string): Promise<boolean> {
-        const filePath = this.getImagePath(testId, fileName)
+        return this.deleteImageFile(this.getImagePath(testId, fileName))
+    }
 
+    // Delete image file by its stored path - images keep the directory they were
+    // uploaded to even when their test ID is re-keyed later
+    async deleteImageFile(filePath: string): Promise<boolean> {
         if (fs.existsSync(filePath)) {
             await fs.promises.unlink(filePath)
             Logger.info(`Deleted note image: ${filePath}`)
 
             // Check if test directory is empty and remove it
-            const testDir = path.join(this.noteImagesDir, testId)
+            const testDir = path.dirname(filePath)
             try {
                 const files = await fs.promises.readdir(testDir)
                 if (files.length === 0) {
@@ -49,7 +49,7 @@ export interface ServiceRequest extends Request {
 
 // Playlist Run Options
 export interface PlaywrightRunOptions {
-    type: 'run-all' | 'run-group' | 'rerun'
+    type: 'run-all' | 'run-group' | 'rerun' | 'rerun-failed' | 'run-selection'
     filePath?: string
     testName?: string
     runId: string
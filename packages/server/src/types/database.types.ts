@@ -1,13 +1,15 @@
 // Database entities (keep compatible with existing schema)
 export interface TestRunData {
     id: string
-    status: 'running' | 'completed' | 'failed'
+    status: 'running' | 'completed' | 'failed' | 'interrupted'
     totalTests: number
     passedTests: number
     failedTests: number
     skippedTests: number
     duration: number
     metadata?: any
+    // Set by the database on insert unless given (imported runs), returned on reads
+    createdAt?: string
 }
 
 export interface TestResultData {
@@ -20,7 +22,11 @@ export interface TestResultData {
     duration: number
     errorMessage?: string
     errorStack?: string
+    // Normalized error that groups failures with the same cause (see ErrorSignature)
+    errorSignature?: string
     retryCount?: number
+    // Id of the first attempt when Playwright retried the test (see TestRepository)
+    executionId?: string
     metadata?: any
     timestamp: string
     createdAt?: string
@@ -53,7 +59,9 @@ export interface TestResultRow {
     duration: number
     error_message?: string
     error_stack?: string
+    error_signature?: string
     retry_count?: number
+    execution_id?: string
     metadata?: string
     created_at: string
     updated_at: string
@@ -69,6 +77,10 @@ export interface TestResultRow {
     note_content?: string
     note_created_at?: string
     note_updated_at?: string
+    // Joined test_quarantine fields (active quarantine only)
+    quarantine_reason?: string
+    quarantine_expires_at?: string
+    quarantine_created_at?: string
     // Joined attachment_cleanups field
     attachments_cleared_at?: string
     project?: string
@@ -5,6 +5,9 @@
 export interface PlaywrightTestEntry {
     projectId?: string
     projectName?: string
+    // Only in JSON reporter output (not in --list)
+    annotations?: Array<{type: string; description?: string}>
+    results?: PlaywrightJsonTestResult[]
 }
 
 export interface PlaywrightSpec {
@@ -12,11 +15,14 @@ export interface PlaywrightSpec {
     title: string
     file: string
     line?: number
+    // JSON reporter strips the leading '@' from tags
+    tags?: string[]
     tests?: PlaywrightTestEntry[]
 }
 
 export interface PlaywrightSuite {
     title?: string
+    file?: string
     specs?: PlaywrightSpec[]
     suites?: PlaywrightSuite[]
 }
@@ -33,13 +39,63 @@ export interface PlaywrightListOutput {
     }
 }
 
+/**
+ * One attempt of a test in the JSON reporter output (`--reporter=json`)
+ */
+export interface PlaywrightJsonTestResult {
+    status: string
+    duration: number
+    retry: number
+    startTime?: string
+    error?: {message?: string; stack?: string}
+    errors?: Array<{message?: string; stack?: string}>
+    stdout?: Array<{text?: string; buffer?: string}>
+    stderr?: Array<{text?: string; buffer?: string}>
+    steps?: PlaywrightJsonStep[]
+    // `path` for files on the machine that ran the tests, `body` (base64) for inline attachments
+    attachments?: Array<{name: string; contentType: string; path?: string; body?: string}>
+}
+
+export interface PlaywrightJsonStep {
+    title: string
+    duration: number
+    error?: {message?: string}
+    steps?: PlaywrightJsonStep[]
+}
+
+export interface PlaywrightJsonReport extends PlaywrightListOutput {
+    stats?: {
+        startTime?: string
+        duration?: number
+    }
+}
+
 export interface PlaywrightSpawnOptions {
     runId: string
-    type: 'run-all' | 'run-group' | 'rerun'
+    type: 'run-all' | 'run-group' | 'rerun' | 'rerun-failed' | 'run-selection'
     filePath?: string
     env?: Record<string, string>
 }
 
+// A test picked to run, found by Playwright from its project, file and titles
+export interface PlaywrightTestFilter {
+    filePath: string
+    name: string
+    // Describe blocks and title, outermost first; unknown for results recorded before it
+    titlePath?: string[]
+    project?: string
+}
+
+// Tests a Playwright process runs, turned into CLI arguments by PlaywrightService
+export interface PlaywrightTestSelection {
+    // The files become file filters and each test an alternative of one --grep
+    tests?: PlaywrightTestFilter[]
+    // Playwright tags, with '@'
+    tags?: string[]
+    grep?: string
+    grepInvert?: string
+}
+
 export interface ValidationIssue {
     type: 'error' | 'warning'
     message: string
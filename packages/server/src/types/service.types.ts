@@ -1,5 +1,7 @@
 import {ChildProcess} from 'child_process'
 import {TestResultData, TestRunData, AttachmentData} from './database.types'
+import {PlaywrightTestFilter, PlaywrightTestSelection} from './playwright.types'
+import {ExecutionOutcome, TestAnnotation, TestQuarantine, TestStep} from '@yshvydak/core'
 
 // Service interfaces
 export interface ITestService {
@@ -14,11 +16,58 @@ export interface ITestService {
     clearProjectData(project: string): Promise<{deletedExecutions: number}>
     cleanupData(options: CleanupOptions): Promise<CleanupResult>
     saveTestResult(testData: TestResultData): Promise<string>
+    saveTestResultsBatch(results: TestResultData[]): Promise<BatchSaveItemResult[]>
     getTestStats(): Promise<DatabaseStats>
     getTraceFileById(attachmentId: string): Promise<{filePath: string; fileName: string} | null>
     getTestStatusCounts(project?: string): Promise<TestStatusCounts>
 }
 
+// Per-item outcome of POST /api/tests/batch. 'invalid' items never reach the database.
+export interface BatchSaveItemResult {
+    id: string
+    testId: string
+    status: 'saved' | 'failed' | 'invalid'
+    error?: string
+}
+
+// A test attempt read from an external report, before it gets a stable test ID
+export interface ImportedTestAttempt {
+    // As written in the report, normalized when the stable test ID is generated
+    filePath: string
+    titlePath: string[]
+    project?: string
+    status: TestResultData['status']
+    duration: number
+    retry: number
+    startTime?: string
+    errorMessage?: string
+    errorStack?: string
+    stdout: string[]
+    stderr: string[]
+    steps?: TestStep[]
+    annotations?: TestAnnotation[]
+    tags?: string[]
+    // Paths as written in the report; resolved against the uploaded attachments zip
+    attachments: Array<{name: string; contentType: string; path?: string; body?: Buffer}>
+}
+
+export interface ParsedReport {
+    format: 'playwright-json' | 'junit'
+    startTime?: string
+    duration?: number
+    attempts: ImportedTestAttempt[]
+}
+
+// Outcome of POST /api/runs/import
+export interface ReportImportResult {
+    runId: string
+    format: ParsedReport['format']
+    totalTests: number
+    saved: number
+    failed: number
+    attachments: number
+}
+
 export interface CleanupOptions {
     type: 'date' | 'count'
     value: string | number
@@ -51,6 +100,16 @@ export interface IPlaywrightService {
         maxWorkers?: number,
         project?: string
     ): Promise<TestRunProcess>
+    runFailedTests(
+        tests: PlaywrightTestFilter[],
+        maxWorkers?: number,
+        project?: string
+    ): Promise<TestRunProcess>
+    runTestSelection(
+        selection: PlaywrightTestSelection,
+        maxWorkers?: number,
+        project?: string
+    ): Promise<TestRunProcess>
 }
 
 export interface IWebSocketService {
@@ -85,7 +144,16 @@ export interface TestRunProcess {
     process?: ChildProcess
 }
 
-export interface TestResult extends TestResultData {
+/**
+ * 'flaky' is derived, never stored: the execution passed on a retry
+ * after at least one failed attempt.
+ */
+export type ExecutionStatus = TestResultData['status'] | 'flaky'
+
+export interface TestResult extends Omit<TestResultData, 'status'> {
+    status: ExecutionStatus
+    // Every attempt of a retried execution, first to last (absent without retries)
+    attempts?: TestResult[]
     attachments?: AttachmentData[]
     note?: {
         testId: string
@@ -93,6 +161,16 @@ export interface TestResult extends TestResultData {
         createdAt: string
         updatedAt: string
     }
+    quarantine?: TestQuarantine
+}
+
+// Body of POST /api/tests/run-selection: one of testIds, grep or tags, optionally with grepInvert
+export interface TestSelection {
+    testIds?: string[]
+    grep?: string
+    grepInvert?: string
+    tags?: string[]
+    project?: string
 }
 
 export interface TestFilters {
@@ -101,6 +179,39 @@ export interface TestFilters {
     limit?: number
     /** When set, keep only latest rows whose project matches (after per-test_id latest pick). */
     project?: string
+    /** Playwright tag (including '@') the latest execution must carry. */
+    tag?: string
+}
+
+// One passed execution, as read for duration analytics
+export interface DurationSample {
+    testId: string
+    name: string
+    filePath: string
+    project: string
+    duration: number
+    createdAt: string
+}
+
+export interface DurationSampleFilters {
+    days: number
+    testId?: string
+    project?: string
+}
+
+// Last attempt of one passed or failed execution, as read for flakiness scoring
+export interface ExecutionOutcomeRow {
+    testId: string
+    name: string
+    filePath: string
+    project: string
+    outcome: ExecutionOutcome
+    createdAt: string
+}
+
+export interface ExecutionOutcomeFilters {
+    days: number
+    project?: string
 }
 
 export interface DatabaseStats {
@@ -133,13 +244,17 @@ export interface WebSocketMessage {
 // Repository interfaces
 export interface ITestRepository {
     saveTestResult(testData: TestResultData): Promise<string>
+    saveTestResults(results: TestResultData[]): Promise<Array<{id: string; error?: string}>>
     getTestResult(id: string): Promise<TestResult | null>
     getTestResultsByRun(runId: string): Promise<TestResult[]>
     getTestResultsByTestId(testId: string, limit?: number, before?: string): Promise<TestResult[]>
     getTestExecutionCount(testId: string): Promise<number>
     getAllTests(filters: TestFilters): Promise<TestResult[]>
+    getAttemptIds(executionId: string): Promise<string[]>
     deleteByTestId(testId: string): Promise<number>
     deleteByExecutionId(executionId: string): Promise<number>
+    // Moves legacy history of discovered tests inside a describe to their IDs
+    adoptLegacyTestIds(tests: DiscoveredTest[]): Promise<number>
     clearAllTests(): Promise<void>
     getTestStats(): Promise<DatabaseStats>
     // Retention / cleanup selection
@@ -155,6 +270,8 @@ export interface ITestRepository {
     getDistinctTestIdsByProject(project: string): Promise<string[]>
     deleteByProject(project: string): Promise<number>
     getTestStatusCounts(project?: string): Promise<TestStatusCounts>
+    getFailedTests(scope: {runId: string} | {project?: string}): Promise<TestResult[]>
+    getLatestTestsByIds(testIds: string[]): Promise<TestResult[]>
 }
 
 export interface TestStatusCounts {
@@ -164,6 +281,8 @@ export interface TestStatusCounts {
     skipped: number
     pending: number
     noted: number
+    // Latest execution failed while the test is quarantined (not counted in failed)
+    quarantined: number
 }
 
 export interface IRunRepository {
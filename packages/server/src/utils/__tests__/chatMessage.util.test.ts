@@ -0,0 +1,187 @@
+/**
+ * ChatMessage Tests
+ *
+ * Pipeline and run events are turned into Slack blocks and Teams adaptive cards
+ * that link back to the tests and runs they are about.
+ */
+
+import {describe, it, expect} from 'vitest'
+import {ChatMessage, MAX_LISTED_TESTS} from '../chatMessage.util'
+
+const WEB_URL = 'https://dashboard.example.com'
+
+const pipeline = {
+    pipelineRunId: 'p-1',
+    status: 'stopped_early',
+    startedAt: '2025-01-01T10:00:00.000Z',
+    steps: [
+        {project: 'api', displayName: 'API', status: 'success', passed: 12, failed: 0},
+        {project: 'ui', displayName: 'UI', status: 'failed', passed: 8, failed: 2, quarantined: 1},
+        {project: 'e2e', displayName: 'E2E', status: 'skipped'},
+    ],
+}
+
+const newFailures = {
+    runId: 'run-2',
+    status: 'completed',
+    project: 'chromium',
+    totalTests: 20,
+    passedTests: 18,
+    failedTests: 2,
+    skippedTests: 0,
+    duration: 95000,
+    tests: [
+        {
+            testId: 'test-a',
+            name: 'logs in',
+            errorMessage: '\u001b[31mError: expected true\u001b[39m\n  at login.spec.ts:3',
+        },
+        {testId: 'test-b', name: 'logs out <fast>', project: 'firefox'},
+    ],
+}
+
+describe('ChatMessage', () => {
+    describe('summarize', () => {
+        it('should report passed/failed per project and where the pipeline stopped', () => {
+            const summary = ChatMessage.summarize('pipeline:completed', pipeline, WEB_URL)
+
+            expect(summary.title).toBe('Pipeline stopped early')
+            expect(summary.outcome).toBe('failure')
+            expect(summary.text).toBe(
+                '1/3 projects passed, stopped after UI failed (1 step skipped)'
+            )
+            expect(summary.lines).toEqual([
+                {
+                    icon: '✅',
+                    label: 'API',
+                    url: `${WEB_URL}/tests?project=api`,
+                    detail: '12 passed, 0 failed',
+                },
+                {
+                    icon: '❌',
+                    label: 'UI',
+                    url: `${WEB_URL}/tests?project=ui`,
+                    detail: '8 passed, 2 failed, 1 quarantined',
+                },
+                {icon: '⏭️', label: 'E2E', url: `${WEB_URL}/tests?project=e2e`, detail: 'skipped'},
+            ])
+        })
+
+        it('should report a cancelled pipeline without counting it as a failure', () => {
+            const summary = ChatMessage.summarize(
+                'pipeline:completed',
+                {
+                    status: 'cancelled',
+                    steps: [
+                        {
+                            project: 'api',
+                            displayName: 'API',
+                            status: 'success',
+                            passed: 3,
+                            failed: 0,
+                        },
+                        {project: 'ui', displayName: 'UI', status: 'cancelled'},
+                        {project: 'e2e', displayName: 'E2E', status: 'cancelled'},
+                    ],
+                },
+                WEB_URL
+            )
+
+            expect(summary.title).toBe('Pipeline cancelled')
+            expect(summary.outcome).toBe('info')
+            expect(summary.text).toBe('1/3 projects passed')
+            expect(summary.lines[1]).toMatchObject({icon: '⏹️', detail: 'cancelled'})
+        })
+
+        it('should deep link new failures to their test detail', () => {
+            const summary = ChatMessage.summarize('test:new-failures', newFailures, WEB_URL)
+
+            expect(summary.title).toBe('2 new failures in chromium')
+            expect(summary.text).toBe('20 tests in 1m 35s')
+            expect(summary.facts[0]).toEqual({label: 'Project', value: 'chromium'})
+            expect(summary.lines.map((line) => line.url)).toEqual([
+                `${WEB_URL}/tests?project=chromium&testId=test-a`,
+                `${WEB_URL}/tests?project=firefox&testId=test-b`,
+            ])
+            expect(summary.lines[0].detail).toBe('Error: expected true')
+            expect(summary.link.url).toBe(`${WEB_URL}/runs/run-2`)
+        })
+
+        it('should only list the first tests', () => {
+            const tests = Array.from({length: MAX_LISTED_TESTS + 3}, (_, i) => ({
+                testId: `test-${i}`,
+                name: `test ${i}`,
+            }))
+
+            const summary = ChatMessage.summarize('test:flaky', {runId: 'run-1', tests}, WEB_URL)
+
+            expect(summary.lines).toHaveLength(MAX_LISTED_TESTS)
+            expect(summary.hiddenLines).toBe(3)
+        })
+
+        it('should report a failed run', () => {
+            const summary = ChatMessage.summarize(
+                'process:ended',
+                {runId: 'run-1', status: 'completed', failedTests: 1},
+                WEB_URL
+            )
+
+            expect(summary.title).toBe('Run failed')
+            expect(summary.outcome).toBe('failure')
+        })
+    })
+
+    describe('format', () => {
+        it('should leave json webhooks to the event envelope', () => {
+            expect(ChatMessage.format('json', 'pipeline:completed', pipeline, WEB_URL)).toBeNull()
+        })
+
+        it('should build Slack blocks with escaped link labels', () => {
+            const message: any = ChatMessage.format(
+                'slack',
+                'test:new-failures',
+                newFailures,
+                WEB_URL
+            )
+
+            expect(message.text).toBe('2 new failures in chromium: 20 tests in 1m 35s')
+            expect(message.blocks.map((block: any) => block.type)).toEqual([
+                'header',
+                'section',
+                'section',
+                'section',
+                'actions',
+            ])
+            expect(message.blocks[3].text.text).toContain(
+                `<${WEB_URL}/tests?project=firefox&testId=test-b|logs out &lt;fast&gt;>`
+            )
+            expect(message.blocks[4].elements[0].url).toBe(`${WEB_URL}/runs/run-2`)
+        })
+
+        it('should build a Teams adaptive card', () => {
+            const message: any = ChatMessage.format(
+                'teams',
+                'pipeline:completed',
+                pipeline,
+                WEB_URL
+            )
+
+            expect(message.type).toBe('message')
+            const [attachment] = message.attachments
+            expect(attachment.contentType).toBe('application/vnd.microsoft.card.adaptive')
+            expect(attachment.content.type).toBe('AdaptiveCard')
+            expect(attachment.content.body[0]).toMatchObject({
+                text: 'Pipeline stopped early',
+                color: 'Attention',
+            })
+            expect(attachment.content.body[3].text).toBe(
+                `❌ **[UI](${WEB_URL}/tests?project=ui)** — 8 passed, 2 failed, 1 quarantined`
+            )
+            expect(attachment.content.actions[0]).toEqual({
+                type: 'Action.OpenUrl',
+                title: 'Open dashboard',
+                url: `${WEB_URL}/tests`,
+            })
+        })
+    })
+})
@@ -0,0 +1,105 @@
+/**
+ * CronExpression Tests
+ *
+ * Expressions are evaluated in local time, so dates are built with the local
+ * Date constructor to keep the tests independent of the machine's time zone.
+ */
+
+import {describe, it, expect} from 'vitest'
+import {CronExpression, INVALID_CRON} from '../cron.util'
+
+// Wednesday, January 1st 2025, 10:00 local time
+const NOW = new Date(2025, 0, 1, 10, 0, 30)
+
+const next = (expression: string, after = NOW) => CronExpression.parse(expression).next(after)
+
+describe('CronExpression', () => {
+    describe('parse', () => {
+        it.each([
+            '* * * * *',
+            '*/15 9-17 * * 1-5',
+            '0,30 8 1,15 * *',
+            '0 2 * jan-mar MON',
+            '5/10 * * * 7',
+            '@daily',
+            '  @HOURLY  ',
+        ])('should accept %s', (expression) => {
+            expect(CronExpression.isValid(expression)).toBe(true)
+        })
+
+        it.each([
+            ['', 'expected 5 fields'],
+            ['* * * *', 'expected 5 fields'],
+            ['60 * * * *', 'minute must be between 0 and 59'],
+            ['* 24 * * *', 'hour must be between 0 and 23'],
+            ['* * 0 * *', 'day of month must be between 1 and 31'],
+            ['* * * 13 *', 'month must be between 1 and 12'],
+            ['* * * * 8', 'day of week must be between 0 and 7'],
+            ['*/0 * * * *', 'not a valid minute'],
+            ['a * * * *', 'not a valid minute'],
+            ['30-10 * * * *', 'empty minute range'],
+        ])('should reject "%s"', (expression, message) => {
+            expect(() => CronExpression.parse(expression)).toThrow(
+                new RegExp(`^${INVALID_CRON}: .*${message}`)
+            )
+        })
+    })
+
+    describe('matches', () => {
+        it('should match every field', () => {
+            const cron = CronExpression.parse('*/15 9-17 * * 1-5')
+
+            expect(cron.matches(new Date(2025, 0, 1, 9, 45))).toBe(true)
+            expect(cron.matches(new Date(2025, 0, 1, 9, 46))).toBe(false)
+            expect(cron.matches(new Date(2025, 0, 1, 18, 0))).toBe(false)
+            // Saturday
+            expect(cron.matches(new Date(2025, 0, 4, 10, 0))).toBe(false)
+        })
+
+        it('should treat 7 as Sunday', () => {
+            expect(CronExpression.parse('0 0 * * 7').matches(new Date(2025, 0, 5, 0, 0))).toBe(true)
+        })
+
+        it('should match either day field when both are restricted', () => {
+            // The 15th or any Monday
+            const cron = CronExpression.parse('0 0 15 * mon')
+
+            expect(cron.matches(new Date(2025, 0, 15, 0, 0))).toBe(true)
+            expect(cron.matches(new Date(2025, 0, 6, 0, 0))).toBe(true)
+            expect(cron.matches(new Date(2025, 0, 7, 0, 0))).toBe(false)
+        })
+    })
+
+    describe('next', () => {
+        it('should return the next matching minute after the given time', () => {
+            expect(next('* * * * *')).toEqual(new Date(2025, 0, 1, 10, 1))
+            expect(next('0 10 * * *')).toEqual(new Date(2025, 0, 2, 10, 0))
+            expect(next('30 2 * * *')).toEqual(new Date(2025, 0, 2, 2, 30))
+        })
+
+        it('should roll over months and years', () => {
+            expect(next('0 0 1 * *')).toEqual(new Date(2025, 1, 1, 0, 0))
+            expect(next('0 0 29 2 *')).toEqual(new Date(2028, 1, 29, 0, 0))
+            expect(next('@yearly')).toEqual(new Date(2026, 0, 1, 0, 0))
+        })
+
+        it('should skip to the next matching weekday', () => {
+            // Friday the 3rd
+            expect(next('0 9 * * fri')).toEqual(new Date(2025, 0, 3, 9, 0))
+        })
+
+        it('should return null for an expression that never fires', () => {
+            expect(next('0 0 30 2 *')).toBeNull()
+        })
+    })
+
+    describe('nextRuns', () => {
+        it('should list the next runs in order', () => {
+            expect(CronExpression.parse('0 */6 * * *').nextRuns(NOW, 3)).toEqual([
+                new Date(2025, 0, 1, 12, 0),
+                new Date(2025, 0, 1, 18, 0),
+                new Date(2025, 0, 2, 0, 0),
+            ])
+        })
+    })
+})
@@ -0,0 +1,86 @@
+/**
+ * ErrorSignature Tests
+ *
+ * Tests failing for the same reason must get the same signature, even when their
+ * errors differ in line numbers, ids, timestamps or generated selector parts.
+ */
+
+import {describe, it, expect} from 'vitest'
+import {ErrorSignature} from '../errorSignature.util'
+
+describe('ErrorSignature', () => {
+    describe('fromError', () => {
+        it('should return null without error text', () => {
+            expect(ErrorSignature.fromError(undefined, undefined)).toBeNull()
+            expect(ErrorSignature.fromError('', '   \n')).toBeNull()
+        })
+
+        it('should give the same signature to the same failure in different tests', () => {
+            const loginTimeout = (url: string, line: number) =>
+                ErrorSignature.fromError(
+                    `\u001b[31mTimeoutError: page.goto: Timeout 30000ms exceeded.\u001b[39m\nCall log:\n  - navigating to "${url}", waiting until "load"`,
+                    `TimeoutError: page.goto: Timeout 30000ms exceeded.\n    at /app/tests/login.spec.ts:${line}:16`
+                )
+
+            const first = loginTimeout('http://localhost:3000/login?session=abc123', 12)
+            const second = loginTimeout('http://localhost:3000/login?session=def456', 48)
+
+            expect(first).toBe('TimeoutError: page.goto: Timeout <n>ms exceeded.')
+            expect(second).toBe(first)
+        })
+
+        it('should strip uuids, timestamps, hashes and numbers', () => {
+            expect(
+                ErrorSignature.fromError(
+                    'Order 3f2b8c1e-9a4d-4e2f-8b7a-1c2d3e4f5a6b created at 2025-03-01T10:00:00.123Z not found in row #item-42 (ref a1b2c3d4e5f6a7b8)'
+                )
+            ).toBe('Order <uuid> created at <timestamp> not found in row #item-<n> (ref <hex>)')
+        })
+
+        it('should drop line numbers, code frames and stack frames', () => {
+            const message = [
+                'Error: expect(locator).toBeVisible() failed',
+                '',
+                "Locator: getByRole('button', { name: 'Save' })",
+                'Expected: visible',
+                '',
+                '  12 |   await page.goto("/settings")',
+                '> 13 |   await expect(save).toBeVisible()',
+                '     |                      ^',
+                '    at /app/tests/settings.spec.ts:13:22',
+            ].join('\n')
+
+            expect(ErrorSignature.fromError(message)).toBe(
+                [
+                    'Error: expect(locator).toBeVisible() failed',
+                    "Locator: getByRole('button', { name: 'Save' })",
+                    'Expected: visible',
+                ].join('\n')
+            )
+            expect(ErrorSignature.fromError('Error: failed at helpers/login.ts:40:7')).toBe(
+                'Error: failed at helpers/login.ts'
+            )
+        })
+
+        it('should fall back to the stack without a message', () => {
+            expect(
+                ErrorSignature.fromError(undefined, 'Error: boom\n    at test.spec.ts:3:9')
+            ).toBe('Error: boom')
+        })
+
+        it('should keep only the headline of long errors', () => {
+            const message = Array.from({length: 10}, (_, i) => `line ${i}`).join('\n')
+
+            expect(ErrorSignature.fromError(message)!.split('\n')).toHaveLength(4)
+            expect(ErrorSignature.fromError('x'.repeat(2000))).toHaveLength(500)
+        })
+    })
+
+    describe('headline', () => {
+        it('should keep the dynamic parts for display', () => {
+            expect(ErrorSignature.headline('\u001b[31mExpected: 5\u001b[39m\nReceived: 3')).toBe(
+                'Expected: 5\nReceived: 3'
+            )
+        })
+    })
+})
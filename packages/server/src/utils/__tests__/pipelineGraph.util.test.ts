@@ -0,0 +1,83 @@
+import {describe, it, expect} from 'vitest'
+import {findPipelineCycle, getPipelinePrerequisites, getPipelineStage} from '../pipelineGraph.util'
+
+describe('pipelineGraph', () => {
+    describe('getPipelineStage', () => {
+        it('should default to the position of the step', () => {
+            expect(getPipelineStage(undefined, 0)).toBe(1)
+            expect(getPipelineStage(undefined, 2)).toBe(3)
+            expect(getPipelineStage(1, 2)).toBe(1)
+        })
+    })
+
+    describe('getPipelinePrerequisites', () => {
+        it('should make steps without stages wait for the one before them', () => {
+            const prerequisites = getPipelinePrerequisites([
+                {project: 'A'},
+                {project: 'B'},
+                {project: 'C'},
+            ])
+
+            expect(Object.fromEntries(prerequisites)).toEqual({A: [], B: ['A'], C: ['B']})
+        })
+
+        it('should make a stage wait for every step of the closest earlier stage', () => {
+            const prerequisites = getPipelinePrerequisites([
+                {project: 'Smoke', stage: 1},
+                {project: 'API', stage: 3},
+                {project: 'UI', stage: 3},
+                {project: 'E2E', stage: 5},
+            ])
+
+            expect(Object.fromEntries(prerequisites)).toEqual({
+                Smoke: [],
+                API: ['Smoke'],
+                UI: ['Smoke'],
+                E2E: ['API', 'UI'],
+            })
+        })
+
+        it('should use dependencies instead of the stage, ignoring unknown projects', () => {
+            const prerequisites = getPipelinePrerequisites([
+                {project: 'A', stage: 1},
+                {project: 'B', stage: 1},
+                {project: 'C', stage: 2, dependsOn: ['B', 'C', 'Missing']},
+                {project: 'D', stage: 2, dependsOn: ['Missing']},
+            ])
+
+            expect(prerequisites.get('C')).toEqual(['B'])
+            expect(prerequisites.get('D')).toEqual([])
+        })
+    })
+
+    describe('findPipelineCycle', () => {
+        it('should return null when every step can run', () => {
+            expect(
+                findPipelineCycle([
+                    {project: 'A', stage: 1},
+                    {project: 'B', stage: 1},
+                    {project: 'C', stage: 2, dependsOn: ['A']},
+                ])
+            ).toBeNull()
+        })
+
+        it('should find steps depending on each other', () => {
+            expect(
+                findPipelineCycle([
+                    {project: 'A', dependsOn: ['C']},
+                    {project: 'B', dependsOn: ['A']},
+                    {project: 'C', dependsOn: ['B']},
+                ])
+            ).toEqual(['A', 'C', 'B', 'A'])
+        })
+
+        it('should find a dependency on a later stage', () => {
+            expect(
+                findPipelineCycle([
+                    {project: 'A', stage: 1, dependsOn: ['B']},
+                    {project: 'B', stage: 2},
+                ])
+            ).toEqual(['A', 'B', 'A'])
+        })
+    })
+})
@@ -0,0 +1,258 @@
+/**
+ * ReportParser Tests
+ *
+ * Imported reports must produce the same file paths, title paths and projects
+ * the reporter sends, otherwise imported results would get different stable
+ * test IDs and not merge into the existing history.
+ */
+
+import {describe, it, expect} from 'vitest'
+import {ReportParser} from '../reportParser.util'
+
+const playwrightJsonReport = {
+    config: {projects: [{id: 'chromium', name: 'chromium'}]},
+    suites: [
+        {
+            title: 'auth.spec.ts',
+            file: 'auth.spec.ts',
+            specs: [
+                {
+                    title: 'top level',
+                    file: 'auth.spec.ts',
+                    tags: ['smoke'],
+                    tests: [
+                        {
+                            projectName: 'chromium',
+                            annotations: [{type: 'issue', description: 'JIRA-1'}],
+                            results: [
+                                {
+                                    status: 'failed',
+                                    duration: 100,
+                                    retry: 0,
+                                    startTime: '2025-01-01T10:00:00.000Z',
+                                    error: {message: 'boom', stack: 'Error: boom\n    at x'},
+                                    stdout: [{text: 'hello\n'}],
+                                    stderr: [{buffer: Buffer.from('oops').toString('base64')}],
+                                    steps: [
+                                        {
+                                            title: 'outer',
+                                            duration: 80,
+                                            steps: [{title: 'inner', duration: 50}],
+                                        },
+                                    ],
+                                    attachments: [
+                                        {
+                                            name: 'screenshot',
+                                            contentType: 'image/png',
+                                            path: '/ci/test-results/auth-top-level/test-failed-1.png',
+                                        },
+                                    ],
+                                },
+                                {status: 'passed', duration: 90, retry: 1},
+                            ],
+                        },
+                    ],
+                },
+            ],
+            suites: [
+                {
+                    title: 'Login',
+                    file: 'auth.spec.ts',
+                    suites: [
+                        {
+                            title: 'with SSO',
+                            file: 'auth.spec.ts',
+                            specs: [
+                                {
+                                    title: 'works',
+                                    file: 'auth.spec.ts',
+                                    tests: [
+                                        {
+                                            projectName: '',
+                                            results: [{status: 'skipped', duration: 0, retry: 0}],
+                                        },
+                                    ],
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        },
+    ],
+    stats: {startTime: '2025-01-01T10:00:00.000Z', duration: 5000},
+}
+
+const junitReport = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites id="" name="" tests="3" failures="1" skipped="1" errors="0" time="2.5">
+<testsuite name="cart.spec.ts" timestamp="2025-01-02T08:00:00.000Z" hostname="firefox" tests="3" failures="1" skipped="1" time="2.5" errors="0">
+<testcase name="Cart › adds item" classname="cart.spec.ts" time="1.25">
+<failure message="cart.spec.ts:10:5 adds item" type="FAILURE">
+<![CDATA[Error: expected 2 & got 1]]>
+</failure>
+<system-out>
+<![CDATA[added
+[[ATTACHMENT|../test-results/cart-adds-item-firefox/trace.zip]]
+]]>
+</system-out>
+</testcase>
+<testcase name="Cart › removes item" classname="cart.spec.ts" time="0.5">
+</testcase>
+<testcase name="Cart › empty" classname="cart.spec.ts" time="0">
+<skipped message="skipped"/>
+</testcase>
+</testsuite>
+</testsuites>`
+
+describe('ReportParser', () => {
+    describe('parse()', () => {
+        it('should detect the report format from the content', () => {
+            expect(ReportParser.parse(JSON.stringify(playwrightJsonReport)).format).toBe(
+                'playwright-json'
+            )
+            expect(ReportParser.parse(junitReport).format).toBe('junit')
+        })
+
+        it('should reject content that is neither JSON nor XML', () => {
+            expect(() => ReportParser.parse('hello')).toThrow('Invalid report:')
+        })
+
+        it('should reject JSON that is not Playwright JSON reporter output', () => {
+            expect(() => ReportParser.parse('{"results": []}')).toThrow('Invalid report:')
+            expect(() => ReportParser.parse('{"suites": [')).toThrow('Invalid report:')
+        })
+
+        it('should reject XML without test suites', () => {
+            expect(() => ReportParser.parse('<html></html>')).toThrow('Invalid report:')
+        })
+    })
+
+    describe('parsePlaywrightJson()', () => {
+        const report = ReportParser.parsePlaywrightJson(playwrightJsonReport)
+
+        it('should read every attempt with its describe path and project', () => {
+            expect(report.startTime).toBe('2025-01-01T10:00:00.000Z')
+            expect(report.duration).toBe(5000)
+            expect(
+                report.attempts.map((attempt) => ({
+                    titlePath: attempt.titlePath,
+                    project: attempt.project,
+                    status: attempt.status,
+                    retry: attempt.retry,
+                }))
+            ).toEqual([
+                {titlePath: ['top level'], project: 'chromium', status: 'failed', retry: 0},
+                {titlePath: ['top level'], project: 'chromium', status: 'passed', retry: 1},
+                {
+                    titlePath: ['Login', 'with SSO', 'works'],
+                    project: undefined,
+                    status: 'skipped',
+                    retry: 0,
+                },
+            ])
+        })
+
+        it('should keep errors, output, steps, annotations, tags and attachments', () => {
+            const [failed] = report.attempts
+
+            expect(failed.filePath).toBe('auth.spec.ts')
+            expect(failed.errorMessage).toBe('Error: boom\n    at x')
+            expect(failed.stdout).toEqual(['hello\n'])
+            expect(failed.stderr).toEqual(['oops'])
+            expect(failed.steps).toEqual([
+                {
+                    title: 'outer',
+                    category: 'test.step',
+                    duration: 80,
+                    error: undefined,
+                    steps: [
+                        {
+                            title: 'inner',
+                            category: 'test.step',
+                            duration: 50,
+                            error: undefined,
+                            steps: undefined,
+                        },
+                    ],
+                },
+            ])
+            expect(failed.annotations).toEqual([{type: 'issue', description: 'JIRA-1'}])
+            expect(failed.tags).toEqual(['@smoke'])
+            expect(failed.attachments).toEqual([
+                {
+                    name: 'screenshot',
+                    contentType: 'image/png',
+                    path: '/ci/test-results/auth-top-level/test-failed-1.png',
+                    body: undefined,
+                },
+            ])
+        })
+    })
+
+    describe('parseJUnit()', () => {
+        const report = ReportParser.parseJUnit(junitReport)
+
+        it('should read test cases with describe path, project and status', () => {
+            expect(report.duration).toBe(2500)
+            expect(
+                report.attempts.map((attempt) => ({
+                    filePath: attempt.filePath,
+                    titlePath: attempt.titlePath,
+                    project: attempt.project,
+                    status: attempt.status,
+                    duration: attempt.duration,
+                }))
+            ).toEqual([
+                {
+                    filePath: 'cart.spec.ts',
+                    titlePath: ['Cart', 'adds item'],
+                    project: 'firefox',
+                    status: 'failed',
+                    duration: 1250,
+                },
+                {
+                    filePath: 'cart.spec.ts',
+                    titlePath: ['Cart', 'removes item'],
+                    project: 'firefox',
+                    status: 'passed',
+                    duration: 500,
+                },
+                {
+                    filePath: 'cart.spec.ts',
+                    titlePath: ['Cart', 'empty'],
+                    project: 'firefox',
+                    status: 'skipped',
+                    duration: 0,
+                },
+            ])
+        })
+
+        it('should split attachment links from the output', () => {
+            const [failed] = report.attempts
+
+            expect(failed.errorMessage).toContain('Error: expected 2 & got 1')
+            expect(failed.stdout).toEqual([expect.stringContaining('added')])
+            expect(failed.stdout[0]).not.toContain('ATTACHMENT')
+            expect(failed.attachments).toEqual([
+                {
+                    name: 'trace.zip',
+                    contentType: '',
+                    path: '../test-results/cart-adds-item-firefox/trace.zip',
+                },
+            ])
+        })
+
+        it('should accept a single <testsuite> root', () => {
+            const single = ReportParser.parseJUnit(
+                '<testsuite name="a.spec.ts"><testcase name="works" time="0.1"/></testsuite>'
+            )
+
+            expect(single.attempts).toHaveLength(1)
+            expect(single.attempts[0]).toMatchObject({
+                filePath: 'a.spec.ts',
+                titlePath: ['works'],
+                status: 'passed',
+            })
+        })
+    })
+})
@@ -130,6 +130,25 @@ describe('ResponseHelper', () => {
         })
     })
 
+    describe('accepted()', () => {
+        it('should return 202 response with data and message', () => {
+            const res = createMockResponse()
+            const testData = {queued: true}
+
+            ResponseHelper.accepted(res, testData, 'Queued')
+
+            expect(res.status).toHaveBeenCalledWith(202)
+            expect(res.json).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    success: true,
+                    data: testData,
+                    message: 'Queued',
+                    timestamp: expect.any(String),
+                })
+            )
+        })
+    })
+
     describe('error()', () => {
         it('should return 400 response by default', () => {
             const res = createMockResponse()
@@ -0,0 +1,359 @@
+import {WebhookEvent, WebhookFormat} from '@yshvydak/core'
+
+// Chat messages list the first tests only, the rest is behind the dashboard link
+export const MAX_LISTED_TESTS = 10
+
+// Slack renders at most 10 fields per section block
+const SLACK_MAX_FIELDS = 10
+
+const STATUS_ICONS: Record<string, string> = {
+    success: '✅',
+    failed: '❌',
+    skipped: '⏭️',
+    cancelled: '⏹️',
+    queued: '⏳',
+    running: '⏳',
+}
+
+type ChatOutcome = 'success' | 'failure' | 'info'
+
+interface ChatLine {
+    icon: string
+    label: string
+    url?: string
+    detail?: string
+}
+
+/**
+ * Chat-agnostic content of a notification, rendered as Slack blocks or a
+ * Teams adaptive card.
+ */
+export interface ChatSummary {
+    title: string
+    outcome: ChatOutcome
+    text: string
+    facts: Array<{label: string; value: string}>
+    lines: ChatLine[]
+    // Lines left out after MAX_LISTED_TESTS
+    hiddenLines: number
+    link: {label: string; url: string}
+}
+
+interface EventTest {
+    testId: string
+    name: string
+    project?: string
+    errorMessage?: string
+}
+
+interface PipelineStep {
+    project: string
+    displayName: string
+    status: string
+    passed?: number
+    failed?: number
+    quarantined?: number
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000)
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+// Only the first line of an error fits a chat message
+const headline = (message?: string) =>
+    message
+        ?.replace(/\u001b\[[0-9;]*m/g, '')
+        .split('\n')
+        .find((line) => line.trim())
+        ?.trim()
+        .slice(0, 200)
+
+/**
+ * Builds Slack- and Teams-compatible message bodies from webhook events, with
+ * deep links back into the dashboard.
+ */
+export class ChatMessage {
+    /**
+     * Body of `event` in a chat `format`, or null for 'json' (the event envelope
+     * is sent as-is).
+     */
+    static format(
+        format: WebhookFormat,
+        event: WebhookEvent,
+        data: any,
+        webUrl: string
+    ): object | null {
+        if (format === 'json') return null
+
+        const summary = ChatMessage.summarize(event, data, webUrl)
+        return format === 'slack' ? ChatMessage.toSlack(summary) : ChatMessage.toTeams(summary)
+    }
+
+    static summarize(event: WebhookEvent, data: any, webUrl: string): ChatSummary {
+        switch (event) {
+            case 'pipeline:completed':
+                return ChatMessage.fromPipeline(data, webUrl)
+            case 'process:ended':
+            case 'test:new-failures':
+            case 'test:flaky':
+                return ChatMessage.fromRun(event, data, webUrl)
+            default:
+                return {
+                    title: 'Test notification',
+                    outcome: 'info',
+                    text: data?.message ?? 'Test event from the dashboard',
+                    facts: [],
+                    lines: [],
+                    hiddenLines: 0,
+                    link: {label: 'Open dashboard', url: `${webUrl}/tests`},
+                }
+        }
+    }
+
+    /**
+     * Pipeline result: passed/failed per project and, when a step stopped the
+     * pipeline, which steps were skipped.
+     */
+    static fromPipeline(
+        data: {status: string; steps: PipelineStep[]},
+        webUrl: string
+    ): ChatSummary {
+        const steps = data.steps ?? []
+        const failedSteps = steps.filter((step) => step.status === 'failed')
+        const skippedSteps = steps.filter(
+            (step) => step.status === 'skipped' || step.status === 'cancelled'
+        )
+        const stoppedEarly = data.status === 'stopped_early'
+
+        let title = 'Pipeline passed'
+        if (data.status === 'cancelled') title = 'Pipeline cancelled'
+        else if (stoppedEarly) title = 'Pipeline stopped early'
+        else if (failedSteps.length > 0) title = 'Pipeline failed'
+
+        let text = `${steps.length - failedSteps.length - skippedSteps.length}/${steps.length} projects passed`
+        if (stoppedEarly && failedSteps.length > 0) {
+            const stoppedBy = failedSteps[failedSteps.length - 1].displayName
+            text += `, stopped after ${stoppedBy} failed (${plural(skippedSteps.length, 'step')} skipped)`
+        }
+
+        const lines = steps.map((step) => {
+            let detail: string = step.status
+            if (step.status !== 'skipped' && step.status !== 'cancelled') {
+                detail = `${step.passed ?? 0} passed, ${step.failed ?? 0} failed`
+                if (step.quarantined) detail += `, ${step.quarantined} quarantined`
+            }
+            return {
+                icon: STATUS_ICONS[step.status] ?? '•',
+                label: step.displayName || step.project,
+                url: ChatMessage.testsUrl(webUrl, step.project),
+                detail,
+            }
+        })
+
+        return {
+            title,
+            outcome:
+                failedSteps.length > 0
+                    ? 'failure'
+                    : data.status === 'cancelled'
+                      ? 'info'
+                      : 'success',
+            text,
+            facts: [],
+            lines,
+            hiddenLines: 0,
+            link: {label: 'Open dashboard', url: `${webUrl}/tests`},
+        }
+    }
+
+    /**
+     * A finished run, or its newly failing / flaky tests linked to their
+     * test detail.
+     */
+    static fromRun(event: WebhookEvent, data: any, webUrl: string): ChatSummary {
+        const project: string | undefined = data.project || undefined
+        const tests: EventTest[] = data.tests ?? []
+        const scope = project ? ` in ${project}` : ''
+
+        let title: string
+        let outcome: ChatOutcome
+        if (event === 'test:new-failures') {
+            title = `${plural(tests.length, 'new failure')}${scope}`
+            outcome = 'failure'
+        } else if (event === 'test:flaky') {
+            title = `${plural(tests.length, 'flaky test')}${scope}`
+            outcome = 'info'
+        } else if (data.status === 'interrupted') {
+            title = `Run interrupted${scope}`
+            outcome = 'info'
+        } else {
+            const failed = data.status === 'failed' || data.failedTests > 0
+            title = `Run ${failed ? 'failed' : 'passed'}${scope}`
+            outcome = failed ? 'failure' : 'success'
+        }
+
+        const facts = [
+            {label: 'Passed', value: String(data.passedTests ?? 0)},
+            {label: 'Failed', value: String(data.failedTests ?? 0)},
+            {label: 'Skipped', value: String(data.skippedTests ?? 0)},
+            {label: 'Duration', value: formatDuration(data.duration ?? 0)},
+        ]
+        if (project) facts.unshift({label: 'Project', value: project})
+
+        const lines = tests.slice(0, MAX_LISTED_TESTS).map((test) => ({
+            icon: event === 'test:flaky' ? '⚠️' : '❌',
+            label: test.name,
+            url: ChatMessage.testsUrl(webUrl, test.project || project, test.testId),
+            detail: headline(test.errorMessage),
+        }))
+
+        return {
+            title,
+            outcome,
+            text: `${plural(data.totalTests ?? 0, 'test')} in ${formatDuration(data.duration ?? 0)}`,
+            facts,
+            lines,
+            hiddenLines: Math.max(0, tests.length - MAX_LISTED_TESTS),
+            link: {label: 'Open run', url: `${webUrl}/runs/${encodeURIComponent(data.runId)}`},
+        }
+    }
+
+    /**
+     * Slack incoming webhook body: a header, the summary, facts as fields and
+     * the listed lines as one mrkdwn section.
+     */
+    static toSlack(summary: ChatSummary): object {
+        const escape = (text: string) =>
+            text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+        const icon =
+            summary.outcome === 'failure' ? '❌' : summary.outcome === 'success' ? '✅' : 'ℹ️'
+
+        const blocks: object[] = [
+            {type: 'header', text: {type: 'plain_text', text: `${icon} ${summary.title}`}},
+            {type: 'section', text: {type: 'mrkdwn', text: escape(summary.text)}},
+        ]
+
+        if (summary.facts.length > 0) {
+            blocks.push({
+                type: 'section',
+                fields: summary.facts.slice(0, SLACK_MAX_FIELDS).map((fact) => ({
+                    type: 'mrkdwn',
+                    text: `*${escape(fact.label)}*\n${escape(fact.value)}`,
+                })),
+            })
+        }
+
+        if (summary.lines.length > 0) {
+            const lines = summary.lines.map((line) => {
+                const label = line.url ? `<${line.url}|${escape(line.label)}>` : escape(line.label)
+                const detail = line.detail ? ` — ${escape(line.detail)}` : ''
+                return `${line.icon} *${label}*${detail}`
+            })
+            if (summary.hiddenLines > 0) {
+                lines.push(`…and ${summary.hiddenLines} more`)
+            }
+            blocks.push({type: 'section', text: {type: 'mrkdwn', text: lines.join('\n')}})
+        }
+
+        blocks.push({
+            type: 'actions',
+            elements: [
+                {
+                    type: 'button',
+                    text: {type: 'plain_text', text: summary.link.label},
+                    url: summary.link.url,
+                },
+            ],
+        })
+
+        // text is the fallback shown in notifications
+        return {text: `${summary.title}: ${summary.text}`, blocks}
+    }
+
+    /**
+     * Teams incoming webhook / workflow body: a message with one adaptive card.
+     */
+    static toTeams(summary: ChatSummary): object {
+        const escape = (text: string) => text.replace(/([[\]*_`])/g, '\\$1')
+        const color =
+            summary.outcome === 'failure'
+                ? 'Attention'
+                : summary.outcome === 'success'
+                  ? 'Good'
+                  : 'Accent'
+
+        const body: object[] = [
+            {
+                type: 'TextBlock',
+                text: summary.title,
+                weight: 'Bolder',
+                size: 'Medium',
+                color,
+                wrap: true,
+            },
+            {type: 'TextBlock', text: summary.text, wrap: true, spacing: 'Small'},
+        ]
+
+        if (summary.facts.length > 0) {
+            body.push({
+                type: 'FactSet',
+                facts: summary.facts.map((fact) => ({title: fact.label, value: fact.value})),
+            })
+        }
+
+        for (const line of summary.lines) {
+            const label = line.url ? `[${escape(line.label)}](${line.url})` : escape(line.label)
+            const detail = line.detail ? ` — ${escape(line.detail)}` : ''
+            body.push({
+                type: 'TextBlock',
+                text: `${line.icon} **${label}**${detail}`,
+                wrap: true,
+                spacing: 'Small',
+            })
+        }
+        if (summary.hiddenLines > 0) {
+            body.push({
+                type: 'TextBlock',
+                text: `…and ${summary.hiddenLines} more`,
+                isSubtle: true,
+                spacing: 'Small',
+            })
+        }
+
+        return {
+            type: 'message',
+            attachments: [
+                {
+                    contentType: 'application/vnd.microsoft.card.adaptive',
+                    contentUrl: null,
+                    content: {
+                        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+                        type: 'AdaptiveCard',
+                        version: '1.4',
+                        body,
+                        actions: [
+                            {
+                                type: 'Action.OpenUrl',
+                                title: summary.link.label,
+                                url: summary.link.url,
+                            },
+                        ],
+                    },
+                },
+            ],
+        }
+    }
+
+    // Deep link into the tests page, opening the test detail when testId is set
+    static testsUrl(webUrl: string, project?: string, testId?: string): string {
+        const params = new URLSearchParams()
+        if (project) params.set('project', project)
+        if (testId) params.set('testId', testId)
+
+        const query = params.toString()
+        return `${webUrl}/tests${query ? `?${query}` : ''}`
+    }
+}
@@ -0,0 +1,211 @@
+// Prefix of parse errors, mapped to 400 by the controllers
+export const INVALID_CRON = 'Invalid cron expression'
+
+// next() gives up after this many years without a match (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 5
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+}
+
+const MONTH_NAMES = [
+    'JAN',
+    'FEB',
+    'MAR',
+    'APR',
+    'MAY',
+    'JUN',
+    'JUL',
+    'AUG',
+    'SEP',
+    'OCT',
+    'NOV',
+    'DEC',
+]
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+interface FieldSpec {
+    name: string
+    min: number
+    max: number
+    // Names accepted instead of numbers, starting at min
+    names?: string[]
+}
+
+const FIELDS: FieldSpec[] = [
+    {name: 'minute', min: 0, max: 59},
+    {name: 'hour', min: 0, max: 23},
+    {name: 'day of month', min: 1, max: 31},
+    {name: 'month', min: 1, max: 12, names: MONTH_NAMES},
+    // 7 is Sunday as well
+    {name: 'day of week', min: 0, max: 7, names: DAY_NAMES},
+]
+
+interface CronField {
+    values: Set<number>
+    // false for "*" and "*/n" - matters for the day of month / day of week rule
+    restricted: boolean
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+    const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1
+    const value = nameIndex >= 0 ? spec.min + nameIndex : Number(text)
+
+    if (!/^\d+$/.test(text) && nameIndex < 0) {
+        throw new Error(`${INVALID_CRON}: "${text}" is not a valid ${spec.name}`)
+    }
+    if (value < spec.min || value > spec.max) {
+        throw new Error(`${INVALID_CRON}: ${spec.name} must be between ${spec.min} and ${spec.max}`)
+    }
+    return value
+}
+
+function parseField(text: string, spec: FieldSpec): CronField {
+    const values = new Set<number>()
+
+    for (const part of text.split(',')) {
+        const [range, stepText, ...rest] = part.split('/')
+        const step = stepText === undefined ? 1 : Number(stepText)
+        if (rest.length > 0 || !range || !Number.isInteger(step) || step < 1) {
+            throw new Error(`${INVALID_CRON}: "${part}" is not a valid ${spec.name}`)
+        }
+
+        let start = spec.min
+        let end = spec.max
+        if (range !== '*') {
+            const [from, to, ...extra] = range.split('-')
+            if (extra.length > 0) {
+                throw new Error(`${INVALID_CRON}: "${part}" is not a valid ${spec.name}`)
+            }
+            start = parseValue(from, spec)
+            // "5/15" runs from 5 to the end of the range
+            end = to !== undefined ? parseValue(to, spec) : stepText ? spec.max : start
+            if (start > end) {
+                throw new Error(`${INVALID_CRON}: "${part}" is an empty ${spec.name} range`)
+            }
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value)
+        }
+    }
+
+    return {values, restricted: !text.startsWith('*')}
+}
+
+/**
+ * Standard five-field cron expression (minute hour day-of-month month
+ * day-of-week) with lists, ranges, steps, month/day names and the @daily-style
+ * macros, evaluated in the server's local time. Like cron, a day matches when
+ * either the day of month or the day of week does if both are restricted.
+ */
+export class CronExpression {
+    private constructor(
+        readonly expression: string,
+        private fields: CronField[]
+    ) {}
+
+    static parse(expression: string): CronExpression {
+        const trimmed = (expression ?? '').trim()
+        const normalized = MACROS[trimmed.toLowerCase()] ?? trimmed
+        const parts = normalized.split(/\s+/).filter(Boolean)
+
+        if (parts.length !== FIELDS.length) {
+            throw new Error(
+                `${INVALID_CRON}: expected 5 fields (minute hour day month weekday), got ${parts.length}`
+            )
+        }
+
+        const fields = parts.map((part, index) => parseField(part, FIELDS[index]))
+        // Sunday is both 0 and 7
+        const dayOfWeek = fields[4].values
+        if (dayOfWeek.delete(7)) dayOfWeek.add(0)
+
+        return new CronExpression(trimmed, fields)
+    }
+
+    static isValid(expression: string): boolean {
+        try {
+            CronExpression.parse(expression)
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    /**
+     * Whether the expression fires in the minute of `date`.
+     */
+    matches(date: Date): boolean {
+        const [minute, hour, , month] = this.fields
+        return (
+            minute.values.has(date.getMinutes()) &&
+            hour.values.has(date.getHours()) &&
+            month.values.has(date.getMonth() + 1) &&
+            this.matchesDay(date)
+        )
+    }
+
+    /**
+     * First minute after `after` the expression fires in, or null when it
+     * never does (like February 30th).
+     */
+    next(after: Date): Date | null {
+        const [minute, hour, , month] = this.fields
+        const date = new Date(after)
+        date.setSeconds(0, 0)
+        date.setMinutes(date.getMinutes() + 1)
+
+        const limit = new Date(date)
+        limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS)
+
+        // Skip whole months, days and hours that can't match before stepping by minute
+        while (date < limit) {
+            if (!month.values.has(date.getMonth() + 1)) {
+                date.setMonth(date.getMonth() + 1, 1)
+                date.setHours(0, 0, 0, 0)
+            } else if (!this.matchesDay(date)) {
+                date.setDate(date.getDate() + 1)
+                date.setHours(0, 0, 0, 0)
+            } else if (!hour.values.has(date.getHours())) {
+                date.setHours(date.getHours() + 1, 0, 0, 0)
+            } else if (!minute.values.has(date.getMinutes())) {
+                date.setMinutes(date.getMinutes() + 1, 0, 0)
+            } else {
+                return date
+            }
+        }
+
+        return null
+    }
+
+    /**
+     * The next `count` times the expression fires after `after`.
+     */
+    nextRuns(after: Date, count: number): Date[] {
+        const runs: Date[] = []
+        let current: Date | null = after
+
+        while (runs.length < count && (current = this.next(current))) {
+            runs.push(current)
+        }
+        return runs
+    }
+
+    private matchesDay(date: Date): boolean {
+        const [, , dayOfMonth, , dayOfWeek] = this.fields
+        const monthDay = dayOfMonth.values.has(date.getDate())
+        const weekDay = dayOfWeek.values.has(date.getDay())
+
+        if (dayOfMonth.restricted && dayOfWeek.restricted) {
+            return monthDay || weekDay
+        }
+        return monthDay && weekDay
+    }
+}
@@ -0,0 +1,67 @@
+// Playwright colours its error output
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g
+
+// Signatures only keep the headline of an error, not its full dump
+const MAX_SIGNATURE_LINES = 4
+const MAX_SIGNATURE_LENGTH = 500
+
+// Applied in order: the specific patterns must run before the generic number one
+const DYNAMIC_PARTS: Array<[RegExp, string]> = [
+    [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+    [
+        /\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/g,
+        '<timestamp>',
+    ],
+    [/\b\d{1,2}:\d{2}:\d{2}\b/g, '<timestamp>'],
+    // Query strings and fragments carry session ids, cache busters and the like
+    [/(https?:\/\/[^\s"'?#]+)[?#][^\s"')]*/g, '$1'],
+    // file.ts:12:5 → file.ts
+    [/(\.[cm]?[jt]sx?):\d+(?::\d+)?/g, '$1'],
+    [/\b0x[0-9a-f]+\b/gi, '<hex>'],
+    [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{12,}\b/gi, '<hex>'],
+    // Counters, ports, timeouts and generated ids in selectors (#row-42, nth=3)
+    [/\d+/g, '<n>'],
+]
+
+/**
+ * Reduces an error to a signature that is the same for every test failing
+ * for the same reason, so failures can be grouped across tests and runs.
+ */
+export class ErrorSignature {
+    /**
+     * Normalized signature of an error, or null when there is no error text.
+     */
+    static fromError(message?: string | null, stack?: string | null): string | null {
+        const headline = ErrorSignature.headline(message, stack)
+        if (!headline) return null
+
+        const signature = DYNAMIC_PARTS.reduce(
+            (text, [pattern, replacement]) => text.replace(pattern, replacement),
+            headline
+        )
+
+        return signature.slice(0, MAX_SIGNATURE_LENGTH)
+    }
+
+    /**
+     * Readable headline of an error: the message without colours, call log,
+     * code frame and stack frames. Falls back to the first line of the stack.
+     */
+    static headline(message?: string | null, stack?: string | null): string | null {
+        const text = (message || stack || '').replace(ANSI_PATTERN, '')
+        const lines: string[] = []
+
+        for (const rawLine of text.split('\n')) {
+            const line = rawLine.trim()
+
+            if (/^Call log:/.test(line) || /^at\s/.test(line)) break
+            // Code frame lines such as "> 12 |   await page.click()" and "   |   ^"
+            if (!line || /^>?\s*\d*\s*\|/.test(line)) continue
+
+            lines.push(line.replace(/\s+/g, ' '))
+            if (lines.length === MAX_SIGNATURE_LINES) break
+        }
+
+        return lines.length > 0 ? lines.join('\n') : null
+    }
+}
@@ -0,0 +1,74 @@
+export interface PipelineGraphStep {
+    project: string
+    stage?: number
+    dependsOn?: string[]
+}
+
+/**
+ * Stage of a pipeline step. A step without one gets its position (1-based),
+ * so a pipeline without stages runs one step after the other in tab order.
+ */
+export function getPipelineStage(stage: number | undefined, index: number): number {
+    return stage ?? index + 1
+}
+
+/**
+ * The steps each step waits for, by project: the ones it depends on or,
+ * without dependencies, every step of the closest earlier stage. Dependencies
+ * on projects that are not in the pipeline are ignored.
+ */
+export function getPipelinePrerequisites(steps: PipelineGraphStep[]): Map<string, string[]> {
+    const projects = new Set(steps.map((step) => step.project))
+    const stages = steps.map((step, index) => getPipelineStage(step.stage, index))
+
+    return new Map(
+        steps.map((step, index): [string, string[]] => {
+            if (step.dependsOn && step.dependsOn.length > 0) {
+                return [
+                    step.project,
+                    step.dependsOn.filter(
+                        (project) => project !== step.project && projects.has(project)
+                    ),
+                ]
+            }
+            const earlier = stages.filter((stage) => stage < stages[index])
+            if (earlier.length === 0) return [step.project, []]
+            const previousStage = Math.max(...earlier)
+            return [
+                step.project,
+                steps.filter((_, i) => stages[i] === previousStage).map((s) => s.project),
+            ]
+        })
+    )
+}
+
+/**
+ * Projects of the first cycle of steps waiting for each other, starting and
+ * ending with the same project, or null when every step can eventually run.
+ */
+export function findPipelineCycle(steps: PipelineGraphStep[]): string[] | null {
+    const prerequisites = getPipelinePrerequisites(steps)
+    const done = new Set<string>()
+    const path: string[] = []
+
+    const visit = (project: string): string[] | null => {
+        const index = path.indexOf(project)
+        if (index !== -1) return [...path.slice(index), project]
+        if (done.has(project)) return null
+
+        path.push(project)
+        for (const prerequisite of prerequisites.get(project) ?? []) {
+            const cycle = visit(prerequisite)
+            if (cycle) return cycle
+        }
+        path.pop()
+        done.add(project)
+        return null
+    }
+
+    for (const step of steps) {
+        const cycle = visit(step.project)
+        if (cycle) return cycle
+    }
+    return null
+}
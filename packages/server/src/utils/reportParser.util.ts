@@ -0,0 +1,238 @@
+import {XMLParser} from 'fast-xml-parser'
+import {TestStep} from '@yshvydak/core'
+import {
+    PlaywrightJsonReport,
+    PlaywrightJsonStep,
+    PlaywrightJsonTestResult,
+    PlaywrightSpec,
+    PlaywrightSuite,
+} from '../types/playwright.types'
+import {ImportedTestAttempt, ParsedReport} from '../types/service.types'
+
+export const INVALID_REPORT_ERROR = 'Invalid report:'
+
+// Elements that may occur once or many times and must always parse as arrays
+const JUNIT_ARRAY_ELEMENTS = ['testsuite', 'testcase', 'failure', 'error']
+
+/**
+ * Reads Playwright JSON reporter output and JUnit XML into test attempts
+ * that can be saved like results sent by the reporter.
+ * Malformed input throws errors starting with INVALID_REPORT_ERROR.
+ */
+export class ReportParser {
+    static parse(content: string): ParsedReport {
+        const trimmed = content.replace(/^\uFEFF/, '').trimStart()
+
+        if (trimmed.startsWith('{')) {
+            let report: PlaywrightJsonReport
+            try {
+                report = JSON.parse(trimmed)
+            } catch {
+                throw new Error('Invalid report: not valid JSON')
+            }
+            if (!Array.isArray(report.suites)) {
+                throw new Error(
+                    'Invalid report: JSON has no suites, use the Playwright JSON reporter'
+                )
+            }
+            return ReportParser.parsePlaywrightJson(report)
+        }
+
+        if (trimmed.startsWith('<')) {
+            return ReportParser.parseJUnit(trimmed)
+        }
+
+        throw new Error('Invalid report: expected Playwright JSON or JUnit XML')
+    }
+
+    static parsePlaywrightJson(report: PlaywrightJsonReport): ParsedReport {
+        const attempts: ImportedTestAttempt[] = []
+
+        // Same walk as test discovery: top-level suites are files, the titles of
+        // the suites below them form the describe path
+        const collect = (suites: PlaywrightSuite[] | undefined, describePath: string[]) => {
+            for (const suite of suites || []) {
+                const suitePath = suite.title ? [...describePath, suite.title] : describePath
+                for (const spec of suite.specs || []) {
+                    attempts.push(...ReportParser.mapSpec(spec, suitePath))
+                }
+                collect(suite.suites, suitePath)
+            }
+        }
+
+        for (const fileSuite of report.suites || []) {
+            for (const spec of fileSuite.specs || []) {
+                attempts.push(...ReportParser.mapSpec(spec, []))
+            }
+            collect(fileSuite.suites, [])
+        }
+
+        return {
+            format: 'playwright-json',
+            startTime: report.stats?.startTime,
+            duration: report.stats?.duration,
+            attempts,
+        }
+    }
+
+    private static mapSpec(spec: PlaywrightSpec, describePath: string[]): ImportedTestAttempt[] {
+        // The reporter records tags the way Playwright exposes them, with the '@'
+        const tags = (spec.tags || []).map((tag) => (tag.startsWith('@') ? tag : `@${tag}`))
+
+        return (spec.tests || []).flatMap((test) =>
+            (test.results || []).map((result) => ({
+                filePath: spec.file,
+                titlePath: [...describePath, spec.title],
+                project: test.projectName || undefined,
+                status: ReportParser.mapStatus(result.status),
+                duration: result.duration || 0,
+                retry: result.retry || 0,
+                startTime: result.startTime,
+                // Same as the reporter: the stack already starts with the message
+                errorMessage:
+                    ReportParser.errorOf(result)?.stack || ReportParser.errorOf(result)?.message,
+                errorStack: ReportParser.errorOf(result)?.stack,
+                stdout: ReportParser.outputText(result.stdout),
+                stderr: ReportParser.outputText(result.stderr),
+                steps: result.steps?.length ? result.steps.map(ReportParser.mapStep) : undefined,
+                annotations: test.annotations?.length ? test.annotations : undefined,
+                tags: tags.length > 0 ? tags : undefined,
+                attachments: (result.attachments || []).map((attachment) => ({
+                    name: attachment.name,
+                    contentType: attachment.contentType,
+                    path: attachment.path,
+                    body: attachment.body ? Buffer.from(attachment.body, 'base64') : undefined,
+                })),
+            }))
+        )
+    }
+
+    private static errorOf(result: PlaywrightJsonTestResult) {
+        return result.error || result.errors?.[0]
+    }
+
+    private static mapStep(step: PlaywrightJsonStep): TestStep {
+        return {
+            title: step.title,
+            // The JSON reporter only keeps test.step() steps
+            category: 'test.step',
+            duration: step.duration,
+            error: step.error?.message,
+            steps: step.steps?.length ? step.steps.map(ReportParser.mapStep) : undefined,
+        }
+    }
+
+    private static outputText(chunks: Array<{text?: string; buffer?: string}> | undefined) {
+        return (chunks || []).map((chunk) =>
+            chunk.text !== undefined
+                ? chunk.text
+                : Buffer.from(chunk.buffer || '', 'base64').toString()
+        )
+    }
+
+    static parseJUnit(xml: string): ParsedReport {
+        const parser = new XMLParser({
+            ignoreAttributes: false,
+            attributeNamePrefix: '',
+            textNodeName: '#text',
+            isArray: (name) => JUNIT_ARRAY_ELEMENTS.includes(name),
+        })
+
+        let document: any
+        try {
+            document = parser.parse(xml)
+        } catch {
+            throw new Error('Invalid report: not valid XML')
+        }
+
+        const root = document.testsuites || document
+        if (!root.testsuite) {
+            throw new Error('Invalid report: XML has no <testsuite> elements, expected JUnit XML')
+        }
+
+        const attempts: ImportedTestAttempt[] = []
+        const collect = (suites: any[]) => {
+            for (const suite of suites) {
+                for (const testCase of suite.testcase || []) {
+                    attempts.push(ReportParser.mapTestCase(testCase, suite))
+                }
+                // Some tools nest suites
+                collect(suite.testsuite || [])
+            }
+        }
+        collect(root.testsuite)
+
+        return {
+            format: 'junit',
+            startTime: root.timestamp || root.testsuite[0]?.timestamp,
+            duration: root.time ? Math.round(parseFloat(root.time) * 1000) : undefined,
+            attempts,
+        }
+    }
+
+    private static mapTestCase(testCase: any, suite: any): ImportedTestAttempt {
+        const failure = testCase.failure?.[0] ?? testCase.error?.[0]
+        const systemOut = ReportParser.textOf(testCase['system-out'])
+        const systemErr = ReportParser.textOf(testCase['system-err'])
+
+        // Attachments are listed in <system-out> as [[ATTACHMENT|path]] (Jenkins/GitLab convention)
+        const attachments: ImportedTestAttempt['attachments'] = []
+        const stdout = systemOut
+            .split('\n')
+            .filter((line) => {
+                const match = line.trim().match(/^\[\[ATTACHMENT\|(.+)\]\]$/)
+                if (match) {
+                    attachments.push({
+                        name: match[1].split('/').pop() || match[1],
+                        contentType: '',
+                        path: match[1],
+                    })
+                }
+                return !match
+            })
+            .join('\n')
+
+        const status =
+            failure !== undefined ? 'failed' : testCase.skipped !== undefined ? 'skipped' : 'passed'
+        const failureText = failure !== undefined ? ReportParser.textOf(failure) : ''
+        const failureMessage = typeof failure === 'object' ? failure.message : undefined
+
+        return {
+            // Playwright writes the spec file as the suite name and the describe path
+            // joined with ' › ' as the test case name
+            filePath: testCase.classname || suite.name || 'unknown',
+            titlePath: String(testCase.name).split(' › '),
+            // Playwright's JUnit reporter puts the project name in `hostname`
+            project: suite.hostname || undefined,
+            status,
+            duration: Math.round(parseFloat(testCase.time || '0') * 1000),
+            retry: 0,
+            startTime: suite.timestamp,
+            errorMessage: failureText || failureMessage,
+            errorStack: failureText || undefined,
+            stdout: stdout.trim() ? [stdout] : [],
+            stderr: systemErr.trim() ? [systemErr] : [],
+            attachments,
+        }
+    }
+
+    private static textOf(node: any): string {
+        if (node === undefined || node === null) return ''
+        if (Array.isArray(node)) return node.map(ReportParser.textOf).join('\n')
+        if (typeof node === 'object') return String(node['#text'] ?? '')
+        return String(node)
+    }
+
+    private static mapStatus(status: string): ImportedTestAttempt['status'] {
+        switch (status) {
+            case 'passed':
+                return 'passed'
+            case 'skipped':
+                return 'skipped'
+            case 'timedOut':
+                return 'timedOut'
+            default:
+                return 'failed'
+        }
+    }
+}
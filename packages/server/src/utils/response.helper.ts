@@ -12,6 +12,16 @@ export class ResponseHelper {
         })
     }
 
+    // The request was taken but not carried out yet (e.g. a queued run)
+    static accepted<T>(res: Response, data: T, message?: string): Response {
+        return res.status(202).json({
+            success: true,
+            data,
+            message,
+            timestamp: new Date().toISOString(),
+        })
+    }
+
     static error(res: Response, error: string, message?: string, status: number = 400): Response {
         return res.status(status).json({
             success: false,
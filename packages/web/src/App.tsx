@@ -7,16 +7,20 @@ import {SettingsModal} from '@features/dashboard/components/settings'
 import {DiskSpaceWarningBanner} from '@features/dashboard/components/DiskSpaceWarningBanner'
 import {CIAutoRunPauseBanner} from '@features/dashboard/components/CIAutoRunPauseBanner'
 import {PipelineSkippedBanner} from '@features/dashboard/components/PipelineSkippedBanner'
+import {PipelineStagesBanner} from '@features/dashboard/components/PipelineStagesBanner'
 import {useDiskSpaceWarning} from '@features/dashboard/hooks'
 import {useCIAutoRun} from '@/hooks/useCIAutoRun'
 import {TestsList} from '@features/tests'
+import {RunsList, RunDetail, RunComparison, PipelineHistory} from '@features/runs'
 import {FloatingProgressPanel} from '@features/tests/components/progress/FloatingProgressPanel'
+import {RunQueuePanel} from '@features/tests/components/progress/RunQueuePanel'
 import {LoginPage, setGlobalLogout} from '@features/authentication'
 import {useTestsStore} from '@features/tests/store/testsStore'
 import {useProjectTabs, resolveDefaultProjectTab} from '@/hooks/useProjectTabs'
 import {usePipelineStatus} from '@/hooks/usePipelineStatus'
 import {useProjectStatusSummary} from '@/hooks/useProjectStatusSummary'
 import {useProjectRunStatus} from '@/hooks/useProjectRunStatus'
+import {useRunQueue} from '@/hooks/useRunQueue'
 import {VERSION} from '@/config/version'
 import {useWebSocket} from './hooks/useWebSocket'
 import {config} from '@config/environment.config'
@@ -93,6 +97,7 @@ function App() {
     const {pipeline, applyPipelineEvent} = usePipelineStatus(isAuthenticated)
     const {summary: projectStatusSummary} = useProjectStatusSummary(isAuthenticated)
     const {runningProjects, applyRunStatusEvent} = useProjectRunStatus()
+    const {items: queuedRuns, cancelItem, applyQueueEvent} = useRunQueue(isAuthenticated)
 
     const {
         fetchTests,
@@ -256,6 +261,7 @@ function App() {
         onRunCompleted: triggerCheck,
         onPipelineEvent: applyPipelineEvent,
         onRunStatusEvent: applyRunStatusEvent,
+        onQueueEvent: applyQueueEvent,
     })
 
     useEffect(() => {
@@ -349,6 +355,8 @@ function App() {
                 <CIAutoRunPauseBanner resumeAt={ciPause.resumeAt} onResume={resumeCIAutoRun} />
             )}
 
+            <PipelineStagesBanner pipeline={pipeline} />
+
             <PipelineSkippedBanner
                 pipeline={pipeline}
                 onViewProject={handleViewProjectFromBanner}
@@ -379,6 +387,10 @@ function App() {
                             />
                         }
                     />
+                    <Route path="/runs" element={<RunsList />} />
+                    <Route path="/runs/pipelines" element={<PipelineHistory />} />
+                    <Route path="/runs/:runId" element={<RunDetail />} />
+                    <Route path="/runs/:runId/compare" element={<RunComparison />} />
                     <Route
                         path="/dashboard"
                         element={
@@ -392,6 +404,7 @@ function App() {
 
             {/* Floating Progress Panel */}
             <FloatingProgressPanel />
+            <RunQueuePanel items={queuedRuns} onCancel={cancelItem} />
 
             {/* Footer */}
             <footer className="border-t border-gray-200/70 bg-white/60 backdrop-blur-sm dark:border-white/[0.06] dark:bg-gray-950/40">
@@ -1,32 +1,28 @@
 import {useEffect, useState, useCallback, useRef} from 'react'
-import {AlertTriangle, PartyPopper, BarChart2} from 'lucide-react'
+import {AlertTriangle, BarChart2} from 'lucide-react'
 import {useSearchParams} from 'react-router-dom'
 import {useTestsStore} from '@features/tests/store/testsStore'
 import {useTestStatusCounts} from '@features/tests/hooks/useTestStatusCounts'
-import {useFlakyTests, useTestTimeline} from '../hooks'
+import {useTestTimeline} from '../hooks'
 import {DashboardStats} from './DashboardStats'
+import {FailureGroups} from './FailureGroups'
+import {FlakyTests} from './FlakyTests'
+import {DurationLeaderboard} from './DurationLeaderboard'
 import {AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer} from 'recharts'
 import {useQueryClient} from '@tanstack/react-query'
+import {FailureGroupTest} from '@yshvydak/core'
 import {useWebSocket} from '@/hooks/useWebSocket'
 import {getWebSocketUrl} from '@features/authentication/utils/webSocketUrl'
 import {TestDetailModal} from '@features/tests/components/testDetail'
 
 export default function Dashboard() {
-    const {tests, fetchTests, lastUpdated} = useTestsStore()
+    const {tests, fetchTests, lastUpdated, selectExecution} = useTestsStore()
     const queryClient = useQueryClient()
     const [searchParams, setSearchParams] = useSearchParams()
 
     // Unscoped (no project arg) — total across all projects, matching the /tests
     // "All" badge. Same unlimited DB-aggregated source, so the two never drift.
     const {counts: statusCounts, isLoading: statsLoading, error: statsError} = useTestStatusCounts()
-    const {
-        data: flakyTests,
-        isLoading: flakyLoading,
-        days,
-        threshold,
-        updateDays,
-        updateThreshold,
-    } = useFlakyTests()
     const {data: timelineData, isLoading: timelineLoading} = useTestTimeline(30)
 
     const [webSocketUrl, setWebSocketUrl] = useState<string | null>(null)
@@ -42,6 +38,8 @@ export default function Dashboard() {
     const handleRunCompleted = useCallback(() => {
         queryClient.invalidateQueries({queryKey: ['flaky-tests']})
         queryClient.invalidateQueries({queryKey: ['test-timeline']})
+        queryClient.invalidateQueries({queryKey: ['failure-groups']})
+        queryClient.invalidateQueries({queryKey: ['duration-leaderboard']})
         queryClient.invalidateQueries({queryKey: ['test-status-counts']})
         fetchTests()
     }, [queryClient, fetchTests])
@@ -92,6 +90,12 @@ export default function Dashboard() {
         setSearchParams(params, {replace: false})
     }
 
+    // Opens the test at the execution that failed with the group's error
+    const handleFailureGroupTestClick = (test: FailureGroupTest) => {
+        selectExecution(test.resultId)
+        handleFlakyTestClick(test.testId)
+    }
+
     const handleCloseModal = () => {
         setDetailModalOpen(false)
         setSelectedTestId(null)
@@ -150,116 +154,7 @@ export default function Dashboard() {
             <DashboardStats counts={statusCounts} loading={statsLoading} />
 
             <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
-                <div className="rounded-2xl border border-gray-200/80 bg-white p-6 shadow-card transition-all duration-200 dark:border-white/[0.07] dark:bg-gray-800/70 dark:backdrop-blur-xl">
-                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 gap-3">
-                        <div>
-                            <h2 className="text-lg font-semibold tracking-tight text-gray-900 dark:text-white">
-                                Flaky Tests
-                            </h2>
-                            <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
-                                Tests with intermittent failures
-                            </p>
-                        </div>
-                        <div className="flex items-center gap-2">
-                            <div className="flex items-center gap-2 rounded-xl bg-gray-100/70 px-3 py-1.5 dark:bg-white/[0.04]">
-                                <label className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
-                                    Period
-                                </label>
-                                <select
-                                    value={days}
-                                    onChange={(e) => updateDays(parseInt(e.target.value))}
-                                    className="bg-transparent text-xs font-medium text-gray-900 outline-none dark:text-white">
-                                    <option value="7">7 days</option>
-                                    <option value="14">14 days</option>
-                                    <option value="30">30 days</option>
-                                    <option value="60">60 days</option>
-                                </select>
-                            </div>
-                            <div className="flex items-center gap-2 rounded-xl bg-gray-100/70 px-3 py-1.5 dark:bg-white/[0.04]">
-                                <label className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
-                                    Threshold
-                                </label>
-                                <input
-                                    type="number"
-                                    min="1"
-                                    max="99"
-                                    value={threshold}
-                                    onChange={(e) => updateThreshold(parseInt(e.target.value))}
-                                    className="w-10 bg-transparent text-xs font-medium tabular-nums text-gray-900 outline-none dark:text-white"
-                                />
-                                <span className="text-xs font-medium text-gray-400 dark:text-gray-500">
-                                    %
-                                </span>
-                            </div>
-                        </div>
-                    </div>
-
-                    {flakyLoading ? (
-                        <div className="space-y-3">
-                            {[1, 2, 3].map((i) => (
-                                <div
-                                    key={i}
-                                    className="h-16 animate-pulse rounded-xl bg-gray-100 dark:bg-white/[0.05]"
-                                />
-                            ))}
-                        </div>
-                    ) : !flakyTests || flakyTests.length === 0 ? (
-                        <div className="flex flex-col items-center py-12 text-center">
-                            <div className="mb-3 flex h-14 w-14 items-center justify-center rounded-2xl bg-success-50 ring-1 ring-success-600/15 dark:bg-success-500/10 dark:ring-success-400/20">
-                                <PartyPopper className="h-7 w-7 text-success-500 dark:text-success-400" />
-                            </div>
-                            <p className="text-sm font-semibold text-gray-900 dark:text-white">
-                                No flaky tests detected!
-                            </p>
-                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-500">
-                                All tests are stable
-                            </p>
-                        </div>
-                    ) : (
-                        <div className="stagger space-y-2 max-h-96 overflow-y-auto pr-1">
-                            {flakyTests.map((test) => (
-                                <div
-                                    key={test.testId}
-                                    onClick={() => handleFlakyTestClick(test.testId)}
-                                    className="cursor-pointer rounded-xl border border-gray-200/70 p-3.5 transition-all duration-150 hover:-translate-y-0.5 hover:border-gray-300 hover:shadow-card dark:border-white/[0.06] dark:hover:border-white/10 dark:hover:bg-white/[0.03]">
-                                    <div className="flex items-start justify-between gap-3">
-                                        <div className="flex-1 min-w-0">
-                                            <p className="font-medium text-sm text-gray-900 dark:text-white truncate">
-                                                {test.name}
-                                            </p>
-                                            <p className="mt-0.5 truncate font-mono text-xs text-gray-400 dark:text-gray-500">
-                                                {test.filePath}
-                                            </p>
-                                        </div>
-                                        <div className="flex flex-shrink-0 items-center gap-3">
-                                            <div className="text-right">
-                                                <p className="text-lg font-bold tabular-nums text-warning-600 dark:text-warning-400">
-                                                    {test.flakyPercentage}%
-                                                </p>
-                                                <p className="text-xs tabular-nums text-gray-400 dark:text-gray-500">
-                                                    {test.failedRuns}/{test.totalRuns} failed
-                                                </p>
-                                            </div>
-                                        </div>
-                                    </div>
-                                    <div className="mt-2.5 flex items-center gap-1">
-                                        {test.history.slice(-15).map((status, idx) => (
-                                            <span
-                                                key={idx}
-                                                title={`Run ${idx + 1}: ${status}`}
-                                                className={`h-2 w-3.5 rounded-full ${
-                                                    status === 'passed'
-                                                        ? 'bg-success-500/80 dark:bg-success-400/70'
-                                                        : 'bg-danger-500/80 dark:bg-danger-400/70'
-                                                }`}
-                                            />
-                                        ))}
-                                    </div>
-                                </div>
-                            ))}
-                        </div>
-                    )}
-                </div>
+                <FlakyTests onTestSelect={handleFlakyTestClick} />
 
                 <div className="rounded-2xl border border-gray-200/80 bg-white p-6 shadow-card transition-all duration-200 dark:border-white/[0.07] dark:bg-gray-800/70 dark:backdrop-blur-xl">
                     <div className="mb-6">
@@ -403,6 +298,10 @@ export default function Dashboard() {
                 </div>
             </div>
 
+            <FailureGroups onTestSelect={handleFailureGroupTestClick} />
+
+            <DurationLeaderboard onTestSelect={handleFlakyTestClick} />
+
             <TestDetailModal
                 test={selectedTest || null}
                 isOpen={detailModalOpen}
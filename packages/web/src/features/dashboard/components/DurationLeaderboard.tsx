@@ -0,0 +1,150 @@
+import {useState} from 'react'
+import {Timer} from 'lucide-react'
+import {DurationLeaderboardEntry} from '@yshvydak/core'
+import {useProjectStatusSummary} from '@/hooks/useProjectStatusSummary'
+import {formatDuration} from '@features/tests/utils/formatters'
+import {formatDurationChange} from '@features/runs/utils'
+import {useDurationLeaderboard} from '../hooks'
+
+type LeaderboardView = 'slowest' | 'slowdowns'
+
+interface DurationLeaderboardProps {
+    onTestSelect: (testId: string) => void
+}
+
+export function DurationLeaderboard({onTestSelect}: DurationLeaderboardProps) {
+    const [days, setDays] = useState(30)
+    const [project, setProject] = useState('')
+    const [view, setView] = useState<LeaderboardView>('slowest')
+    const {summary: projects} = useProjectStatusSummary()
+    const {data: leaderboard, isLoading} = useDurationLeaderboard(days, project || undefined)
+
+    const entries: DurationLeaderboardEntry[] = leaderboard?.[view] ?? []
+
+    return (
+        <div className="rounded-2xl border border-gray-200/80 bg-white p-6 shadow-card transition-all duration-200 dark:border-white/[0.07] dark:bg-gray-800/70 dark:backdrop-blur-xl">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between mb-6 gap-3">
+                <div>
+                    <h2 className="text-lg font-semibold tracking-tight text-gray-900 dark:text-white">
+                        Test Durations
+                    </h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+                        Median duration of passed executions
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <div className="flex rounded-xl bg-gray-100/70 p-0.5 dark:bg-white/[0.04]">
+                        {(['slowest', 'slowdowns'] as const).map((option) => (
+                            <button
+                                key={option}
+                                onClick={() => setView(option)}
+                                aria-pressed={view === option}
+                                className={`rounded-lg px-3 py-1 text-xs font-medium transition-colors ${
+                                    view === option
+                                        ? 'bg-white text-gray-900 shadow-soft dark:bg-white/[0.1] dark:text-white'
+                                        : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                                }`}>
+                                {option === 'slowest' ? 'Slowest' : 'Biggest slowdowns'}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2 rounded-xl bg-gray-100/70 px-3 py-1.5 dark:bg-white/[0.04]">
+                        <label
+                            htmlFor="duration-leaderboard-project"
+                            className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                            Project
+                        </label>
+                        <select
+                            id="duration-leaderboard-project"
+                            value={project}
+                            onChange={(e) => setProject(e.target.value)}
+                            className="bg-transparent text-xs font-medium text-gray-900 outline-none dark:text-white">
+                            <option value="">All</option>
+                            {projects.map(({project: name}) => (
+                                <option key={name} value={name}>
+                                    {name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex items-center gap-2 rounded-xl bg-gray-100/70 px-3 py-1.5 dark:bg-white/[0.04]">
+                        <label
+                            htmlFor="duration-leaderboard-period"
+                            className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                            Period
+                        </label>
+                        <select
+                            id="duration-leaderboard-period"
+                            value={days}
+                            onChange={(e) => setDays(parseInt(e.target.value))}
+                            className="bg-transparent text-xs font-medium text-gray-900 outline-none dark:text-white">
+                            <option value="7">7 days</option>
+                            <option value="14">14 days</option>
+                            <option value="30">30 days</option>
+                        </select>
+                    </div>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="space-y-3">
+                    {[1, 2, 3].map((i) => (
+                        <div
+                            key={i}
+                            className="h-12 animate-pulse rounded-xl bg-gray-100 dark:bg-white/[0.05]"
+                        />
+                    ))}
+                </div>
+            ) : entries.length === 0 ? (
+                <div className="flex flex-col items-center py-12 text-center">
+                    <div className="mb-3 flex h-14 w-14 items-center justify-center rounded-2xl bg-gray-100 dark:bg-white/[0.04]">
+                        <Timer className="h-7 w-7 text-gray-400 dark:text-gray-500" />
+                    </div>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                        {view === 'slowest'
+                            ? 'No passed executions in this period'
+                            : 'No tests got slower in this period'}
+                    </p>
+                </div>
+            ) : (
+                <ol className="stagger divide-y divide-gray-100 dark:divide-white/[0.04]">
+                    {entries.map((entry, index) => (
+                        <li key={entry.testId}>
+                            <button
+                                onClick={() => onTestSelect(entry.testId)}
+                                className="flex w-full items-center gap-3 rounded-xl px-2 py-2.5 text-left transition-colors hover:bg-gray-50 dark:hover:bg-white/[0.03]">
+                                <span className="w-5 flex-shrink-0 text-xs font-semibold tabular-nums text-gray-400 dark:text-gray-500">
+                                    {index + 1}
+                                </span>
+                                <span className="min-w-0 flex-1">
+                                    <span className="block truncate text-sm font-medium text-gray-900 dark:text-white">
+                                        {entry.name}
+                                    </span>
+                                    <span className="block truncate font-mono text-xs text-gray-400 dark:text-gray-500">
+                                        {entry.filePath}
+                                        {entry.project && ` · ${entry.project}`}
+                                    </span>
+                                </span>
+                                <span className="flex-shrink-0 text-right text-xs tabular-nums">
+                                    <span className="block text-sm font-semibold text-gray-900 dark:text-white">
+                                        {formatDuration(entry.p50)}
+                                    </span>
+                                    {view === 'slowest' ? (
+                                        <span className="text-gray-400 dark:text-gray-500">
+                                            p95 {formatDuration(entry.p95)}
+                                        </span>
+                                    ) : (
+                                        <span className="text-danger-600 dark:text-danger-400">
+                                            {formatDurationChange(entry.change ?? 0)} from{' '}
+                                            {formatDuration(entry.previousP50 ?? 0)}
+                                        </span>
+                                    )}
+                                </span>
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    )
+}
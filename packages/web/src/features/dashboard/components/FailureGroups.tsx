@@ -0,0 +1,130 @@
+import {useState} from 'react'
+import {ChevronDown, ChevronRight, ShieldCheck} from 'lucide-react'
+import {FailureGroupTest} from '@yshvydak/core'
+import {formatRunDate} from '@features/runs/utils'
+import {useFailureGroups} from '../hooks'
+
+interface FailureGroupsProps {
+    onTestSelect: (test: FailureGroupTest) => void
+}
+
+export function FailureGroups({onTestSelect}: FailureGroupsProps) {
+    const [days, setDays] = useState(7)
+    const [expanded, setExpanded] = useState<string | null>(null)
+    const {data: groups, isLoading} = useFailureGroups(days)
+
+    return (
+        <div className="rounded-2xl border border-gray-200/80 bg-white p-6 shadow-card transition-all duration-200 dark:border-white/[0.07] dark:bg-gray-800/70 dark:backdrop-blur-xl">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 gap-3">
+                <div>
+                    <h2 className="text-lg font-semibold tracking-tight text-gray-900 dark:text-white">
+                        Failure Groups
+                    </h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+                        Failures grouped by the same error
+                    </p>
+                </div>
+                <div className="flex items-center gap-2 self-start rounded-xl bg-gray-100/70 px-3 py-1.5 dark:bg-white/[0.04] sm:self-auto">
+                    <label
+                        htmlFor="failure-groups-period"
+                        className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                        Period
+                    </label>
+                    <select
+                        id="failure-groups-period"
+                        value={days}
+                        onChange={(e) => setDays(parseInt(e.target.value))}
+                        className="bg-transparent text-xs font-medium text-gray-900 outline-none dark:text-white">
+                        <option value="1">24 hours</option>
+                        <option value="7">7 days</option>
+                        <option value="14">14 days</option>
+                        <option value="30">30 days</option>
+                    </select>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="space-y-3">
+                    {[1, 2].map((i) => (
+                        <div
+                            key={i}
+                            className="h-16 animate-pulse rounded-xl bg-gray-100 dark:bg-white/[0.05]"
+                        />
+                    ))}
+                </div>
+            ) : !groups || groups.length === 0 ? (
+                <div className="flex flex-col items-center py-12 text-center">
+                    <div className="mb-3 flex h-14 w-14 items-center justify-center rounded-2xl bg-success-50 ring-1 ring-success-600/15 dark:bg-success-500/10 dark:ring-success-400/20">
+                        <ShieldCheck className="h-7 w-7 text-success-500 dark:text-success-400" />
+                    </div>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                        No failures in this period
+                    </p>
+                </div>
+            ) : (
+                <div className="stagger space-y-2 max-h-[32rem] overflow-y-auto pr-1">
+                    {groups.map((group) => {
+                        const isExpanded = expanded === group.signature
+                        return (
+                            <div
+                                key={group.signature}
+                                className="rounded-xl border border-gray-200/70 dark:border-white/[0.06]">
+                                <button
+                                    onClick={() => setExpanded(isExpanded ? null : group.signature)}
+                                    aria-expanded={isExpanded}
+                                    className="flex w-full items-start gap-3 p-3.5 text-left transition-colors hover:bg-gray-50 dark:hover:bg-white/[0.03]">
+                                    {isExpanded ? (
+                                        <ChevronDown className="mt-0.5 h-4 w-4 flex-shrink-0 text-gray-400" />
+                                    ) : (
+                                        <ChevronRight className="mt-0.5 h-4 w-4 flex-shrink-0 text-gray-400" />
+                                    )}
+                                    <pre className="line-clamp-2 min-w-0 flex-1 whitespace-pre-wrap break-words font-mono text-xs text-danger-700 dark:text-danger-300">
+                                        {group.message}
+                                    </pre>
+                                    <div className="flex-shrink-0 text-right">
+                                        <p className="text-lg font-bold tabular-nums text-danger-600 dark:text-danger-400">
+                                            {group.tests.length}{' '}
+                                            <span className="text-xs font-medium text-gray-400 dark:text-gray-500">
+                                                {group.tests.length === 1 ? 'test' : 'tests'}
+                                            </span>
+                                        </p>
+                                        <p className="text-xs tabular-nums text-gray-400 dark:text-gray-500">
+                                            {group.failures}{' '}
+                                            {group.failures === 1 ? 'failure' : 'failures'} · last{' '}
+                                            {formatRunDate(group.lastFailedAt)}
+                                        </p>
+                                    </div>
+                                </button>
+
+                                {isExpanded && (
+                                    <ul className="divide-y divide-gray-100 border-t border-gray-200/70 dark:divide-white/[0.04] dark:border-white/[0.06]">
+                                        {group.tests.map((test) => (
+                                            <li key={test.testId}>
+                                                <button
+                                                    onClick={() => onTestSelect(test)}
+                                                    className="flex w-full items-center justify-between gap-3 px-4 py-2.5 pl-10 text-left text-xs transition-colors hover:bg-gray-50 dark:hover:bg-white/[0.03]">
+                                                    <span className="min-w-0">
+                                                        <span className="block truncate text-sm font-medium text-gray-900 dark:text-white">
+                                                            {test.name}
+                                                        </span>
+                                                        <span className="block truncate font-mono text-gray-400 dark:text-gray-500">
+                                                            {test.filePath}
+                                                            {test.project && ` · ${test.project}`}
+                                                        </span>
+                                                    </span>
+                                                    <span className="flex-shrink-0 tabular-nums text-gray-500 dark:text-gray-400">
+                                                        {test.failures}×
+                                                    </span>
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,210 @@
+import {PartyPopper, TrendingDown, TrendingUp} from 'lucide-react'
+import {FlakinessTrend} from '@yshvydak/core'
+import {useProjectStatusSummary} from '@/hooks/useProjectStatusSummary'
+import {Button} from '@shared/components'
+import {formatRunDate} from '@features/runs/utils'
+import {useFlakyTests} from '../hooks'
+
+const TREND_LABELS: Record<FlakinessTrend, string> = {
+    rising: 'Getting flakier',
+    falling: 'Stabilizing',
+    stable: 'Stable',
+}
+
+interface FlakyTestsProps {
+    onTestSelect: (testId: string) => void
+}
+
+export function FlakyTests({onTestSelect}: FlakyTestsProps) {
+    const {
+        data: flakyTests,
+        isLoading,
+        isFetching,
+        total,
+        hasMore,
+        loadMore,
+        days,
+        threshold,
+        project,
+        updateDays,
+        updateThreshold,
+        updateProject,
+    } = useFlakyTests()
+    const {summary: projects} = useProjectStatusSummary()
+
+    return (
+        <div className="rounded-2xl border border-gray-200/80 bg-white p-6 shadow-card transition-all duration-200 dark:border-white/[0.07] dark:bg-gray-800/70 dark:backdrop-blur-xl">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6 gap-3">
+                <div>
+                    <h2 className="text-lg font-semibold tracking-tight text-gray-900 dark:text-white">
+                        Flaky Tests
+                        {total > 0 && (
+                            <span className="ml-2 inline-flex items-center rounded-full bg-warning-50 px-2 py-0.5 align-middle text-xs font-medium tabular-nums text-warning-700 ring-1 ring-inset ring-warning-600/15 dark:bg-warning-500/10 dark:text-warning-300 dark:ring-warning-400/20">
+                                {total}
+                            </span>
+                        )}
+                    </h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+                        Tests flipping between pass and fail
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <div className="flex items-center gap-2 rounded-xl bg-gray-100/70 px-3 py-1.5 dark:bg-white/[0.04]">
+                        <label
+                            htmlFor="flaky-tests-project"
+                            className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                            Project
+                        </label>
+                        <select
+                            id="flaky-tests-project"
+                            value={project}
+                            onChange={(e) => updateProject(e.target.value)}
+                            className="bg-transparent text-xs font-medium text-gray-900 outline-none dark:text-white">
+                            <option value="">All</option>
+                            {projects.map(({project: name}) => (
+                                <option key={name} value={name}>
+                                    {name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex items-center gap-2 rounded-xl bg-gray-100/70 px-3 py-1.5 dark:bg-white/[0.04]">
+                        <label
+                            htmlFor="flaky-tests-period"
+                            className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                            Period
+                        </label>
+                        <select
+                            id="flaky-tests-period"
+                            value={days}
+                            onChange={(e) => updateDays(parseInt(e.target.value))}
+                            className="bg-transparent text-xs font-medium text-gray-900 outline-none dark:text-white">
+                            <option value="7">7 days</option>
+                            <option value="14">14 days</option>
+                            <option value="30">30 days</option>
+                            <option value="60">60 days</option>
+                        </select>
+                    </div>
+                    <div className="flex items-center gap-2 rounded-xl bg-gray-100/70 px-3 py-1.5 dark:bg-white/[0.04]">
+                        <label
+                            htmlFor="flaky-tests-threshold"
+                            className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                            Min score
+                        </label>
+                        <input
+                            id="flaky-tests-threshold"
+                            type="number"
+                            min="1"
+                            max="99"
+                            value={threshold}
+                            onChange={(e) => updateThreshold(parseInt(e.target.value))}
+                            className="w-10 bg-transparent text-xs font-medium tabular-nums text-gray-900 outline-none dark:text-white"
+                        />
+                        <span className="text-xs font-medium text-gray-400 dark:text-gray-500">
+                            %
+                        </span>
+                    </div>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="space-y-3">
+                    {[1, 2, 3].map((i) => (
+                        <div
+                            key={i}
+                            className="h-16 animate-pulse rounded-xl bg-gray-100 dark:bg-white/[0.05]"
+                        />
+                    ))}
+                </div>
+            ) : !flakyTests || flakyTests.length === 0 ? (
+                <div className="flex flex-col items-center py-12 text-center">
+                    <div className="mb-3 flex h-14 w-14 items-center justify-center rounded-2xl bg-success-50 ring-1 ring-success-600/15 dark:bg-success-500/10 dark:ring-success-400/20">
+                        <PartyPopper className="h-7 w-7 text-success-500 dark:text-success-400" />
+                    </div>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                        No flaky tests detected!
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-500">
+                        All tests are stable
+                    </p>
+                </div>
+            ) : (
+                <div className="stagger space-y-2 max-h-96 overflow-y-auto pr-1">
+                    {flakyTests.map((test) => (
+                        <div
+                            key={test.testId}
+                            onClick={() => onTestSelect(test.testId)}
+                            className="cursor-pointer rounded-xl border border-gray-200/70 p-3.5 transition-all duration-150 hover:-translate-y-0.5 hover:border-gray-300 hover:shadow-card dark:border-white/[0.06] dark:hover:border-white/10 dark:hover:bg-white/[0.03]">
+                            <div className="flex items-start justify-between gap-3">
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-medium text-sm text-gray-900 dark:text-white truncate">
+                                        {test.name}
+                                    </p>
+                                    <p className="mt-0.5 truncate font-mono text-xs text-gray-400 dark:text-gray-500">
+                                        {test.filePath}
+                                        {test.project && ` · ${test.project}`}
+                                    </p>
+                                </div>
+                                <div className="flex flex-shrink-0 items-center gap-3">
+                                    <div className="text-right">
+                                        <p className="flex items-center justify-end gap-1.5 text-lg font-bold tabular-nums text-warning-600 dark:text-warning-400">
+                                            {test.trend === 'rising' && (
+                                                <TrendingUp
+                                                    aria-label={TREND_LABELS.rising}
+                                                    className="h-4 w-4 text-danger-500 dark:text-danger-400"
+                                                />
+                                            )}
+                                            {test.trend === 'falling' && (
+                                                <TrendingDown
+                                                    aria-label={TREND_LABELS.falling}
+                                                    className="h-4 w-4 text-success-500 dark:text-success-400"
+                                                />
+                                            )}
+                                            {test.score}%
+                                        </p>
+                                        <p className="text-xs tabular-nums text-gray-400 dark:text-gray-500">
+                                            {test.flips} {test.flips === 1 ? 'flip' : 'flips'} in{' '}
+                                            {test.totalRuns} runs
+                                            {test.flakyRuns > 0 &&
+                                                `, ${test.flakyRuns} passed on retry`}
+                                        </p>
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="mt-2.5 flex items-center justify-between gap-3">
+                                <div className="flex items-center gap-1">
+                                    {test.history.slice(-15).map((status, idx) => (
+                                        <span
+                                            key={idx}
+                                            title={`Run ${idx + 1}: ${status}`}
+                                            className={`h-2 w-3.5 rounded-full ${
+                                                status === 'passed'
+                                                    ? 'bg-success-500/80 dark:bg-success-400/70'
+                                                    : status === 'flaky'
+                                                      ? 'bg-warning-500/80 dark:bg-warning-400/70'
+                                                      : 'bg-danger-500/80 dark:bg-danger-400/70'
+                                            }`}
+                                        />
+                                    ))}
+                                </div>
+                                {test.lastFlipAt && (
+                                    <span className="flex-shrink-0 text-xs tabular-nums text-gray-400 dark:text-gray-500">
+                                        last flip {formatRunDate(test.lastFlipAt)}
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+
+                    {hasMore && (
+                        <div className="flex justify-center pt-2">
+                            <Button variant="secondary" loading={isFetching} onClick={loadMore}>
+                                Load more
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
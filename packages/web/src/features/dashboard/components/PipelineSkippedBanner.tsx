@@ -19,7 +19,11 @@ export function PipelineSkippedBanner({pipeline, onViewProject}: PipelineSkipped
     if (!pipeline || pipeline.status !== 'stopped_early') return null
     if (pipeline.pipelineRunId === dismissedRunId) return null
 
-    const failedStep = pipeline.steps.find((s) => s.status === 'failed')
+    // Steps of a stage run side by side, so the first failed step may not be the
+    // one that stopped the pipeline
+    const failedStep =
+        pipeline.steps.find((s) => s.status === 'failed' && (s.stopOnFailure || !s.runId)) ??
+        pipeline.steps.find((s) => s.status === 'failed')
     const skippedSteps = pipeline.steps.filter((s) => s.status === 'skipped')
     if (!failedStep || skippedSteps.length === 0) return null
 
@@ -0,0 +1,110 @@
+import {ReactNode} from 'react'
+import {Ban, Check, ChevronRight, Clock, SkipForward, Workflow, X} from 'lucide-react'
+import {getPipelineStages} from '@/hooks/usePipelineStatus'
+import type {PipelineState, PipelineStep, PipelineStepStatus} from '@/hooks/usePipelineStatus'
+
+interface PipelineStagesBannerProps {
+    pipeline: PipelineState | null
+}
+
+const STEP_STATUS_LABELS: Record<PipelineStepStatus, string> = {
+    queued: 'Queued',
+    running: 'Running',
+    success: 'Passed',
+    failed: 'Failed',
+    skipped: 'Skipped',
+    cancelled: 'Cancelled',
+}
+
+const STEP_STATUS_ICONS: Record<PipelineStepStatus, ReactNode> = {
+    queued: <Clock className="h-3 w-3 text-gray-400 dark:text-gray-500" />,
+    running: (
+        <span className="inline-block h-3 w-3 animate-spin motion-reduce:animate-none rounded-full border-2 border-warning-200 border-t-warning-500 dark:border-warning-500/25 dark:border-t-warning-400" />
+    ),
+    success: <Check className="h-3 w-3 text-success-600 dark:text-success-400" />,
+    failed: <X className="h-3 w-3 text-danger-600 dark:text-danger-400" />,
+    skipped: <SkipForward className="h-3 w-3 text-gray-400 dark:text-gray-500" />,
+    cancelled: <Ban className="h-3 w-3 text-warning-600 dark:text-warning-400" />,
+}
+
+// Status, dependencies and run condition of a step, shown on hover
+function describeStep(step: PipelineStep, steps: PipelineStep[]): string {
+    const parts = [`${step.displayName}: ${STEP_STATUS_LABELS[step.status]}`]
+    if (step.dependsOn && step.dependsOn.length > 0) {
+        const names = step.dependsOn.map(
+            (project) => steps.find((s) => s.project === project)?.displayName ?? project
+        )
+        parts.push(`runs after ${names.join(', ')}`)
+    }
+    if (step.runCondition === 'previous_passed') {
+        parts.push('only if the steps before it passed')
+    } else if (step.runCondition === 'always') {
+        parts.push('always runs')
+    }
+    return parts.join(' · ')
+}
+
+/**
+ * Progress of the running CI pipeline, stage by stage. The steps of a stage
+ * run side by side, so they are grouped together; a step's dependencies and
+ * run condition are in its tooltip.
+ */
+export function PipelineStagesBanner({pipeline}: PipelineStagesBannerProps) {
+    if (!pipeline || pipeline.status !== 'running') return null
+
+    const stages = getPipelineStages(pipeline.steps)
+    const currentStage = stages.findIndex((stage) =>
+        stage.steps.some((step) => step.status === 'running' || step.status === 'queued')
+    )
+
+    return (
+        <div
+            className="shrink-0 border-b border-primary-200/70 bg-primary-50/60 px-3 py-2 md:px-4 dark:border-primary-400/20 dark:bg-primary-500/10"
+            role="status"
+            aria-label="CI pipeline progress">
+            <div className="container mx-auto flex flex-wrap items-center gap-x-3 gap-y-1.5">
+                <span className="flex flex-shrink-0 items-center gap-2 text-sm font-semibold text-primary-800 dark:text-primary-200">
+                    <Workflow className="h-4 w-4 text-primary-600 dark:text-primary-400" />
+                    CI pipeline
+                    {currentStage !== -1 && (
+                        <span className="font-normal text-primary-700 dark:text-primary-300">
+                            · Stage {currentStage + 1} of {stages.length}
+                        </span>
+                    )}
+                </span>
+
+                <ol className="flex flex-wrap items-center gap-1.5">
+                    {stages.map((stage, index) => (
+                        <li key={stage.stage} className="flex items-center gap-1.5">
+                            {index > 0 && (
+                                <ChevronRight className="h-3.5 w-3.5 text-primary-300 dark:text-primary-500/60" />
+                            )}
+                            <span
+                                data-testid="pipeline-stage"
+                                className="flex items-center gap-1 rounded-lg border border-primary-200/70 bg-white/70 px-1 py-0.5 dark:border-white/10 dark:bg-white/[0.04]">
+                                {stage.steps.map((step) => {
+                                    const description = describeStep(step, pipeline.steps)
+                                    return (
+                                        <span
+                                            key={step.project}
+                                            title={description}
+                                            aria-label={description}
+                                            className="inline-flex items-center gap-1 rounded-md px-1.5 py-0.5 text-xs font-medium text-gray-700 dark:text-gray-300">
+                                            {STEP_STATUS_ICONS[step.status]}
+                                            {step.displayName}
+                                            {step.runCondition === 'always' && (
+                                                <span className="text-[10px] font-semibold uppercase text-gray-400 dark:text-gray-500">
+                                                    always
+                                                </span>
+                                            )}
+                                        </span>
+                                    )
+                                })}
+                            </span>
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        </div>
+    )
+}
@@ -22,6 +22,7 @@ const createCounts = (overrides?: Partial<TestStatusCounts>): TestStatusCounts =
     skipped: 0,
     pending: 0,
     noted: 0,
+    quarantined: 0,
     ...overrides,
 })
 
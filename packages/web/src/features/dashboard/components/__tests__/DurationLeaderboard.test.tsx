@@ -0,0 +1,102 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {render, screen, fireEvent} from '@testing-library/react'
+import {DurationLeaderboard as Leaderboard} from '@yshvydak/core'
+import {DurationLeaderboard} from '../DurationLeaderboard'
+import {useDurationLeaderboard} from '../../hooks'
+import {useProjectStatusSummary} from '@/hooks/useProjectStatusSummary'
+
+vi.mock('../../hooks', () => ({
+    useDurationLeaderboard: vi.fn(),
+}))
+
+vi.mock('@/hooks/useProjectStatusSummary', () => ({
+    useProjectStatusSummary: vi.fn(),
+}))
+
+const leaderboard: Leaderboard = {
+    days: 30,
+    slowest: [
+        {
+            testId: 'checkout',
+            name: 'completes checkout',
+            filePath: 'checkout.spec.ts',
+            project: 'chromium',
+            samples: 12,
+            p50: 12500,
+            p95: 18000,
+            min: 9000,
+            max: 20000,
+        },
+    ],
+    slowdowns: [
+        {
+            testId: 'search',
+            name: 'finds products',
+            filePath: 'search.spec.ts',
+            samples: 5,
+            p50: 3000,
+            p95: 3400,
+            min: 2800,
+            max: 3400,
+            previousP50: 1500,
+            change: 100,
+        },
+    ],
+}
+
+describe('DurationLeaderboard', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(useDurationLeaderboard).mockReturnValue({
+            data: leaderboard,
+            isLoading: false,
+        } as any)
+        vi.mocked(useProjectStatusSummary).mockReturnValue({
+            summary: [{project: 'chromium', total: 10, passed: 9, failed: 1, quarantined: 0}],
+            isLoading: false,
+        })
+    })
+
+    it('lists the slowest tests and selects one', () => {
+        const onTestSelect = vi.fn()
+        render(<DurationLeaderboard onTestSelect={onTestSelect} />)
+
+        expect(useDurationLeaderboard).toHaveBeenCalledWith(30, undefined)
+        expect(screen.getByText('12.5s')).toBeInTheDocument()
+        expect(screen.getByText('p95 18.0s')).toBeInTheDocument()
+
+        fireEvent.click(screen.getByText('completes checkout'))
+        expect(onTestSelect).toHaveBeenCalledWith('checkout')
+    })
+
+    it('shows the slowdowns against the previous period', () => {
+        render(<DurationLeaderboard onTestSelect={vi.fn()} />)
+
+        fireEvent.click(screen.getByRole('button', {name: 'Biggest slowdowns'}))
+
+        expect(screen.getByText('finds products')).toBeInTheDocument()
+        expect(screen.getByText(/\+100% from 1\.5s/)).toBeInTheDocument()
+        expect(screen.queryByText('completes checkout')).not.toBeInTheDocument()
+    })
+
+    it('loads the leaderboard of the selected project and period', () => {
+        render(<DurationLeaderboard onTestSelect={vi.fn()} />)
+
+        fireEvent.change(screen.getByLabelText('Project'), {target: {value: 'chromium'}})
+        fireEvent.change(screen.getByLabelText('Period'), {target: {value: '7'}})
+
+        expect(useDurationLeaderboard).toHaveBeenLastCalledWith(7, 'chromium')
+    })
+
+    it('shows an empty state without slowdowns', () => {
+        vi.mocked(useDurationLeaderboard).mockReturnValue({
+            data: {...leaderboard, slowdowns: []},
+            isLoading: false,
+        } as any)
+
+        render(<DurationLeaderboard onTestSelect={vi.fn()} />)
+        fireEvent.click(screen.getByRole('button', {name: 'Biggest slowdowns'}))
+
+        expect(screen.getByText('No tests got slower in this period')).toBeInTheDocument()
+    })
+})
@@ -0,0 +1,88 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {render, screen, fireEvent} from '@testing-library/react'
+import {FailureGroup} from '@yshvydak/core'
+import {FailureGroups} from '../FailureGroups'
+import {useFailureGroups} from '../../hooks'
+
+vi.mock('../../hooks', () => ({
+    useFailureGroups: vi.fn(),
+}))
+
+const groups: FailureGroup[] = [
+    {
+        signature: 'TimeoutError: page.goto: Timeout <n>ms exceeded.',
+        message: 'TimeoutError: page.goto: Timeout 30000ms exceeded.',
+        failures: 3,
+        firstFailedAt: '2026-01-01T10:00:00.000Z',
+        lastFailedAt: '2026-01-02T10:00:00.000Z',
+        tests: [
+            {
+                testId: 'checkout',
+                name: 'completes checkout',
+                filePath: 'checkout.spec.ts',
+                project: 'chromium',
+                resultId: 'exec-2',
+                runId: 'run-2',
+                status: 'failed',
+                failures: 2,
+                lastFailedAt: '2026-01-02T10:00:00.000Z',
+            },
+            {
+                testId: 'profile',
+                name: 'edits profile',
+                filePath: 'profile.spec.ts',
+                resultId: 'exec-1',
+                runId: 'run-1',
+                status: 'timedOut',
+                failures: 1,
+                lastFailedAt: '2026-01-01T10:00:00.000Z',
+            },
+        ],
+    },
+]
+
+describe('FailureGroups', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(useFailureGroups).mockReturnValue({data: groups, isLoading: false} as any)
+    })
+
+    it('shows each group with its test and failure counts', () => {
+        render(<FailureGroups onTestSelect={vi.fn()} />)
+
+        expect(useFailureGroups).toHaveBeenCalledWith(7)
+        expect(
+            screen.getByText('TimeoutError: page.goto: Timeout 30000ms exceeded.')
+        ).toBeInTheDocument()
+        expect(screen.getByText('tests')).toBeInTheDocument()
+        expect(screen.getByText(/3 failures/)).toBeInTheDocument()
+        expect(screen.queryByText('completes checkout')).not.toBeInTheDocument()
+    })
+
+    it('lists the affected tests of an expanded group and selects one', () => {
+        const onTestSelect = vi.fn()
+        render(<FailureGroups onTestSelect={onTestSelect} />)
+
+        fireEvent.click(screen.getByRole('button', {expanded: false}))
+        expect(screen.getByText('edits profile')).toBeInTheDocument()
+
+        fireEvent.click(screen.getByText('completes checkout'))
+        expect(onTestSelect).toHaveBeenCalledWith(groups[0].tests[0])
+    })
+
+    it('loads the groups of the selected period', () => {
+        render(<FailureGroups onTestSelect={vi.fn()} />)
+
+        fireEvent.change(screen.getByLabelText('Period'), {target: {value: '30'}})
+
+        expect(useFailureGroups).toHaveBeenLastCalledWith(30)
+    })
+
+    it('shows an empty state without failures', () => {
+        vi.mocked(useFailureGroups).mockReturnValue({data: [], isLoading: false} as any)
+
+        render(<FailureGroups onTestSelect={vi.fn()} />)
+
+        expect(screen.getByText('No failures in this period')).toBeInTheDocument()
+    })
+})
@@ -0,0 +1,102 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {render, screen, fireEvent} from '@testing-library/react'
+import {FlakyTest} from '@yshvydak/core'
+import {FlakyTests} from '../FlakyTests'
+import {useFlakyTests} from '../../hooks'
+import {useProjectStatusSummary} from '@/hooks/useProjectStatusSummary'
+
+vi.mock('../../hooks', () => ({
+    useFlakyTests: vi.fn(),
+}))
+
+vi.mock('@/hooks/useProjectStatusSummary', () => ({
+    useProjectStatusSummary: vi.fn(),
+}))
+
+const flakyTest: FlakyTest = {
+    testId: 'checkout',
+    name: 'completes checkout',
+    filePath: 'checkout.spec.ts',
+    project: 'chromium',
+    totalRuns: 10,
+    passedRuns: 6,
+    failedRuns: 3,
+    flakyRuns: 1,
+    flips: 4,
+    score: 50,
+    trend: 'rising',
+    lastFlipAt: '2026-01-02T10:00:00.000Z',
+    history: ['passed', 'failed', 'passed', 'flaky'],
+    lastRun: '2026-01-02T10:00:00.000Z',
+}
+
+const hookResult = (overrides: Record<string, unknown> = {}) =>
+    ({
+        data: [flakyTest],
+        isLoading: false,
+        isFetching: false,
+        total: 1,
+        hasMore: false,
+        loadMore: vi.fn(),
+        days: 30,
+        threshold: 10,
+        project: '',
+        updateDays: vi.fn(),
+        updateThreshold: vi.fn(),
+        updateProject: vi.fn(),
+        ...overrides,
+    }) as any
+
+describe('FlakyTests', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(useFlakyTests).mockReturnValue(hookResult())
+        vi.mocked(useProjectStatusSummary).mockReturnValue({
+            summary: [{project: 'chromium', total: 10, passed: 9, failed: 1, quarantined: 0}],
+            isLoading: false,
+        })
+    })
+
+    it('shows the score, trend, flips and last flip of each test', () => {
+        const onTestSelect = vi.fn()
+        render(<FlakyTests onTestSelect={onTestSelect} />)
+
+        expect(screen.getByText('50%')).toBeInTheDocument()
+        expect(screen.getByLabelText('Getting flakier')).toBeInTheDocument()
+        expect(screen.getByText('4 flips in 10 runs, 1 passed on retry')).toBeInTheDocument()
+        expect(screen.getByText(/^last flip/)).toBeInTheDocument()
+
+        fireEvent.click(screen.getByText('completes checkout'))
+        expect(onTestSelect).toHaveBeenCalledWith('checkout')
+    })
+
+    it('scopes the list to the selected project', () => {
+        const updateProject = vi.fn()
+        vi.mocked(useFlakyTests).mockReturnValue(hookResult({updateProject}))
+
+        render(<FlakyTests onTestSelect={vi.fn()} />)
+        fireEvent.change(screen.getByLabelText('Project'), {target: {value: 'chromium'}})
+
+        expect(updateProject).toHaveBeenCalledWith('chromium')
+    })
+
+    it('loads more tests while more are available', () => {
+        const loadMore = vi.fn()
+        vi.mocked(useFlakyTests).mockReturnValue(hookResult({total: 25, hasMore: true, loadMore}))
+
+        render(<FlakyTests onTestSelect={vi.fn()} />)
+        fireEvent.click(screen.getByRole('button', {name: 'Load more'}))
+
+        expect(screen.getByText('25')).toBeInTheDocument()
+        expect(loadMore).toHaveBeenCalled()
+    })
+
+    it('shows an empty state without flaky tests', () => {
+        vi.mocked(useFlakyTests).mockReturnValue(hookResult({data: [], total: 0}))
+
+        render(<FlakyTests onTestSelect={vi.fn()} />)
+
+        expect(screen.getByText('No flaky tests detected!')).toBeInTheDocument()
+        expect(screen.queryByRole('button', {name: 'Load more'})).not.toBeInTheDocument()
+    })
+})
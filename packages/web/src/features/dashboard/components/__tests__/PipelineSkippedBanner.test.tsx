@@ -98,6 +98,42 @@ describe('PipelineSkippedBanner', () => {
         expect(screen.getByText('2 pipeline steps were skipped')).toBeInTheDocument()
     })
 
+    it('names the blocking step when a step beside it failed as well', () => {
+        const pipeline = makePipeline({
+            steps: [
+                {
+                    project: 'UI_Tests',
+                    displayName: 'UI Tests',
+                    stopOnFailure: false,
+                    status: 'failed',
+                    runId: 'run-ui',
+                    stage: 1,
+                },
+                {
+                    project: 'API_Tests',
+                    displayName: 'API Tests',
+                    stopOnFailure: true,
+                    status: 'failed',
+                    runId: 'run-api',
+                    stage: 1,
+                },
+                {
+                    project: 'WEB_Tests',
+                    displayName: 'WEB Tests',
+                    stopOnFailure: false,
+                    status: 'skipped',
+                    stage: 2,
+                },
+            ],
+        })
+
+        render(<PipelineSkippedBanner pipeline={pipeline} onViewProject={vi.fn()} />)
+
+        expect(
+            screen.getByText('API Tests failed and the pipeline is set to stop on failure')
+        ).toBeInTheDocument()
+    })
+
     it('calls onViewProject with the failed step project when the action is clicked', () => {
         const onViewProject = vi.fn()
         render(<PipelineSkippedBanner pipeline={makePipeline()} onViewProject={onViewProject} />)
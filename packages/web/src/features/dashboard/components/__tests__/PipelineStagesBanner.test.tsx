@@ -0,0 +1,73 @@
+import {describe, it, expect} from 'vitest'
+import {render, screen, within} from '@testing-library/react'
+import {PipelineStagesBanner} from '../PipelineStagesBanner'
+import type {PipelineState} from '@/hooks/usePipelineStatus'
+
+function makePipeline(overrides: Partial<PipelineState> = {}): PipelineState {
+    return {
+        pipelineRunId: 'run-1',
+        status: 'running',
+        startedAt: '2026-01-01T00:00:00.000Z',
+        steps: [
+            {
+                project: 'Smoke',
+                displayName: 'Smoke',
+                stopOnFailure: true,
+                status: 'success',
+                stage: 1,
+            },
+            {
+                project: 'API',
+                displayName: 'API Tests',
+                stopOnFailure: false,
+                status: 'running',
+                stage: 2,
+            },
+            {
+                project: 'UI',
+                displayName: 'UI Tests',
+                stopOnFailure: false,
+                status: 'running',
+                stage: 2,
+            },
+            {
+                project: 'Report',
+                displayName: 'Report',
+                stopOnFailure: false,
+                status: 'queued',
+                stage: 3,
+                dependsOn: ['API'],
+                runCondition: 'always',
+            },
+        ],
+        ...overrides,
+    }
+}
+
+describe('PipelineStagesBanner', () => {
+    it('renders nothing when no pipeline is running', () => {
+        const {container, rerender} = render(<PipelineStagesBanner pipeline={null} />)
+        expect(container).toBeEmptyDOMElement()
+
+        rerender(<PipelineStagesBanner pipeline={makePipeline({status: 'completed'})} />)
+        expect(container).toBeEmptyDOMElement()
+    })
+
+    it('groups the steps of each stage and shows the current stage', () => {
+        render(<PipelineStagesBanner pipeline={makePipeline()} />)
+
+        expect(screen.getByText('· Stage 2 of 3')).toBeInTheDocument()
+        const stages = screen.getAllByTestId('pipeline-stage')
+        expect(stages).toHaveLength(3)
+        expect(within(stages[1]).getByLabelText('API Tests: Running')).toBeInTheDocument()
+        expect(within(stages[1]).getByLabelText('UI Tests: Running')).toBeInTheDocument()
+    })
+
+    it('describes the dependencies and run condition of a step', () => {
+        render(<PipelineStagesBanner pipeline={makePipeline()} />)
+
+        expect(
+            screen.getByLabelText('Report: Queued · runs after API Tests · always runs')
+        ).toBeInTheDocument()
+    })
+})
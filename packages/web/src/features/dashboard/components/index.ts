@@ -1,4 +1,7 @@
 export {default as Dashboard} from './Dashboard'
 export {DashboardStats} from './DashboardStats'
+export {FailureGroups} from './FailureGroups'
+export {FlakyTests} from './FlakyTests'
+export {DurationLeaderboard} from './DurationLeaderboard'
 export {default as StatsCard} from './StatsCard'
 export * from './settings'
@@ -6,6 +6,8 @@ import {SettingsTestExecutionSection} from './SettingsTestExecutionSection'
 import {SettingsProjectTabsSection} from './SettingsProjectTabsSection'
 import {SettingsActionsSection} from './SettingsActionsSection'
 import {SettingsStorageSection} from './SettingsStorageSection'
+import {SettingsWebhooksSection} from './SettingsWebhooksSection'
+import {SettingsSchedulesSection} from './SettingsSchedulesSection'
 
 export interface SettingsModalProps {
     isOpen: boolean
@@ -59,6 +61,8 @@ export function SettingsModal({
                         <SettingsThemeSection />
                         <SettingsProjectTabsSection />
                         <SettingsTestExecutionSection />
+                        <SettingsWebhooksSection />
+                        <SettingsSchedulesSection />
                         <SettingsActionsSection activeProject={activeProject} />
                         <div ref={dataRetentionRef}>
                             <SettingsStorageSection />
@@ -1,6 +1,7 @@
 import {useState, useEffect} from 'react'
 import {RefreshCw, ChevronUp, ChevronDown, Minus, Plus} from 'lucide-react'
-import {useProjectTabs, ProjectTabConfig} from '@/hooks/useProjectTabs'
+import {useProjectTabs, ProjectTabConfig, PipelineRunCondition} from '@/hooks/useProjectTabs'
+import {useWebhooks} from '@/hooks/useWebhooks'
 import {SettingsSection} from './SettingsSection'
 
 export function SettingsProjectTabsSection() {
@@ -14,6 +15,7 @@ export function SettingsProjectTabsSection() {
         error,
         reload,
     } = useProjectTabs()
+    const {webhooks} = useWebhooks()
     const [localTabs, setLocalTabs] = useState<ProjectTabConfig[]>([])
     const [localDefault, setLocalDefault] = useState('')
 
@@ -72,15 +74,72 @@ export function SettingsProjectTabsSection() {
                       ...t,
                       inPipeline: !t.inPipeline,
                       // Turning a step out of the pipeline also clears its stop-on-failure
-                      // flag, since it has no meaning outside the pipeline.
+                      // flag, stage, dependencies and run condition, since they have no
+                      // meaning outside the pipeline.
                       stopPipelineOnFailure: !t.inPipeline ? t.stopPipelineOnFailure : false,
+                      pipelineStage: !t.inPipeline ? t.pipelineStage : undefined,
+                      dependsOn: !t.inPipeline ? t.dependsOn : undefined,
+                      runCondition: !t.inPipeline ? t.runCondition : undefined,
                   }
-                : t
+                : {...t, dependsOn: t.dependsOn?.filter((dependency) => dependency !== project)}
         )
         setLocalTabs(updated)
         await updateTabs(updated)
     }
 
+    // Pipeline changes the server rejects (steps waiting for each other) are undone
+    const savePipelineChange = async (updated: ProjectTabConfig[]) => {
+        setLocalTabs(updated)
+        try {
+            await updateTabs(updated)
+        } catch {
+            setLocalTabs(tabs)
+        }
+    }
+
+    const handleStageChange = (project: string, value: string) => {
+        const pipelineStage = value === '' ? undefined : parseInt(value, 10)
+        setLocalTabs((prev) => prev.map((t) => (t.project === project ? {...t, pipelineStage} : t)))
+    }
+
+    const handleStageBlur = async (project: string) => {
+        const tab = localTabs.find((t) => t.project === project)
+        if (!tab) return
+        const valid =
+            tab.pipelineStage !== undefined &&
+            Number.isInteger(tab.pipelineStage) &&
+            tab.pipelineStage >= 1
+        await savePipelineChange(
+            localTabs.map((t) =>
+                t.project === project
+                    ? {...t, pipelineStage: valid ? tab.pipelineStage : undefined}
+                    : t
+            )
+        )
+    }
+
+    const handleRunConditionChange = async (project: string, value: string) => {
+        const runCondition = value === '' ? undefined : (value as PipelineRunCondition)
+        await savePipelineChange(
+            localTabs.map((t) => (t.project === project ? {...t, runCondition} : t))
+        )
+    }
+
+    const handleDependencyToggle = async (project: string, dependency: string) => {
+        await savePipelineChange(
+            localTabs.map((t) => {
+                if (t.project !== project) return t
+                const dependsOn = t.dependsOn ?? []
+                return {
+                    ...t,
+                    dependsOn: dependsOn.includes(dependency)
+                        ? dependsOn.filter((p) => p !== dependency)
+                        : [...dependsOn, dependency],
+                }
+            })
+        )
+    }
+
     const handleWorkersChange = (project: string, value: string) => {
         const workers = value === '' ? undefined : parseInt(value, 10)
         setLocalTabs((prev) => prev.map((t) => (t.project === project ? {...t, workers} : t)))
@@ -119,6 +178,21 @@ export function SettingsProjectTabsSection() {
         await updateTabs(updated)
     }
 
+    const handleWebhookToggle = async (project: string, webhookId: string) => {
+        const updated = localTabs.map((t) => {
+            if (t.project !== project) return t
+            const webhookIds = t.webhookIds ?? []
+            return {
+                ...t,
+                webhookIds: webhookIds.includes(webhookId)
+                    ? webhookIds.filter((id) => id !== webhookId)
+                    : [...webhookIds, webhookId],
+            }
+        })
+        setLocalTabs(updated)
+        await updateTabs(updated)
+    }
+
     const handleMove = async (project: string, direction: 'up' | 'down') => {
         const index = localTabs.findIndex((t) => t.project === project)
         const targetIndex = direction === 'up' ? index - 1 : index + 1
@@ -389,6 +463,144 @@ export function SettingsProjectTabsSection() {
                                             </button>
                                         </div>
                                     </div>
+
+                                    {/* Pipeline stage, dependencies and run condition */}
+                                    {tab.inPipeline && (
+                                        <div className="mt-2.5 flex flex-wrap items-center gap-x-4 gap-y-2 border-t border-gray-200/70 pt-2.5 dark:border-white/[0.06]">
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                                    Stage
+                                                </span>
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    placeholder={String(ciStep)}
+                                                    aria-label={`Pipeline stage for ${tab.project}`}
+                                                    value={tab.pipelineStage ?? ''}
+                                                    onChange={(e) =>
+                                                        handleStageChange(
+                                                            tab.project,
+                                                            e.target.value
+                                                        )
+                                                    }
+                                                    onBlur={() => handleStageBlur(tab.project)}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter') {
+                                                            e.currentTarget.blur()
+                                                        }
+                                                    }}
+                                                    disabled={isSaving}
+                                                    className="h-6 w-10 rounded-lg border border-gray-200 bg-white text-center text-xs text-gray-900 [appearance:textfield] focus:outline-none focus:ring-2 focus:ring-primary-500/60 dark:border-white/10 dark:bg-white/[0.05] dark:text-gray-100 [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none"
+                                                />
+                                            </div>
+
+                                            <span className="h-1 w-1 flex-shrink-0 rounded-full bg-gray-300 dark:bg-white/15" />
+
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                                    Runs
+                                                </span>
+                                                <select
+                                                    aria-label={`Run condition for ${tab.project}`}
+                                                    value={tab.runCondition ?? ''}
+                                                    onChange={(e) => {
+                                                        void handleRunConditionChange(
+                                                            tab.project,
+                                                            e.target.value
+                                                        )
+                                                    }}
+                                                    disabled={isSaving}
+                                                    className="h-6 rounded-lg border border-gray-200 bg-white px-1.5 text-xs text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500/60 dark:border-white/10 dark:bg-white/[0.05] dark:text-gray-100">
+                                                    <option value="">
+                                                        Unless the pipeline stopped
+                                                    </option>
+                                                    <option value="previous_passed">
+                                                        Only if the previous stage passed
+                                                    </option>
+                                                    <option value="always">Always</option>
+                                                </select>
+                                            </div>
+
+                                            {pipelineStepByProject.size > 1 && (
+                                                <>
+                                                    <span className="h-1 w-1 flex-shrink-0 rounded-full bg-gray-300 dark:bg-white/15" />
+
+                                                    <div className="flex flex-wrap items-center gap-1.5">
+                                                        <span className="mr-0.5 text-xs text-gray-500 dark:text-gray-400">
+                                                            After
+                                                        </span>
+                                                        {localTabs
+                                                            .filter(
+                                                                (other) =>
+                                                                    other.inPipeline &&
+                                                                    other.project !== tab.project
+                                                            )
+                                                            .map((other) => {
+                                                                const selected =
+                                                                    tab.dependsOn?.includes(
+                                                                        other.project
+                                                                    ) ?? false
+                                                                return (
+                                                                    <button
+                                                                        key={other.project}
+                                                                        type="button"
+                                                                        aria-pressed={selected}
+                                                                        aria-label={`Run ${tab.project} after ${other.project}`}
+                                                                        onClick={() =>
+                                                                            handleDependencyToggle(
+                                                                                tab.project,
+                                                                                other.project
+                                                                            )
+                                                                        }
+                                                                        disabled={isSaving}
+                                                                        className={`rounded-full border px-2 py-0.5 text-[11px] font-medium transition-colors disabled:opacity-50 ${
+                                                                            selected
+                                                                                ? 'border-primary-500/40 bg-primary-50 text-primary-700 dark:bg-primary-500/10 dark:text-primary-300'
+                                                                                : 'border-gray-200 text-gray-500 hover:border-gray-300 dark:border-white/10 dark:text-gray-400 dark:hover:border-white/20'
+                                                                        }`}>
+                                                                        {other.displayName}
+                                                                    </button>
+                                                                )
+                                                            })}
+                                                    </div>
+                                                </>
+                                            )}
+                                        </div>
+                                    )}
+
+                                    {/* Notification routing */}
+                                    {webhooks.length > 0 && (
+                                        <div className="mt-2.5 flex flex-wrap items-center gap-1.5 border-t border-gray-200/70 pt-2.5 dark:border-white/[0.06]">
+                                            <span className="mr-0.5 text-xs text-gray-500 dark:text-gray-400">
+                                                Notify
+                                            </span>
+                                            {webhooks.map((webhook) => {
+                                                const selected =
+                                                    tab.webhookIds?.includes(webhook.id) ?? false
+                                                return (
+                                                    <button
+                                                        key={webhook.id}
+                                                        type="button"
+                                                        aria-pressed={selected}
+                                                        aria-label={`Notify ${webhook.name} about ${tab.project}`}
+                                                        onClick={() =>
+                                                            handleWebhookToggle(
+                                                                tab.project,
+                                                                webhook.id
+                                                            )
+                                                        }
+                                                        disabled={isSaving}
+                                                        className={`rounded-full border px-2 py-0.5 text-[11px] font-medium transition-colors disabled:opacity-50 ${
+                                                            selected
+                                                                ? 'border-primary-500/40 bg-primary-50 text-primary-700 dark:bg-primary-500/10 dark:text-primary-300'
+                                                                : 'border-gray-200 text-gray-500 hover:border-gray-300 dark:border-white/10 dark:text-gray-400 dark:hover:border-white/20'
+                                                        }`}>
+                                                        {webhook.name}
+                                                    </button>
+                                                )
+                                            })}
+                                        </div>
+                                    )}
                                 </div>
                             )
                         })}
@@ -403,6 +615,12 @@ export function SettingsProjectTabsSection() {
                     All, rerun, and CI pipeline/script triggers alike. The ▲▼ order also sets CI
                     pipeline order ("Step N") for tabs with "In CI pipeline" enabled; "Stop on
                     failure" skips the remaining pipeline steps if that step has any failed tests.
+                    Pipeline steps sharing a stage run in parallel, each stage after the one before
+                    it (a blank stage is the step number). A step with steps picked under "After"
+                    waits only for those instead. "Runs" decides whether a step runs only when the
+                    steps it waits for passed, or even after the pipeline stopped. Webhooks picked
+                    under "Notify" only receive this project's runs and pipeline steps; a webhook
+                    not picked on any tab receives all projects.
                 </p>
             </div>
         </SettingsSection>
@@ -0,0 +1,344 @@
+import {useEffect, useState} from 'react'
+import {Plus, Pencil, Trash2} from 'lucide-react'
+import {Schedule, ScheduleInput, ScheduleRunStatus} from '@yshvydak/core'
+import {Badge, Button} from '@shared/components'
+import {useSchedules} from '@/hooks/useSchedules'
+import {useProjectTabs} from '@/hooks/useProjectTabs'
+import {SettingsSection} from './SettingsSection'
+
+const CRON_PLACEHOLDER = '0 2 * * 1-5'
+
+// Wait for the user to stop typing before previewing an expression
+const PREVIEW_DELAY_MS = 400
+
+const inputClass =
+    'w-full rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 transition-all focus:border-transparent focus:outline-none focus:ring-2 focus:ring-primary-500/60 dark:border-white/10 dark:bg-white/[0.05] dark:text-gray-100 disabled:opacity-50'
+
+const runBadgeVariant: Record<ScheduleRunStatus, 'success' | 'warning' | 'danger'> = {
+    started: 'success',
+    skipped: 'warning',
+    failed: 'danger',
+}
+
+const runLabel: Record<ScheduleRunStatus, string> = {
+    started: 'Started',
+    skipped: 'Skipped',
+    failed: 'Failed',
+}
+
+interface ScheduleFormProps {
+    schedule?: Schedule
+    projects: {project: string; displayName: string}[]
+    previewSchedule: (cron: string) => Promise<string[]>
+    onSave: (input: ScheduleInput) => Promise<void>
+    onCancel: () => void
+}
+
+function ScheduleForm({schedule, projects, previewSchedule, onSave, onCancel}: ScheduleFormProps) {
+    const [name, setName] = useState(schedule?.name ?? '')
+    const [cron, setCron] = useState(schedule?.cron ?? '')
+    const [project, setProject] = useState(schedule?.project ?? '')
+    const [preview, setPreview] = useState<string[]>([])
+    const [previewError, setPreviewError] = useState<string | null>(null)
+    const [isSaving, setIsSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const expression = cron.trim()
+        if (!expression) {
+            setPreview([])
+            setPreviewError(null)
+            return
+        }
+
+        let cancelled = false
+        const timer = setTimeout(async () => {
+            try {
+                const runs = await previewSchedule(expression)
+                if (cancelled) return
+                setPreview(runs)
+                setPreviewError(runs.length === 0 ? 'This expression never fires' : null)
+            } catch (err) {
+                if (cancelled) return
+                setPreview([])
+                setPreviewError(err instanceof Error ? err.message : 'Invalid cron expression')
+            }
+        }, PREVIEW_DELAY_MS)
+
+        return () => {
+            cancelled = true
+            clearTimeout(timer)
+        }
+    }, [cron, previewSchedule])
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setIsSaving(true)
+        setError(null)
+        try {
+            await onSave({
+                name,
+                cron,
+                // Empty runs the whole CI pipeline
+                project: project || null,
+                enabled: schedule?.enabled ?? true,
+            })
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save schedule')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <form
+            onSubmit={handleSubmit}
+            className="space-y-3 rounded-xl border border-gray-200/70 bg-white p-4 dark:border-white/[0.06] dark:bg-white/[0.03]">
+            <div className="grid gap-3 sm:grid-cols-2">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Name"
+                    aria-label="Schedule name"
+                    maxLength={100}
+                    disabled={isSaving}
+                    className={inputClass}
+                />
+                <select
+                    value={project}
+                    onChange={(e) => setProject(e.target.value)}
+                    aria-label="Schedule target"
+                    disabled={isSaving}
+                    className={inputClass}>
+                    <option value="">Whole CI pipeline</option>
+                    {projects.map((tab) => (
+                        <option key={tab.project} value={tab.project}>
+                            {tab.displayName}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div>
+                <input
+                    type="text"
+                    value={cron}
+                    onChange={(e) => setCron(e.target.value)}
+                    placeholder={CRON_PLACEHOLDER}
+                    aria-label="Cron expression"
+                    disabled={isSaving}
+                    className={`${inputClass} font-mono`}
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    minute hour day month weekday, in the server&apos;s time zone. @hourly, @daily
+                    and @weekly work too.
+                </p>
+                {previewError ? (
+                    <p className="mt-1.5 text-xs text-danger-600 dark:text-danger-400">
+                        {previewError}
+                    </p>
+                ) : (
+                    preview.length > 0 && (
+                        <div className="mt-1.5 text-xs text-gray-600 dark:text-gray-300">
+                            <span className="text-gray-500 dark:text-gray-400">Next runs:</span>
+                            <ul className="mt-0.5 space-y-0.5">
+                                {preview.map((run) => (
+                                    <li key={run}>{new Date(run).toLocaleString()}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )
+                )}
+            </div>
+
+            {error && <p className="text-sm text-danger-600 dark:text-danger-400">{error}</p>}
+
+            <div className="flex gap-2">
+                <Button
+                    type="submit"
+                    size="sm"
+                    loading={isSaving}
+                    disabled={!name.trim() || !cron.trim() || Boolean(previewError)}>
+                    {schedule ? 'Save schedule' : 'Add schedule'}
+                </Button>
+                <Button
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    disabled={isSaving}
+                    onClick={onCancel}>
+                    Cancel
+                </Button>
+            </div>
+        </form>
+    )
+}
+
+export function SettingsSchedulesSection() {
+    const {
+        schedules,
+        isLoading,
+        error,
+        createSchedule,
+        updateSchedule,
+        deleteSchedule,
+        previewSchedule,
+    } = useSchedules()
+    const {tabs} = useProjectTabs()
+    // 'new' while adding, a schedule id while editing
+    const [editing, setEditing] = useState<string | null>(null)
+    const [actionError, setActionError] = useState<string | null>(null)
+
+    const projectName = (project: string) =>
+        tabs.find((tab) => tab.project === project)?.displayName ?? project
+
+    const toInput = (schedule: Schedule, changes: Partial<ScheduleInput>): ScheduleInput => ({
+        name: schedule.name,
+        cron: schedule.cron,
+        project: schedule.project ?? null,
+        enabled: schedule.enabled,
+        ...changes,
+    })
+
+    const runAction = async (action: () => Promise<void>) => {
+        setActionError(null)
+        try {
+            await action()
+        } catch (err) {
+            setActionError(err instanceof Error ? err.message : 'Schedule action failed')
+        }
+    }
+
+    return (
+        <SettingsSection
+            title="Schedules"
+            description="Run a project tab or the whole CI pipeline on a cron schedule. A schedule firing while tests are running or while the CI auto-run is paused is skipped.">
+            <div className="space-y-3">
+                {error && <p className="text-sm text-danger-600 dark:text-danger-400">{error}</p>}
+                {actionError && (
+                    <p className="text-sm text-danger-600 dark:text-danger-400">{actionError}</p>
+                )}
+
+                {isLoading && schedules.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Loading…</p>
+                )}
+
+                {schedules.map((schedule) => {
+                    if (editing === schedule.id) {
+                        return (
+                            <ScheduleForm
+                                key={schedule.id}
+                                schedule={schedule}
+                                projects={tabs}
+                                previewSchedule={previewSchedule}
+                                onSave={async (input) => {
+                                    await updateSchedule(schedule.id, input)
+                                    setEditing(null)
+                                }}
+                                onCancel={() => setEditing(null)}
+                            />
+                        )
+                    }
+
+                    return (
+                        <div
+                            key={schedule.id}
+                            className="rounded-xl border border-gray-200/70 bg-white p-3 dark:border-white/[0.06] dark:bg-white/[0.03]">
+                            <div className="flex items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                                        {schedule.name}
+                                        {!schedule.enabled && (
+                                            <span className="ml-2 text-xs font-normal text-gray-400">
+                                                Disabled
+                                            </span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        <span className="font-mono">{schedule.cron}</span>
+                                        {' · '}
+                                        {schedule.project
+                                            ? projectName(schedule.project)
+                                            : 'Whole CI pipeline'}
+                                    </p>
+                                    {schedule.nextRunAt && (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            Next run {new Date(schedule.nextRunAt).toLocaleString()}
+                                        </p>
+                                    )}
+                                    {schedule.lastRunAt && schedule.lastStatus && (
+                                        <p className="mt-1 flex flex-wrap items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+                                            <Badge
+                                                variant={runBadgeVariant[schedule.lastStatus]}
+                                                size="sm">
+                                                {runLabel[schedule.lastStatus]}
+                                            </Badge>
+                                            {new Date(schedule.lastRunAt).toLocaleString()}
+                                            {schedule.lastMessage && (
+                                                <span>· {schedule.lastMessage}</span>
+                                            )}
+                                        </p>
+                                    )}
+                                </div>
+                                <label className="flex flex-shrink-0 items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={schedule.enabled}
+                                        aria-label={`Enable ${schedule.name}`}
+                                        onChange={() =>
+                                            runAction(() =>
+                                                updateSchedule(
+                                                    schedule.id,
+                                                    toInput(schedule, {enabled: !schedule.enabled})
+                                                )
+                                            )
+                                        }
+                                    />
+                                    Enabled
+                                </label>
+                            </div>
+
+                            <div className="mt-2 flex flex-wrap items-center gap-3 text-xs font-medium">
+                                <button
+                                    type="button"
+                                    onClick={() => setEditing(schedule.id)}
+                                    className="flex items-center gap-1 text-gray-500 transition-colors hover:text-primary-600 dark:text-gray-400 dark:hover:text-primary-400">
+                                    <Pencil className="h-3.5 w-3.5" />
+                                    Edit
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => runAction(() => deleteSchedule(schedule.id))}
+                                    className="flex items-center gap-1 text-gray-500 transition-colors hover:text-danger-600 dark:text-gray-400 dark:hover:text-danger-400">
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    )
+                })}
+
+                {editing === 'new' ? (
+                    <ScheduleForm
+                        projects={tabs}
+                        previewSchedule={previewSchedule}
+                        onSave={async (input) => {
+                            await createSchedule(input)
+                            setEditing(null)
+                        }}
+                        onCancel={() => setEditing(null)}
+                    />
+                ) : (
+                    <button
+                        type="button"
+                        onClick={() => setEditing('new')}
+                        className="flex items-center gap-1.5 text-xs font-medium text-gray-500 transition-colors hover:text-primary-600 dark:text-gray-400 dark:hover:text-primary-400">
+                        <Plus className="h-3.5 w-3.5" />
+                        Add schedule
+                    </button>
+                )}
+            </div>
+        </SettingsSection>
+    )
+}
@@ -2,6 +2,7 @@ import {usePlaywrightWorkers} from '@/hooks/usePlaywrightWorkers'
 import {useAutoDiscoverSetting} from '@/hooks/useAutoDiscoverSetting'
 import {usePlaywrightProject} from '@/hooks/usePlaywrightProject'
 import {useCIAutoRun} from '@/hooks/useCIAutoRun'
+import {useSkipQuarantinedTests} from '@/hooks/useSkipQuarantinedTests'
 import {SettingsSection} from './SettingsSection'
 
 const DURATION_OPTIONS = [
@@ -29,6 +30,11 @@ export function SettingsTestExecutionSection() {
         reloadProjects,
     } = usePlaywrightProject()
     const {pause, isSaving: isSavingPause, pauseFor, resume} = useCIAutoRun()
+    const {
+        enabled: skipQuarantined,
+        isSaving: isSavingSkipQuarantined,
+        setEnabled: setSkipQuarantined,
+    } = useSkipQuarantinedTests()
 
     const isPaused = pause?.paused ?? false
     const resumeAt = pause?.resumeAt ?? null
@@ -86,6 +92,27 @@ export function SettingsTestExecutionSection() {
                     </p>
                 </div>
 
+                {/* Skip quarantined tests — applies to every Run All, manual or CI */}
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                            Skip quarantined tests
+                        </p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            Leave quarantined tests out of Run All and the CI pipeline instead of
+                            running them and ignoring their failures
+                        </p>
+                    </div>
+                    <button
+                        role="switch"
+                        aria-checked={skipQuarantined}
+                        disabled={isSavingSkipQuarantined}
+                        onClick={() => setSkipQuarantined(!skipQuarantined)}
+                        className={toggleClass(skipQuarantined) + ' disabled:opacity-50'}>
+                        <span className={toggleKnobClass(skipQuarantined)} />
+                    </button>
+                </div>
+
                 {/* Manual run defaults — only affect the dashboard's own Run All / rerun buttons */}
                 <div className="rounded-2xl border border-gray-200/70 bg-gray-50/50 px-4 py-3 space-y-4 dark:border-white/[0.06] dark:bg-white/[0.02]">
                     <p className="text-xs font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
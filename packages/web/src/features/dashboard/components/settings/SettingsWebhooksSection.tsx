@@ -0,0 +1,498 @@
+import {useState} from 'react'
+import {Plus, Send, Pencil, Trash2, History} from 'lucide-react'
+import {Webhook, WebhookDelivery, WebhookEvent, WebhookFormat, WebhookInput} from '@yshvydak/core'
+import {Badge, Button} from '@shared/components'
+import {useWebhooks} from '@/hooks/useWebhooks'
+import {SettingsSection} from './SettingsSection'
+
+const EVENT_OPTIONS: {event: WebhookEvent; label: string; description: string}[] = [
+    {event: 'process:ended', label: 'Run finished', description: 'Totals of every finished run'},
+    {
+        event: 'pipeline:completed',
+        label: 'Pipeline finished',
+        description: 'Status and steps of a CI pipeline',
+    },
+    {
+        event: 'test:new-failures',
+        label: 'New failures',
+        description: 'Tests that failed after passing in the previous run',
+    },
+    {event: 'test:flaky', label: 'Flaky tests', description: 'Tests that passed on a retry'},
+]
+
+const FORMAT_OPTIONS: {format: WebhookFormat; label: string}[] = [
+    {format: 'json', label: 'JSON payload'},
+    {format: 'slack', label: 'Slack message'},
+    {format: 'teams', label: 'Microsoft Teams card'},
+]
+
+const TEMPLATE_PLACEHOLDER =
+    '{"text": "{{event}}: run {{data.runId}} has {{data.failedTests}} failures"}'
+
+const inputClass =
+    'w-full rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 transition-all focus:border-transparent focus:outline-none focus:ring-2 focus:ring-primary-500/60 dark:border-white/10 dark:bg-white/[0.05] dark:text-gray-100 disabled:opacity-50'
+
+const deliveryBadgeVariant = {
+    success: 'success',
+    failed: 'danger',
+    pending: 'neutral',
+} as const
+
+function DeliveryStatus({delivery}: {delivery: WebhookDelivery}) {
+    return (
+        <Badge variant={deliveryBadgeVariant[delivery.status]} size="sm">
+            {delivery.status === 'pending'
+                ? 'Pending'
+                : delivery.responseStatus
+                  ? `HTTP ${delivery.responseStatus}`
+                  : 'Failed'}
+        </Badge>
+    )
+}
+
+interface WebhookFormProps {
+    webhook?: Webhook
+    onSave: (input: WebhookInput) => Promise<void>
+    onCancel: () => void
+}
+
+function WebhookForm({webhook, onSave, onCancel}: WebhookFormProps) {
+    const [name, setName] = useState(webhook?.name ?? '')
+    const [url, setUrl] = useState(webhook?.url ?? '')
+    const [secret, setSecret] = useState('')
+    const [removeSecret, setRemoveSecret] = useState(false)
+    const [events, setEvents] = useState<WebhookEvent[]>(webhook?.events ?? ['process:ended'])
+    const [format, setFormat] = useState<WebhookFormat>(webhook?.format ?? 'json')
+    const [template, setTemplate] = useState(webhook?.template ?? '')
+    const [isSaving, setIsSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const toggleEvent = (event: WebhookEvent) => {
+        setEvents((prev) =>
+            prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+        )
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setIsSaving(true)
+        setError(null)
+        try {
+            await onSave({
+                name,
+                url,
+                events,
+                format,
+                // Chat messages are built by the server, templates only shape JSON payloads
+                template: format === 'json' ? template.trim() || null : null,
+                enabled: webhook?.enabled ?? true,
+                // An empty field keeps the stored secret when editing
+                ...(removeSecret ? {secret: null} : secret ? {secret} : {}),
+            })
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save webhook')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <form
+            onSubmit={handleSubmit}
+            className="space-y-3 rounded-xl border border-gray-200/70 bg-white p-4 dark:border-white/[0.06] dark:bg-white/[0.03]">
+            <div className="grid gap-3 sm:grid-cols-2">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Name"
+                    aria-label="Webhook name"
+                    maxLength={100}
+                    disabled={isSaving}
+                    className={inputClass}
+                />
+                <input
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="https://example.com/hooks/tests"
+                    aria-label="Webhook URL"
+                    disabled={isSaving}
+                    className={inputClass}
+                />
+            </div>
+
+            <div>
+                <input
+                    type="password"
+                    value={secret}
+                    onChange={(e) => setSecret(e.target.value)}
+                    placeholder={
+                        webhook?.hasSecret
+                            ? 'Signing secret (leave empty to keep the current one)'
+                            : 'Signing secret (optional)'
+                    }
+                    aria-label="Signing secret"
+                    maxLength={200}
+                    disabled={isSaving || removeSecret}
+                    autoComplete="new-password"
+                    className={inputClass}
+                />
+                {webhook?.hasSecret && (
+                    <label className="mt-1.5 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                        <input
+                            type="checkbox"
+                            checked={removeSecret}
+                            onChange={(e) => setRemoveSecret(e.target.checked)}
+                            disabled={isSaving}
+                        />
+                        Remove secret (stop signing deliveries)
+                    </label>
+                )}
+            </div>
+
+            <fieldset className="space-y-1.5">
+                <legend className="mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Events
+                </legend>
+                {EVENT_OPTIONS.map(({event, label, description}) => (
+                    <label key={event} className="flex items-start gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            className="mt-1"
+                            checked={events.includes(event)}
+                            onChange={() => toggleEvent(event)}
+                            disabled={isSaving}
+                        />
+                        <span>
+                            <span className="text-gray-700 dark:text-gray-300">{label}</span>
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">
+                                {description}
+                            </span>
+                        </span>
+                    </label>
+                ))}
+            </fieldset>
+
+            <div>
+                <label
+                    htmlFor="webhook-format"
+                    className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Format
+                </label>
+                <select
+                    id="webhook-format"
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as WebhookFormat)}
+                    disabled={isSaving}
+                    className={inputClass}>
+                    {FORMAT_OPTIONS.map((option) => (
+                        <option key={option.format} value={option.format}>
+                            {option.label}
+                        </option>
+                    ))}
+                </select>
+                {format !== 'json' && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        Posts a summary with links back into the dashboard. Use the incoming webhook
+                        URL of the channel.
+                    </p>
+                )}
+            </div>
+
+            {format === 'json' && (
+                <div>
+                    <label
+                        htmlFor="webhook-template"
+                        className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Body template <span className="font-normal text-gray-400">(optional)</span>
+                    </label>
+                    <textarea
+                        id="webhook-template"
+                        value={template}
+                        onChange={(e) => setTemplate(e.target.value)}
+                        placeholder={TEMPLATE_PLACEHOLDER}
+                        rows={3}
+                        disabled={isSaving}
+                        className={`${inputClass} font-mono text-xs`}
+                    />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        JSON with {'{{path}}'} placeholders into the payload (event, timestamp,
+                        data). Put string values inside quotes. Empty sends the full payload.
+                    </p>
+                </div>
+            )}
+
+            {error && <p className="text-sm text-danger-600 dark:text-danger-400">{error}</p>}
+
+            <div className="flex gap-2">
+                <Button
+                    type="submit"
+                    size="sm"
+                    loading={isSaving}
+                    disabled={!name.trim() || !url.trim() || events.length === 0}>
+                    {webhook ? 'Save webhook' : 'Add webhook'}
+                </Button>
+                <Button
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    disabled={isSaving}
+                    onClick={onCancel}>
+                    Cancel
+                </Button>
+            </div>
+        </form>
+    )
+}
+
+export function SettingsWebhooksSection() {
+    const {
+        webhooks,
+        isLoading,
+        error,
+        createWebhook,
+        updateWebhook,
+        deleteWebhook,
+        sendTestEvent,
+        getDeliveries,
+    } = useWebhooks()
+    // 'new' while adding, a webhook id while editing
+    const [editing, setEditing] = useState<string | null>(null)
+    const [testResults, setTestResults] = useState<Record<string, WebhookDelivery | string>>({})
+    const [sendingId, setSendingId] = useState<string | null>(null)
+    const [logId, setLogId] = useState<string | null>(null)
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+    const [actionError, setActionError] = useState<string | null>(null)
+
+    const toInput = (webhook: Webhook, changes: Partial<WebhookInput>): WebhookInput => ({
+        name: webhook.name,
+        url: webhook.url,
+        events: webhook.events,
+        format: webhook.format,
+        template: webhook.template ?? null,
+        enabled: webhook.enabled,
+        ...changes,
+    })
+
+    const runAction = async (action: () => Promise<void>) => {
+        setActionError(null)
+        try {
+            await action()
+        } catch (err) {
+            setActionError(err instanceof Error ? err.message : 'Webhook action failed')
+        }
+    }
+
+    const handleSendTest = async (id: string) => {
+        setSendingId(id)
+        try {
+            const delivery = await sendTestEvent(id)
+            setTestResults((prev) => ({...prev, [id]: delivery}))
+        } catch (err) {
+            setTestResults((prev) => ({
+                ...prev,
+                [id]: err instanceof Error ? err.message : 'Failed to send test event',
+            }))
+        } finally {
+            setSendingId(null)
+        }
+    }
+
+    const handleToggleLog = (id: string) =>
+        runAction(async () => {
+            if (logId === id) {
+                setLogId(null)
+                return
+            }
+            setDeliveries(await getDeliveries(id))
+            setLogId(id)
+        })
+
+    return (
+        <SettingsSection
+            title="Webhooks"
+            description="POST run, pipeline and test events to chat, incident or CI tools. Deliveries are signed with the secret (X-Webhook-Signature: sha256=HMAC of the body) and retried on errors.">
+            <div className="space-y-3">
+                {error && <p className="text-sm text-danger-600 dark:text-danger-400">{error}</p>}
+                {actionError && (
+                    <p className="text-sm text-danger-600 dark:text-danger-400">{actionError}</p>
+                )}
+
+                {isLoading && webhooks.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Loading…</p>
+                )}
+
+                {webhooks.map((webhook) => {
+                    const testResult = testResults[webhook.id]
+
+                    if (editing === webhook.id) {
+                        return (
+                            <WebhookForm
+                                key={webhook.id}
+                                webhook={webhook}
+                                onSave={async (input) => {
+                                    await updateWebhook(webhook.id, input)
+                                    setEditing(null)
+                                }}
+                                onCancel={() => setEditing(null)}
+                            />
+                        )
+                    }
+
+                    return (
+                        <div
+                            key={webhook.id}
+                            className="rounded-xl border border-gray-200/70 bg-white p-3 dark:border-white/[0.06] dark:bg-white/[0.03]">
+                            <div className="flex items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                                        {webhook.name}
+                                        {!webhook.enabled && (
+                                            <span className="ml-2 text-xs font-normal text-gray-400">
+                                                Disabled
+                                            </span>
+                                        )}
+                                    </p>
+                                    <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+                                        {webhook.url}
+                                    </p>
+                                    <div className="mt-1.5 flex flex-wrap gap-1">
+                                        {webhook.events.map((event) => (
+                                            <Badge key={event} size="sm">
+                                                {EVENT_OPTIONS.find((o) => o.event === event)
+                                                    ?.label ?? event}
+                                            </Badge>
+                                        ))}
+                                        {webhook.format !== 'json' && (
+                                            <Badge variant="info" size="sm">
+                                                {FORMAT_OPTIONS.find(
+                                                    (o) => o.format === webhook.format
+                                                )?.label ?? webhook.format}
+                                            </Badge>
+                                        )}
+                                        {webhook.hasSecret && (
+                                            <Badge variant="info" size="sm">
+                                                Signed
+                                            </Badge>
+                                        )}
+                                    </div>
+                                </div>
+                                <label className="flex flex-shrink-0 items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={webhook.enabled}
+                                        aria-label={`Enable ${webhook.name}`}
+                                        onChange={() =>
+                                            runAction(() =>
+                                                updateWebhook(
+                                                    webhook.id,
+                                                    toInput(webhook, {enabled: !webhook.enabled})
+                                                )
+                                            )
+                                        }
+                                    />
+                                    Enabled
+                                </label>
+                            </div>
+
+                            <div className="mt-2 flex flex-wrap items-center gap-3 text-xs font-medium">
+                                <button
+                                    type="button"
+                                    onClick={() => handleSendTest(webhook.id)}
+                                    disabled={sendingId === webhook.id}
+                                    className="flex items-center gap-1 text-gray-500 transition-colors hover:text-primary-600 disabled:opacity-50 dark:text-gray-400 dark:hover:text-primary-400">
+                                    <Send className="h-3.5 w-3.5" />
+                                    {sendingId === webhook.id ? 'Sending…' : 'Send test event'}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => handleToggleLog(webhook.id)}
+                                    className="flex items-center gap-1 text-gray-500 transition-colors hover:text-primary-600 dark:text-gray-400 dark:hover:text-primary-400">
+                                    <History className="h-3.5 w-3.5" />
+                                    {logId === webhook.id ? 'Hide deliveries' : 'Deliveries'}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => setEditing(webhook.id)}
+                                    className="flex items-center gap-1 text-gray-500 transition-colors hover:text-primary-600 dark:text-gray-400 dark:hover:text-primary-400">
+                                    <Pencil className="h-3.5 w-3.5" />
+                                    Edit
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => runAction(() => deleteWebhook(webhook.id))}
+                                    className="flex items-center gap-1 text-gray-500 transition-colors hover:text-danger-600 dark:text-gray-400 dark:hover:text-danger-400">
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                    Delete
+                                </button>
+                                {testResult &&
+                                    (typeof testResult === 'string' ? (
+                                        <span className="text-danger-600 dark:text-danger-400">
+                                            {testResult}
+                                        </span>
+                                    ) : (
+                                        <span className="flex items-center gap-1.5 font-normal text-gray-500 dark:text-gray-400">
+                                            <DeliveryStatus delivery={testResult} />
+                                            {testResult.error}
+                                        </span>
+                                    ))}
+                            </div>
+
+                            {logId === webhook.id && (
+                                <ul className="mt-3 space-y-1 border-t border-gray-100 pt-2 dark:border-white/[0.06]">
+                                    {deliveries.length === 0 && (
+                                        <li className="text-xs text-gray-500 dark:text-gray-400">
+                                            No deliveries yet
+                                        </li>
+                                    )}
+                                    {deliveries.map((delivery) => (
+                                        <li
+                                            key={delivery.id}
+                                            className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+                                            <DeliveryStatus delivery={delivery} />
+                                            <span className="font-mono">{delivery.event}</span>
+                                            <span className="text-gray-400">
+                                                {new Date(delivery.createdAt).toLocaleString()}
+                                            </span>
+                                            {delivery.attempts > 1 && (
+                                                <span className="text-gray-400">
+                                                    {delivery.attempts} attempts
+                                                </span>
+                                            )}
+                                            {delivery.error && (
+                                                <span
+                                                    className="truncate text-danger-600 dark:text-danger-400"
+                                                    title={delivery.error}>
+                                                    {delivery.error}
+                                                </span>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )
+                })}
+
+                {editing === 'new' ? (
+                    <WebhookForm
+                        onSave={async (input) => {
+                            await createWebhook(input)
+                            setEditing(null)
+                        }}
+                        onCancel={() => setEditing(null)}
+                    />
+                ) : (
+                    <button
+                        type="button"
+                        onClick={() => setEditing('new')}
+                        className="flex items-center gap-1.5 text-xs font-medium text-gray-500 transition-colors hover:text-primary-600 dark:text-gray-400 dark:hover:text-primary-400">
+                        <Plus className="h-3.5 w-3.5" />
+                        Add webhook
+                    </button>
+                )}
+            </div>
+        </SettingsSection>
+    )
+}
@@ -4,3 +4,5 @@ export {SettingsThemeSection} from './SettingsThemeSection'
 export {SettingsTestExecutionSection} from './SettingsTestExecutionSection'
 export {SettingsStorageSection} from './SettingsStorageSection'
 export {SettingsActionsSection} from './SettingsActionsSection'
+export {SettingsWebhooksSection} from './SettingsWebhooksSection'
+export {SettingsSchedulesSection} from './SettingsSchedulesSection'
@@ -6,6 +6,8 @@ export {useFlakyTests} from './useFlakyTests'
 export type {FlakyTest} from './useFlakyTests'
 export {useTestTimeline} from './useTestTimeline'
 export type {TimelineDataPoint} from './useTestTimeline'
+export {useFailureGroups} from './useFailureGroups'
+export {useDurationLeaderboard} from './useDurationLeaderboard'
 export {useStorageStats} from './useStorageStats'
 export type {StorageStats, DiskStats} from './useStorageStats'
 export {useDiskThresholds} from './useDiskThresholds'
@@ -0,0 +1,30 @@
+import {useQuery} from '@tanstack/react-query'
+import {DurationLeaderboard} from '@yshvydak/core'
+import {authFetch} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+
+async function fetchDurationLeaderboard(
+    days: number,
+    project?: string
+): Promise<DurationLeaderboard> {
+    const params = new URLSearchParams({days: String(days)})
+    if (project) {
+        params.set('project', project)
+    }
+
+    const response = await authFetch(`${config.api.baseUrl}/tests/duration-leaderboard?${params}`)
+    if (!response.ok) {
+        throw new Error('Failed to fetch duration leaderboard')
+    }
+    const result = await response.json()
+    return result.data
+}
+
+export function useDurationLeaderboard(days: number = 30, project?: string) {
+    return useQuery({
+        queryKey: ['duration-leaderboard', days, project ?? null],
+        queryFn: () => fetchDurationLeaderboard(days, project),
+        refetchInterval: false,
+        staleTime: 60000,
+    })
+}
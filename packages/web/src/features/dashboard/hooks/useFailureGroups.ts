@@ -0,0 +1,22 @@
+import {useQuery} from '@tanstack/react-query'
+import {FailureGroup} from '@yshvydak/core'
+import {authFetch} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+
+async function fetchFailureGroups(days: number): Promise<FailureGroup[]> {
+    const response = await authFetch(`${config.api.baseUrl}/tests/failure-groups?days=${days}`)
+    if (!response.ok) {
+        throw new Error('Failed to fetch failure groups')
+    }
+    const result = await response.json()
+    return result.data || []
+}
+
+export function useFailureGroups(days: number = 7) {
+    return useQuery({
+        queryKey: ['failure-groups', days],
+        queryFn: () => fetchFailureGroups(days),
+        refetchInterval: false,
+        staleTime: 60000,
+    })
+}
@@ -1,70 +1,105 @@
 import {useQuery} from '@tanstack/react-query'
+import {FlakyTest} from '@yshvydak/core'
 import {authFetch} from '@features/authentication/utils/authFetch'
 import {config} from '@config/environment.config'
 import {useState, useEffect} from 'react'
 
-export interface FlakyTest {
-    testId: string
-    name: string
-    filePath: string
-    totalRuns: number
-    failedRuns: number
-    passedRuns: number
-    flakyPercentage: number
-    history: string[]
-    lastRun: string
-}
+export type {FlakyTest}
+
+// Tests shown per "Load more" step
+export const FLAKY_TESTS_PAGE_SIZE = 20
 
 interface UseFlakyTestsOptions {
     days?: number
     threshold?: number
 }
 
-async function fetchFlakyTests(days: number, threshold: number): Promise<FlakyTest[]> {
-    const response = await authFetch(
-        `${config.api.baseUrl}/tests/flaky?days=${days}&threshold=${threshold}`
-    )
+interface FlakyTestsPage {
+    tests: FlakyTest[]
+    total: number
+}
+
+async function fetchFlakyTests(
+    days: number,
+    threshold: number,
+    project: string,
+    limit: number
+): Promise<FlakyTestsPage> {
+    const params = new URLSearchParams({
+        days: String(days),
+        threshold: String(threshold),
+        limit: String(limit),
+    })
+    if (project) {
+        params.set('project', project)
+    }
+
+    const response = await authFetch(`${config.api.baseUrl}/tests/flaky?${params}`)
     if (!response.ok) {
         throw new Error('Failed to fetch flaky tests')
     }
     const result = await response.json()
-    return result.data || []
+    const tests = result.data || []
+    // count is the total number of flaky tests, the page holds at most `limit`
+    return {tests, total: typeof result.count === 'number' ? result.count : tests.length}
 }
 
 export function useFlakyTests(options?: UseFlakyTestsOptions) {
     const [days, setDays] = useState(options?.days || 30)
     const [threshold, setThreshold] = useState(options?.threshold || 10)
+    const [project, setProject] = useState('')
+    const [limit, setLimit] = useState(FLAKY_TESTS_PAGE_SIZE)
 
     useEffect(() => {
         const savedDays = localStorage.getItem('dashboard_flaky_days')
         const savedThreshold = localStorage.getItem('dashboard_flaky_threshold')
+        const savedProject = localStorage.getItem('dashboard_flaky_project')
 
         if (savedDays) setDays(parseInt(savedDays))
         if (savedThreshold) setThreshold(parseInt(savedThreshold))
+        if (savedProject) setProject(savedProject)
     }, [])
 
     const query = useQuery({
-        queryKey: ['flaky-tests', days, threshold],
-        queryFn: () => fetchFlakyTests(days, threshold),
+        queryKey: ['flaky-tests', days, threshold, project, limit],
+        queryFn: () => fetchFlakyTests(days, threshold, project, limit),
+        placeholderData: (previous) => previous,
         refetchInterval: false,
         staleTime: 60000,
     })
 
     const updateDays = (newDays: number) => {
         setDays(newDays)
+        setLimit(FLAKY_TESTS_PAGE_SIZE)
         localStorage.setItem('dashboard_flaky_days', newDays.toString())
     }
 
     const updateThreshold = (newThreshold: number) => {
         setThreshold(newThreshold)
+        setLimit(FLAKY_TESTS_PAGE_SIZE)
         localStorage.setItem('dashboard_flaky_threshold', newThreshold.toString())
     }
 
+    const updateProject = (newProject: string) => {
+        setProject(newProject)
+        setLimit(FLAKY_TESTS_PAGE_SIZE)
+        localStorage.setItem('dashboard_flaky_project', newProject)
+    }
+
+    const tests = query.data?.tests
+    const total = query.data?.total ?? 0
+
     return {
         ...query,
+        data: tests,
+        total,
+        hasMore: !!tests && total > tests.length,
+        loadMore: () => setLimit((current) => current + FLAKY_TESTS_PAGE_SIZE),
         days,
         threshold,
+        project,
         updateDays,
         updateThreshold,
+        updateProject,
     }
 }
@@ -0,0 +1,234 @@
+import {useCallback, useMemo} from 'react'
+import {useNavigate} from 'react-router-dom'
+import {useQueryClient} from '@tanstack/react-query'
+import {AlertTriangle, ArrowLeft, Play, RotateCcw, Workflow} from 'lucide-react'
+import {Badge, Button} from '@shared/components'
+import {useWebSocket} from '@/hooks/useWebSocket'
+import {getWebSocketUrl} from '@features/authentication/utils/webSocketUrl'
+import {PipelineRunStatus, PipelineState, PipelineStepStatus} from '@/hooks/usePipelineStatus'
+import {PipelineRerunMode, usePipelineHistory} from '../hooks'
+import {
+    canResumePipeline,
+    formatRunDate,
+    formatRunDuration,
+    getElapsed,
+    getPipelineStatusLabel,
+    hasFailedSteps,
+} from '../utils'
+
+type BadgeVariant = 'success' | 'danger' | 'warning' | 'info' | 'neutral'
+
+const PIPELINE_STATUS_VARIANTS: Record<PipelineRunStatus, BadgeVariant> = {
+    running: 'info',
+    completed: 'success',
+    stopped_early: 'danger',
+    cancelled: 'warning',
+    interrupted: 'warning',
+}
+
+const STEP_STATUS_VARIANTS: Record<PipelineStepStatus, BadgeVariant> = {
+    queued: 'neutral',
+    running: 'info',
+    success: 'success',
+    failed: 'danger',
+    skipped: 'neutral',
+    cancelled: 'warning',
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+    script: 'CI script',
+    schedule: 'Schedule',
+}
+
+export function PipelineHistory() {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+    const {pipelines, isLoading, error, rerun, rerunningId, rerunError} = usePipelineHistory()
+
+    const webSocketUrl = useMemo(() => getWebSocketUrl(true), [])
+    const handlePipelineEvent = useCallback(() => {
+        queryClient.invalidateQueries({queryKey: ['pipelines']})
+    }, [queryClient])
+
+    useWebSocket(webSocketUrl, {
+        onPipelineEvent: handlePipelineEvent,
+    })
+
+    return (
+        <div className="h-full overflow-y-auto py-4 md:py-8">
+            <button
+                onClick={() => navigate('/runs')}
+                className="mb-4 inline-flex items-center gap-1.5 text-sm font-medium text-gray-500 transition-colors hover:text-gray-900 dark:text-gray-400 dark:hover:text-white">
+                <ArrowLeft className="h-4 w-4" /> All runs
+            </button>
+
+            <div className="mb-4 md:mb-6">
+                <h2 className="text-xl font-bold tracking-tight text-gray-900 dark:text-white">
+                    Pipelines
+                </h2>
+                <p className="mt-0.5 text-sm text-gray-500 dark:text-gray-400">
+                    CI pipeline runs with the result of each step, newest first
+                </p>
+            </div>
+
+            {(error || rerunError) && (
+                <div className="mb-4 flex items-start gap-3 rounded-2xl border border-danger-600/15 bg-danger-50 p-5 dark:border-danger-400/20 dark:bg-danger-500/10">
+                    <AlertTriangle className="h-5 w-5 text-danger-600 dark:text-danger-400" />
+                    <p className="text-sm text-danger-700 dark:text-danger-300">
+                        {(error ?? rerunError)?.message}
+                    </p>
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="space-y-2">
+                    {[1, 2, 3].map((i) => (
+                        <div
+                            key={i}
+                            className="h-32 animate-pulse rounded-xl bg-gray-100 dark:bg-white/[0.05]"
+                        />
+                    ))}
+                </div>
+            ) : pipelines.length === 0 && !error ? (
+                <div className="flex flex-col items-center py-16 text-center">
+                    <div className="mb-3 flex h-14 w-14 items-center justify-center rounded-2xl bg-gray-100 dark:bg-white/[0.05]">
+                        <Workflow className="h-7 w-7 text-gray-400 dark:text-gray-500" />
+                    </div>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                        No pipelines yet
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500">
+                        Pipelines appear here once the CI pipeline has been run
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {pipelines.map((pipeline) => (
+                        <PipelineCard
+                            key={pipeline.pipelineRunId}
+                            pipeline={pipeline}
+                            isRerunning={rerunningId === pipeline.pipelineRunId}
+                            onRerun={(mode) => rerun({pipelineRunId: pipeline.pipelineRunId, mode})}
+                            onOpenRun={(runId) => navigate(`/runs/${runId}`)}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
+interface PipelineCardProps {
+    pipeline: PipelineState
+    isRerunning: boolean
+    onRerun: (mode: PipelineRerunMode) => void
+    onOpenRun: (runId: string) => void
+}
+
+function PipelineCard({pipeline, isRerunning, onRerun, onOpenRun}: PipelineCardProps) {
+    const canRerunFailed = hasFailedSteps(pipeline)
+    const canResume = canResumePipeline(pipeline)
+
+    return (
+        <div
+            data-testid={`pipeline-${pipeline.pipelineRunId}`}
+            className="rounded-xl border border-gray-200/70 bg-white p-3.5 dark:border-white/[0.06] dark:bg-gray-800/40">
+            <div className="mb-3 flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <div className="flex min-w-0 flex-wrap items-center gap-2">
+                    <Badge variant={PIPELINE_STATUS_VARIANTS[pipeline.status]} size="sm">
+                        {getPipelineStatusLabel(pipeline.status)}
+                    </Badge>
+                    <span className="text-sm font-medium tabular-nums text-gray-900 dark:text-white">
+                        {formatRunDate(pipeline.startedAt)}
+                    </span>
+                    <Badge size="sm">
+                        {(pipeline.source && SOURCE_LABELS[pipeline.source]) || 'Dashboard'}
+                    </Badge>
+                    {pipeline.rerunOf && (
+                        <span title={`Re-run of pipeline ${pipeline.rerunOf}`}>
+                            <Badge variant="warning" size="sm">
+                                Re-run of {pipeline.rerunOf.slice(0, 8)}
+                            </Badge>
+                        </span>
+                    )}
+                    <span className="text-xs tabular-nums text-gray-500 dark:text-gray-400">
+                        {formatRunDuration(getElapsed(pipeline.startedAt, pipeline.finishedAt))}
+                    </span>
+                </div>
+                <div className="flex flex-shrink-0 items-center gap-2">
+                    {canRerunFailed && (
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            loading={isRerunning}
+                            onClick={() => onRerun('failed')}>
+                            <RotateCcw className="mr-1.5 h-4 w-4" />
+                            Re-run failed steps
+                        </Button>
+                    )}
+                    {canResume && (
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            loading={isRerunning}
+                            onClick={() => onRerun('resume')}>
+                            <Play className="mr-1.5 h-4 w-4" />
+                            Resume
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className="divide-y divide-gray-100 dark:divide-white/[0.04]">
+                {pipeline.steps.map((step, index) => (
+                    <div
+                        key={`${step.project}-${index}`}
+                        role={step.runId ? 'button' : undefined}
+                        tabIndex={step.runId ? 0 : undefined}
+                        onClick={() => step.runId && onOpenRun(step.runId)}
+                        onKeyDown={(e) => e.key === 'Enter' && step.runId && onOpenRun(step.runId)}
+                        className={`flex items-center justify-between gap-3 px-1 py-2 ${
+                            step.runId
+                                ? 'cursor-pointer rounded-lg hover:bg-gray-50 dark:hover:bg-white/[0.03]'
+                                : ''
+                        }`}>
+                        <div className="flex min-w-0 items-center gap-2">
+                            <span className="w-5 text-xs tabular-nums text-gray-400 dark:text-gray-500">
+                                {index + 1}
+                            </span>
+                            <span className="truncate text-sm text-gray-900 dark:text-white">
+                                {step.displayName}
+                            </span>
+                            <span className="truncate font-mono text-xs text-gray-400 dark:text-gray-500">
+                                {step.project}
+                            </span>
+                        </div>
+                        <div className="flex flex-shrink-0 items-center gap-4">
+                            {step.passed !== undefined && (
+                                <div className="flex items-center gap-3 text-xs font-medium tabular-nums">
+                                    <span className="text-success-600 dark:text-success-400">
+                                        {step.passed} passed
+                                    </span>
+                                    <span
+                                        className={
+                                            step.failed
+                                                ? 'text-danger-600 dark:text-danger-400'
+                                                : 'text-gray-400 dark:text-gray-500'
+                                        }>
+                                        {step.failed ?? 0} failed
+                                    </span>
+                                </div>
+                            )}
+                            <span className="w-16 text-right text-xs tabular-nums text-gray-500 dark:text-gray-400">
+                                {formatRunDuration(getElapsed(step.startedAt, step.finishedAt))}
+                            </span>
+                            <Badge variant={STEP_STATUS_VARIANTS[step.status]} size="sm">
+                                <span className="capitalize">{step.status}</span>
+                            </Badge>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,240 @@
+import {useState} from 'react'
+import {useNavigate, useParams, useSearchParams} from 'react-router-dom'
+import {AlertTriangle, ArrowLeft, ArrowRight} from 'lucide-react'
+import {RunComparison as RunComparisonData, RunComparisonEntry, TestResult} from '@yshvydak/core'
+import {useTestsStore} from '@features/tests/store/testsStore'
+import {TestDetailModal} from '@features/tests/components/testDetail'
+import {formatDuration} from '@features/tests/utils'
+import {useRunComparison, useRuns} from '../hooks'
+import {formatDurationChange, formatRunDate, getRunOptionLabel} from '../utils'
+import {RunCounts, RunMeta} from './RunMeta'
+
+const DEFAULT_THRESHOLD = 20
+
+type SectionKey =
+    | 'newlyFailing'
+    | 'newlyPassing'
+    | 'stillFailing'
+    | 'added'
+    | 'removed'
+    | 'slower'
+    | 'faster'
+
+const SECTIONS: Array<{key: SectionKey; title: string; accent: string}> = [
+    {key: 'newlyFailing', title: 'New failures', accent: 'text-danger-600 dark:text-danger-400'},
+    {key: 'newlyPassing', title: 'Fixed', accent: 'text-success-600 dark:text-success-400'},
+    {key: 'stillFailing', title: 'Still failing', accent: 'text-danger-600 dark:text-danger-400'},
+    {key: 'slower', title: 'Slower', accent: 'text-warning-600 dark:text-warning-400'},
+    {key: 'faster', title: 'Faster', accent: 'text-primary-600 dark:text-primary-400'},
+    {key: 'added', title: 'Added tests', accent: 'text-gray-700 dark:text-gray-300'},
+    {key: 'removed', title: 'Removed tests', accent: 'text-gray-700 dark:text-gray-300'},
+]
+
+const statusClass = (status?: string) =>
+    status === 'failed' || status === 'timedOut'
+        ? 'text-danger-600 dark:text-danger-400'
+        : status === 'passed' || status === 'flaky'
+          ? 'text-success-600 dark:text-success-400'
+          : 'text-gray-500 dark:text-gray-400'
+
+function EntryChange({entry}: {entry: RunComparisonEntry}) {
+    if (entry.durationChange !== undefined) {
+        return (
+            <span className="tabular-nums text-gray-500 dark:text-gray-400">
+                {formatDuration(entry.base!.duration)} → {formatDuration(entry.head!.duration)}{' '}
+                <span
+                    className={
+                        entry.durationChange > 0
+                            ? 'font-medium text-warning-600 dark:text-warning-400'
+                            : 'font-medium text-primary-600 dark:text-primary-400'
+                    }>
+                    {formatDurationChange(entry.durationChange)}
+                </span>
+            </span>
+        )
+    }
+
+    return (
+        <span className="flex items-center gap-1.5">
+            <span className={statusClass(entry.base?.status)}>{entry.base?.status || '—'}</span>
+            <ArrowRight className="h-3 w-3 text-gray-400" />
+            <span className={statusClass(entry.head?.status)}>{entry.head?.status || '—'}</span>
+        </span>
+    )
+}
+
+export function RunComparison() {
+    const {runId} = useParams<{runId: string}>()
+    const navigate = useNavigate()
+    const [searchParams, setSearchParams] = useSearchParams()
+    const baseId = searchParams.get('base') || undefined
+    const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD)
+
+    const {data, isLoading, error} = useRunComparison(runId, baseId, threshold)
+    const {runs} = useRuns()
+    const selectExecution = useTestsStore((state) => state.selectExecution)
+    const [selectedTest, setSelectedTest] = useState<TestResult | null>(null)
+
+    // Opens the modal at the head run's execution, or the base run's for removed tests
+    const handleEntrySelect = (entry: RunComparisonEntry) => {
+        const execution = entry.head || entry.base
+        if (!execution) return
+        selectExecution(execution.id)
+        setSelectedTest(execution)
+    }
+
+    const handleBaseChange = (id: string) => {
+        setSearchParams(id ? {base: id} : {}, {replace: true})
+    }
+
+    const baseOptions = runs.filter((run) => run.id !== runId)
+
+    return (
+        <div className="h-full overflow-y-auto py-4 md:py-8">
+            <div className="mb-4 space-y-3 md:mb-6">
+                <button
+                    onClick={() => navigate(`/runs/${runId}`)}
+                    className="inline-flex items-center gap-1.5 text-sm font-medium text-gray-500 transition-colors hover:text-gray-900 dark:text-gray-400 dark:hover:text-white">
+                    <ArrowLeft className="h-4 w-4" /> Back to run
+                </button>
+                <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+                    <h2 className="text-xl font-bold tracking-tight text-gray-900 dark:text-white">
+                        Compare runs
+                    </h2>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <label className="flex items-center gap-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+                            Compare with
+                            <select
+                                value={baseId || ''}
+                                onChange={(e) => handleBaseChange(e.target.value)}
+                                className="rounded-xl border border-gray-200 bg-white px-2.5 py-1.5 text-xs text-gray-700 dark:border-white/10 dark:bg-white/[0.04] dark:text-gray-300">
+                                <option value="">Previous run of the project</option>
+                                {baseOptions.map((run) => (
+                                    <option key={run.id} value={run.id}>
+                                        {getRunOptionLabel(run)}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-1.5 rounded-xl border border-gray-200 bg-white px-2.5 py-1.5 text-xs font-medium text-gray-500 dark:border-white/10 dark:bg-white/[0.04] dark:text-gray-400">
+                            Duration change ≥
+                            <input
+                                type="number"
+                                min="0"
+                                max="1000"
+                                value={threshold}
+                                onChange={(e) =>
+                                    setThreshold(Math.max(0, parseInt(e.target.value) || 0))
+                                }
+                                aria-label="Duration threshold"
+                                className="w-12 bg-transparent tabular-nums text-gray-900 outline-none dark:text-white"
+                            />
+                            %
+                        </label>
+                    </div>
+                </div>
+            </div>
+
+            {error ? (
+                <div className="flex items-start gap-3 rounded-2xl border border-danger-600/15 bg-danger-50 p-5 dark:border-danger-400/20 dark:bg-danger-500/10">
+                    <AlertTriangle className="h-5 w-5 text-danger-600 dark:text-danger-400" />
+                    <p className="text-sm text-danger-700 dark:text-danger-300">
+                        {error instanceof Error ? error.message : 'Failed to compare runs'}
+                    </p>
+                </div>
+            ) : isLoading || !data ? (
+                <div className="space-y-3">
+                    <div className="h-24 animate-pulse rounded-2xl bg-gray-100 dark:bg-white/[0.05]" />
+                    <div className="h-64 animate-pulse rounded-2xl bg-gray-100 dark:bg-white/[0.05]" />
+                </div>
+            ) : (
+                <ComparisonBody comparison={data} onEntrySelect={handleEntrySelect} />
+            )}
+
+            <TestDetailModal
+                test={selectedTest}
+                isOpen={!!selectedTest}
+                onClose={() => setSelectedTest(null)}
+            />
+        </div>
+    )
+}
+
+interface ComparisonBodyProps {
+    comparison: RunComparisonData
+    onEntrySelect: (entry: RunComparisonEntry) => void
+}
+
+function ComparisonBody({comparison, onEntrySelect}: ComparisonBodyProps) {
+    const navigate = useNavigate()
+    const unchanged = SECTIONS.every(({key}) => comparison[key].length === 0)
+
+    return (
+        <div className="space-y-4">
+            <div className="grid gap-3 md:grid-cols-2">
+                {[
+                    {label: 'Base', run: comparison.base},
+                    {label: 'Head', run: comparison.head},
+                ].map(({label, run}) => (
+                    <button
+                        key={label}
+                        onClick={() => navigate(`/runs/${run.id}`)}
+                        className="space-y-1.5 rounded-xl border border-gray-200/70 bg-white p-3.5 text-left transition-colors hover:border-gray-300 dark:border-white/[0.06] dark:bg-gray-800/40 dark:hover:border-white/10">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                                {label}
+                            </span>
+                            <RunCounts run={run} />
+                        </div>
+                        <p className="text-sm font-medium tabular-nums text-gray-900 dark:text-white">
+                            {formatRunDate(run.createdAt)}
+                        </p>
+                        <RunMeta run={run} />
+                    </button>
+                ))}
+            </div>
+
+            {unchanged ? (
+                <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+                    No differences between the two runs
+                </p>
+            ) : (
+                SECTIONS.filter(({key}) => comparison[key].length > 0).map(
+                    ({key, title, accent}) => (
+                        <section
+                            key={key}
+                            className="rounded-2xl border border-gray-200/80 bg-white dark:border-white/[0.07] dark:bg-gray-800/70">
+                            <h3
+                                className={`border-b border-gray-200/70 px-4 py-3 text-sm font-semibold dark:border-white/[0.06] ${accent}`}>
+                                {title}{' '}
+                                <span className="tabular-nums text-gray-400 dark:text-gray-500">
+                                    {comparison[key].length}
+                                </span>
+                            </h3>
+                            <ul className="divide-y divide-gray-100 dark:divide-white/[0.04]">
+                                {comparison[key].map((entry) => (
+                                    <li key={entry.testId}>
+                                        <button
+                                            onClick={() => onEntrySelect(entry)}
+                                            className="flex w-full flex-col gap-1 px-4 py-2.5 text-left text-xs transition-colors hover:bg-gray-50 md:flex-row md:items-center md:justify-between dark:hover:bg-white/[0.03]">
+                                            <span className="min-w-0">
+                                                <span className="block truncate text-sm font-medium text-gray-900 dark:text-white">
+                                                    {entry.name}
+                                                </span>
+                                                <span className="block truncate font-mono text-gray-400 dark:text-gray-500">
+                                                    {entry.filePath}
+                                                    {entry.project && ` · ${entry.project}`}
+                                                </span>
+                                            </span>
+                                            <EntryChange entry={entry} />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    )
+                )
+            )}
+        </div>
+    )
+}
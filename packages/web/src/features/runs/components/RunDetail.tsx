@@ -0,0 +1,189 @@
+import {useState} from 'react'
+import {useNavigate, useParams} from 'react-router-dom'
+import {AlertTriangle, ArrowLeft, GitCompare, RotateCcw, ScrollText} from 'lucide-react'
+import {TestResult} from '@yshvydak/core'
+import {Button, FilterButtonGroup, SearchInput} from '@shared/components'
+import {FILTER_OPTIONS, FilterKey} from '@features/tests/constants'
+import {useTestFilters} from '@features/tests/hooks/useTestFilters'
+import {useTestsStore} from '@features/tests/store/testsStore'
+import {TestsGroupedView} from '@features/tests/components/TestsGroupedView'
+import {TestDetailModal} from '@features/tests/components/testDetail'
+import {useRunDetail} from '../hooks'
+import {formatRunDate, formatRunDuration, getRunSubject} from '../utils'
+import {RunCounts, RunMeta, RunStatusBadge} from './RunMeta'
+import {RunLogDrawer, RunLogView} from './RunLog'
+
+// Pending and noted make no sense for results of a finished run
+const RUN_FILTER_KEYS: FilterKey[] = ['all', 'passed', 'failed', 'skipped']
+
+export function RunDetail() {
+    const {runId} = useParams<{runId: string}>()
+    const navigate = useNavigate()
+    const {data, isLoading, error} = useRunDetail(runId)
+    const rerunTest = useTestsStore((state) => state.rerunTest)
+    const rerunFailedTests = useTestsStore((state) => state.rerunFailedTests)
+    const isRerunningFailed = useTestsStore((state) => state.isRerunningFailed)
+    const selectExecution = useTestsStore((state) => state.selectExecution)
+
+    const [filter, setFilter] = useState<FilterKey>('all')
+    const [searchQuery, setSearchQuery] = useState('')
+    const [selectedTest, setSelectedTest] = useState<TestResult | null>(null)
+    const [isLogOpen, setIsLogOpen] = useState(false)
+
+    const {filteredTests, counts} = useTestFilters({
+        tests: data?.results || [],
+        filter,
+        searchQuery,
+    })
+
+    const filterOptions = FILTER_OPTIONS.filter((option) =>
+        RUN_FILTER_KEYS.includes(option.key)
+    ).map((option) => ({...option, count: counts[option.key as keyof typeof counts]}))
+
+    // Opens the modal at this run's execution instead of the latest one
+    const handleTestSelect = (test: TestResult) => {
+        selectExecution(test.id)
+        setSelectedTest(test)
+    }
+
+    const backButton = (
+        <button
+            onClick={() => navigate('/runs')}
+            className="inline-flex items-center gap-1.5 text-sm font-medium text-gray-500 transition-colors hover:text-gray-900 dark:text-gray-400 dark:hover:text-white">
+            <ArrowLeft className="h-4 w-4" /> All runs
+        </button>
+    )
+
+    if (error) {
+        return (
+            <div className="space-y-4 py-4 md:py-8">
+                {backButton}
+                <div className="flex items-start gap-3 rounded-2xl border border-danger-600/15 bg-danger-50 p-5 dark:border-danger-400/20 dark:bg-danger-500/10">
+                    <AlertTriangle className="h-5 w-5 text-danger-600 dark:text-danger-400" />
+                    <p className="text-sm text-danger-700 dark:text-danger-300">
+                        {error instanceof Error ? error.message : 'Failed to fetch run'}
+                    </p>
+                </div>
+            </div>
+        )
+    }
+
+    if (isLoading || !data) {
+        return (
+            <div className="space-y-3 py-4 md:py-8">
+                {backButton}
+                <div className="h-24 animate-pulse rounded-2xl bg-gray-100 dark:bg-white/[0.05]" />
+                <div className="h-64 animate-pulse rounded-2xl bg-gray-100 dark:bg-white/[0.05]" />
+            </div>
+        )
+    }
+
+    const {run} = data
+    const subject = getRunSubject(run)
+    const endedWithoutResults = run.status !== 'running' && data.results.length === 0
+
+    return (
+        <div className="h-full overflow-y-auto py-4 md:py-8">
+            <div className="mb-4 space-y-3 md:mb-6">
+                {backButton}
+                <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+                    <div className="min-w-0 space-y-1.5">
+                        <div className="flex items-center gap-2">
+                            <h2 className="text-xl font-bold tracking-tight tabular-nums text-gray-900 dark:text-white">
+                                {formatRunDate(run.createdAt)}
+                            </h2>
+                            <RunStatusBadge status={run.status} />
+                        </div>
+                        {subject && (
+                            <p className="truncate font-mono text-xs text-gray-400 dark:text-gray-500">
+                                {subject}
+                            </p>
+                        )}
+                        <RunMeta run={run} />
+                    </div>
+                    <div className="flex items-center gap-4">
+                        <RunCounts run={run} />
+                        <span className="text-xs tabular-nums text-gray-500 dark:text-gray-400">
+                            {formatRunDuration(run.duration)}
+                        </span>
+                        {run.status !== 'running' && run.failedTests > 0 && (
+                            <Button
+                                variant="secondary"
+                                size="sm"
+                                loading={isRerunningFailed}
+                                disabled={isRerunningFailed}
+                                onClick={() =>
+                                    rerunFailedTests({
+                                        runId: run.id,
+                                        project: run.metadata?.project,
+                                    })
+                                }>
+                                <RotateCcw className="mr-1.5 h-4 w-4" />
+                                Rerun failed
+                            </Button>
+                        )}
+                        <Button variant="secondary" size="sm" onClick={() => setIsLogOpen(true)}>
+                            <ScrollText className="mr-1.5 h-4 w-4" />
+                            Log
+                        </Button>
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={() => navigate(`/runs/${run.id}/compare`)}>
+                            <GitCompare className="mr-1.5 h-4 w-4" />
+                            Compare
+                        </Button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="mb-4 flex flex-col gap-2 md:flex-row md:items-center md:gap-3">
+                <div className="md:w-72">
+                    <SearchInput
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        placeholder="Search tests..."
+                        resultCount={filteredTests.length}
+                    />
+                </div>
+                <FilterButtonGroup
+                    value={filter}
+                    onChange={(value) => setFilter(value as FilterKey)}
+                    options={filterOptions}
+                />
+            </div>
+
+            {endedWithoutResults ? (
+                // Nothing was reported, e.g. global setup failed: the output tells why
+                <div className="space-y-2">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        This run has no results. Output of the Playwright process:
+                    </p>
+                    <RunLogView runId={run.id} className="max-h-[60vh]" />
+                </div>
+            ) : filteredTests.length === 0 ? (
+                <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+                    {data.results.length === 0
+                        ? 'This run has no results'
+                        : 'No tests match the current filters'}
+                </p>
+            ) : (
+                <TestsGroupedView
+                    tests={filteredTests}
+                    selectedTest={selectedTest}
+                    onTestSelect={handleTestSelect}
+                    onTestRerun={rerunTest}
+                    filter={filter}
+                />
+            )}
+
+            <TestDetailModal
+                test={selectedTest}
+                isOpen={!!selectedTest}
+                onClose={() => setSelectedTest(null)}
+            />
+
+            <RunLogDrawer runId={isLogOpen ? run.id : null} onClose={() => setIsLogOpen(false)} />
+        </div>
+    )
+}
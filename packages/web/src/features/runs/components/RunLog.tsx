@@ -0,0 +1,122 @@
+import {useEffect, useRef} from 'react'
+import {createPortal} from 'react-dom'
+import {Download, ScrollText, X} from 'lucide-react'
+import {ModalBackdrop} from '@shared/components'
+import {authGet} from '@features/authentication/utils/authFetch'
+import {saveFile} from '@features/tests/utils/reportDownload'
+import {config} from '@config/environment.config'
+import {useRunLog} from '../hooks'
+
+export interface RunLogViewProps {
+    runId: string
+    className?: string
+}
+
+/**
+ * Raw Playwright output of a run, kept scrolled to the end while it grows.
+ */
+export function RunLogView({runId, className = ''}: RunLogViewProps) {
+    const {log, isLoading, notFound, error} = useRunLog(runId)
+    const preRef = useRef<HTMLPreElement>(null)
+
+    useEffect(() => {
+        const pre = preRef.current
+        if (pre) pre.scrollTop = pre.scrollHeight
+    }, [log])
+
+    if (isLoading) {
+        return (
+            <div
+                className={`animate-pulse rounded-xl bg-gray-100 dark:bg-white/[0.05] ${className}`}
+            />
+        )
+    }
+
+    if (error || notFound) {
+        return (
+            <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                {error
+                    ? `Failed to load the run log: ${error}`
+                    : 'No output was recorded for this run'}
+            </p>
+        )
+    }
+
+    return (
+        <pre
+            ref={preRef}
+            data-testid="run-log"
+            className={`overflow-auto whitespace-pre-wrap break-words rounded-xl bg-gray-950 p-4 font-mono text-xs leading-relaxed text-gray-200 ${className}`}>
+            {log}
+        </pre>
+    )
+}
+
+export interface RunLogDrawerProps {
+    runId: string | null
+    onClose: () => void
+}
+
+/**
+ * Side drawer with the live output of a run, opened from the progress panel
+ * and the run page.
+ */
+export function RunLogDrawer({runId, onClose}: RunLogDrawerProps) {
+    useEffect(() => {
+        if (!runId) return
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose()
+        }
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [runId, onClose])
+
+    if (!runId) return null
+
+    const handleDownload = async () => {
+        const res = await authGet(`${config.api.baseUrl}/runs/${encodeURIComponent(runId)}/log`)
+        if (res.ok) {
+            saveFile(new Blob([await res.text()], {type: 'text/plain'}), `run-${runId}.log`)
+        }
+    }
+
+    return createPortal(
+        <div className="fixed inset-0 z-[60]">
+            <ModalBackdrop onClick={onClose} />
+            <aside
+                role="dialog"
+                aria-label="Run log"
+                className="absolute inset-y-0 right-0 flex w-full flex-col bg-white shadow-pop animate-fade-in dark:bg-gray-900 md:w-[44rem]">
+                <div className="flex items-center justify-between border-b border-gray-200/70 px-4 py-3 dark:border-white/[0.06]">
+                    <div className="flex min-w-0 items-center gap-2.5">
+                        <ScrollText className="h-4 w-4 text-primary-500" />
+                        <h3 className="text-sm font-semibold tracking-tight text-gray-900 dark:text-gray-100">
+                            Run log
+                        </h3>
+                        <span className="truncate font-mono text-xs text-gray-400 dark:text-gray-500">
+                            {runId}
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={handleDownload}
+                            className="rounded-xl p-1.5 text-gray-400 transition-colors hover:bg-gray-100 hover:text-gray-600 dark:text-gray-500 dark:hover:bg-white/[0.06] dark:hover:text-gray-300"
+                            aria-label="Download log">
+                            <Download className="h-4 w-4" />
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="rounded-xl p-1.5 text-gray-400 transition-colors hover:bg-gray-100 hover:text-gray-600 dark:text-gray-500 dark:hover:bg-white/[0.06] dark:hover:text-gray-300"
+                            aria-label="Close">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                </div>
+                <div className="min-h-0 flex-1 p-4">
+                    <RunLogView key={runId} runId={runId} className="h-full" />
+                </div>
+            </aside>
+        </div>,
+        document.body
+    )
+}
@@ -0,0 +1,82 @@
+import {TestRun} from '@yshvydak/core'
+import {Badge} from '@shared/components'
+import {getRunTriggerLabel, getRunTypeLabel} from '../utils'
+
+export interface RunStatusBadgeProps {
+    status: TestRun['status']
+}
+
+export function RunStatusBadge({status}: RunStatusBadgeProps) {
+    const variant =
+        status === 'running'
+            ? 'info'
+            : status === 'failed'
+              ? 'danger'
+              : status === 'interrupted'
+                ? 'warning'
+                : 'success'
+
+    return (
+        <Badge variant={variant} size="sm">
+            <span className="capitalize">{status}</span>
+        </Badge>
+    )
+}
+
+export interface RunMetaProps {
+    run: TestRun
+}
+
+/**
+ * Type, project, trigger source and pipeline membership of a run.
+ */
+export function RunMeta({run}: RunMetaProps) {
+    const pipelineRunId = run.metadata?.pipelineRunId
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5">
+            <Badge size="sm">{getRunTypeLabel(run)}</Badge>
+            {run.metadata?.project && (
+                <Badge variant="info" size="sm">
+                    {run.metadata.project}
+                </Badge>
+            )}
+            <Badge size="sm">{getRunTriggerLabel(run)}</Badge>
+            {pipelineRunId && (
+                <span title={`Pipeline run ${pipelineRunId}`}>
+                    <Badge variant="warning" size="sm">
+                        Pipeline {pipelineRunId.slice(0, 8)}
+                    </Badge>
+                </span>
+            )}
+        </div>
+    )
+}
+
+export interface RunCountsProps {
+    run: TestRun
+}
+
+export function RunCounts({run}: RunCountsProps) {
+    return (
+        <div className="flex items-center gap-3 text-xs font-medium tabular-nums">
+            <span className="text-success-600 dark:text-success-400" title="Passed">
+                {run.passedTests} passed
+            </span>
+            <span
+                className={
+                    run.failedTests > 0
+                        ? 'text-danger-600 dark:text-danger-400'
+                        : 'text-gray-400 dark:text-gray-500'
+                }
+                title="Failed">
+                {run.failedTests} failed
+            </span>
+            {run.skippedTests > 0 && (
+                <span className="text-warning-600 dark:text-warning-400" title="Skipped">
+                    {run.skippedTests} skipped
+                </span>
+            )}
+        </div>
+    )
+}
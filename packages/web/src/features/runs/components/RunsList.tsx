@@ -0,0 +1,134 @@
+import {useCallback, useMemo} from 'react'
+import {useNavigate} from 'react-router-dom'
+import {useQueryClient} from '@tanstack/react-query'
+import {AlertTriangle, GitCompare, History, Workflow} from 'lucide-react'
+import {Button} from '@shared/components'
+import {useWebSocket} from '@/hooks/useWebSocket'
+import {getWebSocketUrl} from '@features/authentication/utils/webSocketUrl'
+import {useRuns} from '../hooks'
+import {formatRunDate, formatRunDuration, getRunSubject} from '../utils'
+import {RunCounts, RunMeta, RunStatusBadge} from './RunMeta'
+
+export function RunsList() {
+    const navigate = useNavigate()
+    const queryClient = useQueryClient()
+    const {runs, isLoading, error, hasMore, loadMore, isFetching} = useRuns()
+
+    const webSocketUrl = useMemo(() => getWebSocketUrl(true), [])
+    const handleRunCompleted = useCallback(() => {
+        queryClient.invalidateQueries({queryKey: ['runs']})
+    }, [queryClient])
+
+    useWebSocket(webSocketUrl, {
+        onRunCompleted: handleRunCompleted,
+    })
+
+    if (error) {
+        return (
+            <div className="mt-6 flex items-start gap-3 rounded-2xl border border-danger-600/15 bg-danger-50 p-5 dark:border-danger-400/20 dark:bg-danger-500/10">
+                <AlertTriangle className="h-5 w-5 text-danger-600 dark:text-danger-400" />
+                <p className="text-sm text-danger-700 dark:text-danger-300">
+                    {error instanceof Error ? error.message : 'Failed to fetch runs'}
+                </p>
+            </div>
+        )
+    }
+
+    return (
+        <div className="h-full overflow-y-auto py-4 md:py-8">
+            <div className="mb-4 flex items-start justify-between gap-3 md:mb-6">
+                <div>
+                    <h2 className="text-xl font-bold tracking-tight text-gray-900 dark:text-white">
+                        Runs
+                    </h2>
+                    <p className="mt-0.5 text-sm text-gray-500 dark:text-gray-400">
+                        Every test run, newest first
+                    </p>
+                </div>
+                <Button variant="secondary" size="sm" onClick={() => navigate('/runs/pipelines')}>
+                    <Workflow className="mr-1.5 h-4 w-4" />
+                    Pipelines
+                </Button>
+            </div>
+
+            {isLoading ? (
+                <div className="space-y-2">
+                    {[1, 2, 3].map((i) => (
+                        <div
+                            key={i}
+                            className="h-20 animate-pulse rounded-xl bg-gray-100 dark:bg-white/[0.05]"
+                        />
+                    ))}
+                </div>
+            ) : runs.length === 0 ? (
+                <div className="flex flex-col items-center py-16 text-center">
+                    <div className="mb-3 flex h-14 w-14 items-center justify-center rounded-2xl bg-gray-100 dark:bg-white/[0.05]">
+                        <History className="h-7 w-7 text-gray-400 dark:text-gray-500" />
+                    </div>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                        No runs yet
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500">
+                        Runs appear here once tests have been run
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    {runs.map((run) => {
+                        const subject = getRunSubject(run)
+                        return (
+                            <div
+                                key={run.id}
+                                role="button"
+                                tabIndex={0}
+                                onClick={() => navigate(`/runs/${run.id}`)}
+                                onKeyDown={(e) => e.key === 'Enter' && navigate(`/runs/${run.id}`)}
+                                className="block w-full cursor-pointer rounded-xl border border-gray-200/70 bg-white p-3.5 text-left transition-all duration-150 hover:-translate-y-0.5 hover:border-gray-300 hover:shadow-card dark:border-white/[0.06] dark:bg-gray-800/40 dark:hover:border-white/10 dark:hover:bg-white/[0.03]">
+                                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                                    <div className="min-w-0 space-y-1.5">
+                                        <div className="flex items-center gap-2">
+                                            <RunStatusBadge status={run.status} />
+                                            <span className="text-sm font-medium tabular-nums text-gray-900 dark:text-white">
+                                                {formatRunDate(run.createdAt)}
+                                            </span>
+                                            {subject && (
+                                                <span className="truncate font-mono text-xs text-gray-400 dark:text-gray-500">
+                                                    {subject}
+                                                </span>
+                                            )}
+                                        </div>
+                                        <RunMeta run={run} />
+                                    </div>
+                                    <div className="flex flex-shrink-0 items-center gap-4">
+                                        <RunCounts run={run} />
+                                        <span className="w-16 text-right text-xs tabular-nums text-gray-500 dark:text-gray-400">
+                                            {formatRunDuration(run.duration)}
+                                        </span>
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation()
+                                                navigate(`/runs/${run.id}/compare`)
+                                            }}
+                                            title="Compare with the previous run"
+                                            aria-label="Compare with the previous run"
+                                            className="rounded-lg p-1.5 text-gray-400 transition-colors hover:bg-gray-100 hover:text-gray-700 dark:text-gray-500 dark:hover:bg-white/[0.06] dark:hover:text-gray-200">
+                                            <GitCompare className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        )
+                    })}
+
+                    {hasMore && (
+                        <div className="flex justify-center pt-2">
+                            <Button variant="secondary" loading={isFetching} onClick={loadMore}>
+                                Load more
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,148 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest'
+import {render, screen, fireEvent, within} from '@testing-library/react'
+import {MemoryRouter, Route, Routes} from 'react-router-dom'
+import {QueryClient, QueryClientProvider} from '@tanstack/react-query'
+import {PipelineState} from '@/hooks/usePipelineStatus'
+import {PipelineHistory} from '../PipelineHistory'
+import {usePipelineHistory} from '../../hooks'
+
+vi.mock('../../hooks', () => ({
+    usePipelineHistory: vi.fn(),
+}))
+
+vi.mock('@/hooks/useWebSocket', () => ({
+    useWebSocket: vi.fn(),
+}))
+
+vi.mock('@features/authentication/utils/webSocketUrl', () => ({
+    getWebSocketUrl: () => 'ws://localhost:3000/ws',
+}))
+
+const stoppedPipeline: PipelineState = {
+    pipelineRunId: 'pipeline-1',
+    status: 'stopped_early',
+    source: 'schedule',
+    startedAt: '2025-03-01T10:00:00.000Z',
+    finishedAt: '2025-03-01T10:02:00.000Z',
+    steps: [
+        {
+            project: 'api',
+            displayName: 'API Tests',
+            stopOnFailure: true,
+            status: 'failed',
+            runId: 'run-api',
+            passed: 8,
+            failed: 2,
+            startedAt: '2025-03-01T10:00:00.000Z',
+            finishedAt: '2025-03-01T10:01:30.000Z',
+        },
+        {project: 'web', displayName: 'Web Tests', stopOnFailure: false, status: 'skipped'},
+    ],
+}
+
+const completedPipeline: PipelineState = {
+    pipelineRunId: 'pipeline-0',
+    status: 'completed',
+    rerunOf: 'pipeline-earlier',
+    startedAt: '2025-02-28T10:00:00.000Z',
+    steps: [
+        {
+            project: 'api',
+            displayName: 'API Tests',
+            stopOnFailure: true,
+            status: 'success',
+            runId: 'run-old',
+            passed: 10,
+            failed: 0,
+        },
+    ],
+}
+
+const mockRerun = vi.fn()
+
+const renderHistory = () =>
+    render(
+        <QueryClientProvider client={new QueryClient()}>
+            <MemoryRouter initialEntries={['/runs/pipelines']}>
+                <Routes>
+                    <Route path="/runs/pipelines" element={<PipelineHistory />} />
+                    <Route path="/runs/:runId" element={<div>Run page</div>} />
+                </Routes>
+            </MemoryRouter>
+        </QueryClientProvider>
+    )
+
+describe('PipelineHistory', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(usePipelineHistory).mockReturnValue({
+            pipelines: [stoppedPipeline, completedPipeline],
+            isLoading: false,
+            error: null,
+            rerun: mockRerun,
+            rerunningId: undefined,
+            rerunError: null,
+        } as any)
+    })
+
+    it('shows each step with its status, counts and duration', () => {
+        renderHistory()
+
+        const card = within(screen.getByTestId('pipeline-pipeline-1'))
+        expect(card.getByText('Stopped early')).toBeInTheDocument()
+        expect(card.getByText('Schedule')).toBeInTheDocument()
+        expect(card.getByText('API Tests')).toBeInTheDocument()
+        expect(card.getByText('8 passed')).toBeInTheDocument()
+        expect(card.getByText('2 failed')).toBeInTheDocument()
+        expect(card.getByText('1m 30s')).toBeInTheDocument()
+        expect(card.getByText('skipped')).toBeInTheDocument()
+    })
+
+    it('links a re-run to the pipeline it re-ran', () => {
+        renderHistory()
+
+        expect(screen.getByTitle('Re-run of pipeline pipeline-earlier')).toBeInTheDocument()
+    })
+
+    it('re-runs the failed steps or resumes a stopped pipeline', () => {
+        renderHistory()
+
+        const card = within(screen.getByTestId('pipeline-pipeline-1'))
+        fireEvent.click(card.getByText('Re-run failed steps'))
+        fireEvent.click(card.getByText('Resume'))
+
+        expect(mockRerun).toHaveBeenCalledWith({pipelineRunId: 'pipeline-1', mode: 'failed'})
+        expect(mockRerun).toHaveBeenCalledWith({pipelineRunId: 'pipeline-1', mode: 'resume'})
+    })
+
+    it('offers no re-run for a pipeline that passed', () => {
+        renderHistory()
+
+        const card = within(screen.getByTestId('pipeline-pipeline-0'))
+        expect(card.queryByText('Re-run failed steps')).not.toBeInTheDocument()
+        expect(card.queryByText('Resume')).not.toBeInTheDocument()
+    })
+
+    it('opens the run of a step', () => {
+        renderHistory()
+
+        fireEvent.click(within(screen.getByTestId('pipeline-pipeline-0')).getByText('API Tests'))
+
+        expect(screen.getByText('Run page')).toBeInTheDocument()
+    })
+
+    it('shows an empty state without pipelines', () => {
+        vi.mocked(usePipelineHistory).mockReturnValue({
+            pipelines: [],
+            isLoading: false,
+            error: null,
+            rerun: mockRerun,
+            rerunningId: undefined,
+            rerunError: null,
+        } as any)
+
+        renderHistory()
+
+        expect(screen.getByText('No pipelines yet')).toBeInTheDocument()
+    })
+})
@@ -0,0 +1,162 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest'
+import {render, screen, fireEvent} from '@testing-library/react'
+import {MemoryRouter, Route, Routes} from 'react-router-dom'
+import {TestResult} from '@yshvydak/core'
+import {RunComparison} from '../RunComparison'
+import {useRunComparison, useRuns} from '../../hooks'
+
+vi.mock('../../hooks', () => ({
+    useRunComparison: vi.fn(),
+    useRuns: vi.fn(),
+}))
+
+const mockSelectExecution = vi.fn()
+vi.mock('@features/tests/store/testsStore', () => ({
+    useTestsStore: (selector: (state: any) => any) =>
+        selector({selectExecution: mockSelectExecution}),
+}))
+
+vi.mock('@features/tests/components/testDetail', () => ({
+    TestDetailModal: ({isOpen, test}: {isOpen: boolean; test: TestResult | null}) => (
+        <div data-testid="modal">{isOpen && test ? `Modal: ${test.id}` : 'Modal closed'}</div>
+    ),
+}))
+
+const run = (id: string, createdAt: string) => ({
+    id,
+    createdAt,
+    status: 'completed',
+    totalTests: 2,
+    passedTests: 1,
+    failedTests: 1,
+    skippedTests: 0,
+    duration: 3000,
+    metadata: {type: 'run-all', project: 'chromium'},
+})
+
+const result = (id: string, status: string, duration = 1000): TestResult =>
+    ({
+        id,
+        testId: id.split('@')[0],
+        runId: id.split('@')[1],
+        name: id.split('@')[0],
+        filePath: 'app.spec.ts',
+        status,
+        duration,
+        timestamp: '2025-03-01T10:00:00.000Z',
+    }) as TestResult
+
+const comparison = {
+    base: run('run-1', '2025-03-01 10:00:00'),
+    head: run('run-2', '2025-03-02 10:00:00'),
+    durationThreshold: 20,
+    newlyFailing: [
+        {
+            testId: 'login',
+            name: 'login',
+            filePath: 'app.spec.ts',
+            base: result('login@run-1', 'passed'),
+            head: result('login@run-2', 'failed'),
+        },
+    ],
+    newlyPassing: [],
+    stillFailing: [],
+    added: [],
+    removed: [
+        {
+            testId: 'legacy',
+            name: 'legacy',
+            filePath: 'app.spec.ts',
+            base: result('legacy@run-1', 'passed'),
+        },
+    ],
+    slower: [
+        {
+            testId: 'search',
+            name: 'search',
+            filePath: 'app.spec.ts',
+            base: result('search@run-1', 'passed', 1000),
+            head: result('search@run-2', 'passed', 1500),
+            durationChange: 50,
+        },
+    ],
+    faster: [],
+}
+
+const renderRunComparison = (path = '/runs/run-2/compare') =>
+    render(
+        <MemoryRouter initialEntries={[path]}>
+            <Routes>
+                <Route path="/runs/:runId/compare" element={<RunComparison />} />
+            </Routes>
+        </MemoryRouter>
+    )
+
+describe('RunComparison', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(useRunComparison).mockReturnValue({
+            data: comparison,
+            isLoading: false,
+            error: null,
+        } as any)
+        vi.mocked(useRuns).mockReturnValue({
+            runs: [comparison.head, comparison.base],
+        } as any)
+    })
+
+    it('should compare the run with the previous run by default', () => {
+        renderRunComparison()
+
+        expect(useRunComparison).toHaveBeenCalledWith('run-2', undefined, 20)
+        expect(screen.getByText('New failures')).toBeInTheDocument()
+        expect(screen.getByText('login')).toBeInTheDocument()
+        expect(screen.getByText('+50%')).toBeInTheDocument()
+        expect(screen.queryByText('Fixed')).not.toBeInTheDocument()
+    })
+
+    it('should compare with the base run from the URL', () => {
+        renderRunComparison('/runs/run-2/compare?base=run-1')
+
+        expect(useRunComparison).toHaveBeenCalledWith('run-2', 'run-1', 20)
+    })
+
+    it('should offer every other run as a base', () => {
+        renderRunComparison()
+
+        const options = screen.getAllByRole('option')
+        expect(options).toHaveLength(2)
+        expect(options[1]).toHaveValue('run-1')
+    })
+
+    it('should pass a changed threshold to the comparison', () => {
+        renderRunComparison()
+
+        fireEvent.change(screen.getByLabelText('Duration threshold'), {target: {value: '40'}})
+
+        expect(useRunComparison).toHaveBeenLastCalledWith('run-2', undefined, 40)
+    })
+
+    it('should open the head execution, or the base one for removed tests', () => {
+        renderRunComparison()
+
+        fireEvent.click(screen.getByText('login'))
+        expect(mockSelectExecution).toHaveBeenCalledWith('login@run-2')
+        expect(screen.getByTestId('modal')).toHaveTextContent('Modal: login@run-2')
+
+        fireEvent.click(screen.getByText('legacy'))
+        expect(mockSelectExecution).toHaveBeenCalledWith('legacy@run-1')
+    })
+
+    it('should show the error when there is nothing to compare with', () => {
+        vi.mocked(useRunComparison).mockReturnValue({
+            data: undefined,
+            isLoading: false,
+            error: new Error('Previous run not found'),
+        } as any)
+
+        renderRunComparison()
+
+        expect(screen.getByText('Previous run not found')).toBeInTheDocument()
+    })
+})
@@ -0,0 +1,204 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest'
+import {render, screen, fireEvent} from '@testing-library/react'
+import {MemoryRouter, Route, Routes} from 'react-router-dom'
+import {TestResult} from '@yshvydak/core'
+import {RunDetail} from '../RunDetail'
+import {useRunDetail, useRunLog} from '../../hooks'
+
+vi.mock('../../hooks', () => ({
+    useRunDetail: vi.fn(),
+    useRunLog: vi.fn(),
+}))
+
+const mockSelectExecution = vi.fn()
+const mockRerunFailedTests = vi.fn()
+vi.mock('@features/tests/store/testsStore', () => ({
+    useTestsStore: (selector: (state: any) => any) =>
+        selector({
+            rerunTest: vi.fn(),
+            selectExecution: mockSelectExecution,
+            rerunFailedTests: mockRerunFailedTests,
+            isRerunningFailed: false,
+        }),
+}))
+
+vi.mock('@features/tests/components/TestsGroupedView', () => ({
+    TestsGroupedView: ({
+        tests,
+        onTestSelect,
+    }: {
+        tests: TestResult[]
+        onTestSelect: (test: TestResult) => void
+    }) => (
+        <ul>
+            {tests.map((test) => (
+                <li key={test.id}>
+                    <button onClick={() => onTestSelect(test)}>{test.name}</button>
+                </li>
+            ))}
+        </ul>
+    ),
+}))
+
+vi.mock('@features/tests/components/testDetail', () => ({
+    TestDetailModal: ({isOpen, test}: {isOpen: boolean; test: TestResult | null}) => (
+        <div data-testid="modal">{isOpen && test ? `Modal: ${test.id}` : 'Modal closed'}</div>
+    ),
+}))
+
+const results: TestResult[] = [
+    {
+        id: 'exec-1',
+        testId: 'test-1',
+        runId: 'run-1',
+        name: 'logs in',
+        filePath: 'auth.spec.ts',
+        status: 'passed',
+        duration: 1000,
+        timestamp: '2025-03-01T10:00:00.000Z',
+    },
+    {
+        id: 'exec-2',
+        testId: 'test-2',
+        runId: 'run-1',
+        name: 'adds item',
+        filePath: 'cart.spec.ts',
+        status: 'failed',
+        duration: 2000,
+        timestamp: '2025-03-01T10:00:01.000Z',
+    },
+]
+
+const renderRunDetail = () =>
+    render(
+        <MemoryRouter initialEntries={['/runs/run-1']}>
+            <Routes>
+                <Route path="/runs/:runId" element={<RunDetail />} />
+            </Routes>
+        </MemoryRouter>
+    )
+
+describe('RunDetail', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(useRunDetail).mockReturnValue({
+            data: {
+                run: {
+                    id: 'run-1',
+                    createdAt: '2025-03-01 10:00:00',
+                    status: 'failed',
+                    totalTests: 2,
+                    passedTests: 1,
+                    failedTests: 1,
+                    skippedTests: 0,
+                    duration: 3000,
+                    metadata: {type: 'run-all', project: 'chromium', pipelineRunId: 'pipeline-123'},
+                },
+                results,
+            },
+            isLoading: false,
+            error: null,
+        } as any)
+        vi.mocked(useRunLog).mockReturnValue({
+            log: 'Error: Timed out waiting 60000ms from config.webServer.\n',
+            isLoading: false,
+            notFound: false,
+            error: null,
+        })
+    })
+
+    it('should load the run from the route and show its metadata', () => {
+        renderRunDetail()
+
+        expect(useRunDetail).toHaveBeenCalledWith('run-1')
+        expect(screen.getByText('chromium')).toBeInTheDocument()
+        expect(screen.getByText('Pipeline pipeline')).toBeInTheDocument()
+        expect(screen.getByText('logs in')).toBeInTheDocument()
+        expect(screen.getByText('adds item')).toBeInTheDocument()
+    })
+
+    it('should filter the results by status and search', () => {
+        renderRunDetail()
+
+        fireEvent.click(screen.getByRole('button', {name: /^Failed/}))
+        expect(screen.queryByText('logs in')).not.toBeInTheDocument()
+        expect(screen.getByText('adds item')).toBeInTheDocument()
+
+        fireEvent.click(screen.getByRole('button', {name: /^All\s?\d+$/}))
+        fireEvent.change(screen.getByPlaceholderText('Search tests...'), {
+            target: {value: 'logs'},
+        })
+        expect(screen.getByText('logs in')).toBeInTheDocument()
+        expect(screen.queryByText('adds item')).not.toBeInTheDocument()
+    })
+
+    it('should open the test detail at the execution of this run', () => {
+        renderRunDetail()
+
+        fireEvent.click(screen.getByText('adds item'))
+
+        expect(mockSelectExecution).toHaveBeenCalledWith('exec-2')
+        expect(screen.getByTestId('modal')).toHaveTextContent('Modal: exec-2')
+    })
+
+    it('should show the process output when the run ended without results', () => {
+        vi.mocked(useRunDetail).mockReturnValue({
+            data: {
+                run: {
+                    id: 'run-1',
+                    createdAt: '2025-03-01 10:00:00',
+                    status: 'failed',
+                    totalTests: 0,
+                    passedTests: 0,
+                    failedTests: 0,
+                    skippedTests: 0,
+                    duration: 0,
+                    metadata: {type: 'run-all'},
+                },
+                results: [],
+            },
+            isLoading: false,
+            error: null,
+        } as any)
+
+        renderRunDetail()
+
+        expect(useRunLog).toHaveBeenCalledWith('run-1')
+        expect(screen.getByTestId('run-log')).toHaveTextContent(
+            'Timed out waiting 60000ms from config.webServer'
+        )
+    })
+
+    it('should rerun the failed tests of the run', () => {
+        renderRunDetail()
+
+        fireEvent.click(screen.getByRole('button', {name: /Rerun failed/}))
+
+        expect(mockRerunFailedTests).toHaveBeenCalledWith({runId: 'run-1', project: 'chromium'})
+    })
+
+    it('should open the run log drawer', () => {
+        renderRunDetail()
+        expect(screen.queryByRole('dialog', {name: 'Run log'})).not.toBeInTheDocument()
+
+        fireEvent.click(screen.getByRole('button', {name: /Log/}))
+
+        expect(screen.getByRole('dialog', {name: 'Run log'})).toBeInTheDocument()
+        expect(screen.getByTestId('run-log')).toBeInTheDocument()
+
+        fireEvent.click(screen.getByRole('button', {name: 'Close'}))
+        expect(screen.queryByRole('dialog', {name: 'Run log'})).not.toBeInTheDocument()
+    })
+
+    it('should show an error when the run cannot be loaded', () => {
+        vi.mocked(useRunDetail).mockReturnValue({
+            data: undefined,
+            isLoading: false,
+            error: new Error('Run not found'),
+        } as any)
+
+        renderRunDetail()
+
+        expect(screen.getByText('Run not found')).toBeInTheDocument()
+    })
+})
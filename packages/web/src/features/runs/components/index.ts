@@ -0,0 +1,6 @@
+export {RunsList} from './RunsList'
+export {RunDetail} from './RunDetail'
+export {RunComparison} from './RunComparison'
+export {PipelineHistory} from './PipelineHistory'
+export {RunMeta, RunCounts, RunStatusBadge} from './RunMeta'
+export {RunLogView, RunLogDrawer} from './RunLog'
@@ -0,0 +1,85 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {act, renderHook, waitFor} from '@testing-library/react'
+import {useRunLog} from '../useRunLog'
+
+vi.mock('@features/authentication/utils/authFetch', () => ({
+    authGet: vi.fn(),
+}))
+
+vi.mock('@features/authentication/utils/webSocketUrl', () => ({
+    getWebSocketUrl: () => 'ws://localhost:3000/ws',
+}))
+
+vi.mock('@/hooks/useWebSocket', () => ({
+    useWebSocket: vi.fn(),
+}))
+
+vi.mock('@config/environment.config', () => ({
+    config: {
+        api: {
+            baseUrl: 'http://localhost:3000/api',
+        },
+    },
+}))
+
+import {authGet} from '@features/authentication/utils/authFetch'
+import {useWebSocket} from '@/hooks/useWebSocket'
+
+const mockAuthGet = authGet as ReturnType<typeof vi.fn>
+
+function makeResponse(body: string, ok = true, status = 200) {
+    return {
+        ok,
+        status,
+        text: () => Promise.resolve(body),
+    } as unknown as Response
+}
+
+// The onRunLog handler passed to the latest useWebSocket call
+const emitRunLog = (data: {runId: string; chunk: string}) => {
+    const options = vi.mocked(useWebSocket).mock.lastCall?.[1]
+    act(() => options?.onRunLog?.(data))
+}
+
+describe('useRunLog', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        mockAuthGet.mockResolvedValue(makeResponse('Running 2 tests\n'))
+    })
+
+    it('loads the output written so far', async () => {
+        const {result} = renderHook(() => useRunLog('run-1'))
+
+        await waitFor(() => expect(result.current.isLoading).toBe(false))
+        expect(result.current.log).toBe('Running 2 tests\n')
+        expect(mockAuthGet).toHaveBeenCalledWith('http://localhost:3000/api/runs/run-1/log')
+    })
+
+    it('appends live chunks of the same run', async () => {
+        const {result} = renderHook(() => useRunLog('run-1'))
+        await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+        emitRunLog({runId: 'run-1', chunk: '  ✓ logs in\n'})
+        emitRunLog({runId: 'run-2', chunk: 'other run\n'})
+
+        expect(result.current.log).toBe('Running 2 tests\n  ✓ logs in\n')
+    })
+
+    it('reports a run without a log', async () => {
+        mockAuthGet.mockResolvedValue(makeResponse('', false, 404))
+
+        const {result} = renderHook(() => useRunLog('run-1'))
+
+        await waitFor(() => expect(result.current.isLoading).toBe(false))
+        expect(result.current.notFound).toBe(true)
+        expect(result.current.error).toBeNull()
+    })
+
+    it('reports a failed request', async () => {
+        mockAuthGet.mockResolvedValue(makeResponse('', false, 500))
+
+        const {result} = renderHook(() => useRunLog('run-1'))
+
+        await waitFor(() => expect(result.current.error).toBe('HTTP error! status: 500'))
+    })
+})
@@ -0,0 +1,8 @@
+export {useRuns, RUNS_PAGE_SIZE} from './useRuns'
+export {useRunDetail} from './useRunDetail'
+export type {RunDetailData} from './useRunDetail'
+export {useRunComparison} from './useRunComparison'
+export {useRunLog} from './useRunLog'
+export type {UseRunLogReturn} from './useRunLog'
+export {usePipelineHistory} from './usePipelineHistory'
+export type {PipelineRerunMode} from './usePipelineHistory'
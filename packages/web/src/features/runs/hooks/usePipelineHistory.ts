@@ -0,0 +1,60 @@
+import {useMutation, useQuery, useQueryClient} from '@tanstack/react-query'
+import {authFetch, authPost} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+import {PipelineState} from '@/hooks/usePipelineStatus'
+
+// failed: the failed steps; resume: the step the pipeline stopped at and the ones after it
+export type PipelineRerunMode = 'failed' | 'resume'
+
+async function fetchPipelineHistory(): Promise<PipelineState[]> {
+    const response = await authFetch(`${config.api.baseUrl}/pipeline/history`)
+    if (!response.ok) {
+        throw new Error('Failed to fetch pipeline history')
+    }
+    const result = await response.json()
+    return result.data || []
+}
+
+async function rerunPipeline({
+    pipelineRunId,
+    mode,
+}: {
+    pipelineRunId: string
+    mode: PipelineRerunMode
+}): Promise<PipelineState> {
+    const response = await authPost(
+        `${config.api.baseUrl}/pipeline/${encodeURIComponent(pipelineRunId)}/rerun`,
+        {mode}
+    )
+    const result = await response.json()
+    if (!response.ok) {
+        throw new Error(result.message || 'Failed to re-run pipeline')
+    }
+    return result.data
+}
+
+export function usePipelineHistory() {
+    const queryClient = useQueryClient()
+
+    const query = useQuery({
+        queryKey: ['pipelines'],
+        queryFn: fetchPipelineHistory,
+        staleTime: 30000,
+    })
+
+    const mutation = useMutation({
+        mutationFn: rerunPipeline,
+        onSuccess: () => {
+            queryClient.invalidateQueries({queryKey: ['pipelines']})
+        },
+    })
+
+    return {
+        pipelines: query.data || [],
+        isLoading: query.isLoading,
+        error: query.error,
+        rerun: mutation.mutate,
+        rerunningId: mutation.isPending ? mutation.variables?.pipelineRunId : undefined,
+        rerunError: mutation.error,
+    }
+}
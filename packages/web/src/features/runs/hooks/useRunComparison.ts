@@ -0,0 +1,39 @@
+import {useQuery} from '@tanstack/react-query'
+import {RunComparison} from '@yshvydak/core'
+import {authFetch} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+
+async function fetchRunComparison(
+    headId: string,
+    baseId: string | undefined,
+    threshold: number
+): Promise<RunComparison> {
+    const params = new URLSearchParams({head: headId, threshold: String(threshold)})
+    if (baseId) params.set('base', baseId)
+
+    const response = await authFetch(`${config.api.baseUrl}/runs/compare?${params.toString()}`)
+    const result = await response.json().catch(() => null)
+    if (!response.ok) {
+        // e.g. "Previous run not found" for the first run of a project
+        throw new Error(result?.error || 'Failed to compare runs')
+    }
+    return result.data
+}
+
+/**
+ * Compares `headId` with `baseId`, or with the previous run of the same project
+ * when no base is given.
+ */
+export function useRunComparison(
+    headId: string | undefined,
+    baseId: string | undefined,
+    threshold: number
+) {
+    return useQuery({
+        queryKey: ['run-comparison', headId, baseId, threshold],
+        queryFn: () => fetchRunComparison(headId!, baseId, threshold),
+        enabled: !!headId,
+        retry: false,
+        staleTime: 60000,
+    })
+}
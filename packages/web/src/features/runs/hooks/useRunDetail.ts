@@ -0,0 +1,35 @@
+import {useQuery} from '@tanstack/react-query'
+import {TestResult, TestRun} from '@yshvydak/core'
+import {authFetch} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+
+export interface RunDetailData {
+    run: TestRun
+    // One entry per execution, retries folded into `attempts`
+    results: TestResult[]
+}
+
+async function fetchRunDetail(runId: string): Promise<RunDetailData> {
+    const [runResponse, resultsResponse] = await Promise.all([
+        authFetch(`${config.api.baseUrl}/runs/${runId}`),
+        authFetch(`${config.api.baseUrl}/runs/${runId}/results`),
+    ])
+    if (runResponse.status === 404) {
+        throw new Error('Run not found')
+    }
+    if (!runResponse.ok || !resultsResponse.ok) {
+        throw new Error('Failed to fetch run')
+    }
+
+    const [run, results] = await Promise.all([runResponse.json(), resultsResponse.json()])
+    return {run: run.data, results: results.data || []}
+}
+
+export function useRunDetail(runId: string | undefined) {
+    return useQuery({
+        queryKey: ['run-detail', runId],
+        queryFn: () => fetchRunDetail(runId!),
+        enabled: !!runId,
+        staleTime: 30000,
+    })
+}
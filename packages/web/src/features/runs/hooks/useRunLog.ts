@@ -0,0 +1,74 @@
+import {useCallback, useEffect, useMemo, useRef, useState} from 'react'
+import {authGet} from '@features/authentication/utils/authFetch'
+import {getWebSocketUrl} from '@features/authentication/utils/webSocketUrl'
+import {useWebSocket} from '@/hooks/useWebSocket'
+import {config} from '@config/environment.config'
+
+export interface UseRunLogReturn {
+    log: string
+    isLoading: boolean
+    // The run's process never wrote any output (or its log was cleaned up)
+    notFound: boolean
+    error: string | null
+}
+
+/**
+ * Raw Playwright output of a run: what was written so far, then the live
+ * `run:log` chunks while the run is still going.
+ */
+export function useRunLog(runId: string): UseRunLogReturn {
+    const [log, setLog] = useState('')
+    const [isLoading, setIsLoading] = useState(true)
+    const [notFound, setNotFound] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    // Live chunks are only appended once the log written so far is in
+    const loadedRef = useRef(false)
+    const runIdRef = useRef(runId)
+    runIdRef.current = runId
+
+    useEffect(() => {
+        let cancelled = false
+        loadedRef.current = false
+        setLog('')
+        setIsLoading(true)
+        setNotFound(false)
+        setError(null)
+
+        authGet(`${config.api.baseUrl}/runs/${encodeURIComponent(runId)}/log`)
+            .then(async (res) => {
+                if (cancelled) return
+                if (res.status === 404) {
+                    setNotFound(true)
+                } else if (!res.ok) {
+                    throw new Error(`HTTP error! status: ${res.status}`)
+                } else {
+                    const text = await res.text()
+                    if (!cancelled) setLog(text)
+                }
+            })
+            .catch((err) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load log')
+            })
+            .finally(() => {
+                if (cancelled) return
+                loadedRef.current = true
+                setIsLoading(false)
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [runId])
+
+    const handleRunLog = useCallback((data: {runId: string; chunk: string}) => {
+        if (!loadedRef.current || data?.runId !== runIdRef.current) return
+        setNotFound(false)
+        setLog((prev) => prev + data.chunk)
+    }, [])
+
+    const webSocketUrl = useMemo(() => getWebSocketUrl(true), [])
+    useWebSocket(webSocketUrl, {onRunLog: handleRunLog})
+
+    return {log, isLoading, notFound, error}
+}
@@ -0,0 +1,38 @@
+import {useState} from 'react'
+import {useQuery} from '@tanstack/react-query'
+import {TestRun} from '@yshvydak/core'
+import {authFetch} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+
+// Runs shown per "Load more" step
+export const RUNS_PAGE_SIZE = 50
+
+async function fetchRuns(limit: number): Promise<TestRun[]> {
+    const response = await authFetch(`${config.api.baseUrl}/runs?limit=${limit}`)
+    if (!response.ok) {
+        throw new Error('Failed to fetch runs')
+    }
+    const result = await response.json()
+    return result.data || []
+}
+
+export function useRuns() {
+    const [limit, setLimit] = useState(RUNS_PAGE_SIZE)
+
+    const query = useQuery({
+        queryKey: ['runs', limit],
+        queryFn: () => fetchRuns(limit),
+        placeholderData: (previous) => previous,
+        staleTime: 30000,
+    })
+
+    const runs = query.data || []
+
+    return {
+        ...query,
+        runs,
+        // A full page means there may be older runs
+        hasMore: runs.length >= limit,
+        loadMore: () => setLimit((current) => current + RUNS_PAGE_SIZE),
+    }
+}
@@ -0,0 +1,58 @@
+import {describe, it, expect} from 'vitest'
+import {PipelineState} from '@/hooks/usePipelineStatus'
+import {canResumePipeline, getElapsed, hasFailedSteps} from '../pipelineFormatters'
+
+const pipeline = (
+    status: PipelineState['status'],
+    stepStatuses: PipelineState['steps'][number]['status'][]
+): PipelineState => ({
+    pipelineRunId: 'p1',
+    status,
+    startedAt: '2025-03-01T10:00:00.000Z',
+    steps: stepStatuses.map((stepStatus, index) => ({
+        project: `project-${index}`,
+        displayName: `Project ${index}`,
+        stopOnFailure: false,
+        status: stepStatus,
+    })),
+})
+
+describe('pipelineFormatters', () => {
+    describe('getElapsed', () => {
+        it('should return the milliseconds between two timestamps', () => {
+            expect(getElapsed('2025-03-01T10:00:00.000Z', '2025-03-01T10:01:30.000Z')).toBe(90000)
+        })
+
+        it('should return undefined until both are known', () => {
+            expect(getElapsed('2025-03-01T10:00:00.000Z')).toBeUndefined()
+            expect(getElapsed(undefined, '2025-03-01T10:00:00.000Z')).toBeUndefined()
+        })
+    })
+
+    describe('hasFailedSteps', () => {
+        it('should be true for a finished pipeline with a failed step', () => {
+            expect(hasFailedSteps(pipeline('completed', ['success', 'failed']))).toBe(true)
+            expect(hasFailedSteps(pipeline('completed', ['success', 'success']))).toBe(false)
+        })
+
+        it('should be false while the pipeline is running', () => {
+            expect(hasFailedSteps(pipeline('running', ['failed', 'running']))).toBe(false)
+        })
+    })
+
+    describe('canResumePipeline', () => {
+        it('should be true when steps did not run', () => {
+            expect(canResumePipeline(pipeline('stopped_early', ['failed', 'skipped']))).toBe(true)
+            expect(canResumePipeline(pipeline('interrupted', ['success', 'cancelled']))).toBe(true)
+        })
+
+        it('should be false when every step ran or the pipeline is running', () => {
+            expect(canResumePipeline(pipeline('completed', ['success', 'failed']))).toBe(false)
+            expect(canResumePipeline(pipeline('running', ['running', 'queued']))).toBe(false)
+        })
+
+        it('should be false when a completed pipeline skipped steps by their run condition', () => {
+            expect(canResumePipeline(pipeline('completed', ['failed', 'skipped']))).toBe(false)
+        })
+    })
+})
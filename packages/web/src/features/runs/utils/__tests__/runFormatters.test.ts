@@ -0,0 +1,137 @@
+import {describe, it, expect} from 'vitest'
+import {TestRun} from '@yshvydak/core'
+import {
+    parseRunDate,
+    formatRunDuration,
+    getRunTypeLabel,
+    getRunTriggerLabel,
+    getRunSubject,
+} from '../runFormatters'
+
+const baseRun: TestRun = {
+    id: 'run-1',
+    createdAt: '2025-03-01 10:00:00',
+    status: 'completed',
+    totalTests: 3,
+    passedTests: 3,
+    failedTests: 0,
+    skippedTests: 0,
+}
+
+describe('runFormatters', () => {
+    describe('parseRunDate', () => {
+        it('should read SQLite timestamps as UTC', () => {
+            expect(parseRunDate('2025-03-01 10:00:00').toISOString()).toBe(
+                '2025-03-01T10:00:00.000Z'
+            )
+        })
+
+        it('should keep ISO timestamps as they are', () => {
+            expect(parseRunDate('2025-03-01T10:00:00.000Z').toISOString()).toBe(
+                '2025-03-01T10:00:00.000Z'
+            )
+        })
+    })
+
+    describe('formatRunDuration', () => {
+        it('should format seconds and minutes', () => {
+            expect(formatRunDuration(4200)).toBe('4s')
+            expect(formatRunDuration(120000)).toBe('2m')
+            expect(formatRunDuration(125400)).toBe('2m 5s')
+        })
+
+        it('should show a dash for runs without a duration', () => {
+            expect(formatRunDuration(0)).toBe('—')
+            expect(formatRunDuration(undefined)).toBe('—')
+        })
+    })
+
+    describe('getRunTypeLabel / getRunTriggerLabel', () => {
+        it('should describe dashboard runs', () => {
+            const run = {
+                ...baseRun,
+                metadata: {type: 'run-all' as const, triggeredFrom: 'dashboard' as const},
+            }
+
+            expect(getRunTypeLabel(run)).toBe('All tests')
+            expect(getRunTriggerLabel(run)).toBe('Dashboard')
+        })
+
+        it('should describe CI script runs', () => {
+            const run = {
+                ...baseRun,
+                metadata: {type: 'run-all' as const, triggeredFrom: 'script' as const},
+            }
+
+            expect(getRunTriggerLabel(run)).toBe('CI script')
+        })
+
+        it('should describe scheduled runs', () => {
+            const run = {
+                ...baseRun,
+                metadata: {type: 'run-all' as const, triggeredFrom: 'schedule' as const},
+            }
+
+            expect(getRunTriggerLabel(run)).toBe('Schedule')
+        })
+
+        it('should describe imported reports', () => {
+            const run = {...baseRun, metadata: {imported: true, fileName: 'results.xml'}}
+
+            expect(getRunTypeLabel(run)).toBe('Imported report')
+            expect(getRunTriggerLabel(run)).toBe('Import')
+            expect(getRunSubject(run)).toBe('results.xml')
+        })
+
+        it('should fall back to the reporter for runs without metadata', () => {
+            expect(getRunTypeLabel(baseRun)).toBe('Run')
+            expect(getRunTriggerLabel(baseRun)).toBe('Reporter')
+        })
+    })
+
+    describe('getRunSubject', () => {
+        it('should name the test of a rerun and the file of a file run', () => {
+            expect(
+                getRunSubject({
+                    ...baseRun,
+                    metadata: {
+                        type: 'rerun',
+                        originalTestName: 'logs in',
+                        filePath: 'e2e/auth.spec.ts',
+                    },
+                })
+            ).toBe('logs in')
+            expect(
+                getRunSubject({
+                    ...baseRun,
+                    metadata: {type: 'run-group', filePath: 'e2e/auth.spec.ts'},
+                })
+            ).toBe('auth.spec.ts')
+        })
+
+        it('should count the tests of a rerun of failed tests', () => {
+            const run = {...baseRun, metadata: {type: 'rerun-failed' as const, filteredTests: 3}}
+
+            expect(getRunTypeLabel(run)).toBe('Failed tests')
+            expect(getRunSubject(run)).toBe('3 failed tests')
+        })
+
+        it('should describe what a selection ran', () => {
+            const byIds = {...baseRun, metadata: {type: 'run-selection' as const, filteredTests: 1}}
+            const byTags = {
+                ...baseRun,
+                metadata: {type: 'run-selection' as const, tags: ['@smoke', '@fast']},
+            }
+            const byGrep = {...baseRun, metadata: {type: 'run-selection' as const, grep: 'cart'}}
+
+            expect(getRunTypeLabel(byIds)).toBe('Selection')
+            expect(getRunSubject(byIds)).toBe('1 selected test')
+            expect(getRunSubject(byTags)).toBe('@smoke @fast')
+            expect(getRunSubject(byGrep)).toBe('grep: cart')
+        })
+
+        it('should be undefined for full runs', () => {
+            expect(getRunSubject({...baseRun, metadata: {type: 'run-all'}})).toBeUndefined()
+        })
+    })
+})
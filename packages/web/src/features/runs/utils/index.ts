@@ -0,0 +1,2 @@
+export * from './runFormatters'
+export * from './pipelineFormatters'
@@ -0,0 +1,40 @@
+import {PipelineRunStatus, PipelineState} from '@/hooks/usePipelineStatus'
+import {parseRunDate} from './runFormatters'
+
+const PIPELINE_STATUS_LABELS: Record<PipelineRunStatus, string> = {
+    running: 'Running',
+    completed: 'Completed',
+    stopped_early: 'Stopped early',
+    cancelled: 'Cancelled',
+    interrupted: 'Interrupted',
+}
+
+export function getPipelineStatusLabel(status: PipelineRunStatus): string {
+    return PIPELINE_STATUS_LABELS[status] ?? status
+}
+
+/**
+ * Milliseconds between two ISO timestamps, or undefined until both are known.
+ */
+export function getElapsed(startedAt?: string, finishedAt?: string): number | undefined {
+    if (!startedAt || !finishedAt) return undefined
+    const elapsed = parseRunDate(finishedAt).getTime() - parseRunDate(startedAt).getTime()
+    return isNaN(elapsed) ? undefined : Math.max(0, elapsed)
+}
+
+export function hasFailedSteps(pipeline: PipelineState): boolean {
+    return pipeline.status !== 'running' && pipeline.steps.some((step) => step.status === 'failed')
+}
+
+/**
+ * A pipeline stopped early, cancelled or interrupted has steps that didn't run,
+ * and can be resumed from the step it stopped at. The steps a completed
+ * pipeline skipped did so by their run condition.
+ */
+export function canResumePipeline(pipeline: PipelineState): boolean {
+    return (
+        pipeline.status !== 'running' &&
+        pipeline.status !== 'completed' &&
+        pipeline.steps.some((step) => ['queued', 'skipped', 'cancelled'].includes(step.status))
+    )
+}
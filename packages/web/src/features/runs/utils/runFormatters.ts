@@ -0,0 +1,99 @@
+import {TestRun} from '@yshvydak/core'
+
+/**
+ * Run timestamps come from SQLite CURRENT_TIMESTAMP ('YYYY-MM-DD HH:MM:SS', UTC
+ * without a zone), which `new Date()` would read as local time.
+ */
+export function parseRunDate(createdAt: string): Date {
+    const isSqliteTimestamp = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(createdAt)
+    return new Date(isSqliteTimestamp ? `${createdAt.replace(' ', 'T')}Z` : createdAt)
+}
+
+export function formatRunDate(createdAt: string): string {
+    const date = parseRunDate(createdAt)
+    if (isNaN(date.getTime())) return 'N/A'
+
+    return date.toLocaleString('en-GB', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    })
+}
+
+export function formatRunDuration(duration?: number): string {
+    if (!duration) return '—'
+
+    const seconds = Math.round(duration / 1000)
+    if (seconds < 60) return `${seconds}s`
+
+    const minutes = Math.floor(seconds / 60)
+    return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m ${seconds % 60}s`
+}
+
+export function getRunTypeLabel(run: TestRun): string {
+    if (run.metadata?.imported) return 'Imported report'
+
+    switch (run.metadata?.type) {
+        case 'run-all':
+            return 'All tests'
+        case 'run-group':
+            return 'File'
+        case 'rerun':
+            return 'Rerun'
+        case 'rerun-failed':
+            return 'Failed tests'
+        case 'run-selection':
+            return 'Selection'
+        default:
+            return 'Run'
+    }
+}
+
+export function getRunTriggerLabel(run: TestRun): string {
+    if (run.metadata?.imported) return 'Import'
+    if (run.metadata?.triggeredFrom === 'script') return 'CI script'
+    if (run.metadata?.triggeredFrom === 'schedule') return 'Schedule'
+    // Runs started by the dashboard always carry a type; the rest were
+    // created by a reporter running outside the dashboard
+    return run.metadata?.type ? 'Dashboard' : 'Reporter'
+}
+
+/**
+ * What a narrower run ran: the test of a rerun, the number of tests of a rerun
+ * of failed tests, the tags, grep or number of tests of a selection, the file of
+ * a file run or the report file of an import.
+ * Undefined for full runs.
+ */
+export function getRunSubject(run: TestRun): string | undefined {
+    if (run.metadata?.type === 'rerun' && run.metadata.originalTestName) {
+        return run.metadata.originalTestName
+    }
+    if (run.metadata?.type === 'rerun-failed' && run.metadata.filteredTests) {
+        const count = run.metadata.filteredTests
+        return `${count} failed ${count === 1 ? 'test' : 'tests'}`
+    }
+    if (run.metadata?.type === 'run-selection') {
+        const {tags, grep, filteredTests} = run.metadata
+        if (tags?.length) return tags.join(' ')
+        if (grep) return `grep: ${grep}`
+        if (filteredTests) {
+            return `${filteredTests} selected ${filteredTests === 1 ? 'test' : 'tests'}`
+        }
+    }
+    return run.metadata?.filePath?.split('/').pop() || run.metadata?.fileName
+}
+
+export function formatDurationChange(change: number): string {
+    return `${change > 0 ? '+' : ''}${change}%`
+}
+
+/**
+ * Option label for picking a run: date, plus project and type to tell runs apart.
+ */
+export function getRunOptionLabel(run: TestRun): string {
+    return [formatRunDate(run.createdAt), run.metadata?.project, getRunTypeLabel(run)]
+        .filter(Boolean)
+        .join(' · ')
+}
@@ -0,0 +1,59 @@
+import {Tag} from 'lucide-react'
+import {TestAnnotation} from '@yshvydak/core'
+import {Badge, BadgeProps} from '@shared/components'
+import {LinkifiedText} from '@/components/atoms/LinkifiedText'
+
+const ANNOTATION_VARIANTS: Record<string, BadgeProps['variant']> = {
+    fixme: 'warning',
+    fail: 'warning',
+    skip: 'neutral',
+    slow: 'info',
+    issue: 'danger',
+    bug: 'danger',
+}
+
+export interface AnnotationBadgesProps {
+    annotations?: TestAnnotation[]
+    tags?: string[]
+    // Compact mode (table rows) shows only the annotation type, the description becomes a tooltip
+    compact?: boolean
+    className?: string
+}
+
+export function AnnotationBadges({
+    annotations = [],
+    tags = [],
+    compact = false,
+    className = '',
+}: AnnotationBadgesProps) {
+    if (annotations.length === 0 && tags.length === 0) return null
+
+    return (
+        <div className={`flex flex-wrap items-center gap-1.5 ${className}`}>
+            {tags.map((tag) => (
+                <Badge key={`tag-${tag}`} variant="neutral" size="sm">
+                    <Tag className="h-3 w-3" />
+                    {tag}
+                </Badge>
+            ))}
+            {annotations.map((annotation, index) => (
+                <Badge
+                    key={`annotation-${annotation.type}-${index}`}
+                    variant={ANNOTATION_VARIANTS[annotation.type] || 'neutral'}
+                    size="sm"
+                    className={compact ? '' : 'max-w-full'}>
+                    <span title={compact ? annotation.description : undefined}>
+                        {annotation.type}
+                    </span>
+                    {!compact && annotation.description && (
+                        <LinkifiedText
+                            text={annotation.description}
+                            className="truncate font-normal"
+                            linkClassName="underline underline-offset-2 hover:opacity-80"
+                        />
+                    )}
+                </Badge>
+            ))}
+        </div>
+    )
+}
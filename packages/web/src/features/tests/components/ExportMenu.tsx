@@ -0,0 +1,72 @@
+import {useRef, useState} from 'react'
+import {ChevronDown, Download} from 'lucide-react'
+import {REPORT_FORMATS, ReportFormat} from '@yshvydak/core'
+import {Button} from '@shared/components'
+import {useClickOutside} from '@/hooks/useClickOutside'
+import {REPORT_FORMAT_LABELS} from '../utils/reportDownload'
+
+export interface ExportMenuProps {
+    onExport: (format: ReportFormat) => void | Promise<void>
+    label?: string
+    disabled?: boolean
+    className?: string
+}
+
+export function ExportMenu({
+    onExport,
+    label = 'Export',
+    disabled = false,
+    className = 'inline-flex',
+}: ExportMenuProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const [isExporting, setIsExporting] = useState(false)
+    const menuRef = useRef<HTMLDivElement>(null)
+    useClickOutside(menuRef, isOpen, () => setIsOpen(false))
+
+    const handleExport = async (format: ReportFormat) => {
+        setIsOpen(false)
+        setIsExporting(true)
+        try {
+            await onExport(format)
+        } catch (error) {
+            console.error('Failed to export report:', error)
+        } finally {
+            setIsExporting(false)
+        }
+    }
+
+    return (
+        <div className={`relative shrink-0 ${className}`} ref={menuRef}>
+            <Button
+                variant="secondary"
+                size="sm"
+                loading={isExporting}
+                disabled={disabled}
+                onClick={() => setIsOpen((open) => !open)}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}>
+                <span className="flex items-center gap-1.5">
+                    <Download className="h-3.5 w-3.5" />
+                    <span>{label}</span>
+                    <ChevronDown className="h-3 w-3" />
+                </span>
+            </Button>
+            {isOpen && (
+                <div
+                    role="menu"
+                    className="absolute top-full right-0 z-50 mt-2 min-w-[170px] overflow-hidden rounded-xl border border-gray-200 bg-white shadow-xl dark:border-white/10 dark:bg-gray-800">
+                    {REPORT_FORMATS.map((format) => (
+                        <button
+                            key={format}
+                            type="button"
+                            role="menuitem"
+                            onClick={() => handleExport(format)}
+                            className="flex w-full items-center px-4 py-2.5 text-left text-sm text-gray-700 hover:bg-gray-50 dark:text-gray-200 dark:hover:bg-white/[0.06]">
+                            {REPORT_FORMAT_LABELS[format]}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -3,7 +3,7 @@ import {TestResult} from '@yshvydak/core'
 import {Card} from '@shared/components'
 import {TestGroupData} from '../hooks/useTestGroups'
 import {TestGroupHeader} from './TestGroupHeader'
-import {TestsTable} from './TestsTable'
+import {TestsTable, TestsSelection} from './TestsTable'
 import {FilterKey} from '../constants'
 
 export interface TestGroupProps {
@@ -12,6 +12,7 @@ export interface TestGroupProps {
     onTestSelect: (test: TestResult) => void
     onTestRerun: (testId: string) => void
     filter?: FilterKey
+    selection?: TestsSelection
 }
 
 export function TestGroup({
@@ -20,6 +21,7 @@ export function TestGroup({
     onTestSelect,
     onTestRerun,
     filter,
+    selection,
 }: TestGroupProps) {
     const [expanded, setExpanded] = useState(true)
 
@@ -30,6 +32,7 @@ export function TestGroup({
                 expanded={expanded}
                 onToggle={() => setExpanded(!expanded)}
                 filter={filter}
+                selection={selection}
             />
 
             {expanded && (
@@ -39,6 +42,7 @@ export function TestGroup({
                         selectedTest={selectedTest}
                         onTestSelect={onTestSelect}
                         onTestRerun={onTestRerun}
+                        selection={selection}
                     />
                 </div>
             )}
@@ -4,15 +4,23 @@ import {ActionButton} from '@shared/components'
 import {TestGroupData} from '../hooks/useTestGroups'
 import {useTestsStore} from '../store/testsStore'
 import {FilterKey} from '../constants'
+import {TestsSelection} from './TestsTable'
 
 export interface TestGroupHeaderProps {
     group: TestGroupData
     expanded: boolean
     onToggle: () => void
     filter?: FilterKey
+    selection?: TestsSelection
 }
 
-export function TestGroupHeader({group, expanded, onToggle, filter}: TestGroupHeaderProps) {
+export function TestGroupHeader({
+    group,
+    expanded,
+    onToggle,
+    filter,
+    selection,
+}: TestGroupHeaderProps) {
     const {runningGroups, getIsAnyTestRunning, runTestsGroup} = useTestsStore()
     const [searchParams] = useSearchParams()
     const activeProject = searchParams.get('project') || ''
@@ -23,6 +31,11 @@ export function TestGroupHeader({group, expanded, onToggle, filter}: TestGroupHe
     // When in "failed" filter, extract only failed test names
     const testNames = filter === 'failed' ? group.tests.map((t) => t.name) : undefined
 
+    const groupTestIds = group.tests.map((t) => t.testId)
+    const selectedInGroup = selection
+        ? groupTestIds.filter((testId) => selection.selectedTestIds.has(testId)).length
+        : 0
+
     return (
         <div
             className={`group/header relative z-10 cursor-pointer border-b border-gray-200/70 py-3 transition-colors hover:z-20 hover:bg-gray-50 dark:border-white/[0.06] dark:hover:bg-white/[0.03] md:py-4 ${
@@ -31,6 +44,22 @@ export function TestGroupHeader({group, expanded, onToggle, filter}: TestGroupHe
             onClick={onToggle}>
             <div className="flex min-h-[32px] flex-col gap-2 px-3 sm:flex-row sm:items-center sm:justify-between sm:gap-0 md:px-6">
                 <div className="flex min-w-0 items-center space-x-2 md:space-x-3">
+                    {selection && (
+                        <input
+                            type="checkbox"
+                            aria-label={`Select the tests of ${group.filePath}`}
+                            checked={selectedInGroup === groupTestIds.length}
+                            ref={(el) => {
+                                if (el) {
+                                    el.indeterminate =
+                                        selectedInGroup > 0 && selectedInGroup < groupTestIds.length
+                                }
+                            }}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => selection.onToggle(groupTestIds, e.target.checked)}
+                            className="h-4 w-4 flex-shrink-0 cursor-pointer rounded border-gray-300 text-primary-600 focus:ring-primary-500 dark:border-white/20 dark:bg-white/[0.04]"
+                        />
+                    )}
                     <ChevronDown
                         className={`h-4 w-4 flex-shrink-0 text-gray-400 transition-transform duration-200 dark:text-gray-500 ${
                             expanded ? 'rotate-0' : '-rotate-90'
@@ -10,15 +10,18 @@ import {parseNoteContent} from '@/utils/noteContent.util'
 import {createProtectedFileURL} from '@features/authentication/utils/authFetch'
 import {config} from '@config/environment.config'
 import {NoteImage} from '@yshvydak/core'
+import {AnnotationBadges} from './AnnotationBadges'
+import {TestsSelection} from './TestsTable'
 
 export interface TestRowProps {
     test: TestResult
     selected: boolean
     onSelect: (test: TestResult) => void
     onRerun: (testId: string) => void
+    selection?: TestsSelection
 }
 
-export function TestRow({test, selected, onSelect, onRerun}: TestRowProps) {
+export function TestRow({test, selected, onSelect, onRerun, selection}: TestRowProps) {
     const {runningTests, getIsAnyTestRunning, activeProgress} = useTestsStore()
     const isAnyTestRunning = getIsAnyTestRunning()
 
@@ -49,6 +52,17 @@ export function TestRow({test, selected, onSelect, onRerun}: TestRowProps) {
                       : 'hover:bg-gray-50 dark:hover:bg-white/[0.04]'
             }`}
             onClick={() => onSelect(test)}>
+            {selection && (
+                <td className="w-10 py-3.5 pl-3 md:pl-6" onClick={(e) => e.stopPropagation()}>
+                    <input
+                        type="checkbox"
+                        aria-label={`Select ${test.name}`}
+                        checked={selection.selectedTestIds.has(test.testId)}
+                        onChange={(e) => selection.onToggle([test.testId], e.target.checked)}
+                        className="h-4 w-4 cursor-pointer rounded border-gray-300 text-primary-600 focus:ring-primary-500 dark:border-white/20 dark:bg-white/[0.04]"
+                    />
+                </td>
+            )}
             <td className="py-3.5 px-3 md:px-6 w-24 md:w-32">
                 {isRunning ? (
                     <Badge variant="info" size="md">
@@ -57,13 +71,28 @@ export function TestRow({test, selected, onSelect, onRerun}: TestRowProps) {
                         <span className="sm:hidden">Run</span>
                     </Badge>
                 ) : (
-                    <StatusBadge status={test.status as any} />
+                    <div className="flex flex-col items-start gap-1">
+                        <StatusBadge status={test.status as any} />
+                        {test.quarantine && (
+                            <span title={test.quarantine.reason}>
+                                <Badge variant="warning" size="sm">
+                                    Quarantined
+                                </Badge>
+                            </span>
+                        )}
+                    </div>
                 )}
             </td>
             <td className="py-3.5 px-3 md:px-6">
                 <div className="font-medium tracking-tight text-gray-900 dark:text-white text-sm md:text-base">
                     {test.name}
                 </div>
+                <AnnotationBadges
+                    annotations={test.metadata?.annotations}
+                    tags={test.metadata?.tags}
+                    compact
+                    className="mt-1"
+                />
                 {/* On mobile, show duration inline under name */}
                 <div className="sm:hidden text-xs text-gray-400 dark:text-gray-500 mt-0.5 font-mono tabular-nums">
                     {formatDuration(test.duration)}
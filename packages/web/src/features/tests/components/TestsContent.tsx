@@ -2,6 +2,7 @@ import {Search} from 'lucide-react'
 import {TestResult} from '@yshvydak/core'
 import {TestsGroupedView} from './TestsGroupedView'
 import {FilterKey} from '../constants'
+import {TestsSelection} from './TestsTable'
 
 export interface TestsContentProps {
     tests: TestResult[]
@@ -10,6 +11,7 @@ export interface TestsContentProps {
     onTestRerun: (testId: string) => void
     searchQuery?: string
     filter?: FilterKey
+    selection?: TestsSelection
 }
 
 export function TestsContent({
@@ -19,6 +21,7 @@ export function TestsContent({
     onTestRerun,
     searchQuery,
     filter,
+    selection,
 }: TestsContentProps) {
     if (tests.length === 0) {
         return (
@@ -60,6 +63,7 @@ export function TestsContent({
             onTestSelect={onTestSelect}
             onTestRerun={onTestRerun}
             filter={filter}
+            selection={selection}
         />
     )
 }
@@ -2,6 +2,7 @@ import {TestResult} from '@yshvydak/core'
 import {useTestGroups} from '../hooks'
 import {TestGroup} from './TestGroup'
 import {FilterKey} from '../constants'
+import {TestsSelection} from './TestsTable'
 
 export interface TestsGroupedViewProps {
     tests: TestResult[]
@@ -9,6 +10,8 @@ export interface TestsGroupedViewProps {
     onTestSelect: (test: TestResult) => void
     onTestRerun: (testId: string) => void
     filter?: FilterKey
+    // Multi-select mode; checkboxes are hidden without it
+    selection?: TestsSelection
 }
 
 export function TestsGroupedView({
@@ -17,6 +20,7 @@ export function TestsGroupedView({
     onTestSelect,
     onTestRerun,
     filter,
+    selection,
 }: TestsGroupedViewProps) {
     const groupStats = useTestGroups(tests)
 
@@ -30,6 +34,7 @@ export function TestsGroupedView({
                     onTestSelect={onTestSelect}
                     onTestRerun={onTestRerun}
                     filter={filter}
+                    selection={selection}
                 />
             ))}
         </div>
@@ -1,4 +1,4 @@
-import {useState, useEffect, useRef} from 'react'
+import {useState, useEffect, useRef, useMemo} from 'react'
 import {useSearchParams} from 'react-router-dom'
 import {AlertTriangle} from 'lucide-react'
 import {TestResult} from '@yshvydak/core'
@@ -7,9 +7,11 @@ import {useTestsStore} from '../store/testsStore'
 import {useTestFilters} from '../hooks'
 import {useTestStatusCounts} from '../hooks/useTestStatusCounts'
 import {FilterKey, FILTER_OPTIONS} from '../constants'
+import {exportTests} from '../utils/reportDownload'
 // import {TestsListHeader} from './TestsListHeader'
 import {TestsListFilters} from './TestsListFilters'
 import {TestsContent} from './TestsContent'
+import {TestsSelectionBar} from './TestsSelectionBar'
 import {TestDetailModal} from './testDetail'
 
 export interface TestsListProps {
@@ -34,6 +36,8 @@ export default function TestsList({
     const [detailModalTest, setDetailModalTest] = useState<TestResult | null>(null)
     const hasProcessedUrlRef = useRef(false)
     const searchInputRef = useRef<HTMLInputElement>(null)
+    const [selectMode, setSelectMode] = useState(false)
+    const [selectedTestIds, setSelectedTestIds] = useState<Set<string>>(() => new Set())
 
     // Initialize filter from URL or default to 'all'
     const getInitialFilter = (): FilterKey => {
@@ -48,14 +52,26 @@ export default function TestsList({
     }
 
     const [filter, setFilter] = useState<FilterKey>(getInitialFilter)
+    const tagFilter = searchParams.get('tag') || ''
 
     const {filteredTests} = useTestFilters({
         tests,
         filter,
         searchQuery,
         projectFilter: activeProject || undefined,
+        tagFilter: tagFilter || undefined,
     })
 
+    // Tags offered in the filter come from the loaded tests of the active project
+    const availableTags = useMemo(() => {
+        const tags = new Set<string>()
+        for (const test of tests) {
+            if (activeProject && (test.project || '') !== activeProject) continue
+            test.metadata?.tags?.forEach((tag) => tags.add(tag))
+        }
+        return [...tags].sort()
+    }, [tests, activeProject])
+
     // Badge counts come from a dedicated, unlimited server-side aggregate rather than
     // the (paginated) `tests` array — otherwise "All" caps at the list's page size
     // (200 with no project selected, 5000 with one) instead of the true total.
@@ -67,6 +83,25 @@ export default function TestsList({
         skipped: statusCounts.skipped,
         pending: statusCounts.pending,
         noted: statusCounts.noted,
+        quarantined: statusCounts.quarantined,
+    }
+
+    // Selected tests belong to the project they were picked in
+    useEffect(() => {
+        setSelectedTestIds(new Set())
+    }, [activeProject])
+
+    const toggleSelectedTests = (testIds: string[], selected: boolean) => {
+        setSelectedTestIds((current) => {
+            const next = new Set(current)
+            testIds.forEach((testId) => (selected ? next.add(testId) : next.delete(testId)))
+            return next
+        })
+    }
+
+    const handleSelectModeChange = (enabled: boolean) => {
+        setSelectMode(enabled)
+        if (!enabled) setSelectedTestIds(new Set())
     }
 
     // Sync filter with URL parameter changes
@@ -198,6 +233,16 @@ export default function TestsList({
         setSearchParams(params, {replace: true})
     }
 
+    const handleTagFilterChange = (tag: string) => {
+        const params = new URLSearchParams(searchParams)
+        if (tag) {
+            params.set('tag', tag)
+        } else {
+            params.delete('tag')
+        }
+        setSearchParams(params, {replace: true})
+    }
+
     const handleSearchChange = (query: string) => {
         setSearchQuery(query)
         const params = new URLSearchParams(searchParams)
@@ -222,7 +267,24 @@ export default function TestsList({
                     filteredCount={filteredTests.length}
                     searchInputRef={searchInputRef}
                     activeProject={activeProject}
+                    tags={availableTags}
+                    tagFilter={tagFilter}
+                    onTagFilterChange={handleTagFilterChange}
+                    onExport={(format) =>
+                        exportTests(filteredTests, format, activeProject || 'tests')
+                    }
+                    selectMode={selectMode}
+                    onSelectModeChange={handleSelectModeChange}
                 />
+                {selectMode && (
+                    <TestsSelectionBar
+                        selectedTestIds={[...selectedTestIds]}
+                        onClear={() => setSelectedTestIds(new Set())}
+                        onClose={() => handleSelectModeChange(false)}
+                        activeProject={activeProject}
+                        tagFilter={tagFilter || undefined}
+                    />
+                )}
             </div>
 
             {/* Scrollable content */}
@@ -234,6 +296,9 @@ export default function TestsList({
                     onTestRerun={onTestRerun}
                     searchQuery={searchQuery}
                     filter={filter}
+                    selection={
+                        selectMode ? {selectedTestIds, onToggle: toggleSelectedTests} : undefined
+                    }
                 />
             </div>
 
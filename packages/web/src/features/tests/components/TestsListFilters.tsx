@@ -1,9 +1,11 @@
-import {Play, ChevronDown, Search} from 'lucide-react'
+import {Play, ChevronDown, ListChecks, RotateCcw, Search, Tag} from 'lucide-react'
 import {RefObject, useRef, useState} from 'react'
+import {ReportFormat} from '@yshvydak/core'
 import {FilterButtonGroup, SearchInput, Button} from '@shared/components'
 import {FilterKey, FILTER_OPTIONS} from '../constants'
 import {useTestsStore} from '../store/testsStore'
 import {useClickOutside} from '@/hooks/useClickOutside'
+import {ExportMenu} from './ExportMenu'
 
 export interface TestsListFiltersProps {
     filter: FilterKey
@@ -15,6 +17,7 @@ export interface TestsListFiltersProps {
         skipped: number
         pending: number
         noted: number
+        quarantined: number
     }
     searchQuery: string
     onSearchChange: (query: string) => void
@@ -23,6 +26,15 @@ export interface TestsListFiltersProps {
     onCollapseAll?: () => void
     searchInputRef?: RefObject<HTMLInputElement>
     activeProject?: string
+    // Playwright tags to filter by; the tag select is hidden when empty
+    tags?: string[]
+    tagFilter?: string
+    onTagFilterChange?: (tag: string) => void
+    // Exports the currently filtered tests; the Export menu is hidden without it
+    onExport?: (format: ReportFormat) => void
+    // Multi-select mode; the Select toggle is hidden without onSelectModeChange
+    selectMode?: boolean
+    onSelectModeChange?: (selectMode: boolean) => void
 }
 
 export function TestsListFilters({
@@ -34,9 +46,22 @@ export function TestsListFilters({
     filteredCount,
     searchInputRef,
     activeProject,
+    tags = [],
+    tagFilter = '',
+    onTagFilterChange,
+    onExport,
+    selectMode = false,
+    onSelectModeChange,
 }: TestsListFiltersProps) {
-    const {runAllTests, discoverTests, isRunningAllTests, isDiscovering, getIsAnyTestRunning} =
-        useTestsStore()
+    const {
+        runAllTests,
+        discoverTests,
+        rerunFailedTests,
+        isRunningAllTests,
+        isRerunningFailed,
+        isDiscovering,
+        getIsAnyTestRunning,
+    } = useTestsStore()
     const isAnyTestRunning = getIsAnyTestRunning()
     const [showDiscoverMenu, setShowDiscoverMenu] = useState(false)
     const splitButtonRef = useRef<HTMLDivElement>(null)
@@ -106,6 +131,29 @@ export function TestsListFilters({
                     )}
                 </div>
 
+                {/* Reruns the tests counted by the Failed filter in one Playwright process */}
+                {activeProject && (counts.failed > 0 || isRerunningFailed) && (
+                    <Button
+                        variant="secondary"
+                        loading={isRerunningFailed}
+                        disabled={isAnyTestRunning}
+                        onClick={() => rerunFailedTests({project: activeProject})}
+                        title="Run the failed tests of this project again"
+                        className="shrink-0">
+                        {isRerunningFailed ? (
+                            'Rerunning...'
+                        ) : (
+                            <span className="flex items-center gap-1.5">
+                                <RotateCcw className="h-3.5 w-3.5" />
+                                <span>Rerun failed</span>
+                                <span className="tabular-nums text-danger-600 dark:text-danger-400">
+                                    {counts.failed}
+                                </span>
+                            </span>
+                        )}
+                    </Button>
+                )}
+
                 <SearchInput
                     ref={searchInputRef}
                     value={searchQuery}
@@ -116,6 +164,47 @@ export function TestsListFilters({
                     showShortcutHint
                     resultCount={searchQuery ? filteredCount : undefined}
                 />
+
+                {onTagFilterChange && (tags.length > 0 || tagFilter) && (
+                    <div className="flex shrink-0 items-center gap-1.5 rounded-xl bg-gray-100/70 px-3 py-1.5 dark:bg-white/[0.04]">
+                        <Tag className="h-3.5 w-3.5 text-gray-400 dark:text-gray-500" />
+                        <select
+                            aria-label="Filter by tag"
+                            value={tagFilter}
+                            onChange={(e) => onTagFilterChange(e.target.value)}
+                            className="bg-transparent text-xs font-medium text-gray-900 outline-none dark:text-white">
+                            <option value="">All tags</option>
+                            {/* Keep a tag from the URL selectable even if no loaded test carries it */}
+                            {[...new Set(tagFilter ? [tagFilter, ...tags] : tags)].map((tag) => (
+                                <option key={tag} value={tag}>
+                                    {tag}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                {onSelectModeChange && (
+                    <Button
+                        variant="secondary"
+                        onClick={() => onSelectModeChange(!selectMode)}
+                        aria-pressed={selectMode}
+                        title="Pick tests across files to run together"
+                        className={`shrink-0 ${selectMode ? 'ring-2 ring-primary-500/40' : ''}`}>
+                        <span className="flex items-center gap-1.5">
+                            <ListChecks className="h-3.5 w-3.5" />
+                            <span className="hidden md:inline">Select</span>
+                        </span>
+                    </Button>
+                )}
+
+                {onExport && (
+                    <ExportMenu
+                        onExport={onExport}
+                        disabled={filteredCount === 0}
+                        className="hidden md:inline-flex"
+                    />
+                )}
             </div>
 
             {/* Row 2 on mobile / right part on desktop: Filters */}
@@ -0,0 +1,82 @@
+import {ListChecks, Play, Tag, X} from 'lucide-react'
+import {Button} from '@shared/components'
+import {useTestsStore} from '../store/testsStore'
+
+export interface TestsSelectionBarProps {
+    selectedTestIds: string[]
+    onClear: () => void
+    onClose: () => void
+    activeProject?: string
+    // Tag of the tag filter, offered as "Run @tag"
+    tagFilter?: string
+}
+
+/**
+ * Actions of the multi-select mode of the tests list. The selected tests, or
+ * every test carrying the filtered tag, run together in one Playwright process.
+ */
+export function TestsSelectionBar({
+    selectedTestIds,
+    onClear,
+    onClose,
+    activeProject,
+    tagFilter,
+}: TestsSelectionBarProps) {
+    const {runTestSelection, isRunningSelection, getIsAnyTestRunning} = useTestsStore()
+    const isAnyTestRunning = getIsAnyTestRunning()
+    const count = selectedTestIds.length
+
+    return (
+        <div
+            className="mt-2 flex flex-wrap items-center gap-2 rounded-xl border border-primary-200/70 bg-primary-50/60 px-3 py-2 dark:border-primary-400/20 dark:bg-primary-500/10"
+            role="toolbar"
+            aria-label="Selected tests">
+            <span className="flex items-center gap-1.5 text-sm font-medium text-primary-800 dark:text-primary-200">
+                <ListChecks className="h-4 w-4 text-primary-600 dark:text-primary-400" />
+                <span className="tabular-nums">{count}</span> selected
+            </span>
+
+            <Button
+                size="sm"
+                variant="primary"
+                loading={isRunningSelection}
+                disabled={isAnyTestRunning || count === 0}
+                onClick={() => runTestSelection({testIds: selectedTestIds}, activeProject)}>
+                {isRunningSelection ? (
+                    'Running...'
+                ) : (
+                    <span className="flex items-center gap-1.5">
+                        <Play className="h-3.5 w-3.5" />
+                        <span>Run selected</span>
+                    </span>
+                )}
+            </Button>
+
+            {tagFilter && (
+                <Button
+                    size="sm"
+                    variant="secondary"
+                    disabled={isAnyTestRunning}
+                    onClick={() => runTestSelection({tags: [tagFilter]}, activeProject)}
+                    title={`Run every test tagged ${tagFilter}, loaded or not`}>
+                    <span className="flex items-center gap-1.5">
+                        <Tag className="h-3.5 w-3.5" />
+                        <span>Run {tagFilter}</span>
+                    </span>
+                </Button>
+            )}
+
+            <Button size="sm" variant="secondary" disabled={count === 0} onClick={onClear}>
+                Clear
+            </Button>
+
+            <button
+                type="button"
+                onClick={onClose}
+                aria-label="Leave selection mode"
+                className="ml-auto rounded-lg p-1 text-gray-400 hover:bg-white/70 hover:text-gray-600 dark:text-gray-500 dark:hover:bg-white/[0.06] dark:hover:text-gray-300">
+                <X className="h-4 w-4" />
+            </button>
+        </div>
+    )
+}
@@ -1,12 +1,19 @@
 import {TestResult} from '@yshvydak/core'
 import {TestRow} from './TestRow'
 
+// Multi-select mode of the tests list: a checkbox per test and per file, keyed by testId
+export interface TestsSelection {
+    selectedTestIds: Set<string>
+    onToggle: (testIds: string[], selected: boolean) => void
+}
+
 export interface TestsTableProps {
     tests: TestResult[]
     selectedTest: TestResult | null
     onTestSelect: (test: TestResult) => void
     onTestRerun: (testId: string) => void
     showFilePath?: boolean
+    selection?: TestsSelection
 }
 
 export function TestsTable({
@@ -15,12 +22,18 @@ export function TestsTable({
     onTestSelect,
     onTestRerun,
     showFilePath = false,
+    selection,
 }: TestsTableProps) {
     return (
         <div className="overflow-x-clip sm:overflow-x-auto">
             <table className="w-full">
                 <thead>
                     <tr className="border-b border-gray-200/70 bg-gray-50/80 dark:border-white/[0.06] dark:bg-white/[0.02]">
+                        {selection && (
+                            <th className="w-10 py-2.5 pl-3 md:pl-6">
+                                <span className="sr-only">Select</span>
+                            </th>
+                        )}
                         <th className="w-24 px-3 py-2.5 text-left text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500 md:w-32 md:px-6">
                             Status
                         </th>
@@ -51,6 +64,7 @@ export function TestsTable({
                             selected={selectedTest?.id === test.id}
                             onSelect={onTestSelect}
                             onRerun={onTestRerun}
+                            selection={selection}
                         />
                     ))}
                 </tbody>
@@ -0,0 +1,36 @@
+import {describe, expect, it} from 'vitest'
+import {render, screen} from '@testing-library/react'
+import {AnnotationBadges} from '../AnnotationBadges'
+
+describe('AnnotationBadges', () => {
+    const annotations = [
+        {type: 'issue', description: 'https://github.com/org/repo/issues/42'},
+        {type: 'fixme'},
+    ]
+
+    it('renders nothing without annotations and tags', () => {
+        const {container} = render(<AnnotationBadges />)
+        expect(container).toBeEmptyDOMElement()
+    })
+
+    it('renders tags and annotations with linked descriptions', () => {
+        render(<AnnotationBadges annotations={annotations} tags={['@smoke']} />)
+
+        expect(screen.getByText('@smoke')).toBeInTheDocument()
+        expect(screen.getByText('fixme')).toBeInTheDocument()
+        expect(screen.getByRole('link')).toHaveAttribute(
+            'href',
+            'https://github.com/org/repo/issues/42'
+        )
+    })
+
+    it('moves descriptions into a tooltip in compact mode', () => {
+        render(<AnnotationBadges annotations={annotations} compact />)
+
+        expect(screen.queryByRole('link')).not.toBeInTheDocument()
+        expect(screen.getByText('issue')).toHaveAttribute(
+            'title',
+            'https://github.com/org/repo/issues/42'
+        )
+    })
+})
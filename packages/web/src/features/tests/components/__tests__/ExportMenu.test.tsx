@@ -0,0 +1,30 @@
+import {describe, expect, it, vi} from 'vitest'
+import {fireEvent, render, screen, waitFor} from '@testing-library/react'
+import {ExportMenu} from '../ExportMenu'
+
+describe('ExportMenu', () => {
+    it('lists every report format when opened', () => {
+        render(<ExportMenu onExport={vi.fn()} />)
+
+        expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+        fireEvent.click(screen.getByRole('button', {name: /export/i}))
+
+        expect(screen.getAllByRole('menuitem').map((item) => item.textContent)).toEqual([
+            'JUnit XML',
+            'CTRF (JSON)',
+            'Dashboard JSON',
+        ])
+    })
+
+    it('exports the chosen format and closes the menu', async () => {
+        const onExport = vi.fn().mockResolvedValue(undefined)
+        render(<ExportMenu onExport={onExport} label="Export run" />)
+
+        fireEvent.click(screen.getByRole('button', {name: /export run/i}))
+        fireEvent.click(screen.getByRole('menuitem', {name: 'CTRF (JSON)'}))
+
+        expect(onExport).toHaveBeenCalledWith('ctrf')
+        expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+        await waitFor(() => expect(screen.getByRole('button', {name: /export run/i})).toBeEnabled())
+    })
+})
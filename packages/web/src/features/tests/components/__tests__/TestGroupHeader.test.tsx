@@ -231,4 +231,32 @@ describe('TestGroupHeader', () => {
             expect(screen.getByText('Running...')).toBeInTheDocument()
         })
     })
+
+    describe('Multi-select mode', () => {
+        it('should not show a checkbox outside of the mode', () => {
+            renderHeader()
+
+            expect(screen.queryByRole('checkbox')).not.toBeInTheDocument()
+        })
+
+        it('should select every test of the file without toggling the group', () => {
+            const onToggle = vi.fn()
+            const onToggleGroup = vi.fn()
+            renderHeader({
+                onToggle: onToggleGroup,
+                selection: {selectedTestIds: new Set(['test-1']), onToggle},
+            })
+
+            const checkbox = screen.getByRole('checkbox', {
+                name: 'Select the tests of e2e/tests/auth.spec.ts',
+            }) as HTMLInputElement
+            expect(checkbox.checked).toBe(false)
+            expect(checkbox.indeterminate).toBe(true)
+
+            fireEvent.click(checkbox)
+
+            expect(onToggle).toHaveBeenCalledWith(['test-1', 'test-2'], true)
+            expect(onToggleGroup).not.toHaveBeenCalled()
+        })
+    })
 })
@@ -14,7 +14,7 @@ vi.mock('../../store/testsStore', () => ({
 // URL/modal/filter wiring and don't need a QueryClientProvider wrapper.
 vi.mock('../../hooks/useTestStatusCounts', () => ({
     useTestStatusCounts: () => ({
-        counts: {total: 0, passed: 0, failed: 0, skipped: 0, pending: 0, noted: 0},
+        counts: {total: 0, passed: 0, failed: 0, skipped: 0, pending: 0, noted: 0, quarantined: 0},
         isLoading: false,
     }),
 }))
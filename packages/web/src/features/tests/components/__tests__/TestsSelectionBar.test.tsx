@@ -0,0 +1,78 @@
+import {describe, it, expect, beforeEach, vi} from 'vitest'
+import {render, screen, fireEvent} from '@testing-library/react'
+import {TestsSelectionBar} from '../TestsSelectionBar'
+import {useTestsStore} from '../../store/testsStore'
+
+vi.mock('../../store/testsStore', () => ({
+    useTestsStore: vi.fn(),
+}))
+
+describe('TestsSelectionBar', () => {
+    const mockRunTestSelection = vi.fn()
+    const mockGetIsAnyTestRunning = vi.fn()
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+        mockGetIsAnyTestRunning.mockReturnValue(false)
+        ;(useTestsStore as any).mockReturnValue({
+            runTestSelection: mockRunTestSelection,
+            isRunningSelection: false,
+            getIsAnyTestRunning: mockGetIsAnyTestRunning,
+        })
+    })
+
+    const renderBar = (props: Partial<Parameters<typeof TestsSelectionBar>[0]> = {}) =>
+        render(
+            <TestsSelectionBar
+                selectedTestIds={['test-1', 'test-2']}
+                onClear={() => {}}
+                onClose={() => {}}
+                activeProject="chromium"
+                {...props}
+            />
+        )
+
+    it('runs the selected tests in the active project', () => {
+        renderBar()
+
+        expect(screen.getByText('2')).toBeInTheDocument()
+        fireEvent.click(screen.getByText('Run selected'))
+
+        expect(mockRunTestSelection).toHaveBeenCalledWith(
+            {testIds: ['test-1', 'test-2']},
+            'chromium'
+        )
+    })
+
+    it('runs every test carrying the filtered tag', () => {
+        renderBar({tagFilter: '@smoke'})
+
+        fireEvent.click(screen.getByText('Run @smoke'))
+
+        expect(mockRunTestSelection).toHaveBeenCalledWith({tags: ['@smoke']}, 'chromium')
+    })
+
+    it('cannot run an empty selection or while tests are running', () => {
+        const {rerender} = renderBar({selectedTestIds: []})
+        expect(screen.getByText('Run selected').closest('button')).toBeDisabled()
+        expect(screen.queryByText(/^Run @/)).not.toBeInTheDocument()
+
+        mockGetIsAnyTestRunning.mockReturnValue(true)
+        rerender(
+            <TestsSelectionBar selectedTestIds={['test-1']} onClear={() => {}} onClose={() => {}} />
+        )
+        expect(screen.getByText('Run selected').closest('button')).toBeDisabled()
+    })
+
+    it('clears the selection and leaves the mode', () => {
+        const onClear = vi.fn()
+        const onClose = vi.fn()
+        renderBar({onClear, onClose})
+
+        fireEvent.click(screen.getByText('Clear'))
+        fireEvent.click(screen.getByLabelText('Leave selection mode'))
+
+        expect(onClear).toHaveBeenCalled()
+        expect(onClose).toHaveBeenCalled()
+    })
+})
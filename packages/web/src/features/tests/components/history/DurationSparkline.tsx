@@ -0,0 +1,76 @@
+import {TestResult} from '@yshvydak/core'
+import {formatDuration} from '../../utils/formatters'
+
+const MAX_POINTS = 30
+const WIDTH = 240
+const HEIGHT = 32
+const PADDING = 3
+
+export interface DurationSparklineProps {
+    executions: TestResult[]
+    currentExecutionId?: string
+}
+
+/**
+ * Duration of the latest passed executions, oldest to newest. Failed runs are left
+ * out: a timeout would flatten the rest of the line.
+ */
+export function DurationSparkline({executions, currentExecutionId}: DurationSparklineProps) {
+    // History is newest first
+    const points = executions
+        .filter((execution) => execution.status === 'passed')
+        .slice(0, MAX_POINTS)
+        .reverse()
+
+    if (points.length < 2) {
+        return null
+    }
+
+    const durations = points.map((execution) => execution.duration)
+    const min = Math.min(...durations)
+    const max = Math.max(...durations)
+    const range = max - min || 1
+
+    const coordinates = points.map((execution, index) => ({
+        id: execution.id,
+        x: PADDING + (index / (points.length - 1)) * (WIDTH - PADDING * 2),
+        y: HEIGHT - PADDING - ((execution.duration - min) / range) * (HEIGHT - PADDING * 2),
+    }))
+    const current = coordinates.find((point) => point.id === currentExecutionId)
+
+    return (
+        <div className="mt-3">
+            <div className="flex items-center justify-between text-[11px] tabular-nums text-gray-400 dark:text-gray-500">
+                <span>Duration</span>
+                <span>
+                    {formatDuration(min)} – {formatDuration(max)}
+                </span>
+            </div>
+            <svg
+                role="img"
+                aria-label={`Duration of the last ${points.length} passed executions`}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                preserveAspectRatio="none"
+                className="mt-1 h-8 w-full text-primary-500 dark:text-primary-400">
+                <polyline
+                    points={coordinates.map((point) => `${point.x},${point.y}`).join(' ')}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={1.5}
+                    strokeLinejoin="round"
+                    strokeLinecap="round"
+                    vectorEffect="non-scaling-stroke"
+                />
+                {current && (
+                    <circle
+                        data-testid="sparkline-current"
+                        cx={current.x}
+                        cy={current.y}
+                        r={2.5}
+                        fill="currentColor"
+                    />
+                )}
+            </svg>
+        </div>
+    )
+}
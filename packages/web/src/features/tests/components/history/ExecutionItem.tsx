@@ -1,5 +1,5 @@
 import {useState} from 'react'
-import {Check, Timer, Paperclip, Archive} from 'lucide-react'
+import {Check, Timer, Paperclip, Archive, RotateCcw} from 'lucide-react'
 import {TestResult} from '@yshvydak/core'
 import {StatusBadge} from '@shared/components'
 import {formatLastRun, formatDuration} from '../../utils/formatters'
@@ -21,6 +21,7 @@ export function ExecutionItem({
 }: ExecutionItemProps) {
     const [showRemoveButton, setShowRemoveButton] = useState(false)
     const attachmentCount = execution.attachments?.length || 0
+    const attemptCount = execution.attempts?.length || 0
     // Attachments were purged to free disk space; the execution itself is kept.
     const isStripped = !!execution.attachmentsClearedAt && attachmentCount === 0
 
@@ -86,6 +87,14 @@ export function ExecutionItem({
                         </span>
                     </>
                 )}
+                {attemptCount > 1 && (
+                    <>
+                        <span>•</span>
+                        <span className="flex items-center gap-1" title="Playwright retries">
+                            <RotateCcw className="h-3 w-3" /> {attemptCount} attempts
+                        </span>
+                    </>
+                )}
                 {isStripped && (
                     <>
                         <span>•</span>
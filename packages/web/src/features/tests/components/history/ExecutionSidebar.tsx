@@ -3,6 +3,7 @@ import {TestResult} from '@yshvydak/core'
 import {ActionButton} from '@shared/components'
 import {useTestsStore} from '../../store/testsStore'
 import {ExecutionItem} from './ExecutionItem'
+import {DurationSparkline} from './DurationSparkline'
 
 export interface ExecutionSidebarProps {
     executions: TestResult[]
@@ -74,6 +75,10 @@ export function ExecutionSidebar({
                         Run
                     </ActionButton>
                 </div>
+                <DurationSparkline
+                    executions={executions}
+                    currentExecutionId={currentExecutionId}
+                />
             </div>
 
             {/* Content */}
@@ -0,0 +1,48 @@
+import {describe, it, expect} from 'vitest'
+import {render, screen} from '@testing-library/react'
+import {TestResult} from '@yshvydak/core'
+import {DurationSparkline} from '../DurationSparkline'
+
+const execution = (id: string, duration: number, status: string = 'passed') =>
+    ({id, testId: 'test-1', status, duration}) as TestResult
+
+describe('DurationSparkline', () => {
+    it('plots passed executions oldest to newest', () => {
+        // Newest first, as the history endpoint returns them
+        const executions = [
+            execution('e4', 3000),
+            execution('e3', 60000, 'timedOut'),
+            execution('e2', 1000),
+            execution('e1', 2000),
+        ]
+
+        render(<DurationSparkline executions={executions} currentExecutionId="e4" />)
+
+        const chart = screen.getByRole('img', {
+            name: 'Duration of the last 3 passed executions',
+        })
+        const points = chart
+            .querySelector('polyline')!
+            .getAttribute('points')!
+            .split(' ')
+            .map((point) => point.split(',').map(Number))
+
+        // e1 (2s) is in the middle, e2 (1s) at the bottom, e4 (3s) at the top
+        expect(points).toHaveLength(3)
+        expect(points[0][0]).toBeLessThan(points[2][0])
+        expect(points[1][1]).toBeGreaterThan(points[0][1])
+        expect(points[2][1]).toBeLessThan(points[0][1])
+        expect(screen.getByText('1.0s – 3.0s')).toBeInTheDocument()
+        expect(screen.getByTestId('sparkline-current')).toHaveAttribute('cx', String(points[2][0]))
+    })
+
+    it('renders nothing with fewer than two passed executions', () => {
+        const {container} = render(
+            <DurationSparkline
+                executions={[execution('e2', 1000), execution('e1', 5000, 'failed')]}
+            />
+        )
+
+        expect(container).toBeEmptyDOMElement()
+    })
+})
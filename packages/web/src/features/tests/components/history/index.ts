@@ -1 +1,2 @@
 export {ExecutionSidebar} from './ExecutionSidebar'
+export {DurationSparkline} from './DurationSparkline'
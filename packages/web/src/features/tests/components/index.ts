@@ -7,3 +7,6 @@ export {TestGroupHeader} from './TestGroupHeader'
 export {TestsListHeader} from './TestsListHeader'
 export {TestsListFilters} from './TestsListFilters'
 export {TestsContent} from './TestsContent'
+export {TestsSelectionBar} from './TestsSelectionBar'
+export {AnnotationBadges} from './AnnotationBadges'
+export {ExportMenu} from './ExportMenu'
@@ -8,11 +8,14 @@ import {
     SkipForward,
     CircleDot,
     Timer,
+    Square,
+    ScrollText,
 } from 'lucide-react'
 import {useTestsStore} from '@features/tests/store/testsStore'
 import {ProgressBar} from '@/shared/components/atoms/ProgressBar'
 import {LoadingSpinner} from '@/shared/components/atoms/LoadingSpinner'
 import {TestDetailModal} from '../testDetail/TestDetailModal'
+import {RunLogDrawer} from '@features/runs/components/RunLog'
 import {TestResult} from '@yshvydak/core'
 
 const formatTime = (ms: number): string => {
@@ -26,11 +29,13 @@ const formatTime = (ms: number): string => {
 }
 
 export const FloatingProgressPanel = () => {
-    const {activeProgress, clearProgress, tests} = useTestsStore()
+    const {activeProgress, clearProgress, cancelRun, tests} = useTestsStore()
     const [isMinimized, setIsMinimized] = useState(false)
+    const [stoppingRunId, setStoppingRunId] = useState<string | null>(null)
     const [shouldAutoHide, setShouldAutoHide] = useState(false)
     const [detailModalOpen, setDetailModalOpen] = useState(false)
     const [detailModalTest, setDetailModalTest] = useState<TestResult | null>(null)
+    const [logRunId, setLogRunId] = useState<string | null>(null)
 
     // Auto-hide after 5 seconds when completed
     useEffect(() => {
@@ -50,6 +55,16 @@ export const FloatingProgressPanel = () => {
         }
     }, [activeProgress, clearProgress])
 
+    const handleStop = async () => {
+        if (!activeProgress) return
+        setStoppingRunId(activeProgress.processId)
+        try {
+            await cancelRun(activeProgress.processId)
+        } finally {
+            setStoppingRunId(null)
+        }
+    }
+
     const handleCloseModal = () => {
         setDetailModalOpen(false)
         setDetailModalTest(null)
@@ -89,6 +104,7 @@ export const FloatingProgressPanel = () => {
                     isOpen={detailModalOpen}
                     onClose={handleCloseModal}
                 />
+                <RunLogDrawer runId={logRunId} onClose={() => setLogRunId(null)} />
             </>
         )
     }
@@ -127,6 +143,7 @@ export const FloatingProgressPanel = () => {
                     isOpen={detailModalOpen}
                     onClose={handleCloseModal}
                 />
+                <RunLogDrawer runId={logRunId} onClose={() => setLogRunId(null)} />
             </>
         )
     }
@@ -142,6 +159,20 @@ export const FloatingProgressPanel = () => {
                     </h3>
                 </div>
                 <div className="flex items-center gap-1">
+                    <button
+                        onClick={handleStop}
+                        disabled={stoppingRunId === activeProgress.processId}
+                        className="flex items-center gap-1 rounded-xl px-2 py-1.5 text-xs font-medium text-danger-600 hover:bg-danger-50 dark:text-danger-400 dark:hover:bg-danger-500/10 transition-colors disabled:opacity-50"
+                        aria-label="Stop run">
+                        <Square className="h-3.5 w-3.5 fill-current" />
+                        {stoppingRunId === activeProgress.processId ? 'Stopping…' : 'Stop'}
+                    </button>
+                    <button
+                        onClick={() => setLogRunId(activeProgress.processId)}
+                        className="rounded-xl p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:text-gray-500 dark:hover:bg-white/[0.06] dark:hover:text-gray-300 transition-colors"
+                        aria-label="Show run log">
+                        <ScrollText className="h-4 w-4" />
+                    </button>
                     <button
                         onClick={() => setIsMinimized(true)}
                         className="rounded-xl p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:text-gray-500 dark:hover:bg-white/[0.06] dark:hover:text-gray-300 transition-colors"
@@ -281,6 +312,9 @@ export const FloatingProgressPanel = () => {
                 isOpen={detailModalOpen}
                 onClose={handleCloseModal}
             />
+
+            {/* Run Log Drawer */}
+            <RunLogDrawer runId={logRunId} onClose={() => setLogRunId(null)} />
         </div>
     )
 }
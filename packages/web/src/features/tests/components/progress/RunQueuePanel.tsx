@@ -0,0 +1,81 @@
+import {useState} from 'react'
+import {ListOrdered, X} from 'lucide-react'
+import {RunQueueItem, RunQueuePriority} from '@yshvydak/core'
+import {Badge} from '@/shared/components/atoms/Badge'
+
+const PRIORITY_VARIANT: Record<RunQueuePriority, 'danger' | 'info' | 'neutral'> = {
+    high: 'danger',
+    normal: 'info',
+    low: 'neutral',
+}
+
+const describeItem = (item: RunQueueItem): string =>
+    item.kind === 'pipeline'
+        ? 'CI pipeline'
+        : item.project
+          ? `Run all · ${item.project}`
+          : 'Run all'
+
+export interface RunQueuePanelProps {
+    items: RunQueueItem[]
+    onCancel: (id: string) => Promise<void>
+}
+
+/**
+ * Runs waiting for the current one to finish. Sits bottom-left, opposite the
+ * FloatingProgressPanel, and disappears when the queue is empty.
+ */
+export const RunQueuePanel = ({items, onCancel}: RunQueuePanelProps) => {
+    const [cancelling, setCancelling] = useState<string | null>(null)
+
+    if (items.length === 0) return null
+
+    const handleCancel = async (id: string) => {
+        setCancelling(id)
+        try {
+            await onCancel(id)
+        } catch (error) {
+            console.error('Failed to cancel queued run:', error)
+        } finally {
+            setCancelling(null)
+        }
+    }
+
+    return (
+        <div className="fixed bottom-20 left-3 right-3 md:right-auto md:left-4 md:bottom-4 z-50 md:w-80 bg-white dark:bg-gray-800/90 dark:backdrop-blur-xl rounded-2xl shadow-pop border border-gray-200/80 dark:border-white/10 overflow-hidden animate-scale-in">
+            <div className="flex items-center gap-2.5 px-4 py-3 border-b border-gray-200/70 dark:border-white/[0.06]">
+                <ListOrdered className="h-4 w-4 text-primary-500" />
+                <h3 className="text-sm font-semibold tracking-tight text-gray-900 dark:text-gray-100">
+                    Queued Runs
+                </h3>
+                <span className="text-xs font-semibold tabular-nums text-gray-400 dark:text-gray-500">
+                    {items.length}
+                </span>
+            </div>
+            <ul className="max-h-48 overflow-y-auto divide-y divide-gray-200/70 dark:divide-white/[0.06]">
+                {items.map((item) => (
+                    <li key={item.id} className="flex items-center gap-2.5 px-4 py-2.5 text-sm">
+                        <span className="w-5 text-xs font-semibold tabular-nums text-gray-400 dark:text-gray-500">
+                            #{item.position}
+                        </span>
+                        <span className="flex-1 min-w-0 truncate font-medium text-gray-900 dark:text-gray-100">
+                            {describeItem(item)}
+                        </span>
+                        {item.priority !== 'normal' && (
+                            <Badge variant={PRIORITY_VARIANT[item.priority]} size="sm">
+                                {item.priority}
+                            </Badge>
+                        )}
+                        <button
+                            onClick={() => handleCancel(item.id)}
+                            disabled={cancelling === item.id}
+                            className="rounded-xl p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:text-gray-500 dark:hover:bg-white/[0.06] dark:hover:text-gray-300 transition-colors disabled:opacity-50"
+                            aria-label={`Cancel ${describeItem(item)}`}>
+                            <X className="h-4 w-4" />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    )
+}
@@ -31,6 +31,11 @@ vi.mock('@features/tests/components/testDetail/TestDetailModal', () => ({
     TestDetailModal: vi.fn(() => null),
 }))
 
+vi.mock('@features/runs/components/RunLog', () => ({
+    RunLogDrawer: ({runId}: {runId: string | null}) =>
+        runId ? <div data-testid="run-log-drawer">{runId}</div> : null,
+}))
+
 // Mock useWebSocket hook used by TestDetailModal
 vi.mock('@/hooks/useWebSocket', () => ({
     useWebSocket: vi.fn(),
@@ -39,11 +44,13 @@ vi.mock('@/hooks/useWebSocket', () => ({
 describe('FloatingProgressPanel', () => {
     let mockActiveProgress: TestProgress
     let mockClearProgress: ReturnType<typeof vi.fn>
+    let mockCancelRun: ReturnType<typeof vi.fn>
 
     beforeEach(() => {
         vi.useFakeTimers()
 
         mockClearProgress = vi.fn()
+        mockCancelRun = vi.fn().mockResolvedValue(undefined)
 
         mockActiveProgress = {
             processId: 'run-123',
@@ -70,6 +77,7 @@ describe('FloatingProgressPanel', () => {
         vi.mocked(useTestsStore).mockReturnValue({
             activeProgress: mockActiveProgress,
             clearProgress: mockClearProgress,
+            cancelRun: mockCancelRun,
             tests: [], // Add tests array for test lookup
         } as any)
     })
@@ -290,6 +298,28 @@ describe('FloatingProgressPanel', () => {
         })
     })
 
+    describe('Stop Functionality', () => {
+        it('should cancel the running process when stop is clicked', () => {
+            render(<FloatingProgressPanel />)
+
+            fireEvent.click(screen.getByRole('button', {name: /stop run/i}))
+
+            expect(mockCancelRun).toHaveBeenCalledWith('run-123')
+            expect(screen.getByText('Stopping…')).toBeInTheDocument()
+        })
+    })
+
+    describe('Run Log', () => {
+        it('should open the log of the running process', () => {
+            render(<FloatingProgressPanel />)
+            expect(screen.queryByTestId('run-log-drawer')).not.toBeInTheDocument()
+
+            fireEvent.click(screen.getByRole('button', {name: /show run log/i}))
+
+            expect(screen.getByTestId('run-log-drawer')).toHaveTextContent('run-123')
+        })
+    })
+
     describe('Auto-hide After Completion', () => {
         it(
             'should auto-hide after 5 seconds when all tests completed',
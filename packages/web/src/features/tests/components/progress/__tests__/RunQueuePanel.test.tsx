@@ -0,0 +1,56 @@
+import {describe, it, expect, vi} from 'vitest'
+import {render, screen, fireEvent, waitFor} from '@testing-library/react'
+import type {RunQueueItem} from '@yshvydak/core'
+import {RunQueuePanel} from '../RunQueuePanel'
+
+const items: RunQueueItem[] = [
+    {
+        id: 'q1',
+        kind: 'pipeline',
+        priority: 'high',
+        position: 1,
+        createdAt: '2026-01-01T00:00:00.000Z',
+    },
+    {
+        id: 'q2',
+        kind: 'run-all',
+        project: 'chromium',
+        priority: 'normal',
+        position: 2,
+        createdAt: '2026-01-01T00:00:01.000Z',
+    },
+]
+
+describe('RunQueuePanel', () => {
+    it('renders nothing when the queue is empty', () => {
+        const {container} = render(<RunQueuePanel items={[]} onCancel={vi.fn()} />)
+
+        expect(container).toBeEmptyDOMElement()
+    })
+
+    it('lists queued runs in order with their position', () => {
+        render(<RunQueuePanel items={items} onCancel={vi.fn()} />)
+
+        expect(screen.getByText('Queued Runs')).toBeInTheDocument()
+        expect(screen.getByText('#1')).toBeInTheDocument()
+        expect(screen.getByText('CI pipeline')).toBeInTheDocument()
+        expect(screen.getByText('#2')).toBeInTheDocument()
+        expect(screen.getByText('Run all · chromium')).toBeInTheDocument()
+    })
+
+    it('only badges non-normal priorities', () => {
+        render(<RunQueuePanel items={items} onCancel={vi.fn()} />)
+
+        expect(screen.getByText('high')).toBeInTheDocument()
+        expect(screen.queryByText('normal')).not.toBeInTheDocument()
+    })
+
+    it('cancels a queued run', async () => {
+        const onCancel = vi.fn().mockResolvedValue(undefined)
+        render(<RunQueuePanel items={items} onCancel={onCancel} />)
+
+        fireEvent.click(screen.getByLabelText('Cancel Run all · chromium'))
+
+        await waitFor(() => expect(onCancel).toHaveBeenCalledWith('q2'))
+    })
+})
@@ -0,0 +1,56 @@
+import {TestResult} from '@yshvydak/core'
+import {StatusIcon, TestStatus} from '@shared/components/atoms'
+import {formatDuration} from '../../utils/formatters'
+
+export interface AttemptTabsProps {
+    attempts: TestResult[]
+    selectedAttemptId: string
+    onSelectAttempt: (attemptId: string) => void
+}
+
+/**
+ * Switches between the Playwright retry attempts of one execution.
+ * Only rendered for executions that were retried.
+ */
+export function AttemptTabs({attempts, selectedAttemptId, onSelectAttempt}: AttemptTabsProps) {
+    return (
+        <div
+            role="tablist"
+            aria-label="Retry attempts"
+            className="flex items-center gap-1.5 overflow-x-auto px-3 md:px-4 py-2 border-b border-gray-200/70 dark:border-white/[0.06]">
+            <span className="mr-1 text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                Attempts
+            </span>
+            {attempts.map((attempt, index) => {
+                const isSelected = attempt.id === selectedAttemptId
+                const isFailure = attempt.status !== 'passed' && attempt.status !== 'skipped'
+
+                return (
+                    <button
+                        key={attempt.id}
+                        role="tab"
+                        aria-selected={isSelected}
+                        onClick={() => onSelectAttempt(attempt.id)}
+                        className={`inline-flex flex-shrink-0 items-center gap-1.5 rounded-lg px-2.5 py-1 text-xs font-medium transition-all duration-200 ${
+                            isSelected
+                                ? 'bg-primary-50 text-primary-700 shadow-soft dark:bg-primary-500/15 dark:text-primary-300'
+                                : 'text-gray-500 hover:text-gray-900 hover:bg-gray-100/80 dark:text-gray-400 dark:hover:text-white dark:hover:bg-white/[0.06]'
+                        }`}>
+                        <StatusIcon
+                            status={attempt.status as TestStatus}
+                            className={`h-3.5 w-3.5 ${
+                                isFailure
+                                    ? 'text-danger-500 dark:text-danger-400'
+                                    : 'text-success-500 dark:text-success-400'
+                            }`}
+                        />
+                        {index === 0 ? 'Run' : `Retry #${index}`}
+                        <span className="font-mono tabular-nums text-gray-400 dark:text-gray-500">
+                            {formatDuration(attempt.duration)}
+                        </span>
+                    </button>
+                )
+            })}
+        </div>
+    )
+}
@@ -1,6 +1,8 @@
 import {useState} from 'react'
 import {Check, X, Play} from 'lucide-react'
+import {ReportFormat} from '@yshvydak/core'
 import {StatusBadge, Button} from '@shared/components'
+import {ExportMenu} from '../ExportMenu'
 import {formatLastRun} from '../../utils/formatters'
 
 export interface TestDetailHeaderProps {
@@ -12,6 +14,8 @@ export interface TestDetailHeaderProps {
     onBackToLatest: () => void
     onDelete?: () => void
     onRerun?: () => void
+    // Downloads the report of the run the viewed execution belongs to
+    onExportRun?: (format: ReportFormat) => Promise<void>
     isRunning?: boolean
     isAnyTestRunning?: boolean
 }
@@ -25,6 +29,7 @@ export function TestDetailHeader({
     onBackToLatest,
     onDelete,
     onRerun,
+    onExportRun,
     isRunning,
     isAnyTestRunning,
 }: TestDetailHeaderProps) {
@@ -99,6 +104,13 @@ export function TestDetailHeader({
                         )}
                     </Button>
                 )}
+                {onExportRun && (
+                    <ExportMenu
+                        onExport={onExportRun}
+                        label="Export run"
+                        className="hidden md:inline-flex"
+                    />
+                )}
                 {/* Desktop: Show Delete button */}
                 {onDelete && (
                     <Button
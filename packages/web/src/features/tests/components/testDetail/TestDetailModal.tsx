@@ -9,12 +9,15 @@ import {useTestsStore} from '../../store/testsStore'
 import {useWebSocket} from '../../../../hooks/useWebSocket'
 import {getWebSocketUrl} from '@features/authentication/utils'
 import {noteService} from '../../../../services/note.service'
+import {quarantineService} from '../../../../services/quarantine.service'
 import {ModalBackdrop, ConfirmationDialog} from '@shared/components/molecules'
 import {TestDetailHeader} from './TestDetailHeader'
 import {TestDetailTabs} from './TestDetailTabs'
 import {TestOverviewTab} from './TestOverviewTab'
 import {TestStepsTab} from './TestStepsTab'
+import {AttemptTabs} from './AttemptTabs'
 import {ExecutionSidebar} from '../history/ExecutionSidebar'
+import {downloadRunReport} from '../../utils/reportDownload'
 
 export interface TestDetailModalProps {
     test: TestResult | null
@@ -30,6 +33,7 @@ export function TestDetailModal({test, isOpen, onClose}: TestDetailModalProps) {
     const [isDeleting, setIsDeleting] = useState(false)
     const [isDeletingExecution, setIsDeletingExecution] = useState(false)
     const [swipeOffset, setSwipeOffset] = useState(0)
+    const [selectedAttemptId, setSelectedAttemptId] = useState<string | null>(null)
 
     const swipeStartY = useRef<number | null>(null)
     const headerRef = useRef<HTMLDivElement>(null)
@@ -127,8 +131,17 @@ export function TestDetailModal({test, isOpen, onClose}: TestDetailModalProps) {
           ? executions[0]
           : test
 
+    // Retried executions show their last attempt unless another one is picked
+    const attempts = currentExecution?.attempts
+    const currentAttempt =
+        (selectedAttemptId && attempts?.find((a) => a.id === selectedAttemptId)) || currentExecution
+
+    useEffect(() => {
+        setSelectedAttemptId(null)
+    }, [currentExecution?.id])
+
     const {attachments, loading, error, setError} = useTestAttachments(
-        currentExecution?.id || null,
+        currentAttempt?.id || null,
         isOpen
     )
 
@@ -269,6 +282,30 @@ export function TestDetailModal({test, isOpen, onClose}: TestDetailModalProps) {
         refetchHistory()
     }
 
+    const handleQuarantine = async (reason: string, expiresAt: string | null) => {
+        if (!test?.testId) return
+
+        await quarantineService.quarantineTest(test.testId, reason, expiresAt)
+
+        // Quarantine moves the test's failure between the "Failed" and "Quarantined"
+        // counts, on the filter bar and on the project tab badge
+        queryClient.invalidateQueries({queryKey: ['tests']})
+        queryClient.invalidateQueries({queryKey: ['test-status-counts']})
+        queryClient.invalidateQueries({queryKey: ['project-status-summary']})
+        refetchHistory()
+    }
+
+    const handleReleaseQuarantine = async () => {
+        if (!test?.testId) return
+
+        await quarantineService.releaseTest(test.testId)
+
+        queryClient.invalidateQueries({queryKey: ['tests']})
+        queryClient.invalidateQueries({queryKey: ['test-status-counts']})
+        queryClient.invalidateQueries({queryKey: ['project-status-summary']})
+        refetchHistory()
+    }
+
     if (!isOpen || !test) return null
 
     const swipeOpacity = swipeOffset > 0 ? Math.max(0.3, 1 - swipeOffset / 200) : 1
@@ -317,6 +354,9 @@ export function TestDetailModal({test, isOpen, onClose}: TestDetailModalProps) {
                             onBackToLatest={() => selectExecution(null)}
                             onDelete={handleDeleteClick}
                             onRerun={() => handleRerun(currentExecution?.id || test.id)}
+                            onExportRun={(format) =>
+                                downloadRunReport(currentExecution?.runId || test.runId, format)
+                            }
                             isRunning={
                                 runningTests.has(currentExecution?.id || test.id) ||
                                 !!activeProgress?.runningTests.find((t) => t.testId === test.testId)
@@ -330,23 +370,33 @@ export function TestDetailModal({test, isOpen, onClose}: TestDetailModalProps) {
                         <TestDetailTabs activeTab={activeTab} onTabChange={setActiveTab} />
                     </div>
 
+                    {attempts && attempts.length > 1 && (
+                        <AttemptTabs
+                            attempts={attempts}
+                            selectedAttemptId={currentAttempt!.id}
+                            onSelectAttempt={setSelectedAttemptId}
+                        />
+                    )}
+
                     {/* Main Content with Sidebar Layout */}
                     <div className="flex flex-1 overflow-hidden relative">
                         {/* Tab Content Area */}
                         <div className="flex-1 p-3 md:p-6 overflow-y-auto overscroll-contain">
                             {activeTab === 'overview' && (
                                 <TestOverviewTab
-                                    test={currentExecution!}
+                                    test={currentAttempt!}
                                     attachments={attachments}
                                     attachmentsLoading={loading}
                                     attachmentsError={error}
                                     onAttachmentsError={setError}
                                     onSaveNote={handleSaveNote}
                                     onDeleteNote={handleDeleteNote}
+                                    onQuarantine={handleQuarantine}
+                                    onReleaseQuarantine={handleReleaseQuarantine}
                                 />
                             )}
 
-                            {activeTab === 'steps' && <TestStepsTab test={currentExecution!} />}
+                            {activeTab === 'steps' && <TestStepsTab test={currentAttempt!} />}
                         </div>
 
                         {/* Desktop History Sidebar */}
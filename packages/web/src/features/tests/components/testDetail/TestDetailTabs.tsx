@@ -1,4 +1,4 @@
-import {ClipboardList} from 'lucide-react'
+import {ClipboardList, ListTree} from 'lucide-react'
 import {TabKey} from '../../types/attachment.types'
 
 export interface TestDetailTabsProps {
@@ -13,6 +13,11 @@ export function TestDetailTabs({activeTab, onTabChange}: TestDetailTabsProps) {
             label: 'Overview',
             icon: <ClipboardList className="h-4 w-4" />,
         },
+        {
+            key: 'steps' as TabKey,
+            label: 'Steps',
+            icon: <ListTree className="h-4 w-4" />,
+        },
     ]
 
     return (
@@ -5,7 +5,11 @@ import {AttachmentWithBlobURL} from '../../types/attachment.types'
 import {AttachmentItem} from './AttachmentItem'
 import {formatErrorLines} from '../../../../utils/errorFormatter'
 import {TestNoteEditor} from './TestNoteEditor'
+import {TestQuarantinePanel} from './TestQuarantinePanel'
 import {TestConsoleOutput} from './TestConsoleTab'
+import {AnnotationBadges} from '../AnnotationBadges'
+import {useTestDurationStats} from '../../hooks/useTestDurationStats'
+import {formatDuration} from '../../utils/formatters'
 
 export interface TestOverviewTabProps {
     test: TestResult
@@ -15,6 +19,8 @@ export interface TestOverviewTabProps {
     onAttachmentsError: (error: string) => void
     onSaveNote: (note: string) => Promise<void>
     onDeleteNote: () => Promise<void>
+    onQuarantine: (reason: string, expiresAt: string | null) => Promise<void>
+    onReleaseQuarantine: () => Promise<void>
 }
 
 export function TestOverviewTab({
@@ -25,6 +31,8 @@ export function TestOverviewTab({
     onAttachmentsError,
     onSaveNote,
     onDeleteNote,
+    onQuarantine,
+    onReleaseQuarantine,
 }: TestOverviewTabProps) {
     const hasConsoleOutput = (test.metadata?.console?.entries?.length ?? 0) > 0
     // Attachments were purged to free disk space (the execution itself is kept).
@@ -32,9 +40,55 @@ export function TestOverviewTab({
     const strippedDate = test.attachmentsClearedAt
         ? new Date(test.attachmentsClearedAt).toLocaleDateString()
         : ''
+    const annotations = test.metadata?.annotations ?? []
+    const tags = test.metadata?.tags ?? []
+    // Only worth showing when the test sits inside describe blocks
+    const describePath = test.metadata?.titlePath?.slice(0, -1) ?? []
+    const {data: durationStats} = useTestDurationStats(test.testId)
 
     return (
         <div className="space-y-6 animate-fade-in">
+            <TestQuarantinePanel
+                quarantine={test.quarantine}
+                onQuarantine={onQuarantine}
+                onRelease={onReleaseQuarantine}
+            />
+
+            {(describePath.length > 0 || annotations.length > 0 || tags.length > 0) && (
+                <div className="space-y-2">
+                    {describePath.length > 0 && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {[...describePath, test.name].join(' › ')}
+                        </p>
+                    )}
+                    <AnnotationBadges annotations={annotations} tags={tags} />
+                </div>
+            )}
+
+            {durationStats && durationStats.samples > 0 && (
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs tabular-nums text-gray-500 dark:text-gray-400">
+                    <span className="text-[11px] font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                        Duration · {durationStats.days} days
+                    </span>
+                    <span>
+                        p50{' '}
+                        <span className="font-medium text-gray-900 dark:text-white">
+                            {formatDuration(durationStats.p50)}
+                        </span>
+                    </span>
+                    <span>
+                        p95{' '}
+                        <span className="font-medium text-gray-900 dark:text-white">
+                            {formatDuration(durationStats.p95)}
+                        </span>
+                    </span>
+                    <span>
+                        {durationStats.samples} passed{' '}
+                        {durationStats.samples === 1 ? 'run' : 'runs'}
+                    </span>
+                </div>
+            )}
+
             {/* Attachments Section */}
             <div>
                 <div className="flex items-start justify-between mb-4 gap-4">
@@ -0,0 +1,155 @@
+import {useState} from 'react'
+import {ShieldAlert} from 'lucide-react'
+import {TestQuarantine} from '@yshvydak/core'
+import {Button} from '@shared/components'
+
+interface TestQuarantinePanelProps {
+    quarantine?: TestQuarantine
+    onQuarantine: (reason: string, expiresAt: string | null) => Promise<void>
+    onRelease: () => Promise<void>
+}
+
+const MAX_REASON_LENGTH = 500
+
+// Expiry presets in days; 0 = until released
+const EXPIRY_OPTIONS = [
+    {label: '7 days', days: 7},
+    {label: '14 days', days: 14},
+    {label: '30 days', days: 30},
+    {label: 'Until released', days: 0},
+]
+
+function expiryFromDays(days: number): string | null {
+    if (!days) return null
+    const date = new Date()
+    date.setDate(date.getDate() + days)
+    return date.toISOString()
+}
+
+/**
+ * Quarantine state of a test: its failures are still recorded but listed
+ * separately and don't fail the CI pipeline.
+ */
+export function TestQuarantinePanel({
+    quarantine,
+    onQuarantine,
+    onRelease,
+}: TestQuarantinePanelProps) {
+    const [isEditing, setIsEditing] = useState(false)
+    const [reason, setReason] = useState('')
+    const [expiryDays, setExpiryDays] = useState(EXPIRY_OPTIONS[0].days)
+    const [isSaving, setIsSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const run = async (action: () => Promise<void>) => {
+        setIsSaving(true)
+        setError(null)
+        try {
+            await action()
+            setIsEditing(false)
+            setReason('')
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update quarantine')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    if (quarantine) {
+        return (
+            <div className="flex items-start justify-between gap-3 rounded-2xl border border-warning-200/70 bg-warning-50 px-4 py-3 dark:border-warning-500/20 dark:bg-warning-500/10">
+                <div className="flex items-start gap-2 min-w-0">
+                    <ShieldAlert className="mt-0.5 h-4 w-4 flex-shrink-0 text-warning-600 dark:text-warning-400" />
+                    <div className="min-w-0">
+                        <p className="text-sm font-medium text-warning-800 dark:text-warning-300">
+                            Quarantined{' '}
+                            {quarantine.expiresAt
+                                ? `until ${new Date(quarantine.expiresAt).toLocaleDateString()}`
+                                : 'until released'}
+                        </p>
+                        <p className="text-sm text-warning-700 dark:text-warning-400 break-words">
+                            {quarantine.reason}
+                        </p>
+                        {error && (
+                            <p className="mt-1 text-xs text-danger-600 dark:text-danger-400">
+                                {error}
+                            </p>
+                        )}
+                    </div>
+                </div>
+                <Button
+                    variant="secondary"
+                    size="sm"
+                    loading={isSaving}
+                    onClick={() => run(onRelease)}>
+                    Release
+                </Button>
+            </div>
+        )
+    }
+
+    if (!isEditing) {
+        return (
+            <button
+                type="button"
+                onClick={() => setIsEditing(true)}
+                className="inline-flex items-center gap-1.5 text-xs font-medium text-gray-500 transition-colors hover:text-warning-600 dark:text-gray-400 dark:hover:text-warning-400">
+                <ShieldAlert className="h-3.5 w-3.5" />
+                Quarantine this test
+            </button>
+        )
+    }
+
+    return (
+        <div className="space-y-3 rounded-2xl border border-gray-200/70 bg-gray-50 p-4 dark:border-white/[0.06] dark:bg-white/[0.03]">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+                Failures of a quarantined test are listed separately and don't fail the CI pipeline.
+            </p>
+            <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason, e.g. 'Flaky on CI, tracked in #123'"
+                maxLength={MAX_REASON_LENGTH}
+                disabled={isSaving}
+                className="input"
+                aria-label="Quarantine reason"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={expiryDays}
+                    onChange={(e) => setExpiryDays(Number(e.target.value))}
+                    disabled={isSaving}
+                    aria-label="Quarantine expiry"
+                    className="rounded-xl border border-gray-200 bg-white px-3 py-1.5 text-xs text-gray-900 dark:border-white/10 dark:bg-white/[0.05] dark:text-gray-100">
+                    {EXPIRY_OPTIONS.map(({label, days}) => (
+                        <option key={days} value={days}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+                <Button
+                    variant="primary"
+                    size="sm"
+                    loading={isSaving}
+                    disabled={!reason.trim()}
+                    onClick={() =>
+                        run(() => onQuarantine(reason.trim(), expiryFromDays(expiryDays)))
+                    }>
+                    Quarantine
+                </Button>
+                <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={isSaving}
+                    onClick={() => {
+                        setIsEditing(false)
+                        setError(null)
+                    }}>
+                    Cancel
+                </Button>
+            </div>
+            {error && <p className="text-xs text-danger-600 dark:text-danger-400">{error}</p>}
+        </div>
+    )
+}
@@ -1,55 +1,224 @@
+import {useEffect, useMemo, useState} from 'react'
+import {ChevronRight, ListTree, Timer} from 'lucide-react'
 import {TestResult} from '@yshvydak/core'
 import {formatDuration} from '../../utils/formatters'
+import {
+    StepNode,
+    buildStepTree,
+    getFailingPathKeys,
+    getSlowestStepKeys,
+    getStepsTimespan,
+} from '../../utils/stepTree'
 
 export interface TestStepsTabProps {
     test: TestResult
 }
 
 export function TestStepsTab({test}: TestStepsTabProps) {
-    if (!test.steps || test.steps.length === 0) {
+    // Steps are recorded by the reporter in metadata; `steps` is kept for older payloads
+    const tree = useMemo(
+        () => buildStepTree(test.metadata?.steps ?? test.steps ?? []),
+        [test.metadata?.steps, test.steps]
+    )
+    const timespan = useMemo(() => Math.max(getStepsTimespan(tree), 1), [tree])
+    const failingKeys = useMemo(() => getFailingPathKeys(tree), [tree])
+    const slowestKeys = useMemo(() => getSlowestStepKeys(tree), [tree])
+
+    // The failing path starts expanded so the failed step is visible right away
+    const [expandedKeys, setExpandedKeys] = useState<Set<string>>(() => new Set(failingKeys))
+
+    useEffect(() => {
+        setExpandedKeys(new Set(failingKeys))
+    }, [failingKeys])
+
+    if (tree.length === 0) {
         return (
             <div className="flex flex-col items-center justify-center text-center py-12 bg-gray-50 dark:bg-white/[0.03] rounded-2xl border border-gray-200/70 dark:border-white/[0.06] animate-fade-in">
-                <div className="flex h-12 w-12 items-center justify-center rounded-2xl bg-gray-100 text-xl dark:bg-white/[0.04]">
-                    🔄
+                <div className="flex h-12 w-12 items-center justify-center rounded-2xl bg-gray-100 dark:bg-white/[0.04]">
+                    <ListTree className="h-5 w-5 text-gray-400" />
                 </div>
                 <p className="mt-3 text-sm font-medium text-gray-600 dark:text-gray-300">
-                    The feature in development...
-                </p>
-                <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
                     No test steps recorded
                 </p>
             </div>
         )
     }
 
+    const toggle = (key: string) => {
+        setExpandedKeys((current) => {
+            const next = new Set(current)
+            if (next.has(key)) {
+                next.delete(key)
+            } else {
+                next.add(key)
+            }
+            return next
+        })
+    }
+
+    const expandAll = () => {
+        const keys = new Set<string>()
+        const collect = (node: StepNode) => {
+            if (node.children.length > 0) keys.add(node.key)
+            node.children.forEach(collect)
+        }
+        tree.forEach(collect)
+        setExpandedKeys(keys)
+    }
+
+    return (
+        <div className="space-y-3 animate-fade-in">
+            <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="font-mono tabular-nums">{formatDuration(timespan)}</span>
+                    {slowestKeys.size > 0 && (
+                        <span className="flex items-center gap-1">
+                            <Timer className="h-3 w-3 text-warning-500" /> slowest steps
+                        </span>
+                    )}
+                </div>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={expandAll}
+                        className="rounded-lg px-2 py-1 text-xs font-medium text-gray-500 hover:bg-gray-100/80 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-white/[0.06] dark:hover:text-white">
+                        Expand all
+                    </button>
+                    <button
+                        onClick={() => setExpandedKeys(new Set())}
+                        className="rounded-lg px-2 py-1 text-xs font-medium text-gray-500 hover:bg-gray-100/80 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-white/[0.06] dark:hover:text-white">
+                        Collapse all
+                    </button>
+                </div>
+            </div>
+
+            <div
+                role="tree"
+                className="rounded-2xl border border-gray-200/80 bg-white py-1.5 shadow-card dark:border-white/[0.07] dark:bg-gray-800/70 dark:backdrop-blur-xl">
+                {tree.map((node) => (
+                    <StepRow
+                        key={node.key}
+                        node={node}
+                        timespan={timespan}
+                        expandedKeys={expandedKeys}
+                        failingKeys={failingKeys}
+                        slowestKeys={slowestKeys}
+                        onToggle={toggle}
+                    />
+                ))}
+            </div>
+        </div>
+    )
+}
+
+interface StepRowProps {
+    node: StepNode
+    timespan: number
+    expandedKeys: Set<string>
+    failingKeys: Set<string>
+    slowestKeys: Set<string>
+    onToggle: (key: string) => void
+}
+
+function StepRow({node, timespan, expandedKeys, failingKeys, slowestKeys, onToggle}: StepRowProps) {
+    const {step, children} = node
+    const hasChildren = children.length > 0
+    const isExpanded = expandedKeys.has(node.key)
+    const isFailing = failingKeys.has(node.key)
+    const isSlow = slowestKeys.has(node.key)
+    // Show the error once, on the deepest failed step
+    const showError = !!step.error && !children.some((child) => failingKeys.has(child.key))
+
+    const left = (node.start / timespan) * 100
+    const width = Math.max((step.duration / timespan) * 100, 0.5)
+
     return (
-        <div className="space-y-4 animate-fade-in">
-            <div className="space-y-3 stagger">
-                {test.steps.map((step, index) => (
+        <div role="treeitem" aria-expanded={hasChildren ? isExpanded : undefined}>
+            <div
+                className={`flex items-center gap-3 py-1.5 pr-4 ${
+                    hasChildren ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-white/[0.03]' : ''
+                }`}
+                style={{paddingLeft: `${12 + node.depth * 16}px`}}
+                onClick={hasChildren ? () => onToggle(node.key) : undefined}>
+                <span className="flex h-4 w-4 flex-shrink-0 items-center justify-center">
+                    {hasChildren && (
+                        <ChevronRight
+                            className={`h-3.5 w-3.5 text-gray-400 transition-transform duration-150 ${
+                                isExpanded ? 'rotate-90' : ''
+                            }`}
+                        />
+                    )}
+                </span>
+
+                <div className="min-w-0 flex-1">
                     <div
-                        key={index}
-                        className="rounded-2xl border border-gray-200/80 bg-white p-4 shadow-card dark:border-white/[0.07] dark:bg-gray-800/70 dark:backdrop-blur-xl">
-                        <div className="flex items-center justify-between gap-3">
-                            <h4 className="font-semibold tracking-tight text-gray-900 dark:text-white">
-                                Step {index + 1}: {step.title}
-                            </h4>
-                            <span className="font-mono text-xs tabular-nums text-gray-400 dark:text-gray-500">
-                                {formatDuration(step.duration)}
+                        className={`truncate text-sm ${
+                            isFailing
+                                ? 'font-medium text-danger-700 dark:text-danger-300'
+                                : 'text-gray-900 dark:text-white'
+                        }`}
+                        title={step.title}>
+                        {step.title}
+                    </div>
+                    <div className="flex items-center gap-2 text-[11px] text-gray-400 dark:text-gray-500">
+                        <span>{step.category}</span>
+                        {step.location && (
+                            <span className="truncate font-mono">
+                                {step.location.file}:{step.location.line}
                             </span>
-                        </div>
-                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                            Category: {step.category}
-                        </p>
-                        {step.error && (
-                            <div className="mt-3 p-3 bg-danger-50 dark:bg-danger-500/[0.07] border border-danger-200/70 ring-1 ring-inset ring-danger-600/10 dark:border-danger-500/20 dark:ring-danger-400/15 rounded-xl">
-                                <pre className="text-xs font-mono text-danger-700 dark:text-danger-200 whitespace-pre-wrap">
-                                    {step.error}
-                                </pre>
-                            </div>
                         )}
                     </div>
-                ))}
+                </div>
+
+                {isSlow && (
+                    <span title="One of the slowest steps">
+                        <Timer className="h-3.5 w-3.5 flex-shrink-0 text-warning-500" />
+                    </span>
+                )}
+                <span className="w-16 flex-shrink-0 text-right font-mono text-xs tabular-nums text-gray-400 dark:text-gray-500">
+                    {formatDuration(step.duration)}
+                </span>
+
+                {/* Waterfall: where the step sits within the whole attempt */}
+                <div className="relative hidden h-2 w-40 flex-shrink-0 rounded-full bg-gray-100 dark:bg-white/[0.05] md:block lg:w-56">
+                    <div
+                        data-testid="step-bar"
+                        className={`absolute top-0 h-2 rounded-full ${
+                            isFailing
+                                ? 'bg-danger-500/80 dark:bg-danger-400/70'
+                                : isSlow
+                                  ? 'bg-warning-500/80 dark:bg-warning-400/70'
+                                  : 'bg-primary-500/60 dark:bg-primary-400/50'
+                        }`}
+                        style={{left: `${left}%`, width: `${Math.min(width, 100 - left)}%`}}
+                    />
+                </div>
             </div>
+
+            {showError && (
+                <div
+                    className="mb-1.5 mr-4 rounded-xl border border-danger-200/70 bg-danger-50 p-3 ring-1 ring-inset ring-danger-600/10 dark:border-danger-500/20 dark:bg-danger-500/[0.07] dark:ring-danger-400/15"
+                    style={{marginLeft: `${32 + node.depth * 16}px`}}>
+                    <pre className="whitespace-pre-wrap font-mono text-xs text-danger-700 dark:text-danger-200">
+                        {step.error}
+                    </pre>
+                </div>
+            )}
+
+            {hasChildren && isExpanded && (
+                <div role="group">
+                    {children.map((child) => (
+                        <StepRow
+                            key={child.key}
+                            node={child}
+                            timespan={timespan}
+                            expandedKeys={expandedKeys}
+                            failingKeys={failingKeys}
+                            slowestKeys={slowestKeys}
+                            onToggle={onToggle}
+                        />
+                    ))}
+                </div>
+            )}
         </div>
     )
 }
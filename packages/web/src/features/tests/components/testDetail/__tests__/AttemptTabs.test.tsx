@@ -0,0 +1,51 @@
+import {describe, expect, it, vi} from 'vitest'
+import {fireEvent, render, screen} from '@testing-library/react'
+import {TestResult} from '@yshvydak/core'
+import {AttemptTabs} from '../AttemptTabs'
+
+const createAttempt = (id: string, status: TestResult['status'], retryCount: number) =>
+    ({
+        id,
+        testId: 't1',
+        name: 'Test',
+        filePath: 'a.spec.ts',
+        status,
+        duration: 1200,
+        runId: 'run1',
+        retryCount,
+        executionId: 'a0',
+    }) satisfies TestResult
+
+describe('AttemptTabs', () => {
+    const attempts = [
+        createAttempt('a0', 'failed', 0),
+        createAttempt('a1', 'failed', 1),
+        createAttempt('a2', 'passed', 2),
+    ]
+
+    it('renders one tab per attempt and marks the selected one', () => {
+        render(<AttemptTabs attempts={attempts} selectedAttemptId="a2" onSelectAttempt={vi.fn()} />)
+
+        const tabs = screen.getAllByRole('tab')
+        expect(tabs).toHaveLength(3)
+        expect(tabs[0]).toHaveTextContent('Run')
+        expect(tabs[2]).toHaveTextContent('Retry #2')
+        expect(tabs[2]).toHaveAttribute('aria-selected', 'true')
+        expect(tabs[0]).toHaveAttribute('aria-selected', 'false')
+    })
+
+    it('selects an attempt on click', () => {
+        const onSelectAttempt = vi.fn()
+        render(
+            <AttemptTabs
+                attempts={attempts}
+                selectedAttemptId="a2"
+                onSelectAttempt={onSelectAttempt}
+            />
+        )
+
+        fireEvent.click(screen.getByRole('tab', {name: /Retry #1/}))
+
+        expect(onSelectAttempt).toHaveBeenCalledWith('a1')
+    })
+})
@@ -0,0 +1,66 @@
+import {describe, expect, it} from 'vitest'
+import {fireEvent, render, screen} from '@testing-library/react'
+import {TestResult} from '@yshvydak/core'
+import {TestStepsTab} from '../TestStepsTab'
+
+const createTest = (steps: NonNullable<TestResult['steps']>): TestResult => ({
+    id: '1',
+    testId: 't1',
+    name: 'Test',
+    filePath: 'a.spec.ts',
+    status: 'failed',
+    duration: 1000,
+    runId: 'run1',
+    metadata: {steps},
+})
+
+describe('TestStepsTab', () => {
+    it('renders empty state when no steps were recorded', () => {
+        render(<TestStepsTab test={createTest([])} />)
+        expect(screen.getByText('No test steps recorded')).toBeInTheDocument()
+    })
+
+    it('expands the failing path and shows the error on the failed step', () => {
+        render(
+            <TestStepsTab
+                test={createTest([
+                    {
+                        title: 'Passing group',
+                        category: 'test.step',
+                        duration: 100,
+                        startOffset: 0,
+                        steps: [{title: 'hidden child', category: 'pw:api', duration: 50}],
+                    },
+                    {
+                        title: 'Checkout',
+                        category: 'test.step',
+                        duration: 800,
+                        startOffset: 100,
+                        error: 'Timeout 5000ms exceeded',
+                        steps: [
+                            {
+                                title: 'click Pay',
+                                category: 'pw:api',
+                                duration: 800,
+                                startOffset: 100,
+                                error: 'Timeout 5000ms exceeded',
+                                location: {file: 'tests/cart.spec.ts', line: 12, column: 5},
+                            },
+                        ],
+                    },
+                ])}
+            />
+        )
+
+        expect(screen.getByText('click Pay')).toBeInTheDocument()
+        expect(screen.getByText('tests/cart.spec.ts:12')).toBeInTheDocument()
+        expect(screen.getAllByText('Timeout 5000ms exceeded')).toHaveLength(1)
+        expect(screen.queryByText('hidden child')).not.toBeInTheDocument()
+
+        fireEvent.click(screen.getByText('Passing group'))
+        expect(screen.getByText('hidden child')).toBeInTheDocument()
+
+        fireEvent.click(screen.getByText('Collapse all'))
+        expect(screen.queryByText('click Pay')).not.toBeInTheDocument()
+    })
+})
@@ -1,2 +1,4 @@
 export {TestDetailModal} from './TestDetailModal'
 export type {TestDetailModalProps} from './TestDetailModal'
+export {AttemptTabs} from './AttemptTabs'
+export type {AttemptTabsProps} from './AttemptTabs'
@@ -5,6 +5,7 @@ export const TEST_STATUS_COLORS: Record<TestStatus, string> = {
     failed: 'text-danger-600 dark:text-danger-400 bg-danger-50 dark:bg-danger-900/20',
     skipped: 'text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800',
     pending: 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20',
+    flaky: 'text-warning-600 dark:text-warning-400 bg-warning-50 dark:bg-warning-900/20',
 } as const
 
 export const TEST_STATUS_ICONS: Record<TestStatus, string> = {
@@ -12,6 +13,7 @@ export const TEST_STATUS_ICONS: Record<TestStatus, string> = {
     failed: '❌',
     skipped: '⏭️',
     pending: '⏸️',
+    flaky: '⚠️',
 } as const
 
 export const FILTER_OPTIONS = [
@@ -21,6 +23,7 @@ export const FILTER_OPTIONS = [
     {key: 'skipped', label: 'Skipped', color: 'warning'},
     {key: 'pending', label: 'Pending', color: 'info'},
     {key: 'noted', label: 'Noted', color: 'primary'},
+    {key: 'quarantined', label: 'Quarantined', color: 'warning'},
 ] as const
 
 export type FilterKey = (typeof FILTER_OPTIONS)[number]['key']
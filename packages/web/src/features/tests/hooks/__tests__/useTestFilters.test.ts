@@ -5,7 +5,7 @@ import {TestResult} from '@yshvydak/core'
 
 const createMockTest = (
     id: string,
-    status: 'passed' | 'failed' | 'skipped' | 'pending',
+    status: TestResult['status'],
     name: string,
     hasNote: boolean = false
 ): TestResult => ({
@@ -81,6 +81,42 @@ describe('useTestFilters', () => {
             expect(result.current.filteredTests).toHaveLength(1)
             expect(result.current.filteredTests[0].status).toBe('pending')
         })
+
+        it('should include flaky tests in the passed filter and count', () => {
+            const tests = [...mockTests, createMockTest('7', 'flaky', 'Test 7')]
+            const {result} = renderHook(() =>
+                useTestFilters({tests, filter: 'passed', searchQuery: ''})
+            )
+
+            expect(result.current.filteredTests.map((t) => t.id)).toEqual(['1', '3', '7'])
+            expect(result.current.counts.passed).toBe(3)
+        })
+
+        it('should list failures of quarantined tests under quarantined, not failed', () => {
+            const tests = mockTests.map((test) =>
+                test.id === '6'
+                    ? {
+                          ...test,
+                          quarantine: {
+                              testId: test.testId,
+                              reason: 'Known flake',
+                              createdAt: new Date().toISOString(),
+                          },
+                      }
+                    : test
+            )
+
+            const failed = renderHook(() =>
+                useTestFilters({tests, filter: 'failed', searchQuery: ''})
+            )
+            const quarantined = renderHook(() =>
+                useTestFilters({tests, filter: 'quarantined', searchQuery: ''})
+            )
+
+            expect(failed.result.current.filteredTests.map((t) => t.id)).toEqual(['2'])
+            expect(quarantined.result.current.filteredTests.map((t) => t.id)).toEqual(['6'])
+            expect(failed.result.current.counts).toMatchObject({failed: 1, quarantined: 1})
+        })
     })
 
     describe('Filter by noted', () => {
@@ -185,6 +221,7 @@ describe('useTestFilters', () => {
                 skipped: 1,
                 pending: 1,
                 noted: 3,
+                quarantined: 0,
             })
         })
 
@@ -232,6 +269,54 @@ describe('useTestFilters', () => {
         })
     })
 
+    describe('tagFilter', () => {
+        const withTags = (test: TestResult, tags: string[]): TestResult => ({
+            ...test,
+            metadata: {tags},
+        })
+        const taggedTests = [
+            withTags(createMockTest('1', 'passed', 'Checkout'), ['@smoke', '@cart']),
+            withTags(createMockTest('2', 'failed', 'Login'), ['@smoke']),
+            withTags(createMockTest('3', 'passed', 'Report'), ['@slow']),
+            createMockTest('4', 'passed', 'Untagged', true),
+        ]
+
+        it('should show only tests carrying the tag', () => {
+            const {result} = renderHook(() =>
+                useTestFilters({
+                    tests: taggedTests,
+                    filter: 'all',
+                    searchQuery: '',
+                    tagFilter: '@smoke',
+                })
+            )
+
+            expect(result.current.filteredTests.map((t) => t.id)).toEqual(['1', '2'])
+        })
+
+        it('should combine tag filter with status and noted filters', () => {
+            const {result: passed} = renderHook(() =>
+                useTestFilters({
+                    tests: taggedTests,
+                    filter: 'passed',
+                    searchQuery: '',
+                    tagFilter: '@smoke',
+                })
+            )
+            const {result: noted} = renderHook(() =>
+                useTestFilters({
+                    tests: taggedTests,
+                    filter: 'noted',
+                    searchQuery: '',
+                    tagFilter: '@smoke',
+                })
+            )
+
+            expect(passed.current.filteredTests.map((t) => t.id)).toEqual(['1'])
+            expect(noted.current.filteredTests).toHaveLength(0)
+        })
+    })
+
     describe('projectFilter', () => {
         const createMockTestWithProject = (
             id: string,
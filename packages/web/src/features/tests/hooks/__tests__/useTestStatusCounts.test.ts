@@ -50,7 +50,15 @@ describe('useTestStatusCounts', () => {
     })
 
     it('scopes the request with ?project= when a project is given', async () => {
-        const counts = {total: 10, passed: 8, failed: 2, skipped: 0, pending: 0, noted: 0}
+        const counts = {
+            total: 10,
+            passed: 8,
+            failed: 2,
+            skipped: 0,
+            pending: 0,
+            noted: 0,
+            quarantined: 0,
+        }
         mockAuthGet.mockResolvedValue(makeResponse({data: counts}))
 
         const {result} = renderHook(() => useTestStatusCounts('API_Tests'), {wrapper})
@@ -71,6 +79,7 @@ describe('useTestStatusCounts', () => {
             skipped: 0,
             pending: 0,
             noted: 0,
+            quarantined: 0,
         })
     })
 
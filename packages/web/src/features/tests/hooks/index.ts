@@ -3,3 +3,4 @@ export * from './useTestGroups'
 export * from './useTestSort'
 export * from './useTestAttachments'
 export * from './useTestStatusCounts'
+export * from './useTestDurationStats'
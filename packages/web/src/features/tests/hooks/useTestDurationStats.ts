@@ -0,0 +1,24 @@
+import {useQuery} from '@tanstack/react-query'
+import {TestDurationStats} from '@yshvydak/core'
+import {authFetch} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+
+async function fetchTestDurationStats(testId: string, days: number): Promise<TestDurationStats> {
+    const response = await authFetch(
+        `${config.api.baseUrl}/tests/${encodeURIComponent(testId)}/duration-stats?days=${days}`
+    )
+    if (!response.ok) {
+        throw new Error('Failed to fetch test duration stats')
+    }
+    const result = await response.json()
+    return result.data
+}
+
+export function useTestDurationStats(testId: string | undefined, days: number = 30) {
+    return useQuery({
+        queryKey: ['test-duration-stats', testId, days],
+        queryFn: () => fetchTestDurationStats(testId!, days),
+        enabled: !!testId,
+        staleTime: 60000,
+    })
+}
@@ -7,6 +7,8 @@ export interface UseTestFiltersProps {
     filter: FilterKey
     searchQuery: string
     projectFilter?: string
+    // Playwright tag (e.g. '@smoke') the test must carry
+    tagFilter?: string
 }
 
 export interface UseTestFiltersReturn {
@@ -18,6 +20,7 @@ export interface UseTestFiltersReturn {
         skipped: number
         pending: number
         noted: number
+        quarantined: number
     }
 }
 
@@ -26,6 +29,7 @@ export function useTestFilters({
     filter,
     searchQuery,
     projectFilter,
+    tagFilter,
 }: UseTestFiltersProps): UseTestFiltersReturn {
     const filteredTests = useMemo(() => {
         return tests.filter((test) => {
@@ -33,6 +37,9 @@ export function useTestFilters({
             if (projectFilter) {
                 if ((test.project || '') !== projectFilter) return false
             }
+            // Tag filter: the test's latest execution must carry the tag
+            if (tagFilter && !test.metadata?.tags?.includes(tagFilter)) return false
+
             // Handle 'noted' filter - show only tests with notes
             if (filter === 'noted') {
                 const hasNote = test.note && test.note.content && test.note.content.trim() !== ''
@@ -48,8 +55,16 @@ export function useTestFilters({
                 return hasNote && searchMatch
             }
 
-            // Handle other filters (all, passed, failed, skipped, pending)
-            const statusMatch = filter === 'all' || test.status === filter
+            // Handle other filters (all, passed, failed, skipped, pending, quarantined).
+            // Flaky executions passed in the end, so they count as passed; failures of
+            // quarantined tests are listed under quarantined instead of failed.
+            const isQuarantinedFailure = test.status === 'failed' && !!test.quarantine
+            const statusMatch =
+                filter === 'all' ||
+                (filter === 'quarantined'
+                    ? isQuarantinedFailure
+                    : test.status === filter && !isQuarantinedFailure) ||
+                (filter === 'passed' && test.status === 'flaky')
 
             const searchMatch =
                 !searchQuery ||
@@ -61,7 +76,7 @@ export function useTestFilters({
 
             return statusMatch && searchMatch
         })
-    }, [tests, filter, searchQuery, projectFilter])
+    }, [tests, filter, searchQuery, projectFilter, tagFilter])
 
     const projectTests = useMemo(
         () => (projectFilter ? tests.filter((t) => (t.project || '') === projectFilter) : tests),
@@ -71,13 +86,15 @@ export function useTestFilters({
     const counts = useMemo(
         () => ({
             all: projectTests.length,
-            passed: projectTests.filter((t) => t.status === 'passed').length,
-            failed: projectTests.filter((t) => t.status === 'failed').length,
+            passed: projectTests.filter((t) => t.status === 'passed' || t.status === 'flaky')
+                .length,
+            failed: projectTests.filter((t) => t.status === 'failed' && !t.quarantine).length,
             skipped: projectTests.filter((t) => t.status === 'skipped').length,
             pending: projectTests.filter((t) => t.status === 'pending').length,
             noted: projectTests.filter(
                 (t) => t.note && t.note.content && t.note.content.trim() !== ''
             ).length,
+            quarantined: projectTests.filter((t) => t.status === 'failed' && t.quarantine).length,
         }),
         [projectTests]
     )
@@ -9,6 +9,8 @@ export interface TestStatusCounts {
     skipped: number
     pending: number
     noted: number
+    // Latest execution failed while quarantined, not included in failed
+    quarantined: number
 }
 
 const EMPTY_COUNTS: TestStatusCounts = {
@@ -18,6 +20,7 @@ const EMPTY_COUNTS: TestStatusCounts = {
     skipped: 0,
     pending: 0,
     noted: 0,
+    quarantined: 0,
 }
 
 async function fetchTestStatusCounts(project?: string): Promise<TestStatusCounts> {
@@ -34,7 +37,7 @@ async function fetchTestStatusCounts(project?: string): Promise<TestStatusCounts
 }
 
 /**
- * Total/passed/failed/skipped/pending/noted counts, computed server-side over the
+ * Total/passed/failed/skipped/pending/noted/quarantined counts, computed server-side over the
  * latest row per test_id — unlimited, unlike the paginated test list. Powers the
  * filter-bar badges so they always reflect the true totals, not just the page the
  * list happens to have fetched (getAllTests() caps at 200 rows with no project,
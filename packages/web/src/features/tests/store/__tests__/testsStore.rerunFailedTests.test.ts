@@ -0,0 +1,64 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {useTestsStore} from '../testsStore'
+
+vi.mock('@features/authentication/utils/authFetch', () => ({
+    authGet: vi.fn(),
+    authPost: vi.fn(),
+    authDelete: vi.fn(),
+}))
+
+vi.mock('@/hooks/usePlaywrightWorkers', () => ({
+    getMaxWorkersFromStorage: () => 2,
+}))
+
+import {authPost} from '@features/authentication/utils/authFetch'
+
+const mockAuthPost = authPost as ReturnType<typeof vi.fn>
+
+function makeResponse(body: unknown, ok = true) {
+    return {
+        ok,
+        status: ok ? 200 : 400,
+        json: () => Promise.resolve(body),
+    } as unknown as Response
+}
+
+describe('testsStore.rerunFailedTests', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        useTestsStore.setState({isRerunningFailed: false, error: null})
+    })
+
+    it('reruns the failed tests of a project', async () => {
+        mockAuthPost.mockResolvedValue(makeResponse({success: true, data: {runId: 'run-2'}}))
+
+        await useTestsStore.getState().rerunFailedTests({project: 'chromium'})
+
+        expect(mockAuthPost).toHaveBeenCalledWith(expect.stringMatching(/\/tests\/rerun-failed$/), {
+            maxWorkers: 2,
+            project: 'chromium',
+        })
+        // Cleared by run:completed over WebSocket
+        expect(useTestsStore.getState().isRerunningFailed).toBe(true)
+    })
+
+    it('reruns the failed tests of a run', async () => {
+        mockAuthPost.mockResolvedValue(makeResponse({success: true, data: {runId: 'run-2'}}))
+
+        await useTestsStore.getState().rerunFailedTests({runId: 'run-1'})
+
+        expect(mockAuthPost).toHaveBeenCalledWith(
+            expect.stringMatching(/\/runs\/run-1\/rerun-failed$/),
+            {maxWorkers: 2}
+        )
+    })
+
+    it('clears the running state when the rerun could not start', async () => {
+        mockAuthPost.mockResolvedValue(makeResponse({success: false}, false))
+
+        await useTestsStore.getState().rerunFailedTests({project: 'chromium'})
+
+        expect(useTestsStore.getState().isRerunningFailed).toBe(false)
+        expect(useTestsStore.getState().error).toBeTruthy()
+    })
+})
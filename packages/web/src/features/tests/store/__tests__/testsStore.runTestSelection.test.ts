@@ -0,0 +1,58 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {useTestsStore} from '../testsStore'
+
+vi.mock('@features/authentication/utils/authFetch', () => ({
+    authGet: vi.fn(),
+    authPost: vi.fn(),
+    authDelete: vi.fn(),
+}))
+
+vi.mock('@/hooks/usePlaywrightWorkers', () => ({
+    getMaxWorkersFromStorage: () => 2,
+}))
+
+import {authPost} from '@features/authentication/utils/authFetch'
+
+const mockAuthPost = authPost as ReturnType<typeof vi.fn>
+
+function makeResponse(body: unknown, ok = true) {
+    return {
+        ok,
+        status: ok ? 200 : 400,
+        json: () => Promise.resolve(body),
+    } as unknown as Response
+}
+
+describe('testsStore.runTestSelection', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        useTestsStore.setState({isRunningSelection: false, error: null})
+    })
+
+    it('runs the selected tests', async () => {
+        mockAuthPost.mockResolvedValue(makeResponse({success: true, data: {runId: 'run-1'}}))
+
+        await useTestsStore.getState().runTestSelection({testIds: ['a', 'b']}, 'chromium')
+
+        expect(mockAuthPost).toHaveBeenCalledWith(
+            expect.stringMatching(/\/tests\/run-selection$/),
+            {
+                testIds: ['a', 'b'],
+                maxWorkers: 2,
+                project: 'chromium',
+            }
+        )
+        // Cleared by run:completed over WebSocket
+        expect(useTestsStore.getState().isRunningSelection).toBe(true)
+        expect(useTestsStore.getState().getIsAnyTestRunning()).toBe(true)
+    })
+
+    it('clears the running state when the selection could not start', async () => {
+        mockAuthPost.mockResolvedValue(makeResponse({success: false}, false))
+
+        await useTestsStore.getState().runTestSelection({tags: ['@smoke']})
+
+        expect(useTestsStore.getState().isRunningSelection).toBe(false)
+        expect(useTestsStore.getState().error).toBeTruthy()
+    })
+})
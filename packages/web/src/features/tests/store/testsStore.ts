@@ -7,12 +7,24 @@ import {getMaxWorkersFromStorage} from '@/hooks/usePlaywrightWorkers'
 import {getProjectWorkersOverride} from '@/hooks/useProjectTabs'
 import {getAutoDiscoverFromStorage} from '@/hooks/useAutoDiscoverSetting'
 
+// Tests to run together: picked by ID across files, by tag or by grep
+export interface TestSelection {
+    testIds?: string[]
+    tags?: string[]
+    grep?: string
+    grepInvert?: string
+}
+
 interface TestsState {
     tests: TestResult[]
     runs: TestRun[]
     isLoading: boolean
     isDiscovering: boolean
     isRunningAllTests: boolean
+    // A rerun of failed tests (of a project or a run) is running
+    isRerunningFailed: boolean
+    // A run of selected tests (by ID, tag or grep) is running
+    isRunningSelection: boolean
     currentRunAllId: string | null
     runningTests: Set<string>
     runningGroups: Set<string>
@@ -36,10 +48,15 @@ interface TestsState {
     discoverTests: (project?: string) => Promise<void>
     runAllTests: (project?: string) => Promise<void>
     runTestsGroup: (filePath: string, testNames?: string[], project?: string) => Promise<void>
+    rerunFailedTests: (scope: {runId?: string; project?: string}) => Promise<void>
+    runTestSelection: (selection: TestSelection, project?: string) => Promise<void>
+    cancelRun: (runId: string) => Promise<void>
     clearError: () => void
     setTestRunning: (testId: string, isRunning: boolean) => void
     setGroupRunning: (filePath: string, isRunning: boolean) => void
     setRunningAllTests: (isRunning: boolean) => void
+    setRerunningFailed: (isRunning: boolean) => void
+    setRunningSelection: (isRunning: boolean) => void
     checkAndRestoreActiveStates: () => Promise<void>
     selectExecution: (executionId: string | null) => void
     updateProgress: (progress: TestProgress) => void
@@ -58,6 +75,8 @@ export const useTestsStore = create<TestsState>()(
             isLoading: false,
             isDiscovering: false,
             isRunningAllTests: false,
+            isRerunningFailed: false,
+            isRunningSelection: false,
             currentRunAllId: null,
             runningTests: new Set(),
             runningGroups: new Set(),
@@ -73,6 +92,8 @@ export const useTestsStore = create<TestsState>()(
                 return (
                     state.isDiscovering ||
                     state.isRunningAllTests ||
+                    state.isRerunningFailed ||
+                    state.isRunningSelection ||
                     state.runningTests.size > 0 ||
                     state.runningGroups.size > 0
                 )
@@ -327,6 +348,7 @@ export const useTestsStore = create<TestsState>()(
                         set({isDiscovering: false})
                     }
 
+                    const wasRunningAll = get().isRunningAllTests
                     set({isRunningAllTests: true, error: null})
 
                     const maxWorkers =
@@ -343,7 +365,11 @@ export const useTestsStore = create<TestsState>()(
 
                     const data = await response.json()
 
-                    if (data.success) {
+                    if (data.success && data.data?.queued) {
+                        // Waiting in the run queue (202): the queue panel shows it, and
+                        // run status events take over once it starts
+                        set({isRunningAllTests: wasRunningAll})
+                    } else if (data.success) {
                         const runId = data.data.runId
 
                         // Сохраняем ID run для отслеживания (используется WebSocket для завершения)
@@ -407,6 +433,105 @@ export const useTestsStore = create<TestsState>()(
                 }
             },
 
+            rerunFailedTests: async (scope: {runId?: string; project?: string}) => {
+                try {
+                    set({isRerunningFailed: true, error: null})
+
+                    const maxWorkers =
+                        getProjectWorkersOverride(scope.project) ?? getMaxWorkersFromStorage()
+                    const response = scope.runId
+                        ? await authPost(`${API_BASE_URL}/runs/${scope.runId}/rerun-failed`, {
+                              maxWorkers,
+                          })
+                        : await authPost(`${API_BASE_URL}/tests/rerun-failed`, {
+                              maxWorkers,
+                              project: scope.project || undefined,
+                          })
+
+                    if (!response.ok) {
+                        throw new Error(`HTTP error! status: ${response.status}`)
+                    }
+
+                    const data = await response.json()
+
+                    if (data.success) {
+                        // run:completed over WebSocket clears the running state
+                        setTimeout(() => {
+                            get().fetchRuns()
+                            get().fetchTests()
+                        }, 1000)
+                    } else {
+                        throw new Error(data.message || 'Failed to rerun failed tests')
+                    }
+                } catch (error) {
+                    console.error('Error rerunning failed tests:', error)
+                    set({
+                        error:
+                            error instanceof Error ? error.message : 'Failed to rerun failed tests',
+                        isRerunningFailed: false,
+                    })
+                }
+            },
+
+            runTestSelection: async (selection: TestSelection, project?: string) => {
+                try {
+                    set({isRunningSelection: true, error: null})
+
+                    const response = await authPost(`${API_BASE_URL}/tests/run-selection`, {
+                        ...selection,
+                        maxWorkers:
+                            getProjectWorkersOverride(project) ?? getMaxWorkersFromStorage(),
+                        project: project || undefined,
+                    })
+
+                    if (!response.ok) {
+                        throw new Error(`HTTP error! status: ${response.status}`)
+                    }
+
+                    const data = await response.json()
+
+                    if (data.success) {
+                        // run:completed over WebSocket clears the running state
+                        setTimeout(() => {
+                            get().fetchRuns()
+                            get().fetchTests()
+                        }, 1000)
+                    } else {
+                        throw new Error(data.message || 'Failed to run selected tests')
+                    }
+                } catch (error) {
+                    console.error('Error running selected tests:', error)
+                    set({
+                        error:
+                            error instanceof Error ? error.message : 'Failed to run selected tests',
+                        isRunningSelection: false,
+                    })
+                }
+            },
+
+            cancelRun: async (runId: string) => {
+                try {
+                    set({error: null})
+
+                    const response = await authPost(`${API_BASE_URL}/runs/${runId}/cancel`)
+
+                    // 409: the run already finished, so its progress is stale
+                    if (response.status === 409) {
+                        get().clearProgress()
+                        return
+                    }
+                    if (!response.ok) {
+                        throw new Error(`HTTP error! status: ${response.status}`)
+                    }
+                    // run:completed over WebSocket clears the progress and refreshes the lists
+                } catch (error) {
+                    console.error('Error cancelling run:', error)
+                    set({
+                        error: error instanceof Error ? error.message : 'Failed to cancel run',
+                    })
+                }
+            },
+
             clearError: () => set({error: null}),
 
             setTestRunning: (testId: string, isRunning: boolean) => {
@@ -440,6 +565,14 @@ export const useTestsStore = create<TestsState>()(
                 }
             },
 
+            setRerunningFailed: (isRunning: boolean) => {
+                set({isRerunningFailed: isRunning})
+            },
+
+            setRunningSelection: (isRunning: boolean) => {
+                set({isRunningSelection: isRunning})
+            },
+
             checkAndRestoreActiveStates: async () => {
                 // This function is now simplified since state restoration
                 // is handled by WebSocket connection:status event
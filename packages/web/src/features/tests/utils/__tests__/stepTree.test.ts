@@ -0,0 +1,65 @@
+import {describe, it, expect} from 'vitest'
+import {TestStep} from '@yshvydak/core'
+import {buildStepTree, getFailingPathKeys, getSlowestStepKeys, getStepsTimespan} from '../stepTree'
+
+const step = (title: string, duration: number, overrides: Partial<TestStep> = {}): TestStep => ({
+    title,
+    duration,
+    category: 'test.step',
+    ...overrides,
+})
+
+describe('stepTree', () => {
+    const steps: TestStep[] = [
+        step('Before Hooks', 200, {startOffset: 0, category: 'hook'}),
+        step('Open cart', 900, {
+            startOffset: 200,
+            error: 'Timeout',
+            steps: [
+                step('goto /cart', 300, {startOffset: 200}),
+                step('click checkout', 600, {startOffset: 500, error: 'Timeout'}),
+            ],
+        }),
+        step('After Hooks', 50, {startOffset: 1100, category: 'hook'}),
+    ]
+
+    describe('buildStepTree', () => {
+        it('keys steps by index path and keeps recorded offsets', () => {
+            const tree = buildStepTree(steps)
+
+            expect(tree.map((node) => node.key)).toEqual(['0', '1', '2'])
+            expect(tree[1].children.map((node) => node.key)).toEqual(['1.0', '1.1'])
+            expect(tree[1].children[1]).toMatchObject({start: 500, depth: 1})
+        })
+
+        it('lays out steps without offsets one after another inside their parent', () => {
+            const tree = buildStepTree([
+                step('first', 100),
+                step('second', 300, {steps: [step('a', 100), step('b', 200)]}),
+            ])
+
+            expect(tree.map((node) => node.start)).toEqual([0, 100])
+            expect(tree[1].children.map((node) => node.start)).toEqual([100, 200])
+        })
+    })
+
+    it('getStepsTimespan returns the end of the latest step', () => {
+        expect(getStepsTimespan(buildStepTree(steps))).toBe(1150)
+        expect(getStepsTimespan([])).toBe(0)
+    })
+
+    it('getFailingPathKeys returns failed steps and their ancestors', () => {
+        const tree = buildStepTree([
+            step('parent', 100, {steps: [step('ok', 10), step('broken', 20, {error: 'boom'})]}),
+            step('other', 100),
+        ])
+
+        expect([...getFailingPathKeys(tree)].sort()).toEqual(['0', '0.1'])
+    })
+
+    it('getSlowestStepKeys ranks leaf steps only', () => {
+        const tree = buildStepTree(steps)
+
+        expect([...getSlowestStepKeys(tree, 2)]).toEqual(['1.1', '1.0'])
+    })
+})
@@ -0,0 +1,54 @@
+import {BuiltReport, ReportFormat, ReportTestResult, buildReport} from '@yshvydak/core'
+import {config} from '@config/environment.config'
+import {authFetch} from '@features/authentication/utils/authFetch'
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+    junit: 'JUnit XML',
+    ctrf: 'CTRF (JSON)',
+    json: 'Dashboard JSON',
+}
+
+export function saveFile(content: Blob, fileName: string): void {
+    const blobURL = URL.createObjectURL(content)
+    const link = document.createElement('a')
+    link.href = blobURL
+    link.download = fileName
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(blobURL)
+}
+
+/**
+ * Builds the report in the browser, so exactly the tests on screen (after
+ * filters and search) end up in the file.
+ */
+export function exportTests(
+    tests: ReportTestResult[],
+    format: ReportFormat,
+    name: string
+): BuiltReport {
+    const report = buildReport(format, {id: name}, tests, {
+        attachmentBaseUrl: config.api.serverUrl,
+    })
+    saveFile(new Blob([report.content], {type: report.contentType}), report.fileName)
+    return report
+}
+
+/**
+ * Downloads the server-side export of a whole run.
+ */
+export async function downloadRunReport(runId: string, format: ReportFormat): Promise<void> {
+    const response = await authFetch(
+        `${config.api.baseUrl}/runs/${encodeURIComponent(runId)}/export?format=${format}`
+    )
+
+    if (!response.ok) {
+        throw new Error(`Failed to export run: ${response.status}`)
+    }
+
+    const fileName =
+        response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ||
+        `${runId}-${format}`
+    saveFile(await response.blob(), fileName)
+}
@@ -0,0 +1,87 @@
+import {TestStep} from '@yshvydak/core'
+
+/**
+ * A step with its position in the tree. `key` is the index path ("0.2.1"),
+ * `start` the offset from the beginning of the attempt in ms.
+ */
+export interface StepNode {
+    key: string
+    step: TestStep
+    start: number
+    depth: number
+    children: StepNode[]
+}
+
+/**
+ * Builds the step tree. Steps recorded without `startOffset` are laid out one after
+ * another inside their parent, so older results still get a readable waterfall.
+ */
+export function buildStepTree(steps: TestStep[], parentKey = '', parentStart = 0): StepNode[] {
+    let cursor = parentStart
+
+    return steps.map((step, index) => {
+        const key = parentKey ? `${parentKey}.${index}` : `${index}`
+        const start = step.startOffset ?? cursor
+        cursor = start + step.duration
+
+        return {
+            key,
+            step,
+            start,
+            depth: key.split('.').length - 1,
+            children: buildStepTree(step.steps ?? [], key, start),
+        }
+    })
+}
+
+/**
+ * Total time covered by the tree - the end of the latest step.
+ */
+export function getStepsTimespan(nodes: StepNode[]): number {
+    return nodes.reduce(
+        (max, node) =>
+            Math.max(max, node.start + node.step.duration, getStepsTimespan(node.children)),
+        0
+    )
+}
+
+/**
+ * Keys of every step on the way to a failure: failed steps and their ancestors.
+ */
+export function getFailingPathKeys(nodes: StepNode[]): Set<string> {
+    const keys = new Set<string>()
+
+    const visit = (node: StepNode): boolean => {
+        const childFailed = node.children.map(visit).some(Boolean)
+        const failed = !!node.step.error || childFailed
+        if (failed) keys.add(node.key)
+        return failed
+    }
+
+    nodes.forEach(visit)
+    return keys
+}
+
+/**
+ * Keys of the `count` slowest leaf steps. Parents are skipped, they would always
+ * outrank the steps they contain.
+ */
+export function getSlowestStepKeys(nodes: StepNode[], count = 3): Set<string> {
+    const leaves: StepNode[] = []
+    const collect = (node: StepNode) => {
+        if (node.children.length === 0) {
+            leaves.push(node)
+        } else {
+            node.children.forEach(collect)
+        }
+    }
+    nodes.forEach(collect)
+
+    return new Set(
+        leaves
+            .filter((leaf) => leaf.step.duration > 0)
+            .sort((a, b) => b.step.duration - a.step.duration)
+            .slice(0, count)
+            .map((leaf) => leaf.key)
+    )
+}
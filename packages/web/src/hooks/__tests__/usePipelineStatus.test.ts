@@ -1,6 +1,6 @@
 import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest'
 import {act, renderHook, waitFor} from '@testing-library/react'
-import {usePipelineStatus} from '../usePipelineStatus'
+import {getPipelineStages, usePipelineStatus} from '../usePipelineStatus'
 
 vi.mock('@features/authentication/utils/authFetch', () => ({
     authGet: vi.fn(),
@@ -232,3 +232,34 @@ describe('usePipelineStatus', () => {
         })
     })
 })
+
+describe('getPipelineStages', () => {
+    const step = (project: string, stage?: number) => ({
+        project,
+        displayName: project,
+        stopOnFailure: false,
+        status: 'queued' as const,
+        stage,
+    })
+
+    it('groups the steps of a stage in stage order', () => {
+        const stages = getPipelineStages([
+            step('E2E', 3),
+            step('API', 2),
+            step('Smoke', 1),
+            step('UI', 2),
+        ])
+
+        expect(stages.map((s) => [s.stage, s.steps.map((st) => st.project)])).toEqual([
+            [1, ['Smoke']],
+            [2, ['API', 'UI']],
+            [3, ['E2E']],
+        ])
+    })
+
+    it('gives steps without a stage their position in the pipeline', () => {
+        const stages = getPipelineStages([step('A'), step('B')])
+
+        expect(stages.map((s) => s.stage)).toEqual([1, 2])
+    })
+})
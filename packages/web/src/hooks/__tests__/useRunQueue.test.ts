@@ -0,0 +1,83 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {act, renderHook, waitFor} from '@testing-library/react'
+import {useRunQueue} from '../useRunQueue'
+
+vi.mock('@features/authentication/utils/authFetch', () => ({
+    authGet: vi.fn(),
+    authDelete: vi.fn(),
+}))
+
+vi.mock('@config/environment.config', () => ({
+    config: {
+        api: {
+            baseUrl: 'http://localhost:3000/api',
+        },
+    },
+}))
+
+import {authDelete, authGet} from '@features/authentication/utils/authFetch'
+
+const mockAuthGet = authGet as ReturnType<typeof vi.fn>
+const mockAuthDelete = authDelete as ReturnType<typeof vi.fn>
+
+function makeResponse(body: unknown, ok = true, status = 200) {
+    return {
+        ok,
+        status,
+        json: () => Promise.resolve(body),
+    } as unknown as Response
+}
+
+const item = (id: string, position: number) => ({
+    id,
+    kind: 'run-all',
+    project: 'chromium',
+    priority: 'normal',
+    position,
+    createdAt: '2026-01-01T00:00:00.000Z',
+})
+
+describe('useRunQueue', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        mockAuthGet.mockResolvedValue(makeResponse({data: [item('q1', 1)]}))
+    })
+
+    it('loads the queue on mount', async () => {
+        const {result} = renderHook(() => useRunQueue())
+
+        await waitFor(() => expect(result.current.items).toHaveLength(1))
+        expect(mockAuthGet).toHaveBeenCalledWith('http://localhost:3000/api/queue')
+    })
+
+    it('does not load the queue when signed out', () => {
+        renderHook(() => useRunQueue(false))
+
+        expect(mockAuthGet).not.toHaveBeenCalled()
+    })
+
+    it('replaces the queue on queue:updated events', async () => {
+        const {result} = renderHook(() => useRunQueue())
+        await waitFor(() => expect(result.current.items).toHaveLength(1))
+
+        act(() => {
+            result.current.applyQueueEvent('queue:updated', {
+                items: [item('q2', 1), item('q3', 2)],
+            })
+            result.current.applyQueueEvent('pipeline:started', {items: []})
+        })
+
+        expect(result.current.items.map((i) => i.id)).toEqual(['q2', 'q3'])
+    })
+
+    it('removes a cancelled item, even when it already left the queue', async () => {
+        mockAuthDelete.mockResolvedValue(makeResponse({}, false, 404))
+        const {result} = renderHook(() => useRunQueue())
+        await waitFor(() => expect(result.current.items).toHaveLength(1))
+
+        await act(() => result.current.cancelItem('q1'))
+
+        expect(mockAuthDelete).toHaveBeenCalledWith('http://localhost:3000/api/queue/q1')
+        expect(result.current.items).toEqual([])
+    })
+})
@@ -0,0 +1,117 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {renderHook, waitFor, act} from '@testing-library/react'
+import {useSchedules} from '../useSchedules'
+
+vi.mock('@features/authentication/utils/authFetch', () => ({
+    authGet: vi.fn(),
+    authPost: vi.fn(),
+    authPut: vi.fn(),
+    authDelete: vi.fn(),
+}))
+
+vi.mock('@config/environment.config', () => ({
+    config: {
+        api: {
+            baseUrl: 'http://localhost:3000/api',
+        },
+    },
+}))
+
+import {authGet, authPost, authPut, authDelete} from '@features/authentication/utils/authFetch'
+
+const mockAuthGet = authGet as ReturnType<typeof vi.fn>
+const mockAuthPost = authPost as ReturnType<typeof vi.fn>
+const mockAuthPut = authPut as ReturnType<typeof vi.fn>
+const mockAuthDelete = authDelete as ReturnType<typeof vi.fn>
+
+function makeResponse(body: unknown, ok = true): Response {
+    return {
+        ok,
+        json: () => Promise.resolve(body),
+    } as unknown as Response
+}
+
+const schedule = {
+    id: 'schedule-1',
+    name: 'Nightly',
+    cron: '0 2 * * *',
+    enabled: true,
+    nextRunAt: '2025-01-02T02:00:00.000Z',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+}
+
+describe('useSchedules', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        mockAuthGet.mockResolvedValue(makeResponse({data: [schedule]}))
+    })
+
+    it('loads schedules on mount', async () => {
+        const {result} = renderHook(() => useSchedules())
+
+        await waitFor(() => expect(result.current.schedules).toEqual([schedule]))
+        expect(mockAuthGet).toHaveBeenCalledWith('http://localhost:3000/api/schedules')
+    })
+
+    it('sets an error when loading fails', async () => {
+        mockAuthGet.mockResolvedValue(makeResponse({error: 'Unauthorized'}, false))
+
+        const {result} = renderHook(() => useSchedules())
+
+        await waitFor(() => expect(result.current.error).toBe('Unauthorized'))
+        expect(result.current.schedules).toEqual([])
+    })
+
+    it('adds, updates and removes schedules locally after saving', async () => {
+        const created = {...schedule, id: 'schedule-2', name: 'Hourly', project: 'chromium'}
+        mockAuthPost.mockResolvedValue(makeResponse({data: created}))
+        mockAuthPut.mockResolvedValue(makeResponse({data: {...schedule, enabled: false}}))
+        mockAuthDelete.mockResolvedValue(makeResponse({data: {}}))
+
+        const {result} = renderHook(() => useSchedules())
+        await waitFor(() => expect(result.current.schedules).toHaveLength(1))
+
+        const input = {name: 'Hourly', cron: '@hourly', project: 'chromium'}
+        await act(() => result.current.createSchedule(input))
+        expect(mockAuthPost).toHaveBeenCalledWith('http://localhost:3000/api/schedules', input)
+        expect(result.current.schedules.map((s) => s.id)).toEqual(['schedule-1', 'schedule-2'])
+
+        await act(() => result.current.updateSchedule('schedule-1', {...input, enabled: false}))
+        expect(result.current.schedules[0].enabled).toBe(false)
+
+        await act(() => result.current.deleteSchedule('schedule-2'))
+        expect(mockAuthDelete).toHaveBeenCalledWith(
+            'http://localhost:3000/api/schedules/schedule-2'
+        )
+        expect(result.current.schedules.map((s) => s.id)).toEqual(['schedule-1'])
+    })
+
+    it('returns the next runs of a cron expression', async () => {
+        const runs = ['2025-01-02T02:00:00.000Z', '2025-01-03T02:00:00.000Z']
+
+        const {result} = renderHook(() => useSchedules())
+        await waitFor(() => expect(result.current.schedules).toHaveLength(1))
+
+        mockAuthGet.mockResolvedValue(makeResponse({data: {runs}}))
+        await expect(result.current.previewSchedule('0 2 * * *')).resolves.toEqual(runs)
+        expect(mockAuthGet).toHaveBeenLastCalledWith(
+            'http://localhost:3000/api/schedules/preview?cron=0%202%20*%20*%20*'
+        )
+    })
+
+    it('throws the server message for an invalid expression', async () => {
+        const {result} = renderHook(() => useSchedules())
+        await waitFor(() => expect(result.current.schedules).toHaveLength(1))
+
+        mockAuthGet.mockResolvedValue(
+            makeResponse(
+                {error: 'Bad request', message: 'Invalid cron expression: expected 5 fields'},
+                false
+            )
+        )
+        await expect(result.current.previewSchedule('0 2')).rejects.toThrow(
+            'Invalid cron expression: expected 5 fields'
+        )
+    })
+})
@@ -111,6 +111,8 @@ describe('useWebSocket', () => {
             setGroupRunning: vi.fn(),
             setTestRunning: vi.fn(),
             setRunningAllTests: vi.fn(),
+            setRerunningFailed: vi.fn(),
+            setRunningSelection: vi.fn(),
             updateProgress: vi.fn(),
             clearProgress: vi.fn(),
         }
@@ -635,6 +637,43 @@ describe('useWebSocket', () => {
             expect(mockStoreActions.setRunningAllTests).toHaveBeenCalledWith(false)
         })
 
+        it('should handle run:completed for rerun-failed', async () => {
+            const url = 'ws://localhost:3001'
+            renderHook(() => useWebSocket(url), {
+                wrapper: createWrapper(),
+            })
+
+            await act(async () => {
+                await Promise.resolve()
+            })
+
+            act(() => {
+                mockWebSocket.simulateMessage({type: 'run:completed', data: {type: 'rerun-failed'}})
+            })
+
+            expect(mockStoreActions.setRerunningFailed).toHaveBeenCalledWith(false)
+        })
+
+        it('should handle run:completed for run-selection', async () => {
+            const url = 'ws://localhost:3001'
+            renderHook(() => useWebSocket(url), {
+                wrapper: createWrapper(),
+            })
+
+            await act(async () => {
+                await Promise.resolve()
+            })
+
+            act(() => {
+                mockWebSocket.simulateMessage({
+                    type: 'run:completed',
+                    data: {type: 'run-selection'},
+                })
+            })
+
+            expect(mockStoreActions.setRunningSelection).toHaveBeenCalledWith(false)
+        })
+
         it('should handle run:completed for rerun', async () => {
             const url = 'ws://localhost:3001'
             renderHook(() => useWebSocket(url), {
@@ -1150,5 +1189,30 @@ describe('useWebSocket', () => {
 
             expect(onRunCompleted).toHaveBeenCalledWith(message.data)
         })
+
+        it('should call onRunLog on run:log without updating lastMessage', async () => {
+            const url = 'ws://localhost:3001'
+            const onRunLog = vi.fn()
+
+            const {result} = renderHook(() => useWebSocket(url, {onRunLog}), {
+                wrapper: createWrapper(),
+            })
+
+            await act(async () => {
+                await Promise.resolve()
+            })
+
+            const message = {
+                type: 'run:log',
+                data: {runId: '123', chunk: 'Running 4 tests using 2 workers\n'},
+            }
+
+            act(() => {
+                mockWebSocket.simulateMessage(message)
+            })
+
+            expect(onRunLog).toHaveBeenCalledWith(message.data)
+            expect(result.current.lastMessage).toBeNull()
+        })
     })
 })
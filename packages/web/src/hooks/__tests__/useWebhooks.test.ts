@@ -0,0 +1,116 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {renderHook, waitFor, act} from '@testing-library/react'
+import {useWebhooks} from '../useWebhooks'
+
+vi.mock('@features/authentication/utils/authFetch', () => ({
+    authGet: vi.fn(),
+    authPost: vi.fn(),
+    authPut: vi.fn(),
+    authDelete: vi.fn(),
+}))
+
+vi.mock('@config/environment.config', () => ({
+    config: {
+        api: {
+            baseUrl: 'http://localhost:3000/api',
+        },
+    },
+}))
+
+import {authGet, authPost, authPut, authDelete} from '@features/authentication/utils/authFetch'
+
+const mockAuthGet = authGet as ReturnType<typeof vi.fn>
+const mockAuthPost = authPost as ReturnType<typeof vi.fn>
+const mockAuthPut = authPut as ReturnType<typeof vi.fn>
+const mockAuthDelete = authDelete as ReturnType<typeof vi.fn>
+
+function makeResponse(body: unknown, ok = true): Response {
+    return {
+        ok,
+        json: () => Promise.resolve(body),
+    } as unknown as Response
+}
+
+const webhook = {
+    id: 'hook-1',
+    name: 'CI alerts',
+    url: 'https://example.com/hook',
+    events: ['process:ended'],
+    enabled: true,
+    hasSecret: false,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+}
+
+describe('useWebhooks', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        mockAuthGet.mockResolvedValue(makeResponse({data: [webhook]}))
+    })
+
+    it('loads webhooks on mount', async () => {
+        const {result} = renderHook(() => useWebhooks())
+
+        await waitFor(() => expect(result.current.webhooks).toEqual([webhook]))
+        expect(mockAuthGet).toHaveBeenCalledWith('http://localhost:3000/api/webhooks')
+    })
+
+    it('sets an error when loading fails', async () => {
+        mockAuthGet.mockResolvedValue(makeResponse({error: 'Unauthorized'}, false))
+
+        const {result} = renderHook(() => useWebhooks())
+
+        await waitFor(() => expect(result.current.error).toBe('Unauthorized'))
+        expect(result.current.webhooks).toEqual([])
+    })
+
+    it('adds, updates and removes webhooks locally after saving', async () => {
+        const created = {...webhook, id: 'hook-2', name: 'Chat'}
+        mockAuthPost.mockResolvedValue(makeResponse({data: created}))
+        mockAuthPut.mockResolvedValue(makeResponse({data: {...webhook, enabled: false}}))
+        mockAuthDelete.mockResolvedValue(makeResponse({data: {}}))
+
+        const {result} = renderHook(() => useWebhooks())
+        await waitFor(() => expect(result.current.webhooks).toHaveLength(1))
+
+        const input = {name: 'Chat', url: webhook.url, events: ['test:flaky' as const]}
+        await act(() => result.current.createWebhook(input))
+        expect(mockAuthPost).toHaveBeenCalledWith('http://localhost:3000/api/webhooks', input)
+        expect(result.current.webhooks.map((w) => w.id)).toEqual(['hook-1', 'hook-2'])
+
+        await act(() => result.current.updateWebhook('hook-1', {...input, enabled: false}))
+        expect(result.current.webhooks[0].enabled).toBe(false)
+
+        await act(() => result.current.deleteWebhook('hook-2'))
+        expect(mockAuthDelete).toHaveBeenCalledWith('http://localhost:3000/api/webhooks/hook-2')
+        expect(result.current.webhooks.map((w) => w.id)).toEqual(['hook-1'])
+    })
+
+    it('throws the server validation message when saving fails', async () => {
+        mockAuthPost.mockResolvedValue(
+            makeResponse(
+                {error: 'Bad request', message: 'Invalid webhook: name is required'},
+                false
+            )
+        )
+
+        const {result} = renderHook(() => useWebhooks())
+        await waitFor(() => expect(result.current.webhooks).toHaveLength(1))
+
+        await expect(
+            result.current.createWebhook({name: '', url: webhook.url, events: ['test:flaky']})
+        ).rejects.toThrow('Invalid webhook: name is required')
+        expect(result.current.webhooks).toHaveLength(1)
+    })
+
+    it('returns the delivery of a test event', async () => {
+        const delivery = {id: 'delivery-1', status: 'success', attempts: 1, responseStatus: 200}
+        mockAuthPost.mockResolvedValue(makeResponse({data: delivery}))
+
+        const {result} = renderHook(() => useWebhooks())
+        await waitFor(() => expect(result.current.webhooks).toHaveLength(1))
+
+        await expect(result.current.sendTestEvent('hook-1')).resolves.toEqual(delivery)
+        expect(mockAuthPost).toHaveBeenCalledWith('http://localhost:3000/api/webhooks/hook-1/test')
+    })
+})
@@ -1,26 +1,71 @@
 import {useCallback, useEffect, useState} from 'react'
 import {authGet} from '@features/authentication/utils/authFetch'
 import {config} from '@config/environment.config'
+import type {PipelineRunCondition} from './useProjectTabs'
 
-export type PipelineStepStatus = 'queued' | 'running' | 'success' | 'failed' | 'skipped'
+export type PipelineStepStatus =
+    | 'queued'
+    | 'running'
+    | 'success'
+    | 'failed'
+    | 'skipped'
+    | 'cancelled'
 
 export interface PipelineStep {
     project: string
     displayName: string
     stopOnFailure: boolean
     status: PipelineStepStatus
+    // Missing on pipelines run before stages existed (see getPipelineStages)
+    stage?: number
+    dependsOn?: string[]
+    runCondition?: PipelineRunCondition
+    workers?: number
     runId?: string
     passed?: number
     failed?: number
+    quarantined?: number
+    startedAt?: string
+    finishedAt?: string
 }
 
-export type PipelineRunStatus = 'running' | 'completed' | 'stopped_early'
+// interrupted: the server restarted while the pipeline was running
+export type PipelineRunStatus =
+    | 'running'
+    | 'completed'
+    | 'stopped_early'
+    | 'cancelled'
+    | 'interrupted'
 
 export interface PipelineState {
     pipelineRunId: string
     status: PipelineRunStatus
     steps: PipelineStep[]
+    source?: string
+    // Pipeline whose failed or remaining steps this one re-ran
+    rerunOf?: string
     startedAt: string
+    finishedAt?: string
+}
+
+export interface PipelineStage {
+    stage: number
+    steps: PipelineStep[]
+}
+
+/**
+ * Steps grouped by stage, in the order the stages run. A step without a stage
+ * gets its position in the pipeline, the same as on the server.
+ */
+export function getPipelineStages(steps: PipelineStep[]): PipelineStage[] {
+    const stages = new Map<number, PipelineStep[]>()
+    steps.forEach((step, index) => {
+        const stage = step.stage ?? index + 1
+        stages.set(stage, [...(stages.get(stage) ?? []), step])
+    })
+    return [...stages.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([stage, stageSteps]) => ({stage, steps: stageSteps}))
 }
 
 export interface UsePipelineStatusReturn {
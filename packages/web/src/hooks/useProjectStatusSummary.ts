@@ -6,7 +6,9 @@ export interface ProjectStatusSummary {
     project: string
     total: number
     passed: number
+    // Failures of quarantined tests, not included in failed
     failed: number
+    quarantined: number
 }
 
 async function fetchProjectStatusSummary(): Promise<ProjectStatusSummary[]> {
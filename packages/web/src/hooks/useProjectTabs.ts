@@ -2,6 +2,10 @@ import {useState, useEffect, useCallback} from 'react'
 import {authGet, authPut} from '@features/authentication/utils/authFetch'
 import {config} from '@config/environment.config'
 
+// previous_passed: only when every step it waits for passed; always: even after
+// the pipeline stopped early. Without one, a step runs unless the pipeline stopped.
+export type PipelineRunCondition = 'previous_passed' | 'always'
+
 export interface ProjectTabConfig {
     project: string
     displayName: string
@@ -9,6 +13,13 @@ export interface ProjectTabConfig {
     inPipeline: boolean
     stopPipelineOnFailure: boolean
     workers?: number
+    // Steps sharing a stage run in parallel; defaults to the step's position
+    pipelineStage?: number
+    // Pipeline steps this one waits for instead of the previous stage
+    dependsOn?: string[]
+    runCondition?: PipelineRunCondition
+    // Webhooks that only receive this project's notifications
+    webhookIds?: string[]
 }
 
 // Module-level cache mirrors the last-loaded tab configs so non-React code
@@ -0,0 +1,49 @@
+import {useCallback, useEffect, useState} from 'react'
+import {RunQueueItem} from '@yshvydak/core'
+import {authDelete, authGet} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+
+export interface UseRunQueueReturn {
+    items: RunQueueItem[]
+    cancelItem: (id: string) => Promise<void>
+    applyQueueEvent: (type: string, data: any) => void
+}
+
+/**
+ * Run-all and pipeline requests waiting for the running tests to finish.
+ * Loaded once on mount and then kept current by the `queue:updated`
+ * WebSocket event via applyQueueEvent.
+ */
+export function useRunQueue(isAuthenticated = true): UseRunQueueReturn {
+    const [items, setItems] = useState<RunQueueItem[]>([])
+
+    useEffect(() => {
+        if (!isAuthenticated) return
+
+        authGet(`${config.api.baseUrl}/queue`)
+            .then((res) => (res.ok ? res.json() : null))
+            .then((data) => {
+                if (Array.isArray(data?.data)) setItems(data.data)
+            })
+            .catch(() => {
+                // Start with an empty queue; the next queue:updated event fills it in
+            })
+    }, [isAuthenticated])
+
+    const cancelItem = useCallback(async (id: string) => {
+        const res = await authDelete(`${config.api.baseUrl}/queue/${id}`)
+        // 404: the run already started or was cancelled by someone else
+        if (!res.ok && res.status !== 404) {
+            throw new Error(`HTTP error! status: ${res.status}`)
+        }
+        setItems((prev) => prev.filter((item) => item.id !== id))
+    }, [])
+
+    const applyQueueEvent = useCallback((type: string, data: any) => {
+        if (type === 'queue:updated' && Array.isArray(data?.items)) {
+            setItems(data.items)
+        }
+    }, [])
+
+    return {items, cancelItem, applyQueueEvent}
+}
@@ -0,0 +1,103 @@
+import {useState, useEffect, useCallback} from 'react'
+import {Schedule, ScheduleInput} from '@yshvydak/core'
+import {authGet, authPost, authPut, authDelete} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+
+export interface UseSchedulesReturn {
+    schedules: Schedule[]
+    isLoading: boolean
+    error: string | null
+    createSchedule: (input: ScheduleInput) => Promise<void>
+    updateSchedule: (id: string, input: ScheduleInput) => Promise<void>
+    deleteSchedule: (id: string) => Promise<void>
+    previewSchedule: (cron: string) => Promise<string[]>
+    reload: () => Promise<void>
+}
+
+// Server validation messages ("Invalid schedule: ...") are shown as-is
+async function readResult(res: Response, fallback: string) {
+    const result = await res.json().catch(() => null)
+    if (!res.ok) {
+        throw new Error(result?.message || result?.error || fallback)
+    }
+    return result?.data
+}
+
+export function useSchedules(): UseSchedulesReturn {
+    const [schedules, setSchedules] = useState<Schedule[]>([])
+    const [isLoading, setIsLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const baseUrl = `${config.api.baseUrl}/schedules`
+
+    const reload = useCallback(async () => {
+        setIsLoading(true)
+        setError(null)
+        try {
+            const res = await authGet(baseUrl)
+            setSchedules((await readResult(res, 'Failed to load schedules')) ?? [])
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load schedules')
+        } finally {
+            setIsLoading(false)
+        }
+    }, [baseUrl])
+
+    useEffect(() => {
+        reload()
+    }, [reload])
+
+    const createSchedule = useCallback(
+        async (input: ScheduleInput) => {
+            const created: Schedule = await readResult(
+                await authPost(baseUrl, input),
+                'Failed to create schedule'
+            )
+            setSchedules((prev) => [...prev, created])
+        },
+        [baseUrl]
+    )
+
+    const updateSchedule = useCallback(
+        async (id: string, input: ScheduleInput) => {
+            const updated: Schedule = await readResult(
+                await authPut(`${baseUrl}/${id}`, input),
+                'Failed to update schedule'
+            )
+            setSchedules((prev) =>
+                prev.map((schedule) => (schedule.id === id ? updated : schedule))
+            )
+        },
+        [baseUrl]
+    )
+
+    const deleteSchedule = useCallback(
+        async (id: string) => {
+            await readResult(await authDelete(`${baseUrl}/${id}`), 'Failed to delete schedule')
+            setSchedules((prev) => prev.filter((schedule) => schedule.id !== id))
+        },
+        [baseUrl]
+    )
+
+    const previewSchedule = useCallback(
+        async (cron: string): Promise<string[]> => {
+            const result = await readResult(
+                await authGet(`${baseUrl}/preview?cron=${encodeURIComponent(cron)}`),
+                'Failed to preview schedule'
+            )
+            return result?.runs ?? []
+        },
+        [baseUrl]
+    )
+
+    return {
+        schedules,
+        isLoading,
+        error,
+        createSchedule,
+        updateSchedule,
+        deleteSchedule,
+        previewSchedule,
+        reload,
+    }
+}
@@ -0,0 +1,47 @@
+import {useState, useEffect, useCallback} from 'react'
+import {authGet, authPut} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+
+export interface UseSkipQuarantinedTestsReturn {
+    enabled: boolean
+    isSaving: boolean
+    setEnabled: (enabled: boolean) => Promise<void>
+}
+
+/**
+ * Whether Run All (dashboard and CI pipeline) leaves quarantined tests out of
+ * the Playwright run instead of running them and ignoring their failures.
+ */
+export function useSkipQuarantinedTests(): UseSkipQuarantinedTestsReturn {
+    const [enabled, setEnabledState] = useState(false)
+    const [isSaving, setIsSaving] = useState(false)
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const res = await authGet(`${config.api.baseUrl}/settings/skip-quarantined`)
+                if (!res.ok) return
+                const data = await res.json()
+                setEnabledState(!!data.data?.enabled)
+            } catch {
+                // silently fail — the toggle stays off
+            }
+        }
+        load()
+    }, [])
+
+    const setEnabled = useCallback(async (value: boolean) => {
+        setIsSaving(true)
+        try {
+            const res = await authPut(`${config.api.baseUrl}/settings/skip-quarantined`, {
+                enabled: value,
+            })
+            if (!res.ok) throw new Error('Failed to update skip quarantined tests setting')
+            setEnabledState(value)
+        } finally {
+            setIsSaving(false)
+        }
+    }, [])
+
+    return {enabled, isSaving, setEnabled}
+}
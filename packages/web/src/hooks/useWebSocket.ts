@@ -14,6 +14,8 @@ interface WebSocketOptions {
     onRunCompleted?: (data: any) => void
     onPipelineEvent?: (type: string, data: any) => void
     onRunStatusEvent?: (type: string, data: any) => void
+    onQueueEvent?: (type: string, data: any) => void
+    onRunLog?: (data: {runId: string; chunk: string}) => void
 }
 
 export function useWebSocket(url: string | null, options?: WebSocketOptions) {
@@ -27,6 +29,8 @@ export function useWebSocket(url: string | null, options?: WebSocketOptions) {
         setGroupRunning,
         setTestRunning,
         setRunningAllTests,
+        setRerunningFailed,
+        setRunningSelection,
         updateProgress,
         clearProgress,
     } = useTestsStore()
@@ -39,6 +43,8 @@ export function useWebSocket(url: string | null, options?: WebSocketOptions) {
 
         // Clear all current running states first
         setRunningAllTests(false)
+        setRerunningFailed(false)
+        setRunningSelection(false)
 
         // Clear any existing running test/group states
         // Note: In a real implementation, we might want to track and clear these individually
@@ -61,6 +67,12 @@ export function useWebSocket(url: string | null, options?: WebSocketOptions) {
                             setTestRunning(run.details.originalTestId, true)
                         }
                         break
+                    case 'rerun-failed':
+                        setRerunningFailed(true)
+                        break
+                    case 'run-selection':
+                        setRunningSelection(true)
+                        break
                 }
 
                 // Restore progress if available
@@ -95,7 +107,10 @@ export function useWebSocket(url: string | null, options?: WebSocketOptions) {
             wsRef.current.onmessage = (event) => {
                 try {
                     const message: WebSocketMessage = JSON.parse(event.data)
-                    setLastMessage(message)
+                    // Run output arrives several times a second; not worth a re-render of every host
+                    if (message.type !== 'run:log') {
+                        setLastMessage(message)
+                    }
                     handleMessage(message)
                 } catch (error) {
                     console.error('Error parsing WebSocket message:', error)
@@ -227,6 +242,14 @@ export function useWebSocket(url: string | null, options?: WebSocketOptions) {
                     setRunningAllTests(false)
                 }
 
+                if (message.data?.type === 'rerun-failed') {
+                    setRerunningFailed(false)
+                }
+
+                if (message.data?.type === 'run-selection') {
+                    setRunningSelection(false)
+                }
+
                 // Clear individual test running state if this was a rerun
                 if (message.data?.isRerun && message.data?.originalTestId) {
                     setTestRunning(message.data.originalTestId, false)
@@ -270,6 +293,14 @@ export function useWebSocket(url: string | null, options?: WebSocketOptions) {
                 options?.onPipelineEvent?.(message.type, message.data)
                 break
 
+            case 'queue:updated':
+                options?.onQueueEvent?.(message.type, message.data)
+                break
+
+            case 'run:log':
+                options?.onRunLog?.(message.data)
+                break
+
             default:
             // Unknown message type - ignore
         }
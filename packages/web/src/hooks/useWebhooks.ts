@@ -0,0 +1,107 @@
+import {useState, useEffect, useCallback} from 'react'
+import {Webhook, WebhookDelivery, WebhookInput} from '@yshvydak/core'
+import {authGet, authPost, authPut, authDelete} from '@features/authentication/utils/authFetch'
+import {config} from '@config/environment.config'
+
+export interface UseWebhooksReturn {
+    webhooks: Webhook[]
+    isLoading: boolean
+    error: string | null
+    createWebhook: (input: WebhookInput) => Promise<void>
+    updateWebhook: (id: string, input: WebhookInput) => Promise<void>
+    deleteWebhook: (id: string) => Promise<void>
+    sendTestEvent: (id: string) => Promise<WebhookDelivery>
+    getDeliveries: (id: string) => Promise<WebhookDelivery[]>
+    reload: () => Promise<void>
+}
+
+// Server validation messages ("Invalid webhook: ...") are shown as-is
+async function readResult(res: Response, fallback: string) {
+    const result = await res.json().catch(() => null)
+    if (!res.ok) {
+        throw new Error(result?.message || result?.error || fallback)
+    }
+    return result?.data
+}
+
+export function useWebhooks(): UseWebhooksReturn {
+    const [webhooks, setWebhooks] = useState<Webhook[]>([])
+    const [isLoading, setIsLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const baseUrl = `${config.api.baseUrl}/webhooks`
+
+    const reload = useCallback(async () => {
+        setIsLoading(true)
+        setError(null)
+        try {
+            const res = await authGet(baseUrl)
+            setWebhooks((await readResult(res, 'Failed to load webhooks')) ?? [])
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load webhooks')
+        } finally {
+            setIsLoading(false)
+        }
+    }, [baseUrl])
+
+    useEffect(() => {
+        reload()
+    }, [reload])
+
+    const createWebhook = useCallback(
+        async (input: WebhookInput) => {
+            const created: Webhook = await readResult(
+                await authPost(baseUrl, input),
+                'Failed to create webhook'
+            )
+            setWebhooks((prev) => [...prev, created])
+        },
+        [baseUrl]
+    )
+
+    const updateWebhook = useCallback(
+        async (id: string, input: WebhookInput) => {
+            const updated: Webhook = await readResult(
+                await authPut(`${baseUrl}/${id}`, input),
+                'Failed to update webhook'
+            )
+            setWebhooks((prev) => prev.map((webhook) => (webhook.id === id ? updated : webhook)))
+        },
+        [baseUrl]
+    )
+
+    const deleteWebhook = useCallback(
+        async (id: string) => {
+            await readResult(await authDelete(`${baseUrl}/${id}`), 'Failed to delete webhook')
+            setWebhooks((prev) => prev.filter((webhook) => webhook.id !== id))
+        },
+        [baseUrl]
+    )
+
+    const sendTestEvent = useCallback(
+        async (id: string): Promise<WebhookDelivery> =>
+            readResult(await authPost(`${baseUrl}/${id}/test`), 'Failed to send test event'),
+        [baseUrl]
+    )
+
+    const getDeliveries = useCallback(
+        async (id: string): Promise<WebhookDelivery[]> =>
+            (await readResult(
+                await authGet(`${baseUrl}/${id}/deliveries`),
+                'Failed to load deliveries'
+            )) ?? [],
+        [baseUrl]
+    )
+
+    return {
+        webhooks,
+        isLoading,
+        error,
+        createWebhook,
+        updateWebhook,
+        deleteWebhook,
+        sendTestEvent,
+        getDeliveries,
+        reload,
+    }
+}
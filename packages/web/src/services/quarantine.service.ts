@@ -0,0 +1,37 @@
+import {authPost, authDelete} from '@features/authentication/utils/authFetch'
+import {TestQuarantine} from '@yshvydak/core'
+import {config} from '@config/environment.config'
+
+export const quarantineService = {
+    /**
+     * Quarantine a test; without expiresAt it stays quarantined until released
+     */
+    async quarantineTest(
+        testId: string,
+        reason: string,
+        expiresAt?: string | null
+    ): Promise<TestQuarantine> {
+        const response = await authPost(`${config.api.serverUrl}/api/tests/${testId}/quarantine`, {
+            reason,
+            expiresAt: expiresAt ?? null,
+        })
+
+        const result = await response.json().catch(() => null)
+        if (!response.ok) {
+            throw new Error(result?.message || 'Failed to quarantine test')
+        }
+
+        return result.data
+    },
+
+    /**
+     * Release a test from quarantine
+     */
+    async releaseTest(testId: string): Promise<void> {
+        const response = await authDelete(`${config.api.serverUrl}/api/tests/${testId}/quarantine`)
+
+        if (!response.ok) {
+            throw new Error('Failed to release test from quarantine')
+        }
+    },
+}
@@ -4,6 +4,7 @@ import {
     Settings,
     LogOut,
     LayoutDashboard,
+    History,
     ChevronDown,
     Menu,
     X,
@@ -13,7 +14,7 @@ import {
 } from 'lucide-react'
 import {useTheme} from '@/hooks/useTheme'
 import {ProjectTabConfig} from '@/hooks/useProjectTabs'
-import {PipelineState} from '@/hooks/usePipelineStatus'
+import {PipelineState, getPipelineStages} from '@/hooks/usePipelineStatus'
 import {ProjectStatusSummary} from '@/hooks/useProjectStatusSummary'
 
 interface HeaderProps {
@@ -106,7 +107,15 @@ export default function Header({
         setMobileMenuOpen(false)
     }
 
+    const handleRunsClick = () => {
+        navigate('/runs')
+        setMobileMenuOpen(false)
+    }
+
     const isDashboard = location.pathname.includes('/dashboard')
+    const isRuns = location.pathname.startsWith('/runs')
+    // Project tabs only highlight on the tests list
+    const isTestsPage = !isDashboard && !isRuns
 
     const tabClass = (active: boolean) =>
         `relative px-4 py-2 text-sm font-medium rounded-xl transition-all duration-200 ${
@@ -117,11 +126,17 @@ export default function Header({
 
     // "Queued" only has meaning while a pipeline is actively working through its
     // ordered steps — manual runs have no queue, so this never applies to them.
-    const getQueuedStepIndex = (project: string): number | null => {
+    // A pipeline with parallel stages counts stages rather than steps.
+    const getQueuedLabel = (project: string): string | null => {
         if (pipeline?.status !== 'running') return null
         const index = pipeline.steps.findIndex((s) => s.project === project)
         if (index === -1 || pipeline.steps[index].status !== 'queued') return null
-        return index
+        const stages = getPipelineStages(pipeline.steps)
+        if (stages.length === pipeline.steps.length) {
+            return `Queued — step ${index + 1} of ${pipeline.steps.length}`
+        }
+        const stageIndex = stages.findIndex((s) => s.steps.some((step) => step.project === project))
+        return `Queued — stage ${stageIndex + 1} of ${stages.length}`
     }
 
     // Icons mirror GitHub Actions' own run-status vocabulary (spinning ring =
@@ -142,9 +157,8 @@ export default function Header({
                 />
             )
         }
-        const queuedIndex = getQueuedStepIndex(project)
-        if (queuedIndex !== null && pipeline) {
-            const label = `Queued — step ${queuedIndex + 1} of ${pipeline.steps.length}`
+        const label = getQueuedLabel(project)
+        if (label) {
             return (
                 <span
                     className="inline-flex h-3 w-3 flex-shrink-0 items-center justify-center text-gray-400 dark:text-gray-500"
@@ -172,6 +186,13 @@ export default function Header({
                 </span>
             )
         }
+        if (summary.quarantined > 0) {
+            return (
+                <span className="font-mono text-[10px] font-semibold text-warning-600 dark:text-warning-400">
+                    {summary.quarantined} quarantined
+                </span>
+            )
+        }
         if (summary.passed > 0) {
             return (
                 <span className="font-mono text-[10px] font-semibold text-success-600 dark:text-success-400">
@@ -182,9 +203,10 @@ export default function Header({
         return null
     }
 
-    const dashboardIconClass = isDashboard
-        ? 'flex items-center justify-center w-9 h-9 rounded-xl bg-primary-50 text-primary-700 dark:bg-primary-500/15 dark:text-primary-300 transition-all duration-200'
-        : 'flex items-center justify-center w-9 h-9 rounded-xl text-gray-500 hover:text-gray-900 hover:bg-gray-100/80 dark:text-gray-400 dark:hover:text-white dark:hover:bg-white/[0.06] transition-all duration-200'
+    const navIconClass = (active: boolean) =>
+        active
+            ? 'flex items-center justify-center w-9 h-9 rounded-xl bg-primary-50 text-primary-700 dark:bg-primary-500/15 dark:text-primary-300 transition-all duration-200'
+            : 'flex items-center justify-center w-9 h-9 rounded-xl text-gray-500 hover:text-gray-900 hover:bg-gray-100/80 dark:text-gray-400 dark:hover:text-white dark:hover:bg-white/[0.06] transition-all duration-200'
 
     return (
         <>
@@ -236,10 +258,18 @@ export default function Header({
                             <button
                                 onClick={handleDashboardClick}
                                 title="Dashboard"
-                                className={dashboardIconClass}>
+                                className={navIconClass(isDashboard)}>
                                 <LayoutDashboard className="w-4 h-4" />
                             </button>
 
+                            {/* Runs icon button */}
+                            <button
+                                onClick={handleRunsClick}
+                                title="Runs"
+                                className={navIconClass(isRuns)}>
+                                <History className="w-4 h-4" />
+                            </button>
+
                             {/* Project tabs */}
                             <nav className="flex items-center gap-1 rounded-2xl bg-gray-100/60 p-1 dark:bg-white/[0.04]">
                                 {tabsLoading ? (
@@ -253,7 +283,7 @@ export default function Header({
                                             key={tab.project}
                                             onClick={() => handleProjectTabClick(tab.project)}
                                             className={tabClass(
-                                                !isDashboard && activeProject === tab.project
+                                                isTestsPage && activeProject === tab.project
                                             )}>
                                             <span className="flex items-center gap-1.5">
                                                 {renderStatusDot(tab.project)}
@@ -265,7 +295,7 @@ export default function Header({
                                 ) : (
                                     <button
                                         onClick={() => navigate('/tests')}
-                                        className={tabClass(!isDashboard)}>
+                                        className={tabClass(isTestsPage)}>
                                         Tests
                                     </button>
                                 )}
@@ -403,6 +433,15 @@ export default function Header({
                                 }`}>
                                 <LayoutDashboard className="h-4 w-4 flex-shrink-0" /> Dashboard
                             </button>
+                            <button
+                                onClick={handleRunsClick}
+                                className={`flex w-full items-center gap-3 rounded-xl px-3 py-3 text-sm font-medium transition-colors ${
+                                    isRuns
+                                        ? 'bg-primary-50 text-primary-700 dark:bg-primary-500/15 dark:text-primary-300'
+                                        : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-white/[0.06]'
+                                }`}>
+                                <History className="h-4 w-4 flex-shrink-0" /> Runs
+                            </button>
 
                             {tabsLoading ? (
                                 <>
@@ -415,7 +454,7 @@ export default function Header({
                                         key={tab.project}
                                         onClick={() => handleProjectTabClick(tab.project)}
                                         className={`flex w-full items-center gap-1.5 rounded-xl px-3 py-3 text-sm font-medium transition-colors ${
-                                            !isDashboard && activeProject === tab.project
+                                            isTestsPage && activeProject === tab.project
                                                 ? 'bg-primary-50 text-primary-700 dark:bg-primary-500/15 dark:text-primary-300'
                                                 : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-white/[0.06]'
                                         }`}>
@@ -431,7 +470,7 @@ export default function Header({
                                         setMobileMenuOpen(false)
                                     }}
                                     className={`flex w-full items-center gap-3 rounded-xl px-3 py-3 text-sm font-medium transition-colors ${
-                                        !isDashboard
+                                        isTestsPage
                                             ? 'bg-primary-50 text-primary-700 dark:bg-primary-500/15 dark:text-primary-300'
                                             : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-white/[0.06]'
                                     }`}>
@@ -266,7 +266,7 @@ describe('Header', () => {
                     projectTabs={sampleTabs}
                     wsConnected={true}
                     projectStatusSummary={[
-                        {project: 'All_Tests', total: 62, passed: 62, failed: 0},
+                        {project: 'All_Tests', total: 62, passed: 62, failed: 0, quarantined: 0},
                     ]}
                 />
             )
@@ -280,7 +280,9 @@ describe('Header', () => {
                     activeProject=""
                     projectTabs={sampleTabs}
                     wsConnected={true}
-                    projectStatusSummary={[{project: 'All_Tests', total: 8, passed: 5, failed: 3}]}
+                    projectStatusSummary={[
+                        {project: 'All_Tests', total: 8, passed: 5, failed: 3, quarantined: 0},
+                    ]}
                 />
             )
 
@@ -295,7 +297,13 @@ describe('Header', () => {
                     projectTabs={sampleTabs}
                     wsConnected={true}
                     projectStatusSummary={[
-                        {project: 'Some_Other_Project', total: 10, passed: 10, failed: 0},
+                        {
+                            project: 'Some_Other_Project',
+                            total: 10,
+                            passed: 10,
+                            failed: 0,
+                            quarantined: 0,
+                        },
                     ]}
                 />
             )
@@ -310,7 +318,7 @@ describe('Header', () => {
                     projectTabs={sampleTabs}
                     wsConnected={true}
                     projectStatusSummary={[
-                        {project: 'All_Tests', total: 68, passed: 63, failed: 5},
+                        {project: 'All_Tests', total: 68, passed: 63, failed: 5, quarantined: 0},
                     ]}
                 />
             )
@@ -323,7 +331,13 @@ describe('Header', () => {
                         projectTabs={sampleTabs}
                         wsConnected={true}
                         projectStatusSummary={[
-                            {project: 'All_Tests', total: 68, passed: 64, failed: 4},
+                            {
+                                project: 'All_Tests',
+                                total: 68,
+                                passed: 64,
+                                failed: 4,
+                                quarantined: 0,
+                            },
                         ]}
                     />
                 </MemoryRouter>
@@ -331,6 +345,21 @@ describe('Header', () => {
             expect(screen.getAllByText('4 failed').length).toBeGreaterThan(0)
             expect(screen.queryByText(/5 failed/)).not.toBeInTheDocument()
         })
+
+        it('should show quarantined failures when nothing else failed', () => {
+            renderWithRouter(
+                <Header
+                    activeProject=""
+                    projectTabs={sampleTabs}
+                    wsConnected={true}
+                    projectStatusSummary={[
+                        {project: 'All_Tests', total: 10, passed: 8, failed: 0, quarantined: 2},
+                    ]}
+                />
+            )
+            expect(screen.getAllByText('2 quarantined').length).toBeGreaterThan(0)
+            expect(screen.queryByText(/failed/)).not.toBeInTheDocument()
+        })
     })
 
     describe('Running/queued dot (shared across manual runs and the pipeline)', () => {
@@ -464,5 +493,48 @@ describe('Header', () => {
             const queuedIcon = tab?.querySelector('[data-testid="tab-status-queued"]')
             expect(queuedIcon).toHaveAttribute('aria-label', 'Queued — step 2 of 2')
         })
+
+        it('labels the queued icon with its stage when steps run in parallel', () => {
+            renderWithRouter(
+                <Header
+                    activeProject=""
+                    projectTabs={sampleTabs}
+                    wsConnected={true}
+                    pipeline={{
+                        pipelineRunId: 'p5',
+                        status: 'running',
+                        startedAt: '2026-01-01T00:00:00.000Z',
+                        steps: [
+                            {
+                                project: 'Frontend',
+                                displayName: 'Frontend',
+                                stopOnFailure: false,
+                                status: 'running',
+                                stage: 1,
+                            },
+                            {
+                                project: 'Backend',
+                                displayName: 'Backend',
+                                stopOnFailure: false,
+                                status: 'running',
+                                stage: 1,
+                            },
+                            {
+                                project: 'All_Tests',
+                                displayName: 'All Tests',
+                                stopOnFailure: false,
+                                status: 'queued',
+                                stage: 2,
+                            },
+                        ],
+                    }}
+                    runningProjects={new Set()}
+                />
+            )
+
+            const tab = screen.getAllByText('All Tests')[0].closest('button')
+            const queuedIcon = tab?.querySelector('[data-testid="tab-status-queued"]')
+            expect(queuedIcon).toHaveAttribute('aria-label', 'Queued — stage 2 of 2')
+        })
     })
 })
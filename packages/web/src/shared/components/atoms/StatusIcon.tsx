@@ -1,6 +1,13 @@
-import {CheckCircle2, XCircle, SkipForward, CircleDot, HelpCircle} from 'lucide-react'
+import {
+    CheckCircle2,
+    XCircle,
+    SkipForward,
+    CircleDot,
+    HelpCircle,
+    AlertTriangle,
+} from 'lucide-react'
 
-export type TestStatus = 'passed' | 'failed' | 'skipped' | 'pending'
+export type TestStatus = 'passed' | 'failed' | 'skipped' | 'pending' | 'flaky'
 
 export interface StatusIconProps {
     status: TestStatus
@@ -17,6 +24,8 @@ export function StatusIcon({status, className = 'h-3.5 w-3.5'}: StatusIconProps)
             return <SkipForward className={className} />
         case 'pending':
             return <CircleDot className={className} />
+        case 'flaky':
+            return <AlertTriangle className={className} />
         default:
             return <HelpCircle className={className} />
     }
@@ -18,6 +18,7 @@ export function StatusBadge({
         failed: 'danger',
         skipped: 'warning',
         pending: 'info',
+        flaky: 'warning',
     }
 
     return (